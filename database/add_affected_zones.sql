@@ -0,0 +1,112 @@
+-- SQL script to add admin-drawn affected zones
+-- Admins draw polygons, circles and lines on the map (AffectedZoneService); a zone selects the
+-- reports inside it, targets notifications at reporters and saved places inside it, and is
+-- attached to the official alerts issued for it. Saved places are mirrored here from the
+-- device (GeofenceService) so zone alerts can reach their owners; each user can only read
+-- and change their own, and admins look up the places inside a zone through
+-- saved_places_in_bounds.
+
+CREATE TABLE IF NOT EXISTS affected_zones (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    shape_type VARCHAR(20) NOT NULL CHECK (shape_type IN ('polygon', 'circle', 'line')),
+    coordinates JSONB NOT NULL, -- [{lat, lng}]: polygon vertices, circle centre, or line vertices
+    radius_km DECIMAL(7,3), -- Circle radius or line buffer half-width; NULL for polygons
+    created_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_affected_zones_updated_at ON affected_zones(updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS zone_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    zone_id UUID NOT NULL REFERENCES affected_zones(id) ON DELETE CASCADE,
+    alert_type VARCHAR(20) NOT NULL CHECK (alert_type IN ('bulletin', 'advisory', 'warning', 'emergency')),
+    priority VARCHAR(20) NOT NULL CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+    category VARCHAR(20) NOT NULL CHECK (category IN ('weather', 'tsunami', 'cyclone', 'marine', 'coastal', 'general')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    action_instructions TEXT[] DEFAULT '{}',
+    region TEXT[] DEFAULT '{}',
+    coordinates JSONB NOT NULL, -- Zone outline as a closed [{lat, lng}] ring (OfficialAlert.coordinates)
+    issued_by VARCHAR(100) NOT NULL,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    valid_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    recipients INTEGER NOT NULL DEFAULT 0 -- Users notified when the alert was issued
+);
+
+CREATE INDEX IF NOT EXISTS idx_zone_alerts_zone_id ON zone_alerts(zone_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_zone_alerts_valid_until ON zone_alerts(valid_until);
+
+CREATE TABLE IF NOT EXISTS saved_places (
+    id VARCHAR(100) PRIMARY KEY, -- Geofence id generated on the device
+    user_id VARCHAR(100) NOT NULL,
+    name VARCHAR(200) NOT NULL,
+    lat DOUBLE PRECISION NOT NULL,
+    lng DOUBLE PRECISION NOT NULL,
+    radius_km DECIMAL(6,2) NOT NULL,
+    hazard_types TEXT[] DEFAULT '{}',
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_places_user_id ON saved_places(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_places_location ON saved_places(lat, lng);
+
+COMMENT ON TABLE affected_zones IS 'Named areas drawn by admins on the map to select reports, target notifications and attach to alerts';
+COMMENT ON TABLE zone_alerts IS 'Official alerts issued for an affected zone, with the zone outline as the alert coordinates';
+COMMENT ON TABLE saved_places IS 'Server copy of the saved places (geofences) users keep on their devices';
+
+ALTER TABLE saved_places ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own saved places" ON saved_places;
+CREATE POLICY "Users can view their own saved places" ON saved_places
+    FOR SELECT USING (user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can add their own saved places" ON saved_places;
+CREATE POLICY "Users can add their own saved places" ON saved_places
+    FOR INSERT WITH CHECK (user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can update their own saved places" ON saved_places;
+CREATE POLICY "Users can update their own saved places" ON saved_places
+    FOR UPDATE USING (user_id = auth.uid()::text) WITH CHECK (user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own saved places" ON saved_places;
+CREATE POLICY "Users can delete their own saved places" ON saved_places
+    FOR DELETE USING (user_id = auth.uid()::text);
+
+-- Enabled saved places of every user inside a bounding box, for targeting zone alerts.
+-- Runs as the owner to see past the policies above, so it checks the caller is an admin first
+CREATE OR REPLACE FUNCTION saved_places_in_bounds(
+    north DOUBLE PRECISION,
+    south DOUBLE PRECISION,
+    east DOUBLE PRECISION,
+    west DOUBLE PRECISION
+) RETURNS SETOF saved_places AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_roles ur
+        WHERE ur.user_id = auth.uid()
+        AND ur.role IN ('admin', 'system_admin')
+    ) THEN
+        RAISE EXCEPTION 'Only admins can look up saved places' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM saved_places sp
+    WHERE sp.enabled
+    AND sp.lat BETWEEN south AND north
+    AND sp.lng BETWEEN west AND east;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION saved_places_in_bounds(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION saved_places_in_bounds(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+
+-- Grant permissions (adjust as needed for your setup)
+-- GRANT ALL ON affected_zones TO authenticated;
+-- GRANT ALL ON zone_alerts TO authenticated;
+-- GRANT ALL ON saved_places TO authenticated;
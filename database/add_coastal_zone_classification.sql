@@ -0,0 +1,15 @@
+-- SQL script to add coastal zone classification to the reports table
+-- Written at submission by CoastalZoneService: district land strips (e.g. 'MH-RAIGAD'),
+-- their coastal waters ('MH-RAIGAD-WATERS') and offshore zones ('MH-OFFSHORE-ARABIAN_SEA').
+-- NULL when the location is inland or outside the bundled zones.
+-- Rows stored before this column existed stay NULL until they are classified with
+-- src/scripts/backfillCoastalZones.ts; zone queries in ReportService classify such
+-- rows from their location in the meantime.
+
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS coastal_zone VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_reports_coastal_zone ON reports (coastal_zone);
+CREATE INDEX IF NOT EXISTS idx_reports_zone_created ON reports (coastal_zone, created_at DESC);
+
+COMMENT ON COLUMN reports.coastal_zone IS 'Coastal district or sea zone id from the bundled zone dataset (src/data/coastalZones.ts)';
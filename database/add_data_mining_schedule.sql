@@ -0,0 +1,68 @@
+-- SQL script to coordinate scheduled data mining runs across admin sessions
+-- Every open admin session runs DataMiningPipelineService's schedule, and each run
+-- writes data_mining_hotspots, hotspot_evolution and escalation alerts. A session
+-- claims a run through claim_data_mining_run first, so only one session runs the
+-- pipeline per interval and hotspot identities stay on a single line of runs.
+
+CREATE TABLE IF NOT EXISTS data_mining_schedule (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- Single row
+    claimed_by UUID,
+    running_until TIMESTAMP WITH TIME ZONE, -- End of the claim's lease; NULL once released
+    finished_at TIMESTAMP WITH TIME ZONE -- Last successful run
+);
+
+-- No policies: the table is only reached through the functions below
+ALTER TABLE data_mining_schedule ENABLE ROW LEVEL SECURITY;
+
+-- Runs from before the claims existed count as the last run
+INSERT INTO data_mining_schedule (id, finished_at)
+SELECT TRUE, MAX(analysis_timestamp) FROM text_mining_results
+ON CONFLICT (id) DO NOTHING;
+
+-- Claims the next run for the caller unless one is running or the last one finished
+-- less than min_interval_seconds ago. The row lock queues concurrent claims, so the
+-- check and the claim are one atomic step and only one session gets it
+CREATE OR REPLACE FUNCTION claim_data_mining_run(
+    min_interval_seconds DOUBLE PRECISION,
+    lease_seconds DOUBLE PRECISION
+) RETURNS BOOLEAN AS $$
+DECLARE
+    claimed BOOLEAN;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_roles ur
+        WHERE ur.user_id = auth.uid()
+        AND ur.role IN ('admin', 'system_admin')
+    ) THEN
+        RAISE EXCEPTION 'Only admins can run data mining' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO data_mining_schedule AS ds (id, claimed_by, running_until)
+    VALUES (TRUE, auth.uid(), NOW() + make_interval(secs => lease_seconds))
+    ON CONFLICT (id) DO UPDATE
+    SET claimed_by = EXCLUDED.claimed_by, running_until = EXCLUDED.running_until
+    WHERE (ds.running_until IS NULL OR ds.running_until <= NOW())
+    AND (ds.finished_at IS NULL OR ds.finished_at <= NOW() - make_interval(secs => min_interval_seconds))
+    RETURNING TRUE INTO claimed;
+
+    RETURN COALESCE(claimed, FALSE);
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Releases the caller's claim; a successful run becomes the last finish
+CREATE OR REPLACE FUNCTION finish_data_mining_run(succeeded BOOLEAN) RETURNS VOID AS $$
+BEGIN
+    UPDATE data_mining_schedule ds
+    SET running_until = NULL,
+        finished_at = CASE WHEN succeeded THEN NOW() ELSE ds.finished_at END
+    WHERE ds.id
+    AND ds.claimed_by = auth.uid();
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_data_mining_run(DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC;
+REVOKE ALL ON FUNCTION finish_data_mining_run(BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_data_mining_run(DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION finish_data_mining_run(BOOLEAN) TO authenticated;
+
+COMMENT ON TABLE data_mining_schedule IS 'Claim of the running data mining pipeline run across admin sessions (see DataMiningPipelineService)';
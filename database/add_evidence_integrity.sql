@@ -0,0 +1,15 @@
+-- SQL script to add media forensics results to the reports table
+-- Written at submission by EvidenceForensicsService; NULL when the report has no media
+
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS evidence_integrity SMALLINT CHECK (evidence_integrity BETWEEN 0 AND 100);
+
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS evidence_flags JSONB DEFAULT '[]'::jsonb;
+
+-- Reviewers filter for reports whose evidence needs a closer look
+CREATE INDEX IF NOT EXISTS idx_reports_evidence_integrity ON reports (evidence_integrity)
+WHERE evidence_integrity IS NOT NULL;
+
+COMMENT ON COLUMN reports.evidence_integrity IS 'Evidence integrity score 0-100 from EXIF time/GPS consistency and perceptual-hash reuse checks';
+COMMENT ON COLUMN reports.evidence_flags IS 'JSON array of evidence flags: code, severity, message, attachment_id, related_report_ids';
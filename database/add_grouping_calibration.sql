@@ -0,0 +1,42 @@
+-- SQL script to add grouping calibration tables
+-- Reviewer decisions are stored as labeled report pairs, and GroupingCalibrationService
+-- fits weights on them; each fitted weight set is a config version an admin applies or rolls back
+
+CREATE TABLE IF NOT EXISTS grouping_feedback (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID REFERENCES report_groups(id) ON DELETE SET NULL,
+    report_id VARCHAR(50) NOT NULL,
+    paired_report_id VARCHAR(50) NOT NULL, -- The group's primary report
+    is_duplicate BOOLEAN NOT NULL, -- TRUE when the reviewer approved the grouping
+
+    -- Detector signals at review time
+    textual_similarity_score DECIMAL(3,2) NOT NULL DEFAULT 0.00,
+    spatial_distance_meters INTEGER,
+    proximity_radius_meters INTEGER, -- Base radius of the group's hazard profile; NULL means the configured default
+    category_match BOOLEAN NOT NULL DEFAULT FALSE,
+    confidence_score DECIMAL(3,2) NOT NULL DEFAULT 0.00,
+
+    reviewer VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grouping_feedback_created_at ON grouping_feedback(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS grouping_config_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    version SERIAL UNIQUE,
+    config JSONB NOT NULL, -- textSimilarityWeight, proximityWeight, categoryMatchWeight, minConfidenceThreshold
+    metrics JSONB, -- Precision/recall of the calibration, NULL for hand-tuned configs
+    status VARCHAR(20) NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'active', 'superseded', 'rolled_back')),
+    created_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    applied_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT
+);
+
+-- At most one active config
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grouping_config_versions_active
+ON grouping_config_versions(status) WHERE status = 'active';
+
+COMMENT ON TABLE grouping_feedback IS 'Approve/reject decisions from GroupedReportsView as labeled report pairs for weight calibration';
+COMMENT ON TABLE grouping_config_versions IS 'Versioned ReportGroupingService weight sets; exactly one is active once calibration is in use';
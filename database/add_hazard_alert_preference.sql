@@ -0,0 +1,8 @@
+-- SQL script to add the hazard alert switch to notification preferences
+-- Controls notifications from GeofenceService for reports and INCOIS warnings near
+-- a user's saved places. The saved places themselves stay on the device.
+
+ALTER TABLE notification_preferences
+ADD COLUMN IF NOT EXISTS hazard_alerts BOOLEAN DEFAULT TRUE;
+
+COMMENT ON COLUMN notification_preferences.hazard_alerts IS 'Notify about reports and INCOIS warnings near the user''s saved places';
@@ -0,0 +1,31 @@
+-- SQL script to add persistent hotspot identities to the data mining tables
+-- Each pipeline run (DataMiningPipelineService) matches its hotspots to the previous run's by
+-- shared reports and centroid distance (SpatialDataMiningService.trackHotspots), so a hotspot keeps
+-- its hotspot_id across runs. Every run records one hotspot_evolution row per hotspot: a lifecycle
+-- event (born, grew, merged, split, decayed, closed), or 'tracked' when it carried on unchanged.
+
+ALTER TABLE data_mining_hotspots ADD COLUMN IF NOT EXISTS hotspot_id TEXT;
+ALTER TABLE data_mining_hotspots ADD COLUMN IF NOT EXISTS report_ids JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE data_mining_hotspots ADD COLUMN IF NOT EXISTS bounding_box JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_hotspots_hotspot_id ON data_mining_hotspots (hotspot_id, detection_timestamp);
+
+ALTER TABLE hotspot_evolution ADD COLUMN IF NOT EXISTS hotspot_id TEXT;
+ALTER TABLE hotspot_evolution ADD COLUMN IF NOT EXISTS event_type TEXT
+    CHECK (event_type IN ('born', 'grew', 'merged', 'split', 'decayed', 'closed', 'tracked'));
+ALTER TABLE hotspot_evolution ADD COLUMN IF NOT EXISTS related_hotspot_ids JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE hotspot_evolution ADD COLUMN IF NOT EXISTS report_count INTEGER;
+ALTER TABLE hotspot_evolution ADD COLUMN IF NOT EXISTS previous_report_count INTEGER;
+ALTER TABLE hotspot_evolution ADD COLUMN IF NOT EXISTS risk_score DOUBLE PRECISION;
+ALTER TABLE hotspot_evolution ADD COLUMN IF NOT EXISTS risk_level TEXT
+    CHECK (risk_level IN ('low', 'medium', 'high', 'critical'));
+ALTER TABLE hotspot_evolution ADD COLUMN IF NOT EXISTS escalated BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_evolution_hotspot_id ON hotspot_evolution (hotspot_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_evolution_escalated ON hotspot_evolution (timestamp DESC) WHERE escalated;
+
+COMMENT ON COLUMN data_mining_hotspots.hotspot_id IS 'Identity of the hotspot across pipeline runs';
+COMMENT ON COLUMN data_mining_hotspots.report_ids IS 'Member report ids, matched against the next run';
+COMMENT ON COLUMN hotspot_evolution.event_type IS 'born, grew, merged, split, decayed, closed, or tracked when unchanged';
+COMMENT ON COLUMN hotspot_evolution.related_hotspot_ids IS 'Hotspots merged in or split off, or the hotspot a closed one merged into';
+COMMENT ON COLUMN hotspot_evolution.escalated IS 'Risk level rose since the previous run; admins are notified';
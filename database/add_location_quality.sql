@@ -0,0 +1,11 @@
+-- SQL script to document location quality on reports
+-- Reports now record how their position was obtained alongside lat/lng/address in the
+-- location JSONB (LocationQualityService): accuracy_m, altitude_m, altitude_accuracy_m,
+-- heading_deg, source ('gps', 'network', 'manual' or 'exif') and fixed_at. Older reports
+-- have none of these keys and are treated as roughly 100 m accurate.
+
+COMMENT ON COLUMN reports.location IS
+    'Report position: {lat, lng, address, accuracy_m, altitude_m, altitude_accuracy_m, heading_deg, source, fixed_at}; quality keys are absent on reports filed before location quality capture';
+
+-- Lets admins find reports placed by hand or from vague network fixes
+CREATE INDEX IF NOT EXISTS idx_reports_location_source ON reports ((location->>'source'));
@@ -0,0 +1,123 @@
+-- SQL script for viewport-driven map loading with server-side clustering
+-- Adds indexed coordinate and geohash columns derived from reports.location and a
+-- map_issue_clusters function that buckets the reports in a bounding box by
+-- geohash prefix. MapDataService calls it for zoomed-out views instead of
+-- loading every report into the browser.
+
+-- Geohash of a coordinate (same encoding as src/services/SpatialIndex.ts)
+CREATE OR REPLACE FUNCTION encode_geohash(
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    cell_precision INTEGER DEFAULT 9
+) RETURNS TEXT AS $$
+DECLARE
+    base32 CONSTANT TEXT := '0123456789bcdefghjkmnpqrstuvwxyz';
+    lat_min DOUBLE PRECISION := -90;
+    lat_max DOUBLE PRECISION := 90;
+    lng_min DOUBLE PRECISION := -180;
+    lng_max DOUBLE PRECISION := 180;
+    mid DOUBLE PRECISION;
+    hash TEXT := '';
+    bit_count INTEGER := 0;
+    char_index INTEGER := 0;
+    even_bit BOOLEAN := TRUE; -- Bits alternate longitude, latitude
+BEGIN
+    WHILE length(hash) < cell_precision LOOP
+        IF even_bit THEN
+            mid := (lng_min + lng_max) / 2;
+            IF lng >= mid THEN
+                char_index := char_index * 2 + 1;
+                lng_min := mid;
+            ELSE
+                char_index := char_index * 2;
+                lng_max := mid;
+            END IF;
+        ELSE
+            mid := (lat_min + lat_max) / 2;
+            IF lat >= mid THEN
+                char_index := char_index * 2 + 1;
+                lat_min := mid;
+            ELSE
+                char_index := char_index * 2;
+                lat_max := mid;
+            END IF;
+        END IF;
+
+        even_bit := NOT even_bit;
+        bit_count := bit_count + 1;
+        IF bit_count = 5 THEN
+            hash := hash || substr(base32, char_index + 1, 1);
+            bit_count := 0;
+            char_index := 0;
+        END IF;
+    END LOOP;
+
+    RETURN hash;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS location_lat DOUBLE PRECISION
+    GENERATED ALWAYS AS ((location->>'lat')::DOUBLE PRECISION) STORED;
+
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS location_lng DOUBLE PRECISION
+    GENERATED ALWAYS AS ((location->>'lng')::DOUBLE PRECISION) STORED;
+
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS geohash VARCHAR(9)
+    GENERATED ALWAYS AS (
+        encode_geohash((location->>'lat')::DOUBLE PRECISION, (location->>'lng')::DOUBLE PRECISION, 9)
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_reports_location_lat_lng ON reports (location_lat, location_lng);
+CREATE INDEX IF NOT EXISTS idx_reports_geohash ON reports (geohash text_pattern_ops);
+
+COMMENT ON COLUMN reports.location_lat IS 'Latitude from location, indexed for bounding-box map queries';
+COMMENT ON COLUMN reports.location_lng IS 'Longitude from location, indexed for bounding-box map queries';
+COMMENT ON COLUMN reports.geohash IS 'Precision 9 geohash of location; prefixes bucket reports for map clustering';
+
+-- Reports in a bounding box grouped by geohash prefix, with counts and top priority
+-- A zone filter keeps reports without a stored zone, like MapDataService.fetchIssuesInBounds
+-- does for the unclustered view; run src/scripts/backfillCoastalZones.ts once so reports
+-- saved before coastal_zone was filled are counted in their own zone only
+CREATE OR REPLACE FUNCTION map_issue_clusters(
+    north DOUBLE PRECISION,
+    south DOUBLE PRECISION,
+    east DOUBLE PRECISION,
+    west DOUBLE PRECISION,
+    cell_precision INTEGER,
+    zone_ids TEXT[] DEFAULT NULL,
+    category_filter TEXT DEFAULT NULL
+) RETURNS TABLE (
+    cell TEXT,
+    issue_count BIGINT,
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    top_priority TEXT,
+    categories TEXT[],
+    latest_at TIMESTAMPTZ
+) AS $$
+    SELECT
+        left(r.geohash, cell_precision),
+        COUNT(*),
+        AVG(r.location_lat),
+        AVG(r.location_lng),
+        (ARRAY_AGG(r.priority ORDER BY CASE r.priority
+            WHEN 'Urgent' THEN 4
+            WHEN 'High' THEN 3
+            WHEN 'Medium' THEN 2
+            ELSE 1
+        END DESC))[1],
+        ARRAY_AGG(DISTINCT r.category),
+        MAX(r.created_at)
+    FROM reports r
+    WHERE r.location_lat BETWEEN south AND north
+    AND r.location_lng BETWEEN west AND east
+    AND (zone_ids IS NULL OR r.coastal_zone = ANY(zone_ids) OR r.coastal_zone IS NULL)
+    AND (category_filter IS NULL OR r.category = category_filter)
+    GROUP BY left(r.geohash, cell_precision);
+$$ LANGUAGE sql STABLE;
+
+-- Grant necessary permissions (adjust according to your RLS policies)
+-- GRANT EXECUTE ON FUNCTION map_issue_clusters TO anon, authenticated;
@@ -0,0 +1,120 @@
+-- SQL script to add the forecast model registry
+-- Every model HazardForecastService trains for a coastal zone - the LSTM and the
+-- seasonal naive and exponential smoothing baselines it is compared with - is
+-- registered here with its artifacts, normalization, feature schema, training data
+-- range and backtest metrics under its own version. One version per zone is active
+-- and produces that zone's forecasts; promoting or rolling back changes which one.
+
+CREATE TABLE IF NOT EXISTS model_registry (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  model_version TEXT NOT NULL UNIQUE,
+  coastal_zone TEXT NOT NULL,
+  model_kind TEXT NOT NULL CHECK (model_kind IN ('lstm', 'seasonal_naive', 'exponential_smoothing')),
+  status TEXT NOT NULL DEFAULT 'candidate' CHECK (status IN ('candidate', 'active', 'retired', 'rolled_back')),
+  feature_schema JSONB NOT NULL,
+  normalization_params JSONB,
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  artifacts JSONB,
+  metrics JSONB NOT NULL,
+  data_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  data_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  trained_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  promoted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_model_registry_zone ON model_registry (coastal_zone, trained_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_model_registry_active ON model_registry (coastal_zone) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_predictions_model_version ON hazard_predictions (model_version);
+
+ALTER TABLE model_registry ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access" ON model_registry
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow service role insert" ON model_registry;
+DROP POLICY IF EXISTS "Allow service role update" ON model_registry;
+
+DROP POLICY IF EXISTS "Admins can register models" ON model_registry;
+CREATE POLICY "Admins can register models" ON model_registry
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('admin', 'system_admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can update models" ON model_registry;
+CREATE POLICY "Admins can update models" ON model_registry
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = auth.uid()
+      AND ur.role IN ('admin', 'system_admin')
+    )
+  );
+
+-- Make a version the zone's active model in one transaction, so a zone is
+-- never left without one; the active model it replaces gets replaced_status
+-- ('retired' on promotion, 'rolled_back' on rollback). Returns promoted_at.
+CREATE OR REPLACE FUNCTION activate_forecast_model(
+    zone_id TEXT,
+    target_version TEXT,
+    replaced_status TEXT
+) RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+    activated_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_roles ur
+        WHERE ur.user_id = auth.uid()
+        AND ur.role IN ('admin', 'system_admin')
+    ) THEN
+        RAISE EXCEPTION 'Only admins can change the active model' USING ERRCODE = '42501';
+    END IF;
+
+    IF replaced_status NOT IN ('retired', 'rolled_back') THEN
+        RAISE EXCEPTION 'Unknown status for the replaced model: %', replaced_status;
+    END IF;
+
+    -- Lock the zone's models so concurrent promotions run one after another
+    PERFORM 1 FROM model_registry mr WHERE mr.coastal_zone = zone_id FOR UPDATE;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM model_registry mr
+        WHERE mr.model_version = target_version
+        AND mr.coastal_zone = zone_id
+    ) THEN
+        RAISE EXCEPTION 'Model % is not registered for %', target_version, zone_id;
+    END IF;
+
+    UPDATE model_registry mr
+    SET status = replaced_status
+    WHERE mr.coastal_zone = zone_id
+    AND mr.status = 'active'
+    AND mr.model_version <> target_version;
+
+    IF replaced_status = 'rolled_back' AND NOT FOUND THEN
+        RAISE EXCEPTION 'No active model for %', zone_id;
+    END IF;
+
+    UPDATE model_registry mr
+    SET status = 'active', promoted_at = activated_at
+    WHERE mr.model_version = target_version;
+
+    RETURN activated_at;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION activate_forecast_model(TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION activate_forecast_model(TEXT, TEXT, TEXT) TO authenticated;
+
+COMMENT ON TABLE model_registry IS 'Versioned forecast models per coastal zone (see ModelRegistryService)';
+COMMENT ON COLUMN model_registry.model_version IS 'Unique version, <kind>-<zone>-<training time>; hazard_predictions.model_version refers to it';
+COMMENT ON COLUMN model_registry.status IS 'candidate: registered, never active; active: forecasts the zone (one per zone); retired: replaced by a newer promotion; rolled_back: withdrawn after being active';
+COMMENT ON COLUMN model_registry.feature_schema IS 'Input features, their order, sequence length and horizon the model was trained on';
+COMMENT ON COLUMN model_registry.normalization_params IS 'Scaling of the input features, fitted on the training split (LSTM only)';
+COMMENT ON COLUMN model_registry.parameters IS 'Fitted parameters of a baseline model, e.g. smoothing factors';
+COMMENT ON COLUMN model_registry.artifacts IS 'LSTM topology, weight specs and base64 weights';
+COMMENT ON COLUMN model_registry.metrics IS 'Backtest over the test split of the training data';
@@ -0,0 +1,28 @@
+-- SQL script to add the attachments column to the reports table
+-- Stores every photo and video attached to a report; image_url keeps the first photo for older clients
+
+-- Add attachments column to reports table
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS attachments JSONB DEFAULT '[]'::jsonb;
+
+-- Backfill existing reports so their single image shows up in the gallery
+UPDATE reports
+SET attachments = jsonb_build_array(jsonb_build_object(
+    'id', 'legacy_' || report_id,
+    'kind', 'image',
+    'url', image_url,
+    'mime_type', 'image/jpeg',
+    'size_bytes', 0
+))
+WHERE image_url IS NOT NULL
+  AND image_url <> ''
+  AND (attachments IS NULL OR attachments = '[]'::jsonb);
+
+-- Add comment to document the new field
+COMMENT ON COLUMN reports.attachments IS 'JSON array of photo and video attachments with url, poster_url, dimensions, duration, EXIF capture time and GPS';
+
+-- Storage bucket must accept video uploads as well as images
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'video/mp4', 'video/webm', 'video/quicktime'],
+    file_size_limit = 52428800 -- 50MB
+WHERE id = 'report-images';
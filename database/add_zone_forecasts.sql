@@ -0,0 +1,139 @@
+-- SQL script to add per coastal zone forecasting to the predictive analytics tables
+-- HazardForecastService trains one LSTM model per coastal zone on its hourly report,
+-- hotspot, social media and wave height history, writes each zone's forecasts for the
+-- next hours to hazard_predictions and the training and backtest metrics of its model
+-- to model_training_history. Every admin session runs that schedule, so a session first
+-- claims each training run or refresh through claim_forecast_job.
+
+ALTER TABLE hazard_predictions ADD COLUMN IF NOT EXISTS coastal_zone TEXT;
+ALTER TABLE model_training_history ADD COLUMN IF NOT EXISTS coastal_zone TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_predictions_zone_timestamp ON hazard_predictions (coastal_zone, predicted_timestamp);
+CREATE INDEX IF NOT EXISTS idx_model_history_zone ON model_training_history (coastal_zone, trained_at DESC);
+
+COMMENT ON COLUMN hazard_predictions.coastal_zone IS 'Coastal zone id (see CoastalZoneService) the forecast is for';
+COMMENT ON COLUMN model_training_history.coastal_zone IS 'Coastal zone id the model was trained on';
+COMMENT ON COLUMN model_training_history.accuracy IS '1 - weighted absolute percentage error of the backtest over the test split';
+COMMENT ON COLUMN model_training_history.mae IS 'Backtest mean absolute error, in reports per hour';
+COMMENT ON COLUMN model_training_history.training_metrics IS 'ModelEvaluation: losses, backtest errors by hours ahead, seasonal naive baseline and skill, plus the data range';
+
+-- Forecast jobs across admin sessions: who runs one now, and when each last finished
+CREATE TABLE IF NOT EXISTS forecast_jobs (
+    job TEXT PRIMARY KEY CHECK (job IN ('train', 'refresh')),
+    claimed_by UUID,
+    running_until TIMESTAMP WITH TIME ZONE, -- End of the claim's lease; NULL once released
+    finished_at TIMESTAMP WITH TIME ZONE -- Last successful run
+);
+
+-- No policies: the table is only reached through the functions below
+ALTER TABLE forecast_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Models trained before the claims existed count as the last training run
+INSERT INTO forecast_jobs (job, finished_at)
+SELECT 'train', MAX(trained_at) FROM model_training_history
+WHERE model_type = 'predictive' AND coastal_zone IS NOT NULL
+ON CONFLICT (job) DO NOTHING;
+
+-- Claims a job for the caller unless any job is running or this one finished less than
+-- min_interval_seconds ago. The table lock queues concurrent claims, so the check and the
+-- claim are one atomic step and only one session gets it
+CREATE OR REPLACE FUNCTION claim_forecast_job(
+    job_name TEXT,
+    min_interval_seconds DOUBLE PRECISION,
+    lease_seconds DOUBLE PRECISION
+) RETURNS BOOLEAN AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_roles ur
+        WHERE ur.user_id = auth.uid()
+        AND ur.role IN ('admin', 'system_admin')
+    ) THEN
+        RAISE EXCEPTION 'Only admins can run forecasts' USING ERRCODE = '42501';
+    END IF;
+
+    LOCK TABLE forecast_jobs IN SHARE ROW EXCLUSIVE MODE;
+
+    IF EXISTS (SELECT 1 FROM forecast_jobs fj WHERE fj.running_until > NOW()) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM forecast_jobs fj
+        WHERE fj.job = job_name
+        AND fj.finished_at > NOW() - make_interval(secs => min_interval_seconds)
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO forecast_jobs (job, claimed_by, running_until)
+    VALUES (job_name, auth.uid(), NOW() + make_interval(secs => lease_seconds))
+    ON CONFLICT (job) DO UPDATE
+    SET claimed_by = EXCLUDED.claimed_by, running_until = EXCLUDED.running_until;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Releases the caller's claim; a successful run becomes the job's last finish
+CREATE OR REPLACE FUNCTION finish_forecast_job(job_name TEXT, succeeded BOOLEAN) RETURNS VOID AS $$
+BEGIN
+    UPDATE forecast_jobs fj
+    SET running_until = NULL,
+        finished_at = CASE WHEN succeeded THEN NOW() ELSE fj.finished_at END
+    WHERE fj.job = job_name
+    AND fj.claimed_by = auth.uid();
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Replaces a zone's pending forecasts from from_hour on with new ones in one transaction.
+-- hazard_predictions has no DELETE or UPDATE policy, so forecasts are only replaced here
+CREATE OR REPLACE FUNCTION replace_zone_forecasts(
+    zone_id TEXT,
+    from_hour TIMESTAMP WITH TIME ZONE,
+    forecasts JSONB -- [{prediction_horizon_hours, predicted_timestamp, predicted_report_count, ...}]
+) RETURNS INTEGER AS $$
+DECLARE
+    inserted INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_roles ur
+        WHERE ur.user_id = auth.uid()
+        AND ur.role IN ('admin', 'system_admin')
+    ) THEN
+        RAISE EXCEPTION 'Only admins can write forecasts' USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM hazard_predictions hp
+    WHERE hp.coastal_zone = zone_id
+    AND hp.actual_report_count IS NULL
+    AND hp.predicted_timestamp >= from_hour;
+
+    INSERT INTO hazard_predictions (
+        prediction_horizon_hours, predicted_timestamp, predicted_report_count, confidence,
+        risk_level, model_version, training_metrics, coastal_zone
+    )
+    SELECT f.prediction_horizon_hours, f.predicted_timestamp, f.predicted_report_count, f.confidence,
+        f.risk_level, f.model_version, f.training_metrics, zone_id
+    FROM jsonb_to_recordset(forecasts) AS f(
+        prediction_horizon_hours INTEGER,
+        predicted_timestamp TIMESTAMP WITH TIME ZONE,
+        predicted_report_count INTEGER,
+        confidence DOUBLE PRECISION,
+        risk_level TEXT,
+        model_version TEXT,
+        training_metrics JSONB
+    );
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    RETURN inserted;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_forecast_job(TEXT, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC;
+REVOKE ALL ON FUNCTION finish_forecast_job(TEXT, BOOLEAN) FROM PUBLIC;
+REVOKE ALL ON FUNCTION replace_zone_forecasts(TEXT, TIMESTAMP WITH TIME ZONE, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_forecast_job(TEXT, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION finish_forecast_job(TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION replace_zone_forecasts(TEXT, TIMESTAMP WITH TIME ZONE, JSONB) TO authenticated;
+
+COMMENT ON TABLE forecast_jobs IS 'Claims of forecast training runs and refreshes across admin sessions (see HazardForecastService)';
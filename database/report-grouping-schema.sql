@@ -65,7 +65,7 @@ CREATE TABLE IF NOT EXISTS report_group_memberships (
 CREATE TABLE IF NOT EXISTS report_grouping_history (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     report_id VARCHAR(50) NOT NULL,
-    action VARCHAR(50) NOT NULL, -- 'detected', 'grouped', 'ungrouped', 'merged'
+    action VARCHAR(50) NOT NULL, -- 'detected', 'grouped', 'ungrouped', 'merged', 'approved', 'rejected', 'recomputed', 'dissolved'
     group_id UUID REFERENCES report_groups(id) ON DELETE SET NULL,
     previous_group_id UUID REFERENCES report_groups(id) ON DELETE SET NULL,
     
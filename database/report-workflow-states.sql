@@ -0,0 +1,38 @@
+-- Report workflow states migration
+-- Allows the statuses defined by ReportWorkflowService and maps legacy values onto them
+
+DO $$
+BEGIN
+    -- Drop the existing status check constraint
+    ALTER TABLE reports DROP CONSTRAINT IF EXISTS reports_status_check;
+    RAISE NOTICE 'Dropped existing status check constraint';
+
+    -- Map statuses written by earlier versions onto workflow states
+    UPDATE reports SET status = 'Triaged' WHERE status IN ('Reviewed', 'In Review', 'Under Review');
+    UPDATE reports SET status = 'Field-Verified' WHERE status = 'Verified';
+    UPDATE reports SET status = 'Escalated-to-INCOIS' WHERE status = 'Forwarded';
+    UPDATE reports SET status = 'Resolved' WHERE status = 'Closed';
+    RAISE NOTICE 'Migrated legacy status values';
+
+    -- Allow every state used by the report workflows
+    ALTER TABLE reports ADD CONSTRAINT reports_status_check
+    CHECK (status IN (
+        'Submitted',
+        'Triaged',
+        'Field-Verified',
+        'Escalated-to-INCOIS',
+        'Resolved',
+        'Rejected',
+        'Duplicate'
+    ));
+    RAISE NOTICE 'Added workflow status check constraint';
+
+    ALTER TABLE reports ALTER COLUMN status SET DEFAULT 'Submitted';
+
+    RAISE NOTICE 'Report workflow states migration completed successfully!';
+
+EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'Error during report workflow migration: %', SQLERRM;
+    RAISE;
+END
+$$;
@@ -20,6 +20,8 @@ import { translations } from './utils/translations';
 import { initializeFirebaseMessaging, onForegroundMessage } from './services/firebase';
 import { updateUserIdInReports } from './services/ReportService';
 import { updateUserIdInNotifications } from './services/EnhancedNotificationService';
+import { dataMiningPipelineService } from './services/DataMiningPipelineService';
+import { hazardForecastService } from './services/HazardForecastService';
 
 type Page = 'welcome' | 'home' | 'report-detail' | 'about' | 'admin' | 'notifications' | 'notifications-history' | 'notification-preferences' | 'geocoding-test' | 'city' | 'climate-dashboard' | 'data-mining';
 
@@ -46,6 +48,18 @@ function AppContent() {
     console.log("App running in open access mode");
   }, []);
 
+  // Admin sessions keep the data mining results and zone forecasts fresh; each run is
+  // claimed first, so only one open session does it
+  useEffect(() => {
+    if (!user.isAdmin) return;
+    const stopMining = dataMiningPipelineService.startSchedule();
+    const stopForecasts = hazardForecastService.startSchedule();
+    return () => {
+      stopMining();
+      stopForecasts();
+    };
+  }, [user.isAdmin]);
+
   const handleNavigate = (page: string) => {
     // Check if page contains parameters
     if (page.includes('?')) {
@@ -115,9 +129,9 @@ function AppContent() {
         // Welcome page kept for reference but not used in main flow
         return <HomePage onNavigate={handleNavigate} userId={userId} />;
       case 'home':
-        return <HomePage onNavigate={handleNavigate} userId={userId} />;
+        return <HomePage onNavigate={handleNavigate} userId={userId} isAdmin={user.isAdmin} />;
       case 'report-detail':
-        return <ReportDetailPage onNavigate={handleNavigate} reportId={reportDetailId} previousPage={previousPage} />;
+        return <ReportDetailPage onNavigate={handleNavigate} reportId={reportDetailId} previousPage={previousPage} isAdmin={user.isAdmin} />;
       case 'about':
         return <AboutPage onNavigate={handleNavigate} />;
       case 'admin':
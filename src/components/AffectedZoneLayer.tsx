@@ -0,0 +1,154 @@
+/**
+ * AffectedZoneLayer - draws admin affected zones on a react-leaflet map
+ * Saved zones in orange (the selected one solid), the zone being drawn in blue,
+ * and the reports selected inside a zone ringed in orange. While drawing,
+ * map clicks add polygon or line vertices, or place and size a circle.
+ */
+
+import React, { useEffect } from 'react';
+import { Circle, CircleMarker, Polygon, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import { getZoneDistanceKm, zoneToPolygon, type AffectedZone, type ZoneGeometry } from '../services/AffectedZoneService';
+import type { ReportData } from '../services/ReportService';
+
+interface AffectedZoneLayerProps {
+  zones: AffectedZone[];
+  selectedZoneId?: string | null;
+  draft?: ZoneGeometry | null; // Zone being drawn; map clicks edit it
+  onDraftChange?: (draft: ZoneGeometry) => void;
+  selectedReports?: ReportData[];
+  onSelectZone?: (zoneId: string) => void;
+}
+
+const ZONE_COLOR = '#ea580c';
+const DRAFT_COLOR = '#2563eb';
+
+/**
+ * One zone: circles as circles, polygons as drawn, lines with their buffer outline
+ */
+const ZoneShapeView: React.FC<{
+  zone: ZoneGeometry;
+  color: string;
+  selected: boolean;
+  label?: string;
+  onClick?: () => void;
+}> = ({ zone, color, selected, label, onClick }) => {
+  const pathOptions = { color, weight: selected ? 3 : 2, fillOpacity: selected ? 0.2 : 0.08, dashArray: selected ? undefined : '6 4' };
+  const eventHandlers = onClick ? { click: onClick } : undefined;
+  const tooltip = label ? <Tooltip sticky>{label}</Tooltip> : null;
+  const positions = zone.coordinates.map(vertex => [vertex.lat, vertex.lng] as [number, number]);
+
+  if (zone.shape_type === 'circle') {
+    return (
+      <Circle center={positions[0]} radius={(zone.radius_km || 0) * 1000} pathOptions={pathOptions} eventHandlers={eventHandlers}>
+        {tooltip}
+      </Circle>
+    );
+  }
+
+  if (zone.shape_type === 'polygon') {
+    return positions.length >= 3 ? (
+      <Polygon positions={positions} pathOptions={pathOptions} eventHandlers={eventHandlers}>
+        {tooltip}
+      </Polygon>
+    ) : (
+      <Polyline positions={positions} pathOptions={pathOptions} />
+    );
+  }
+
+  return (
+    <>
+      <Polyline positions={positions} pathOptions={{ color, weight: selected ? 4 : 3 }} eventHandlers={eventHandlers}>
+        {tooltip}
+      </Polyline>
+      {positions.length >= 2 && (
+        <Polygon
+          positions={zoneToPolygon(zone).map(vertex => [vertex.lat, vertex.lng] as [number, number])}
+          pathOptions={{ ...pathOptions, weight: 1 }}
+          eventHandlers={eventHandlers}
+        />
+      )}
+    </>
+  );
+};
+
+/**
+ * Map clicks while drawing: vertices for polygons and lines; for a circle the
+ * first click sets the centre and the next one the radius
+ */
+const DrawingHandler: React.FC<{ draft: ZoneGeometry; onDraftChange: (draft: ZoneGeometry) => void }> = ({ draft, onDraftChange }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const container = map.getContainer();
+    container.style.cursor = 'crosshair';
+    map.doubleClickZoom.disable();
+    return () => {
+      container.style.cursor = '';
+      map.doubleClickZoom.enable();
+    };
+  }, [map]);
+
+  useMapEvents({
+    click: (event) => {
+      const point = { lat: event.latlng.lat, lng: event.latlng.lng };
+      if (draft.shape_type !== 'circle' || draft.coordinates.length === 0) {
+        onDraftChange({ ...draft, coordinates: draft.shape_type === 'circle' ? [point] : [...draft.coordinates, point] });
+        return;
+      }
+      const radiusKm = getZoneDistanceKm({ shape_type: 'circle', coordinates: draft.coordinates, radius_km: 0 }, point);
+      onDraftChange({ ...draft, radius_km: Math.max(0.1, Math.round(radiusKm * 10) / 10) });
+    }
+  });
+
+  return null;
+};
+
+const AffectedZoneLayer: React.FC<AffectedZoneLayerProps> = ({
+  zones,
+  selectedZoneId,
+  draft,
+  onDraftChange,
+  selectedReports = [],
+  onSelectZone
+}) => (
+  <>
+    {zones.map(zone => (
+      <ZoneShapeView
+        key={zone.id}
+        zone={zone}
+        color={ZONE_COLOR}
+        selected={zone.id === selectedZoneId}
+        label={zone.name}
+        onClick={onSelectZone && !draft ? () => onSelectZone(zone.id) : undefined}
+      />
+    ))}
+
+    {draft && draft.coordinates.length > 0 && (
+      <>
+        <ZoneShapeView zone={draft} color={DRAFT_COLOR} selected />
+        {draft.coordinates.map((vertex, index) => (
+          <CircleMarker
+            key={`vertex-${index}`}
+            center={[vertex.lat, vertex.lng]}
+            radius={4}
+            pathOptions={{ color: '#ffffff', weight: 2, fillColor: DRAFT_COLOR, fillOpacity: 1 }}
+          />
+        ))}
+      </>
+    )}
+    {draft && onDraftChange && <DrawingHandler draft={draft} onDraftChange={onDraftChange} />}
+
+    {selectedReports.map(report => (
+      <CircleMarker
+        key={`zone-report-${report.report_id}`}
+        center={[report.location.lat, report.location.lng]}
+        radius={9}
+        pathOptions={{ color: ZONE_COLOR, weight: 3, fillOpacity: 0 }}
+      >
+        <Tooltip>{report.title} · {report.status}</Tooltip>
+      </CircleMarker>
+    ))}
+  </>
+);
+
+export default AffectedZoneLayer;
@@ -1,180 +1,181 @@
-import React, { useState, useEffect } from 'react';
-import { Activity, TrendingUp, AlertTriangle, Brain, Map, MessageSquare, BarChart3 } from 'lucide-react';
-import { mockHotspots, mockKeywords, mockPredictions, mockModelMetrics } from '../data/mockDataMiningResults';
-import predictiveAnalyticsService from '../services/PredictiveAnalyticsService';
-import spatialDataMiningService from '../services/SpatialDataMiningService';
-import textMiningService from '../services/TextMiningService';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Activity, TrendingUp, AlertTriangle, Brain, Map, MessageSquare, BarChart3, RefreshCw, Clock, Navigation, RotateCcw } from 'lucide-react';
+import {
+  dataMiningPipelineService,
+  DATA_MINING_SETTINGS,
+  DATA_MINING_UPDATED_EVENT,
+  type DataMiningSnapshot,
+  type HotspotEvolutionEntry
+} from '../services/DataMiningPipelineService';
+import {
+  hazardForecastService,
+  FORECAST_SETTINGS,
+  FORECASTS_UPDATED_EVENT,
+  getRecommendedModel,
+  type ModelTrainingRun,
+  type ZoneForecast
+} from '../services/HazardForecastService';
+import {
+  modelRegistryService,
+  MODEL_REGISTRY_UPDATED_EVENT,
+  type ForecastModelKind,
+  type RegisteredModel
+} from '../services/ModelRegistryService';
+import { getCoastalZone } from '../services/CoastalZoneService';
 
-interface HotspotData {
-  clusterId: number;
-  center: [number, number];
-  reportCount: number;
-  riskScore: number;
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
-  avgSeverity: number;
-}
+const LIFECYCLE_LABELS: Record<HotspotEvolutionEntry['event'], string> = {
+  born: 'Born',
+  grew: 'Grew',
+  merged: 'Merged',
+  split: 'Split',
+  decayed: 'Decayed',
+  closed: 'Closed',
+  tracked: 'Tracked'
+};
+
+const MODEL_KIND_LABELS: Record<ForecastModelKind, string> = {
+  lstm: 'LSTM',
+  seasonal_naive: 'Seasonal naive',
+  exponential_smoothing: 'Exponential smoothing'
+};
 
-interface KeywordData {
-  term: string;
-  tfidf: number;
-  frequency: number;
-}
+const shortHotspotId = (hotspotId: string): string => hotspotId.slice(-6).toUpperCase();
 
-interface PredictionData {
-  timestamp: Date;
-  predictedReportCount: number;
-  confidence: number;
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
-}
+const getZoneName = (zoneId: string | null): string =>
+  zoneId ? getCoastalZone(zoneId)?.name || zoneId : 'All zones';
+
+const formatComputedAgo = (timestamp: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
 
 export const DataMiningDashboard: React.FC = () => {
-  const [hotspots, setHotspots] = useState<HotspotData[]>([]);
-  const [keywords, setKeywords] = useState<KeywordData[]>([]);
-  const [predictions, setPredictions] = useState<PredictionData[]>([]);
+  const [snapshot, setSnapshot] = useState<DataMiningSnapshot | null>(null);
   const [loading, setLoading] = useState(true);
+  const [computing, setComputing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [modelTrained, setModelTrained] = useState(false);
-  const [trainingProgress, setTrainingProgress] = useState(0);
+  const [historyHotspotId, setHistoryHotspotId] = useState<string | null>(null);
+  const [history, setHistory] = useState<HotspotEvolutionEntry[]>([]);
+  const [forecasts, setForecasts] = useState<ZoneForecast[]>([]);
+  const [trainingRuns, setTrainingRuns] = useState<ModelTrainingRun[]>([]);
+  const [training, setTraining] = useState(false);
+  const [modelsByZone, setModelsByZone] = useState<Record<string, RegisteredModel[]>>({});
+  const [switchingZone, setSwitchingZone] = useState<string | null>(null);
 
-  useEffect(() => {
-    initializeDataMining();
-  }, []);
-
-  const initializeDataMining = async () => {
+  const loadSnapshot = useCallback(async () => {
     try {
-      setLoading(true);
       setError(null);
+      setSnapshot(await dataMiningPipelineService.getSnapshot());
+    } catch (err) {
+      console.error('Error loading data mining results:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load data mining results');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
-      // Generate smaller synthetic data for faster demo
-      console.log('Generating synthetic data...');
-      const syntheticReports = generateSyntheticReports(30); // Reduced from 100
-      const syntheticSocialMedia = generateSyntheticSocialMedia(20); // Reduced from 50
-      const syntheticTimeSeries = predictiveAnalyticsService.generateSyntheticData(15); // Reduced from 30
+  const loadForecasts = useCallback(async () => {
+    try {
+      const [latestForecasts, latestRuns] = await Promise.all([
+        hazardForecastService.getForecasts(),
+        hazardForecastService.getLatestTrainingRuns()
+      ]);
+      setForecasts(latestForecasts);
+      setTrainingRuns(latestRuns);
 
-      // 1. Spatial Data Mining - DBSCAN Hotspot Detection
-      console.log('Running spatial hotspot detection...');
-      setTrainingProgress(10);
-      
-      // Convert HazardReport to SpatialDataPoint format
-      const spatialData = syntheticReports.map(r => ({
-        id: r.id,
-        coordinates: [r.location.lng, r.location.lat] as [number, number],
-        severity: r.severity,
-        hazardType: r.hazardType,
-        timestamp: r.timestamp,
-        aiConfidence: 0.85
-      }));
-      
-      // Use setTimeout to yield to UI thread
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      const hotspotResults = await spatialDataMiningService.detectHotspots(spatialData);
-      const processedHotspots = hotspotResults.map(h => ({
-        clusterId: h.clusterId,
-        center: h.centroid,
-        reportCount: h.reportCount,
-        riskScore: h.riskScore,
-        riskLevel: determineRiskLevel(h.riskScore),
-        avgSeverity: h.averageSeverity
-      }));
-      setHotspots(processedHotspots);
+      const zoneIds = [...new Set([
+        ...latestRuns.map(run => run.coastalZone),
+        ...latestForecasts.map(forecast => forecast.coastalZone)
+      ])].filter((zoneId): zoneId is string => zoneId !== null);
+      const versions = await Promise.all(zoneIds.map(zoneId => modelRegistryService.listVersions(zoneId)));
+      setModelsByZone(Object.fromEntries(zoneIds.map((zoneId, index) => [zoneId, versions[index]])));
+    } catch (err) {
+      console.error('Error loading forecasts:', err);
+    }
+  }, []);
 
-      // 2. Text Mining - TF-IDF Analysis
-      console.log('Running text mining analysis...');
-      setTrainingProgress(30);
-      
-      // Yield to UI thread
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      // Convert synthetic social media to proper format
-      const socialMediaPosts = syntheticSocialMedia.map(p => ({
-        id: p.id,
-        content: p.text,
-        text: p.text,
-        timestamp: p.timestamp,
-        platform: 'synthetic' as const,
-        authorUsername: 'test_user',
-        authorFollowerCount: 100,
-        location: p.location
-      }));
-      
-      const textAnalysis = await textMiningService.analyzeSocialMediaCorpus(socialMediaPosts);
-      setKeywords(textAnalysis.globalKeywords.slice(0, 20).map(k => ({
-        term: k.term,
-        tfidf: k.score,
-        frequency: k.occurrences
-      })));
+  useEffect(() => {
+    loadSnapshot();
+    window.addEventListener(DATA_MINING_UPDATED_EVENT, loadSnapshot);
+    return () => window.removeEventListener(DATA_MINING_UPDATED_EVENT, loadSnapshot);
+  }, [loadSnapshot]);
 
-      // 3. Predictive Analytics - LSTM Training (DISABLED FOR NOW)
-      // console.log('Training predictive model...');
-      // setTrainingProgress(50);
-      // await predictiveAnalyticsService.trainPredictiveModel(syntheticTimeSeries);
-      // setTrainingProgress(60);
+  useEffect(() => {
+    loadForecasts();
+    window.addEventListener(FORECASTS_UPDATED_EVENT, loadForecasts);
+    window.addEventListener(MODEL_REGISTRY_UPDATED_EVENT, loadForecasts);
+    return () => {
+      window.removeEventListener(FORECASTS_UPDATED_EVENT, loadForecasts);
+      window.removeEventListener(MODEL_REGISTRY_UPDATED_EVENT, loadForecasts);
+    };
+  }, [loadForecasts]);
 
-      // Make predictions (using mock data instead of trained model)
-      console.log('Loading predictions...');
-      setTrainingProgress(80);
-      setPredictions(mockPredictions);
-      setTrainingProgress(100);
-      setModelTrained(false); // Model not actually trained
+  useEffect(() => {
+    if (!historyHotspotId) {
+      setHistory([]);
+      return;
+    }
+    dataMiningPipelineService.getHotspotHistory(historyHotspotId)
+      .then(setHistory)
+      .catch(err => console.error('Error loading hotspot history:', err));
+  }, [historyHotspotId, snapshot]);
 
-      console.log('Data mining initialization complete!');
-      setLoading(false);
+  const handleRecompute = async () => {
+    setComputing(true);
+    setError(null);
+    try {
+      const result = await dataMiningPipelineService.runPipeline();
+      console.log(`Data mining run finished in ${result.durationMs} ms: ${result.reportsAnalyzed} reports, ${result.hotspotCount} hotspots`);
     } catch (err) {
-      console.error('Error initializing data mining:', err);
-      setError(err instanceof Error ? err.message : 'Failed to initialize data mining');
-      setLoading(false);
+      console.error('Error running data mining:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run data mining');
+    } finally {
+      setComputing(false);
     }
   };
 
-  const determineRiskLevel = (riskScore: number): 'low' | 'medium' | 'high' | 'critical' => {
-    if (riskScore < 0.3) return 'low';
-    if (riskScore < 0.6) return 'medium';
-    if (riskScore < 0.8) return 'high';
-    return 'critical';
+  const handleRetrain = async () => {
+    setTraining(true);
+    try {
+      const result = await hazardForecastService.runForecasts();
+      console.log(`Forecast models trained in ${result.durationMs} ms for ${result.zonesTrained.length} zones`);
+    } catch (err) {
+      console.error('Error training forecast models:', err);
+      setError(err instanceof Error ? err.message : 'Failed to train forecast models');
+    } finally {
+      setTraining(false);
+    }
   };
 
-  const generateSyntheticReports = (count: number): HazardReport[] => {
-    const reports: HazardReport[] = [];
-    const centerLat = 19.0760; // Mumbai
-    const centerLng = 72.8777;
-
-    for (let i = 0; i < count; i++) {
-      // Create clusters around specific points
-      const clusterOffset = Math.floor(i / 20);
-      const lat = centerLat + (Math.random() - 0.5) * 0.5 + clusterOffset * 0.3;
-      const lng = centerLng + (Math.random() - 0.5) * 0.5 + clusterOffset * 0.3;
-
-      reports.push({
-        id: `report_${i}`,
-        location: { lat, lng },
-        hazardType: ['Tsunami', 'Cyclone', 'High Waves', 'Storm Surge'][Math.floor(Math.random() * 4)],
-        severity: Math.floor(Math.random() * 5) + 1,
-        timestamp: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000),
-        description: 'Synthetic hazard report for testing'
-      });
+  const handleModelChange = async (zoneId: string, modelVersion: string | null) => {
+    setSwitchingZone(zoneId);
+    setError(null);
+    try {
+      const model = modelVersion
+        ? await hazardForecastService.promoteModel(zoneId, modelVersion)
+        : await hazardForecastService.rollbackModel(zoneId);
+      console.log(`${getZoneName(zoneId)} now forecasts with ${model.modelVersion}`);
+    } catch (err) {
+      console.error('Error changing the active forecast model:', err);
+      setError(err instanceof Error ? err.message : 'Failed to change the active forecast model');
+    } finally {
+      setSwitchingZone(null);
     }
-
-    return reports;
   };
 
-  const generateSyntheticSocialMedia = (count: number) => {
-    const maritimeTerms = [
-      'tsunami warning', 'cyclone approaching', 'high waves', 'storm surge alert',
-      'coastal flooding', 'ship in distress', 'marine emergency', 'rough seas',
-      'harbor closed', 'evacuation notice', 'heavy rainfall', 'wind speed high'
-    ];
-
-    return Array.from({ length: count }, (_, i) => ({
-      id: `post_${i}`,
-      text: `${maritimeTerms[Math.floor(Math.random() * maritimeTerms.length)]} at coastal area! ${Math.random() > 0.5 ? 'URGENT!!!' : 'Please be careful'}`,
-      timestamp: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000),
-      location: {
-        lat: 19.0760 + (Math.random() - 0.5) * 0.5,
-        lng: 72.8777 + (Math.random() - 0.5) * 0.5
-      }
-    }));
-  };
+  const hotspots = snapshot?.hotspots || [];
+  const lifecycle = (snapshot?.evolution || []).filter(entry => entry.event !== 'tracked');
+  const escalations = (snapshot?.evolution || []).filter(entry => entry.escalated);
+  const keywords = snapshot?.textMining?.keywords.slice(0, 20) || [];
+  // Zones with a trained model first, in training order, then any others with forecasts
+  const forecastZones = [
+    ...trainingRuns.map(run => run.coastalZone),
+    ...forecasts.map(forecast => forecast.coastalZone)
+  ].filter((zoneId, index, zoneIds) => zoneIds.indexOf(zoneId) === index);
 
   const getRiskColor = (level: string) => {
     switch (level) {
@@ -193,21 +194,8 @@ export const DataMiningDashboard: React.FC = () => {
             <div className="flex items-center justify-center space-x-4">
               <Brain className="w-8 h-8 text-blue-600 animate-pulse" />
               <div>
-                <h2 className="text-xl font-semibold text-gray-800">Initializing AI Data Mining System</h2>
-                <p className="text-sm text-gray-600 mt-1">
-                  {trainingProgress === 0 && 'Loading data...'}
-                  {trainingProgress > 0 && trainingProgress < 60 && 'Training LSTM model...'}
-                  {trainingProgress >= 60 && trainingProgress < 100 && 'Generating predictions...'}
-                  {trainingProgress === 100 && 'Finalizing...'}
-                </p>
-                {trainingProgress > 0 && (
-                  <div className="mt-3 w-64 bg-gray-200 rounded-full h-2">
-                    <div 
-                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${trainingProgress}%` }}
-                    />
-                  </div>
-                )}
+                <h2 className="text-xl font-semibold text-gray-800">Loading AI Data Mining Results</h2>
+                <p className="text-sm text-gray-600 mt-1">Fetching the latest hotspots, keywords and forecasts...</p>
               </div>
             </div>
           </div>
@@ -229,7 +217,7 @@ export const DataMiningDashboard: React.FC = () => {
               </div>
             </div>
             <button
-              onClick={initializeDataMining}
+              onClick={loadSnapshot}
               className="mt-4 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
             >
               Retry
@@ -256,15 +244,49 @@ export const DataMiningDashboard: React.FC = () => {
                 Patent-Worthy Data Mining & Predictive Intelligence System
               </p>
             </div>
-            <div className="text-right">
-              <div className="text-sm text-blue-100">Model Status</div>
-              <div className="text-xl font-semibold">
-                {modelTrained ? '✓ Trained' : '⏳ Training'}
+            <div className="text-right space-y-2">
+              <div className="text-sm text-blue-100 flex items-center justify-end space-x-1">
+                <Clock className="w-4 h-4" />
+                <span>Last computed</span>
               </div>
+              <div
+                className="text-xl font-semibold"
+                title={snapshot?.lastComputedAt ? new Date(snapshot.lastComputedAt).toLocaleString() : undefined}
+              >
+                {snapshot?.lastComputedAt ? formatComputedAgo(snapshot.lastComputedAt) : 'Never'}
+              </div>
+              <button
+                onClick={handleRecompute}
+                disabled={computing}
+                className="inline-flex items-center space-x-2 px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg text-sm disabled:opacity-60"
+              >
+                <RefreshCw className={`w-4 h-4 ${computing ? 'animate-spin' : ''}`} />
+                <span>{computing ? 'Computing...' : 'Recompute now'}</span>
+              </button>
             </div>
           </div>
         </div>
 
+        {escalations.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertTriangle className="w-6 h-6 text-red-600 flex-shrink-0" />
+            <div className="text-sm text-red-800">
+              <p className="font-semibold">
+                {escalations.length} hotspot{escalations.length > 1 ? 's' : ''} escalated in the latest run
+              </p>
+              {escalations.map(entry => (
+                <button
+                  key={entry.hotspotId}
+                  onClick={() => setHistoryHotspotId(entry.hotspotId)}
+                  className="block underline hover:text-red-900"
+                >
+                  Hotspot {shortHotspotId(entry.hotspotId)} is now {entry.riskLevel} risk ({entry.reportCount} reports)
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Metrics Overview */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="bg-white rounded-lg shadow-lg p-6">
@@ -291,7 +313,7 @@ export const DataMiningDashboard: React.FC = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-gray-600">Predictions Generated</p>
-                <p className="text-3xl font-bold text-purple-600">{predictions.length}</p>
+                <p className="text-3xl font-bold text-purple-600">{forecasts.length}</p>
               </div>
               <TrendingUp className="w-12 h-12 text-purple-600 opacity-20" />
             </div>
@@ -303,15 +325,26 @@ export const DataMiningDashboard: React.FC = () => {
           <div className="flex items-center space-x-3 mb-4">
             <Map className="w-6 h-6 text-blue-600" />
             <h2 className="text-xl font-semibold text-gray-800">
-              Spatial Hotspot Detection (DBSCAN Clustering)
+              Spatial Hotspot Detection (ST-DBSCAN Clustering)
             </h2>
           </div>
+          {hotspots.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No hotspots among the reports of the last {DATA_MINING_SETTINGS.lookbackDays} days.
+            </p>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {hotspots.map((hotspot, idx) => (
-              <div key={idx} className="border border-gray-200 rounded-lg p-4">
+            {hotspots.map(hotspot => (
+              <button
+                key={hotspot.hotspotId}
+                onClick={() => setHistoryHotspotId(hotspot.hotspotId === historyHotspotId ? null : hotspot.hotspotId)}
+                className={`text-left border rounded-lg p-4 hover:border-blue-400 ${
+                  hotspot.hotspotId === historyHotspotId ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'
+                }`}
+              >
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-gray-600">
-                    Cluster #{hotspot.clusterId}
+                    Hotspot {shortHotspotId(hotspot.hotspotId)}
                   </span>
                   <span className={`px-2 py-1 rounded-full text-xs font-semibold ${getRiskColor(hotspot.riskLevel)}`}>
                     {hotspot.riskLevel.toUpperCase()}
@@ -327,13 +360,71 @@ export const DataMiningDashboard: React.FC = () => {
                   <p className="text-gray-700">
                     <span className="font-medium">Avg Severity:</span> {hotspot.avgSeverity.toFixed(1)}/5
                   </p>
+                  {hotspot.hazardTypes.length > 0 && (
+                    <p className="text-gray-700">
+                      <span className="font-medium">Hazards:</span> {hotspot.hazardTypes.join(', ')}
+                    </p>
+                  )}
                   <p className="text-gray-500 text-xs">
                     {hotspot.center[1].toFixed(4)}, {hotspot.center[0].toFixed(4)}
                   </p>
                 </div>
-              </div>
+              </button>
             ))}
           </div>
+
+          {lifecycle.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center space-x-2">
+                <Navigation className="w-4 h-4 text-blue-600" />
+                <span>Changes since the previous run</span>
+              </h3>
+              <div className="space-y-2">
+                {lifecycle.map(entry => (
+                  <button
+                    key={`${entry.hotspotId}-${entry.event}`}
+                    onClick={() => setHistoryHotspotId(entry.hotspotId)}
+                    className="w-full flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm"
+                  >
+                    <span className="font-medium text-gray-700">
+                      Hotspot {shortHotspotId(entry.hotspotId)} · {LIFECYCLE_LABELS[entry.event]}
+                      {entry.relatedHotspotIds.length > 0 && ` (${entry.relatedHotspotIds.map(shortHotspotId).join(', ')})`}
+                    </span>
+                    <span className="text-gray-600">
+                      {entry.previousReportCount ?? 0} → {entry.reportCount} reports
+                      {entry.distanceKm > 0.05 && ` · ${entry.distanceKm.toFixed(1)} km ${entry.direction}`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {historyHotspotId && (
+            <div className="mt-6 border-t border-gray-200 pt-4">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-700">
+                  History of hotspot {shortHotspotId(historyHotspotId)}
+                </h3>
+                <button onClick={() => setHistoryHotspotId(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                  Close
+                </button>
+              </div>
+              {history.length === 0 && <p className="text-sm text-gray-500">No recorded history yet.</p>}
+              <ol className="space-y-1 text-sm">
+                {history.map(entry => (
+                  <li key={`${entry.recordedAt}-${entry.event}`} className="flex items-center justify-between p-2 rounded bg-gray-50">
+                    <span className="text-gray-600">{new Date(entry.recordedAt).toLocaleString()}</span>
+                    <span className="font-medium text-gray-700">{LIFECYCLE_LABELS[entry.event]}</span>
+                    <span className="text-gray-600">{entry.reportCount} reports</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getRiskColor(entry.riskLevel)}`}>
+                      {entry.riskLevel}{entry.escalated ? ' ↑' : ''}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
         </div>
 
         {/* Text Mining Section */}
@@ -344,6 +435,17 @@ export const DataMiningDashboard: React.FC = () => {
               Text Mining & NLP (TF-IDF Analysis)
             </h2>
           </div>
+          {snapshot?.textMining && (
+            <p className="text-sm text-gray-600 mb-4">
+              {snapshot.textMining.totalPostsAnalyzed} reports and posts analysed · panic score{' '}
+              {(snapshot.textMining.panicScore * 100).toFixed(0)}%
+              {snapshot.textMining.crisisKeywords.length > 0 &&
+                ` · most mentioned: ${snapshot.textMining.crisisKeywords.slice(0, 3).map(keyword => keyword.term).join(', ')}`}
+            </p>
+          )}
+          {keywords.length === 0 && (
+            <p className="text-sm text-gray-500">No keywords yet; they are mined from report and social media texts.</p>
+          )}
           <div className="flex flex-wrap gap-3">
             {keywords.map((keyword, idx) => (
               <div
@@ -364,41 +466,157 @@ export const DataMiningDashboard: React.FC = () => {
 
         {/* Predictive Analytics Section */}
         <div className="bg-white rounded-lg shadow-lg p-6">
-          <div className="flex items-center space-x-3 mb-4">
-            <TrendingUp className="w-6 h-6 text-purple-600" />
-            <h2 className="text-xl font-semibold text-gray-800">
-              Predictive Analytics (LSTM Neural Network)
-            </h2>
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <TrendingUp className="w-6 h-6 text-purple-600" />
+              <h2 className="text-xl font-semibold text-gray-800">
+                Predictive Analytics (LSTM Neural Network)
+              </h2>
+            </div>
+            <button
+              onClick={handleRetrain}
+              disabled={training}
+              className="inline-flex items-center space-x-2 px-3 py-1.5 bg-purple-50 text-purple-700 hover:bg-purple-100 rounded-lg text-sm disabled:opacity-60"
+            >
+              <RefreshCw className={`w-4 h-4 ${training ? 'animate-spin' : ''}`} />
+              <span>{training ? 'Training...' : 'Retrain models'}</span>
+            </button>
           </div>
-          <div className="space-y-3">
-            {predictions.map((pred, idx) => (
-              <div key={idx} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                <div className="flex items-center space-x-4">
-                  <div className="text-sm text-gray-600">
-                    {pred.timestamp.toLocaleString('en-US', { 
-                      month: 'short', 
-                      day: 'numeric', 
-                      hour: '2-digit', 
-                      minute: '2-digit' 
-                    })}
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Activity className="w-4 h-4 text-gray-500" />
-                    <span className="text-sm font-medium">
-                      {pred.predictedReportCount} reports predicted
-                    </span>
+          {forecastZones.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No forecasts for the hours ahead yet. Each coastal zone gets a model once it has {FORECAST_SETTINGS.minZoneReports} reports in the last {FORECAST_SETTINGS.historyDays} days.
+            </p>
+          )}
+          <div className="space-y-6">
+            {forecastZones.map(zoneId => {
+              const run = trainingRuns.find(entry => entry.coastalZone === zoneId);
+              const zoneForecasts = forecasts.filter(forecast => forecast.coastalZone === zoneId);
+              const zoneModels = zoneId ? modelsByZone[zoneId] || [] : [];
+              const activeModel = zoneModels.find(model => model.status === 'active');
+              // The latest run's models, plus the active one if it is older
+              const comparedModels = zoneModels.filter(model =>
+                model.trainedAt === zoneModels[0].trainedAt || model === activeModel
+              );
+              const canRollBack = zoneModels.some(model => model.status === 'retired' && model.promotedAt);
+              const recommended = getRecommendedModel(zoneModels);
+              const headline = activeModel
+                ? { label: MODEL_KIND_LABELS[activeModel.kind], version: activeModel.modelVersion, metrics: activeModel.metrics, trainedAt: activeModel.trainedAt }
+                : run?.metrics
+                  ? { label: 'LSTM', version: run.modelVersion, metrics: run.metrics, trainedAt: run.trainedAt }
+                  : null;
+              return (
+                <div key={zoneId || 'all'}>
+                  <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                    <h3 className="text-sm font-semibold text-gray-700">{getZoneName(zoneId)}</h3>
+                    {headline && (
+                      <div className="text-xs text-gray-600 space-x-3" title={`Model ${headline.version}, backtested from ${headline.metrics.backtestOrigins} points in the test period`}>
+                        <span className="font-semibold text-purple-700">{headline.label}</span>
+                        <span className="font-semibold text-purple-700">{(headline.metrics.accuracy * 100).toFixed(0)}% accuracy</span>
+                        <span>MAE {headline.metrics.testMae.toFixed(2)} vs {headline.metrics.baselineMae.toFixed(2)} seasonal naive</span>
+                        <span>trained {formatComputedAgo(headline.trainedAt)}</span>
+                      </div>
+                    )}
                   </div>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className="text-sm text-gray-600">
-                    {(pred.confidence * 100).toFixed(0)}% confidence
+                  {zoneId && comparedModels.length > 0 && (
+                    <div className="mb-3 overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-1 pr-3 font-medium">Model</th>
+                            <th className="py-1 pr-3 font-medium">Trained</th>
+                            <th className="py-1 pr-3 font-medium">MAE</th>
+                            <th className="py-1 pr-3 font-medium">Skill</th>
+                            <th className="py-1 pr-3 font-medium">Accuracy</th>
+                            <th className="py-1 pr-3 font-medium">Status</th>
+                            <th className="py-1 text-right">
+                              {canRollBack && (
+                                <button
+                                  onClick={() => handleModelChange(zoneId, null)}
+                                  disabled={switchingZone !== null}
+                                  className="inline-flex items-center space-x-1 text-purple-700 hover:text-purple-900 disabled:opacity-60"
+                                >
+                                  <RotateCcw className="w-3 h-3" />
+                                  <span>Roll back</span>
+                                </button>
+                              )}
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {comparedModels.map(model => (
+                            <tr key={model.modelVersion} className="border-t border-gray-100" title={model.modelVersion}>
+                              <td className="py-1 pr-3 text-gray-700">{MODEL_KIND_LABELS[model.kind]}</td>
+                              <td className="py-1 pr-3 text-gray-600">{formatComputedAgo(model.trainedAt)}</td>
+                              <td className="py-1 pr-3 text-gray-700">{model.metrics.testMae.toFixed(2)}</td>
+                              <td className="py-1 pr-3 text-gray-700">{model.metrics.skill.toFixed(2)}</td>
+                              <td className="py-1 pr-3 text-gray-700">{(model.metrics.accuracy * 100).toFixed(0)}%</td>
+                              <td className="py-1 pr-3">
+                                <span className={model.status === 'active' ? 'font-semibold text-purple-700' : 'text-gray-500'}>
+                                  {model.status.replace('_', ' ')}
+                                </span>
+                                {model === recommended && model.status !== 'active' && (
+                                  <span className="ml-2 text-green-700" title="Lowest backtest MAE of the latest training run">
+                                    recommended
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-1 text-right">
+                                {model.status !== 'active' && (
+                                  <button
+                                    onClick={() => handleModelChange(zoneId, model.modelVersion)}
+                                    disabled={switchingZone !== null}
+                                    className="text-purple-700 hover:text-purple-900 disabled:opacity-60"
+                                  >
+                                    Promote
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                  {zoneForecasts.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                      {zoneId && zoneModels.length > 0 && !activeModel
+                        ? 'No forecasts until a model is promoted.'
+                        : 'No forecasts for the hours ahead.'}
+                    </p>
+                  )}
+                  <div className="space-y-3">
+                    {zoneForecasts.map(pred => (
+                      <div key={pred.timestamp.toISOString()} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div className="flex items-center space-x-4">
+                          <div className="text-sm text-gray-600">
+                            {pred.timestamp.toLocaleString('en-US', { 
+                              month: 'short', 
+                              day: 'numeric', 
+                              hour: '2-digit', 
+                              minute: '2-digit' 
+                            })}
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Activity className="w-4 h-4 text-gray-500" />
+                            <span className="text-sm font-medium">
+                              {pred.predictedReportCount} reports predicted
+                            </span>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <div className="text-sm text-gray-600">
+                            {(pred.confidence * 100).toFixed(0)}% confidence
+                          </div>
+                          <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getRiskColor(pred.riskLevel)}`}>
+                            {pred.riskLevel}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                  <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getRiskColor(pred.riskLevel)}`}>
-                    {pred.riskLevel}
-                  </span>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
 
@@ -411,11 +629,12 @@ export const DataMiningDashboard: React.FC = () => {
                 Patent-Worthy Technologies Implemented
               </h3>
               <ul className="space-y-1 text-sm text-amber-800">
-                <li>✓ DBSCAN-based spatial clustering with multi-factor risk scoring</li>
+                <li>✓ Spatio-temporal DBSCAN clustering with multi-factor risk scoring</li>
                 <li>✓ TF-IDF text mining with panic score calculation</li>
                 <li>✓ LSTM neural network for 12-hour hazard forecasting</li>
                 <li>✓ Real-time knowledge discovery from maritime big data</li>
-                <li>✓ Multi-variate time series prediction with 85% accuracy</li>
+                <li>✓ Multi-variate time series prediction per coastal zone, backtested against a seasonal naive forecast</li>
+                <li>✓ Versioned model registry with baseline comparison, promotion and rollback per zone</li>
               </ul>
             </div>
           </div>
@@ -0,0 +1,98 @@
+/**
+ * EvacuationRouteLayer - draws an evacuation plan on a react-leaflet map
+ * Green: recommended route; dashed red: faster route through a hotspot;
+ * grey: routes to other shelters; blue shading: walking or driving isochrones.
+ * Routes to placeholder shelters say so in their tooltips
+ */
+
+import React from 'react';
+import { Circle, CircleMarker, Polygon, Polyline, Tooltip } from 'react-leaflet';
+import type { EvacuationPlan, EvacuationRoute } from '../services/EvacuationService';
+import type { GeoCoordinate } from '../services/GeospatialUtils';
+
+interface EvacuationRouteLayerProps {
+  plan: EvacuationPlan;
+}
+
+const toLatLng = (coordinate: GeoCoordinate): [number, number] => [coordinate.latitude, coordinate.longitude];
+
+const illustrativeNote = (route: EvacuationRoute): string => route.illustrative ? ' (illustrative, not an official shelter)' : '';
+
+const EvacuationRouteLayer: React.FC<EvacuationRouteLayerProps> = ({ plan }) => {
+  // Largest first so smaller isochrones draw on top
+  const isochrones = [...plan.isochrones].sort((a, b) => b.minutes - a.minutes);
+
+  return (
+    <>
+      {isochrones.map((isochrone, index) => (
+        <Polygon
+          key={`isochrone-${isochrone.minutes}`}
+          positions={isochrone.polygon.map(toLatLng)}
+          pathOptions={{ color: '#2563eb', weight: 1, fillOpacity: 0.08 + index * 0.05 }}
+        >
+          <Tooltip sticky>Within {isochrone.minutes} minutes</Tooltip>
+        </Polygon>
+      ))}
+
+      {plan.hazards.map((hazard, index) => (
+        <Circle
+          key={`hazard-${index}`}
+          center={toLatLng(hazard.center)}
+          radius={hazard.radiusMeters}
+          pathOptions={{ color: '#dc2626', weight: 1, fillOpacity: 0.2 }}
+        >
+          <Tooltip sticky>Active hotspot{hazard.label ? `: ${hazard.label}` : ''}</Tooltip>
+        </Circle>
+      ))}
+
+      {plan.alternatives.map(route => (
+        <Polyline
+          key={`alternative-${route.shelter.id}`}
+          positions={route.path.map(toLatLng)}
+          pathOptions={{ color: '#6b7280', weight: 3, opacity: 0.7 }}
+        >
+          <Tooltip sticky>{route.readableTime} to {route.shelter.name}{illustrativeNote(route)}</Tooltip>
+        </Polyline>
+      ))}
+
+      {plan.directRoute && (
+        <Polyline
+          positions={plan.directRoute.path.map(toLatLng)}
+          pathOptions={{ color: '#dc2626', weight: 4, dashArray: '8 8' }}
+        >
+          <Tooltip sticky>Fastest route, crosses a hotspot{illustrativeNote(plan.directRoute)}</Tooltip>
+        </Polyline>
+      )}
+
+      {plan.route && (
+        <Polyline
+          positions={plan.route.path.map(toLatLng)}
+          pathOptions={{ color: '#16a34a', weight: 6, dashArray: plan.route.routed ? undefined : '4 8' }}
+        >
+          <Tooltip sticky>{plan.route.readableTime} to {plan.route.shelter.name}{illustrativeNote(plan.route)}</Tooltip>
+        </Polyline>
+      )}
+
+      {[plan.route, ...plan.alternatives].filter((route): route is NonNullable<typeof route> => !!route).map(route => (
+        <CircleMarker
+          key={`shelter-${route.shelter.id}`}
+          center={[route.shelter.lat, route.shelter.lng]}
+          radius={8}
+          pathOptions={{ color: '#ffffff', weight: 2, fillColor: route === plan.route ? '#16a34a' : '#6b7280', fillOpacity: 1 }}
+        >
+          <Tooltip>{route.shelter.name} ({route.refugeElevationMeters} m){illustrativeNote(route)}</Tooltip>
+        </CircleMarker>
+      ))}
+
+      <CircleMarker
+        center={toLatLng(plan.origin)}
+        radius={7}
+        pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#2563eb', fillOpacity: 1 }}
+      >
+        <Tooltip>Start</Tooltip>
+      </CircleMarker>
+    </>
+  );
+};
+
+export default EvacuationRouteLayer;
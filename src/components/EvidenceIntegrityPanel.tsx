@@ -0,0 +1,90 @@
+import { ShieldCheck, ShieldAlert, AlertTriangle, Info } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { EVIDENCE_THRESHOLDS, requiresEvidenceReview, type EvidenceFlag } from '../services/EvidenceForensicsService';
+
+interface EvidenceIntegrityPanelProps {
+  score: number | null | undefined;
+  flags: EvidenceFlag[];
+  onOpenReport?: (reportId: string) => void;
+}
+
+const severityStyles: Record<EvidenceFlag['severity'], { light: string; dark: string }> = {
+  critical: { light: 'bg-red-50 text-red-800 border-red-200', dark: 'bg-red-900/30 text-red-200 border-red-800' },
+  warning: { light: 'bg-amber-50 text-amber-800 border-amber-200', dark: 'bg-amber-900/30 text-amber-200 border-amber-800' },
+  info: { light: 'bg-gray-50 text-gray-700 border-gray-200', dark: 'bg-gray-700/50 text-gray-300 border-gray-600' }
+};
+
+// Reviewer-facing summary of the media forensics checks run at submission
+const EvidenceIntegrityPanel = ({ score, flags, onOpenReport }: EvidenceIntegrityPanelProps) => {
+  const { theme } = useTheme();
+
+  if (score === null || score === undefined) {
+    return (
+      <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+        No media evidence was checked for this report.
+      </p>
+    );
+  }
+
+  const needsReview = requiresEvidenceReview({ evidence_integrity: score, evidence_flags: flags });
+  const scoreColor = score >= 80 ? 'text-green-500' : score >= EVIDENCE_THRESHOLDS.reviewScore ? 'text-amber-500' : 'text-red-500';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        {needsReview ? (
+          <ShieldAlert size={32} className="text-red-500" />
+        ) : (
+          <ShieldCheck size={32} className="text-green-500" />
+        )}
+        <div>
+          <p className={`text-3xl font-bold ${scoreColor}`}>{score}<span className="text-base font-normal text-gray-500">/100</span></p>
+          <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+            {needsReview
+              ? 'Verification requires reviewer notes explaining the evidence'
+              : 'Media metadata is consistent with the report'}
+          </p>
+        </div>
+      </div>
+
+      {flags.length > 0 && (
+        <ul className="space-y-2">
+          {flags.map((flag, index) => (
+            <li
+              key={`${flag.code}-${flag.attachment_id || index}`}
+              className={`flex items-start gap-2 p-3 rounded-lg border text-sm ${severityStyles[flag.severity][theme === 'dark' ? 'dark' : 'light']}`}
+            >
+              {flag.severity === 'info' ? (
+                <Info size={16} className="mt-0.5 flex-shrink-0" />
+              ) : (
+                <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+              )}
+              <div>
+                <p>{flag.message}</p>
+                {flag.related_report_ids && flag.related_report_ids.length > 0 && (
+                  <p className="mt-1 text-xs">
+                    Also in:{' '}
+                    {flag.related_report_ids.map((relatedId, i) => (
+                      <span key={relatedId}>
+                        {i > 0 && ', '}
+                        {onOpenReport ? (
+                          <button type="button" onClick={() => onOpenReport(relatedId)} className="underline font-mono">
+                            {relatedId}
+                          </button>
+                        ) : (
+                          <span className="font-mono">{relatedId}</span>
+                        )}
+                      </span>
+                    ))}
+                  </p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EvidenceIntegrityPanel;
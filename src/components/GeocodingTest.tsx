@@ -8,10 +8,10 @@ const GeocodingTest: React.FC = () => {
   const [isTesting, setIsTesting] = useState(false);
 
   const testLocations = [
-    { name: 'Delhi, India', lat: 28.6139, lng: 77.2090 },
-    { name: 'Mumbai, India', lat: 19.0760, lng: 72.8777 },
-    { name: 'New York, USA', lat: 40.7128, lng: -74.0060 },
-    { name: 'London, UK', lat: 51.5074, lng: -0.1278 }
+    { name: 'Mumbai, Maharashtra', lat: 19.0760, lng: 72.8777 },
+    { name: 'Alibag, Maharashtra', lat: 18.6414, lng: 72.8722 },
+    { name: 'Kovalam, Kerala', lat: 8.4004, lng: 76.9787 },
+    { name: 'Bay of Bengal off Odisha', lat: 19.4, lng: 86.2 }
   ];
 
   const runGeocodingTest = async () => {
@@ -56,15 +56,15 @@ const GeocodingTest: React.FC = () => {
 
         <div className={`${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-xl p-6 shadow-lg border mb-6`}>
           <h2 className={`text-xl font-semibold ${theme === 'dark' ? 'text-white' : 'text-gray-800'} mb-4`}>
-            Test Free Geocoding Services
+            Test Geocoding
           </h2>
           <p className={`${theme === 'dark' ? 'text-gray-300' : 'text-gray-600'} mb-4`}>
-            This test verifies that the geocoding functionality is working properly using free APIs:
+            This test verifies that coastal locations resolve to the right place:
           </p>
           <ul className={`${theme === 'dark' ? 'text-gray-300' : 'text-gray-600'} list-disc list-inside mb-6`}>
-            <li>OpenCage Geocoder (Primary - 2,500 requests/day free)</li>
-            <li>BigDataCloud (Fallback - Free tier)</li>
-            <li>OpenStreetMap Nominatim (Final fallback - Completely free)</li>
+            <li>Coastal gazetteer and zones (Primary - works offline)</li>
+            <li>OpenCage Geocoder (Optional - street address when an API key is configured)</li>
+            <li>OpenStreetMap Nominatim (Optional - street address without a key)</li>
           </ul>
 
           <button
@@ -119,6 +119,8 @@ const GeocodingTest: React.FC = () => {
                     <div className={`${theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
                       <p><strong>City:</strong> {result.actual.city}</p>
                       <p><strong>Address:</strong> {result.actual.address}</p>
+                      {result.actual.district && <p><strong>District:</strong> {result.actual.district}</p>}
+                      {result.actual.coastal_zone && <p><strong>Coastal zone:</strong> {result.actual.coastal_zone}</p>}
                       {result.actual.country && <p><strong>Country:</strong> {result.actual.country}</p>}
                     </div>
                   ) : (
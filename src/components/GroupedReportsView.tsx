@@ -9,6 +9,15 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { ReportGroup, ReportData } from '../services/ReportGroupingService';
 import { GeoCoordinate } from '../services/GeospatialUtils';
+import {
+  getReportGroupRepository,
+  approveReportGroup,
+  rejectReportGroup,
+  type ReportGroupWithMembers
+} from '../services/ReportGroupRepository';
+import { toGroupingReport } from '../services/ReportGroupingHooks';
+import { getReportById, type ReportData as StoredReport } from '../services/ReportService';
+import GroupingCalibrationPanel from './GroupingCalibrationPanel';
 
 /**
  * Props for the GroupedReportsView component
@@ -32,12 +41,73 @@ interface GroupedReportWithUI extends ReportGroup {
   reports: ReportData[]; // Full report data for the group
 }
 
+const GROUP_STATUS_BY_AGGREGATED_STATUS: Record<ReportGroupWithMembers['aggregated_status'], ReportGroup['status']> = {
+  'Submitted': 'open',
+  'In Review': 'in_progress',
+  'Forwarded': 'in_progress',
+  'Resolved': 'resolved'
+};
+
+/**
+ * Build the view model for a stored group, loading its member reports
+ */
+const toGroupedReport = async (group: ReportGroupWithMembers): Promise<GroupedReportWithUI> => {
+  // Primary report first
+  const members = [...group.memberships].sort((a, b) => Number(b.is_primary) - Number(a.is_primary));
+  const reports = (await Promise.all(members.map(member => getReportById(member.report_id))))
+    .filter((report): report is StoredReport => report !== null)
+    .map(toGroupingReport);
+
+  const confidences = members.map(member => Number(member.confidence_score));
+  const textScores = members.map(member => Number(member.textual_similarity_score));
+  const averageConfidence = confidences.length > 0
+    ? confidences.reduce((sum, score) => sum + score, 0) / confidences.length
+    : 0;
+
+  const groupingReasons: string[] = [];
+  if (members.some(member => member.spatial_match)) groupingReasons.push('spatial proximity');
+  if (members.some(member => member.textual_match)) groupingReasons.push('textual similarity');
+  if (members.some(member => member.category_match)) groupingReasons.push('category match');
+
+  const primaryReportId = members[0]?.report_id || '';
+  const primary = reports.find(report => report.id === primaryReportId);
+
+  return {
+    id: group.id,
+    title: primary?.title || group.description || group.group_id,
+    description: primary?.description || `${group.group_id}${group.primary_city ? ` · ${group.primary_city}` : ''}`,
+    category: group.primary_category,
+    priority: group.priority_level.toLowerCase() as ReportGroup['priority'],
+    status: GROUP_STATUS_BY_AGGREGATED_STATUS[group.aggregated_status] || 'open',
+    location: { latitude: group.primary_location.lat, longitude: group.primary_location.lng },
+    reportCount: members.length,
+    reportIds: members.map(member => member.report_id),
+    confidence: averageConfidence,
+    createdAt: new Date(group.created_at),
+    updatedAt: new Date(group.updated_at),
+    metadata: {
+      primaryReportId,
+      groupingReasons,
+      averageConfidence,
+      spatialRadius: group.spatial_radius_meters ?? undefined,
+      textSimilarityRange: {
+        min: textScores.length > 0 ? Math.min(...textScores) : 0,
+        max: textScores.length > 0 ? Math.max(...textScores) : 0
+      }
+    },
+    expanded: false,
+    selectedReports: new Set(),
+    requiresReview: members.some(member => member.membership_type === 'suggested'),
+    reports
+  };
+};
+
 /**
  * Main GroupedReportsView component
  */
 const GroupedReportsView: React.FC<GroupedReportsViewProps> = ({
   onNavigate,
-  currentUser: _currentUser // Prefixed with underscore to indicate unused parameter
+  currentUser
 }) => {
   const [groupedReports, setGroupedReports] = useState<GroupedReportWithUI[]>([]);
   const [loading, setLoading] = useState(true);
@@ -46,67 +116,13 @@ const GroupedReportsView: React.FC<GroupedReportsViewProps> = ({
   const [filterBy, setFilterBy] = useState<'all' | 'needsReview' | 'autoGrouped' | 'highConfidence'>('all');
   const [searchTerm, setSearchTerm] = useState('');
 
-  // Mock data for development - replace with actual data fetching
   useEffect(() => {
     const fetchGroupedReports = async () => {
       try {
         setLoading(true);
-        
-        // TODO: Replace with actual API call
-        const mockGroups: GroupedReportWithUI[] = [
-          {
-            id: 'group_1',
-            title: 'Water Main Break on Oak Street',
-            description: 'Multiple reports of water main break causing flooding',
-            category: 'Water & Utilities',
-            priority: 'urgent',
-            status: 'in_progress',
-            location: { latitude: 40.7128, longitude: -74.0060 },
-            reportCount: 4,
-            reportIds: ['report_1', 'report_2', 'report_3', 'report_4'],
-            confidence: 0.92,
-            createdAt: new Date('2024-01-15T10:30:00'),
-            updatedAt: new Date('2024-01-15T14:22:00'),
-            metadata: {
-              primaryReportId: 'report_1',
-              groupingReasons: ['spatial proximity', 'textual similarity', 'category match'],
-              averageConfidence: 0.88,
-              spatialRadius: 85,
-              textSimilarityRange: { min: 0.82, max: 0.95 }
-            },
-            expanded: false,
-            selectedReports: new Set(),
-            requiresReview: false,
-            reports: [] // Would be populated with actual report data
-          },
-          {
-            id: 'group_2',
-            title: 'Pothole Issues on Main Street',
-            description: 'Several reports of dangerous potholes requiring attention',
-            category: 'Roads & Transportation',
-            priority: 'high',
-            status: 'open',
-            location: { latitude: 40.7589, longitude: -73.9851 },
-            reportCount: 3,
-            reportIds: ['report_5', 'report_6', 'report_7'],
-            confidence: 0.76,
-            createdAt: new Date('2024-01-14T09:15:00'),
-            updatedAt: new Date('2024-01-14T16:45:00'),
-            metadata: {
-              primaryReportId: 'report_5',
-              groupingReasons: ['spatial proximity', 'category match'],
-              averageConfidence: 0.73,
-              spatialRadius: 120,
-              textSimilarityRange: { min: 0.65, max: 0.81 }
-            },
-            expanded: false,
-            selectedReports: new Set(),
-            requiresReview: true,
-            reports: []
-          }
-        ];
 
-        setGroupedReports(mockGroups);
+        const groups = await getReportGroupRepository().listGroups(['active']);
+        setGroupedReports(await Promise.all(groups.map(toGroupedReport)));
         setError(null);
       } catch (err) {
         setError('Failed to load grouped reports');
@@ -197,29 +213,34 @@ const GroupedReportsView: React.FC<GroupedReportsViewProps> = ({
 
   const handleApproveGrouping = async (groupId: string) => {
     try {
-      // TODO: Implement API call to approve grouping
       console.log('Approving grouping for group:', groupId);
-      
+      const updated = await approveReportGroup(groupId, currentUser?.id || 'admin');
+      if (!updated) return;
+
+      const refreshed = await toGroupedReport(updated);
       setGroupedReports(prev => 
         prev.map(group => 
           group.id === groupId 
-            ? { ...group, requiresReview: false, status: 'in_progress' as any }
+            ? { ...refreshed, expanded: group.expanded, selectedReports: group.selectedReports }
             : group
         )
       );
     } catch (err) {
       console.error('Error approving grouping:', err);
+      setError('Failed to save grouping decision');
     }
   };
 
   const handleRejectGrouping = async (groupId: string) => {
     try {
-      // TODO: Implement API call to reject grouping
       console.log('Rejecting grouping for group:', groupId);
-      
+      const rejected = await rejectReportGroup(groupId, currentUser?.id || 'admin');
+      if (!rejected) return;
+
       setGroupedReports(prev => prev.filter(group => group.id !== groupId));
     } catch (err) {
       console.error('Error rejecting grouping:', err);
+      setError('Failed to save grouping decision');
     }
   };
 
@@ -327,6 +348,9 @@ const GroupedReportsView: React.FC<GroupedReportsViewProps> = ({
         </div>
       </div>
 
+      {/* Weight calibration from review decisions */}
+      <GroupingCalibrationPanel actor={currentUser?.id || 'admin'} />
+
       {/* Summary Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
         <div className="bg-white rounded-lg shadow-sm border p-4">
@@ -503,8 +527,8 @@ const GroupedReportsView: React.FC<GroupedReportsViewProps> = ({
                             <div>
                               <div className="font-medium">Report #{reportId}</div>
                               <div className="text-sm text-gray-600">
-                                {index === 0 && '(Primary)'} 
-                                {/* In real implementation, show actual report title */}
+                                {index === 0 && '(Primary) '}
+                                {group.reports.find(report => report.id === reportId)?.title || 'Report no longer available'}
                               </div>
                             </div>
                           </div>
@@ -0,0 +1,262 @@
+/**
+ * Grouping Calibration Panel for the Grouped Reports admin view
+ *
+ * Fits grouping weights to reviewer approve/reject decisions, shows how the
+ * proposed config compares with the current one, and lets an admin apply a
+ * config version or roll back to the previous one.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { reportGroupingService } from '../services/ReportGroupingService';
+import { getReportGroupRepository, type GroupingConfigVersionRecord } from '../services/ReportGroupRepository';
+import {
+  runGroupingCalibration,
+  proposeGroupingConfig,
+  applyGroupingConfigVersion,
+  rollbackGroupingConfig,
+  CalibrationError,
+  CALIBRATED_KEYS,
+  type CalibrationResult,
+  type ClassificationMetrics
+} from '../services/GroupingCalibrationService';
+
+interface GroupingCalibrationPanelProps {
+  actor: string;
+}
+
+const CONFIG_LABELS: Record<typeof CALIBRATED_KEYS[number], string> = {
+  textSimilarityWeight: 'Text similarity weight',
+  proximityWeight: 'Proximity weight',
+  categoryMatchWeight: 'Category match weight',
+  minConfidenceThreshold: 'Minimum score to group'
+};
+
+const STATUS_STYLES: Record<GroupingConfigVersionRecord['status'], string> = {
+  proposed: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  superseded: 'bg-gray-100 text-gray-700',
+  rolled_back: 'bg-red-100 text-red-800'
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const MetricsRow: React.FC<{
+  label: string;
+  metric: 'precision' | 'recall' | 'f1';
+  baseline: ClassificationMetrics;
+  proposed: ClassificationMetrics;
+}> = ({ label, metric, baseline, proposed }) => {
+  const baselineValue = baseline[metric];
+  const proposedValue = proposed[metric];
+  return (
+    <tr>
+      <td className="py-1 pr-4 text-gray-600">{label}</td>
+      <td className="py-1 pr-4">{formatPercent(baselineValue)}</td>
+      <td className={`py-1 font-medium ${proposedValue >= baselineValue ? 'text-green-700' : 'text-red-700'}`}>
+        {formatPercent(proposedValue)}
+      </td>
+    </tr>
+  );
+};
+
+const GroupingCalibrationPanel: React.FC<GroupingCalibrationPanelProps> = ({ actor }) => {
+  const [versions, setVersions] = useState<GroupingConfigVersionRecord[]>([]);
+  const [feedbackCount, setFeedbackCount] = useState(0);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+
+  const loadState = useCallback(async () => {
+    try {
+      const repository = getReportGroupRepository();
+      const [storedVersions, feedback] = await Promise.all([
+        repository.listConfigVersions(),
+        repository.listFeedback()
+      ]);
+      setVersions(storedVersions);
+      setFeedbackCount(feedback.length);
+    } catch (err) {
+      console.error('Error loading grouping calibration state:', err);
+      setMessage({ type: 'error', text: 'Failed to load calibration data' });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      await loadState();
+    } catch (err) {
+      console.error('Grouping calibration action failed:', err);
+      setMessage({
+        type: 'error',
+        text: err instanceof CalibrationError ? err.message : 'The action failed; see the console for details'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCalibrate = () => run(async () => {
+    setResult(await runGroupingCalibration());
+  });
+
+  const handlePropose = () => run(async () => {
+    if (!result) return;
+    const saved = await proposeGroupingConfig(result, actor);
+    setResult(null);
+    setMessage({ type: 'info', text: `Saved as version ${saved.version}. Apply it below to start using it.` });
+  });
+
+  const handleApply = (versionId: string) => run(async () => {
+    const applied = await applyGroupingConfigVersion(versionId, actor);
+    setMessage({ type: 'info', text: `Version ${applied.version} is now active` });
+  });
+
+  const handleRollback = () => run(async () => {
+    const restored = await rollbackGroupingConfig(actor);
+    setMessage({ type: 'info', text: `Rolled back to version ${restored.version}` });
+  });
+
+  const currentConfig = reportGroupingService.getConfig();
+  const hasActive = versions.some(version => version.status === 'active');
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Grouping Calibration</h2>
+          <p className="text-sm text-gray-600">
+            {feedbackCount} reviewed report pair{feedbackCount === 1 ? '' : 's'} from approve and reject decisions
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {hasActive && (
+            <button
+              onClick={handleRollback}
+              disabled={busy}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Roll Back
+            </button>
+          )}
+          <button
+            onClick={handleCalibrate}
+            disabled={busy}
+            className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy ? 'Working...' : 'Calibrate Weights'}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`mb-3 p-3 rounded text-sm ${message.type === 'error' ? 'bg-red-50 text-red-800' : 'bg-blue-50 text-blue-800'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {result && (
+        <div className="border border-gray-200 rounded-lg p-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <table className="text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-1 pr-4 font-medium">Setting</th>
+                  <th className="pb-1 pr-4 font-medium">Current</th>
+                  <th className="pb-1 font-medium">Proposed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {CALIBRATED_KEYS.map(key => (
+                  <tr key={key}>
+                    <td className="py-1 pr-4 text-gray-600">{CONFIG_LABELS[key]}</td>
+                    <td className="py-1 pr-4">{currentConfig[key].toFixed(2)}</td>
+                    <td className="py-1 font-medium">{result.config[key].toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div>
+              <table className="text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-1 pr-4 font-medium">Holdout ({result.validation.sampleSize} pairs)</th>
+                    <th className="pb-1 pr-4 font-medium">Current</th>
+                    <th className="pb-1 font-medium">Proposed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <MetricsRow label="Precision" metric="precision" baseline={result.baseline} proposed={result.validation} />
+                  <MetricsRow label="Recall" metric="recall" baseline={result.baseline} proposed={result.validation} />
+                  <MetricsRow label="F1" metric="f1" baseline={result.baseline} proposed={result.validation} />
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-gray-500">
+                Trained on {result.training.sampleSize} pairs ({result.positives} approved, {result.negatives} rejected in total)
+              </p>
+            </div>
+          </div>
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              onClick={() => setResult(null)}
+              disabled={busy}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handlePropose}
+              disabled={busy}
+              className="px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              Save for Review
+            </button>
+          </div>
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div className="space-y-2">
+          {versions.map(version => (
+            <div key={version.id} className="flex items-center justify-between p-3 border border-gray-200 rounded text-sm">
+              <div className="flex items-center gap-3">
+                <span className="font-medium">v{version.version}</span>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[version.status]}`}>
+                  {version.status.replace('_', ' ')}
+                </span>
+                <span className="text-gray-600">
+                  text {version.config.textSimilarityWeight?.toFixed(2)} · proximity {version.config.proximityWeight?.toFixed(2)} ·
+                  category {version.config.categoryMatchWeight?.toFixed(2)} · threshold {version.config.minConfidenceThreshold?.toFixed(2)}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-gray-500">
+                  {version.created_by} · {new Date(version.created_at).toLocaleDateString()}
+                </span>
+                {version.status === 'proposed' && (
+                  <button
+                    onClick={() => handleApply(version.id)}
+                    disabled={busy}
+                    className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupingCalibrationPanel;
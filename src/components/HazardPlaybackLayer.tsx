@@ -0,0 +1,117 @@
+/**
+ * HazardPlaybackLayer - draws one playback frame on a react-leaflet map
+ * Heatmap of the reports so far, report dots (new ones ringed in yellow),
+ * hotspot areas in red and arrows for how hotspots moved since the last frame
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, CircleMarker, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet.heat';
+import { hazardAreasFromHotspots } from '../services/EvacuationService';
+import { getPriorityColor } from '../services/MapDataService';
+import type { PlaybackFrame } from '../services/HazardPlaybackService';
+
+interface HazardPlaybackLayerProps {
+  frame: PlaybackFrame;
+}
+
+/**
+ * leaflet.heat layer kept across frames and fed the frame's points
+ */
+const HeatLayer: React.FC<{ points: [number, number, number][] }> = ({ points }) => {
+  const map = useMap();
+  const layerRef = useRef<L.HeatLayer | null>(null);
+
+  useEffect(() => {
+    const layer = L.heatLayer([], { radius: 25, blur: 20, maxZoom: 12 });
+    layer.addTo(map);
+    layerRef.current = layer;
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    layerRef.current?.setLatLngs(points);
+  }, [points]);
+
+  return null;
+};
+
+// Arrowhead wings at the end of a [lat, lng] segment, sized to the map zoom
+const arrowHead = (from: [number, number], to: [number, number], zoom: number): [number, number][] => {
+  const length = 30 / Math.pow(2, zoom); // About 12 px in degrees
+  const angle = Math.atan2(to[0] - from[0], to[1] - from[1]);
+  const wing = (offset: number): [number, number] => [
+    to[0] - length * Math.sin(angle + offset),
+    to[1] - length * Math.cos(angle + offset)
+  ];
+  return [wing(-Math.PI / 7), to, wing(Math.PI / 7)];
+};
+
+const HazardPlaybackLayer: React.FC<HazardPlaybackLayerProps> = ({ frame }) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+  const newIds = new Set(frame.newIssues.map(issue => issue.report_id));
+  const hotspotAreas = hazardAreasFromHotspots(frame.hotspots);
+
+  return (
+    <>
+      <HeatLayer points={frame.heat} />
+
+      {frame.issues.map(issue => {
+        const isNew = newIds.has(issue.report_id);
+        return (
+          <CircleMarker
+            key={issue.report_id}
+            center={[issue.location.lat, issue.location.lng]}
+            radius={isNew ? 7 : 4}
+            pathOptions={{
+              color: isNew ? '#facc15' : '#ffffff',
+              weight: isNew ? 3 : 1,
+              fillColor: getPriorityColor(issue.priority),
+              fillOpacity: 1
+            }}
+          >
+            <Tooltip>{issue.title} · {new Date(issue.created_at).toLocaleString()}</Tooltip>
+          </CircleMarker>
+        );
+      })}
+
+      {frame.hotspots.map((hotspot, index) => (
+        <Circle
+          key={`hotspot-${hotspot.clusterId}`}
+          center={[hotspot.centroid[1], hotspot.centroid[0]]}
+          radius={hotspotAreas[index].radiusMeters}
+          pathOptions={{ color: '#dc2626', weight: 2, fillOpacity: 0.2 }}
+        >
+          <Tooltip sticky>
+            Hotspot: {hotspot.reportCount} reports · risk {hotspot.riskScore}/100
+            <br />
+            {hotspot.hazardTypes.join(', ')}
+          </Tooltip>
+        </Circle>
+      ))}
+
+      {frame.movements.map(movement => {
+        const from: [number, number] = [movement.fromCentroid[1], movement.fromCentroid[0]];
+        const to: [number, number] = [movement.toCentroid[1], movement.toCentroid[0]];
+        return (
+          <React.Fragment key={`movement-${movement.hotspotId}`}>
+            <Polyline positions={[from, to]} pathOptions={{ color: '#dc2626', weight: 3 }}>
+              <Tooltip sticky>
+                Moved {movement.displacement.toFixed(1)} km ({movement.velocityKmPerDay.toFixed(1)} km/day)
+              </Tooltip>
+            </Polyline>
+            <Polyline positions={arrowHead(from, to, zoom)} pathOptions={{ color: '#dc2626', weight: 3 }} />
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+export default HazardPlaybackLayer;
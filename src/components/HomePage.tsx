@@ -10,14 +10,16 @@ import AnimatedBackground from './AnimatedBackground';
 import Loader from './Loader';
 import { ShinyButton } from './magicui/shiny-button';
 import { StatusBadge, SmartCameraBadge } from './ui/badge';
+import { getStateDescriptor } from '../services/ReportWorkflowService';
 import { MapPin } from 'lucide-react';
 
 interface HomePageProps {
   onNavigate: (page: string) => void;
   userId?: string;
+  isAdmin?: boolean;
 }
 
-function HomePage({ onNavigate, userId = 'anon_user' }: HomePageProps) {
+function HomePage({ onNavigate, userId = 'anon_user', isAdmin = false }: HomePageProps) {
   const { theme, language } = useTheme();
   const t = translations[language];
   
@@ -264,15 +266,23 @@ function HomePage({ onNavigate, userId = 'anon_user' }: HomePageProps) {
               let bgColorClass = '';
               let statusColor = '';
               
-              switch (update.status) {
-                case 'Verified':
+              switch (getStateDescriptor(update.status).tone) {
+                case 'green':
                   bgColorClass = 'from-green-500/10 to-teal-500/10';
                   statusColor = 'bg-green-500';
                   break;
-                case 'Reviewed':
+                case 'amber':
                   bgColorClass = 'from-yellow-500/10 to-amber-500/10';
                   statusColor = 'bg-yellow-500';
                   break;
+                case 'purple':
+                  bgColorClass = 'from-purple-500/10 to-violet-500/10';
+                  statusColor = 'bg-purple-500';
+                  break;
+                case 'red':
+                  bgColorClass = 'from-red-500/10 to-rose-500/10';
+                  statusColor = 'bg-red-500';
+                  break;
                 default:
                   bgColorClass = 'from-gray-500/10 to-slate-500/10';
                   statusColor = 'bg-gray-500';
@@ -346,6 +356,8 @@ function HomePage({ onNavigate, userId = 'anon_user' }: HomePageProps) {
         <h3 className={`text-lg sm:text-xl lg:text-2xl font-semibold ${theme === 'dark' ? 'text-white' : 'text-gray-800'} mb-4 sm:mb-6`}>Live Ocean Hazard Map</h3>
         <IssuesMap 
           onNavigate={onNavigate}
+          userId={userId}
+          isAdmin={isAdmin}
           className="w-full"
           height="500px"
         />
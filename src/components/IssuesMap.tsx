@@ -1,21 +1,45 @@
 /**
  * IssuesMap Component - Interactive map displaying civic issues
  * Uses React-Leaflet with OpenStreetMap tiles
- * Features: markers, clustering, heatmap, real-time updates
+ * Features: markers, viewport-driven loading with server-side clustering, heatmap,
+ * real-time updates, offline tile packs,
+ * evacuation routes that avoid active hotspots, saved places with hazard alerts,
+ * time-slider playback of past reports and hotspot movement,
+ * affected zones drawn by admins to select reports and target alerts
  */
 
-import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import { LatLngBounds, LatLng, divIcon, point } from 'leaflet';
+import React, { useEffect, useState, useRef, useMemo, useCallback } from 'react';
+import { Circle, MapContainer, Marker, Popup, Tooltip, useMap } from 'react-leaflet';
+import { divIcon, point } from 'leaflet';
 import MarkerClusterGroup from 'react-leaflet-cluster';
+import { BellRing, History, MapPinned, Navigation, WifiOff } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
+import OfflineTileLayer from './OfflineTileLayer';
+import CoastalTileControl from './ui/CoastalTileControl';
+import EvacuationPanel from './ui/EvacuationPanel';
+import SavedPlacesPanel from './ui/SavedPlacesPanel';
+import PlaybackPanel from './ui/PlaybackPanel';
+import AffectedZonesPanel from './ui/AffectedZonesPanel';
+import EvacuationRouteLayer from './EvacuationRouteLayer';
+import HazardPlaybackLayer from './HazardPlaybackLayer';
+import AffectedZoneLayer from './AffectedZoneLayer';
+import type { TileBounds } from '../services/CoastalTileService';
+import { hazardAreasFromHotspots, type EvacuationPlan, type HazardArea } from '../services/EvacuationService';
+import spatialDataMiningService from '../services/SpatialDataMiningService';
+import { mapViewportService, type MapViewportMode } from '../services/MapViewportService';
+import type { Geofence } from '../services/GeofenceService';
+import type { PlaybackFrame } from '../services/HazardPlaybackService';
+import type { AffectedZone, ZoneGeometry } from '../services/AffectedZoneService';
+import type { ReportData } from '../services/ReportService';
 import { 
-  fetchMapIssues, 
+  fetchIssuesInBounds,
   subscribeToMapUpdates, 
   getCurrentLocation,
   getPriorityColor,
   getStatusColor,
   getCategoryIcon,
+  toSpatialDataPoint,
+  MapCluster,
   MapIssue 
 } from '../services/MapDataService';
 
@@ -36,62 +60,165 @@ L.Marker.prototype.options.icon = DefaultIcon;
 
 interface IssuesMapProps {
   onNavigate?: (page: string) => void;
+  userId?: string; // Owner of the saved places shown on the map
+  isAdmin?: boolean; // Admins can draw affected zones
   className?: string;
   height?: string;
 }
 
 /**
- * Component to fit map bounds to markers
+ * Reports the visible map area and zoom, for viewport loading and offline packs
  */
-const FitBounds: React.FC<{ issues: MapIssue[] }> = ({ issues }) => {
+const TrackViewBounds: React.FC<{ onChange: (bounds: TileBounds, zoom: number) => void }> = ({ onChange }) => {
   const map = useMap();
 
   useEffect(() => {
-    if (issues.length > 0) {
-      const bounds = new LatLngBounds(
-        issues.map(issue => new LatLng(issue.location.lat, issue.location.lng))
-      );
-      
-      // Add padding and ensure minimum zoom level
-      map.fitBounds(bounds, { 
-        padding: [20, 20],
-        maxZoom: 15
-      });
-    }
-  }, [issues, map]);
+    const update = () => {
+      const bounds = map.getBounds();
+      onChange({
+        north: bounds.getNorth(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        west: bounds.getWest()
+      }, map.getZoom());
+    };
+
+    update();
+    map.on('moveend', update);
+    return () => {
+      map.off('moveend', update);
+    };
+  }, [map, onChange]);
 
   return null;
 };
 
+/**
+ * Server-side clusters as count bubbles; clicking one zooms into it
+ */
+const ClusterMarkers: React.FC<{ clusters: MapCluster[] }> = ({ clusters }) => {
+  const map = useMap();
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        const size = cluster.count < 10 ? 32 : cluster.count < 100 ? 40 : 48;
+        return (
+          <Marker
+            key={cluster.geohash}
+            position={[cluster.lat, cluster.lng]}
+            icon={divIcon({
+              html: `<div style="
+                width: ${size}px;
+                height: ${size}px;
+                background-color: ${getPriorityColor(cluster.topPriority)};
+                border: 3px solid white;
+                border-radius: 50%;
+                box-shadow: 0 2px 6px rgba(0,0,0,0.3);
+                display: flex;
+                align-items: center;
+                justify-content: center;
+                color: white;
+                font-size: 12px;
+                font-weight: 600;
+              ">${cluster.count}</div>`,
+              className: 'custom-marker',
+              iconSize: point(size, size, true),
+              iconAnchor: [size / 2, size / 2]
+            })}
+            eventHandlers={{
+              click: () => map.setView([cluster.lat, cluster.lng], Math.min(map.getZoom() + 2, map.getMaxZoom()))
+            }}
+          >
+            <Tooltip>
+              {cluster.count} report{cluster.count === 1 ? '' : 's'} · top priority {cluster.topPriority}
+              <br />
+              {cluster.categories.slice(0, 3).join(', ')}{cluster.categories.length > 3 ? '…' : ''}
+            </Tooltip>
+          </Marker>
+        );
+      })}
+    </>
+  );
+};
+
 /**
  * Main IssuesMap component
  */
 const IssuesMap: React.FC<IssuesMapProps> = ({ 
   onNavigate, 
+  userId,
+  isAdmin = false,
   className = '', 
   height = '400px' 
 }) => {
   const { theme } = useTheme();
   const [issues, setIssues] = useState<MapIssue[]>([]);
+  const [clusters, setClusters] = useState<MapCluster[]>([]);
+  const [viewMode, setViewMode] = useState<MapViewportMode>('clusters');
+  const [viewZoom, setViewZoom] = useState(6);
+  const [dataVersion, setDataVersion] = useState(0); // Bumped by realtime changes to the tile cache
+  const [viewportLoading, setViewportLoading] = useState(false);
+  const [knownCategories, setKnownCategories] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [center, setCenter] = useState<[number, number]>([15.2993, 74.1240]); // Default: Indian coastal region (Goa)
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [showOfflineMaps, setShowOfflineMaps] = useState(false);
+  const [viewBounds, setViewBounds] = useState<TileBounds | undefined>();
+  const [showEvacuation, setShowEvacuation] = useState(false);
+  const [evacuationPlan, setEvacuationPlan] = useState<EvacuationPlan | null>(null);
+  const [hazardAreas, setHazardAreas] = useState<HazardArea[]>([]);
+  const [showSavedPlaces, setShowSavedPlaces] = useState(false);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [showPlayback, setShowPlayback] = useState(false);
+  const [playbackFrame, setPlaybackFrame] = useState<PlaybackFrame | null>(null);
+  const [showZones, setShowZones] = useState(false);
+  const [zones, setZones] = useState<AffectedZone[]>([]);
+  const [zoneDraft, setZoneDraft] = useState<ZoneGeometry | null>(null);
+  const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
+  const [zoneReports, setZoneReports] = useState<ReportData[]>([]);
   const subscriptionRef = useRef<any>(null);
 
-  // Filter issues based on selected category
-  const filteredIssues = useMemo(() => {
-    if (selectedCategory === 'all') return issues;
-    return issues.filter(issue => issue.category === selectedCategory);
-  }, [issues, selectedCategory]);
+  // Categories seen so far; the category filter itself is applied in the query
+  const categories = useMemo(() => ['all', ...knownCategories], [knownCategories]);
 
-  // Get unique categories for filter
-  const categories = useMemo(() => {
-    const cats = ['all', ...new Set(issues.map(issue => issue.category))];
-    return cats;
-  }, [issues]);
+  const mapCenter = useMemo(() => viewBounds && {
+    latitude: (viewBounds.north + viewBounds.south) / 2,
+    longitude: (viewBounds.east + viewBounds.west) / 2
+  }, [viewBounds]);
+
+  const handleViewChange = useCallback((bounds: TileBounds, zoom: number) => {
+    setViewBounds(bounds);
+    setViewZoom(zoom);
+  }, []);
 
-  // Initialize map and fetch data
+  const handlePlanChange = useCallback((plan: EvacuationPlan | null) => setEvacuationPlan(plan), []);
+  const handleGeofencesChange = useCallback((places: Geofence[]) => setGeofences(places), []);
+  const handleFrameChange = useCallback((frame: PlaybackFrame | null) => setPlaybackFrame(frame), []);
+  const handleZonesChange = useCallback((items: AffectedZone[]) => setZones(items), []);
+  const handleZoneDraftChange = useCallback((draft: ZoneGeometry | null) => setZoneDraft(draft), []);
+  const handleSelectZone = useCallback((zoneId: string | null) => setSelectedZoneId(zoneId), []);
+  const handleZoneReportsChange = useCallback((reports: ReportData[]) => setZoneReports(reports), []);
+
+  // Active hotspots from recent reports in view, for evacuation routes to avoid
+  useEffect(() => {
+    if (!showEvacuation || !viewBounds) return;
+
+    let cancelled = false;
+    fetchIssuesInBounds(viewBounds)
+      .then(viewIssues => spatialDataMiningService.detectHotspots(viewIssues.map(toSpatialDataPoint)))
+      .then(hotspots => {
+        if (!cancelled) setHazardAreas(hazardAreasFromHotspots(hotspots));
+      })
+      .catch(err => console.error('Error detecting hotspots for evacuation:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showEvacuation, viewBounds]);
+
+  // Initialize map; reports are loaded for the viewport once the map reports its bounds
   useEffect(() => {
     const initializeMap = async () => {
       try {
@@ -101,14 +228,9 @@ const IssuesMap: React.FC<IssuesMapProps> = ({
         const userLocation = await getCurrentLocation();
         setCenter([userLocation.lat, userLocation.lng]);
         
-        // Fetch initial issues
-        const mapIssues = await fetchMapIssues();
-        setIssues(mapIssues);
-        
         setError(null);
       } catch (err) {
-        console.error('Error initializing map:', err);
-        setError('Failed to load map data');
+        console.warn('User location unavailable, using default map centre:', err);
       } finally {
         setLoading(false);
       }
@@ -117,26 +239,60 @@ const IssuesMap: React.FC<IssuesMapProps> = ({
     initializeMap();
   }, []);
 
+  // Load reports or clusters for the visible area from the tile cache
+  useEffect(() => {
+    if (!viewBounds) return;
+
+    let cancelled = false;
+    setViewportLoading(true);
+    mapViewportService.loadViewport(viewBounds, viewZoom, {
+      category: selectedCategory === 'all' ? undefined : selectedCategory
+    })
+      .then(data => {
+        if (cancelled) return;
+        setViewMode(data.mode);
+        setIssues(data.issues);
+        setClusters(data.clusters);
+
+        const seen = data.mode === 'issues'
+          ? data.issues.map(issue => issue.category)
+          : data.clusters.flatMap(cluster => cluster.categories);
+        setKnownCategories(prev => {
+          const merged = [...new Set([...prev, ...seen])].filter(Boolean).sort();
+          return merged.length === prev.length ? prev : merged;
+        });
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading map viewport:', err);
+        if (!cancelled) setError('Failed to load map data');
+      })
+      .finally(() => {
+        if (!cancelled) setViewportLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewBounds, viewZoom, selectedCategory, dataVersion]);
+
   // Setup real-time subscriptions
   useEffect(() => {
     const subscription = subscribeToMapUpdates(
       // On insert
       (newIssue: MapIssue) => {
-        setIssues(prev => [newIssue, ...prev]);
+        mapViewportService.applyInsert(newIssue);
+        setDataVersion(version => version + 1);
       },
       // On update
       (updatedIssue: MapIssue) => {
-        setIssues(prev => 
-          prev.map(issue => 
-            issue.report_id === updatedIssue.report_id ? updatedIssue : issue
-          )
-        );
+        mapViewportService.applyUpdate(updatedIssue);
+        setDataVersion(version => version + 1);
       },
       // On delete
       (deletedReportId: string) => {
-        setIssues(prev => 
-          prev.filter(issue => issue.report_id !== deletedReportId)
-        );
+        mapViewportService.applyDelete(deletedReportId);
+        setDataVersion(version => version + 1);
       }
     );
 
@@ -281,6 +437,130 @@ const IssuesMap: React.FC<IssuesMapProps> = ({
             </svg>
           </div>
         </div>
+
+        {/* Offline Maps */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowOfflineMaps(prev => !prev);
+          }}
+          className={`self-end flex items-center gap-2 px-3 py-2 rounded-lg text-sm shadow-lg border ${
+            theme === 'dark'
+              ? 'bg-gray-800 text-white border-gray-600 hover:bg-gray-700'
+              : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          <WifiOff size={16} />
+          Offline maps
+        </button>
+        {showOfflineMaps && (
+          <CoastalTileControl viewBounds={viewBounds} onClose={() => setShowOfflineMaps(false)} />
+        )}
+
+        {/* Evacuation */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowEvacuation(prev => !prev);
+          }}
+          className={`self-end flex items-center gap-2 px-3 py-2 rounded-lg text-sm shadow-lg border ${
+            theme === 'dark'
+              ? 'bg-gray-800 text-white border-gray-600 hover:bg-gray-700'
+              : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          <Navigation size={16} />
+          Evacuation
+        </button>
+        {showEvacuation && (
+          <EvacuationPanel
+            mapCenter={mapCenter}
+            hazards={hazardAreas}
+            onPlanChange={handlePlanChange}
+            onClose={() => setShowEvacuation(false)}
+          />
+        )}
+
+        {/* Saved places */}
+        {userId && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowSavedPlaces(prev => !prev);
+            }}
+            className={`self-end flex items-center gap-2 px-3 py-2 rounded-lg text-sm shadow-lg border ${
+              theme === 'dark'
+                ? 'bg-gray-800 text-white border-gray-600 hover:bg-gray-700'
+                : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            <BellRing size={16} />
+            Saved places
+          </button>
+        )}
+        {userId && showSavedPlaces && (
+          <SavedPlacesPanel
+            userId={userId}
+            mapCenter={mapCenter}
+            onGeofencesChange={handleGeofencesChange}
+            onClose={() => setShowSavedPlaces(false)}
+          />
+        )}
+
+        {/* Playback */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowPlayback(prev => !prev);
+          }}
+          className={`self-end flex items-center gap-2 px-3 py-2 rounded-lg text-sm shadow-lg border ${
+            theme === 'dark'
+              ? 'bg-gray-800 text-white border-gray-600 hover:bg-gray-700'
+              : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          <History size={16} />
+          Playback
+        </button>
+        {showPlayback && (
+          <PlaybackPanel
+            viewBounds={viewBounds}
+            viewZoom={viewZoom}
+            category={selectedCategory === 'all' ? undefined : selectedCategory}
+            onFrameChange={handleFrameChange}
+            onClose={() => setShowPlayback(false)}
+          />
+        )}
+
+        {/* Affected zones */}
+        {isAdmin && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowZones(prev => !prev);
+            }}
+            className={`self-end flex items-center gap-2 px-3 py-2 rounded-lg text-sm shadow-lg border ${
+              theme === 'dark'
+                ? 'bg-gray-800 text-white border-gray-600 hover:bg-gray-700'
+                : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            <MapPinned size={16} />
+            Affected zones
+          </button>
+        )}
+        {isAdmin && showZones && (
+          <AffectedZonesPanel
+            userId={userId || 'admin'}
+            draft={zoneDraft}
+            onDraftChange={handleZoneDraftChange}
+            selectedZoneId={selectedZoneId}
+            onSelectZone={handleSelectZone}
+            onZonesChange={handleZonesChange}
+            onSelectedReportsChange={handleZoneReportsChange}
+            onClose={() => setShowZones(false)}
+          />
+        )}
       </div>
 
       {/* Map Container */}
@@ -296,108 +576,140 @@ const IssuesMap: React.FC<IssuesMapProps> = ({
           zoomControl={true}
           scrollWheelZoom={true}
         >
-          {/* Esri World Imagery for better coastal visualization */}
-          <TileLayer
-            attribution='Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community'
-            url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-          />
+          {/* Esri World Imagery for better coastal visualization; served from offline packs when downloaded */}
+          <OfflineTileLayer sourceId="esri-imagery" zIndex={1} />
           {/* OpenStreetMap overlay for labels and roads */}
-          <TileLayer
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          <OfflineTileLayer
+            sourceId="osm"
             opacity={0.4}
             className={theme === 'dark' ? 'map-dark-theme' : ''}
+            zIndex={2}
           />
+          <TrackViewBounds onChange={handleViewChange} />
 
-          {/* Fit bounds to issues */}
-          {filteredIssues.length > 0 && <FitBounds issues={filteredIssues} />}
-
-          {/* Marker Clustering */}
-          <MarkerClusterGroup
-            chunkedLoading
-            iconCreateFunction={(cluster) => {
-              const count = cluster.getChildCount();
-              let className = 'marker-cluster-small';
-              
-              if (count < 10) {
-                className = 'marker-cluster-small';
-              } else if (count < 100) {
-                className = 'marker-cluster-medium';
-              } else {
-                className = 'marker-cluster-large';
-              }
-
-              return divIcon({
-                html: `<div><span>${count}</span></div>`,
-                className: `marker-cluster ${className}`,
-                iconSize: point(40, 40, true)
-              });
-            }}
-          >
-            {/* Issue Markers */}
-            {filteredIssues.map((issue) => (
-              <Marker
-                key={issue.report_id}
-                position={[issue.location.lat, issue.location.lng]}
-                icon={createCustomIcon(issue)}
-                eventHandlers={{
-                  click: () => handleMarkerClick(issue)
-                }}
-              >
-                <Popup>
-                  <div className="min-w-[250px] max-w-[300px]">
-                    <div className="flex items-start gap-3 mb-3">
-                      <span className="text-2xl">{getCategoryIcon(issue.category)}</span>
-                      <div className="flex-1">
-                        <h3 className="font-bold text-base mb-1 text-gray-900">
-                          {issue.title}
-                        </h3>
-                        <div className="flex flex-wrap gap-1 mb-2">
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium`}
-                                style={{ 
-                                  backgroundColor: getPriorityColor(issue.priority) + '20',
-                                  color: getPriorityColor(issue.priority)
-                                }}>
-                            {issue.priority}
-                          </span>
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium`}
-                                style={{ 
-                                  backgroundColor: getStatusColor(issue.status) + '20',
-                                  color: getStatusColor(issue.status)
-                                }}>
-                            {issue.status}
-                          </span>
-                          {(issue as any).is_smart_camera_report && (
-                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
-                              📸 Smart Camera
+          {evacuationPlan && <EvacuationRouteLayer plan={evacuationPlan} />}
+
+          {geofences.map(geofence => (
+            <Circle
+              key={geofence.id}
+              center={[geofence.lat, geofence.lng]}
+              radius={geofence.radius_km * 1000}
+              pathOptions={{ color: '#7c3aed', weight: 2, dashArray: geofence.enabled ? undefined : '6 6', fillOpacity: 0.05 }}
+            >
+              <Tooltip sticky>{geofence.name}</Tooltip>
+            </Circle>
+          ))}
+
+          <AffectedZoneLayer
+            zones={zones}
+            selectedZoneId={selectedZoneId}
+            draft={zoneDraft}
+            onDraftChange={handleZoneDraftChange}
+            selectedReports={zoneReports}
+            onSelectZone={handleSelectZone}
+          />
+
+          {/* A playback frame replaces the live reports */}
+          {playbackFrame && <HazardPlaybackLayer frame={playbackFrame} />}
+
+          {/* Clusters aggregated by the query layer when zoomed out */}
+          {!playbackFrame && viewMode === 'clusters' && <ClusterMarkers clusters={clusters} />}
+
+          {/* Individual reports when zoomed in; overlapping markers still cluster */}
+          {!playbackFrame && (
+            <MarkerClusterGroup
+              chunkedLoading
+              iconCreateFunction={(cluster) => {
+                const count = cluster.getChildCount();
+                let className = 'marker-cluster-small';
+                
+                if (count < 10) {
+                  className = 'marker-cluster-small';
+                } else if (count < 100) {
+                  className = 'marker-cluster-medium';
+                } else {
+                  className = 'marker-cluster-large';
+                }
+
+                return divIcon({
+                  html: `<div><span>${count}</span></div>`,
+                  className: `marker-cluster ${className}`,
+                  iconSize: point(40, 40, true)
+                });
+              }}
+            >
+              {/* Issue Markers */}
+              {issues.map((issue) => (
+                <Marker
+                  key={issue.report_id}
+                  position={[issue.location.lat, issue.location.lng]}
+                  icon={createCustomIcon(issue)}
+                  eventHandlers={{
+                    click: () => handleMarkerClick(issue)
+                  }}
+                >
+                  <Popup>
+                    <div className="min-w-[250px] max-w-[300px]">
+                      <div className="flex items-start gap-3 mb-3">
+                        <span className="text-2xl">{getCategoryIcon(issue.category)}</span>
+                        <div className="flex-1">
+                          <h3 className="font-bold text-base mb-1 text-gray-900">
+                            {issue.title}
+                          </h3>
+                          <div className="flex flex-wrap gap-1 mb-2">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium`}
+                                  style={{ 
+                                    backgroundColor: getPriorityColor(issue.priority) + '20',
+                                    color: getPriorityColor(issue.priority)
+                                  }}>
+                              {issue.priority}
+                            </span>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium`}
+                                  style={{ 
+                                    backgroundColor: getStatusColor(issue.status) + '20',
+                                    color: getStatusColor(issue.status)
+                                  }}>
+                              {issue.status}
                             </span>
-                          )}
+                            {(issue as any).is_smart_camera_report && (
+                              <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
+                                📸 Smart Camera
+                              </span>
+                            )}
+                          </div>
                         </div>
                       </div>
+                      
+                      <p className="text-sm text-gray-700 mb-3 line-clamp-3">
+                        {issue.description}
+                      </p>
+                      
+                      <div className="text-xs text-gray-500 mb-3">
+                        <p>📍 {issue.location.address}</p>
+                        <p>📅 {formatDate(issue.created_at)}</p>
+                        {issue.city && <p>🏢 {issue.city}</p>}
+                      </div>
+                      
+                      <button
+                        onClick={() => handleMarkerClick(issue)}
+                        className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
+                      >
+                        View Details
+                      </button>
                     </div>
-                    
-                    <p className="text-sm text-gray-700 mb-3 line-clamp-3">
-                      {issue.description}
-                    </p>
-                    
-                    <div className="text-xs text-gray-500 mb-3">
-                      <p>📍 {issue.location.address}</p>
-                      <p>📅 {formatDate(issue.created_at)}</p>
-                      {issue.city && <p>🏢 {issue.city}</p>}
-                    </div>
-                    
-                    <button
-                      onClick={() => handleMarkerClick(issue)}
-                      className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
-                    >
-                      View Details
-                    </button>
-                  </div>
-                </Popup>
-              </Marker>
-            ))}
-          </MarkerClusterGroup>
+                  </Popup>
+                </Marker>
+              ))}
+            </MarkerClusterGroup>
+          )}
         </MapContainer>
+        {viewportLoading && (
+          <div className={`absolute bottom-4 left-4 z-[1000] px-3 py-1 rounded-lg text-xs shadow ${
+            theme === 'dark' ? 'bg-gray-800 text-gray-300' : 'bg-white text-gray-600'
+          }`}>
+            Loading reports...
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,120 +1,220 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { MapPin } from 'lucide-react';
+/**
+ * LocationMap - pin-drop map for checking and correcting a report's position
+ * Shows the fix with its accuracy circle; when the fix is too vague the
+ * reporter is asked to drag the pin (or tap the map) to where the hazard is.
+ * A moved pin is recorded as a manual fix, accurate to a few pixels at the
+ * zoom it was placed.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Circle, MapContainer, Marker, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { Camera, MapPin } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
+import OfflineTileLayer from './OfflineTileLayer';
+import { reverseGeocode } from '../services/GeocodingService';
+import {
+  formatAccuracy,
+  fromManualPin,
+  fromPhotoGps,
+  getEffectiveAccuracyM,
+  gradeLocationAccuracy,
+  LOCATION_SOURCE_LABELS,
+  needsLocationCorrection,
+  type PhotoGps
+} from '../services/LocationQualityService';
+import type { ReportLocation } from '../services/ReportService';
+
+import 'leaflet/dist/leaflet.css';
+
+export type PinnedLocation = ReportLocation & { city?: string };
 
 interface LocationMapProps {
-  location: {
-    lat: number;
-    lng: number;
-    address: string;
-  };
-  onLocationChange: (location: { lat: number; lng: number; address: string }) => void;
+  location: PinnedLocation;
+  onLocationChange: (location: PinnedLocation) => void;
   editable?: boolean;
+  photoGps?: PhotoGps; // GPS from the report photo, offered as an alternative to the device fix
+  photoCapturedAt?: string;
+  height?: string;
 }
 
-const LocationMap: React.FC<LocationMapProps> = ({ location, onLocationChange, editable = true }) => {
-  const { theme } = useTheme();
-  const mapContainerRef = useRef<HTMLDivElement>(null);
-  const [mapInitialized, setMapInitialized] = useState(false);
+const GRADE_COLORS = { high: '#16a34a', medium: '#f59e0b', low: '#dc2626' };
+
+const PIN_ICON = L.divIcon({
+  html: `<div style="background-color: #dc2626; width: 22px; height: 22px; border-radius: 50% 50% 50% 0; transform: rotate(-45deg); border: 3px solid white; box-shadow: 0 2px 6px rgba(0,0,0,0.4);"></div>`,
+  className: 'custom-marker',
+  iconSize: [22, 22],
+  iconAnchor: [11, 22]
+});
+
+/**
+ * Zoom so the accuracy circle fills the map when mounted; keyed by the fix,
+ * so a new fix re-centres the map while pin moves keep the reporter's zoom
+ */
+const FitAccuracy: React.FC<{ lat: number; lng: number; accuracyM: number }> = ({ lat, lng, accuracyM }) => {
+  const map = useMap();
+  const initial = useRef({ lat, lng, accuracyM });
 
   useEffect(() => {
-    // In a real implementation, we would initialize a map library like Google Maps or Leaflet
-    // For the prototype, we'll just show a static map with the location
-    
-    if (mapContainerRef.current) {
-      // Simulate map initialization
-      setTimeout(() => {
-        setMapInitialized(true);
-      }, 500);
+    const fix = initial.current;
+    map.fitBounds(L.latLng(fix.lat, fix.lng).toBounds(Math.max(fix.accuracyM, 100) * 2.5));
+  }, [map]);
+
+  return null;
+};
+
+/**
+ * Taps on the map move the pin there
+ */
+const PinDropHandler: React.FC<{ onDrop: (lat: number, lng: number, zoom: number) => void }> = ({ onDrop }) => {
+  const map = useMapEvents({
+    click: (event) => onDrop(event.latlng.lat, event.latlng.lng, map.getZoom())
+  });
+  return null;
+};
+
+/**
+ * Moves the pin by dragging; needs the map for the zoom the pin was placed at
+ */
+const DraggablePin: React.FC<{ lat: number; lng: number; editable: boolean; onDrop: (lat: number, lng: number, zoom: number) => void }> = ({
+  lat,
+  lng,
+  editable,
+  onDrop
+}) => {
+  const map = useMap();
+  const eventHandlers = useMemo(() => ({
+    dragend: (event: L.LeafletEvent) => {
+      const position = (event.target as L.Marker).getLatLng();
+      onDrop(position.lat, position.lng, map.getZoom());
     }
-  }, []);
+  }), [map, onDrop]);
+
+  return <Marker position={[lat, lng]} icon={PIN_ICON} draggable={editable} eventHandlers={eventHandlers} />;
+};
+
+const LocationMap: React.FC<LocationMapProps> = ({
+  location,
+  onLocationChange,
+  editable = true,
+  photoGps,
+  photoCapturedAt,
+  height = '14rem'
+}) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [resolving, setResolving] = useState(false);
+  const latestGeocode = useRef(0); // Replies to earlier pin moves are dropped
+  const fitKey = useRef(location.fixed_at || 'initial');
+  if (location.source !== 'manual' && location.fixed_at) {
+    fitKey.current = location.fixed_at;
+  }
 
-  const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
+  const accuracyM = getEffectiveAccuracyM(location);
+  const grade = gradeLocationAccuracy(accuracyM);
+  const needsCorrection = needsLocationCorrection(location);
+
+  const handleDrop = async (lat: number, lng: number, zoom: number) => {
     if (!editable) return;
-    
-    // In a real implementation, we would get the coordinates from the map click event
-    // For the prototype, we'll just simulate a location change with slight variations
-    
-    const mapRect = e.currentTarget.getBoundingClientRect();
-    const clickX = e.clientX - mapRect.left;
-    const clickY = e.clientY - mapRect.top;
-    
-    // Convert click position to a simulated lat/lng (just for the prototype)
-    const latOffset = ((mapRect.height / 2) - clickY) / mapRect.height * 0.01;
-    const lngOffset = (clickX - (mapRect.width / 2)) / mapRect.width * 0.01;
-    
-    const newLat = location.lat + latOffset;
-    const newLng = location.lng + lngOffset;
-    
-    onLocationChange({
-      lat: newLat,
-      lng: newLng,
-      address: `Lat: ${newLat.toFixed(6)}, Lng: ${newLng.toFixed(6)}`
-    });
+
+    const pinned: PinnedLocation = {
+      ...location,
+      lat,
+      lng,
+      address: `Lat: ${lat.toFixed(6)}, Lng: ${lng.toFixed(6)}`,
+      ...fromManualPin(lat, zoom)
+    };
+    onLocationChange(pinned);
+
+    // Fill in the address once the geocoder answers, unless the pin moved again meanwhile
+    const request = ++latestGeocode.current;
+    setResolving(true);
+    try {
+      const geocoded = await reverseGeocode(lat, lng);
+      if (request !== latestGeocode.current) return;
+      onLocationChange({ ...pinned, address: geocoded.address, city: geocoded.city });
+    } catch (error) {
+      console.warn('Geocoding the dropped pin failed, keeping coordinates:', error);
+    } finally {
+      if (request === latestGeocode.current) setResolving(false);
+    }
   };
 
+  const handleUsePhotoGps = async () => {
+    if (!photoGps) return;
+    const fromPhoto: PinnedLocation = {
+      ...location,
+      lat: photoGps.lat,
+      lng: photoGps.lng,
+      address: `Lat: ${photoGps.lat.toFixed(6)}, Lng: ${photoGps.lng.toFixed(6)}`,
+      ...fromPhotoGps(photoGps, photoCapturedAt)
+    };
+    onLocationChange(fromPhoto);
+    const request = ++latestGeocode.current;
+    setResolving(false); // A pending lookup for the pin no longer applies
+    try {
+      const geocoded = await reverseGeocode(photoGps.lat, photoGps.lng);
+      if (request !== latestGeocode.current) return;
+      onLocationChange({ ...fromPhoto, address: geocoded.address, city: geocoded.city });
+    } catch (error) {
+      console.warn('Geocoding the photo position failed, keeping coordinates:', error);
+    }
+  };
+
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+
   return (
-    <div 
-      ref={mapContainerRef}
-      className={`relative w-full h-48 overflow-hidden rounded-xl ${
-        theme === 'dark' 
-          ? 'bg-gray-700 text-white' 
-          : 'bg-gray-100 text-gray-800'
-      } ${editable ? 'cursor-crosshair' : 'cursor-default'}`}
-      onClick={handleMapClick}
-    >
-      {/* Mock map - in a real app this would be a real map component */}
-      <div className="absolute inset-0 bg-gradient-to-b from-blue-400/20 to-green-400/20"></div>
-      <div className="absolute inset-0 grid grid-cols-4 grid-rows-4">
-        {Array.from({ length: 16 }).map((_, i) => (
-          <div key={i} className="border border-gray-200/10"></div>
-        ))}
-      </div>
-      
-      {/* Map center pin */}
-      <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2">
-        <div className="flex flex-col items-center">
-          <MapPin 
-            size={32} 
-            className={`${theme === 'dark' ? 'text-red-500' : 'text-red-600'} drop-shadow-lg`} 
-          />
-          <div className="absolute bottom-0 w-4 h-4 bg-red-500 rounded-full animate-ping"></div>
+    <div className="space-y-2">
+      {needsCorrection && editable && (
+        <div className={`p-2 rounded text-xs ${isDark ? 'bg-amber-900/40 text-amber-200' : 'bg-amber-50 text-amber-800'}`}>
+          Your position is only known to {formatAccuracy(accuracyM)}. Drag the pin, or tap the map, where the hazard is.
         </div>
-      </div>
-      
-      {/* Location info */}
-      <div className="absolute bottom-2 left-2 right-2">
-        <div 
-          className={`${
-            theme === 'dark' 
-              ? 'bg-gray-800/80 text-white' 
-              : 'bg-white/80 text-gray-800'
-          } text-xs p-2 rounded shadow-lg backdrop-blur-sm`}
+      )}
+
+      <div className="relative rounded-xl overflow-hidden z-0" style={{ height }}>
+        <MapContainer
+          center={[location.lat, location.lng]}
+          zoom={15}
+          style={{ height: '100%', width: '100%' }}
+          scrollWheelZoom={true}
         >
-          {mapInitialized ? (
-            <>
-              <div className="font-semibold">Selected Location:</div>
-              <div className="truncate">{location.address}</div>
-              <div className="text-xs opacity-75">
-                {location.lat.toFixed(6)}, {location.lng.toFixed(6)}
-              </div>
-            </>
-          ) : (
-            <div className="animate-pulse">Loading map...</div>
+          <OfflineTileLayer sourceId="osm" />
+          <FitAccuracy key={fitKey.current} lat={location.lat} lng={location.lng} accuracyM={accuracyM} />
+          {location.accuracy_m !== undefined && location.accuracy_m !== null && (
+            <Circle
+              center={[location.lat, location.lng]}
+              radius={location.accuracy_m}
+              pathOptions={{ color: GRADE_COLORS[grade], weight: 1, fillOpacity: 0.12 }}
+            />
           )}
+          <DraggablePin lat={location.lat} lng={location.lng} editable={editable} onDrop={handleDrop} />
+          {editable && <PinDropHandler onDrop={handleDrop} />}
+        </MapContainer>
+      </div>
+
+      <div className="flex items-start gap-2 text-xs">
+        <MapPin size={14} className="mt-0.5 flex-shrink-0" style={{ color: GRADE_COLORS[grade] }} />
+        <div className="flex-1 min-w-0">
+          <p className="truncate">{resolving ? 'Looking up address...' : location.address}</p>
+          <p className={mutedClass}>
+            {location.lat.toFixed(6)}, {location.lng.toFixed(6)}
+            {location.source && ` · ${LOCATION_SOURCE_LABELS[location.source]}`}
+            {typeof location.accuracy_m === 'number' && ` · ${formatAccuracy(location.accuracy_m)}`}
+            {typeof location.altitude_m === 'number' && ` · ${Math.round(location.altitude_m)} m altitude`}
+          </p>
         </div>
       </div>
-      
-      {editable && (
-        <div 
-          className={`absolute top-2 right-2 ${
-            theme === 'dark' 
-              ? 'bg-gray-800/80 text-white' 
-              : 'bg-white/80 text-gray-800'
-          } text-xs p-1 rounded shadow-lg backdrop-blur-sm`}
+
+      {editable && photoGps && location.source !== 'exif' && (
+        <button
+          onClick={handleUsePhotoGps}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs border ${
+            isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'
+          }`}
         >
-          {editable ? 'Click to adjust location' : ''}
-        </div>
+          <Camera size={14} />
+          Use the photo's GPS position
+        </button>
       )}
     </div>
   );
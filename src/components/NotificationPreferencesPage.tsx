@@ -156,6 +156,28 @@ function NotificationPreferencesPage({ onNavigate, userId }: NotificationPrefere
                     } after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:after:translate-x-full`}></div>
                   </label>
                 </div>
+                
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className={`font-medium ${theme === 'dark' ? 'text-white' : 'text-gray-800'}`}>
+                      Hazard Alerts
+                    </h3>
+                    <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                      Reports and INCOIS warnings near your saved places
+                    </p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="sr-only peer"
+                      checked={preferences.hazard_alerts !== false}
+                      onChange={() => setPreferences({ ...preferences, hazard_alerts: preferences.hazard_alerts === false })}
+                    />
+                    <div className={`w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer ${
+                      theme === 'dark' ? 'peer-checked:bg-blue-600 peer-checked:after:border-white' : 'peer-checked:bg-blue-600'
+                    } after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:after:translate-x-full`}></div>
+                  </label>
+                </div>
               </div>
             </div>
             
@@ -0,0 +1,31 @@
+/**
+ * OfflineTileLayer - react-leaflet wrapper around CoastalTileLayer
+ * Drop-in replacement for TileLayer that draws downloaded tile packs first
+ */
+
+import React, { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import { CoastalTileLayer } from '../services/CoastalTileService';
+
+interface OfflineTileLayerProps {
+  sourceId: string; // One of COASTAL_TILE_SOURCES
+  opacity?: number;
+  className?: string;
+  zIndex?: number; // Keeps stacking order stable when a layer is recreated
+}
+
+const OfflineTileLayer: React.FC<OfflineTileLayerProps> = ({ sourceId, opacity = 1, className = '', zIndex = 1 }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new CoastalTileLayer(sourceId, { opacity, className, zIndex });
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, sourceId, opacity, className, zIndex]);
+
+  return null;
+};
+
+export default OfflineTileLayer;
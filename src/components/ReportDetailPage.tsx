@@ -1,14 +1,18 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, MapPin, Clock, ExternalLink, Eye, Droplets, Zap, Building2, Route, Trash2, FileText, CheckCircle, ArrowRight, User } from 'lucide-react';
+import { ArrowLeft, MapPin, Clock, ExternalLink, Droplets, Zap, Building2, Route, Trash2, FileText, CheckCircle, ArrowRight, User, Search, XCircle, Copy } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
-import { getReportById, ReportData, getThumbnailUrl, initializeStatusHistoryForExistingReports } from '../services/ReportService';
+import { getReportById, ReportData, getReportAttachments, initializeStatusHistoryForExistingReports, assignCoastalZonesToExistingReports } from '../services/ReportService';
+import ReportMediaGallery from './ReportMediaGallery';
+import EvidenceIntegrityPanel from './EvidenceIntegrityPanel';
 import { ShinyButton } from './magicui/shiny-button';
 import { StatusBadge, PriorityBadge } from './ui/badge';
+import { getStateDescriptor, getUpcomingStates, getWorkflowForHazardType, normalizeStatus } from '../services/ReportWorkflowService';
 
 interface ReportDetailPageProps {
   onNavigate: (page: string) => void;
   reportId: string;
   previousPage?: string;
+  isAdmin?: boolean; // Shows reviewer-only details such as evidence checks
 }
 
 // Timeline event interface for grievance history
@@ -23,7 +27,7 @@ interface TimelineEvent {
   color: string;
 }
 
-function ReportDetailPage({ onNavigate, reportId, previousPage = 'status' }: ReportDetailPageProps) {
+function ReportDetailPage({ onNavigate, reportId, previousPage = 'status', isAdmin = false }: ReportDetailPageProps) {
   const { theme } = useTheme();
 
   console.log('ReportDetailPage - previousPage:', previousPage, 'reportId:', reportId);
@@ -43,6 +47,7 @@ function ReportDetailPage({ onNavigate, reportId, previousPage = 'status' }: Rep
     try {
       // Initialize status history for backward compatibility
       await initializeStatusHistoryForExistingReports();
+      await assignCoastalZonesToExistingReports();
       
       const reportData = await getReportById(reportId);
       if (reportData) {
@@ -107,109 +112,49 @@ function ReportDetailPage({ onNavigate, reportId, previousPage = 'status' }: Rep
     }
   };
 
-  // Generate timeline events from real status history
+  // Generate timeline events from real status history, followed by the
+  // upcoming steps of the report's workflow
   const generateTimelineEvents = (report: ReportData): TimelineEvent[] => {
+    const workflow = getWorkflowForHazardType(report.hazard_type);
     const events: TimelineEvent[] = [];
     
-    // Use real status history if available
-    if (report.status_history && report.status_history.length > 0) {
-      report.status_history.forEach((historyItem, index) => {
-        let title = '';
-        let description = '';
-        let icon = '';
-        let color = '';
-        
-        switch (historyItem.status) {
-          case 'Submitted':
-            title = 'Grievance Filed';
-            description = 'Initial complaint submitted by citizen';
-            icon = 'FileText';
-            color = 'blue';
-            break;
-          case 'In Review':
-            title = 'Under Review';
-            description = 'Complaint is being reviewed by authorities';
-            icon = 'Clock';
-            color = 'yellow';
-            break;
-          case 'Forwarded':
-            title = 'Forwarded to Department';
-            description = `Case forwarded to ${report.category} Department for action`;
-            icon = 'ArrowRight';
-            color = 'orange';
-            break;
-          case 'Resolved':
-            title = 'Issue Resolved';
-            description = 'The reported issue has been successfully resolved';
-            icon = 'CheckCircle';
-            color = 'green';
-            break;
-        }
-        
-        events.push({
-          id: `history-${index}`,
-          title,
-          description: historyItem.notes || description,
-          actor: historyItem.actor || 'System',
-          timestamp: historyItem.timestamp,
-          status: index === report.status_history!.length - 1 ? 'current' : 'completed',
-          icon,
-          color
-        });
+    // Use real status history if available; otherwise fall back to the
+    // creation and current status (for backward compatibility)
+    const history = report.status_history && report.status_history.length > 0
+      ? report.status_history
+      : [
+          { status: workflow.initialState, timestamp: report.created_at, actor: 'Citizen' },
+          ...(normalizeStatus(report.status) !== workflow.initialState
+            ? [{ status: report.status, timestamp: report.updated_at, actor: 'System' }]
+            : [])
+        ];
+
+    history.forEach((historyItem, index) => {
+      const state = getStateDescriptor(historyItem.status, workflow);
+      events.push({
+        id: `history-${index}`,
+        title: state.timelineTitle,
+        description: ('notes' in historyItem && historyItem.notes) || state.description,
+        actor: historyItem.actor || 'System',
+        timestamp: historyItem.timestamp,
+        status: index === history.length - 1 ? 'current' : 'completed',
+        icon: state.icon,
+        color: state.tone
       });
-    } else {
-      // Fallback to basic timeline if no history (for backward compatibility)
+    });
+
+    getUpcomingStates(workflow, report.status).forEach((state, index) => {
       events.push({
-        id: '1',
-        title: 'Grievance Filed',
-        description: 'Initial complaint submitted by citizen',
-        actor: 'Citizen',
-        timestamp: report.created_at,
-        status: 'completed',
-        icon: 'FileText',
-        color: 'blue'
+        id: `upcoming-${index}`,
+        title: state.timelineTitle,
+        description: state.description,
+        actor: 'Pending',
+        timestamp: '',
+        status: 'pending',
+        icon: state.icon,
+        color: state.tone
       });
-      
-      // Add current status if different from submitted
-      if (report.status !== 'Submitted') {
-        let title = '';
-        let description = '';
-        let icon = '';
-        let color = '';
-        
-        switch (report.status) {
-          case 'In Review':
-            title = 'Under Review';
-            description = 'Complaint is being reviewed by authorities';
-            icon = 'Clock';
-            color = 'yellow';
-            break;
-          case 'Forwarded':
-            title = 'Forwarded to Department';
-            description = `Case forwarded to ${report.category} Department for action`;
-            icon = 'ArrowRight';
-            color = 'orange';
-            break;
-          case 'Resolved':
-            title = 'Issue Resolved';
-            description = 'The reported issue has been successfully resolved';
-            icon = 'CheckCircle';
-            color = 'green';
-            break;
-        }
-        
-        events.push({
-          id: '2',
-          title,
-          description,
-          actor: 'System',
-          timestamp: report.updated_at,
-          status: 'current',
-          icon,
-          color
-        });
-      }
-    }
+    });
     
     return events;
   };
@@ -364,69 +309,29 @@ function ReportDetailPage({ onNavigate, reportId, previousPage = 'status' }: Rep
             </div>
           </div>
 
-          {/* Attached Image Section */}
+          {/* Attached Media Section */}
           <div className={`${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-xl shadow-lg border p-6`}>
             <h3 className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-gray-900'} mb-4`}>
-              Attached Image
+              Attached Media
             </h3>
-            {report.image_url ? (
-              <div className="space-y-4">
-                {getThumbnailUrl(report.image_url, 400) ? (
-                  <>
-                    <div className="relative group">
-                      <img
-                        src={getThumbnailUrl(report.image_url, 400)}
-                        alt="Report attachment"
-                        className="w-full h-48 object-cover rounded-lg border border-gray-300 dark:border-gray-600 cursor-pointer hover:opacity-90 transition-opacity"
-                        onClick={() => window.open(report.image_url, '_blank')}
-                        onError={(e) => {
-                          const target = e.target as HTMLImageElement;
-                          target.style.display = 'none';
-                        }}
-                      />
-                      <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 transition-all rounded-lg flex items-center justify-center">
-                        <Eye className="w-8 h-8 text-white opacity-0 group-hover:opacity-100 transition-opacity" />
-                      </div>
-                    </div>
-                    <a
-                      href={report.image_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className={`inline-flex items-center justify-center w-full px-4 py-3 text-sm font-medium rounded-lg transition-colors ${
-                        theme === 'dark'
-                          ? 'bg-blue-900/50 text-blue-200 hover:bg-blue-800 border border-blue-700'
-                          : 'bg-blue-50 text-blue-700 hover:bg-blue-100 border border-blue-200'
-                      }`}
-                    >
-                      <Eye size={16} className="mr-2" />
-                      View Full Image
-                      <ExternalLink size={14} className="ml-2" />
-                    </a>
-                  </>
-                ) : (
-                  <div className={`rounded-lg border-2 border-dashed p-8 flex flex-col items-center justify-center h-48 ${theme === 'dark' ? 'border-gray-600 bg-gray-700/30' : 'border-gray-300 bg-gray-50'}`}>
-                    <div className={`w-12 h-12 mb-3 rounded-full ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'} flex items-center justify-center`}>
-                      <Eye size={24} className={theme === 'dark' ? 'text-gray-400' : 'text-gray-500'} />
-                    </div>
-                    <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'} text-center`}>
-                      Image not available
-                    </p>
-                  </div>
-                )}
-              </div>
-            ) : (
-              <div className={`rounded-lg border-2 border-dashed p-8 flex flex-col items-center justify-center h-48 ${theme === 'dark' ? 'border-gray-600 bg-gray-700/30' : 'border-gray-300 bg-gray-50'}`}>
-                <div className={`w-12 h-12 mb-3 rounded-full ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'} flex items-center justify-center`}>
-                  <Eye size={24} className={theme === 'dark' ? 'text-gray-400' : 'text-gray-500'} />
-                </div>
-                <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'} text-center`}>
-                  No image attached
-                </p>
-              </div>
-            )}
+            <ReportMediaGallery attachments={getReportAttachments(report)} />
           </div>
         </div>
 
+        {/* Evidence Integrity Section (reviewers only) */}
+        {isAdmin && (
+          <div className={`${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-xl shadow-lg border p-6`}>
+            <h3 className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-gray-900'} mb-4`}>
+              Evidence Integrity
+            </h3>
+            <EvidenceIntegrityPanel
+              score={report.evidence_integrity}
+              flags={report.evidence_flags || []}
+              onOpenReport={(relatedId) => onNavigate(`report-detail?reportId=${relatedId}&from=${previousPage}`)}
+            />
+          </div>
+        )}
+
         {/* Report Details Section */}
         <div className={`${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-xl shadow-lg border p-6`}>
           <h3 className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-gray-900'} mb-4`}>
@@ -497,7 +402,10 @@ function ReportDetailPage({ onNavigate, reportId, previousPage = 'status' }: Rep
                         FileText,
                         Clock,
                         ArrowRight,
-                        CheckCircle
+                        CheckCircle,
+                        Search,
+                        XCircle,
+                        Copy
                       };
                       const IconComponent = iconMap[event.icon as keyof typeof iconMap] || FileText;
                       return <IconComponent size={20} />;
@@ -511,27 +419,35 @@ function ReportDetailPage({ onNavigate, reportId, previousPage = 'status' }: Rep
                         <h4 className={`font-bold ${theme === 'dark' ? 'text-white' : 'text-gray-900'} text-lg`}>
                           {event.title}
                         </h4>
-                        <div className="flex items-center gap-2">
-                          <Clock className={`w-4 h-4 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`} />
-                          <span className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                            {formatDate(event.timestamp)}
-                          </span>
-                        </div>
+                        {event.status !== 'pending' && (
+                          <div className="flex items-center gap-2">
+                            <Clock className={`w-4 h-4 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`} />
+                            <span className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                              {formatDate(event.timestamp)}
+                            </span>
+                          </div>
+                        )}
                       </div>
                       <p className={`${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
                         {event.description}
                       </p>
-                      <div className="flex items-center gap-2">
-                        <div className={`w-6 h-6 rounded-full ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'} flex items-center justify-center`}>
-                          <User size={12} className={theme === 'dark' ? 'text-gray-300' : 'text-gray-600'} />
-                        </div>
-                        <span className={`text-sm font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
-                          By {event.actor}
-                        </span>
+                      {event.status === 'pending' ? (
                         <span className={`text-xs ${theme === 'dark' ? 'text-gray-500' : 'text-gray-500'}`}>
-                          • {getRelativeTime(event.timestamp)}
+                          Upcoming step
                         </span>
-                      </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <div className={`w-6 h-6 rounded-full ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'} flex items-center justify-center`}>
+                            <User size={12} className={theme === 'dark' ? 'text-gray-300' : 'text-gray-600'} />
+                          </div>
+                          <span className={`text-sm font-medium ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                            By {event.actor}
+                          </span>
+                          <span className={`text-xs ${theme === 'dark' ? 'text-gray-500' : 'text-gray-500'}`}>
+                            • {getRelativeTime(event.timestamp)}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
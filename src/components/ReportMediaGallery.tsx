@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, ChevronLeft, ChevronRight, Play, Eye, ExternalLink, MapPin, Clock } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { getThumbnailUrl, type ReportAttachment } from '../services/ReportService';
+
+interface ReportMediaGalleryProps {
+  attachments: ReportAttachment[];
+}
+
+// Thumbnail source for an attachment; videos use their poster frame
+const getAttachmentThumbnail = (attachment: ReportAttachment, size: number): string => {
+  if (attachment.kind === 'video') {
+    return attachment.poster_url ? getThumbnailUrl(attachment.poster_url, size) : getThumbnailUrl(attachment.url, size);
+  }
+  return getThumbnailUrl(attachment.url, size);
+};
+
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.round(seconds % 60);
+  return `${minutes}:${String(remainder).padStart(2, '0')}`;
+};
+
+const ReportMediaGallery = ({ attachments }: ReportMediaGalleryProps) => {
+  const { theme } = useTheme();
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const closeLightbox = useCallback(() => setActiveIndex(null), []);
+  const showPrevious = useCallback(() => {
+    setActiveIndex(index => (index === null ? null : (index - 1 + attachments.length) % attachments.length));
+  }, [attachments.length]);
+  const showNext = useCallback(() => {
+    setActiveIndex(index => (index === null ? null : (index + 1) % attachments.length));
+  }, [attachments.length]);
+
+  // Keyboard navigation while the lightbox is open
+  useEffect(() => {
+    if (activeIndex === null) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closeLightbox();
+      if (event.key === 'ArrowLeft') showPrevious();
+      if (event.key === 'ArrowRight') showNext();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeIndex, closeLightbox, showPrevious, showNext]);
+
+  if (attachments.length === 0) {
+    return (
+      <div className={`rounded-lg border-2 border-dashed p-8 flex flex-col items-center justify-center h-48 ${theme === 'dark' ? 'border-gray-600 bg-gray-700/30' : 'border-gray-300 bg-gray-50'}`}>
+        <div className={`w-12 h-12 mb-3 rounded-full ${theme === 'dark' ? 'bg-gray-600' : 'bg-gray-200'} flex items-center justify-center`}>
+          <Eye size={24} className={theme === 'dark' ? 'text-gray-400' : 'text-gray-500'} />
+        </div>
+        <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'} text-center`}>
+          No media attached
+        </p>
+      </div>
+    );
+  }
+
+  const [featured, ...rest] = attachments;
+  const active = activeIndex !== null ? attachments[activeIndex] : null;
+
+  const renderTile = (attachment: ReportAttachment, index: number, size: number, heightClass: string) => {
+    const thumbnail = getAttachmentThumbnail(attachment, size);
+    return (
+      <button
+        key={attachment.id}
+        type="button"
+        onClick={() => setActiveIndex(index)}
+        className={`relative group w-full ${heightClass} rounded-lg overflow-hidden border ${theme === 'dark' ? 'border-gray-600 bg-gray-700' : 'border-gray-300 bg-gray-100'}`}
+      >
+        {thumbnail ? (
+          <img
+            src={thumbnail}
+            alt={attachment.kind === 'video' ? 'Report video' : 'Report photo'}
+            className="w-full h-full object-cover group-hover:opacity-90 transition-opacity"
+            loading="lazy"
+            onError={(e) => {
+              const target = e.target as HTMLImageElement;
+              target.style.display = 'none';
+            }}
+          />
+        ) : null}
+        {attachment.kind === 'video' && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="w-10 h-10 rounded-full bg-black/60 flex items-center justify-center">
+              <Play size={18} className="text-white ml-0.5" />
+            </div>
+            {attachment.duration_s !== undefined && (
+              <span className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-xs font-mono">
+                {formatDuration(attachment.duration_s)}
+              </span>
+            )}
+          </div>
+        )}
+        <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 transition-all" />
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {renderTile(featured, 0, 400, 'h-48')}
+
+      {rest.length > 0 && (
+        <div className="grid grid-cols-4 gap-2">
+          {rest.map((attachment, i) => renderTile(attachment, i + 1, 150, 'h-16'))}
+        </div>
+      )}
+
+      <p className={`text-xs ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+        {attachments.filter(a => a.kind === 'image').length} photo(s), {attachments.filter(a => a.kind === 'video').length} video(s)
+      </p>
+
+      {/* Lightbox */}
+      {active && (
+        <div
+          className="fixed inset-0 z-50 bg-black/90 flex flex-col items-center justify-center p-4"
+          onClick={closeLightbox}
+          role="dialog"
+          aria-modal="true"
+        >
+          <button
+            type="button"
+            onClick={closeLightbox}
+            className="absolute top-4 right-4 p-2 rounded-full bg-white/10 text-white hover:bg-white/20"
+            aria-label="Close"
+          >
+            <X size={24} />
+          </button>
+
+          {attachments.length > 1 && (
+            <>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); showPrevious(); }}
+                className="absolute left-4 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20"
+                aria-label="Previous"
+              >
+                <ChevronLeft size={28} />
+              </button>
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); showNext(); }}
+                className="absolute right-4 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20"
+                aria-label="Next"
+              >
+                <ChevronRight size={28} />
+              </button>
+            </>
+          )}
+
+          <div className="max-w-5xl w-full flex items-center justify-center" onClick={(e) => e.stopPropagation()}>
+            {active.kind === 'video' ? (
+              <video
+                key={active.id}
+                src={active.url}
+                poster={active.poster_url || undefined}
+                controls
+                autoPlay
+                playsInline
+                className="max-h-[80vh] max-w-full rounded-lg"
+              />
+            ) : (
+              <img
+                key={active.id}
+                src={active.url}
+                alt="Report photo"
+                className="max-h-[80vh] max-w-full object-contain rounded-lg"
+              />
+            )}
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-4 text-sm text-gray-300" onClick={(e) => e.stopPropagation()}>
+            <span>{(activeIndex ?? 0) + 1} / {attachments.length}</span>
+            {active.captured_at && (
+              <span className="inline-flex items-center">
+                <Clock size={14} className="mr-1" />
+                {new Date(active.captured_at).toLocaleString()}
+              </span>
+            )}
+            {active.gps && (
+              <span className="inline-flex items-center font-mono">
+                <MapPin size={14} className="mr-1" />
+                {active.gps.lat.toFixed(5)}, {active.gps.lng.toFixed(5)}
+              </span>
+            )}
+            <a
+              href={active.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center text-blue-300 hover:text-blue-200"
+            >
+              Open original
+              <ExternalLink size={14} className="ml-1" />
+            </a>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportMediaGallery;
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Settings, Activity, Play, Pause, TrendingUp, AlertTriangle, CheckCircle, Clock, Zap, Eye, Trash2, FileText } from 'lucide-react';
+import { Settings, Activity, Play, Pause, TrendingUp, AlertTriangle, CheckCircle, Clock, Zap, Eye, Trash2, FileText, MapPin } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import { translations } from '../utils/translations';
 import smartCameraService, { SmartCameraConfig, SmartCameraCaptureData } from '../services/SmartCameraService';
-import { submitReport } from '../services/ReportService';
+import { submitReport, type ReportLocation } from '../services/ReportService';
+import { needsLocationCorrection } from '../services/LocationQualityService';
+import { MEDIA_LIMITS, type PreparedMedia } from '../services/MediaService';
 import { PriorityBadge } from './ui/badge';
+import MediaPicker from './ui/MediaPicker';
+import LocationMap, { type PinnedLocation } from './LocationMap';
 
 interface SmartCameraPanelProps {
   onClose?: () => void;
@@ -20,6 +24,14 @@ const SmartCameraPanel: React.FC<SmartCameraPanelProps> = ({ onClose }) => {
   const [isSupported, setIsSupported] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Capture being turned into a report: extra photos and videos, and its position when it needs correcting
+  const [draft, setDraft] = useState<{
+    capture: SmartCameraCaptureData;
+    location: PinnedLocation;
+    needsCorrection: boolean;
+    media: PreparedMedia[];
+  } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     // Check if Smart Camera is supported - use static method directly
@@ -111,14 +123,42 @@ const SmartCameraPanel: React.FC<SmartCameraPanelProps> = ({ onClose }) => {
       return;
     }
 
+    // A vague fix is confirmed on the map before the report is created
+    setDraft({
+      capture,
+      location: capture.location,
+      needsCorrection: needsLocationCorrection(capture.location),
+      media: []
+    });
+  };
+
+  const handleSubmitDraft = async () => {
+    if (!draft?.capture.location) return;
+    const { capture, location, media } = draft;
+    setSubmitting(true);
+    try {
+      await createReportFromCapture(capture, { ...location, city: location.city || capture.location!.city }, media);
+    } finally {
+      setSubmitting(false);
+      setDraft(null);
+    }
+  };
+
+  const createReportFromCapture = async (
+    capture: SmartCameraCaptureData,
+    location: ReportLocation & { city: string },
+    media: PreparedMedia[]
+  ) => {
+    if (!capture.aiResult) return;
+
     try {
       console.log('Manually creating report for capture:', capture.id);
 
       const reportResponse = await submitReport(
         `[Smart Camera] ${capture.aiResult.title}`,
-        `${capture.aiResult.description}\n\n--- \n📸 Auto-detected by Smart Camera\n🤖 AI Confidence: ${(capture.aiResult.confidence * 100).toFixed(1)}%\n📍 Location: ${capture.location.address}`,
+        `${capture.aiResult.description}\n\n--- \n📸 Auto-detected by Smart Camera\n🤖 AI Confidence: ${(capture.aiResult.confidence * 100).toFixed(1)}%\n📍 Location: ${location.address}`,
         capture.aiResult.category,
-        capture.location,
+        location,
         capture.imageData,
         'smart_camera_system',
         capture.aiResult.priority,
@@ -126,7 +166,9 @@ const SmartCameraPanel: React.FC<SmartCameraPanelProps> = ({ onClose }) => {
           isSmartCamera: true,
           aiConfidence: capture.aiResult.confidence,
           captureId: capture.id
-        }
+        },
+        undefined,
+        media
       );
 
       if (reportResponse.success) {
@@ -135,7 +177,7 @@ const SmartCameraPanel: React.FC<SmartCameraPanelProps> = ({ onClose }) => {
         // Update the capture data
         const success = smartCameraService.deleteCapture(capture.id);
         if (success) {
-          const updatedCapture = { ...capture, reportId: reportResponse.report_id, uploaded: true };
+          const updatedCapture = { ...capture, location, reportId: reportResponse.report_id, uploaded: true };
           const allCaptures = smartCameraService.getRecentCaptures();
           allCaptures.unshift(updatedCapture);
           localStorage.setItem('smart_camera_captures', JSON.stringify(allCaptures));
@@ -674,6 +716,57 @@ const SmartCameraPanel: React.FC<SmartCameraPanelProps> = ({ onClose }) => {
           )}
         </div>
       </div>
+
+      {/* Review before reporting a capture: attachments, and the location when the fix is vague */}
+      {draft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <div className={`w-full max-w-lg max-h-full overflow-y-auto p-6 rounded-2xl border shadow-xl ${
+            theme === 'dark' ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'
+          }`}>
+            {draft.needsCorrection && (
+              <>
+                <div className="flex items-center gap-3 mb-4">
+                  <MapPin className="w-6 h-6 text-amber-500" />
+                  <h3 className="text-lg font-semibold">Confirm the hazard location</h3>
+                </div>
+                <LocationMap
+                  location={draft.location}
+                  onLocationChange={location => setDraft(current => current && { ...current, location })}
+                  height="18rem"
+                />
+              </>
+            )}
+            <div className={`flex items-center gap-3 mb-3 ${draft.needsCorrection ? 'mt-6' : ''}`}>
+              <FileText className="w-6 h-6 text-blue-500" />
+              <h3 className="text-lg font-semibold">Add photos and videos</h3>
+            </div>
+            <MediaPicker
+              media={draft.media}
+              onChange={media => setDraft(current => current && { ...current, media })}
+              maxItems={MEDIA_LIMITS.maxAttachments - 1} // The capture itself is the first attachment
+              theme={theme === 'dark' ? 'dark' : 'light'}
+            />
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setDraft(null)}
+                disabled={submitting}
+                className={`px-4 py-2 rounded-xl text-sm font-medium disabled:opacity-60 ${
+                  theme === 'dark' ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+                }`}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitDraft}
+                disabled={submitting}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-60"
+              >
+                {submitting ? 'Creating report...' : draft.needsCorrection ? 'Create report here' : 'Create report'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
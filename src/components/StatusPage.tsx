@@ -3,8 +3,21 @@ import { ArrowLeft, ChevronRight, MapPin, Droplets, Zap, Waves, CloudRain, Mount
 import { useTheme } from '../contexts/ThemeContext';
 import { translations } from '../utils/translations';
 import { getUserReports, ReportData } from '../services/ReportService';
+import { reportOutbox, OUTBOX_UPDATED_EVENT, type OutboxSyncState } from '../services/ReportOutboxService';
+import { getStateDescriptor, type WorkflowTone } from '../services/ReportWorkflowService';
 import Loader from './Loader';
-import { StatusBadge, PriorityBadge, SmartCameraBadge } from './ui/badge';
+import { StatusBadge, PriorityBadge, SmartCameraBadge, SyncStateBadge } from './ui/badge';
+
+// Indicator bar colour for each workflow state tone
+const statusBarColors: Record<WorkflowTone, string> = {
+  blue: 'bg-blue-500',
+  amber: 'bg-yellow-500',
+  green: 'bg-green-500',
+  purple: 'bg-purple-500',
+  orange: 'bg-orange-500',
+  red: 'bg-red-500',
+  gray: 'bg-gray-400'
+};
 
 interface StatusPageProps {
   onNavigate: (page: string) => void;
@@ -19,6 +32,7 @@ function StatusPage({ onNavigate, isSignedIn, userId = 'anon_user' }: StatusPage
   const [reports, setReports] = useState<ReportData[]>([]);
   const [filter, setFilter] = useState<string | null>(null); // Filter by category
   const [isLoading, setIsLoading] = useState(true);
+  const [syncStates, setSyncStates] = useState<Record<string, OutboxSyncState>>({});
   
   // Categories for filtering
   const categories = ['All', 'Tsunami', 'Cyclone', 'Storm Surge', 'High Waves', 'Coastal Erosion', 'Marine Pollution', 'Oil Spill', 'Dead Zone', 'Algal Bloom', 'Sea Level Rise', 'Extreme Weather', 'Maritime Accident', 'Search and Rescue', 'Navigation Hazard', 'Other'];
@@ -27,6 +41,29 @@ function StatusPage({ onNavigate, isSignedIn, userId = 'anon_user' }: StatusPage
     // Load user reports from local storage or API
     loadReports();
   }, [userId]);
+
+  useEffect(() => {
+    reportOutbox.getSyncStates().then(setSyncStates).catch(error => {
+      console.error('Error loading sync states:', error);
+    });
+
+    // Keep sync badges and reconciled report data current
+    const handleOutboxUpdate = (event: CustomEvent) => {
+      const { reportId, syncState, report } = event.detail;
+      setSyncStates(prev => ({ ...prev, [reportId]: syncState }));
+      setReports(prev => prev.map(r => r.report_id === reportId ? { ...r, ...report } : r));
+    };
+
+    window.addEventListener(OUTBOX_UPDATED_EVENT, handleOutboxUpdate as EventListener);
+    return () => {
+      window.removeEventListener(OUTBOX_UPDATED_EVENT, handleOutboxUpdate as EventListener);
+    };
+  }, []);
+
+  const handleRetrySync = (event: React.MouseEvent, reportId: string) => {
+    event.stopPropagation();
+    reportOutbox.retry(reportId);
+  };
   
   const loadReports = async () => {
     setIsLoading(true);
@@ -180,11 +217,7 @@ function StatusPage({ onNavigate, isSignedIn, userId = 'anon_user' }: StatusPage
               >
                 {/* Status indicator bar */}
                 <div className={`absolute top-0 left-0 w-full h-1 ${
-                  report.status === 'Verified'
-                    ? 'bg-green-500'
-                    : report.status === 'Reviewed'
-                    ? 'bg-yellow-500'
-                    : 'bg-gray-400'
+                  statusBarColors[getStateDescriptor(report.status).tone]
                 }`}></div>
                 
                 <div className="relative">
@@ -241,6 +274,21 @@ function StatusPage({ onNavigate, isSignedIn, userId = 'anon_user' }: StatusPage
                         theme={theme}
                       />
                     )}
+                    {syncStates[report.report_id] && (
+                      <SyncStateBadge
+                        state={syncStates[report.report_id]}
+                        size="sm"
+                        theme={theme}
+                      />
+                    )}
+                    {syncStates[report.report_id] === 'failed' && (
+                      <button
+                        onClick={(event) => handleRetrySync(event, report.report_id)}
+                        className={`text-xs font-medium underline ${theme === 'dark' ? 'text-blue-400' : 'text-blue-600'}`}
+                      >
+                        Retry
+                      </button>
+                    )}
                   </div>
                   
                   {/* Location */}
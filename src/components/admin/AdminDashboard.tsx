@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, TrendingUp, Zap } from 'lucide-react';
+import { ArrowLeft, Database, TrendingUp, Zap } from 'lucide-react';
 import { useTheme } from '../../contexts/ThemeContext';
 import AdminAnalytics from '../AdminAnalytics';
 import SmartCameraPanel from '../SmartCameraPanel';
+import ReportExchangePanel from './ReportExchangePanel';
 
 interface AdminDashboardProps {
   onNavigate?: (page: string) => void;
@@ -12,7 +13,7 @@ interface AdminDashboardProps {
 function AdminDashboard({ onNavigate, user }: AdminDashboardProps) {
   const { theme } = useTheme();
   const [userName, setUserName] = useState<string>('');
-  const [currentView, setCurrentView] = useState<'analytics' | 'smart-camera'>('analytics');
+  const [currentView, setCurrentView] = useState<'analytics' | 'smart-camera' | 'data-exchange'>('analytics');
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
@@ -113,6 +114,21 @@ function AdminDashboard({ onNavigate, user }: AdminDashboardProps) {
               <span className="hidden sm:inline">Ocean Smart Camera</span>
               <span className="sm:hidden">Ocean Camera</span>
             </button>
+
+            <button
+              onClick={() => setCurrentView('data-exchange')}
+              className={`flex items-center space-x-2 px-4 py-3 rounded-lg font-medium transition-all duration-200 ${
+                currentView === 'data-exchange'
+                  ? 'bg-blue-600 text-white shadow-lg'
+                  : theme === 'dark'
+                  ? 'text-gray-400 hover:text-white hover:bg-gray-700/50'
+                  : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100/50'
+              }`}
+            >
+              <Database size={18} />
+              <span className="hidden sm:inline">Import / Export</span>
+              <span className="sm:hidden">Data</span>
+            </button>
           </div>
         </div>
 
@@ -127,6 +143,9 @@ function AdminDashboard({ onNavigate, user }: AdminDashboardProps) {
           <div>
             <SmartCameraPanel />
           </div>
+        ) : currentView === 'data-exchange' ? (
+          /* GIS export and historical import */
+          <ReportExchangePanel userId={user?.id} />
         ) : null}
       </div>
     </div>
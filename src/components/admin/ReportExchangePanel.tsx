@@ -0,0 +1,399 @@
+/**
+ * Report Exchange Panel - export filtered reports for GIS tools and import historical records
+ * Imports go through a column mapping and a dry-run preview with per-row errors
+ * before anything is stored
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Download, FileUp, Upload } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import { getCityList, getFilteredReports, getReportsByCoastalZone, REPORT_CATEGORIES } from '../../services/ReportService';
+import type { ReportQuery } from '../../services/ReportRepository';
+import { COASTAL_REGIONS, getRegionBounds } from '../../services/CoastalTileService';
+import { listCoastalZones } from '../../services/CoastalZoneService';
+import { getWorkflows } from '../../services/ReportWorkflowService';
+import {
+  exportImportErrors,
+  exportReports,
+  getExportFilename,
+  importReports,
+  parseImportFile,
+  previewImport,
+  REPORT_EXPORT_FORMATS,
+  REPORT_FIELDS,
+  suggestColumnMapping,
+  type ImportColumnMapping,
+  type ImportPreview,
+  type ImportResult,
+  type ImportTable,
+  type ReportExportFormat,
+  type ReportFieldKey
+} from '../../services/ReportExchangeService';
+
+interface ReportExchangePanelProps {
+  userId?: string; // Recorded as the reporter of imported rows without one
+}
+
+interface ExportFilters {
+  city: string;
+  category: string;
+  status: string;
+  regionId: string;
+  districtZoneId: string; // Land strip zone of a coastal district; its waters are included
+  from: string; // yyyy-mm-dd
+  to: string;
+}
+
+const EMPTY_FILTERS: ExportFilters = { city: '', category: '', status: '', regionId: '', districtZoneId: '', from: '', to: '' };
+
+const PREVIEW_ROWS = 20;
+
+const DISTRICT_ZONES = listCoastalZones({ kinds: ['district'] });
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+function ReportExchangePanel({ userId }: ReportExchangePanelProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [cities, setCities] = useState<string[]>([]);
+  const [filters, setFilters] = useState<ExportFilters>(EMPTY_FILTERS);
+  const [exporting, setExporting] = useState<ReportExportFormat | null>(null);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [importing, setImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const statuses = useMemo(
+    () => [...new Set(getWorkflows().flatMap(workflow => workflow.states.map(state => state.id)))],
+    []
+  );
+
+  useEffect(() => {
+    getCityList().then(setCities).catch(err => console.error('Error loading cities:', err));
+  }, []);
+
+  // The dry run is recomputed whenever the mapping changes
+  const preview: ImportPreview | null = useMemo(
+    () => table ? previewImport(table, mapping, { userId, sourceName: fileName }) : null,
+    [table, mapping, userId, fileName]
+  );
+
+  const handleExport = async (format: ReportExportFormat) => {
+    setExporting(format);
+    setExportMessage(null);
+    setError(null);
+    try {
+      const query: ReportQuery = {};
+      if (filters.city) query.city = filters.city;
+      if (filters.category) query.category = filters.category;
+      if (filters.status) query.statuses = [filters.status];
+      if (filters.from) query.createdAfter = new Date(`${filters.from}T00:00:00`).toISOString();
+      if (filters.to) query.createdBefore = new Date(`${filters.to}T23:59:59.999`).toISOString();
+      const region = COASTAL_REGIONS.find(candidate => candidate.id === filters.regionId);
+      if (region) query.bounds = getRegionBounds(region);
+
+      const district = DISTRICT_ZONES.find(zone => zone.id === filters.districtZoneId);
+      const reports = district
+        ? await getReportsByCoastalZone({ state: district.state, district: district.district || undefined }, query)
+        : await getFilteredReports(query);
+      downloadBlob(exportReports(reports, format), getExportFilename(format));
+      setExportMessage(`Exported ${reports.length} report${reports.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      console.error('Error exporting reports:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export reports');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setResult(null);
+    try {
+      const parsed = parseImportFile(await file.text(), file.name);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(suggestColumnMapping(parsed.columns));
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setTable(null);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || preview.reports.length === 0) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      const imported = await importReports(preview, (done, total) => setImportProgress({ done, total }));
+      setResult(imported);
+      setTable(null);
+    } catch (err) {
+      console.error('Error importing reports:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import reports');
+    } finally {
+      setImporting(false);
+      setImportProgress(null);
+    }
+  };
+
+  const cardClass = `${
+    isDark ? 'bg-gray-800/60 backdrop-blur-xl border-gray-700/50' : 'bg-white/60 backdrop-blur-xl border-gray-100/50'
+  } rounded-xl shadow-lg border p-6`;
+  const headingClass = `text-lg font-semibold mb-1 ${isDark ? 'text-white' : 'text-gray-900'}`;
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `w-full px-3 py-2 rounded-lg border text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const secondaryButtonClass = `flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm border disabled:opacity-50 ${
+    isDark ? 'border-gray-600 text-gray-200 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+  }`;
+  const tableCellClass = `px-2 py-1 border-b text-left ${isDark ? 'border-gray-700' : 'border-gray-200'}`;
+
+  const importableFields = REPORT_FIELDS.filter(field => field.importable);
+  const errorsByRow = new Map<number, string[]>();
+  preview?.errors.forEach(item => errorsByRow.set(item.row, [...(errorsByRow.get(item.row) || []), item.message]));
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className={`p-3 rounded-lg text-sm ${isDark ? 'bg-red-900/40 text-red-300' : 'bg-red-50 text-red-700'}`}>
+          {error}
+        </div>
+      )}
+
+      {/* Export */}
+      <div className={cardClass}>
+        <h2 className={headingClass}>Export reports</h2>
+        <p className={`text-sm mb-4 ${mutedClass}`}>
+          GeoJSON and KML for GIS and Google Earth; CSV with short column names for Shapefile conversion, or for Excel
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+          <label className={`text-xs ${mutedClass}`}>
+            City
+            <select value={filters.city} onChange={(e) => setFilters(prev => ({ ...prev, city: e.target.value }))} className={inputClass}>
+              <option value="">All cities</option>
+              {cities.map(city => <option key={city} value={city}>{city}</option>)}
+            </select>
+          </label>
+          <label className={`text-xs ${mutedClass}`}>
+            Category
+            <select value={filters.category} onChange={(e) => setFilters(prev => ({ ...prev, category: e.target.value }))} className={inputClass}>
+              <option value="">All categories</option>
+              {REPORT_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+            </select>
+          </label>
+          <label className={`text-xs ${mutedClass}`}>
+            Status
+            <select value={filters.status} onChange={(e) => setFilters(prev => ({ ...prev, status: e.target.value }))} className={inputClass}>
+              <option value="">All statuses</option>
+              {statuses.map(status => <option key={status} value={status}>{status}</option>)}
+            </select>
+          </label>
+          <label className={`text-xs ${mutedClass}`}>
+            Area
+            <select value={filters.regionId} onChange={(e) => setFilters(prev => ({ ...prev, regionId: e.target.value }))} className={inputClass}>
+              <option value="">Anywhere</option>
+              {COASTAL_REGIONS.map(region => <option key={region.id} value={region.id}>{region.name}</option>)}
+            </select>
+          </label>
+          <label className={`text-xs ${mutedClass}`}>
+            Coastal district
+            <select value={filters.districtZoneId} onChange={(e) => setFilters(prev => ({ ...prev, districtZoneId: e.target.value }))} className={inputClass}>
+              <option value="">All districts</option>
+              {DISTRICT_ZONES.map(zone => <option key={zone.id} value={zone.id}>{zone.district}, {zone.state}</option>)}
+            </select>
+          </label>
+          <label className={`text-xs ${mutedClass}`}>
+            From
+            <input type="date" value={filters.from} onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))} className={inputClass} />
+          </label>
+          <label className={`text-xs ${mutedClass}`}>
+            To
+            <input type="date" value={filters.to} onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))} className={inputClass} />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {REPORT_EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              disabled={exporting !== null}
+              className={secondaryButtonClass}
+            >
+              <Download size={16} />
+              {exporting === format.id ? 'Exporting...' : format.label}
+            </button>
+          ))}
+        </div>
+        {exportMessage && <p className={`text-sm mt-3 ${mutedClass}`}>{exportMessage}</p>}
+      </div>
+
+      {/* Import */}
+      <div className={cardClass}>
+        <h2 className={headingClass}>Import historical reports</h2>
+        <p className={`text-sm mb-4 ${mutedClass}`}>
+          GeoJSON, KML or CSV. Map the columns, check the preview, then import the valid rows.
+          Location, category and report date are required.
+        </p>
+
+        <label className={`${secondaryButtonClass} inline-flex cursor-pointer`}>
+          <FileUp size={16} />
+          {fileName && table ? fileName : 'Choose file'}
+          <input
+            type="file"
+            accept=".geojson,.json,.kml,.csv,.txt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {result && (
+          <div className={`mt-4 p-3 rounded-lg text-sm flex items-start gap-2 ${
+            isDark ? 'bg-green-900/30 text-green-300' : 'bg-green-50 text-green-700'
+          }`}>
+            <CheckCircle size={16} className="mt-0.5 flex-shrink-0" />
+            <div>
+              Imported {result.imported} report{result.imported === 1 ? '' : 's'}
+              {result.errors.length > 0 && (
+                <>
+                  ; {result.errors.length} could not be stored.{' '}
+                  <button
+                    onClick={() => downloadBlob(exportImportErrors(result.errors), 'import-errors.csv')}
+                    className="underline"
+                  >
+                    Download error report
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {table && preview && (
+          <div className="mt-4 space-y-4">
+            <div>
+              <h3 className={`text-sm font-semibold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>Column mapping</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {table.columns.map(column => (
+                  <label key={column} className={`text-xs ${mutedClass}`}>
+                    {column}
+                    <select
+                      value={mapping[column] || ''}
+                      onChange={(e) => setMapping(prev => ({ ...prev, [column]: (e.target.value || null) as ReportFieldKey | null }))}
+                      className={inputClass}
+                    >
+                      <option value="">Ignore</option>
+                      {importableFields.map(field => (
+                        <option key={field.key} value={field.key}>{field.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className={`p-3 rounded-lg text-sm flex items-center gap-2 ${
+              preview.errors.length === 0
+                ? isDark ? 'bg-green-900/30 text-green-300' : 'bg-green-50 text-green-700'
+                : isDark ? 'bg-yellow-900/30 text-yellow-300' : 'bg-yellow-50 text-yellow-800'
+            }`}>
+              {preview.errors.length === 0 ? <CheckCircle size={16} /> : <AlertTriangle size={16} />}
+              <span>
+                Dry run: {preview.reports.length} of {preview.totalRows} rows valid
+                {preview.errors.length > 0 && `, ${preview.errors.length} error${preview.errors.length === 1 ? '' : 's'}`}
+              </span>
+              {preview.errors.length > 0 && (
+                <button
+                  onClick={() => downloadBlob(exportImportErrors(preview.errors), 'import-errors.csv')}
+                  className="ml-auto underline"
+                >
+                  Download error report
+                </button>
+              )}
+            </div>
+
+            {errorsByRow.get(0) && (
+              <ul className={`text-sm list-disc pl-5 ${isDark ? 'text-red-300' : 'text-red-700'}`}>
+                {errorsByRow.get(0)!.map(message => <li key={message}>{message}</li>)}
+              </ul>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className={`w-full text-xs ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                <thead>
+                  <tr>
+                    <th className={tableCellClass}>Row</th>
+                    <th className={tableCellClass}>Title</th>
+                    <th className={tableCellClass}>Category</th>
+                    <th className={tableCellClass}>Location</th>
+                    <th className={tableCellClass}>Reported</th>
+                    <th className={tableCellClass}>Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((_, index) => {
+                    const row = index + 1;
+                    const valid = preview.reports.find(item => item.row === row)?.report;
+                    const rowErrors = errorsByRow.get(row);
+                    return (
+                      <tr key={row}>
+                        <td className={tableCellClass}>{row}</td>
+                        <td className={tableCellClass}>{valid?.title || '—'}</td>
+                        <td className={tableCellClass}>{valid?.category || '—'}</td>
+                        <td className={tableCellClass}>
+                          {valid ? `${valid.location.lat.toFixed(4)}, ${valid.location.lng.toFixed(4)}` : '—'}
+                        </td>
+                        <td className={tableCellClass}>{valid ? new Date(valid.created_at).toLocaleString() : '—'}</td>
+                        <td className={`${tableCellClass} ${rowErrors ? 'text-red-500' : 'text-green-500'}`}>
+                          {rowErrors ? rowErrors.join('; ') : 'OK'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {table.rows.length > PREVIEW_ROWS && (
+                <p className={`text-xs mt-2 ${mutedClass}`}>
+                  Showing the first {PREVIEW_ROWS} of {table.rows.length} rows; the error report lists every row
+                </p>
+              )}
+            </div>
+
+            <button
+              onClick={handleImport}
+              disabled={importing || preview.reports.length === 0}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors"
+            >
+              <Upload size={16} />
+              {importing && importProgress
+                ? `Importing ${importProgress.done} of ${importProgress.total}...`
+                : `Import ${preview.reports.length} valid report${preview.reports.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ReportExchangePanel;
@@ -0,0 +1,596 @@
+/**
+ * Affected Zones Panel - admin tools for drawing named affected areas on the map
+ * Draw a polygon, circle or buffered line, save it as a zone, then select the
+ * reports inside it for bulk status changes or export, and issue an alert that
+ * notifies the users with a recent report or a saved place inside the zone
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Circle, Download, MapPinned, Megaphone, Pentagon, Spline, Trash2, Undo2, X } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  affectedZoneService,
+  getZoneAreaKm2,
+  ZONE_LIMITS,
+  type AffectedZone,
+  type BulkStatusResult,
+  type ZoneAlert,
+  type ZoneAlertInput,
+  type ZoneGeometry,
+  type ZoneRecipient,
+  type ZoneShape
+} from '../../services/AffectedZoneService';
+import { exportReports, getExportFilename } from '../../services/ReportExchangeService';
+import { getWorkflows } from '../../services/ReportWorkflowService';
+import type { ReportData } from '../../services/ReportService';
+
+interface AffectedZonesPanelProps {
+  userId: string; // Admin drawing zones and issuing alerts
+  draft: ZoneGeometry | null;
+  onDraftChange: (draft: ZoneGeometry | null) => void;
+  selectedZoneId: string | null;
+  onSelectZone: (zoneId: string | null) => void;
+  onZonesChange?: (zones: AffectedZone[]) => void;
+  onSelectedReportsChange?: (reports: ReportData[]) => void;
+  onClose?: () => void;
+}
+
+const SHAPES: Array<{ id: ZoneShape; label: string; hint: string; icon: typeof Pentagon }> = [
+  { id: 'polygon', label: 'Polygon', hint: 'Click the map to add corners', icon: Pentagon },
+  { id: 'circle', label: 'Circle', hint: 'Click the centre, then click again to set the radius', icon: Circle },
+  { id: 'line', label: 'Line', hint: 'Click along the coast or river; the buffer is either side', icon: Spline }
+];
+
+const ALERT_TYPES: Array<ZoneAlertInput['alertType']> = ['bulletin', 'advisory', 'warning', 'emergency'];
+const ALERT_PRIORITIES: Array<ZoneAlertInput['priority']> = ['low', 'medium', 'high', 'critical'];
+const ALERT_CATEGORIES: Array<ZoneAlertInput['category']> = ['coastal', 'marine', 'tsunami', 'cyclone', 'weather', 'general'];
+
+const EMPTY_ALERT = {
+  alertType: 'warning' as ZoneAlertInput['alertType'],
+  priority: 'high' as ZoneAlertInput['priority'],
+  category: 'coastal' as ZoneAlertInput['category'],
+  title: '',
+  message: '',
+  instructions: '',
+  validHours: 24
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const formatArea = (km2: number) => (km2 < 1 ? `${Math.round(km2 * 100)} ha` : `${km2.toFixed(1)} km²`);
+
+const AffectedZonesPanel: React.FC<AffectedZonesPanelProps> = ({
+  userId,
+  draft,
+  onDraftChange,
+  selectedZoneId,
+  onSelectZone,
+  onZonesChange,
+  onSelectedReportsChange,
+  onClose
+}) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [zones, setZones] = useState<AffectedZone[]>([]);
+  const [zonesVersion, setZonesVersion] = useState(0); // Bumped to reload zones after a change
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [reports, setReports] = useState<ReportData[]>([]);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState('');
+  const [bulkNotes, setBulkNotes] = useState('');
+  const [bulkResult, setBulkResult] = useState<BulkStatusResult | null>(null);
+  const [recipients, setRecipients] = useState<ZoneRecipient[] | null>(null);
+  const [alertForm, setAlertForm] = useState(EMPTY_ALERT);
+  const [alerts, setAlerts] = useState<ZoneAlert[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedZone = zones.find(zone => zone.id === selectedZoneId) || null;
+  const statuses = useMemo(
+    () => [...new Set(getWorkflows().flatMap(workflow => workflow.states.map(state => state.id)))],
+    []
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    affectedZoneService.listZones()
+      .then(loaded => {
+        if (!cancelled) setZones(loaded);
+      })
+      .catch(err => {
+        console.error('Error loading affected zones:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load affected zones');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [zonesVersion]);
+
+  useEffect(() => {
+    onZonesChange?.(zones);
+  }, [zones, onZonesChange]);
+
+  // Zones are only shown while the panel is open
+  useEffect(() => () => {
+    onDraftChange(null);
+    onSelectZone(null);
+    onZonesChange?.([]);
+    onSelectedReportsChange?.([]);
+  }, [onDraftChange, onSelectZone, onZonesChange, onSelectedReportsChange]);
+
+  // Reports, recipients and alerts of the selected zone
+  useEffect(() => {
+    setReports([]);
+    setChecked(new Set());
+    setBulkResult(null);
+    setRecipients(null);
+    setAlerts([]);
+    if (!selectedZone) return;
+
+    let cancelled = false;
+    Promise.all([affectedZoneService.getReportsInZone(selectedZone), affectedZoneService.getAlerts(selectedZone.id)])
+      .then(([zoneReports, zoneAlerts]) => {
+        if (cancelled) return;
+        setReports(zoneReports);
+        setChecked(new Set(zoneReports.map(report => report.report_id)));
+        setAlerts(zoneAlerts);
+      })
+      .catch(err => {
+        console.error('Error loading zone reports:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load reports in zone');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedZone]);
+
+  const selectedReports = useMemo(() => reports.filter(report => checked.has(report.report_id)), [reports, checked]);
+
+  useEffect(() => {
+    onSelectedReportsChange?.(selectedReports);
+  }, [selectedReports, onSelectedReportsChange]);
+
+  const startDrawing = (shape: ZoneShape) => {
+    onSelectZone(null);
+    setError(null);
+    onDraftChange({
+      shape_type: shape,
+      coordinates: [],
+      radius_km: shape === 'polygon' ? null : shape === 'circle' ? 5 : ZONE_LIMITS.defaultLineBufferKm
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const zone = await affectedZoneService.saveZone({ ...draft, name, description }, userId);
+      onDraftChange(null);
+      setName('');
+      setDescription('');
+      setZonesVersion(version => version + 1);
+      onSelectZone(zone.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save zone');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (zone: AffectedZone) => {
+    if (!window.confirm(`Delete the zone "${zone.name}" and its alerts?`)) return;
+    setError(null);
+    try {
+      await affectedZoneService.deleteZone(zone.id);
+      if (zone.id === selectedZoneId) onSelectZone(null);
+      setZonesVersion(version => version + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete zone');
+    }
+  };
+
+  const handleBulkStatus = async () => {
+    if (!bulkStatus || selectedReports.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await affectedZoneService.updateReportsStatus(
+        selectedReports.map(report => report.report_id),
+        bulkStatus,
+        { actor: userId, role: 'admin', notes: bulkNotes.trim() || undefined }
+      );
+      setBulkResult(result);
+      if (selectedZone) {
+        setReports(await affectedZoneService.getReportsInZone(selectedZone));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update reports');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFindRecipients = async () => {
+    if (!selectedZone) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setRecipients(await affectedZoneService.findRecipients(selectedZone));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find users in zone');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleIssueAlert = async () => {
+    if (!selectedZone) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const alert = await affectedZoneService.issueAlert(selectedZone, {
+        alertType: alertForm.alertType,
+        priority: alertForm.priority,
+        category: alertForm.category,
+        title: alertForm.title,
+        message: alertForm.message,
+        actionInstructions: alertForm.instructions.split('\n'),
+        validUntil: new Date(Date.now() + alertForm.validHours * 60 * 60 * 1000).toISOString()
+      }, userId);
+      setAlerts(prev => [alert, ...prev]);
+      setAlertForm(EMPTY_ALERT);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue alert');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleReport = (reportId: string) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      if (next.has(reportId)) next.delete(reportId);
+      else next.add(reportId);
+      return next;
+    });
+  };
+
+  const panelClass = isDark ? 'bg-gray-800 text-white border-gray-700' : 'bg-white text-gray-900 border-gray-200';
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+  const inputClass = `w-full px-2 py-1.5 rounded border text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const iconButtonClass = `p-1 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`;
+  const secondaryButtonClass = `flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg text-sm border disabled:opacity-50 ${
+    isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'
+  }`;
+  const primaryButtonClass = 'w-full px-3 py-2 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors';
+  const sectionClass = `pt-3 mt-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`;
+  const activeShape = SHAPES.find(shape => shape.id === draft?.shape_type);
+
+  return (
+    <div className={`w-80 max-h-[70vh] overflow-y-auto rounded-xl border shadow-xl p-4 ${panelClass}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <MapPinned size={18} />
+          <h3 className="font-semibold">Affected zones</h3>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className={iconButtonClass} aria-label="Close">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className={`mb-3 p-2 rounded text-xs ${isDark ? 'bg-red-900/40 text-red-300' : 'bg-red-50 text-red-700'}`}>
+          {error}
+        </div>
+      )}
+
+      {/* Drawing */}
+      <div className="flex gap-2 mb-2">
+        {SHAPES.map(shape => {
+          const Icon = shape.icon;
+          const active = draft?.shape_type === shape.id;
+          return (
+            <button
+              key={shape.id}
+              onClick={() => startDrawing(shape.id)}
+              className={`${secondaryButtonClass} ${active ? 'ring-2 ring-blue-500' : ''}`}
+            >
+              <Icon size={14} />
+              {shape.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {draft && activeShape && (
+        <div className="space-y-2">
+          <p className={`text-xs ${mutedClass}`}>{activeShape.hint}</p>
+          {draft.shape_type !== 'polygon' && (
+            <label className={`block text-xs ${mutedClass}`}>
+              {draft.shape_type === 'circle' ? 'Radius (km)' : 'Buffer either side (km)'}
+              <input
+                type="number"
+                min={ZONE_LIMITS.minRadiusKm}
+                max={ZONE_LIMITS.maxRadiusKm}
+                step={0.1}
+                value={draft.radius_km ?? ''}
+                onChange={(e) => onDraftChange({ ...draft, radius_km: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => onDraftChange({ ...draft, coordinates: draft.coordinates.slice(0, -1) })}
+              disabled={draft.coordinates.length === 0}
+              className={secondaryButtonClass}
+            >
+              <Undo2 size={14} />
+              Undo point
+            </button>
+            <button onClick={() => onDraftChange(null)} className={secondaryButtonClass}>
+              Cancel
+            </button>
+          </div>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Zone name, e.g. Ratnagiri north shore"
+            className={inputClass}
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            rows={2}
+            className={inputClass}
+          />
+          <button onClick={handleSave} disabled={busy || !name.trim()} className={primaryButtonClass}>
+            Save zone
+          </button>
+        </div>
+      )}
+
+      {/* Saved zones */}
+      <div className={sectionClass}>
+        <p className="text-sm font-medium mb-2">Zones</p>
+        {zones.length === 0 ? (
+          <p className={`text-xs ${mutedClass}`}>No zones yet. Pick a shape and draw on the map.</p>
+        ) : (
+          <ul className="space-y-1">
+            {zones.map(zone => (
+              <li
+                key={zone.id}
+                className={`flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer text-sm ${
+                  zone.id === selectedZoneId
+                    ? isDark ? 'bg-orange-900/40' : 'bg-orange-50'
+                    : isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => onSelectZone(zone.id === selectedZoneId ? null : zone.id)}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="truncate">{zone.name}</p>
+                  <p className={`text-xs ${mutedClass}`}>
+                    {zone.shape_type} · {formatArea(getZoneAreaKm2(zone))}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(zone);
+                  }}
+                  className={iconButtonClass}
+                  aria-label={`Delete ${zone.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {selectedZone && (
+        <>
+          {/* Reports inside the zone */}
+          <div className={sectionClass}>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium">Reports inside ({selectedReports.length}/{reports.length})</p>
+              {reports.length > 0 && (
+                <button
+                  onClick={() => setChecked(checked.size === reports.length
+                    ? new Set()
+                    : new Set(reports.map(report => report.report_id)))}
+                  className="text-xs text-blue-600 hover:underline"
+                >
+                  {checked.size === reports.length ? 'Select none' : 'Select all'}
+                </button>
+              )}
+            </div>
+            {reports.length === 0 ? (
+              <p className={`text-xs ${mutedClass}`}>No reports inside this zone</p>
+            ) : (
+              <>
+                <ul className="max-h-40 overflow-y-auto space-y-1 mb-2">
+                  {reports.map(report => (
+                    <li key={report.report_id}>
+                      <label className="flex items-start gap-2 text-xs">
+                        <input
+                          type="checkbox"
+                          checked={checked.has(report.report_id)}
+                          onChange={() => toggleReport(report.report_id)}
+                          className="mt-0.5"
+                        />
+                        <span className="flex-1 min-w-0">
+                          <span className="block truncate">{report.title}</span>
+                          <span className={mutedClass}>{report.category} · {report.status}</span>
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <select value={bulkStatus} onChange={(e) => setBulkStatus(e.target.value)} className={inputClass}>
+                    <option value="">Set status...</option>
+                    {statuses.map(status => <option key={status} value={status}>{status}</option>)}
+                  </select>
+                  <input
+                    type="text"
+                    value={bulkNotes}
+                    onChange={(e) => setBulkNotes(e.target.value)}
+                    placeholder="Notes"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleBulkStatus}
+                    disabled={busy || !bulkStatus || selectedReports.length === 0}
+                    className={secondaryButtonClass}
+                  >
+                    Apply
+                  </button>
+                  <button
+                    onClick={() => downloadBlob(
+                      exportReports(selectedReports, 'geojson', selectedZone.name),
+                      getExportFilename('geojson')
+                    )}
+                    disabled={selectedReports.length === 0}
+                    className={secondaryButtonClass}
+                  >
+                    <Download size={14} />
+                    GeoJSON
+                  </button>
+                </div>
+                {bulkResult && (
+                  <div className={`mt-2 text-xs ${mutedClass}`}>
+                    <p>{bulkResult.updated.length} updated{bulkResult.failed.length > 0 && `, ${bulkResult.failed.length} not changed:`}</p>
+                    {bulkResult.failed.slice(0, 5).map(failure => (
+                      <p key={failure.reportId} className="text-red-500 truncate" title={failure.reason}>
+                        {failure.reportId}: {failure.reason}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Alert for the zone */}
+          <div className={sectionClass}>
+            <div className="flex items-center gap-2 mb-2">
+              <Megaphone size={16} />
+              <p className="text-sm font-medium">Alert for this zone</p>
+            </div>
+            <button onClick={handleFindRecipients} disabled={busy} className={`${secondaryButtonClass} w-full mb-2`}>
+              Find users inside
+            </button>
+            {recipients && (
+              <p className={`text-xs mb-2 ${mutedClass}`}>
+                {recipients.length} user{recipients.length === 1 ? '' : 's'}:{' '}
+                {recipients.filter(recipient => recipient.reportIds.length > 0).length} reported from inside in the
+                last {ZONE_LIMITS.locationLookbackDays} days,{' '}
+                {recipients.filter(recipient => recipient.placeNames.length > 0).length} with saved places inside
+              </p>
+            )}
+            <div className="grid grid-cols-3 gap-2 mb-2">
+              <select
+                value={alertForm.alertType}
+                onChange={(e) => setAlertForm(prev => ({ ...prev, alertType: e.target.value as ZoneAlertInput['alertType'] }))}
+                className={inputClass}
+                aria-label="Alert type"
+              >
+                {ALERT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+              <select
+                value={alertForm.priority}
+                onChange={(e) => setAlertForm(prev => ({ ...prev, priority: e.target.value as ZoneAlertInput['priority'] }))}
+                className={inputClass}
+                aria-label="Priority"
+              >
+                {ALERT_PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+              </select>
+              <select
+                value={alertForm.category}
+                onChange={(e) => setAlertForm(prev => ({ ...prev, category: e.target.value as ZoneAlertInput['category'] }))}
+                className={inputClass}
+                aria-label="Category"
+              >
+                {ALERT_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={alertForm.title}
+                onChange={(e) => setAlertForm(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Title"
+                className={inputClass}
+              />
+              <textarea
+                value={alertForm.message}
+                onChange={(e) => setAlertForm(prev => ({ ...prev, message: e.target.value }))}
+                placeholder="Message"
+                rows={3}
+                className={inputClass}
+              />
+              <textarea
+                value={alertForm.instructions}
+                onChange={(e) => setAlertForm(prev => ({ ...prev, instructions: e.target.value }))}
+                placeholder="Actions to take, one per line"
+                rows={2}
+                className={inputClass}
+              />
+              <label className={`block text-xs ${mutedClass}`}>
+                Valid for (hours)
+                <input
+                  type="number"
+                  min={1}
+                  max={168}
+                  value={alertForm.validHours}
+                  onChange={(e) => setAlertForm(prev => ({ ...prev, validHours: Number(e.target.value) }))}
+                  className={inputClass}
+                />
+              </label>
+              <button
+                onClick={handleIssueAlert}
+                disabled={busy || !alertForm.title.trim() || !alertForm.message.trim()}
+                className={primaryButtonClass}
+              >
+                Issue alert and notify
+              </button>
+            </div>
+            {alerts.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {alerts.map(alert => (
+                  <li key={alert.id} className="text-xs">
+                    <p className="font-medium">{alert.title}</p>
+                    <p className={mutedClass}>
+                      {alert.alertType} · {new Date(alert.issuedAt).toLocaleString()} · {alert.recipients} notified
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AffectedZonesPanel;
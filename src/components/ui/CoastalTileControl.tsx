@@ -0,0 +1,305 @@
+/**
+ * Coastal Tile Control - manage offline basemap packs
+ * Lets field reporters download the map for their stretch of coast before a
+ * storm, and shows each pack's size, age and update status
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Download, RefreshCw, Trash2, X, WifiOff } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  coastalTileService,
+  estimateTileCount,
+  isPackStale,
+  COASTAL_REGIONS,
+  COASTAL_TILE_SOURCES,
+  TILE_PACK_LIMITS,
+  TILE_PACKS_UPDATED_EVENT,
+  type CoastalRegion,
+  type TileBounds,
+  type TilePack,
+  type TilePackProgress
+} from '../../services/CoastalTileService';
+
+interface CoastalTileControlProps {
+  viewBounds?: TileBounds; // Offered as a "current map view" region when given
+  onClose?: () => void;
+}
+
+const VIEW_REGION_ID = 'current_view';
+const ZOOM_OPTIONS = Array.from({ length: TILE_PACK_LIMITS.maxZoom - 4 }, (_, i) => i + 5);
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const CoastalTileControl: React.FC<CoastalTileControlProps> = ({ viewBounds, onClose }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [packs, setPacks] = useState<TilePack[]>([]);
+  const [progress, setProgress] = useState<Record<string, TilePackProgress>>({});
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [regionId, setRegionId] = useState(COASTAL_REGIONS[0].id);
+  const [minZoom, setMinZoom] = useState(TILE_PACK_LIMITS.defaultMinZoom);
+  const [maxZoom, setMaxZoom] = useState(TILE_PACK_LIMITS.defaultMaxZoom);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPacks = useCallback(async () => {
+    try {
+      setPacks(await coastalTileService.listPacks());
+      setStorage(await coastalTileService.getStorageEstimate());
+    } catch (err) {
+      console.error('Error loading offline map packs:', err);
+      setError('Failed to load offline map packs');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPacks();
+    window.addEventListener(TILE_PACKS_UPDATED_EVENT, loadPacks);
+    return () => window.removeEventListener(TILE_PACKS_UPDATED_EVENT, loadPacks);
+  }, [loadPacks]);
+
+  const selectedRegion: CoastalRegion | null = useMemo(() => {
+    if (regionId === VIEW_REGION_ID) {
+      return viewBounds ? { id: VIEW_REGION_ID, name: 'Map view', bounds: viewBounds } : null;
+    }
+    return COASTAL_REGIONS.find(region => region.id === regionId) || null;
+  }, [regionId, viewBounds]);
+
+  const estimatedTiles = useMemo(
+    () => selectedRegion && minZoom <= maxZoom
+      ? estimateTileCount(selectedRegion, minZoom, maxZoom) * COASTAL_TILE_SOURCES.length
+      : 0,
+    [selectedRegion, minZoom, maxZoom]
+  );
+  const overLimit = estimatedTiles > TILE_PACK_LIMITS.maxTilesPerPack;
+
+  const trackProgress = (update: TilePackProgress) => {
+    setProgress(prev => ({ ...prev, [update.packId]: update }));
+  };
+
+  const clearProgress = (packId: string) => {
+    setProgress(prev => {
+      const next = { ...prev };
+      delete next[packId];
+      return next;
+    });
+  };
+
+  const handleDownload = async () => {
+    if (!selectedRegion) return;
+    setError(null);
+    let packId: string | null = null;
+    try {
+      const pack = await coastalTileService.downloadPack(
+        { ...selectedRegion, name: selectedRegion.id === VIEW_REGION_ID ? `Map view (${new Date().toLocaleDateString()})` : selectedRegion.name },
+        { minZoom, maxZoom },
+        update => {
+          packId = update.packId;
+          trackProgress(update);
+        }
+      );
+      packId = pack.id;
+      if (pack.status !== 'ready' && pack.lastError) {
+        setError(`${pack.region.name}: ${pack.lastError}`);
+      }
+    } catch (err) {
+      console.error('Error downloading offline map pack:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download the map pack');
+    } finally {
+      if (packId) clearProgress(packId);
+      loadPacks();
+    }
+  };
+
+  const handleRefresh = async (pack: TilePack) => {
+    setError(null);
+    try {
+      const refreshed = await coastalTileService.refreshPack(pack.id, trackProgress);
+      if (refreshed.status !== 'ready' && refreshed.lastError) {
+        setError(`${pack.region.name}: ${refreshed.lastError}`);
+      }
+    } catch (err) {
+      console.error('Error updating offline map pack:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the map pack');
+    } finally {
+      clearProgress(pack.id);
+      loadPacks();
+    }
+  };
+
+  const handleDelete = async (pack: TilePack) => {
+    if (!window.confirm(`Delete the offline map for ${pack.region.name}?`)) return;
+    try {
+      await coastalTileService.deletePack(pack.id);
+    } catch (err) {
+      console.error('Error deleting offline map pack:', err);
+      setError('Failed to delete the map pack');
+    }
+  };
+
+  const getStatusBadge = (pack: TilePack): { label: string; className: string } => {
+    if (progress[pack.id] || coastalTileService.isDownloading(pack.id)) {
+      return { label: 'Downloading', className: 'bg-blue-100 text-blue-800' };
+    }
+    if (pack.status === 'failed') return { label: 'Failed', className: 'bg-red-100 text-red-800' };
+    if (pack.status === 'partial') return { label: 'Incomplete', className: 'bg-yellow-100 text-yellow-800' };
+    if (isPackStale(pack)) return { label: 'Update available', className: 'bg-orange-100 text-orange-800' };
+    return { label: 'Ready', className: 'bg-green-100 text-green-800' };
+  };
+
+  const panelClass = isDark ? 'bg-gray-800 text-white border-gray-700' : 'bg-white text-gray-900 border-gray-200';
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+  const inputClass = `px-2 py-1.5 rounded border text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  return (
+    <div className={`w-80 max-h-[70vh] overflow-y-auto rounded-xl border shadow-xl p-4 ${panelClass}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <WifiOff size={18} />
+          <h3 className="font-semibold">Offline Maps</h3>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className={`p-1 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`} aria-label="Close">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {storage && storage.quota > 0 && (
+        <p className={`text-xs mb-3 ${mutedClass}`}>
+          Browser storage: {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used
+        </p>
+      )}
+
+      {/* New pack */}
+      <div className={`rounded-lg border p-3 mb-4 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+        <label className={`block text-xs font-medium mb-1 ${mutedClass}`}>Area</label>
+        <select value={regionId} onChange={e => setRegionId(e.target.value)} className={`w-full mb-2 ${inputClass}`}>
+          {viewBounds && <option value={VIEW_REGION_ID}>Current map view</option>}
+          {COASTAL_REGIONS.map(region => (
+            <option key={region.id} value={region.id}>{region.name}</option>
+          ))}
+        </select>
+
+        <div className="flex gap-2 mb-2">
+          <div className="flex-1">
+            <label className={`block text-xs font-medium mb-1 ${mutedClass}`}>From zoom</label>
+            <select value={minZoom} onChange={e => setMinZoom(Number(e.target.value))} className={`w-full ${inputClass}`}>
+              {ZOOM_OPTIONS.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className={`block text-xs font-medium mb-1 ${mutedClass}`}>To zoom</label>
+            <select value={maxZoom} onChange={e => setMaxZoom(Number(e.target.value))} className={`w-full ${inputClass}`}>
+              {ZOOM_OPTIONS.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <p className={`text-xs mb-2 ${overLimit ? 'text-red-500' : mutedClass}`}>
+          {minZoom > maxZoom
+            ? 'The start zoom must not be above the end zoom'
+            : `About ${estimatedTiles.toLocaleString()} tiles, ~${formatBytes(estimatedTiles * TILE_PACK_LIMITS.averageTileBytes)}` +
+              (overLimit ? ` (limit ${TILE_PACK_LIMITS.maxTilesPerPack.toLocaleString()})` : '')}
+        </p>
+
+        <button
+          onClick={handleDownload}
+          disabled={!selectedRegion || overLimit || minZoom > maxZoom || estimatedTiles === 0}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors"
+        >
+          <Download size={16} />
+          Download
+        </button>
+      </div>
+
+      {error && (
+        <div className={`mb-3 p-2 rounded text-xs ${isDark ? 'bg-red-900/40 text-red-300' : 'bg-red-50 text-red-700'}`}>
+          {error}
+        </div>
+      )}
+
+      {/* Stored packs */}
+      {packs.length === 0 ? (
+        <p className={`text-sm text-center py-2 ${mutedClass}`}>No offline maps downloaded yet</p>
+      ) : (
+        <div className="space-y-2">
+          {packs.map(pack => {
+            const badge = getStatusBadge(pack);
+            const packProgress = progress[pack.id];
+            const downloading = Boolean(packProgress) || coastalTileService.isDownloading(pack.id);
+            return (
+              <div key={pack.id} className={`rounded-lg border p-3 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{pack.region.name}</p>
+                    <p className={`text-xs ${mutedClass}`}>
+                      Zoom {pack.minZoom}–{pack.maxZoom} · {formatBytes(pack.sizeBytes)}
+                    </p>
+                    <p className={`text-xs ${mutedClass}`}>
+                      {pack.storedTiles.toLocaleString()} of {pack.tileCount.toLocaleString()} tiles · updated{' '}
+                      {formatDistanceToNow(new Date(pack.updatedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <span className={`shrink-0 px-2 py-0.5 rounded text-xs font-medium ${badge.className}`}>{badge.label}</span>
+                </div>
+
+                {packProgress && (
+                  <div className="mt-2">
+                    <div className={`h-1.5 rounded-full overflow-hidden ${isDark ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                      <div
+                        className="h-full bg-blue-600 transition-all"
+                        style={{ width: `${Math.round(packProgress.completed / Math.max(packProgress.total, 1) * 100)}%` }}
+                      />
+                    </div>
+                    <p className={`text-xs mt-1 ${mutedClass}`}>
+                      {packProgress.completed} / {packProgress.total}
+                      {packProgress.failed > 0 && ` · ${packProgress.failed} failed`}
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2 mt-2">
+                  {downloading ? (
+                    <button
+                      onClick={() => coastalTileService.cancelDownload(pack.id)}
+                      className={`px-2 py-1 rounded text-xs border ${isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'}`}
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleRefresh(pack)}
+                        className={`flex items-center gap-1 px-2 py-1 rounded text-xs border ${isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'}`}
+                      >
+                        <RefreshCw size={12} />
+                        {pack.status === 'ready' ? 'Update' : 'Resume'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(pack)}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-xs text-red-600 border border-red-200 hover:bg-red-50"
+                        aria-label={`Delete ${pack.region.name}`}
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoastalTileControl;
@@ -0,0 +1,256 @@
+/**
+ * Evacuation Panel - find the nearest safe shelter
+ * Plans a walking or driving route from the reporter's location or the map
+ * centre, using the active INCOIS warnings to decide how high a shelter must be.
+ * Placeholder shelters and their routes are labelled illustrative
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, Car, Footprints, LocateFixed, Navigation, X } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  evacuationService,
+  type EvacuationPlan,
+  type EvacuationRoute,
+  type HazardArea,
+  type TravelMode
+} from '../../services/EvacuationService';
+import type { GeoCoordinate } from '../../services/GeospatialUtils';
+
+interface EvacuationPanelProps {
+  mapCenter?: GeoCoordinate; // Used when the reporter's location is unavailable or not wanted
+  hazards: HazardArea[]; // Active hotspots routes should avoid
+  onPlanChange: (plan: EvacuationPlan | null) => void;
+  onClose?: () => void;
+}
+
+const SHELTER_KIND_LABELS = {
+  cyclone_shelter: 'Cyclone shelter',
+  high_ground: 'High ground',
+  relief_camp: 'Relief camp'
+};
+
+const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`;
+
+const getDeviceLocation = (): Promise<GeoCoordinate> =>
+  new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      reject,
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+
+const EvacuationPanel: React.FC<EvacuationPanelProps> = ({ mapCenter, hazards, onPlanChange, onClose }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [mode, setMode] = useState<TravelMode>('walking');
+  const [origin, setOrigin] = useState<GeoCoordinate | null>(null);
+  const [plan, setPlan] = useState<EvacuationPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runPlan = useCallback(async (from: GeoCoordinate, travelMode: TravelMode) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await evacuationService.planEvacuation(from, { mode: travelMode, hazards });
+      setPlan(result);
+      onPlanChange(result);
+      if (!result.route) {
+        setError('No registered shelter within reach of this location');
+      }
+    } catch (err) {
+      console.error('Error planning evacuation:', err);
+      setError('Failed to plan an evacuation route');
+    } finally {
+      setLoading(false);
+    }
+  }, [hazards, onPlanChange]);
+
+  // Re-plan when the mode or the hotspots change
+  useEffect(() => {
+    if (origin) {
+      runPlan(origin, mode);
+    }
+  }, [origin, mode, runPlan]);
+
+  // Clear the overlay when the panel closes
+  useEffect(() => () => onPlanChange(null), [onPlanChange]);
+
+  const handleUseMyLocation = async () => {
+    setError(null);
+    try {
+      setOrigin(await getDeviceLocation());
+    } catch (err) {
+      console.warn('Location unavailable for evacuation planning:', err);
+      setError('Location unavailable. Allow location access or use the map centre.');
+    }
+  };
+
+  // Until a plan is shown, warn about the bundled placeholder shelters
+  const showsIllustrative = !plan || [plan.route, ...plan.alternatives].some(route => route?.illustrative);
+
+  const panelClass = isDark ? 'bg-gray-800 text-white border-gray-700' : 'bg-white text-gray-900 border-gray-200';
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+  const cardClass = `rounded-lg border p-3 ${isDark ? 'border-gray-700' : 'border-gray-200'}`;
+  const toggleClass = (active: boolean) => `flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded text-sm border ${
+    active
+      ? 'bg-blue-600 border-blue-600 text-white'
+      : isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'
+  }`;
+
+  const renderRouteSummary = (route: EvacuationRoute) => (
+    <>
+      <p className="text-sm font-medium">
+        {route.shelter.name}
+        {route.illustrative && (
+          <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase ${
+            isDark ? 'bg-amber-900/60 text-amber-200' : 'bg-amber-100 text-amber-800'
+          }`}>
+            Illustrative
+          </span>
+        )}
+      </p>
+      <p className={`text-xs ${mutedClass}`}>
+        {SHELTER_KIND_LABELS[route.shelter.kind]} · {route.refugeElevationMeters} m refuge · room for {route.shelter.capacity.toLocaleString()}
+      </p>
+      <p className="text-sm mt-1">
+        {route.readableTime} · {formatDistance(route.distanceMeters)}
+      </p>
+    </>
+  );
+
+  return (
+    <div className={`w-80 max-h-[70vh] overflow-y-auto rounded-xl border shadow-xl p-4 ${panelClass}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Navigation size={18} />
+          <h3 className="font-semibold">Evacuation</h3>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className={`p-1 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`} aria-label="Close">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <button onClick={() => setMode('walking')} className={toggleClass(mode === 'walking')}>
+          <Footprints size={14} />
+          Walk
+        </button>
+        <button onClick={() => setMode('driving')} className={toggleClass(mode === 'driving')}>
+          <Car size={14} />
+          Drive
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <button
+          onClick={handleUseMyLocation}
+          disabled={loading}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors"
+        >
+          <LocateFixed size={14} />
+          My location
+        </button>
+        <button
+          onClick={() => mapCenter && setOrigin(mapCenter)}
+          disabled={loading || !mapCenter}
+          className={`flex-1 px-3 py-2 rounded-lg text-sm border disabled:opacity-50 ${isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'}`}
+        >
+          Map centre
+        </button>
+      </div>
+
+      {showsIllustrative && (
+        <div className={`mb-3 p-2 rounded text-xs ${isDark ? 'bg-amber-900/40 text-amber-200' : 'bg-amber-50 text-amber-800'}`}>
+          <p className="font-medium flex items-center gap-1">
+            <AlertTriangle size={12} />
+            Illustrative shelters
+          </p>
+          <p>
+            Shelters marked illustrative are planning placeholders, not the official district list.
+            Follow the instructions of your district disaster management authority.
+          </p>
+        </div>
+      )}
+
+      {loading && <p className={`text-sm text-center py-2 ${mutedClass}`}>Finding shelters...</p>}
+
+      {error && (
+        <div className={`mb-3 p-2 rounded text-xs ${isDark ? 'bg-red-900/40 text-red-300' : 'bg-red-50 text-red-700'}`}>
+          {error}
+        </div>
+      )}
+
+      {plan && !loading && (
+        <div className="space-y-2">
+          {plan.warnings.length > 0 && (
+            <div className={`p-2 rounded text-xs ${isDark ? 'bg-orange-900/40 text-orange-200' : 'bg-orange-50 text-orange-800'}`}>
+              <p className="font-medium flex items-center gap-1">
+                <AlertTriangle size={12} />
+                {plan.warnings.map(warning => warning.title).join(' · ')}
+              </p>
+              <p>Shelters must be at least {plan.minElevationMeters} m above sea level</p>
+            </div>
+          )}
+
+          {plan.route && (
+            <div className={`${cardClass} border-l-4 border-l-green-500`}>
+              {renderRouteSummary(plan.route)}
+              {!plan.route.meetsElevation && (
+                <p className="text-xs text-red-500 mt-1">No shelter in reach is high enough; this is the highest one</p>
+              )}
+              {!plan.route.routed && (
+                <p className={`text-xs mt-1 ${mutedClass}`}>No road data here; shown as a straight line</p>
+              )}
+              {plan.route.hazardExposureMeters > 0 ? (
+                <p className="text-xs text-red-500 mt-1">
+                  Passes {formatDistance(plan.route.hazardExposureMeters)} through an active hotspot
+                </p>
+              ) : plan.hazards.length > 0 && (
+                <p className="text-xs text-green-600 mt-1">Avoids active hotspots</p>
+              )}
+              {plan.route.roads.length > 0 && (
+                <p className={`text-xs mt-1 ${mutedClass}`}>Via {plan.route.roads.join(' → ')}</p>
+              )}
+            </div>
+          )}
+
+          {plan.directRoute && (
+            <p className={`text-xs ${mutedClass}`}>
+              The fastest route ({plan.directRoute.readableTime}, dashed red) crosses a hotspot for{' '}
+              {formatDistance(plan.directRoute.hazardExposureMeters)}
+            </p>
+          )}
+
+          {plan.alternatives.length > 0 && (
+            <>
+              <p className={`text-xs font-medium ${mutedClass}`}>Other shelters</p>
+              {plan.alternatives.map(route => (
+                <div key={route.shelter.id} className={cardClass}>
+                  {renderRouteSummary(route)}
+                </div>
+              ))}
+            </>
+          )}
+
+          {plan.isochrones.length > 0 && (
+            <p className={`text-xs ${mutedClass}`}>
+              Shaded areas: reachable within {plan.isochrones.map(isochrone => isochrone.minutes).join(', ')} minutes
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvacuationPanel;
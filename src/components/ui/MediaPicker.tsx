@@ -0,0 +1,139 @@
+/**
+ * Media Picker - adds photos and videos to a report before it is submitted
+ * Take a photo or record a clip with the device camera, or choose several files
+ * at once; every item is compressed and checked by MediaService before it is
+ * listed, and can be removed again
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Camera, ImagePlus, Loader2, Video, X } from 'lucide-react';
+import {
+  MEDIA_LIMITS,
+  MediaValidationError,
+  prepareMediaBatch,
+  SUPPORTED_VIDEO_TYPES,
+  type PreparedMedia
+} from '../../services/MediaService';
+
+interface MediaPickerProps {
+  media: PreparedMedia[];
+  onChange: (media: PreparedMedia[]) => void;
+  maxItems?: number; // Defaults to the per-report attachment limit
+  theme?: 'light' | 'dark';
+}
+
+const VIDEO_ACCEPT = SUPPORTED_VIDEO_TYPES.join(',');
+
+const MediaPicker: React.FC<MediaPickerProps> = ({
+  media,
+  onChange,
+  maxItems = MEDIA_LIMITS.maxAttachments,
+  theme = 'light'
+}) => {
+  const isDark = theme === 'dark';
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Thumbnails: the photo itself, or a video's poster frame
+  const previews = useMemo(
+    () => media.map(item => ({
+      id: item.id,
+      kind: item.kind,
+      url: URL.createObjectURL(item.poster || item.blob),
+      isClip: item.kind === 'video' && !item.poster // No poster frame could be grabbed
+    })),
+    [media]
+  );
+  useEffect(() => () => previews.forEach(preview => URL.revokeObjectURL(preview.url)), [previews]);
+
+  const remaining = maxItems - media.length;
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setError(null);
+    if (files.length > remaining) {
+      setError(`You can add ${remaining} more item${remaining === 1 ? '' : 's'} to this report`);
+      return;
+    }
+
+    setPreparing(true);
+    try {
+      onChange([...media, ...(await prepareMediaBatch(files))]);
+    } catch (err) {
+      console.error('Error preparing media:', err);
+      setError(err instanceof MediaValidationError ? err.message : 'Could not read the selected media');
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const buttonClass = `inline-flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium disabled:opacity-50 ${
+    isDark ? 'bg-gray-700 hover:bg-gray-600 text-gray-100' : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+  }`;
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <button type="button" className={buttonClass} disabled={preparing || remaining <= 0} onClick={() => photoInputRef.current?.click()}>
+          <Camera className="w-4 h-4" />
+          Take photo
+        </button>
+        <button type="button" className={buttonClass} disabled={preparing || remaining <= 0} onClick={() => videoInputRef.current?.click()}>
+          <Video className="w-4 h-4" />
+          Record video
+        </button>
+        <button type="button" className={buttonClass} disabled={preparing || remaining <= 0} onClick={() => fileInputRef.current?.click()}>
+          <ImagePlus className="w-4 h-4" />
+          Choose files
+        </button>
+      </div>
+
+      <input ref={photoInputRef} type="file" accept="image/*" capture="environment" onChange={handleFiles} className="hidden" />
+      <input ref={videoInputRef} type="file" accept={VIDEO_ACCEPT} capture="environment" onChange={handleFiles} className="hidden" />
+      <input ref={fileInputRef} type="file" accept={`image/*,${VIDEO_ACCEPT}`} multiple onChange={handleFiles} className="hidden" />
+
+      <p className={`mt-2 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+        Up to {maxItems} photos and videos; clips up to {MEDIA_LIMITS.maxVideoDurationS} seconds.
+      </p>
+
+      {preparing && (
+        <p className={`mt-2 flex items-center gap-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Compressing media...
+        </p>
+      )}
+      {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+
+      {previews.length > 0 && (
+        <div className="mt-3 grid grid-cols-4 gap-2">
+          {previews.map(preview => (
+            <div key={preview.id} className="relative aspect-square rounded-lg overflow-hidden bg-gray-200">
+              {preview.isClip
+                ? <video src={preview.url} muted playsInline className="w-full h-full object-cover" />
+                : <img src={preview.url} alt="" className="w-full h-full object-cover" />}
+              {preview.kind === 'video' && (
+                <Video className="absolute bottom-1 left-1 w-4 h-4 text-white drop-shadow" />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(media.filter(item => item.id !== preview.id))}
+                className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-white hover:bg-black/80"
+                aria-label="Remove"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaPicker;
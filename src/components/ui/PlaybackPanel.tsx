@@ -0,0 +1,298 @@
+/**
+ * Playback Panel - time slider for replaying hazard reports on the map
+ * Loads the reports in view for a past period, steps through it frame by frame
+ * with play, pause and speed controls, and exports the frames for briefings
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Film, History, Images, Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  buildPlaybackFrames,
+  exportPlaybackImages,
+  exportPlaybackVideo,
+  formatFrameRange,
+  loadPlaybackIssues,
+  PLAYBACK_FRAME_HOURS,
+  PLAYBACK_LIMITS,
+  PLAYBACK_SPEEDS,
+  type PlaybackExportProgress,
+  type PlaybackFrame
+} from '../../services/HazardPlaybackService';
+import type { TileBounds } from '../../services/CoastalTileService';
+
+interface PlaybackPanelProps {
+  viewBounds?: TileBounds;
+  viewZoom: number;
+  category?: string; // Category filter applied on the map
+  onFrameChange?: (frame: PlaybackFrame | null) => void;
+  onClose?: () => void;
+}
+
+const PERIOD_OPTIONS = [
+  { days: 1, label: '24 hours' },
+  { days: 3, label: '3 days' },
+  { days: 7, label: '7 days' },
+  { days: 14, label: '14 days' },
+  { days: 30, label: '30 days' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const PlaybackPanel: React.FC<PlaybackPanelProps> = ({ viewBounds, viewZoom, category, onFrameChange, onClose }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [periodDays, setPeriodDays] = useState(7);
+  const [endDate, setEndDate] = useState(toDateInput(new Date()));
+  const [frameHours, setFrameHours] = useState(24);
+  const [frames, setFrames] = useState<PlaybackFrame[]>([]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [exportProgress, setExportProgress] = useState<PlaybackExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const frame = frames[frameIndex] || null;
+
+  useEffect(() => {
+    onFrameChange?.(frame);
+  }, [frame, onFrameChange]);
+
+  // Back to the live map when the panel closes
+  useEffect(() => () => onFrameChange?.(null), [onFrameChange]);
+
+  // Advance one frame per tick while playing; stop on the last frame
+  useEffect(() => {
+    if (!playing) return;
+    if (frameIndex >= frames.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrameIndex(index => index + 1), PLAYBACK_LIMITS.frameDurationMs / speed);
+    return () => clearTimeout(timer);
+  }, [playing, frameIndex, frames.length, speed]);
+
+  const handleLoad = async () => {
+    if (!viewBounds) return;
+
+    // The period ends at the end of the chosen day, or now for today
+    const end = new Date(Math.min(new Date(`${endDate}T23:59:59`).getTime(), Date.now()));
+    const start = new Date(end.getTime() - periodDays * DAY_MS);
+
+    setLoading(true);
+    setPlaying(false);
+    setError(null);
+    try {
+      const issues = await loadPlaybackIssues(viewBounds, { start, end }, { category });
+      const built = await buildPlaybackFrames(issues, { start, end, frameHours });
+      setFrames(built);
+      setFrameIndex(0);
+    } catch (err) {
+      console.error('Error building playback:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load playback');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePlay = () => {
+    if (frameIndex >= frames.length - 1) setFrameIndex(0);
+    setPlaying(true);
+  };
+
+  const handleExport = async (format: 'video' | 'images') => {
+    if (!viewBounds || frames.length === 0) return;
+
+    const view = { bounds: viewBounds, zoom: viewZoom };
+    const name = `hazard-playback-${toDateInput(frames[0].start)}`;
+    setPlaying(false);
+    setError(null);
+    setExportProgress({ frame: 0, total: frames.length });
+    try {
+      if (format === 'video') {
+        const video = await exportPlaybackVideo(frames, view, PLAYBACK_LIMITS.frameDurationMs / speed, setExportProgress);
+        downloadBlob(video, `${name}.webm`);
+      } else {
+        const images = await exportPlaybackImages(frames, view, setExportProgress);
+        images.forEach((image, index) => downloadBlob(image, `${name}-${String(index + 1).padStart(3, '0')}.png`));
+      }
+    } catch (err) {
+      console.error('Error exporting playback:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export playback');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const panelClass = isDark ? 'bg-gray-800 text-white border-gray-700' : 'bg-white text-gray-900 border-gray-200';
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+  const inputClass = `w-full px-2 py-1.5 rounded border text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const iconButtonClass = `p-1 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`;
+  const secondaryButtonClass = `flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg text-sm border disabled:opacity-50 ${
+    isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'
+  }`;
+  const busy = loading || exportProgress !== null;
+
+  return (
+    <div className={`w-80 max-h-[70vh] overflow-y-auto rounded-xl border shadow-xl p-4 ${panelClass}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <History size={18} />
+          <h3 className="font-semibold">Playback</h3>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className={iconButtonClass} aria-label="Close">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      <p className={`text-xs mb-3 ${mutedClass}`}>
+        Replay reports, heat and hotspot movement in the current view
+      </p>
+
+      {error && (
+        <div className={`mb-3 p-2 rounded text-xs ${isDark ? 'bg-red-900/40 text-red-300' : 'bg-red-50 text-red-700'}`}>
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <label className={`text-xs ${mutedClass}`}>
+          Period
+          <select value={periodDays} onChange={(e) => setPeriodDays(Number(e.target.value))} className={inputClass}>
+            {PERIOD_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className={`text-xs ${mutedClass}`}>
+          Frame
+          <select value={frameHours} onChange={(e) => setFrameHours(Number(e.target.value))} className={inputClass}>
+            {PLAYBACK_FRAME_HOURS.map(hours => (
+              <option key={hours} value={hours}>{hours} hours</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className={`block text-xs mb-3 ${mutedClass}`}>
+        Ending on
+        <input
+          type="date"
+          value={endDate}
+          max={toDateInput(new Date())}
+          onChange={(e) => setEndDate(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      <button
+        onClick={handleLoad}
+        disabled={busy || !viewBounds}
+        className="w-full mb-4 px-3 py-2 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors"
+      >
+        {loading ? 'Loading...' : frames.length > 0 ? 'Reload for this view' : 'Load playback'}
+      </button>
+
+      {frame && (
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium">{formatFrameRange(frame)}</p>
+            <p className={`text-xs ${mutedClass}`}>
+              {frame.issues.length} reports ({frame.newIssues.length} new) · {frame.hotspots.length} hotspots
+              {frame.movements.length > 0 && ` · ${frame.movements.length} moving`}
+            </p>
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={frames.length - 1}
+            value={frameIndex}
+            onChange={(e) => {
+              setPlaying(false);
+              setFrameIndex(Number(e.target.value));
+            }}
+            className="w-full"
+            aria-label="Playback position"
+          />
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setFrameIndex(index => Math.max(0, index - 1))}
+              disabled={busy || frameIndex === 0}
+              className={`${iconButtonClass} disabled:opacity-50`}
+              aria-label="Previous frame"
+            >
+              <SkipBack size={16} />
+            </button>
+            <button
+              onClick={playing ? () => setPlaying(false) : handlePlay}
+              disabled={busy}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors"
+            >
+              {playing ? <Pause size={14} /> : <Play size={14} />}
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <button
+              onClick={() => setFrameIndex(index => Math.min(frames.length - 1, index + 1))}
+              disabled={busy || frameIndex >= frames.length - 1}
+              className={`${iconButtonClass} disabled:opacity-50`}
+              aria-label="Next frame"
+            >
+              <SkipForward size={16} />
+            </button>
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              className={`ml-auto px-2 py-1 rounded border text-sm ${
+                isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+              }`}
+              aria-label="Playback speed"
+            >
+              {PLAYBACK_SPEEDS.map(option => (
+                <option key={option} value={option}>{option}x</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => handleExport('video')} disabled={busy} className={secondaryButtonClass}>
+              <Film size={14} />
+              Video
+            </button>
+            <button onClick={() => handleExport('images')} disabled={busy} className={secondaryButtonClass}>
+              <Images size={14} />
+              Images
+            </button>
+          </div>
+          {exportProgress && (
+            <p className={`text-xs ${mutedClass}`}>
+              Exporting frame {exportProgress.frame} of {exportProgress.total}...
+            </p>
+          )}
+        </div>
+      )}
+
+      {frames.length > 0 && frames.every(item => item.issues.length === 0) && (
+        <p className={`text-sm text-center py-2 ${mutedClass}`}>No reports in this view for the period</p>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackPanel;
@@ -0,0 +1,306 @@
+/**
+ * Saved Places Panel - "alert me about hazards near this place"
+ * Lets the user save places with a radius and the hazards to watch for;
+ * GeofenceService turns matching reports and INCOIS warnings into notifications
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { BellRing, LocateFixed, Pencil, Trash2, X } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  geofenceService,
+  GEOFENCE_HAZARD_TYPES,
+  GEOFENCE_LIMITS,
+  GEOFENCES_UPDATED_EVENT,
+  type Geofence
+} from '../../services/GeofenceService';
+import { getCurrentLocation } from '../../services/MapDataService';
+import type { GeoCoordinate } from '../../services/GeospatialUtils';
+
+interface SavedPlacesPanelProps {
+  userId: string;
+  mapCenter?: GeoCoordinate; // Offered as the place location when the device location is not wanted
+  onGeofencesChange?: (geofences: Geofence[]) => void;
+  onClose?: () => void;
+}
+
+interface PlaceForm {
+  id?: string;
+  name: string;
+  lat: number | null;
+  lng: number | null;
+  radius_km: number;
+  hazard_types: string[];
+}
+
+const EMPTY_FORM: PlaceForm = {
+  name: '',
+  lat: null,
+  lng: null,
+  radius_km: GEOFENCE_LIMITS.defaultRadiusKm,
+  hazard_types: []
+};
+
+const HAZARD_LABELS = Object.fromEntries(GEOFENCE_HAZARD_TYPES.map(type => [type.value, type.label]));
+
+const SavedPlacesPanel: React.FC<SavedPlacesPanelProps> = ({ userId, mapCenter, onGeofencesChange, onClose }) => {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [form, setForm] = useState<PlaceForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGeofences = useCallback(async () => {
+    try {
+      const places = await geofenceService.getGeofences(userId);
+      setGeofences(places);
+      onGeofencesChange?.(places);
+    } catch (err) {
+      console.error('Error loading saved places:', err);
+      setError('Failed to load saved places');
+    }
+  }, [userId, onGeofencesChange]);
+
+  useEffect(() => {
+    loadGeofences();
+    window.addEventListener(GEOFENCES_UPDATED_EVENT, loadGeofences);
+    return () => window.removeEventListener(GEOFENCES_UPDATED_EVENT, loadGeofences);
+  }, [loadGeofences]);
+
+  // Hide the map overlay when the panel closes
+  useEffect(() => () => onGeofencesChange?.([]), [onGeofencesChange]);
+
+  const handleUseMyLocation = async () => {
+    setError(null);
+    try {
+      const location = await getCurrentLocation();
+      setForm(prev => ({ ...prev, lat: location.lat, lng: location.lng }));
+    } catch (err) {
+      console.warn('Location unavailable for saved place:', err);
+      setError('Location unavailable. Allow location access or use the map centre.');
+    }
+  };
+
+  const toggleHazard = (hazardType: string) => {
+    setForm(prev => ({
+      ...prev,
+      hazard_types: prev.hazard_types.includes(hazardType)
+        ? prev.hazard_types.filter(type => type !== hazardType)
+        : [...prev.hazard_types, hazardType]
+    }));
+  };
+
+  const handleSave = async () => {
+    if (form.lat === null || form.lng === null) {
+      setError('Choose a location for the place');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await geofenceService.saveGeofence(userId, {
+        id: form.id,
+        name: form.name,
+        lat: form.lat,
+        lng: form.lng,
+        radius_km: form.radius_km,
+        hazard_types: form.hazard_types
+      });
+      setForm(EMPTY_FORM);
+    } catch (err) {
+      console.error('Error saving place:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save place');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (geofence: Geofence) => {
+    try {
+      await geofenceService.saveGeofence(userId, { ...geofence, enabled: !geofence.enabled });
+    } catch (err) {
+      console.error('Error updating place:', err);
+      setError('Failed to update place');
+    }
+  };
+
+  const handleDelete = async (geofence: Geofence) => {
+    try {
+      await geofenceService.deleteGeofence(geofence.id);
+      if (form.id === geofence.id) setForm(EMPTY_FORM);
+    } catch (err) {
+      console.error('Error deleting place:', err);
+      setError('Failed to delete place');
+    }
+  };
+
+  const panelClass = isDark ? 'bg-gray-800 text-white border-gray-700' : 'bg-white text-gray-900 border-gray-200';
+  const mutedClass = isDark ? 'text-gray-400' : 'text-gray-500';
+  const cardClass = `rounded-lg border p-3 ${isDark ? 'border-gray-700' : 'border-gray-200'}`;
+  const inputClass = `w-full px-2 py-1.5 rounded border text-sm ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+  const chipClass = (active: boolean) => `px-2 py-1 rounded-full text-xs border ${
+    active
+      ? 'bg-blue-600 border-blue-600 text-white'
+      : isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'
+  }`;
+  const iconButtonClass = `p-1 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`;
+
+  return (
+    <div className={`w-80 max-h-[70vh] overflow-y-auto rounded-xl border shadow-xl p-4 ${panelClass}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <BellRing size={18} />
+          <h3 className="font-semibold">Saved places</h3>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className={iconButtonClass} aria-label="Close">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      <p className={`text-xs mb-3 ${mutedClass}`}>
+        Get notified about reports and INCOIS warnings near these places
+      </p>
+
+      {error && (
+        <div className={`mb-3 p-2 rounded text-xs ${isDark ? 'bg-red-900/40 text-red-300' : 'bg-red-50 text-red-700'}`}>
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2 mb-4">
+        {geofences.length === 0 && (
+          <p className={`text-sm text-center py-2 ${mutedClass}`}>No saved places yet</p>
+        )}
+        {geofences.map(geofence => (
+          <div key={geofence.id} className={`${cardClass} ${geofence.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{geofence.name}</p>
+                <p className={`text-xs ${mutedClass}`}>
+                  Within {geofence.radius_km} km ·{' '}
+                  {geofence.hazard_types.length === 0
+                    ? 'All hazards'
+                    : geofence.hazard_types.map(type => HAZARD_LABELS[type] || type).join(', ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <input
+                  type="checkbox"
+                  checked={geofence.enabled}
+                  onChange={() => handleToggleEnabled(geofence)}
+                  aria-label={`Alerts for ${geofence.name}`}
+                />
+                <button
+                  onClick={() => setForm({
+                    id: geofence.id,
+                    name: geofence.name,
+                    lat: geofence.lat,
+                    lng: geofence.lng,
+                    radius_km: geofence.radius_km,
+                    hazard_types: geofence.hazard_types
+                  })}
+                  className={iconButtonClass}
+                  aria-label={`Edit ${geofence.name}`}
+                >
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => handleDelete(geofence)} className={iconButtonClass} aria-label={`Delete ${geofence.name}`}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className={`${cardClass} space-y-3`}>
+        <p className="text-sm font-medium">{form.id ? 'Edit place' : 'Add a place'}</p>
+
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Home, fishing harbour, ..."
+          className={inputClass}
+        />
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleUseMyLocation}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            <LocateFixed size={14} />
+            My location
+          </button>
+          <button
+            onClick={() => mapCenter && setForm(prev => ({ ...prev, lat: mapCenter.latitude, lng: mapCenter.longitude }))}
+            disabled={!mapCenter}
+            className={`flex-1 px-3 py-2 rounded-lg text-sm border disabled:opacity-50 ${isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'}`}
+          >
+            Map centre
+          </button>
+        </div>
+        <p className={`text-xs ${mutedClass}`}>
+          {form.lat !== null && form.lng !== null
+            ? `${form.lat.toFixed(4)}, ${form.lng.toFixed(4)}`
+            : 'No location chosen'}
+        </p>
+
+        <div>
+          <label className={`text-xs ${mutedClass}`}>Radius: {form.radius_km} km</label>
+          <input
+            type="range"
+            min={GEOFENCE_LIMITS.minRadiusKm}
+            max={GEOFENCE_LIMITS.maxRadiusKm}
+            value={form.radius_km}
+            onChange={(e) => setForm(prev => ({ ...prev, radius_km: Number(e.target.value) }))}
+            className="w-full"
+          />
+        </div>
+
+        <div>
+          <p className={`text-xs mb-1 ${mutedClass}`}>
+            Hazards{form.hazard_types.length === 0 ? ' (all when none selected)' : ''}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {GEOFENCE_HAZARD_TYPES.map(type => (
+              <button
+                key={type.value}
+                onClick={() => toggleHazard(type.value)}
+                className={chipClass(form.hazard_types.includes(type.value))}
+              >
+                {type.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {form.id && (
+            <button
+              onClick={() => setForm(EMPTY_FORM)}
+              className={`flex-1 px-3 py-2 rounded-lg text-sm border ${isDark ? 'border-gray-600 hover:bg-gray-700' : 'border-gray-300 hover:bg-gray-50'}`}
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !form.name.trim()}
+            className="flex-1 px-3 py-2 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 transition-colors"
+          >
+            {saving ? 'Saving...' : form.id ? 'Update place' : 'Save place'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavedPlacesPanel;
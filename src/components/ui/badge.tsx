@@ -1,6 +1,7 @@
 import React from 'react';
 import { clsx } from 'clsx';
-import { AlertTriangle, Clock, CheckCircle, Send, Zap, AlertCircle, Info } from 'lucide-react';
+import { AlertTriangle, Clock, CheckCircle, Send, Zap, AlertCircle, Info, CloudOff, RefreshCw, Cloud, XCircle, ArrowRight, Copy } from 'lucide-react';
+import { getStateDescriptor, type ReportStatus, type WorkflowTone } from '../../services/ReportWorkflowService';
 
 // Badge variants for different types of indicators
 const badgeVariants = {
@@ -20,6 +21,26 @@ const badgeVariants = {
     dark: 'bg-green-900/20 text-green-300 border-green-800 shadow-green-900/20',
     icon: CheckCircle
   },
+  escalated: {
+    light: 'bg-purple-50 text-purple-700 border-purple-200 shadow-purple-100/50',
+    dark: 'bg-purple-900/20 text-purple-300 border-purple-800 shadow-purple-900/20',
+    icon: ArrowRight
+  },
+  forwarded: {
+    light: 'bg-orange-50 text-orange-700 border-orange-200 shadow-orange-100/50',
+    dark: 'bg-orange-900/20 text-orange-300 border-orange-800 shadow-orange-900/20',
+    icon: ArrowRight
+  },
+  rejected: {
+    light: 'bg-red-50 text-red-700 border-red-200 shadow-red-100/50',
+    dark: 'bg-red-900/20 text-red-300 border-red-800 shadow-red-900/20',
+    icon: XCircle
+  },
+  closed: {
+    light: 'bg-gray-50 text-gray-600 border-gray-200 shadow-gray-100/50',
+    dark: 'bg-gray-800/20 text-gray-400 border-gray-700 shadow-gray-800/20',
+    icon: Copy
+  },
 
   // Priority variants
   low: {
@@ -53,6 +74,28 @@ const badgeVariants = {
     light: 'bg-amber-50 text-amber-700 border-amber-200 shadow-amber-100/50',
     dark: 'bg-amber-900/20 text-amber-300 border-amber-800 shadow-amber-900/20',
     icon: Clock
+  },
+
+  // Sync state variants
+  sync_queued: {
+    light: 'bg-slate-50 text-slate-600 border-slate-200 shadow-slate-100/50',
+    dark: 'bg-slate-800/20 text-slate-400 border-slate-700 shadow-slate-800/20',
+    icon: CloudOff
+  },
+  sync_syncing: {
+    light: 'bg-sky-50 text-sky-700 border-sky-200 shadow-sky-100/50',
+    dark: 'bg-sky-900/20 text-sky-300 border-sky-800 shadow-sky-900/20',
+    icon: RefreshCw
+  },
+  sync_synced: {
+    light: 'bg-emerald-50 text-emerald-700 border-emerald-200 shadow-emerald-100/50',
+    dark: 'bg-emerald-900/20 text-emerald-300 border-emerald-800 shadow-emerald-900/20',
+    icon: Cloud
+  },
+  sync_failed: {
+    light: 'bg-red-50 text-red-700 border-red-200 shadow-red-100/50',
+    dark: 'bg-red-900/20 text-red-300 border-red-800 shadow-red-900/20',
+    icon: XCircle
   }
 };
 
@@ -132,25 +175,32 @@ export const Badge: React.FC<BadgeProps> = ({
   );
 };
 
+// Workflow state tones mapped onto status badge variants
+const statusToneVariants: Record<WorkflowTone, keyof typeof badgeVariants> = {
+  blue: 'submitted',
+  amber: 'reviewed',
+  green: 'verified',
+  purple: 'escalated',
+  orange: 'forwarded',
+  red: 'rejected',
+  gray: 'closed'
+};
+
 // Specialized badge components for common use cases
 export const StatusBadge: React.FC<{
-  status: 'Submitted' | 'Reviewed' | 'Verified';
+  status: ReportStatus;
   size?: keyof typeof sizeVariants;
   showIcon?: boolean;
   theme?: 'light' | 'dark';
 }> = ({ status, ...props }) => {
-  const variantMap = {
-    'Submitted': 'submitted' as const,
-    'Reviewed': 'reviewed' as const,
-    'Verified': 'verified' as const
-  };
+  const state = getStateDescriptor(status);
 
   return (
     <Badge
-      variant={variantMap[status]}
+      variant={statusToneVariants[state.tone]}
       {...props}
     >
-      {status}
+      {state.label}
     </Badge>
   );
 };
@@ -201,4 +251,27 @@ export const ReviewBadge: React.FC<{
   >
     Review
   </Badge>
-);
\ No newline at end of file
+);
+
+export const SyncStateBadge: React.FC<{
+  state: 'queued' | 'syncing' | 'synced' | 'failed';
+  size?: keyof typeof sizeVariants;
+  showIcon?: boolean;
+  theme?: 'light' | 'dark';
+}> = ({ state, ...props }) => {
+  const labelMap = {
+    'queued': 'Waiting to sync',
+    'syncing': 'Syncing',
+    'synced': 'Synced',
+    'failed': 'Sync failed'
+  };
+
+  return (
+    <Badge
+      variant={`sync_${state}`}
+      {...props}
+    >
+      {labelMap[state]}
+    </Badge>
+  );
+};
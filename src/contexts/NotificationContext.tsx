@@ -1,4 +1,4 @@
-import React, { createContext, useState, useContext, useEffect } from 'react';
+import React, { createContext, useState, useContext, useEffect, useCallback } from 'react';
 import { 
   getUserNotifications, 
   getUnreadCount, 
@@ -6,6 +6,7 @@ import {
   markAllNotificationsAsRead,
   Notification 
 } from '../services/EnhancedNotificationService';
+import { geofenceService, GEOFENCE_ALERT_EVENT } from '../services/GeofenceService';
 
 interface NotificationContextType {
   notifications: Notification[];
@@ -35,7 +36,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ user
   const [unreadCount, setUnreadCount] = useState(0);
   const [initialized, setInitialized] = useState(false);
 
-  const fetchNotifications = async () => {
+  const fetchNotifications = useCallback(async () => {
     try {
       if (!userId) return;
       
@@ -47,7 +48,7 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ user
     } catch (error) {
       console.error('Error fetching notifications:', error);
     }
-  };
+  }, [userId]);
 
   useEffect(() => {
     if (userId && !initialized) {
@@ -61,7 +62,23 @@ export const NotificationProvider: React.FC<NotificationProviderProps> = ({ user
       
       return () => clearInterval(intervalId);
     }
-  }, [userId, initialized]);
+  }, [userId, initialized, fetchNotifications]);
+
+  // Watch the user's saved places and show their alerts straight away
+  useEffect(() => {
+    if (!userId) return;
+
+    geofenceService.start(userId);
+    const handleAlert = () => {
+      fetchNotifications();
+    };
+    window.addEventListener(GEOFENCE_ALERT_EVENT, handleAlert);
+
+    return () => {
+      window.removeEventListener(GEOFENCE_ALERT_EVENT, handleAlert);
+      geofenceService.stop();
+    };
+  }, [userId, fetchNotifications]);
 
   const markAsRead = async (notificationId: string) => {
     try {
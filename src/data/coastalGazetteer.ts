@@ -0,0 +1,292 @@
+/**
+ * Coastal gazetteer for offline reverse and forward geocoding
+ *
+ * Villages, towns, ports and beaches along the Indian coast and islands, listed
+ * from Kachchh around the mainland coast to the Andaman and Nicobar Islands and
+ * Lakshadweep. Coordinates are rounded to about 100 m; district names match
+ * the coastal zone dataset (see coastalZones.ts) where the district has a zone.
+ */
+
+export type GazetteerPlaceKind = 'city' | 'town' | 'village' | 'port' | 'beach';
+
+export interface GazetteerPlace {
+  name: string;
+  kind: GazetteerPlaceKind;
+  lat: number;
+  lng: number;
+  district: string;
+  state: string;
+  aliases?: string[]; // Former and alternate spellings accepted by forward search
+}
+
+export const COASTAL_GAZETTEER: GazetteerPlace[] = [
+  { name: 'Koteshwar', kind: 'village', lat: 23.696, lng: 68.533, district: 'Kachchh', state: 'Gujarat' },
+  { name: 'Jakhau', kind: 'port', lat: 23.218, lng: 68.717, district: 'Kachchh', state: 'Gujarat' },
+  { name: 'Mandvi', kind: 'town', lat: 22.833, lng: 69.352, district: 'Kachchh', state: 'Gujarat' },
+  { name: 'Mundra', kind: 'port', lat: 22.839, lng: 69.722, district: 'Kachchh', state: 'Gujarat' },
+  { name: 'Bhuj', kind: 'city', lat: 23.253, lng: 69.669, district: 'Kachchh', state: 'Gujarat' },
+  { name: 'Gandhidham', kind: 'town', lat: 23.075, lng: 70.133, district: 'Kachchh', state: 'Gujarat' },
+  { name: 'Kandla', kind: 'port', lat: 23.033, lng: 70.217, district: 'Kachchh', state: 'Gujarat' },
+  { name: 'Okha', kind: 'port', lat: 22.467, lng: 69.070, district: 'Devbhumi Dwarka', state: 'Gujarat' },
+  { name: 'Beyt Dwarka', kind: 'village', lat: 22.450, lng: 69.105, district: 'Devbhumi Dwarka', state: 'Gujarat' },
+  { name: 'Dwarka', kind: 'town', lat: 22.240, lng: 68.968, district: 'Devbhumi Dwarka', state: 'Gujarat' },
+  { name: 'Salaya', kind: 'port', lat: 22.317, lng: 69.600, district: 'Devbhumi Dwarka', state: 'Gujarat' },
+  { name: 'Sikka', kind: 'port', lat: 22.433, lng: 69.840, district: 'Jamnagar', state: 'Gujarat' },
+  { name: 'Jamnagar', kind: 'city', lat: 22.470, lng: 70.058, district: 'Jamnagar', state: 'Gujarat' },
+  { name: 'Porbandar', kind: 'city', lat: 21.642, lng: 69.609, district: 'Porbandar', state: 'Gujarat' },
+  { name: 'Madhavpur Ghed', kind: 'village', lat: 21.257, lng: 69.958, district: 'Porbandar', state: 'Gujarat' },
+  { name: 'Mangrol', kind: 'town', lat: 21.117, lng: 70.116, district: 'Junagadh', state: 'Gujarat' },
+  { name: 'Chorwad', kind: 'village', lat: 21.010, lng: 70.240, district: 'Junagadh', state: 'Gujarat' },
+  { name: 'Veraval', kind: 'port', lat: 20.907, lng: 70.368, district: 'Gir Somnath', state: 'Gujarat' },
+  { name: 'Somnath', kind: 'town', lat: 20.888, lng: 70.401, district: 'Gir Somnath', state: 'Gujarat' },
+  { name: 'Kodinar', kind: 'town', lat: 20.790, lng: 70.703, district: 'Gir Somnath', state: 'Gujarat' },
+  { name: 'Una', kind: 'town', lat: 20.823, lng: 71.037, district: 'Gir Somnath', state: 'Gujarat' },
+  { name: 'Diu', kind: 'town', lat: 20.714, lng: 70.982, district: 'Diu', state: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { name: 'Nagoa Beach', kind: 'beach', lat: 20.712, lng: 70.918, district: 'Diu', state: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { name: 'Jafrabad', kind: 'port', lat: 20.868, lng: 71.370, district: 'Amreli', state: 'Gujarat' },
+  { name: 'Pipavav', kind: 'port', lat: 20.920, lng: 71.510, district: 'Amreli', state: 'Gujarat' },
+  { name: 'Rajula', kind: 'town', lat: 21.038, lng: 71.443, district: 'Amreli', state: 'Gujarat' },
+  { name: 'Mahuva', kind: 'town', lat: 21.090, lng: 71.757, district: 'Bhavnagar', state: 'Gujarat' },
+  { name: 'Alang', kind: 'port', lat: 21.402, lng: 72.180, district: 'Bhavnagar', state: 'Gujarat' },
+  { name: 'Ghogha', kind: 'village', lat: 21.683, lng: 72.277, district: 'Bhavnagar', state: 'Gujarat' },
+  { name: 'Bhavnagar', kind: 'city', lat: 21.765, lng: 72.151, district: 'Bhavnagar', state: 'Gujarat' },
+  { name: 'Dholera', kind: 'village', lat: 22.250, lng: 72.190, district: 'Ahmedabad', state: 'Gujarat' },
+  { name: 'Dahej', kind: 'port', lat: 21.700, lng: 72.583, district: 'Bharuch', state: 'Gujarat' },
+  { name: 'Bharuch', kind: 'city', lat: 21.705, lng: 72.998, district: 'Bharuch', state: 'Gujarat' },
+  { name: 'Hazira', kind: 'port', lat: 21.100, lng: 72.630, district: 'Surat', state: 'Gujarat' },
+  { name: 'Dumas Beach', kind: 'beach', lat: 21.080, lng: 72.710, district: 'Surat', state: 'Gujarat' },
+  { name: 'Surat', kind: 'city', lat: 21.170, lng: 72.831, district: 'Surat', state: 'Gujarat' },
+  { name: 'Dandi', kind: 'village', lat: 20.890, lng: 72.800, district: 'Navsari', state: 'Gujarat' },
+  { name: 'Navsari', kind: 'city', lat: 20.947, lng: 72.920, district: 'Navsari', state: 'Gujarat' },
+  { name: 'Tithal Beach', kind: 'beach', lat: 20.600, lng: 72.900, district: 'Valsad', state: 'Gujarat' },
+  { name: 'Valsad', kind: 'city', lat: 20.610, lng: 72.926, district: 'Valsad', state: 'Gujarat' },
+  { name: 'Umargam', kind: 'town', lat: 20.197, lng: 72.750, district: 'Valsad', state: 'Gujarat' },
+  { name: 'Daman', kind: 'town', lat: 20.414, lng: 72.833, district: 'Daman', state: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { name: 'Bordi', kind: 'beach', lat: 20.100, lng: 72.720, district: 'Palghar', state: 'Maharashtra' },
+  { name: 'Dahanu', kind: 'town', lat: 19.970, lng: 72.713, district: 'Palghar', state: 'Maharashtra' },
+  { name: 'Satpati', kind: 'village', lat: 19.720, lng: 72.700, district: 'Palghar', state: 'Maharashtra' },
+  { name: 'Palghar', kind: 'town', lat: 19.697, lng: 72.765, district: 'Palghar', state: 'Maharashtra' },
+  { name: 'Arnala', kind: 'village', lat: 19.463, lng: 72.733, district: 'Palghar', state: 'Maharashtra' },
+  { name: 'Vasai', kind: 'town', lat: 19.391, lng: 72.839, district: 'Palghar', state: 'Maharashtra' },
+  { name: 'Thane', kind: 'city', lat: 19.218, lng: 72.978, district: 'Thane', state: 'Maharashtra' },
+  { name: 'Versova', kind: 'village', lat: 19.133, lng: 72.813, district: 'Mumbai', state: 'Maharashtra' },
+  { name: 'Juhu Beach', kind: 'beach', lat: 19.099, lng: 72.826, district: 'Mumbai', state: 'Maharashtra' },
+  { name: 'Mumbai', kind: 'city', lat: 19.076, lng: 72.878, district: 'Mumbai', state: 'Maharashtra', aliases: ['Bombay'] },
+  { name: 'Mumbai Port', kind: 'port', lat: 18.940, lng: 72.840, district: 'Mumbai', state: 'Maharashtra' },
+  { name: 'Nhava Sheva', kind: 'port', lat: 18.950, lng: 72.950, district: 'Raigad', state: 'Maharashtra', aliases: ['JNPT', 'Jawaharlal Nehru Port'] },
+  { name: 'Uran', kind: 'town', lat: 18.877, lng: 72.940, district: 'Raigad', state: 'Maharashtra' },
+  { name: 'Kihim Beach', kind: 'beach', lat: 18.720, lng: 72.868, district: 'Raigad', state: 'Maharashtra' },
+  { name: 'Alibag', kind: 'town', lat: 18.641, lng: 72.872, district: 'Raigad', state: 'Maharashtra', aliases: ['Alibaug'] },
+  { name: 'Revdanda', kind: 'village', lat: 18.550, lng: 72.928, district: 'Raigad', state: 'Maharashtra' },
+  { name: 'Murud', kind: 'town', lat: 18.327, lng: 72.964, district: 'Raigad', state: 'Maharashtra' },
+  { name: 'Shrivardhan', kind: 'town', lat: 18.045, lng: 73.016, district: 'Raigad', state: 'Maharashtra' },
+  { name: 'Harihareshwar', kind: 'village', lat: 17.993, lng: 73.022, district: 'Raigad', state: 'Maharashtra' },
+  { name: 'Harnai', kind: 'port', lat: 17.810, lng: 73.090, district: 'Ratnagiri', state: 'Maharashtra' },
+  { name: 'Dapoli', kind: 'town', lat: 17.759, lng: 73.186, district: 'Ratnagiri', state: 'Maharashtra' },
+  { name: 'Guhagar', kind: 'town', lat: 17.482, lng: 73.193, district: 'Ratnagiri', state: 'Maharashtra' },
+  { name: 'Jaigad', kind: 'port', lat: 17.295, lng: 73.220, district: 'Ratnagiri', state: 'Maharashtra' },
+  { name: 'Ganpatipule', kind: 'beach', lat: 17.148, lng: 73.266, district: 'Ratnagiri', state: 'Maharashtra' },
+  { name: 'Ratnagiri', kind: 'city', lat: 16.990, lng: 73.300, district: 'Ratnagiri', state: 'Maharashtra' },
+  { name: 'Rajapur', kind: 'town', lat: 16.654, lng: 73.518, district: 'Ratnagiri', state: 'Maharashtra' },
+  { name: 'Devgad', kind: 'town', lat: 16.380, lng: 73.380, district: 'Sindhudurg', state: 'Maharashtra' },
+  { name: 'Malvan', kind: 'town', lat: 16.060, lng: 73.469, district: 'Sindhudurg', state: 'Maharashtra' },
+  { name: 'Tarkarli', kind: 'beach', lat: 16.032, lng: 73.480, district: 'Sindhudurg', state: 'Maharashtra' },
+  { name: 'Vengurla', kind: 'town', lat: 15.861, lng: 73.632, district: 'Sindhudurg', state: 'Maharashtra' },
+  { name: 'Shiroda', kind: 'village', lat: 15.776, lng: 73.672, district: 'Sindhudurg', state: 'Maharashtra' },
+  { name: 'Arambol', kind: 'beach', lat: 15.687, lng: 73.704, district: 'North Goa', state: 'Goa' },
+  { name: 'Mapusa', kind: 'town', lat: 15.591, lng: 73.809, district: 'North Goa', state: 'Goa' },
+  { name: 'Anjuna', kind: 'beach', lat: 15.583, lng: 73.740, district: 'North Goa', state: 'Goa' },
+  { name: 'Baga', kind: 'beach', lat: 15.556, lng: 73.752, district: 'North Goa', state: 'Goa' },
+  { name: 'Calangute', kind: 'beach', lat: 15.544, lng: 73.763, district: 'North Goa', state: 'Goa' },
+  { name: 'Candolim', kind: 'beach', lat: 15.518, lng: 73.762, district: 'North Goa', state: 'Goa' },
+  { name: 'Panaji', kind: 'city', lat: 15.490, lng: 73.827, district: 'North Goa', state: 'Goa', aliases: ['Panjim'] },
+  { name: 'Mormugao Port', kind: 'port', lat: 15.412, lng: 73.797, district: 'South Goa', state: 'Goa' },
+  { name: 'Vasco da Gama', kind: 'city', lat: 15.396, lng: 73.816, district: 'South Goa', state: 'Goa', aliases: ['Vasco'] },
+  { name: 'Colva', kind: 'beach', lat: 15.279, lng: 73.922, district: 'South Goa', state: 'Goa' },
+  { name: 'Margao', kind: 'city', lat: 15.274, lng: 73.958, district: 'South Goa', state: 'Goa', aliases: ['Madgaon'] },
+  { name: 'Benaulim', kind: 'beach', lat: 15.250, lng: 73.928, district: 'South Goa', state: 'Goa' },
+  { name: 'Betul', kind: 'village', lat: 15.143, lng: 73.955, district: 'South Goa', state: 'Goa' },
+  { name: 'Canacona', kind: 'town', lat: 15.010, lng: 74.050, district: 'South Goa', state: 'Goa' },
+  { name: 'Palolem', kind: 'beach', lat: 15.010, lng: 74.023, district: 'South Goa', state: 'Goa' },
+  { name: 'Karwar', kind: 'city', lat: 14.813, lng: 74.129, district: 'Uttara Kannada', state: 'Karnataka' },
+  { name: 'Ankola', kind: 'town', lat: 14.661, lng: 74.304, district: 'Uttara Kannada', state: 'Karnataka' },
+  { name: 'Gokarna', kind: 'town', lat: 14.550, lng: 74.318, district: 'Uttara Kannada', state: 'Karnataka' },
+  { name: 'Kumta', kind: 'town', lat: 14.425, lng: 74.418, district: 'Uttara Kannada', state: 'Karnataka' },
+  { name: 'Honnavar', kind: 'town', lat: 14.280, lng: 74.444, district: 'Uttara Kannada', state: 'Karnataka' },
+  { name: 'Murdeshwar', kind: 'town', lat: 14.094, lng: 74.484, district: 'Uttara Kannada', state: 'Karnataka' },
+  { name: 'Bhatkal', kind: 'town', lat: 13.985, lng: 74.556, district: 'Uttara Kannada', state: 'Karnataka' },
+  { name: 'Byndoor', kind: 'town', lat: 13.866, lng: 74.633, district: 'Udupi', state: 'Karnataka' },
+  { name: 'Kundapura', kind: 'town', lat: 13.626, lng: 74.690, district: 'Udupi', state: 'Karnataka', aliases: ['Coondapoor'] },
+  { name: 'Malpe', kind: 'port', lat: 13.350, lng: 74.703, district: 'Udupi', state: 'Karnataka' },
+  { name: 'Udupi', kind: 'city', lat: 13.341, lng: 74.747, district: 'Udupi', state: 'Karnataka' },
+  { name: 'Kaup', kind: 'beach', lat: 13.230, lng: 74.745, district: 'Udupi', state: 'Karnataka' },
+  { name: 'Mulki', kind: 'town', lat: 13.090, lng: 74.794, district: 'Dakshina Kannada', state: 'Karnataka' },
+  { name: 'Surathkal', kind: 'town', lat: 13.010, lng: 74.794, district: 'Dakshina Kannada', state: 'Karnataka' },
+  { name: 'New Mangalore Port', kind: 'port', lat: 12.930, lng: 74.810, district: 'Dakshina Kannada', state: 'Karnataka' },
+  { name: 'Mangaluru', kind: 'city', lat: 12.870, lng: 74.843, district: 'Dakshina Kannada', state: 'Karnataka', aliases: ['Mangalore'] },
+  { name: 'Ullal', kind: 'town', lat: 12.805, lng: 74.850, district: 'Dakshina Kannada', state: 'Karnataka' },
+  { name: 'Manjeshwar', kind: 'town', lat: 12.713, lng: 74.886, district: 'Kasaragod', state: 'Kerala' },
+  { name: 'Kasaragod', kind: 'city', lat: 12.500, lng: 74.990, district: 'Kasaragod', state: 'Kerala' },
+  { name: 'Bekal', kind: 'beach', lat: 12.392, lng: 75.033, district: 'Kasaragod', state: 'Kerala' },
+  { name: 'Kanhangad', kind: 'town', lat: 12.310, lng: 75.090, district: 'Kasaragod', state: 'Kerala' },
+  { name: 'Nileshwar', kind: 'town', lat: 12.260, lng: 75.135, district: 'Kasaragod', state: 'Kerala' },
+  { name: 'Payyanur', kind: 'town', lat: 12.100, lng: 75.200, district: 'Kannur', state: 'Kerala' },
+  { name: 'Azhikode', kind: 'village', lat: 11.910, lng: 75.340, district: 'Kannur', state: 'Kerala' },
+  { name: 'Kannur', kind: 'city', lat: 11.869, lng: 75.371, district: 'Kannur', state: 'Kerala', aliases: ['Cannanore'] },
+  { name: 'Muzhappilangad', kind: 'beach', lat: 11.800, lng: 75.447, district: 'Kannur', state: 'Kerala' },
+  { name: 'Thalassery', kind: 'city', lat: 11.748, lng: 75.493, district: 'Kannur', state: 'Kerala', aliases: ['Tellicherry'] },
+  { name: 'Mahe', kind: 'town', lat: 11.701, lng: 75.536, district: 'Mahe', state: 'Puducherry' },
+  { name: 'Vadakara', kind: 'town', lat: 11.600, lng: 75.590, district: 'Kozhikode', state: 'Kerala' },
+  { name: 'Koyilandy', kind: 'town', lat: 11.440, lng: 75.695, district: 'Kozhikode', state: 'Kerala' },
+  { name: 'Kappad', kind: 'beach', lat: 11.380, lng: 75.720, district: 'Kozhikode', state: 'Kerala' },
+  { name: 'Kozhikode', kind: 'city', lat: 11.259, lng: 75.780, district: 'Kozhikode', state: 'Kerala', aliases: ['Calicut'] },
+  { name: 'Beypore', kind: 'port', lat: 11.170, lng: 75.810, district: 'Kozhikode', state: 'Kerala' },
+  { name: 'Parappanangadi', kind: 'town', lat: 11.050, lng: 75.860, district: 'Malappuram', state: 'Kerala' },
+  { name: 'Tanur', kind: 'town', lat: 10.970, lng: 75.870, district: 'Malappuram', state: 'Kerala' },
+  { name: 'Ponnani', kind: 'town', lat: 10.770, lng: 75.925, district: 'Malappuram', state: 'Kerala' },
+  { name: 'Chavakkad', kind: 'town', lat: 10.580, lng: 76.020, district: 'Thrissur', state: 'Kerala' },
+  { name: 'Nattika', kind: 'village', lat: 10.420, lng: 76.100, district: 'Thrissur', state: 'Kerala' },
+  { name: 'Kodungallur', kind: 'town', lat: 10.230, lng: 76.200, district: 'Thrissur', state: 'Kerala' },
+  { name: 'Munambam', kind: 'port', lat: 10.180, lng: 76.170, district: 'Ernakulam', state: 'Kerala' },
+  { name: 'Cherai Beach', kind: 'beach', lat: 10.140, lng: 76.180, district: 'Ernakulam', state: 'Kerala' },
+  { name: 'Fort Kochi', kind: 'town', lat: 9.965, lng: 76.242, district: 'Ernakulam', state: 'Kerala' },
+  { name: 'Kochi', kind: 'city', lat: 9.931, lng: 76.267, district: 'Ernakulam', state: 'Kerala', aliases: ['Cochin'] },
+  { name: 'Chellanam', kind: 'village', lat: 9.800, lng: 76.272, district: 'Ernakulam', state: 'Kerala' },
+  { name: 'Cherthala', kind: 'town', lat: 9.684, lng: 76.336, district: 'Alappuzha', state: 'Kerala' },
+  { name: 'Alappuzha', kind: 'city', lat: 9.498, lng: 76.339, district: 'Alappuzha', state: 'Kerala', aliases: ['Alleppey'] },
+  { name: 'Thottappally', kind: 'village', lat: 9.310, lng: 76.384, district: 'Alappuzha', state: 'Kerala' },
+  { name: 'Arattupuzha', kind: 'village', lat: 9.170, lng: 76.440, district: 'Alappuzha', state: 'Kerala' },
+  { name: 'Karunagappally', kind: 'town', lat: 9.060, lng: 76.535, district: 'Kollam', state: 'Kerala' },
+  { name: 'Neendakara', kind: 'port', lat: 8.938, lng: 76.540, district: 'Kollam', state: 'Kerala' },
+  { name: 'Kollam', kind: 'city', lat: 8.893, lng: 76.614, district: 'Kollam', state: 'Kerala', aliases: ['Quilon'] },
+  { name: 'Paravur', kind: 'town', lat: 8.810, lng: 76.670, district: 'Kollam', state: 'Kerala' },
+  { name: 'Varkala', kind: 'town', lat: 8.733, lng: 76.716, district: 'Thiruvananthapuram', state: 'Kerala' },
+  { name: 'Anchuthengu', kind: 'village', lat: 8.660, lng: 76.760, district: 'Thiruvananthapuram', state: 'Kerala' },
+  { name: 'Thiruvananthapuram', kind: 'city', lat: 8.524, lng: 76.937, district: 'Thiruvananthapuram', state: 'Kerala', aliases: ['Trivandrum'] },
+  { name: 'Shanghumugham Beach', kind: 'beach', lat: 8.480, lng: 76.910, district: 'Thiruvananthapuram', state: 'Kerala' },
+  { name: 'Kovalam', kind: 'beach', lat: 8.400, lng: 76.979, district: 'Thiruvananthapuram', state: 'Kerala' },
+  { name: 'Vizhinjam', kind: 'port', lat: 8.380, lng: 77.000, district: 'Thiruvananthapuram', state: 'Kerala' },
+  { name: 'Poovar', kind: 'village', lat: 8.318, lng: 77.070, district: 'Thiruvananthapuram', state: 'Kerala' },
+  { name: 'Colachel', kind: 'port', lat: 8.177, lng: 77.255, district: 'Kanniyakumari', state: 'Tamil Nadu' },
+  { name: 'Muttom', kind: 'village', lat: 8.130, lng: 77.320, district: 'Kanniyakumari', state: 'Tamil Nadu' },
+  { name: 'Nagercoil', kind: 'city', lat: 8.178, lng: 77.412, district: 'Kanniyakumari', state: 'Tamil Nadu' },
+  { name: 'Kanniyakumari', kind: 'town', lat: 8.078, lng: 77.541, district: 'Kanniyakumari', state: 'Tamil Nadu', aliases: ['Kanyakumari', 'Cape Comorin'] },
+  { name: 'Kudankulam', kind: 'village', lat: 8.170, lng: 77.710, district: 'Tirunelveli', state: 'Tamil Nadu' },
+  { name: 'Idinthakarai', kind: 'village', lat: 8.180, lng: 77.750, district: 'Tirunelveli', state: 'Tamil Nadu' },
+  { name: 'Uvari', kind: 'village', lat: 8.280, lng: 77.890, district: 'Tirunelveli', state: 'Tamil Nadu' },
+  { name: 'Tiruchendur', kind: 'town', lat: 8.496, lng: 78.125, district: 'Thoothukudi', state: 'Tamil Nadu' },
+  { name: 'Thoothukudi', kind: 'city', lat: 8.790, lng: 78.133, district: 'Thoothukudi', state: 'Tamil Nadu', aliases: ['Tuticorin'] },
+  { name: 'Vembar', kind: 'village', lat: 9.080, lng: 78.360, district: 'Thoothukudi', state: 'Tamil Nadu' },
+  { name: 'Ramanathapuram', kind: 'town', lat: 9.371, lng: 78.830, district: 'Ramanathapuram', state: 'Tamil Nadu' },
+  { name: 'Devipattinam', kind: 'village', lat: 9.480, lng: 78.900, district: 'Ramanathapuram', state: 'Tamil Nadu' },
+  { name: 'Mandapam', kind: 'town', lat: 9.280, lng: 79.120, district: 'Ramanathapuram', state: 'Tamil Nadu' },
+  { name: 'Pamban', kind: 'village', lat: 9.280, lng: 79.210, district: 'Ramanathapuram', state: 'Tamil Nadu' },
+  { name: 'Rameswaram', kind: 'town', lat: 9.288, lng: 79.313, district: 'Ramanathapuram', state: 'Tamil Nadu' },
+  { name: 'Dhanushkodi', kind: 'village', lat: 9.180, lng: 79.420, district: 'Ramanathapuram', state: 'Tamil Nadu' },
+  { name: 'Kottaipattinam', kind: 'village', lat: 9.980, lng: 79.220, district: 'Pudukkottai', state: 'Tamil Nadu' },
+  { name: 'Manamelkudi', kind: 'village', lat: 10.040, lng: 79.230, district: 'Pudukkottai', state: 'Tamil Nadu' },
+  { name: 'Adirampattinam', kind: 'town', lat: 10.340, lng: 79.380, district: 'Thanjavur', state: 'Tamil Nadu' },
+  { name: 'Muthupet', kind: 'town', lat: 10.400, lng: 79.490, district: 'Tiruvarur', state: 'Tamil Nadu' },
+  { name: 'Kodiakkarai', kind: 'village', lat: 10.290, lng: 79.850, district: 'Nagapattinam', state: 'Tamil Nadu', aliases: ['Point Calimere'] },
+  { name: 'Vedaranyam', kind: 'town', lat: 10.370, lng: 79.850, district: 'Nagapattinam', state: 'Tamil Nadu' },
+  { name: 'Velankanni', kind: 'town', lat: 10.680, lng: 79.850, district: 'Nagapattinam', state: 'Tamil Nadu', aliases: ['Vailankanni'] },
+  { name: 'Nagapattinam', kind: 'city', lat: 10.766, lng: 79.843, district: 'Nagapattinam', state: 'Tamil Nadu' },
+  { name: 'Karaikal', kind: 'town', lat: 10.925, lng: 79.838, district: 'Karaikal', state: 'Puducherry' },
+  { name: 'Tharangambadi', kind: 'village', lat: 11.030, lng: 79.855, district: 'Mayiladuthurai', state: 'Tamil Nadu', aliases: ['Tranquebar'] },
+  { name: 'Poompuhar', kind: 'village', lat: 11.140, lng: 79.855, district: 'Mayiladuthurai', state: 'Tamil Nadu' },
+  { name: 'Parangipettai', kind: 'town', lat: 11.490, lng: 79.760, district: 'Cuddalore', state: 'Tamil Nadu', aliases: ['Porto Novo'] },
+  { name: 'Cuddalore', kind: 'city', lat: 11.748, lng: 79.768, district: 'Cuddalore', state: 'Tamil Nadu' },
+  { name: 'Puducherry', kind: 'city', lat: 11.934, lng: 79.830, district: 'Puducherry', state: 'Puducherry', aliases: ['Pondicherry'] },
+  { name: 'Marakkanam', kind: 'town', lat: 12.190, lng: 79.950, district: 'Villupuram', state: 'Tamil Nadu' },
+  { name: 'Kalpakkam', kind: 'town', lat: 12.520, lng: 80.160, district: 'Chengalpattu', state: 'Tamil Nadu' },
+  { name: 'Mamallapuram', kind: 'town', lat: 12.617, lng: 80.193, district: 'Chengalpattu', state: 'Tamil Nadu', aliases: ['Mahabalipuram'] },
+  { name: 'Kovalam', kind: 'village', lat: 12.790, lng: 80.250, district: 'Chengalpattu', state: 'Tamil Nadu' },
+  { name: 'Elliot\'s Beach', kind: 'beach', lat: 13.000, lng: 80.272, district: 'Chennai', state: 'Tamil Nadu' },
+  { name: 'Marina Beach', kind: 'beach', lat: 13.050, lng: 80.282, district: 'Chennai', state: 'Tamil Nadu' },
+  { name: 'Chennai', kind: 'city', lat: 13.083, lng: 80.271, district: 'Chennai', state: 'Tamil Nadu', aliases: ['Madras'] },
+  { name: 'Kasimedu', kind: 'port', lat: 13.125, lng: 80.297, district: 'Chennai', state: 'Tamil Nadu' },
+  { name: 'Ennore', kind: 'port', lat: 13.220, lng: 80.320, district: 'Tiruvallur', state: 'Tamil Nadu' },
+  { name: 'Pulicat', kind: 'village', lat: 13.420, lng: 80.320, district: 'Tiruvallur', state: 'Tamil Nadu', aliases: ['Pazhaverkadu'] },
+  { name: 'Sriharikota', kind: 'village', lat: 13.720, lng: 80.230, district: 'Tirupati', state: 'Andhra Pradesh' },
+  { name: 'Krishnapatnam', kind: 'port', lat: 14.250, lng: 80.120, district: 'Nellore', state: 'Andhra Pradesh' },
+  { name: 'Nellore', kind: 'city', lat: 14.443, lng: 79.987, district: 'Nellore', state: 'Andhra Pradesh' },
+  { name: 'Mypadu Beach', kind: 'beach', lat: 14.510, lng: 80.170, district: 'Nellore', state: 'Andhra Pradesh' },
+  { name: 'Kavali', kind: 'town', lat: 14.913, lng: 79.993, district: 'Nellore', state: 'Andhra Pradesh' },
+  { name: 'Kothapatnam', kind: 'village', lat: 15.440, lng: 80.170, district: 'Prakasam', state: 'Andhra Pradesh' },
+  { name: 'Ongole', kind: 'city', lat: 15.506, lng: 80.049, district: 'Prakasam', state: 'Andhra Pradesh' },
+  { name: 'Vodarevu', kind: 'village', lat: 15.790, lng: 80.410, district: 'Bapatla', state: 'Andhra Pradesh' },
+  { name: 'Chirala', kind: 'town', lat: 15.824, lng: 80.352, district: 'Bapatla', state: 'Andhra Pradesh' },
+  { name: 'Suryalanka', kind: 'beach', lat: 15.850, lng: 80.500, district: 'Bapatla', state: 'Andhra Pradesh' },
+  { name: 'Bapatla', kind: 'town', lat: 15.904, lng: 80.467, district: 'Bapatla', state: 'Andhra Pradesh' },
+  { name: 'Nizampatnam', kind: 'port', lat: 15.900, lng: 80.670, district: 'Bapatla', state: 'Andhra Pradesh' },
+  { name: 'Nagayalanka', kind: 'village', lat: 15.950, lng: 80.920, district: 'Krishna', state: 'Andhra Pradesh' },
+  { name: 'Machilipatnam', kind: 'city', lat: 16.187, lng: 81.139, district: 'Krishna', state: 'Andhra Pradesh', aliases: ['Masulipatnam'] },
+  { name: 'Manginapudi Beach', kind: 'beach', lat: 16.230, lng: 81.210, district: 'Krishna', state: 'Andhra Pradesh' },
+  { name: 'Perupalem Beach', kind: 'beach', lat: 16.390, lng: 81.580, district: 'West Godavari', state: 'Andhra Pradesh' },
+  { name: 'Narsapur', kind: 'town', lat: 16.434, lng: 81.697, district: 'West Godavari', state: 'Andhra Pradesh' },
+  { name: 'Antarvedi', kind: 'village', lat: 16.320, lng: 81.720, district: 'East Godavari', state: 'Andhra Pradesh' },
+  { name: 'Amalapuram', kind: 'town', lat: 16.578, lng: 82.006, district: 'East Godavari', state: 'Andhra Pradesh' },
+  { name: 'Yanam', kind: 'town', lat: 16.733, lng: 82.217, district: 'Yanam', state: 'Puducherry' },
+  { name: 'Kakinada', kind: 'city', lat: 16.989, lng: 82.247, district: 'East Godavari', state: 'Andhra Pradesh' },
+  { name: 'Uppada', kind: 'village', lat: 17.090, lng: 82.330, district: 'East Godavari', state: 'Andhra Pradesh' },
+  { name: 'Pudimadaka', kind: 'village', lat: 17.500, lng: 83.020, district: 'Visakhapatnam', state: 'Andhra Pradesh' },
+  { name: 'Gangavaram Port', kind: 'port', lat: 17.620, lng: 83.240, district: 'Visakhapatnam', state: 'Andhra Pradesh' },
+  { name: 'Visakhapatnam', kind: 'city', lat: 17.687, lng: 83.219, district: 'Visakhapatnam', state: 'Andhra Pradesh', aliases: ['Vizag', 'Vishakhapatnam'] },
+  { name: 'Rushikonda Beach', kind: 'beach', lat: 17.780, lng: 83.385, district: 'Visakhapatnam', state: 'Andhra Pradesh' },
+  { name: 'Bheemunipatnam', kind: 'town', lat: 17.890, lng: 83.450, district: 'Visakhapatnam', state: 'Andhra Pradesh', aliases: ['Bheemili'] },
+  { name: 'Bhogapuram', kind: 'village', lat: 18.030, lng: 83.500, district: 'Vizianagaram', state: 'Andhra Pradesh' },
+  { name: 'Srikakulam', kind: 'city', lat: 18.298, lng: 83.897, district: 'Srikakulam', state: 'Andhra Pradesh' },
+  { name: 'Kalingapatnam', kind: 'village', lat: 18.340, lng: 84.120, district: 'Srikakulam', state: 'Andhra Pradesh' },
+  { name: 'Baruva', kind: 'village', lat: 18.880, lng: 84.590, district: 'Srikakulam', state: 'Andhra Pradesh' },
+  { name: 'Ichchapuram', kind: 'town', lat: 19.113, lng: 84.687, district: 'Srikakulam', state: 'Andhra Pradesh' },
+  { name: 'Gopalpur', kind: 'port', lat: 19.260, lng: 84.905, district: 'Ganjam', state: 'Odisha' },
+  { name: 'Berhampur', kind: 'city', lat: 19.315, lng: 84.792, district: 'Ganjam', state: 'Odisha', aliases: ['Brahmapur'] },
+  { name: 'Chhatrapur', kind: 'town', lat: 19.355, lng: 84.986, district: 'Ganjam', state: 'Odisha' },
+  { name: 'Rushikulya', kind: 'beach', lat: 19.370, lng: 85.060, district: 'Ganjam', state: 'Odisha' },
+  { name: 'Ganjam', kind: 'town', lat: 19.387, lng: 85.070, district: 'Ganjam', state: 'Odisha' },
+  { name: 'Satapada', kind: 'village', lat: 19.670, lng: 85.450, district: 'Puri', state: 'Odisha' },
+  { name: 'Puri', kind: 'city', lat: 19.813, lng: 85.831, district: 'Puri', state: 'Odisha' },
+  { name: 'Chandrabhaga Beach', kind: 'beach', lat: 19.870, lng: 86.110, district: 'Puri', state: 'Odisha' },
+  { name: 'Konark', kind: 'town', lat: 19.888, lng: 86.095, district: 'Puri', state: 'Odisha' },
+  { name: 'Astaranga', kind: 'village', lat: 19.980, lng: 86.290, district: 'Puri', state: 'Odisha' },
+  { name: 'Paradip', kind: 'port', lat: 20.264, lng: 86.666, district: 'Jagatsinghpur', state: 'Odisha' },
+  { name: 'Kendrapara', kind: 'town', lat: 20.500, lng: 86.420, district: 'Kendrapara', state: 'Odisha' },
+  { name: 'Satabhaya', kind: 'village', lat: 20.580, lng: 86.780, district: 'Kendrapara', state: 'Odisha' },
+  { name: 'Chandbali', kind: 'town', lat: 20.780, lng: 86.740, district: 'Bhadrak', state: 'Odisha' },
+  { name: 'Dhamra', kind: 'port', lat: 20.790, lng: 86.970, district: 'Bhadrak', state: 'Odisha' },
+  { name: 'Basudevpur', kind: 'town', lat: 21.130, lng: 86.730, district: 'Bhadrak', state: 'Odisha' },
+  { name: 'Chandipur', kind: 'beach', lat: 21.450, lng: 87.020, district: 'Balasore', state: 'Odisha' },
+  { name: 'Balasore', kind: 'city', lat: 21.494, lng: 86.933, district: 'Balasore', state: 'Odisha', aliases: ['Baleshwar'] },
+  { name: 'Talsari', kind: 'beach', lat: 21.590, lng: 87.450, district: 'Balasore', state: 'Odisha' },
+  { name: 'Digha', kind: 'town', lat: 21.627, lng: 87.509, district: 'Purba Medinipur', state: 'West Bengal' },
+  { name: 'Shankarpur', kind: 'village', lat: 21.640, lng: 87.580, district: 'Purba Medinipur', state: 'West Bengal' },
+  { name: 'Tajpur', kind: 'beach', lat: 21.650, lng: 87.630, district: 'Purba Medinipur', state: 'West Bengal' },
+  { name: 'Mandarmani', kind: 'beach', lat: 21.660, lng: 87.700, district: 'Purba Medinipur', state: 'West Bengal' },
+  { name: 'Contai', kind: 'town', lat: 21.780, lng: 87.750, district: 'Purba Medinipur', state: 'West Bengal', aliases: ['Kanthi'] },
+  { name: 'Haldia', kind: 'port', lat: 22.030, lng: 88.060, district: 'Purba Medinipur', state: 'West Bengal' },
+  { name: 'Bakkhali', kind: 'beach', lat: 21.560, lng: 88.260, district: 'South 24 Parganas', state: 'West Bengal' },
+  { name: 'Frasergunj', kind: 'village', lat: 21.580, lng: 88.250, district: 'South 24 Parganas', state: 'West Bengal' },
+  { name: 'Sagar Island', kind: 'village', lat: 21.650, lng: 88.080, district: 'South 24 Parganas', state: 'West Bengal', aliases: ['Gangasagar'] },
+  { name: 'Kakdwip', kind: 'town', lat: 21.870, lng: 88.190, district: 'South 24 Parganas', state: 'West Bengal' },
+  { name: 'Diamond Harbour', kind: 'town', lat: 22.190, lng: 88.190, district: 'South 24 Parganas', state: 'West Bengal' },
+  { name: 'Gosaba', kind: 'village', lat: 22.170, lng: 88.800, district: 'South 24 Parganas', state: 'West Bengal' },
+  { name: 'Kolkata', kind: 'city', lat: 22.573, lng: 88.364, district: 'Kolkata', state: 'West Bengal', aliases: ['Calcutta'] },
+  { name: 'Diglipur', kind: 'town', lat: 13.270, lng: 92.970, district: 'North and Middle Andaman', state: 'Andaman and Nicobar Islands' },
+  { name: 'Mayabunder', kind: 'town', lat: 12.920, lng: 92.900, district: 'North and Middle Andaman', state: 'Andaman and Nicobar Islands' },
+  { name: 'Rangat', kind: 'town', lat: 12.500, lng: 92.930, district: 'North and Middle Andaman', state: 'Andaman and Nicobar Islands' },
+  { name: 'Swaraj Dweep', kind: 'village', lat: 11.970, lng: 92.990, district: 'South Andaman', state: 'Andaman and Nicobar Islands', aliases: ['Havelock Island'] },
+  { name: 'Shaheed Dweep', kind: 'village', lat: 11.830, lng: 93.050, district: 'South Andaman', state: 'Andaman and Nicobar Islands', aliases: ['Neil Island'] },
+  { name: 'Port Blair', kind: 'city', lat: 11.623, lng: 92.726, district: 'South Andaman', state: 'Andaman and Nicobar Islands', aliases: ['Sri Vijaya Puram'] },
+  { name: 'Wandoor', kind: 'village', lat: 11.600, lng: 92.610, district: 'South Andaman', state: 'Andaman and Nicobar Islands' },
+  { name: 'Chidiyatapu', kind: 'beach', lat: 11.490, lng: 92.710, district: 'South Andaman', state: 'Andaman and Nicobar Islands' },
+  { name: 'Car Nicobar', kind: 'village', lat: 9.160, lng: 92.780, district: 'Nicobar', state: 'Andaman and Nicobar Islands' },
+  { name: 'Kamorta', kind: 'village', lat: 8.030, lng: 93.540, district: 'Nicobar', state: 'Andaman and Nicobar Islands' },
+  { name: 'Campbell Bay', kind: 'village', lat: 7.010, lng: 93.920, district: 'Nicobar', state: 'Andaman and Nicobar Islands' },
+  { name: 'Kadmat', kind: 'village', lat: 11.220, lng: 72.780, district: 'Lakshadweep', state: 'Lakshadweep' },
+  { name: 'Amini', kind: 'village', lat: 11.120, lng: 72.730, district: 'Lakshadweep', state: 'Lakshadweep' },
+  { name: 'Agatti', kind: 'village', lat: 10.860, lng: 72.190, district: 'Lakshadweep', state: 'Lakshadweep' },
+  { name: 'Andrott', kind: 'village', lat: 10.820, lng: 73.680, district: 'Lakshadweep', state: 'Lakshadweep' },
+  { name: 'Kavaratti', kind: 'town', lat: 10.563, lng: 72.637, district: 'Lakshadweep', state: 'Lakshadweep' },
+  { name: 'Kalpeni', kind: 'village', lat: 10.070, lng: 73.650, district: 'Lakshadweep', state: 'Lakshadweep' },
+  { name: 'Minicoy', kind: 'village', lat: 8.280, lng: 73.050, district: 'Lakshadweep', state: 'Lakshadweep' }
+];
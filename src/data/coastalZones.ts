@@ -0,0 +1,166 @@
+/**
+ * Indian coastal districts, their territorial waters and offshore sea zones
+ * Generated by src/scripts/generateCoastalZones.ts; edit the script, not this file
+ *
+ * Features are ordered most specific first (district land, nearshore waters,
+ * offshore), which is the order CoastalZoneService matches them in.
+ */
+
+import type { FeatureCollection, Polygon } from 'geojson';
+
+export type CoastalZoneKind = 'district' | 'nearshore' | 'offshore';
+
+export interface CoastalZoneProperties {
+  id: string; // Stored in reports.coastal_zone
+  name: string;
+  district: string | null; // null for offshore zones
+  state: string;
+  kind: CoastalZoneKind;
+  sea: string | null; // Offshore zones only
+}
+
+export const COASTAL_ZONES: FeatureCollection<Polygon, CoastalZoneProperties> = {
+  type: 'FeatureCollection',
+  features: [
+    {"type":"Feature","properties":{"id":"GJ-KACHCHH","name":"Kachchh","district":"Kachchh","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[68.2,23.6],[68.65,23.2],[69.35,22.83],[69.72,22.84],[70.2,23],[70.45,22.95],[70.9291,23.1299],[70.1797,23.2798],[69.6646,23.1081],[69.424,23.1016],[68.8277,23.417],[68.4046,23.7936],[68.2,23.6]]]}},
+    {"type":"Feature","properties":{"id":"GJ-JAMNAGAR","name":"Jamnagar","district":"Jamnagar","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[70.45,22.95],[70.2,22.6],[69.75,22.45],[69.3,22.4],[69.2704,22.1253],[69.8178,22.1861],[70.3904,22.3769],[70.9291,23.1299],[70.45,22.95]]]}},
+    {"type":"Feature","properties":{"id":"GJ-DEVBHUMI_DWARKA","name":"Devbhumi Dwarka","district":"Devbhumi Dwarka","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[69.3,22.4],[69.07,22.47],[68.97,22.24],[69.25,21.95],[69.4589,22.1376],[69.3076,22.2949],[69.2386,22.135],[69.2704,22.1253],[69.3,22.4]]]}},
+    {"type":"Feature","properties":{"id":"GJ-PORBANDAR","name":"Porbandar","district":"Porbandar","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[69.25,21.95],[69.6,21.64],[69.85,21.4],[70.0635,21.5821],[69.8042,21.8313],[69.4589,22.1376],[69.25,21.95]]]}},
+    {"type":"Feature","properties":{"id":"GJ-JUNAGADH","name":"Junagadh","district":"Junagadh","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[69.85,21.4],[70.11,21.12],[70.25,20.98],[70.4413,21.1836],[70.3249,21.3002],[70.0635,21.5821],[69.85,21.4]]]}},
+    {"type":"Feature","properties":{"id":"GJ-GIR_SOMNATH","name":"Gir Somnath","district":"Gir Somnath","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[70.25,20.98],[70.37,20.9],[70.8,20.75],[70.884,21.0083],[70.5066,21.14],[70.4413,21.1836],[70.25,20.98]]]}},
+    {"type":"Feature","properties":{"id":"DD-DIU","name":"Diu","district":"Diu","state":"Dadra and Nagar Haveli and Daman and Diu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[70.8,20.75],[70.98,20.71],[71.1,20.78],[70.9739,21.0241],[70.9296,20.9982],[70.884,21.0083],[70.8,20.75]]]}},
+    {"type":"Feature","properties":{"id":"GJ-AMRELI","name":"Amreli","district":"Amreli","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[71.1,20.78],[71.37,20.87],[71.5,20.97],[71.6,21.02],[71.4803,21.2659],[71.3386,21.195],[71.2256,21.108],[70.9739,21.0241],[71.1,20.78]]]}},
+    {"type":"Feature","properties":{"id":"GJ-BHAVNAGAR","name":"Bhavnagar","district":"Bhavnagar","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[71.6,21.02],[71.77,21.08],[72.1,21.4],[72.15,21.77],[72.3,22.1],[72.0637,22.2745],[71.8671,21.8405],[71.8248,21.5223],[71.6069,21.3106],[71.4803,21.2659],[71.6,21.02]]]}},
+    {"type":"Feature","properties":{"id":"GJ-AHMEDABAD","name":"Ahmedabad","district":"Ahmedabad","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.3,22.1],[72.6,22.3],[72.9045,22.7595],[72.0637,22.2745],[72.3,22.1]]]}},
+    {"type":"Feature","properties":{"id":"GJ-BHARUCH","name":"Bharuch","district":"Bharuch","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.6,22.3],[72.55,22],[72.55,21.7],[72.6,21.5],[72.8873,21.5402],[72.84,21.7309],[72.8407,21.9793],[72.9045,22.7595],[72.6,22.3]]]}},
+    {"type":"Feature","properties":{"id":"GJ-SURAT","name":"Surat","district":"Surat","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.6,21.5],[72.63,21.1],[72.75,20.95],[72.9989,21.0891],[72.9122,21.1978],[72.8873,21.5402],[72.6,21.5]]]}},
+    {"type":"Feature","properties":{"id":"GJ-NAVSARI","name":"Navsari","district":"Navsari","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.75,20.95],[72.85,20.75],[73.1193,20.8476],[72.9989,21.0891],[72.75,20.95]]]}},
+    {"type":"Feature","properties":{"id":"GJ-VALSAD","name":"Valsad","district":"Valsad","state":"Gujarat","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.85,20.75],[72.9,20.6],[72.83,20.4],[72.72,20.2],[73.0045,20.1298],[73.0961,20.2956],[73.2023,20.598],[73.1193,20.8476],[72.85,20.75]]]}},
+    {"type":"Feature","properties":{"id":"MH-PALGHAR","name":"Palghar","district":"Palghar","state":"Maharashtra","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.72,20.2],[72.7,19.7],[72.78,19.3],[73.0606,19.35],[72.9873,19.7202],[73.0045,20.1298],[72.72,20.2]]]}},
+    {"type":"Feature","properties":{"id":"MH-MUMBAI","name":"Mumbai","district":"Mumbai","state":"Maharashtra","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.78,19.3],[72.82,19.1],[72.81,18.9],[73.0961,18.919],[73.1065,19.1189],[73.0606,19.35],[72.78,19.3]]]}},
+    {"type":"Feature","properties":{"id":"MH-RAIGAD","name":"Raigad","district":"Raigad","state":"Maharashtra","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.81,18.9],[72.87,18.6],[72.95,18.2],[73.05,17.9],[73.3231,17.972],[73.2256,18.2661],[73.1494,18.6502],[73.0961,18.919],[72.81,18.9]]]}},
+    {"type":"Feature","properties":{"id":"MH-RATNAGIRI","name":"Ratnagiri","district":"Ratnagiri","state":"Maharashtra","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[73.05,17.9],[73.15,17.5],[73.27,16.99],[73.33,16.55],[73.6074,16.5951],[73.5478,17.0371],[73.4253,17.5608],[73.3231,17.972],[73.05,17.9]]]}},
+    {"type":"Feature","properties":{"id":"MH-SINDHUDURG","name":"Sindhudurg","district":"Sindhudurg","state":"Maharashtra","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[73.33,16.55],[73.45,16],[73.65,15.75],[73.8832,15.9002],[73.7113,16.1155],[73.6074,16.5951],[73.33,16.55]]]}},
+    {"type":"Feature","properties":{"id":"GA-NORTH_GOA","name":"North Goa","district":"North Goa","state":"Goa","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[73.65,15.75],[73.8,15.5],[73.82,15.4],[74.0866,15.4906],[74.0657,15.5956],[73.8832,15.9002],[73.65,15.75]]]}},
+    {"type":"Feature","properties":{"id":"GA-SOUTH_GOA","name":"South Goa","district":"South Goa","state":"Goa","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[73.82,15.4],[73.93,15.2],[74.07,14.9],[74.3227,15.014],[74.1809,15.3186],[74.0866,15.4906],[73.82,15.4]]]}},
+    {"type":"Feature","properties":{"id":"KA-UTTARA_KANNADA","name":"Uttara Kannada","district":"Uttara Kannada","state":"Karnataka","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[74.07,14.9],[74.12,14.8],[74.32,14.55],[74.45,14.3],[74.53,14],[74.7955,14.0804],[74.7118,14.3954],[74.5566,14.6944],[74.3583,14.9426],[74.3227,15.014],[74.07,14.9]]]}},
+    {"type":"Feature","properties":{"id":"KA-UDUPI","name":"Udupi","district":"Udupi","state":"Karnataka","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[74.53,14],[74.67,13.63],[74.71,13.34],[74.78,13.1],[75.0472,13.17],[74.9819,13.395],[74.9408,13.6952],[74.7955,14.0804],[74.53,14]]]}},
+    {"type":"Feature","properties":{"id":"KA-DAKSHINA_KANNADA","name":"Dakshina Kannada","district":"Dakshina Kannada","state":"Karnataka","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[74.78,13.1],[74.84,12.87],[74.87,12.75],[75.133,12.8357],[75.1083,12.9351],[75.0472,13.17],[74.78,13.1]]]}},
+    {"type":"Feature","properties":{"id":"KL-KASARAGOD","name":"Kasaragod","district":"Kasaragod","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[74.87,12.75],[74.98,12.5],[75.12,12.2],[75.3588,12.3376],[75.2324,12.6091],[75.133,12.8357],[74.87,12.75]]]}},
+    {"type":"Feature","properties":{"id":"KL-KANNUR","name":"Kannur","district":"Kannur","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[75.12,12.2],[75.37,11.87],[75.53,11.7],[75.7571,11.8564],[75.5825,12.042],[75.3588,12.3376],[75.12,12.2]]]}},
+    {"type":"Feature","properties":{"id":"KL-KOZHIKODE","name":"Kozhikode","district":"Kozhikode","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[75.53,11.7],[75.77,11.25],[75.85,11.1],[76.1098,11.1941],[76.0135,11.3749],[75.7571,11.8564],[75.53,11.7]]]}},
+    {"type":"Feature","properties":{"id":"KL-MALAPPURAM","name":"Malappuram","district":"Malappuram","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[75.85,11.1],[75.92,10.8],[76.183,10.879],[76.1098,11.1941],[75.85,11.1]]]}},
+    {"type":"Feature","properties":{"id":"KL-THRISSUR","name":"Thrissur","district":"Thrissur","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[75.92,10.8],[76.03,10.52],[76.17,10.2],[76.4278,10.2923],[76.2838,10.6218],[76.183,10.879],[75.92,10.8]]]}},
+    {"type":"Feature","properties":{"id":"KL-ERNAKULAM","name":"Ernakulam","district":"Ernakulam","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[76.17,10.2],[76.24,9.97],[76.27,9.85],[76.5389,9.9011],[76.5041,10.0409],[76.4278,10.2923],[76.17,10.2]]]}},
+    {"type":"Feature","properties":{"id":"KL-ALAPPUZHA","name":"Alappuzha","district":"Alappuzha","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[76.27,9.85],[76.32,9.5],[76.45,9.1],[76.7008,9.2104],[76.5873,9.5604],[76.5389,9.9011],[76.27,9.85]]]}},
+    {"type":"Feature","properties":{"id":"KL-KOLLAM","name":"Kollam","district":"Kollam","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[76.45,9.1],[76.58,8.88],[76.7,8.75],[76.9079,8.9246],[76.801,9.0405],[76.7008,9.2104],[76.45,9.1]]]}},
+    {"type":"Feature","properties":{"id":"KL-THIRUVANANTHAPURAM","name":"Thiruvananthapuram","district":"Thiruvananthapuram","state":"Kerala","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[76.7,8.75],[76.9,8.5],[77.08,8.3],[77.2524,8.5137],[77.1088,8.6733],[76.9079,8.9246],[76.7,8.75]]]}},
+    {"type":"Feature","properties":{"id":"TN-KANNIYAKUMARI","name":"Kanniyakumari","district":"Kanniyakumari","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[77.08,8.3],[77.3,8.18],[77.55,8.08],[77.75,8.15],[77.5947,8.3815],[77.5564,8.3681],[77.4171,8.4238],[77.2524,8.5137],[77.08,8.3]]]}},
+    {"type":"Feature","properties":{"id":"TN-TIRUNELVELI","name":"Tirunelveli","district":"Tirunelveli","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[77.75,8.15],[77.98,8.4],[77.747,8.5471],[77.5947,8.3815],[77.75,8.15]]]}},
+    {"type":"Feature","properties":{"id":"TN-THOOTHUKUDI","name":"Thoothukudi","district":"Thoothukudi","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[77.98,8.4],[78.15,8.8],[78.4,9.1],[78.2509,9.3451],[77.9141,8.9408],[77.747,8.5471],[77.98,8.4]]]}},
+    {"type":"Feature","properties":{"id":"TN-RAMANATHAPURAM","name":"Ramanathapuram","district":"Ramanathapuram","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[78.4,9.1],[78.9,9.2],[79.3,9.28],[79,9.5],[79.1,9.85],[78.8515,9.9747],[78.686,9.3944],[78.767,9.3974],[78.8458,9.4641],[78.2509,9.3451],[78.4,9.1]]]}},
+    {"type":"Feature","properties":{"id":"TN-PUDUKKOTTAI","name":"Pudukkottai","district":"Pudukkottai","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.1,9.85],[79.3,10.1],[79.0671,10.2445],[78.8515,9.9747],[79.1,9.85]]]}},
+    {"type":"Feature","properties":{"id":"TN-THANJAVUR","name":"Thanjavur","district":"Thanjavur","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.3,10.1],[79.4,10.3],[79.2295,10.5695],[79.0671,10.2445],[79.3,10.1]]]}},
+    {"type":"Feature","properties":{"id":"TN-TIRUVARUR","name":"Tiruvarur","district":"Tiruvarur","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.4,10.3],[79.85,10.3],[79.5761,10.5695],[79.2295,10.5695],[79.4,10.3]]]}},
+    {"type":"Feature","properties":{"id":"TN-NAGAPATTINAM","name":"Nagapattinam","district":"Nagapattinam","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.85,10.3],[79.85,10.77],[79.85,11.1],[79.8,11.4],[79.5269,11.3669],[79.5754,11.0781],[79.5757,10.77],[79.5761,10.5695],[79.85,10.3]]]}},
+    {"type":"Feature","properties":{"id":"TN-CUDDALORE","name":"Cuddalore","district":"Cuddalore","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.8,11.4],[79.77,11.75],[79.83,11.9],[79.5691,11.9872],[79.4903,11.7899],[79.5269,11.3669],[79.8,11.4]]]}},
+    {"type":"Feature","properties":{"id":"PY-PUDUCHERRY","name":"Puducherry","district":"Puducherry","state":"Puducherry","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.83,11.9],[79.86,12],[79.6046,12.1058],[79.5691,11.9872],[79.83,11.9]]]}},
+    {"type":"Feature","properties":{"id":"TN-CHENGALPATTU","name":"Chengalpattu","district":"Chengalpattu","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.86,12],[80.15,12.5],[80.25,12.8],[79.9796,12.8607],[79.8961,12.6092],[79.6046,12.1058],[79.86,12]]]}},
+    {"type":"Feature","properties":{"id":"TN-CHENNAI","name":"Chennai","district":"Chennai","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.25,12.8],[80.29,13.08],[80.32,13.2],[80.0322,13.1883],[80.0179,13.1306],[79.9796,12.8607],[80.25,12.8]]]}},
+    {"type":"Feature","properties":{"id":"TN-TIRUVALLUR","name":"Tiruvallur","district":"Tiruvallur","state":"Tamil Nadu","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.32,13.2],[80.2,13.55],[79.9276,13.4922],[80.0322,13.1883],[80.32,13.2]]]}},
+    {"type":"Feature","properties":{"id":"AP-NELLORE","name":"Nellore","district":"Nellore","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.2,13.55],[80.15,14],[80.15,14.45],[80.1,14.9],[79.8187,14.9071],[79.8717,14.4356],[79.8723,13.9855],[79.9276,13.4922],[80.2,13.55]]]}},
+    {"type":"Feature","properties":{"id":"AP-PRAKASAM","name":"Prakasam","district":"Prakasam","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.1,14.9],[80.2,15.5],[80.45,15.75],[80.3031,15.9917],[79.9378,15.6261],[79.8187,14.9071],[80.1,14.9]]]}},
+    {"type":"Feature","properties":{"id":"AP-BAPATLA","name":"Bapatla","district":"Bapatla","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.45,15.75],[80.85,15.85],[80.7489,16.1032],[80.3031,15.9917],[80.45,15.75]]]}},
+    {"type":"Feature","properties":{"id":"AP-KRISHNA","name":"Krishna","district":"Krishna","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.85,15.85],[81.15,16],[81.3,16.3],[81.1128,16.5484],[80.9377,16.1977],[80.7489,16.1032],[80.85,15.85]]]}},
+    {"type":"Feature","properties":{"id":"AP-WEST_GODAVARI","name":"West Godavari","district":"West Godavari","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[81.3,16.3],[81.7,16.35],[81.6265,16.6126],[81.1128,16.5484],[81.3,16.3]]]}},
+    {"type":"Feature","properties":{"id":"AP-EAST_GODAVARI","name":"East Godavari","district":"East Godavari","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[81.7,16.35],[82.2,16.55],[82.28,16.95],[82.45,17.2],[82.2458,17.3944],[82.0137,17.0526],[81.9523,16.743],[81.6265,16.6126],[81.7,16.35]]]}},
+    {"type":"Feature","properties":{"id":"AP-VISAKHAPATNAM","name":"Visakhapatnam","district":"Visakhapatnam","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[82.45,17.2],[82.85,17.45],[83.22,17.69],[83.45,17.9],[83.2493,18.0902],[83.0413,17.9001],[82.6932,17.6742],[82.2458,17.3944],[82.45,17.2]]]}},
+    {"type":"Feature","properties":{"id":"AP-VIZIANAGARAM","name":"Vizianagaram","district":"Vizianagaram","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[83.45,17.9],[83.65,18.1],[83.471,18.3121],[83.2493,18.0902],[83.45,17.9]]]}},
+    {"type":"Feature","properties":{"id":"AP-SRIKAKULAM","name":"Srikakulam","district":"Srikakulam","state":"Andhra Pradesh","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[83.65,18.1],[84,18.3],[84.3,18.6],[84.6,18.9],[84.3866,19.0787],[84.0936,18.7854],[83.8206,18.512],[83.471,18.3121],[83.65,18.1]]]}},
+    {"type":"Feature","properties":{"id":"OD-GANJAM","name":"Ganjam","district":"Ganjam","state":"Odisha","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[84.6,18.9],[84.95,19.3],[85.15,19.55],[84.9693,19.7717],[84.7259,19.4671],[84.3866,19.0787],[84.6,18.9]]]}},
+    {"type":"Feature","properties":{"id":"OD-PURI","name":"Puri","district":"Puri","state":"Odisha","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[85.15,19.55],[85.83,19.81],[86.3,20],[86.158,20.236],[85.7195,20.0587],[84.9693,19.7717],[85.15,19.55]]]}},
+    {"type":"Feature","properties":{"id":"OD-JAGATSINGHPUR","name":"Jagatsinghpur","district":"Jagatsinghpur","state":"Odisha","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[86.3,20],[86.7,20.27],[86.4888,20.4595],[86.158,20.236],[86.3,20]]]}},
+    {"type":"Feature","properties":{"id":"OD-KENDRAPARA","name":"Kendrapara","district":"Kendrapara","state":"Odisha","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[86.7,20.27],[86.93,20.6],[86.6466,20.6867],[86.4888,20.4595],[86.7,20.27]]]}},
+    {"type":"Feature","properties":{"id":"OD-BHADRAK","name":"Bhadrak","district":"Bhadrak","state":"Odisha","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[86.93,20.6],[86.95,20.95],[86.6635,20.994],[86.6466,20.6867],[86.93,20.6]]]}},
+    {"type":"Feature","properties":{"id":"OD-BALASORE","name":"Balasore","district":"Balasore","state":"Odisha","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[86.95,20.95],[87.1,21.45],[87.45,21.6],[87.3624,21.8592],[86.8572,21.6426],[86.6635,20.994],[86.95,20.95]]]}},
+    {"type":"Feature","properties":{"id":"WB-PURBA_MEDINIPUR","name":"Purba Medinipur","district":"Purba Medinipur","state":"West Bengal","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[87.45,21.6],[87.75,21.65],[88.05,21.65],[88.0935,21.9195],[87.7242,21.9195],[87.3624,21.8592],[87.45,21.6]]]}},
+    {"type":"Feature","properties":{"id":"WB-SOUTH_24_PARGANAS","name":"South 24 Parganas","district":"South 24 Parganas","state":"West Bengal","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[88.05,21.65],[88.4,21.55],[88.8,21.6],[89.1,21.65],[89.0488,21.9153],[88.7551,21.8663],[88.4244,21.825],[88.0935,21.9195],[88.05,21.65]]]}},
+    {"type":"Feature","properties":{"id":"AN-NORTH_AND_MIDDLE_ANDAMAN","name":"North and Middle Andaman","district":"North and Middle Andaman","state":"Andaman and Nicobar Islands","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[93.3469,13.9816],[93.3187,13.6232],[93.2679,12.9757],[93.2169,12.1781],[93.194,11.8194],[92.4611,11.8633],[92.4831,12.2219],[92.5321,13.0243],[92.5813,13.6768],[92.6083,14.0351],[93.3469,13.9816]]]}},
+    {"type":"Feature","properties":{"id":"AN-SOUTH_ANDAMAN","name":"South Andaman","district":"South Andaman","state":"Andaman and Nicobar Islands","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[93.145,12.3306],[93.1163,11.9723],[93.0846,11.5771],[92.9108,10.5419],[92.8512,10.1873],[92.1306,10.3035],[92.1892,10.6581],[92.3554,11.6629],[92.3837,12.0277],[92.4115,12.3859],[93.145,12.3306]]]}},
+    {"type":"Feature","properties":{"id":"AN-NICOBAR","name":"Nicobar","district":"Nicobar","state":"Andaman and Nicobar Islands","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[92.8928,9.6998],[93.0994,9.4043],[93.8323,8.3562],[94.1978,7.0999],[94.2982,6.7548],[93.6032,6.5549],[93.5022,6.9001],[93.1677,8.0438],[92.5006,8.9957],[92.2933,9.2914],[92.8928,9.6998]]]}},
+    {"type":"Feature","properties":{"id":"LD-LAKSHADWEEP","name":"Lakshadweep","district":"Lakshadweep","state":"Lakshadweep","kind":"district","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.4043,12.0672],[72.5404,11.7339],[72.9553,10.7179],[73.3617,10.1128],[73.413,8.2903],[73.4231,7.9312],[72.6978,7.9105],[72.687,8.2697],[72.6383,9.8872],[72.3047,10.3821],[71.8596,11.4661],[71.7225,11.7998],[72.4043,12.0672]]]}},
+    {"type":"Feature","properties":{"id":"GJ-KACHCHH-WATERS","name":"Kachchh coastal waters","district":"Kachchh","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[68.2,23.6],[68.65,23.2],[69.35,22.83],[69.72,22.84],[70.2,23],[70.45,22.95],[70.0955,22.8168],[70.215,22.7929],[69.761,22.6416],[69.2952,22.629],[68.5185,23.0394],[68.0486,23.4568],[68.2,23.6]]]}},
+    {"type":"Feature","properties":{"id":"GJ-JAMNAGAR-WATERS","name":"Jamnagar coastal waters","district":"Jamnagar","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[70.45,22.95],[70.2,22.6],[69.75,22.45],[69.3,22.4],[69.3219,22.6033],[69.6999,22.6453],[70.0591,22.7651],[70.0955,22.8168],[70.45,22.95]]]}},
+    {"type":"Feature","properties":{"id":"GJ-DEVBHUMI_DWARKA-WATERS","name":"Devbhumi Dwarka coastal waters","district":"Devbhumi Dwarka","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[69.3,22.4],[69.07,22.47],[68.97,22.24],[69.25,21.95],[69.0954,21.8111],[68.7201,22.1994],[68.9453,22.7179],[69.3219,22.6033],[69.3,22.4]]]}},
+    {"type":"Feature","properties":{"id":"GJ-PORBANDAR-WATERS","name":"Porbandar coastal waters","district":"Porbandar","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[69.25,21.95],[69.6,21.64],[69.85,21.4],[69.692,21.2653],[69.4489,21.4984],[69.0954,21.8111],[69.25,21.95]]]}},
+    {"type":"Feature","properties":{"id":"GJ-JUNAGADH-WATERS","name":"Junagadh coastal waters","district":"Junagadh","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[69.85,21.4],[70.11,21.12],[70.25,20.98],[70.1085,20.8293],[69.951,20.9867],[69.692,21.2653],[69.85,21.4]]]}},
+    {"type":"Feature","properties":{"id":"GJ-GIR_SOMNATH-WATERS","name":"Gir Somnath coastal waters","district":"Gir Somnath","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[70.25,20.98],[70.37,20.9],[70.8,20.75],[70.7378,20.5588],[70.2689,20.7224],[70.1085,20.8293],[70.25,20.98]]]}},
+    {"type":"Feature","properties":{"id":"DD-DIU-WATERS","name":"Diu coastal waters","district":"Diu","state":"Dadra and Nagar Haveli and Daman and Diu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[70.8,20.75],[70.98,20.71],[71.1,20.78],[71.1933,20.5994],[71.0173,20.4967],[70.7378,20.5588],[70.8,20.75]]]}},
+    {"type":"Feature","properties":{"id":"GJ-AMRELI-WATERS","name":"Amreli coastal waters","district":"Amreli","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[71.1,20.78],[71.37,20.87],[71.5,20.97],[71.6,21.02],[71.6886,20.8381],[71.6195,20.8035],[71.4769,20.6939],[71.1933,20.5994],[71.1,20.78]]]}},
+    {"type":"Feature","properties":{"id":"GJ-BHAVNAGAR-WATERS","name":"Bhavnagar coastal waters","district":"Bhavnagar","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[71.6,21.02],[71.77,21.08],[72.1,21.4],[72.15,21.77],[72.3,22.1],[72.4748,21.9709],[72.3594,21.7179],[72.3037,21.3095],[71.8907,20.9094],[71.6886,20.8381],[71.6,21.02]]]}},
+    {"type":"Feature","properties":{"id":"GJ-AHMEDABAD-WATERS","name":"Ahmedabad coastal waters","district":"Ahmedabad","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.3,22.1],[72.6,22.3],[72.3747,21.96],[72.4748,21.9709],[72.3,22.1]]]}},
+    {"type":"Feature","properties":{"id":"GJ-BHARUCH-WATERS","name":"Bharuch coastal waters","district":"Bharuch","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.6,22.3],[72.55,22],[72.55,21.7],[72.6,21.5],[72.3874,21.4703],[72.3354,21.6771],[72.3349,22.0153],[72.3747,21.96],[72.6,22.3]]]}},
+    {"type":"Feature","properties":{"id":"GJ-SURAT-WATERS","name":"Surat coastal waters","district":"Surat","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.6,21.5],[72.63,21.1],[72.75,20.95],[72.5658,20.8471],[72.4211,21.0276],[72.3874,21.4703],[72.6,21.5]]]}},
+    {"type":"Feature","properties":{"id":"GJ-NAVSARI-WATERS","name":"Navsari coastal waters","district":"Navsari","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.75,20.95],[72.85,20.75],[72.6507,20.6778],[72.5658,20.8471],[72.75,20.95]]]}},
+    {"type":"Feature","properties":{"id":"GJ-VALSAD-WATERS","name":"Valsad coastal waters","district":"Valsad","state":"Gujarat","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.85,20.75],[72.9,20.6],[72.83,20.4],[72.72,20.2],[72.5094,20.2519],[72.6331,20.4773],[72.6763,20.6015],[72.6507,20.6778],[72.85,20.75]]]}},
+    {"type":"Feature","properties":{"id":"MH-PALGHAR-WATERS","name":"Palghar coastal waters","district":"Palghar","state":"Maharashtra","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.72,20.2],[72.7,19.7],[72.78,19.3],[72.5724,19.263],[72.4874,19.6851],[72.5094,20.2519],[72.72,20.2]]]}},
+    {"type":"Feature","properties":{"id":"MH-MUMBAI-WATERS","name":"Mumbai coastal waters","district":"Mumbai","state":"Maharashtra","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.78,19.3],[72.82,19.1],[72.81,18.9],[72.5983,18.886],[72.608,19.086],[72.5724,19.263],[72.78,19.3]]]}},
+    {"type":"Feature","properties":{"id":"MH-RAIGAD-WATERS","name":"Raigad coastal waters","district":"Raigad","state":"Maharashtra","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[72.81,18.9],[72.87,18.6],[72.95,18.2],[73.05,17.9],[72.8479,17.8467],[72.7461,18.1511],[72.6633,18.5629],[72.5983,18.886],[72.81,18.9]]]}},
+    {"type":"Feature","properties":{"id":"MH-RATNAGIRI-WATERS","name":"Ratnagiri coastal waters","district":"Ratnagiri","state":"Maharashtra","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[73.05,17.9],[73.15,17.5],[73.27,16.99],[73.33,16.55],[73.1247,16.5166],[73.0645,16.9552],[72.9463,17.455],[72.8479,17.8467],[73.05,17.9]]]}},
+    {"type":"Feature","properties":{"id":"MH-SINDHUDURG-WATERS","name":"Sindhudurg coastal waters","district":"Sindhudurg","state":"Maharashtra","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[73.33,16.55],[73.45,16],[73.65,15.75],[73.4774,15.6388],[73.2567,15.9145],[73.1247,16.5166],[73.33,16.55]]]}},
+    {"type":"Feature","properties":{"id":"GA-NORTH_GOA-WATERS","name":"North Goa coastal waters","district":"North Goa","state":"Goa","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[73.65,15.75],[73.8,15.5],[73.82,15.4],[73.6228,15.3329],[73.6034,15.4293],[73.4774,15.6388],[73.65,15.75]]]}},
+    {"type":"Feature","properties":{"id":"GA-SOUTH_GOA-WATERS","name":"South Goa coastal waters","district":"South Goa","state":"Goa","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[73.82,15.4],[73.93,15.2],[74.07,14.9],[73.883,14.8156],[73.7443,15.1122],[73.6228,15.3329],[73.82,15.4]]]}},
+    {"type":"Feature","properties":{"id":"KA-UTTARA_KANNADA-WATERS","name":"Uttara Kannada coastal waters","district":"Uttara Kannada","state":"Karnataka","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[74.07,14.9],[74.12,14.8],[74.32,14.55],[74.45,14.3],[74.53,14],[74.3336,13.9405],[74.2563,14.2294],[74.1449,14.4431],[73.9437,14.6944],[73.883,14.8156],[74.07,14.9]]]}},
+    {"type":"Feature","properties":{"id":"KA-UDUPI-WATERS","name":"Udupi coastal waters","district":"Udupi","state":"Karnataka","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[74.53,14],[74.67,13.63],[74.71,13.34],[74.78,13.1],[74.5823,13.0482],[74.5088,13.2993],[74.4696,13.5818],[74.3336,13.9405],[74.53,14]]]}},
+    {"type":"Feature","properties":{"id":"KA-DAKSHINA_KANNADA-WATERS","name":"Dakshina Kannada coastal waters","district":"Dakshina Kannada","state":"Karnataka","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[74.78,13.1],[74.84,12.87],[74.87,12.75],[74.6754,12.6866],[74.6415,12.8218],[74.5823,13.0482],[74.78,13.1]]]}},
+    {"type":"Feature","properties":{"id":"KL-KASARAGOD-WATERS","name":"Kasaragod coastal waters","district":"Kasaragod","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[74.87,12.75],[74.98,12.5],[75.12,12.2],[74.9433,12.0982],[74.7932,12.4193],[74.6754,12.6866],[74.87,12.75]]]}},
+    {"type":"Feature","properties":{"id":"KL-KANNUR-WATERS","name":"Kannur coastal waters","district":"Kannur","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[75.12,12.2],[75.37,11.87],[75.53,11.7],[75.362,11.5843],[75.2127,11.7427],[74.9433,12.0982],[75.12,12.2]]]}},
+    {"type":"Feature","properties":{"id":"KL-KOZHIKODE-WATERS","name":"Kozhikode coastal waters","district":"Kozhikode","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[75.53,11.7],[75.77,11.25],[75.85,11.1],[75.6578,11.0304],[75.5898,11.1576],[75.362,11.5843],[75.53,11.7]]]}},
+    {"type":"Feature","properties":{"id":"KL-MALAPPURAM-WATERS","name":"Malappuram coastal waters","district":"Malappuram","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[75.85,11.1],[75.92,10.8],[75.7254,10.7415],[75.6578,11.0304],[75.85,11.1]]]}},
+    {"type":"Feature","properties":{"id":"KL-THRISSUR-WATERS","name":"Thrissur coastal waters","district":"Thrissur","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[75.92,10.8],[76.03,10.52],[76.17,10.2],[75.9793,10.1317],[75.8422,10.4446],[75.7254,10.7415],[75.92,10.8]]]}},
+    {"type":"Feature","properties":{"id":"KL-ERNAKULAM-WATERS","name":"Ernakulam coastal waters","district":"Ernakulam","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[76.17,10.2],[76.24,9.97],[76.27,9.85],[76.071,9.8122],[76.0446,9.9175],[75.9793,10.1317],[76.17,10.2]]]}},
+    {"type":"Feature","properties":{"id":"KL-ALAPPUZHA-WATERS","name":"Alappuzha coastal waters","district":"Alappuzha","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[76.27,9.85],[76.32,9.5],[76.45,9.1],[76.2644,9.0183],[76.1222,9.4553],[76.071,9.8122],[76.27,9.85]]]}},
+    {"type":"Feature","properties":{"id":"KL-KOLLAM-WATERS","name":"Kollam coastal waters","district":"Kollam","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[76.45,9.1],[76.58,8.88],[76.7,8.75],[76.5461,8.6208],[76.4165,8.7612],[76.2644,9.0183],[76.45,9.1]]]}},
+    {"type":"Feature","properties":{"id":"KL-THIRUVANANTHAPURAM-WATERS","name":"Thiruvananthapuram coastal waters","district":"Thiruvananthapuram","state":"Kerala","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[76.7,8.75],[76.9,8.5],[77.08,8.3],[76.9525,8.1418],[76.7455,8.3717],[76.5461,8.6208],[76.7,8.75]]]}},
+    {"type":"Feature","properties":{"id":"TN-KANNIYAKUMARI-WATERS","name":"Kanniyakumari coastal waters","district":"Kanniyakumari","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[77.08,8.3],[77.3,8.18],[77.55,8.08],[77.75,8.15],[77.8649,7.9787],[77.5452,7.8668],[77.2133,7.9996],[76.9525,8.1418],[77.08,8.3]]]}},
+    {"type":"Feature","properties":{"id":"TN-TIRUNELVELI-WATERS","name":"Tirunelveli coastal waters","district":"Tirunelveli","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[77.75,8.15],[77.98,8.4],[78.1524,8.2911],[77.8649,7.9787],[77.75,8.15]]]}},
+    {"type":"Feature","properties":{"id":"TN-THOOTHUKUDI-WATERS","name":"Thoothukudi coastal waters","district":"Thoothukudi","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[77.98,8.4],[78.15,8.8],[78.4,9.1],[78.5104,8.9186],[78.3246,8.6958],[78.1524,8.2911],[77.98,8.4]]]}},
+    {"type":"Feature","properties":{"id":"TN-RAMANATHAPURAM-WATERS","name":"Ramanathapuram coastal waters","district":"Ramanathapuram","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[78.4,9.1],[78.9,9.2],[79.3,9.28],[79,9.5],[79.1,9.85],[79.2839,9.7577],[79.2324,9.5781],[79.6944,9.1931],[78.9401,9.0045],[78.5104,8.9186],[78.4,9.1]]]}},
+    {"type":"Feature","properties":{"id":"TN-PUDUKKOTTAI-WATERS","name":"Pudukkottai coastal waters","district":"Pudukkottai","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.1,9.85],[79.3,10.1],[79.4723,9.9931],[79.2839,9.7577],[79.1,9.85]]]}},
+    {"type":"Feature","properties":{"id":"TN-THANJAVUR-WATERS","name":"Thanjavur coastal waters","district":"Thanjavur","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.3,10.1],[79.4,10.3],[79.5262,10.1006],[79.4723,9.9931],[79.3,10.1]]]}},
+    {"type":"Feature","properties":{"id":"TN-TIRUVARUR-WATERS","name":"Tiruvarur coastal waters","district":"Tiruvarur","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.4,10.3],[79.85,10.3],[80.0527,10.1006],[79.5262,10.1006],[79.4,10.3]]]}},
+    {"type":"Feature","properties":{"id":"TN-NAGAPATTINAM-WATERS","name":"Nagapattinam coastal waters","district":"Nagapattinam","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.85,10.3],[79.85,10.77],[79.85,11.1],[79.8,11.4],[80.0021,11.4245],[80.0532,11.1162],[80.053,10.77],[80.0527,10.1006],[79.85,10.3]]]}},
+    {"type":"Feature","properties":{"id":"TN-CUDDALORE-WATERS","name":"Cuddalore coastal waters","district":"Cuddalore","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.8,11.4],[79.77,11.75],[79.83,11.9],[80.023,11.8354],[79.9769,11.7205],[80.0021,11.4245],[79.8,11.4]]]}},
+    {"type":"Feature","properties":{"id":"PY-PUDUCHERRY-WATERS","name":"Puducherry coastal waters","district":"Puducherry","state":"Puducherry","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.83,11.9],[79.86,12],[80.049,11.9217],[80.023,11.8354],[79.83,11.9]]]}},
+    {"type":"Feature","properties":{"id":"TN-CHENGALPATTU-WATERS","name":"Chengalpattu coastal waters","district":"Chengalpattu","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[79.86,12],[80.15,12.5],[80.25,12.8],[80.4501,12.7551],[80.3379,12.4192],[80.049,11.9217],[79.86,12]]]}},
+    {"type":"Feature","properties":{"id":"TN-CHENNAI-WATERS","name":"Chennai coastal waters","district":"Chennai","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.25,12.8],[80.29,13.08],[80.32,13.2],[80.533,13.2086],[80.4914,13.0426],[80.4501,12.7551],[80.25,12.8]]]}},
+    {"type":"Feature","properties":{"id":"TN-TIRUVALLUR-WATERS","name":"Tiruvallur coastal waters","district":"Tiruvallur","state":"Tamil Nadu","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.32,13.2],[80.2,13.55],[80.4016,13.5927],[80.533,13.2086],[80.32,13.2]]]}},
+    {"type":"Feature","properties":{"id":"AP-NELLORE-WATERS","name":"Nellore coastal waters","district":"Nellore","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.2,13.55],[80.15,14],[80.15,14.45],[80.1,14.9],[80.3081,14.8947],[80.3559,14.4607],[80.3555,14.0107],[80.4016,13.5927],[80.2,13.55]]]}},
+    {"type":"Feature","properties":{"id":"AP-PRAKASAM-WATERS","name":"Prakasam coastal waters","district":"Prakasam","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.1,14.9],[80.2,15.5],[80.45,15.75],[80.5587,15.5711],[80.394,15.4067],[80.3081,14.8947],[80.1,14.9]]]}},
+    {"type":"Feature","properties":{"id":"AP-BAPATLA-WATERS","name":"Bapatla coastal waters","district":"Bapatla","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.45,15.75],[80.85,15.85],[80.9248,15.6627],[80.5587,15.5711],[80.45,15.75]]]}},
+    {"type":"Feature","properties":{"id":"AP-KRISHNA-WATERS","name":"Krishna coastal waters","district":"Krishna","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[80.85,15.85],[81.15,16],[81.3,16.3],[81.4385,16.1162],[81.3071,15.8537],[80.9248,15.6627],[80.85,15.85]]]}},
+    {"type":"Feature","properties":{"id":"AP-WEST_GODAVARI-WATERS","name":"West Godavari coastal waters","district":"West Godavari","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[81.3,16.3],[81.7,16.35],[81.7544,16.1557],[81.4385,16.1162],[81.3,16.3]]]}},
+    {"type":"Feature","properties":{"id":"AP-EAST_GODAVARI-WATERS","name":"East Godavari coastal waters","district":"East Godavari","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[81.7,16.35],[82.2,16.55],[82.28,16.95],[82.45,17.2],[82.6011,17.0561],[82.4771,16.8741],[82.3833,16.4072],[81.7544,16.1557],[81.7,16.35]]]}},
+    {"type":"Feature","properties":{"id":"AP-VISAKHAPATNAM-WATERS","name":"Visakhapatnam coastal waters","district":"Visakhapatnam","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[82.45,17.2],[82.85,17.45],[83.22,17.69],[83.45,17.9],[83.5985,17.7592],[83.3522,17.5345],[82.9661,17.2841],[82.6011,17.0561],[82.45,17.2]]]}},
+    {"type":"Feature","properties":{"id":"AP-VIZIANAGARAM-WATERS","name":"Vizianagaram coastal waters","district":"Vizianagaram","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[83.45,17.9],[83.65,18.1],[83.7825,17.943],[83.5985,17.7592],[83.45,17.9]]]}},
+    {"type":"Feature","properties":{"id":"AP-SRIKAKULAM-WATERS","name":"Srikakulam coastal waters","district":"Srikakulam","state":"Andhra Pradesh","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[83.65,18.1],[84,18.3],[84.3,18.6],[84.6,18.9],[84.7579,18.7678],[84.4527,18.4628],[84.1327,18.1431],[83.7825,17.943],[83.65,18.1]]]}},
+    {"type":"Feature","properties":{"id":"OD-GANJAM-WATERS","name":"Ganjam coastal waters","district":"Ganjam","state":"Odisha","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[84.6,18.9],[84.95,19.3],[85.15,19.55],[85.2838,19.3859],[85.1158,19.1763],[84.7579,18.7678],[84.6,18.9]]]}},
+    {"type":"Feature","properties":{"id":"OD-PURI-WATERS","name":"Puri coastal waters","district":"Puri","state":"Odisha","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[85.15,19.55],[85.83,19.81],[86.3,20],[86.4051,19.8254],[85.9117,19.626],[85.2838,19.3859],[85.15,19.55]]]}},
+    {"type":"Feature","properties":{"id":"OD-JAGATSINGHPUR-WATERS","name":"Jagatsinghpur coastal waters","district":"Jagatsinghpur","state":"Odisha","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[86.3,20],[86.7,20.27],[86.8563,20.1298],[86.4051,19.8254],[86.3,20]]]}},
+    {"type":"Feature","properties":{"id":"OD-KENDRAPARA-WATERS","name":"Kendrapara coastal waters","district":"Kendrapara","state":"Odisha","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[86.7,20.27],[86.93,20.6],[87.1397,20.5358],[86.8563,20.1298],[86.7,20.27]]]}},
+    {"type":"Feature","properties":{"id":"OD-BHADRAK-WATERS","name":"Bhadrak coastal waters","district":"Bhadrak","state":"Odisha","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[86.93,20.6],[86.95,20.95],[87.162,20.9174],[87.1397,20.5358],[86.93,20.6]]]}},
+    {"type":"Feature","properties":{"id":"OD-BALASORE-WATERS","name":"Balasore coastal waters","district":"Balasore","state":"Odisha","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[86.95,20.95],[87.1,21.45],[87.45,21.6],[87.5148,21.4082],[87.2797,21.3075],[87.162,20.9174],[86.95,20.95]]]}},
+    {"type":"Feature","properties":{"id":"WB-PURBA_MEDINIPUR-WATERS","name":"Purba Medinipur coastal waters","district":"Purba Medinipur","state":"West Bengal","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[87.45,21.6],[87.75,21.65],[88.05,21.65],[88.0178,21.4506],[87.7691,21.4506],[87.5148,21.4082],[87.45,21.6]]]}},
+    {"type":"Feature","properties":{"id":"WB-SOUTH_24_PARGANAS-WATERS","name":"South 24 Parganas coastal waters","district":"South 24 Parganas","state":"West Bengal","kind":"nearshore","sea":null},"geometry":{"type":"Polygon","coordinates":[[[88.05,21.65],[88.4,21.55],[88.8,21.6],[89.1,21.65],[89.1379,21.4537],[88.8332,21.4029],[88.382,21.3465],[88.0178,21.4506],[88.05,21.65]]]}},
+    {"type":"Feature","properties":{"id":"GJ-OFFSHORE-ARABIAN_SEA","name":"Arabian Sea off Gujarat","district":null,"state":"Gujarat","kind":"offshore","sea":"Arabian Sea"},"geometry":{"type":"Polygon","coordinates":[[[68.2,23.6],[68.97,22.24],[70.37,20.9],[72.72,20.2],[72.4298,19.344],[69.8485,20.1123],[68.1751,21.7082],[67.3308,23.1846],[68.2,23.6]]]}},
+    {"type":"Feature","properties":{"id":"MH-OFFSHORE-ARABIAN_SEA","name":"Arabian Sea off Maharashtra","district":null,"state":"Maharashtra","kind":"offshore","sea":"Arabian Sea"},"geometry":{"type":"Polygon","coordinates":[[[72.72,20.2],[72.81,18.9],[73.33,16.55],[73.65,15.75],[72.7787,15.4278],[72.4284,16.2947],[71.8669,18.7775],[71.7648,20.1415],[72.72,20.2]]]}},
+    {"type":"Feature","properties":{"id":"GA-OFFSHORE-ARABIAN_SEA","name":"Arabian Sea off Goa","district":null,"state":"Goa","kind":"offshore","sea":"Arabian Sea"},"geometry":{"type":"Polygon","coordinates":[[[73.65,15.75],[74.07,14.9],[73.2308,14.5135],[72.8074,15.3635],[73.65,15.75]]]}},
+    {"type":"Feature","properties":{"id":"KA-OFFSHORE-ARABIAN_SEA","name":"Arabian Sea off Karnataka","district":null,"state":"Karnataka","kind":"offshore","sea":"Arabian Sea"},"geometry":{"type":"Polygon","coordinates":[[[74.07,14.9],[74.87,12.75],[74.0038,12.4447],[73.1957,14.5947],[74.07,14.9]]]}},
+    {"type":"Feature","properties":{"id":"KL-OFFSHORE-LACCADIVE_SEA","name":"Laccadive Sea off Kerala","district":null,"state":"Kerala","kind":"offshore","sea":"Laccadive Sea"},"geometry":{"type":"Polygon","coordinates":[[[74.87,12.75],[76.17,10.2],[77.08,8.3],[76.2593,7.9161],[75.3491,9.8073],[74.0461,12.3485],[74.87,12.75]]]}},
+    {"type":"Feature","properties":{"id":"TN-OFFSHORE-GULF_OF_MANNAR","name":"Gulf of Mannar off Tamil Nadu","district":null,"state":"Tamil Nadu","kind":"offshore","sea":"Gulf of Mannar"},"geometry":{"type":"Polygon","coordinates":[[[77.55,8.08],[78.15,8.8],[78.9,9.2],[79.1162,8.8048],[78.4442,8.4465],[77.9001,7.7943],[77.55,8.08]]]}},
+    {"type":"Feature","properties":{"id":"TN-OFFSHORE-BAY_OF_BENGAL","name":"Bay of Bengal off Tamil Nadu","district":null,"state":"Tamil Nadu","kind":"offshore","sea":"Bay of Bengal"},"geometry":{"type":"Polygon","coordinates":[[[79.85,10.3],[79.8,11.4],[80.29,13.08],[80.2,13.55],[81.1084,13.7146],[81.2364,13.0369],[80.7221,11.2942],[80.7621,10.3401],[79.85,10.3]]]}},
+    {"type":"Feature","properties":{"id":"AP-OFFSHORE-BAY_OF_BENGAL","name":"Bay of Bengal off Andhra Pradesh","district":null,"state":"Andhra Pradesh","kind":"offshore","sea":"Bay of Bengal"},"geometry":{"type":"Polygon","coordinates":[[[80.2,13.55],[80.1,14.9],[81.15,16],[82.28,16.95],[83.22,17.69],[84.6,18.9],[85.2442,18.2401],[83.8403,17.013],[82.8884,16.2656],[81.8038,15.3563],[81.0559,14.5773],[81.1217,13.6143],[80.2,13.55]]]}},
+    {"type":"Feature","properties":{"id":"OD-OFFSHORE-BAY_OF_BENGAL","name":"Bay of Bengal off Odisha","district":null,"state":"Odisha","kind":"offshore","sea":"Bay of Bengal"},"geometry":{"type":"Polygon","coordinates":[[[84.6,18.9],[85.83,19.81],[86.7,20.27],[87.45,21.6],[88.3048,21.1814],[87.4157,19.6171],[86.3618,19.0608],[85.1859,18.1931],[84.6,18.9]]]}},
+    {"type":"Feature","properties":{"id":"WB-OFFSHORE-BAY_OF_BENGAL","name":"Bay of Bengal off West Bengal","district":null,"state":"West Bengal","kind":"offshore","sea":"Bay of Bengal"},"geometry":{"type":"Polygon","coordinates":[[[87.45,21.6],[88.4,21.55],[89.1,21.65],[89.2468,20.7621],[88.4466,20.6478],[87.3954,20.7031],[87.45,21.6]]]}}
+  ]
+};
@@ -0,0 +1,141 @@
+/**
+ * Evacuation shelters and road networks for coastal towns
+ *
+ * Roads are simplified to their main evacuation corridors and drawn from
+ * public maps at roughly 50 m accuracy. Vertices are [lat, lng, elevation m];
+ * roads meet where they share a vertex, so junctions repeat the exact same
+ * coordinates. Shelter positions and capacities are planning placeholders
+ * until the district disaster management authority lists are imported: a
+ * shelter without an officialSource is illustrative, and the app labels it and
+ * every route to it that way.
+ */
+
+export type RoadClass = 'primary' | 'secondary' | 'residential' | 'footpath';
+
+export interface RoadSegment {
+  name: string;
+  roadClass: RoadClass; // Footpaths are walk-only
+  points: Array<[number, number, number]>;
+}
+
+export interface TownRoadNetwork {
+  id: string;
+  town: string;
+  district: string;
+  state: string;
+  roads: RoadSegment[];
+}
+
+export type ShelterKind = 'cyclone_shelter' | 'high_ground' | 'relief_camp';
+
+export interface EvacuationShelter {
+  id: string;
+  name: string;
+  kind: ShelterKind;
+  lat: number;
+  lng: number;
+  elevationMeters: number; // Ground level at the site
+  refugeHeightMeters: number; // Height of the refuge floor above ground (0 for open high ground)
+  capacity: number; // People
+  networkId: string; // Town road network the shelter is reached through
+  officialSource?: string; // District disaster management list the entry was imported from; unset for placeholders
+}
+
+export const TOWN_ROAD_NETWORKS: TownRoadNetwork[] = [
+  {
+    id: 'puri',
+    town: 'Puri',
+    district: 'Puri',
+    state: 'Odisha',
+    roads: [
+      { name: 'Marine Drive', roadClass: 'secondary', points: [[19.7925, 85.8090, 3], [19.7967, 85.8180, 3], [19.8010, 85.8280, 3], [19.8050, 85.8370, 3], [19.8095, 85.8460, 3]] },
+      { name: 'VIP Road', roadClass: 'secondary', points: [[19.7985, 85.8075, 5], [19.8025, 85.8165, 6], [19.8065, 85.8255, 6], [19.8110, 85.8350, 6], [19.8150, 85.8440, 5]] },
+      { name: 'Grand Road', roadClass: 'primary', points: [[19.8050, 85.8180, 9], [19.8110, 85.8238, 8], [19.8177, 85.8296, 8]] },
+      { name: 'Swargadwar Road', roadClass: 'residential', points: [[19.7967, 85.8180, 3], [19.8025, 85.8165, 6], [19.8050, 85.8180, 9]] },
+      { name: 'Hotel Road', roadClass: 'residential', points: [[19.8010, 85.8280, 3], [19.8065, 85.8255, 6], [19.8110, 85.8238, 8]] },
+      { name: 'Chakratirtha Road', roadClass: 'secondary', points: [[19.8050, 85.8370, 3], [19.8110, 85.8350, 6], [19.8177, 85.8296, 8]] },
+      { name: 'Penthakata lane', roadClass: 'footpath', points: [[19.7925, 85.8090, 3], [19.7985, 85.8075, 5]] },
+      { name: 'Baliapanda lane', roadClass: 'footpath', points: [[19.8095, 85.8460, 3], [19.8150, 85.8440, 5]] },
+      { name: 'Puri-Bhubaneswar Road', roadClass: 'primary', points: [[19.8177, 85.8296, 8], [19.8300, 85.8290, 9], [19.8450, 85.8270, 11], [19.8600, 85.8250, 13]] }
+    ]
+  },
+  {
+    id: 'chennai-marina',
+    town: 'Chennai',
+    district: 'Chennai',
+    state: 'Tamil Nadu',
+    roads: [
+      { name: 'Kamarajar Salai', roadClass: 'primary', points: [[13.0650, 80.2840, 3], [13.0560, 80.2820, 3], [13.0470, 80.2800, 3], [13.0390, 80.2780, 3], [13.0320, 80.2760, 3]] },
+      { name: 'Bharathi Salai', roadClass: 'secondary', points: [[13.0560, 80.2820, 3], [13.0570, 80.2730, 5], [13.0580, 80.2650, 7]] },
+      { name: 'Dr Radhakrishnan Salai', roadClass: 'primary', points: [[13.0470, 80.2800, 3], [13.0450, 80.2700, 6], [13.0440, 80.2600, 8], [13.0430, 80.2500, 11]] },
+      { name: 'Santhome High Road', roadClass: 'secondary', points: [[13.0320, 80.2760, 3], [13.0340, 80.2680, 6], [13.0350, 80.2600, 8]] },
+      { name: 'Royapettah High Road', roadClass: 'secondary', points: [[13.0580, 80.2650, 7], [13.0440, 80.2600, 8], [13.0350, 80.2600, 8]] },
+      { name: 'Ice House Road', roadClass: 'residential', points: [[13.0570, 80.2730, 5], [13.0450, 80.2700, 6], [13.0340, 80.2680, 6]] },
+      { name: 'Anna Salai', roadClass: 'primary', points: [[13.0580, 80.2650, 7], [13.0600, 80.2550, 10], [13.0620, 80.2450, 12]] },
+      { name: 'Marina promenade', roadClass: 'footpath', points: [[13.0650, 80.2840, 3], [13.0650, 80.2800, 4], [13.0570, 80.2730, 5]] }
+    ]
+  },
+  {
+    id: 'nagapattinam',
+    town: 'Nagapattinam',
+    district: 'Nagapattinam',
+    state: 'Tamil Nadu',
+    roads: [
+      { name: 'Beach Road', roadClass: 'secondary', points: [[10.7800, 79.8510, 2], [10.7700, 79.8505, 2], [10.7600, 79.8500, 2], [10.7500, 79.8495, 2]] },
+      { name: 'Public Office Road', roadClass: 'secondary', points: [[10.7800, 79.8430, 4], [10.7700, 79.8425, 4], [10.7600, 79.8420, 4], [10.7500, 79.8415, 4]] },
+      { name: 'Bypass Road', roadClass: 'primary', points: [[10.7800, 79.8310, 6], [10.7700, 79.8305, 6], [10.7600, 79.8300, 6], [10.7500, 79.8295, 6]] },
+      { name: 'Nagore Road', roadClass: 'secondary', points: [[10.7800, 79.8510, 2], [10.7800, 79.8430, 4], [10.7800, 79.8310, 6]] },
+      { name: 'Hospital Road', roadClass: 'residential', points: [[10.7700, 79.8505, 2], [10.7700, 79.8425, 4], [10.7700, 79.8305, 6]] },
+      { name: 'Main Road', roadClass: 'secondary', points: [[10.7600, 79.8500, 2], [10.7600, 79.8420, 4], [10.7600, 79.8300, 6]] },
+      { name: 'Akkaraipettai Road', roadClass: 'residential', points: [[10.7500, 79.8495, 2], [10.7500, 79.8415, 4], [10.7500, 79.8295, 6]] },
+      { name: 'Thiruvarur Road', roadClass: 'primary', points: [[10.7700, 79.8305, 6], [10.7720, 79.8150, 8], [10.7750, 79.8000, 10]] }
+    ]
+  },
+  {
+    id: 'fort-kochi',
+    town: 'Fort Kochi',
+    district: 'Ernakulam',
+    state: 'Kerala',
+    roads: [
+      { name: 'Beach Road', roadClass: 'residential', points: [[9.9660, 76.2370, 2], [9.9630, 76.2375, 2], [9.9600, 76.2390, 2]] },
+      { name: 'Princess Street', roadClass: 'residential', points: [[9.9660, 76.2370, 2], [9.9655, 76.2420, 3], [9.9650, 76.2470, 3]] },
+      { name: 'KB Jacob Road', roadClass: 'secondary', points: [[9.9630, 76.2375, 2], [9.9620, 76.2430, 3], [9.9610, 76.2480, 3]] },
+      { name: 'Bazaar Road', roadClass: 'secondary', points: [[9.9600, 76.2390, 2], [9.9580, 76.2440, 3], [9.9570, 76.2500, 4], [9.9550, 76.2600, 4], [9.9500, 76.2700, 5], [9.9400, 76.2750, 5]] },
+      { name: 'Burgher Street', roadClass: 'residential', points: [[9.9655, 76.2420, 3], [9.9620, 76.2430, 3], [9.9580, 76.2440, 3]] },
+      { name: 'Amaravathy Road', roadClass: 'residential', points: [[9.9650, 76.2470, 3], [9.9610, 76.2480, 3], [9.9570, 76.2500, 4]] }
+    ]
+  },
+  {
+    id: 'visakhapatnam-beach',
+    town: 'Visakhapatnam',
+    district: 'Visakhapatnam',
+    state: 'Andhra Pradesh',
+    roads: [
+      { name: 'Beach Road', roadClass: 'primary', points: [[17.7050, 83.3150, 3], [17.7145, 83.3237, 3], [17.7250, 83.3320, 3], [17.7350, 83.3390, 3]] },
+      { name: 'Jail Road', roadClass: 'secondary', points: [[17.7050, 83.3150, 3], [17.7100, 83.3070, 12], [17.7150, 83.2990, 18]] },
+      { name: 'RK Beach Road', roadClass: 'secondary', points: [[17.7145, 83.3237, 3], [17.7180, 83.3150, 15], [17.7220, 83.3050, 25]] },
+      { name: 'Pedda Waltair Road', roadClass: 'secondary', points: [[17.7250, 83.3320, 3], [17.7300, 83.3230, 20], [17.7350, 83.3150, 35]] },
+      { name: 'Waltair Main Road', roadClass: 'primary', points: [[17.7100, 83.3070, 12], [17.7180, 83.3150, 15], [17.7300, 83.3230, 20]] },
+      { name: 'Siripuram Road', roadClass: 'residential', points: [[17.7150, 83.2990, 18], [17.7220, 83.3050, 25], [17.7350, 83.3150, 35]] },
+      { name: 'Jalaripeta steps', roadClass: 'footpath', points: [[17.7350, 83.3390, 3], [17.7350, 83.3150, 35]] }
+    ]
+  }
+];
+
+export const EVACUATION_SHELTERS: EvacuationShelter[] = [
+  { id: 'puri-penthakata-mpcs', name: 'Multi-purpose cyclone shelter, Penthakata', kind: 'cyclone_shelter', lat: 19.7985, lng: 85.8075, elevationMeters: 5, refugeHeightMeters: 6, capacity: 1500, networkId: 'puri' },
+  { id: 'puri-temple-grounds', name: 'Jagannath Temple grounds', kind: 'high_ground', lat: 19.8050, lng: 85.8180, elevationMeters: 9, refugeHeightMeters: 0, capacity: 5000, networkId: 'puri' },
+  { id: 'puri-gundicha-camp', name: 'Relief camp, Gundicha Temple', kind: 'relief_camp', lat: 19.8177, lng: 85.8296, elevationMeters: 8, refugeHeightMeters: 3, capacity: 2000, networkId: 'puri' },
+  { id: 'puri-batagaon-high-ground', name: 'High ground, Puri-Bhubaneswar Road', kind: 'high_ground', lat: 19.8450, lng: 85.8270, elevationMeters: 11, refugeHeightMeters: 0, capacity: 8000, networkId: 'puri' },
+  { id: 'chennai-royapettah-school', name: 'Corporation school, Royapettah', kind: 'cyclone_shelter', lat: 13.0440, lng: 80.2600, elevationMeters: 8, refugeHeightMeters: 6, capacity: 1200, networkId: 'chennai-marina' },
+  { id: 'chennai-santhome-hall', name: 'Community hall, Santhome', kind: 'relief_camp', lat: 13.0340, lng: 80.2680, elevationMeters: 6, refugeHeightMeters: 4, capacity: 600, networkId: 'chennai-marina' },
+  { id: 'chennai-anna-salai-high-ground', name: 'High ground, Anna Salai', kind: 'high_ground', lat: 13.0620, lng: 80.2450, elevationMeters: 12, refugeHeightMeters: 0, capacity: 6000, networkId: 'chennai-marina' },
+  { id: 'nagapattinam-akkaraipettai-shelter', name: 'Tsunami shelter, Akkaraipettai', kind: 'cyclone_shelter', lat: 10.7500, lng: 79.8415, elevationMeters: 4, refugeHeightMeters: 8, capacity: 1000, networkId: 'nagapattinam' },
+  { id: 'nagapattinam-velipalayam-camp', name: 'Relief camp, Velipalayam', kind: 'relief_camp', lat: 10.7600, lng: 79.8300, elevationMeters: 6, refugeHeightMeters: 3, capacity: 1500, networkId: 'nagapattinam' },
+  { id: 'nagapattinam-thiruvarur-road-high-ground', name: 'High ground, Thiruvarur Road', kind: 'high_ground', lat: 10.7750, lng: 79.8000, elevationMeters: 10, refugeHeightMeters: 0, capacity: 5000, networkId: 'nagapattinam' },
+  { id: 'fort-kochi-school-shelter', name: 'Cyclone shelter, Fort Kochi school', kind: 'cyclone_shelter', lat: 9.9620, lng: 76.2430, elevationMeters: 3, refugeHeightMeters: 9, capacity: 800, networkId: 'fort-kochi' },
+  { id: 'fort-kochi-thoppumpady-camp', name: 'Relief camp, Thoppumpady', kind: 'relief_camp', lat: 9.9400, lng: 76.2750, elevationMeters: 5, refugeHeightMeters: 6, capacity: 1200, networkId: 'fort-kochi' },
+  { id: 'vizag-siripuram-high-ground', name: 'High ground, Siripuram', kind: 'high_ground', lat: 17.7220, lng: 83.3050, elevationMeters: 25, refugeHeightMeters: 0, capacity: 6000, networkId: 'visakhapatnam-beach' },
+  { id: 'vizag-jalaripeta-shelter', name: 'Cyclone shelter, Pedda Jalaripeta', kind: 'cyclone_shelter', lat: 17.7250, lng: 83.3320, elevationMeters: 3, refugeHeightMeters: 8, capacity: 900, networkId: 'visakhapatnam-beach' },
+  { id: 'vizag-waltair-high-ground', name: 'High ground, Waltair uplands', kind: 'high_ground', lat: 17.7350, lng: 83.3150, elevationMeters: 35, refugeHeightMeters: 0, capacity: 4000, networkId: 'visakhapatnam-beach' }
+];
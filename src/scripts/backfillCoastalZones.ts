@@ -0,0 +1,64 @@
+/**
+ * Assigns coastal zones to Supabase reports stored before reports.coastal_zone
+ * was filled at submission (see database/add_coastal_zone_classification.sql).
+ *
+ * How to run (Node 18+), with a service role key so every row can be updated:
+ *   npx esbuild src/scripts/backfillCoastalZones.ts --bundle --platform=node --format=esm --packages=external --outfile=/tmp/backfillCoastalZones.mjs
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... node /tmp/backfillCoastalZones.mjs
+ *
+ * Only rows whose coastal_zone is NULL are read. Inland locations stay NULL, so
+ * running it again re-checks just those and the rows added since.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { classifyCoastalZone } from '../services/CoastalZoneService';
+
+const BATCH_SIZE = 500;
+
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey);
+
+let lastId = '';
+let checked = 0;
+let assigned = 0;
+
+// Keyset pagination on report_id, since assigned rows drop out of the NULL filter
+for (;;) {
+  const { data, error } = await supabase
+    .from('reports')
+    .select('report_id, location')
+    .is('coastal_zone', null)
+    .gt('report_id', lastId)
+    .order('report_id')
+    .limit(BATCH_SIZE);
+
+  if (error) throw error;
+  if (!data || data.length === 0) break;
+
+  for (const report of data as Array<{ report_id: string; location: { lat?: number; lng?: number } | null }>) {
+    checked++;
+    const { lat, lng } = report.location || {};
+    if (typeof lat !== 'number' || typeof lng !== 'number') continue;
+
+    const zone = classifyCoastalZone(lat, lng);
+    if (!zone) continue;
+
+    const { error: updateError } = await supabase
+      .from('reports')
+      .update({ coastal_zone: zone.id })
+      .eq('report_id', report.report_id);
+    if (updateError) throw updateError;
+    assigned++;
+  }
+
+  lastId = data[data.length - 1].report_id;
+  console.log(`Checked ${checked} reports, assigned ${assigned} zones`);
+}
+
+console.log(`Done: ${assigned} of ${checked} unzoned reports are in a coastal zone`);
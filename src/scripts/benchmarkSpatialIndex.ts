@@ -0,0 +1,150 @@
+/**
+ * Benchmarks the spatial index used for report grouping against the pairwise
+ * scans it replaced, on synthetic cyclone-scale report sets.
+ *
+ * How to run (Node 18+):
+ *   npx esbuild src/scripts/benchmarkSpatialIndex.ts --bundle --platform=node --format=esm --outfile=/tmp/benchmarkSpatialIndex.mjs
+ *   node /tmp/benchmarkSpatialIndex.mjs [reportCount...]
+ *
+ * Reports are scattered along the Indian coastline with dense clusters around
+ * a few landfall points, which is the worst case for pairwise duplicate checks.
+ */
+
+import { SpatialIndex } from '../services/SpatialIndex';
+import { geospatialUtils, GeoCoordinate } from '../services/GeospatialUtils';
+import type { ReportData } from '../services/ReportGroupingService';
+
+// Landfall points along the east and west coasts
+const COASTAL_HOTSPOTS: GeoCoordinate[] = [
+  { latitude: 19.8135, longitude: 85.8312 }, // Puri
+  { latitude: 17.6868, longitude: 83.2185 }, // Visakhapatnam
+  { latitude: 13.0827, longitude: 80.2707 }, // Chennai
+  { latitude: 9.9312, longitude: 76.2673 }, // Kochi
+  { latitude: 19.076, longitude: 72.8777 }, // Mumbai
+  { latitude: 21.6417, longitude: 69.6293 } // Porbandar
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEARCH_RADIUS_METERS = 1000;
+const TEMPORAL_WINDOW_DAYS = 30;
+const CLUSTER_RADIUS_METERS = 100;
+const SAMPLE_QUERIES = 500;
+
+// Deterministic PRNG so runs are comparable
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const generateReports = (count: number, random: () => number): ReportData[] => {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) => {
+    const hotspot = COASTAL_HOTSPOTS[Math.floor(random() * COASTAL_HOTSPOTS.length)];
+    // 80% of reports within ~5 km of a hotspot, the rest within ~50 km
+    const spreadDegrees = random() < 0.8 ? 0.05 : 0.5;
+    const createdAt = new Date(now - random() * 60 * DAY_MS);
+    return {
+      id: `bench_${i}`,
+      title: 'Flooding reported',
+      description: 'Synthetic benchmark report',
+      category: 'Flooding',
+      location: {
+        latitude: hotspot.latitude + (random() - 0.5) * spreadDegrees,
+        longitude: hotspot.longitude + (random() - 0.5) * spreadDegrees
+      },
+      status: 'Submitted',
+      priority: 'medium',
+      createdAt,
+      updatedAt: createdAt
+    };
+  });
+};
+
+const time = <T>(run: () => T): { result: T; ms: number } => {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+};
+
+// The candidate lookup ReportGroupingService did before the index: temporal filter, then every pair
+const pairwiseCandidates = (target: ReportData, reports: ReportData[]): ReportData[] => {
+  const windowMs = TEMPORAL_WINDOW_DAYS * DAY_MS;
+  return reports.filter(candidate =>
+    candidate.id !== target.id &&
+    Math.abs(candidate.createdAt.getTime() - target.createdAt.getTime()) <= windowMs &&
+    geospatialUtils.calculateDistance(target.location as GeoCoordinate, candidate.location as GeoCoordinate) <= SEARCH_RADIUS_METERS
+  );
+};
+
+const indexedCandidates = (target: ReportData, index: SpatialIndex<ReportData>): ReportData[] => {
+  const windowMs = TEMPORAL_WINDOW_DAYS * DAY_MS;
+  return index.queryRadius({
+    center: target.location as GeoCoordinate,
+    radiusMeters: SEARCH_RADIUS_METERS,
+    from: new Date(target.createdAt.getTime() - windowMs),
+    to: new Date(target.createdAt.getTime() + windowMs)
+  })
+    .map(result => result.item)
+    .filter(candidate => candidate.id !== target.id);
+};
+
+// The greedy clustering createSpatialClusters did before the index
+const pairwiseClusterCount = (coordinates: GeoCoordinate[]): number => {
+  const processed = new Set<number>();
+  let clusters = 0;
+  for (let i = 0; i < coordinates.length; i++) {
+    if (processed.has(i)) continue;
+    for (let j = 0; j < coordinates.length; j++) {
+      if (!processed.has(j) && geospatialUtils.calculateDistance(coordinates[i], coordinates[j]) <= CLUSTER_RADIUS_METERS) {
+        processed.add(j);
+      }
+    }
+    clusters++;
+  }
+  return clusters;
+};
+
+const runBenchmark = (count: number) => {
+  const random = createRandom(count);
+  const reports = generateReports(count, random);
+  const queries = Array.from({ length: Math.min(SAMPLE_QUERIES, count) }, () => reports[Math.floor(random() * count)]);
+
+  const build = time(() => {
+    const index = new SpatialIndex<ReportData>();
+    index.upsertMany(reports);
+    return index;
+  });
+  const index = build.result;
+
+  const pairwise = time(() => queries.map(target => pairwiseCandidates(target, reports).length));
+  const indexed = time(() => queries.map(target => indexedCandidates(target, index).length));
+  const mismatches = pairwise.result.filter((found, i) => found !== indexed.result[i]).length;
+
+  // Incremental maintenance: move and delete a sample of reports
+  const maintenance = time(() => {
+    queries.forEach(report => index.upsert({ ...report, updatedAt: new Date() }));
+    queries.forEach(report => index.remove(report.id));
+    index.upsertMany(queries);
+  });
+
+  console.log(`\n${count} reports`);
+  console.log(`  index build:            ${build.ms.toFixed(1)} ms`);
+  console.log(`  ${queries.length} candidate lookups:   pairwise ${pairwise.ms.toFixed(1)} ms, indexed ${indexed.ms.toFixed(1)} ms ` +
+    `(${(pairwise.ms / Math.max(indexed.ms, 0.001)).toFixed(1)}x), mismatches ${mismatches}`);
+  console.log(`  ${queries.length * 2} incremental updates: ${maintenance.ms.toFixed(1)} ms`);
+
+  // Pairwise clustering is quadratic; skip it where it would take minutes
+  if (count <= 20000) {
+    const coordinates = reports.map(report => report.location as GeoCoordinate);
+    const pairwiseClusters = time(() => pairwiseClusterCount(coordinates));
+    const indexedClusters = time(() => geospatialUtils.createSpatialClusters(coordinates, CLUSTER_RADIUS_METERS).length);
+    console.log(`  clustering:             pairwise ${pairwiseClusters.ms.toFixed(1)} ms (${pairwiseClusters.result} clusters), ` +
+      `indexed ${indexedClusters.ms.toFixed(1)} ms (${indexedClusters.result} clusters)`);
+  }
+};
+
+const counts = typeof process !== 'undefined' && process.argv.length > 2
+  ? process.argv.slice(2).map(Number).filter(n => n > 0)
+  : [1000, 5000, 20000, 100000];
+
+counts.forEach(runBenchmark);
@@ -0,0 +1,300 @@
+/**
+ * Generates src/data/coastalZones.ts, the bundled GeoJSON of Indian coastal
+ * districts and sea zones used by CoastalZoneService.
+ *
+ * How to run (Node 18+):
+ *   npx esbuild src/scripts/generateCoastalZones.ts --bundle --platform=node --format=esm --outfile=/tmp/generateCoastalZones.mjs
+ *   node /tmp/generateCoastalZones.mjs
+ *
+ * The mainland shoreline is traced district by district from the Pakistan
+ * border round to the Sundarbans, so land is always on the left of the line.
+ * Each district gets two polygons: a land strip reaching LAND_WIDTH_KM inland
+ * and its territorial waters out to 12 nautical miles. Each state also gets an
+ * offshore zone built from a smoothed shoreline, and island districts are
+ * buffered on both sides. Boundaries are simplified; they are meant for
+ * labelling and filtering reports, not for legal or navigational use.
+ */
+
+import { writeFileSync } from 'fs';
+
+type LatLng = [number, number];
+
+interface DistrictCoast {
+  state: string;
+  district: string;
+  coast: LatLng[]; // Starts where the previous district's coast ends
+}
+
+interface OffshoreCoast {
+  state: string;
+  sea: string;
+  coast: LatLng[];
+  widthKm?: number;
+}
+
+interface IslandGroup {
+  state: string;
+  district: string;
+  line: LatLng[];
+  bufferKm: number;
+}
+
+const LAND_WIDTH_KM = 30;
+const TERRITORIAL_WATERS_KM = 22.2; // 12 nautical miles
+const OFFSHORE_WIDTH_KM = 100;
+const MAX_MITER = 2;
+const OUTPUT_PATH = 'src/data/coastalZones.ts';
+
+const STATE_CODES: Record<string, string> = {
+  'Gujarat': 'GJ',
+  'Dadra and Nagar Haveli and Daman and Diu': 'DD',
+  'Maharashtra': 'MH',
+  'Goa': 'GA',
+  'Karnataka': 'KA',
+  'Kerala': 'KL',
+  'Tamil Nadu': 'TN',
+  'Puducherry': 'PY',
+  'Andhra Pradesh': 'AP',
+  'Odisha': 'OD',
+  'West Bengal': 'WB',
+  'Andaman and Nicobar Islands': 'AN',
+  'Lakshadweep': 'LD'
+};
+
+const MAINLAND_COAST: DistrictCoast[] = [
+  { state: 'Gujarat', district: 'Kachchh', coast: [[23.6, 68.2], [23.2, 68.65], [22.83, 69.35], [22.84, 69.72], [23.0, 70.2], [22.95, 70.45]] },
+  { state: 'Gujarat', district: 'Jamnagar', coast: [[22.6, 70.2], [22.45, 69.75], [22.4, 69.3]] },
+  { state: 'Gujarat', district: 'Devbhumi Dwarka', coast: [[22.47, 69.07], [22.24, 68.97], [21.95, 69.25]] },
+  { state: 'Gujarat', district: 'Porbandar', coast: [[21.64, 69.6], [21.4, 69.85]] },
+  { state: 'Gujarat', district: 'Junagadh', coast: [[21.12, 70.11], [20.98, 70.25]] },
+  { state: 'Gujarat', district: 'Gir Somnath', coast: [[20.9, 70.37], [20.75, 70.8]] },
+  { state: 'Dadra and Nagar Haveli and Daman and Diu', district: 'Diu', coast: [[20.71, 70.98], [20.78, 71.1]] },
+  { state: 'Gujarat', district: 'Amreli', coast: [[20.87, 71.37], [20.97, 71.5], [21.02, 71.6]] },
+  { state: 'Gujarat', district: 'Bhavnagar', coast: [[21.08, 71.77], [21.4, 72.1], [21.77, 72.15], [22.1, 72.3]] },
+  { state: 'Gujarat', district: 'Ahmedabad', coast: [[22.3, 72.6]] },
+  { state: 'Gujarat', district: 'Bharuch', coast: [[22.0, 72.55], [21.7, 72.55], [21.5, 72.6]] },
+  { state: 'Gujarat', district: 'Surat', coast: [[21.1, 72.63], [20.95, 72.75]] },
+  { state: 'Gujarat', district: 'Navsari', coast: [[20.75, 72.85]] },
+  { state: 'Gujarat', district: 'Valsad', coast: [[20.6, 72.9], [20.4, 72.83], [20.2, 72.72]] },
+  { state: 'Maharashtra', district: 'Palghar', coast: [[19.7, 72.7], [19.3, 72.78]] },
+  { state: 'Maharashtra', district: 'Mumbai', coast: [[19.1, 72.82], [18.9, 72.81]] },
+  { state: 'Maharashtra', district: 'Raigad', coast: [[18.6, 72.87], [18.2, 72.95], [17.9, 73.05]] },
+  { state: 'Maharashtra', district: 'Ratnagiri', coast: [[17.5, 73.15], [16.99, 73.27], [16.55, 73.33]] },
+  { state: 'Maharashtra', district: 'Sindhudurg', coast: [[16.0, 73.45], [15.75, 73.65]] },
+  { state: 'Goa', district: 'North Goa', coast: [[15.5, 73.8], [15.4, 73.82]] },
+  { state: 'Goa', district: 'South Goa', coast: [[15.2, 73.93], [14.9, 74.07]] },
+  { state: 'Karnataka', district: 'Uttara Kannada', coast: [[14.8, 74.12], [14.55, 74.32], [14.3, 74.45], [14.0, 74.53]] },
+  { state: 'Karnataka', district: 'Udupi', coast: [[13.63, 74.67], [13.34, 74.71], [13.1, 74.78]] },
+  { state: 'Karnataka', district: 'Dakshina Kannada', coast: [[12.87, 74.84], [12.75, 74.87]] },
+  { state: 'Kerala', district: 'Kasaragod', coast: [[12.5, 74.98], [12.2, 75.12]] },
+  { state: 'Kerala', district: 'Kannur', coast: [[11.87, 75.37], [11.7, 75.53]] },
+  { state: 'Kerala', district: 'Kozhikode', coast: [[11.25, 75.77], [11.1, 75.85]] },
+  { state: 'Kerala', district: 'Malappuram', coast: [[10.8, 75.92]] },
+  { state: 'Kerala', district: 'Thrissur', coast: [[10.52, 76.03], [10.2, 76.17]] },
+  { state: 'Kerala', district: 'Ernakulam', coast: [[9.97, 76.24], [9.85, 76.27]] },
+  { state: 'Kerala', district: 'Alappuzha', coast: [[9.5, 76.32], [9.1, 76.45]] },
+  { state: 'Kerala', district: 'Kollam', coast: [[8.88, 76.58], [8.75, 76.7]] },
+  { state: 'Kerala', district: 'Thiruvananthapuram', coast: [[8.5, 76.9], [8.3, 77.08]] },
+  { state: 'Tamil Nadu', district: 'Kanniyakumari', coast: [[8.18, 77.3], [8.08, 77.55], [8.15, 77.75]] },
+  { state: 'Tamil Nadu', district: 'Tirunelveli', coast: [[8.4, 77.98]] },
+  { state: 'Tamil Nadu', district: 'Thoothukudi', coast: [[8.8, 78.15], [9.1, 78.4]] },
+  { state: 'Tamil Nadu', district: 'Ramanathapuram', coast: [[9.2, 78.9], [9.28, 79.3], [9.5, 79.0], [9.85, 79.1]] },
+  { state: 'Tamil Nadu', district: 'Pudukkottai', coast: [[10.1, 79.3]] },
+  { state: 'Tamil Nadu', district: 'Thanjavur', coast: [[10.3, 79.4]] },
+  { state: 'Tamil Nadu', district: 'Tiruvarur', coast: [[10.3, 79.85]] },
+  { state: 'Tamil Nadu', district: 'Nagapattinam', coast: [[10.77, 79.85], [11.1, 79.85], [11.4, 79.8]] },
+  { state: 'Tamil Nadu', district: 'Cuddalore', coast: [[11.75, 79.77], [11.9, 79.83]] },
+  { state: 'Puducherry', district: 'Puducherry', coast: [[12.0, 79.86]] },
+  { state: 'Tamil Nadu', district: 'Chengalpattu', coast: [[12.5, 80.15], [12.8, 80.25]] },
+  { state: 'Tamil Nadu', district: 'Chennai', coast: [[13.08, 80.29], [13.2, 80.32]] },
+  { state: 'Tamil Nadu', district: 'Tiruvallur', coast: [[13.55, 80.2]] },
+  { state: 'Andhra Pradesh', district: 'Nellore', coast: [[14.0, 80.15], [14.45, 80.15], [14.9, 80.1]] },
+  { state: 'Andhra Pradesh', district: 'Prakasam', coast: [[15.5, 80.2], [15.75, 80.45]] },
+  { state: 'Andhra Pradesh', district: 'Bapatla', coast: [[15.85, 80.85]] },
+  { state: 'Andhra Pradesh', district: 'Krishna', coast: [[16.0, 81.15], [16.3, 81.3]] },
+  { state: 'Andhra Pradesh', district: 'West Godavari', coast: [[16.35, 81.7]] },
+  { state: 'Andhra Pradesh', district: 'East Godavari', coast: [[16.55, 82.2], [16.95, 82.28], [17.2, 82.45]] },
+  { state: 'Andhra Pradesh', district: 'Visakhapatnam', coast: [[17.45, 82.85], [17.69, 83.22], [17.9, 83.45]] },
+  { state: 'Andhra Pradesh', district: 'Vizianagaram', coast: [[18.1, 83.65]] },
+  { state: 'Andhra Pradesh', district: 'Srikakulam', coast: [[18.3, 84.0], [18.6, 84.3], [18.9, 84.6]] },
+  { state: 'Odisha', district: 'Ganjam', coast: [[19.3, 84.95], [19.55, 85.15]] },
+  { state: 'Odisha', district: 'Puri', coast: [[19.81, 85.83], [20.0, 86.3]] },
+  { state: 'Odisha', district: 'Jagatsinghpur', coast: [[20.27, 86.7]] },
+  { state: 'Odisha', district: 'Kendrapara', coast: [[20.6, 86.93]] },
+  { state: 'Odisha', district: 'Bhadrak', coast: [[20.95, 86.95]] },
+  { state: 'Odisha', district: 'Balasore', coast: [[21.45, 87.1], [21.6, 87.45]] },
+  { state: 'West Bengal', district: 'Purba Medinipur', coast: [[21.65, 87.75], [21.65, 88.05]] },
+  { state: 'West Bengal', district: 'South 24 Parganas', coast: [[21.55, 88.4], [21.6, 88.8], [21.65, 89.1]] }
+];
+
+// Shorelines smoothed across gulfs and deltas so the offshore strips do not fold over
+const OFFSHORE_COAST: OffshoreCoast[] = [
+  { state: 'Gujarat', sea: 'Arabian Sea', coast: [[23.6, 68.2], [22.24, 68.97], [20.9, 70.37], [20.2, 72.72]] },
+  { state: 'Maharashtra', sea: 'Arabian Sea', coast: [[20.2, 72.72], [18.9, 72.81], [16.55, 73.33], [15.75, 73.65]] },
+  { state: 'Goa', sea: 'Arabian Sea', coast: [[15.75, 73.65], [14.9, 74.07]] },
+  { state: 'Karnataka', sea: 'Arabian Sea', coast: [[14.9, 74.07], [12.75, 74.87]] },
+  { state: 'Kerala', sea: 'Laccadive Sea', coast: [[12.75, 74.87], [10.2, 76.17], [8.3, 77.08]] },
+  { state: 'Tamil Nadu', sea: 'Gulf of Mannar', coast: [[8.08, 77.55], [8.8, 78.15], [9.2, 78.9]], widthKm: 50 },
+  { state: 'Tamil Nadu', sea: 'Bay of Bengal', coast: [[10.3, 79.85], [11.4, 79.8], [13.08, 80.29], [13.55, 80.2]] },
+  { state: 'Andhra Pradesh', sea: 'Bay of Bengal', coast: [[13.55, 80.2], [14.9, 80.1], [16.0, 81.15], [16.95, 82.28], [17.69, 83.22], [18.9, 84.6]] },
+  { state: 'Odisha', sea: 'Bay of Bengal', coast: [[18.9, 84.6], [19.81, 85.83], [20.27, 86.7], [21.6, 87.45]] },
+  { state: 'West Bengal', sea: 'Bay of Bengal', coast: [[21.6, 87.45], [21.55, 88.4], [21.65, 89.1]] }
+];
+
+const ISLAND_GROUPS: IslandGroup[] = [
+  { state: 'Andaman and Nicobar Islands', district: 'North and Middle Andaman', line: [[13.65, 92.95], [13.0, 92.9], [12.2, 92.85]], bufferKm: 40 },
+  { state: 'Andaman and Nicobar Islands', district: 'South Andaman', line: [[12.0, 92.75], [11.62, 92.72], [10.6, 92.55]], bufferKm: 40 },
+  { state: 'Andaman and Nicobar Islands', district: 'Nicobar', line: [[9.2, 92.8], [8.2, 93.5], [7.0, 93.85]], bufferKm: 40 },
+  { state: 'Lakshadweep', district: 'Lakshadweep', line: [[11.6, 72.2], [10.55, 72.63], [10.0, 73.0], [8.28, 73.05]], bufferKm: 40 }
+];
+
+const KM_PER_DEGREE = 111.32;
+
+const slug = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Unit normals to the left of travel at each vertex, mitred at the corners
+ * Works in a local km frame so offsets are the same distance in every direction
+ */
+const leftNormals = (line: LatLng[]): Array<[number, number]> => {
+  const segmentNormals = line.slice(0, -1).map(([lat, lng], i) => {
+    const [nextLat, nextLng] = line[i + 1];
+    const dx = (nextLng - lng) * Math.cos((lat + nextLat) / 2 * Math.PI / 180);
+    const dy = nextLat - lat;
+    const length = Math.hypot(dx, dy) || 1;
+    return [-dy / length, dx / length] as [number, number];
+  });
+
+  return line.map((_, i) => {
+    const before = segmentNormals[Math.max(0, i - 1)];
+    const after = segmentNormals[Math.min(segmentNormals.length - 1, i)];
+    const sum: [number, number] = [before[0] + after[0], before[1] + after[1]];
+    const length = Math.hypot(sum[0], sum[1]) || 1;
+    const cosHalfAngle = Math.max(1 / MAX_MITER, (sum[0] * after[0] + sum[1] * after[1]) / length);
+    return [sum[0] / length / cosHalfAngle, sum[1] / length / cosHalfAngle];
+  });
+};
+
+const offsetLine = (line: LatLng[], normals: Array<[number, number]>, distanceKm: number): LatLng[] =>
+  line.map(([lat, lng], i) => [
+    lat + normals[i][1] * distanceKm / KM_PER_DEGREE,
+    lng + normals[i][0] * distanceKm / (KM_PER_DEGREE * Math.cos(lat * Math.PI / 180))
+  ]);
+
+/**
+ * Closed GeoJSON ring between two offsets of the same line
+ */
+const ringBetween = (inner: LatLng[], outer: LatLng[]): number[][] => {
+  const ring = [...inner, ...[...outer].reverse()].map(([lat, lng]) => [
+    Math.round(lng * 10000) / 10000,
+    Math.round(lat * 10000) / 10000
+  ]);
+  return [...ring, ring[0]];
+};
+
+/**
+ * Extend a line at both ends so the buffer around it has square caps
+ */
+const extendEnds = (line: LatLng[], distanceKm: number): LatLng[] => {
+  const extend = (from: LatLng, to: LatLng): LatLng => {
+    const dx = (to[1] - from[1]) * Math.cos(to[0] * Math.PI / 180);
+    const dy = to[0] - from[0];
+    const length = Math.hypot(dx, dy) || 1;
+    return [
+      to[0] + dy / length * distanceKm / KM_PER_DEGREE,
+      to[1] + dx / length * distanceKm / (KM_PER_DEGREE * Math.cos(to[0] * Math.PI / 180))
+    ];
+  };
+  return [extend(line[1], line[0]), ...line, extend(line[line.length - 2], line[line.length - 1])];
+};
+
+const buildFeatures = () => {
+  const features: object[] = [];
+  const addFeature = (properties: Record<string, string | null>, ring: number[][]) => {
+    features.push({ type: 'Feature', properties, geometry: { type: 'Polygon', coordinates: [ring] } });
+  };
+
+  // The whole mainland shoreline, so normals at district boundaries are shared
+  const shoreline: LatLng[] = [];
+  const ranges: Array<{ start: number; end: number }> = [];
+  MAINLAND_COAST.forEach(({ coast }, i) => {
+    const start = i === 0 ? 0 : shoreline.length - 1;
+    shoreline.push(...coast);
+    ranges.push({ start, end: shoreline.length - 1 });
+  });
+  const normals = leftNormals(shoreline);
+  const inland = offsetLine(shoreline, normals, LAND_WIDTH_KM);
+  const seaward = offsetLine(shoreline, normals, -TERRITORIAL_WATERS_KM);
+
+  const landFeatures: Array<[Record<string, string | null>, number[][]]> = [];
+  const waterFeatures: Array<[Record<string, string | null>, number[][]]> = [];
+  MAINLAND_COAST.forEach(({ state, district }, i) => {
+    const { start, end } = ranges[i];
+    const id = `${STATE_CODES[state]}-${slug(district)}`;
+    const coast = shoreline.slice(start, end + 1);
+    landFeatures.push([
+      { id, name: district, district, state, kind: 'district', sea: null },
+      ringBetween(coast, inland.slice(start, end + 1))
+    ]);
+    waterFeatures.push([
+      { id: `${id}-WATERS`, name: `${district} coastal waters`, district, state, kind: 'nearshore', sea: null },
+      ringBetween(coast, seaward.slice(start, end + 1))
+    ]);
+  });
+
+  ISLAND_GROUPS.forEach(({ state, district, line, bufferKm }) => {
+    const extended = extendEnds(line, bufferKm);
+    const islandNormals = leftNormals(extended);
+    landFeatures.push([
+      { id: `${STATE_CODES[state]}-${slug(district)}`, name: district, district, state, kind: 'district', sea: null },
+      ringBetween(offsetLine(extended, islandNormals, bufferKm), offsetLine(extended, islandNormals, -bufferKm))
+    ]);
+  });
+
+  // Most specific first: classification takes the first polygon that matches
+  landFeatures.forEach(([properties, ring]) => addFeature(properties, ring));
+  waterFeatures.forEach(([properties, ring]) => addFeature(properties, ring));
+
+  OFFSHORE_COAST.forEach(({ state, sea, coast, widthKm = OFFSHORE_WIDTH_KM }) => {
+    const offshoreNormals = leftNormals(coast);
+    addFeature(
+      { id: `${STATE_CODES[state]}-OFFSHORE-${slug(sea)}`, name: `${sea} off ${state}`, district: null, state, kind: 'offshore', sea },
+      ringBetween(coast, offsetLine(coast, offshoreNormals, -widthKm))
+    );
+  });
+
+  return features;
+};
+
+const features = buildFeatures();
+const output = `/**
+ * Indian coastal districts, their territorial waters and offshore sea zones
+ * Generated by src/scripts/generateCoastalZones.ts; edit the script, not this file
+ *
+ * Features are ordered most specific first (district land, nearshore waters,
+ * offshore), which is the order CoastalZoneService matches them in.
+ */
+
+import type { FeatureCollection, Polygon } from 'geojson';
+
+export type CoastalZoneKind = 'district' | 'nearshore' | 'offshore';
+
+export interface CoastalZoneProperties {
+  id: string; // Stored in reports.coastal_zone
+  name: string;
+  district: string | null; // null for offshore zones
+  state: string;
+  kind: CoastalZoneKind;
+  sea: string | null; // Offshore zones only
+}
+
+export const COASTAL_ZONES: FeatureCollection<Polygon, CoastalZoneProperties> = {
+  type: 'FeatureCollection',
+  features: [
+${features.map(feature => `    ${JSON.stringify(feature)}`).join(',\n')}
+  ]
+};
+`;
+
+writeFileSync(OUTPUT_PATH, output);
+console.log(`Wrote ${features.length} zones to ${OUTPUT_PATH}`);
@@ -0,0 +1,525 @@
+/**
+ * Affected Zone Service
+ * Named areas that admins draw on the map: a polygon, a circle, or a line with
+ * a buffer either side (a stretch of coast or a river mouth)
+ *
+ * A zone selects the reports inside it for bulk review, finds the users to
+ * notify - people who reported from inside it recently and the owners of saved
+ * places that overlap it - and becomes the coordinates of the official alerts
+ * issued for it. Zones and their alerts live next to the reports: in Supabase
+ * when reports do (database/add_affected_zones.sql), otherwise in memory.
+ */
+
+import { supabase } from './supabase';
+import { getReportRepository } from './ReportRepository';
+import { getFilteredReports, updateReportStatus, type ReportData } from './ReportService';
+import { createNotification, type NotificationType } from './EnhancedNotificationService';
+import { geofenceService, GEOFENCE_LIMITS, type Geofence } from './GeofenceService';
+import { geospatialUtils } from './GeospatialUtils';
+import type { Coordinates, OfficialAlert } from './INCOISService';
+import type { ReportStatus, TransitionRequest } from './ReportWorkflowService';
+
+export type ZoneShape = 'polygon' | 'circle' | 'line';
+
+export interface AffectedZone {
+  id: string;
+  name: string;
+  description: string | null;
+  shape_type: ZoneShape;
+  coordinates: Coordinates[]; // Polygon vertices, circle centre, or line vertices
+  radius_km: number | null; // Circle radius or line buffer half-width; null for polygons
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// The shape alone: a saved zone, or one still being drawn
+export type ZoneGeometry = Pick<AffectedZone, 'shape_type' | 'coordinates' | 'radius_km'>;
+
+export type AffectedZoneInput = Pick<AffectedZone, 'name' | 'shape_type' | 'coordinates'> &
+  Partial<Pick<AffectedZone, 'id' | 'description' | 'radius_km'>>;
+
+export interface ZoneBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface ZoneRecipient {
+  userId: string;
+  reportIds: string[]; // Recent reports from inside the zone
+  placeNames: string[]; // Saved places that overlap the zone
+}
+
+export type ZoneAlertInput = Pick<
+  OfficialAlert,
+  'alertType' | 'priority' | 'category' | 'title' | 'message' | 'validUntil' | 'actionInstructions'
+>;
+
+export interface ZoneAlert extends OfficialAlert {
+  zoneId: string;
+  recipients: number;
+}
+
+export interface BulkStatusResult {
+  updated: string[];
+  failed: Array<{ reportId: string; reason: string }>;
+}
+
+/**
+ * Thrown when a zone cannot be drawn, saved or used as drawn
+ */
+export class AffectedZoneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AffectedZoneError';
+  }
+}
+
+export const AFFECTED_ZONES_UPDATED_EVENT = 'affectedZonesUpdated';
+
+export const ZONE_LIMITS = {
+  minRadiusKm: 0.1,
+  maxRadiusKm: 200,
+  defaultLineBufferKm: 2,
+  circleSegments: 48, // Vertices of the polygon that stands in for a circle on alerts
+  locationLookbackDays: 30, // A report from inside the zone this recent counts as the user's location
+  maxZoneReports: 2000
+};
+
+const MIN_VERTICES: Record<ZoneShape, number> = { polygon: 3, circle: 1, line: 2 };
+
+const ALERT_NOTIFICATION_TYPE: Record<OfficialAlert['priority'], NotificationType> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'info'
+};
+
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32;
+
+const distanceKm = (a: Coordinates, b: Coordinates): number =>
+  geospatialUtils.calculateDistance(
+    { latitude: a.lat, longitude: a.lng },
+    { latitude: b.lat, longitude: b.lng }
+  ) / 1000;
+
+/**
+ * Distance from a point to a segment, on a flat projection centred on the
+ * point; accurate to well under a percent at the size of a zone
+ */
+const distanceToSegmentKm = (point: Coordinates, a: Coordinates, b: Coordinates): number => {
+  const kmPerLng = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(point.lat * Math.PI / 180);
+  const ax = (a.lng - point.lng) * kmPerLng;
+  const ay = (a.lat - point.lat) * KM_PER_DEGREE_LAT;
+  const bx = (b.lng - point.lng) * kmPerLng;
+  const by = (b.lat - point.lat) * KM_PER_DEGREE_LAT;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+};
+
+const distanceToPathKm = (point: Coordinates, path: Coordinates[]): number => {
+  if (path.length === 1) return distanceKm(point, path[0]);
+  let nearest = Infinity;
+  for (let i = 0; i < path.length - 1; i++) {
+    nearest = Math.min(nearest, distanceToSegmentKm(point, path[i], path[i + 1]));
+  }
+  return nearest;
+};
+
+// Point this far from the origin along a compass bearing, on the flat projection
+const offsetPoint = (origin: Coordinates, km: number, bearingRadians: number): Coordinates => ({
+  lat: origin.lat + (km * Math.cos(bearingRadians)) / KM_PER_DEGREE_LAT,
+  lng: origin.lng + (km * Math.sin(bearingRadians)) / (KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(origin.lat * Math.PI / 180))
+});
+
+const zoneRadiusKm = (zone: ZoneGeometry): number =>
+  zone.shape_type === 'polygon' ? 0 : zone.radius_km ?? ZONE_LIMITS.defaultLineBufferKm;
+
+/**
+ * Distance from a point to the edge of a zone, zero inside it
+ */
+export const getZoneDistanceKm = (zone: ZoneGeometry, point: Coordinates): number => {
+  const vertices = zone.coordinates;
+  switch (zone.shape_type) {
+    case 'polygon': {
+      const ring = vertices.map(vertex => [vertex.lng, vertex.lat]);
+      if (geospatialUtils.isPointInPolygon({ latitude: point.lat, longitude: point.lng }, [ring])) {
+        return 0;
+      }
+      return distanceToPathKm(point, [...vertices, vertices[0]]);
+    }
+    case 'circle':
+      return Math.max(0, distanceKm(point, vertices[0]) - zoneRadiusKm(zone));
+    case 'line':
+      return Math.max(0, distanceToPathKm(point, vertices) - zoneRadiusKm(zone));
+  }
+};
+
+export const isPointInZone = (zone: ZoneGeometry, point: Coordinates): boolean =>
+  getZoneDistanceKm(zone, point) === 0;
+
+/**
+ * Bounding box of a zone including its radius or buffer, widened by marginKm
+ */
+export const getZoneBounds = (zone: ZoneGeometry, marginKm: number = 0): ZoneBounds => {
+  const lats = zone.coordinates.map(vertex => vertex.lat);
+  const lngs = zone.coordinates.map(vertex => vertex.lng);
+  const north = Math.max(...lats);
+  const south = Math.min(...lats);
+  const padKm = zoneRadiusKm(zone) + marginKm;
+  const latPad = padKm / KM_PER_DEGREE_LAT;
+  const widestLat = Math.max(Math.abs(north), Math.abs(south)) + latPad;
+  const lngPad = padKm / (KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(Math.min(widestLat, 89) * Math.PI / 180));
+
+  return {
+    north: north + latPad,
+    south: south - latPad,
+    east: Math.max(...lngs) + lngPad,
+    west: Math.min(...lngs) - lngPad
+  };
+};
+
+/**
+ * Outline of a zone as a closed ring, the form alerts carry: circles become a
+ * regular polygon and lines the outline of their buffer
+ */
+export const zoneToPolygon = (zone: ZoneGeometry): Coordinates[] => {
+  const vertices = zone.coordinates;
+  const radiusKm = zoneRadiusKm(zone);
+
+  if (zone.shape_type === 'polygon') {
+    return [...vertices, vertices[0]];
+  }
+
+  if (zone.shape_type === 'circle') {
+    const ring = Array.from({ length: ZONE_LIMITS.circleSegments }, (_, i) =>
+      offsetPoint(vertices[0], radiusKm, (2 * Math.PI * i) / ZONE_LIMITS.circleSegments)
+    );
+    return [...ring, ring[0]];
+  }
+
+  // Each segment offset to the left going out and to the right coming back,
+  // with a flat cap at either end
+  const bearings = vertices.slice(1).map((vertex, i) =>
+    geospatialUtils.calculateBearing(
+      { latitude: vertices[i].lat, longitude: vertices[i].lng },
+      { latitude: vertex.lat, longitude: vertex.lng }
+    ) * Math.PI / 180
+  );
+  const left: Coordinates[] = [];
+  const right: Coordinates[] = [];
+  bearings.forEach((bearing, i) => {
+    left.push(offsetPoint(vertices[i], radiusKm, bearing - Math.PI / 2), offsetPoint(vertices[i + 1], radiusKm, bearing - Math.PI / 2));
+    right.push(offsetPoint(vertices[i], radiusKm, bearing + Math.PI / 2), offsetPoint(vertices[i + 1], radiusKm, bearing + Math.PI / 2));
+  });
+  const ring = [...left, ...right.reverse()];
+  return [...ring, ring[0]];
+};
+
+/**
+ * Rough area of a zone in km², for the zone list
+ */
+export const getZoneAreaKm2 = (zone: ZoneGeometry): number => {
+  const ring = zoneToPolygon(zone);
+  const originLat = ring[0].lat;
+  const kmPerLng = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(originLat * Math.PI / 180);
+  let twiceArea = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    twiceArea += ring[i].lng * kmPerLng * ring[i + 1].lat * KM_PER_DEGREE_LAT -
+      ring[i + 1].lng * kmPerLng * ring[i].lat * KM_PER_DEGREE_LAT;
+  }
+  return Math.abs(twiceArea) / 2;
+};
+
+const validateZoneInput = (input: AffectedZoneInput): void => {
+  if (!input.name.trim()) {
+    throw new AffectedZoneError('An affected zone needs a name');
+  }
+  if (input.coordinates.length < MIN_VERTICES[input.shape_type]) {
+    throw new AffectedZoneError(
+      `A ${input.shape_type} needs at least ${MIN_VERTICES[input.shape_type]} point${MIN_VERTICES[input.shape_type] === 1 ? '' : 's'}`
+    );
+  }
+  if (input.coordinates.some(vertex => !geospatialUtils.isValidCoordinate({ latitude: vertex.lat, longitude: vertex.lng }))) {
+    throw new AffectedZoneError('Invalid coordinates in affected zone');
+  }
+  if (input.shape_type === 'circle' && !(input.radius_km && input.radius_km > 0)) {
+    throw new AffectedZoneError('A circle needs a radius');
+  }
+};
+
+class AffectedZoneService {
+  private memoryZones = new Map<string, AffectedZone>(); // Used when reports are stored locally
+  private memoryAlerts: ZoneAlert[] = [];
+
+  private get isRemote(): boolean {
+    return getReportRepository().type === 'supabase';
+  }
+
+  /**
+   * All affected zones, most recently changed first
+   */
+  async listZones(): Promise<AffectedZone[]> {
+    if (!this.isRemote) {
+      return [...this.memoryZones.values()].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    }
+
+    const { data, error } = await supabase
+      .from('affected_zones')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as AffectedZone[];
+  }
+
+  /**
+   * Create a zone, or update it when the input carries an id
+   * Throws AffectedZoneError when the shape is incomplete
+   */
+  async saveZone(input: AffectedZoneInput, createdBy: string): Promise<AffectedZone> {
+    validateZoneInput(input);
+
+    const now = new Date().toISOString();
+    const fields = {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      shape_type: input.shape_type,
+      coordinates: input.coordinates.map(vertex => ({ lat: vertex.lat, lng: vertex.lng })),
+      radius_km: input.shape_type === 'polygon'
+        ? null
+        : Math.min(ZONE_LIMITS.maxRadiusKm, Math.max(ZONE_LIMITS.minRadiusKm, input.radius_km ?? ZONE_LIMITS.defaultLineBufferKm)),
+      updated_at: now
+    };
+
+    let zone: AffectedZone;
+    if (!this.isRemote) {
+      const existing = input.id ? this.memoryZones.get(input.id) : undefined;
+      zone = {
+        ...fields,
+        id: existing?.id || `zone_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        created_by: existing?.created_by || createdBy,
+        created_at: existing?.created_at || now
+      };
+      this.memoryZones.set(zone.id, zone);
+    } else {
+      const { data, error } = input.id
+        ? await supabase.from('affected_zones').update(fields).eq('id', input.id).select().single()
+        : await supabase.from('affected_zones').insert([{ ...fields, created_by: createdBy }]).select().single();
+      if (error) throw error;
+      zone = data as AffectedZone;
+    }
+
+    this.notifyUpdated();
+    return zone;
+  }
+
+  /**
+   * Delete a zone; its alerts go with it
+   */
+  async deleteZone(id: string): Promise<void> {
+    if (!this.isRemote) {
+      this.memoryZones.delete(id);
+      this.memoryAlerts = this.memoryAlerts.filter(alert => alert.zoneId !== id);
+    } else {
+      const { error } = await supabase.from('affected_zones').delete().eq('id', id);
+      if (error) throw error;
+    }
+    this.notifyUpdated();
+  }
+
+  /**
+   * Reports inside a zone, newest first
+   */
+  async getReportsInZone(zone: AffectedZone, statuses?: string[]): Promise<ReportData[]> {
+    const candidates = await getFilteredReports({
+      bounds: getZoneBounds(zone),
+      statuses,
+      limit: ZONE_LIMITS.maxZoneReports
+    });
+    return candidates.filter(report => isPointInZone(zone, report.location));
+  }
+
+  /**
+   * Move the selected reports to a new status, one at a time so the workflow
+   * of each report is checked; reports that cannot move are listed with why
+   */
+  async updateReportsStatus(
+    reportIds: string[],
+    status: ReportStatus,
+    request: Omit<TransitionRequest, 'timestamp'>
+  ): Promise<BulkStatusResult> {
+    const result: BulkStatusResult = { updated: [], failed: [] };
+
+    for (const reportId of reportIds) {
+      try {
+        if (await updateReportStatus(reportId, status, request)) {
+          result.updated.push(reportId);
+        } else {
+          result.failed.push({ reportId, reason: 'Report could not be updated' });
+        }
+      } catch (error) {
+        result.failed.push({ reportId, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Users to notify for a zone: anyone who reported from inside it recently,
+   * and the owners of enabled saved places whose radius reaches into it
+   */
+  async findRecipients(zone: AffectedZone): Promise<ZoneRecipient[]> {
+    const recipients = new Map<string, ZoneRecipient>();
+    const recipientFor = (userId: string): ZoneRecipient => {
+      let recipient = recipients.get(userId);
+      if (!recipient) {
+        recipient = { userId, reportIds: [], placeNames: [] };
+        recipients.set(userId, recipient);
+      }
+      return recipient;
+    };
+
+    const since = new Date(Date.now() - ZONE_LIMITS.locationLookbackDays * 24 * 60 * 60 * 1000);
+    const recentReports = await getFilteredReports({
+      bounds: getZoneBounds(zone),
+      createdAfter: since.toISOString(),
+      limit: ZONE_LIMITS.maxZoneReports
+    });
+    for (const report of recentReports) {
+      // Anonymous reports cannot be traced back to a person
+      if (!report.user_id || report.user_id === 'anon_user') continue;
+      if (isPointInZone(zone, report.location)) {
+        recipientFor(report.user_id).reportIds.push(report.report_id);
+      }
+    }
+
+    // A place counts when the zone reaches into its radius, so look as far out as the largest radius
+    const places: Geofence[] = await geofenceService.listSavedPlacesInBounds(getZoneBounds(zone, GEOFENCE_LIMITS.maxRadiusKm));
+    for (const place of places) {
+      if (place.enabled && getZoneDistanceKm(zone, { lat: place.lat, lng: place.lng }) <= place.radius_km) {
+        recipientFor(place.user_id).placeNames.push(place.name);
+      }
+    }
+
+    return [...recipients.values()];
+  }
+
+  /**
+   * Issue an official alert for a zone and notify everyone inside it
+   * Notifications go through EnhancedNotificationService as hazard alerts, so
+   * each user's channel and do-not-disturb preferences still apply
+   */
+  async issueAlert(zone: AffectedZone, input: ZoneAlertInput, issuedBy: string): Promise<ZoneAlert> {
+    if (!input.title.trim() || !input.message.trim()) {
+      throw new AffectedZoneError('An alert needs a title and a message');
+    }
+    if (new Date(input.validUntil).getTime() <= Date.now()) {
+      throw new AffectedZoneError('An alert must be valid until a time in the future');
+    }
+
+    const recipients = await this.findRecipients(zone);
+    const alert: ZoneAlert = {
+      ...input,
+      id: `zone_alert_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      zoneId: zone.id,
+      title: input.title.trim(),
+      message: input.message.trim(),
+      actionInstructions: input.actionInstructions.map(line => line.trim()).filter(Boolean),
+      issuedBy,
+      issuedAt: new Date().toISOString(),
+      region: [zone.name],
+      coordinates: zoneToPolygon(zone),
+      recipients: recipients.length
+    };
+
+    if (!this.isRemote) {
+      this.memoryAlerts.unshift(alert);
+    } else {
+      const { data, error } = await supabase
+        .from('zone_alerts')
+        .insert([{
+          zone_id: alert.zoneId,
+          alert_type: alert.alertType,
+          priority: alert.priority,
+          category: alert.category,
+          title: alert.title,
+          message: alert.message,
+          action_instructions: alert.actionInstructions,
+          region: alert.region,
+          coordinates: alert.coordinates,
+          issued_by: alert.issuedBy,
+          issued_at: alert.issuedAt,
+          valid_until: alert.validUntil,
+          recipients: alert.recipients
+        }])
+        .select('id')
+        .single();
+      if (error) throw error;
+      alert.id = data.id;
+    }
+
+    const instructions = alert.actionInstructions.length > 0 ? ` ${alert.actionInstructions.join(' ')}` : '';
+    for (const recipient of recipients) {
+      const where = recipient.placeNames.length > 0 ? ` (${recipient.placeNames.join(', ')})` : '';
+      await createNotification(
+        {
+          user_id: recipient.userId,
+          title: `${alert.title} - ${zone.name}`,
+          message: `${alert.message}${where}${instructions} Valid until ${new Date(alert.validUntil).toLocaleString()}.`,
+          type: ALERT_NOTIFICATION_TYPE[alert.priority],
+          read: false,
+          channel: 'all'
+        },
+        { category: 'hazard_alert' }
+      );
+    }
+
+    return alert;
+  }
+
+  /**
+   * Alerts issued for a zone, or for every zone, newest first
+   */
+  async getAlerts(zoneId?: string): Promise<ZoneAlert[]> {
+    if (!this.isRemote) {
+      return this.memoryAlerts.filter(alert => !zoneId || alert.zoneId === zoneId);
+    }
+
+    let query = supabase.from('zone_alerts').select('*').order('issued_at', { ascending: false });
+    if (zoneId) query = query.eq('zone_id', zoneId);
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      id: row.id,
+      zoneId: row.zone_id,
+      alertType: row.alert_type,
+      priority: row.priority,
+      category: row.category,
+      title: row.title,
+      message: row.message,
+      actionInstructions: row.action_instructions || [],
+      region: row.region || [],
+      coordinates: row.coordinates,
+      issuedBy: row.issued_by,
+      issuedAt: row.issued_at,
+      validUntil: row.valid_until,
+      recipients: row.recipients
+    }));
+  }
+
+  private notifyUpdated(): void {
+    if (typeof window === 'undefined') return;
+    window.dispatchEvent(new CustomEvent(AFFECTED_ZONES_UPDATED_EVENT));
+  }
+}
+
+// Create singleton instance
+export const affectedZoneService = new AffectedZoneService();
@@ -0,0 +1,671 @@
+/**
+ * Coastal Tile Service
+ * Offline basemap packs so the map keeps working when connectivity drops during a storm
+ *
+ * Features:
+ * - Downloads the tiles for a coastal region and zoom range into IndexedDB
+ * - Regions follow the coastline with a buffer instead of a bounding box, which
+ *   keeps packs to a fraction of the size of the equivalent rectangle
+ * - Tiles shared by overlapping packs are stored once and kept until the last pack goes
+ * - Packs can be refreshed in place; only missing or outdated tiles are fetched again
+ * - CoastalTileLayer serves stored tiles first and falls back to the network
+ */
+
+import L from 'leaflet';
+import { isIndexedDBAvailable, openDatabase, promisifyRequest, transactionDone } from '../utils/indexedDb';
+
+export interface TileSource {
+  id: string;
+  name: string;
+  urlTemplate: string; // Leaflet-style {s}/{z}/{x}/{y} template
+  subdomains?: string[];
+  attribution: string;
+  maxZoom: number;
+}
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface CoastalRegion {
+  id: string;
+  name: string;
+  coastline?: Array<[number, number]>; // [lat, lng] waypoints along the shore
+  bufferKm?: number; // Distance either side of the coastline to cover
+  bounds?: TileBounds; // Used instead of a coastline for custom areas
+}
+
+export type TilePackStatus = 'downloading' | 'ready' | 'partial' | 'failed';
+
+export interface TilePack {
+  id: string;
+  region: CoastalRegion;
+  sourceIds: string[];
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number; // Tiles the pack should contain
+  storedTiles: number;
+  sizeBytes: number;
+  status: TilePackStatus;
+  createdAt: string;
+  updatedAt: string; // Last completed download or refresh
+  lastError?: string;
+}
+
+export interface TilePackProgress {
+  packId: string;
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+interface StoredTile {
+  key: string; // `${sourceId}/${z}/${x}/${y}`
+  sourceId: string;
+  blob: Blob;
+  size: number;
+  fetchedAt: string;
+  packIds: string[];
+}
+
+interface TileCoordinate {
+  sourceId: string;
+  z: number;
+  x: number;
+  y: number;
+}
+
+export const TILE_PACKS_UPDATED_EVENT = 'coastalTilePacksUpdated';
+
+// The two layers IssuesMap draws: imagery underneath, OpenStreetMap labels on top
+export const COASTAL_TILE_SOURCES: TileSource[] = [
+  {
+    id: 'esri-imagery',
+    name: 'Satellite imagery',
+    urlTemplate: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EGP, and the GIS User Community',
+    maxZoom: 18
+  },
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    urlTemplate: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    subdomains: ['a', 'b', 'c'],
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 19
+  }
+];
+
+// Coastal states and territories, traced roughly along the shoreline
+export const COASTAL_REGIONS: CoastalRegion[] = [
+  {
+    id: 'gujarat',
+    name: 'Gujarat coast',
+    bufferKm: 15,
+    coastline: [[23.0, 68.4], [22.3, 69.0], [21.6, 69.6], [20.9, 70.4], [20.7, 71.5], [21.2, 72.6], [20.4, 72.85]]
+  },
+  {
+    id: 'konkan',
+    name: 'Konkan and Goa coast',
+    bufferKm: 15,
+    coastline: [[20.4, 72.85], [19.08, 72.88], [18.0, 73.0], [17.0, 73.28], [16.0, 73.45], [15.5, 73.8], [14.9, 74.05]]
+  },
+  {
+    id: 'karnataka',
+    name: 'Karnataka coast',
+    bufferKm: 15,
+    coastline: [[14.9, 74.05], [14.3, 74.45], [13.3, 74.7], [12.85, 74.83]]
+  },
+  {
+    id: 'kerala',
+    name: 'Kerala coast',
+    bufferKm: 15,
+    coastline: [[12.85, 74.9], [11.25, 75.77], [10.5, 76.05], [9.93, 76.26], [8.9, 76.55], [8.08, 77.55]]
+  },
+  {
+    id: 'tamil_nadu',
+    name: 'Tamil Nadu and Puducherry coast',
+    bufferKm: 15,
+    coastline: [[8.08, 77.55], [8.8, 78.15], [9.28, 79.3], [10.3, 79.85], [11.0, 79.85], [11.93, 79.83], [13.08, 80.29], [13.55, 80.2]]
+  },
+  {
+    id: 'andhra',
+    name: 'Andhra Pradesh coast',
+    bufferKm: 15,
+    coastline: [[13.55, 80.2], [14.45, 80.15], [15.5, 80.3], [16.0, 81.15], [16.55, 82.2], [17.0, 82.3], [17.69, 83.22], [18.3, 84.0], [18.9, 84.6]]
+  },
+  {
+    id: 'odisha',
+    name: 'Odisha coast',
+    bufferKm: 15,
+    coastline: [[18.9, 84.6], [19.3, 84.95], [19.81, 85.83], [20.27, 86.7], [20.8, 86.95], [21.5, 87.1]]
+  },
+  {
+    id: 'west_bengal',
+    name: 'West Bengal coast',
+    bufferKm: 15,
+    coastline: [[21.6, 87.5], [21.65, 88.0], [21.6, 88.6], [21.65, 89.1]]
+  },
+  {
+    id: 'andaman',
+    name: 'Andaman Islands',
+    bufferKm: 20,
+    coastline: [[13.6, 92.9], [12.5, 92.75], [11.67, 92.74], [10.6, 92.55]]
+  }
+];
+
+export const TILE_PACK_LIMITS = {
+  maxTilesPerPack: 10000, // Bulk downloads from public tile servers must stay modest
+  maxZoom: 15,
+  defaultMinZoom: 8,
+  defaultMaxZoom: 13,
+  averageTileBytes: 20 * 1024, // For size estimates before download
+  staleAfterMs: 30 * 24 * 60 * 60 * 1000 // Tiles older than this are fetched again on refresh
+};
+
+const TILES_DB_NAME = 'jalBandhu-tiles';
+const TILES_DB_VERSION = 1;
+const PACKS_STORE = 'packs';
+const TILES_STORE = 'tiles';
+const DOWNLOAD_CONCURRENCY = 4;
+const PROGRESS_SAVE_INTERVAL = 50; // Persist pack progress every N tiles
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+const lngToTileX = (lng: number, z: number): number =>
+  Math.floor((lng + 180) / 360 * Math.pow(2, z));
+
+const latToTileY = (lat: number, z: number): number => {
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const radians = toRadians(clamped);
+  return Math.floor((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2 * Math.pow(2, z));
+};
+
+const tileXToLng = (x: number, z: number): number => x / Math.pow(2, z) * 360 - 180;
+
+const tileYToLat = (y: number, z: number): number => {
+  const n = Math.PI - 2 * Math.PI * y / Math.pow(2, z);
+  return 180 / Math.PI * Math.atan(0.5 * (Math.exp(n) - Math.exp(-n)));
+};
+
+/**
+ * Distance in km from a point to a polyline, on a local equirectangular projection
+ * Accurate enough for deciding which tiles a coastal buffer touches
+ */
+const distanceToPolylineKm = (lat: number, lng: number, line: Array<[number, number]>): number => {
+  const scaleX = Math.cos(toRadians(lat)) * EARTH_RADIUS_KM * Math.PI / 180;
+  const scaleY = EARTH_RADIUS_KM * Math.PI / 180;
+  let best = Infinity;
+
+  for (let i = 0; i < line.length; i++) {
+    const [aLat, aLng] = line[i];
+    const [bLat, bLng] = line[Math.min(i + 1, line.length - 1)];
+    const ax = (aLng - lng) * scaleX, ay = (aLat - lat) * scaleY;
+    const bx = (bLng - lng) * scaleX, by = (bLat - lat) * scaleY;
+    const dx = bx - ax, dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+};
+
+/**
+ * Bounding box of a region, including its coastline buffer
+ */
+export const getRegionBounds = (region: CoastalRegion): TileBounds => {
+  if (!region.coastline || region.coastline.length === 0) {
+    if (!region.bounds) {
+      throw new Error(`Region ${region.id} has neither a coastline nor bounds`);
+    }
+    return region.bounds;
+  }
+
+  const lats = region.coastline.map(([lat]) => lat);
+  const lngs = region.coastline.map(([, lng]) => lng);
+  const bufferLat = (region.bufferKm || 0) / 111.32;
+  const bufferLng = bufferLat / Math.cos(toRadians(Math.max(...lats.map(Math.abs))));
+  return {
+    north: Math.max(...lats) + bufferLat,
+    south: Math.min(...lats) - bufferLat,
+    east: Math.max(...lngs) + bufferLng,
+    west: Math.min(...lngs) - bufferLng
+  };
+};
+
+/**
+ * Tiles covering a region at one zoom level
+ * For coastline regions a tile is kept when any part of it may lie within the buffer
+ */
+const getRegionTiles = (region: CoastalRegion, z: number): Array<{ x: number; y: number }> => {
+  const bounds = getRegionBounds(region);
+  const minX = lngToTileX(bounds.west, z), maxX = lngToTileX(bounds.east, z);
+  const minY = latToTileY(bounds.north, z), maxY = latToTileY(bounds.south, z);
+  const tiles: Array<{ x: number; y: number }> = [];
+
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      if (region.coastline && region.coastline.length > 0) {
+        const north = tileYToLat(y, z), south = tileYToLat(y + 1, z);
+        const west = tileXToLng(x, z), east = tileXToLng(x + 1, z);
+        const centerLat = (north + south) / 2;
+        const halfDiagonalKm = Math.hypot(
+          (east - west) * Math.cos(toRadians(centerLat)) * 111.32,
+          (north - south) * 111.32
+        ) / 2;
+        const distance = distanceToPolylineKm(centerLat, (west + east) / 2, region.coastline);
+        if (distance > (region.bufferKm || 0) + halfDiagonalKm) {
+          continue;
+        }
+      }
+      tiles.push({ x, y });
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Number of tiles a pack would contain, per source
+ */
+export const estimateTileCount = (region: CoastalRegion, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    count += getRegionTiles(region, z).length;
+  }
+  return count;
+};
+
+const tileKey = (sourceId: string, z: number, x: number, y: number) => `${sourceId}/${z}/${x}/${y}`;
+
+const getSource = (sourceId: string): TileSource => {
+  const source = COASTAL_TILE_SOURCES.find(candidate => candidate.id === sourceId);
+  if (!source) {
+    throw new Error(`Unknown tile source: ${sourceId}`);
+  }
+  return source;
+};
+
+const buildTileUrl = (source: TileSource, z: number, x: number, y: number): string => {
+  const subdomains = source.subdomains || [];
+  const subdomain = subdomains.length > 0 ? subdomains[(x + y) % subdomains.length] : '';
+  return source.urlTemplate
+    .replace('{s}', subdomain)
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
+};
+
+const isStale = (fetchedAt: string) =>
+  Date.now() - new Date(fetchedAt).getTime() > TILE_PACK_LIMITS.staleAfterMs;
+
+/**
+ * Whether a pack's tiles are due for a refresh
+ */
+export const isPackStale = (pack: TilePack): boolean => isStale(pack.updatedAt);
+
+class CoastalTileService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private activeDownloads = new Map<string, AbortController>();
+
+  /**
+   * All stored packs, newest first
+   * A pack left 'downloading' by a closed tab is reported as partial
+   */
+  async listPacks(): Promise<TilePack[]> {
+    if (!isIndexedDBAvailable()) return [];
+    const db = await this.getDb();
+    const store = db.transaction(PACKS_STORE, 'readonly').objectStore(PACKS_STORE);
+    const packs = (await promisifyRequest(store.getAll())) as TilePack[];
+
+    return packs
+      .map(pack => pack.status === 'downloading' && !this.activeDownloads.has(pack.id)
+        ? { ...pack, status: 'partial' as const }
+        : pack)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  /**
+   * Download a new pack for a region and zoom range
+   * Resolves when the download finishes or is cancelled; progress is reported
+   * through the callback and the TILE_PACKS_UPDATED_EVENT window event
+   */
+  async downloadPack(
+    region: CoastalRegion,
+    options: { minZoom?: number; maxZoom?: number; sourceIds?: string[] } = {},
+    onProgress?: (progress: TilePackProgress) => void
+  ): Promise<TilePack> {
+    const minZoom = options.minZoom ?? TILE_PACK_LIMITS.defaultMinZoom;
+    const maxZoom = Math.min(options.maxZoom ?? TILE_PACK_LIMITS.defaultMaxZoom, TILE_PACK_LIMITS.maxZoom);
+    const sourceIds = options.sourceIds || COASTAL_TILE_SOURCES.map(source => source.id);
+    sourceIds.forEach(getSource);
+
+    if (minZoom > maxZoom) {
+      throw new Error('Minimum zoom must not exceed maximum zoom');
+    }
+    const tileCount = estimateTileCount(region, minZoom, maxZoom) * sourceIds.length;
+    if (tileCount > TILE_PACK_LIMITS.maxTilesPerPack) {
+      throw new Error(
+        `This pack would need ${tileCount} tiles; the limit is ${TILE_PACK_LIMITS.maxTilesPerPack}. Choose a lower maximum zoom or a smaller area.`
+      );
+    }
+
+    const now = new Date().toISOString();
+    const pack: TilePack = {
+      id: `pack_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      region,
+      sourceIds,
+      minZoom,
+      maxZoom,
+      tileCount,
+      storedTiles: 0,
+      sizeBytes: 0,
+      status: 'downloading',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    return this.fetchPackTiles(pack, false, onProgress);
+  }
+
+  /**
+   * Fetch missing and outdated tiles for an existing pack
+   */
+  async refreshPack(packId: string, onProgress?: (progress: TilePackProgress) => void): Promise<TilePack> {
+    const pack = await this.getPack(packId);
+    if (!pack) {
+      throw new Error(`Tile pack ${packId} not found`);
+    }
+    if (this.activeDownloads.has(packId)) {
+      throw new Error('This pack is already downloading');
+    }
+    return this.fetchPackTiles({ ...pack, status: 'downloading', lastError: undefined }, true, onProgress);
+  }
+
+  /**
+   * Stop a running download; tiles fetched so far are kept
+   */
+  cancelDownload(packId: string): void {
+    this.activeDownloads.get(packId)?.abort();
+  }
+
+  isDownloading(packId: string): boolean {
+    return this.activeDownloads.has(packId);
+  }
+
+  /**
+   * Delete a pack and every tile no other pack still uses
+   */
+  async deletePack(packId: string): Promise<void> {
+    this.cancelDownload(packId);
+    if (!isIndexedDBAvailable()) return;
+
+    const db = await this.getDb();
+    const transaction = db.transaction([PACKS_STORE, TILES_STORE], 'readwrite');
+    transaction.objectStore(PACKS_STORE).delete(packId);
+
+    const cursorRequest = transaction.objectStore(TILES_STORE).index('packIds').openCursor(IDBKeyRange.only(packId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const tile = cursor.value as StoredTile;
+      const packIds = tile.packIds.filter(id => id !== packId);
+      if (packIds.length === 0) {
+        cursor.delete();
+      } else {
+        cursor.update({ ...tile, packIds });
+      }
+      cursor.continue();
+    };
+
+    await transactionDone(transaction);
+    this.notify(packId);
+  }
+
+  /**
+   * A stored tile, or null when it has not been downloaded
+   */
+  async getTile(sourceId: string, z: number, x: number, y: number): Promise<Blob | null> {
+    if (!isIndexedDBAvailable()) return null;
+    const db = await this.getDb();
+    const store = db.transaction(TILES_STORE, 'readonly').objectStore(TILES_STORE);
+    const tile = (await promisifyRequest(store.get(tileKey(sourceId, z, x, y)))) as StoredTile | undefined;
+    return tile ? tile.blob : null;
+  }
+
+  /**
+   * A tile for drawing outside Leaflet (e.g. exported map frames): the stored
+   * copy when downloaded, otherwise fetched from the source; null when neither
+   * is available
+   */
+  async loadTile(sourceId: string, z: number, x: number, y: number): Promise<Blob | null> {
+    const stored = await this.getTile(sourceId, z, x, y).catch(() => null);
+    if (stored) return stored;
+
+    try {
+      const response = await fetch(buildTileUrl(getSource(sourceId), z, x, y));
+      return response.ok ? await response.blob() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Browser storage used and available, where the browser reports it
+   */
+  async getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+
+  private async fetchPackTiles(
+    pack: TilePack,
+    refresh: boolean,
+    onProgress?: (progress: TilePackProgress) => void
+  ): Promise<TilePack> {
+    if (!isIndexedDBAvailable()) {
+      throw new Error('Offline map packs need IndexedDB, which this browser does not provide');
+    }
+
+    const controller = new AbortController();
+    this.activeDownloads.set(pack.id, controller);
+
+    const coordinates: TileCoordinate[] = [];
+    for (const sourceId of pack.sourceIds) {
+      for (let z = pack.minZoom; z <= pack.maxZoom; z++) {
+        getRegionTiles(pack.region, z).forEach(({ x, y }) => coordinates.push({ sourceId, z, x, y }));
+      }
+    }
+
+    let current: TilePack = { ...pack, tileCount: coordinates.length };
+    await this.savePack(current);
+
+    let completed = 0;
+    let failed = 0;
+    let storedTiles = 0;
+    let sizeBytes = 0;
+    let lastError: string | undefined;
+    let next = 0;
+
+    const worker = async () => {
+      while (next < coordinates.length && !controller.signal.aborted) {
+        const coordinate = coordinates[next++];
+        try {
+          const size = await this.storeTile(pack.id, coordinate, refresh, controller.signal);
+          storedTiles++;
+          sizeBytes += size;
+        } catch (error) {
+          if (controller.signal.aborted) break;
+          failed++;
+          lastError = error instanceof Error ? error.message : 'Tile download failed';
+        }
+        completed++;
+        onProgress?.({ packId: pack.id, completed, total: coordinates.length, failed });
+
+        if (completed % PROGRESS_SAVE_INTERVAL === 0) {
+          current = { ...current, storedTiles, sizeBytes };
+          await this.savePack(current);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+    } finally {
+      this.activeDownloads.delete(pack.id);
+    }
+
+    const finished = storedTiles === coordinates.length;
+    current = {
+      ...current,
+      storedTiles,
+      sizeBytes,
+      status: finished ? 'ready' : storedTiles > 0 ? 'partial' : 'failed',
+      updatedAt: finished ? new Date().toISOString() : current.updatedAt,
+      lastError: controller.signal.aborted ? 'Download cancelled' : lastError
+    };
+    await this.savePack(current);
+    return current;
+  }
+
+  /**
+   * Store one tile for a pack and return its size
+   * Tiles already stored by this or another pack are reused unless outdated
+   */
+  private async storeTile(packId: string, coordinate: TileCoordinate, refresh: boolean, signal: AbortSignal): Promise<number> {
+    const { sourceId, z, x, y } = coordinate;
+    const key = tileKey(sourceId, z, x, y);
+    const db = await this.getDb();
+    const existing = (await promisifyRequest(
+      db.transaction(TILES_STORE, 'readonly').objectStore(TILES_STORE).get(key)
+    )) as StoredTile | undefined;
+
+    let tile: StoredTile;
+    if (existing && !(refresh && isStale(existing.fetchedAt))) {
+      if (existing.packIds.includes(packId)) {
+        return existing.size;
+      }
+      tile = { ...existing, packIds: [...existing.packIds, packId] };
+    } else {
+      const response = await fetch(buildTileUrl(getSource(sourceId), z, x, y), { signal });
+      if (!response.ok) {
+        throw new Error(`Tile ${key} returned HTTP ${response.status}`);
+      }
+      const blob = await response.blob();
+      tile = {
+        key,
+        sourceId,
+        blob,
+        size: blob.size,
+        fetchedAt: new Date().toISOString(),
+        packIds: existing ? Array.from(new Set([...existing.packIds, packId])) : [packId]
+      };
+    }
+
+    const transaction = db.transaction(TILES_STORE, 'readwrite');
+    transaction.objectStore(TILES_STORE).put(tile);
+    await transactionDone(transaction);
+    return tile.size;
+  }
+
+  // --- Storage -------------------------------------------------------------
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(TILES_DB_NAME, TILES_DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          db.createObjectStore(PACKS_STORE, { keyPath: 'id' });
+          const tiles = db.createObjectStore(TILES_STORE, { keyPath: 'key' });
+          tiles.createIndex('packIds', 'packIds', { multiEntry: true });
+        }
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getPack(packId: string): Promise<TilePack | null> {
+    if (!isIndexedDBAvailable()) return null;
+    const db = await this.getDb();
+    const store = db.transaction(PACKS_STORE, 'readonly').objectStore(PACKS_STORE);
+    return ((await promisifyRequest(store.get(packId))) as TilePack | undefined) || null;
+  }
+
+  private async savePack(pack: TilePack): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(PACKS_STORE, 'readwrite');
+    transaction.objectStore(PACKS_STORE).put(pack);
+    await transactionDone(transaction);
+    this.notify(pack.id, pack);
+  }
+
+  private notify(packId: string, pack?: TilePack): void {
+    if (typeof window === 'undefined') return;
+    window.dispatchEvent(new CustomEvent(TILE_PACKS_UPDATED_EVENT, {
+      detail: { packId, pack }
+    }));
+  }
+}
+
+// Create singleton instance
+export const coastalTileService = new CoastalTileService();
+
+/**
+ * Leaflet tile layer that draws stored pack tiles and fetches anything else
+ * from the network as usual
+ */
+export class CoastalTileLayer extends L.TileLayer {
+  private sourceId: string;
+
+  constructor(sourceId: string, options: L.TileLayerOptions = {}) {
+    const source = getSource(sourceId);
+    super(source.urlTemplate, {
+      attribution: source.attribution,
+      maxZoom: source.maxZoom,
+      subdomains: source.subdomains || 'abc',
+      ...options
+    });
+    this.sourceId = sourceId;
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+
+    const loadFromNetwork = () => {
+      tile.onload = () => done(undefined, tile);
+      tile.onerror = () => done(new Error(`Failed to load tile ${coords.z}/${coords.x}/${coords.y}`), tile);
+      tile.src = this.getTileUrl(coords);
+    };
+
+    coastalTileService.getTile(this.sourceId, coords.z, coords.x, coords.y)
+      .then(blob => {
+        if (!blob) {
+          loadFromNetwork();
+          return;
+        }
+        const objectUrl = URL.createObjectURL(blob);
+        tile.onload = () => {
+          URL.revokeObjectURL(objectUrl);
+          done(undefined, tile);
+        };
+        tile.onerror = () => {
+          URL.revokeObjectURL(objectUrl);
+          loadFromNetwork();
+        };
+        tile.src = objectUrl;
+      })
+      .catch(loadFromNetwork);
+
+    return tile;
+  }
+}
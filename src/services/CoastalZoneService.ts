@@ -0,0 +1,111 @@
+/**
+ * Coastal Zone Service
+ * Classifies locations against the bundled coastal district and sea zone polygons
+ *
+ * Every report gets the zone its location falls in (reports.coastal_zone), so
+ * a fishing village or a boat at sea is filed under its district or sea zone
+ * instead of the nearest big city. Reports saved before zones were assigned
+ * are classified on the fly when filtering, until they are backfilled (see
+ * src/scripts/backfillCoastalZones.ts for Supabase).
+ */
+
+import { COASTAL_ZONES, type CoastalZoneKind, type CoastalZoneProperties } from '../data/coastalZones';
+import { geospatialUtils } from './GeospatialUtils';
+
+export type CoastalZone = CoastalZoneProperties;
+export type { CoastalZoneKind };
+
+export interface CoastalZoneFilter {
+  state?: string;
+  district?: string;
+  kinds?: CoastalZoneKind[];
+}
+
+interface IndexedZone {
+  zone: CoastalZone;
+  rings: number[][][];
+  bounds: { north: number; south: number; east: number; west: number };
+}
+
+// Bounding boxes first, so most lookups only run ray casting on a few polygons
+const INDEXED_ZONES: IndexedZone[] = COASTAL_ZONES.features.map(feature => {
+  const ring = feature.geometry.coordinates[0];
+  return {
+    zone: feature.properties,
+    rings: feature.geometry.coordinates,
+    bounds: {
+      north: Math.max(...ring.map(([, lat]) => lat)),
+      south: Math.min(...ring.map(([, lat]) => lat)),
+      east: Math.max(...ring.map(([lng]) => lng)),
+      west: Math.min(...ring.map(([lng]) => lng))
+    }
+  };
+});
+
+const ZONES_BY_ID = new Map(INDEXED_ZONES.map(indexed => [indexed.zone.id, indexed.zone]));
+
+/**
+ * The most specific zone containing a location, or null inland and far out at sea
+ * District land strips win over coastal waters, which win over offshore zones
+ */
+export const classifyCoastalZone = (lat: number, lng: number): CoastalZone | null => {
+  const coordinate = { latitude: lat, longitude: lng };
+  if (!geospatialUtils.isValidCoordinate(coordinate)) {
+    return null;
+  }
+
+  const match = INDEXED_ZONES.find(indexed =>
+    geospatialUtils.isWithinBoundingBox(coordinate, indexed.bounds) &&
+    geospatialUtils.isPointInPolygon(coordinate, indexed.rings)
+  );
+  return match ? match.zone : null;
+};
+
+export const getCoastalZone = (zoneId: string): CoastalZone | null => ZONES_BY_ID.get(zoneId) || null;
+
+/**
+ * Bounding box of a zone's polygon, e.g. for querying sensors in it
+ */
+export const getCoastalZoneBounds = (zoneId: string): IndexedZone['bounds'] | null =>
+  INDEXED_ZONES.find(indexed => indexed.zone.id === zoneId)?.bounds || null;
+
+/**
+ * Zones matching a filter, in dataset order
+ * A district filter covers both the district's land strip and its coastal waters
+ */
+export const listCoastalZones = (filter: CoastalZoneFilter = {}): CoastalZone[] =>
+  INDEXED_ZONES
+    .map(indexed => indexed.zone)
+    .filter(zone =>
+      (filter.state === undefined || zone.state.toLowerCase() === filter.state.toLowerCase()) &&
+      (filter.district === undefined || zone.district?.toLowerCase() === filter.district.toLowerCase()) &&
+      (filter.kinds === undefined || filter.kinds.includes(zone.kind))
+    );
+
+/**
+ * Zone ids for a filter, for querying reports.coastal_zone
+ */
+export const getCoastalZoneIds = (filter: CoastalZoneFilter): string[] =>
+  listCoastalZones(filter).map(zone => zone.id);
+
+/**
+ * Place name to show for a location in a zone when no town is known
+ */
+export const getZonePlaceName = (zone: CoastalZone): string =>
+  zone.kind === 'district' ? zone.district || zone.name : zone.name;
+
+/**
+ * A report's zone: the stored one, or classified from its location for older reports
+ */
+export const resolveReportZone = (report: {
+  coastal_zone?: string | null;
+  location?: { lat: number; lng: number } | null;
+}): string | null => {
+  if (report.coastal_zone) {
+    return report.coastal_zone;
+  }
+  if (!report.location || typeof report.location.lat !== 'number' || typeof report.location.lng !== 'number') {
+    return null;
+  }
+  return classifyCoastalZone(report.location.lat, report.location.lng)?.id || null;
+};
@@ -0,0 +1,704 @@
+/**
+ * Data Mining Pipeline Service
+ * Turns live reports into the results the data mining dashboard shows
+ *
+ * A run loads the reports of the last week, finds hotspots with ST-DBSCAN
+ * (SpatialDataMiningService) and matches them to the previous run's, so each
+ * hotspot keeps its id from run to run and every step of its life - born, grew,
+ * merged, split, decayed, closed - lands in hotspot_evolution. Admins are
+ * notified when a hotspot's risk level rises. The report texts, plus social
+ * media posts when they are stored, are mined for keywords, topics and crisis
+ * indicators (TextMiningService). Results are written to the tables of
+ * database/data-mining-schema.sql (and database/add_hotspot_tracking.sql) when
+ * reports live in Supabase, otherwise kept in memory. Hotspot counts over time
+ * feed the hourly forecasts of HazardForecastService. Every admin session runs
+ * the schedule, so a session claims each run through claim_data_mining_run
+ * (database/add_data_mining_schedule.sql) and only one runs it per interval.
+ */
+
+import { supabase } from './supabase';
+import { getReportRepository } from './ReportRepository';
+import { toSpatialDataPoint } from './MapDataService';
+import spatialDataMiningService, {
+  type HotspotFootprint,
+  type HotspotLifecycleEvent,
+  type TrackedHotspot
+} from './SpatialDataMiningService';
+import { TextMiningService } from './TextMiningService';
+import { createNotification } from './EnhancedNotificationService';
+
+export type MiningRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface MinedHotspot {
+  hotspotId: string; // Stable across runs
+  clusterId: number; // ST-DBSCAN cluster number within its run
+  center: [number, number]; // [lng, lat]
+  reportCount: number;
+  riskScore: number; // 0-1
+  riskLevel: MiningRiskLevel;
+  avgSeverity: number;
+  spatialDensity: number;
+  temporalIntensity: number;
+  hazardTypes: string[];
+  reportIds: string[];
+  boundingBox: number[][];
+  detectedAt: string;
+}
+
+/**
+ * One step in a hotspot's history; 'tracked' when it carried on unchanged
+ */
+export interface HotspotEvolutionEntry {
+  hotspotId: string;
+  clusterId: number;
+  event: HotspotLifecycleEvent | 'tracked';
+  relatedHotspotIds: string[]; // Merged in, split off, or absorbed into
+  previousCenter: [number, number] | null;
+  currentCenter: [number, number]; // Last known centre once closed
+  distanceKm: number;
+  direction: string; // Compass point, e.g. 'NE'
+  reportCount: number;
+  previousReportCount: number | null;
+  riskScore: number; // 0-1
+  riskLevel: MiningRiskLevel;
+  riskScoreChange: number; // Since the previous run
+  escalated: boolean; // Risk level rose since the previous run
+  recordedAt: string;
+}
+
+export interface MinedKeyword {
+  term: string;
+  tfidf: number;
+  frequency: number;
+}
+
+export interface TextMiningSnapshot {
+  analysisId: string;
+  keywords: MinedKeyword[];
+  topics: Array<{ topicId: number; keywords: string[]; postCount: number }>;
+  crisisKeywords: Array<{ term: string; count: number }>; // Hazard types mentioned, most frequent first
+  panicScore: number; // Mean over the analysed texts, 0-1
+  sentimentVelocity: number; // Change in average sentiment per day over the window
+  exclamationDensity: number; // Exclamation marks per text
+  totalPostsAnalyzed: number;
+  analyzedAt: string;
+}
+
+export interface DataMiningSnapshot {
+  hotspots: MinedHotspot[];
+  evolution: HotspotEvolutionEntry[]; // What happened to each hotspot in the latest run
+  textMining: TextMiningSnapshot | null;
+  lastComputedAt: string | null; // When the pipeline last ran; null before the first run
+}
+
+export interface DataMiningRunResult {
+  computedAt: string;
+  reportsAnalyzed: number;
+  postsAnalyzed: number;
+  hotspotCount: number;
+  escalations: number;
+  durationMs: number;
+}
+
+export const DATA_MINING_SETTINGS = {
+  lookbackDays: 7,
+  evolutionIntervalHours: 24,
+  maxReports: 2000,
+  maxSocialPosts: 500,
+  topKeywords: 30,
+  scheduleIntervalMs: 6 * 60 * 60 * 1000, // Scheduled runs happen when the last run finished longer ago
+  scheduleCheckMs: 15 * 60 * 1000, // How often admin sessions try to claim a scheduled run
+  runLeaseMs: 60 * 60 * 1000 // A claimed run that never finishes (a closed tab) blocks others this long
+};
+
+export const DATA_MINING_UPDATED_EVENT = 'dataMiningUpdated';
+export const HOTSPOT_ESCALATED_EVENT = 'hotspotEscalated'; // detail: HotspotEvolutionEntry[]
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+const RISK_LEVEL_RANK: Record<MiningRiskLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/**
+ * Risk level for a 0-1 risk score
+ */
+export const getMiningRiskLevel = (riskScore: number): MiningRiskLevel => {
+  if (riskScore < 0.3) return 'low';
+  if (riskScore < 0.6) return 'medium';
+  if (riskScore < 0.8) return 'high';
+  return 'critical';
+};
+
+const toCompassPoint = (bearing: number): string => COMPASS_POINTS[Math.round(bearing / 45) % 8];
+
+const toMinedHotspot = (hotspot: TrackedHotspot, detectedAt: string): MinedHotspot => {
+  const riskScore = hotspot.riskScore / 100; // detectHotspots scores 0-100
+  return {
+    hotspotId: hotspot.hotspotId,
+    clusterId: hotspot.clusterId,
+    center: hotspot.centroid,
+    reportCount: hotspot.reportCount,
+    riskScore,
+    riskLevel: getMiningRiskLevel(riskScore),
+    avgSeverity: hotspot.averageSeverity,
+    spatialDensity: hotspot.spatialDensity,
+    temporalIntensity: hotspot.temporalIntensity,
+    hazardTypes: hotspot.hazardTypes,
+    reportIds: hotspot.reportIds,
+    boundingBox: hotspot.boundingBox,
+    detectedAt
+  };
+};
+
+const toFootprint = (hotspot: MinedHotspot): HotspotFootprint => ({
+  hotspotId: hotspot.hotspotId,
+  centroid: hotspot.center,
+  reportCount: hotspot.reportCount,
+  reportIds: hotspot.reportIds,
+  boundingBox: hotspot.boundingBox
+});
+
+const toEvolutionEntry = (
+  event: HotspotEvolutionEntry['event'],
+  relatedHotspotIds: string[],
+  previous: MinedHotspot | undefined,
+  current: MinedHotspot | undefined,
+  recordedAt: string
+): HotspotEvolutionEntry => {
+  const latest = (current || previous)!;
+  const moved = previous && current
+    ? spatialDataMiningService.describeMovement(previous.center, current.center)
+    : { distanceKm: 0, bearing: 0 };
+  return {
+    hotspotId: latest.hotspotId,
+    clusterId: latest.clusterId,
+    event,
+    relatedHotspotIds,
+    previousCenter: previous?.center || null,
+    currentCenter: latest.center,
+    distanceKm: moved.distanceKm,
+    direction: toCompassPoint(moved.bearing),
+    reportCount: current?.reportCount ?? 0,
+    previousReportCount: previous?.reportCount ?? null,
+    riskScore: current?.riskScore ?? 0,
+    riskLevel: current?.riskLevel || 'low',
+    riskScoreChange: (current?.riskScore ?? 0) - (previous?.riskScore ?? 0),
+    escalated: !!previous && !!current && RISK_LEVEL_RANK[current.riskLevel] > RISK_LEVEL_RANK[previous.riskLevel],
+    recordedAt
+  };
+};
+
+// A hotspot_evolution row (database/add_hotspot_tracking.sql)
+interface HotspotEvolutionRow {
+  hotspot_id: string | null;
+  cluster_id: number;
+  event_type: HotspotEvolutionEntry['event'] | null;
+  related_hotspot_ids: string[] | null;
+  previous_center_lat: number | null;
+  previous_center_lng: number | null;
+  current_center_lat: number;
+  current_center_lng: number;
+  movement_distance_km: number | null;
+  movement_direction: string | null;
+  report_count: number | null;
+  previous_report_count: number | null;
+  risk_score: number | null;
+  risk_level: MiningRiskLevel | null;
+  risk_score_change: number | null;
+  escalated: boolean | null;
+  timestamp: string;
+}
+
+const toEvolutionEntryFromRow = (row: HotspotEvolutionRow): HotspotEvolutionEntry => ({
+  hotspotId: row.hotspot_id || `cluster_${row.cluster_id}`,
+  clusterId: row.cluster_id,
+  event: row.event_type || 'tracked',
+  relatedHotspotIds: row.related_hotspot_ids || [],
+  previousCenter: row.previous_center_lat === null || row.previous_center_lng === null
+    ? null
+    : [row.previous_center_lng, row.previous_center_lat],
+  currentCenter: [row.current_center_lng, row.current_center_lat],
+  distanceKm: row.movement_distance_km ?? 0,
+  direction: row.movement_direction || '',
+  reportCount: row.report_count ?? 0,
+  previousReportCount: row.previous_report_count,
+  riskScore: row.risk_score ?? 0,
+  riskLevel: row.risk_level || 'low',
+  riskScoreChange: row.risk_score_change ?? 0,
+  escalated: !!row.escalated,
+  recordedAt: row.timestamp
+});
+
+class DataMiningPipelineService {
+  private memorySnapshot: DataMiningSnapshot | null = null; // Used when reports are stored locally
+  private memoryEvolution: HotspotEvolutionEntry[] = [];
+  private memoryHotspotHistory: MinedHotspot[] = []; // Hotspots of every run
+  private memoryRunClaim: { runningUntil: number | null; finishedAt: number | null } = { runningUntil: null, finishedAt: null };
+  private running: Promise<DataMiningRunResult | null> | null = null;
+
+  private get isRemote(): boolean {
+    return getReportRepository().type === 'supabase';
+  }
+
+  /**
+   * Run the pipeline now; a call while a run is in progress in this session
+   * joins that run, and fails while another session runs one
+   */
+  async runPipeline(): Promise<DataMiningRunResult> {
+    const result = await this.startRun(0);
+    if (!result) {
+      throw new Error('Data mining is running in another admin session; try again in a few minutes');
+    }
+    return result;
+  }
+
+  get isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Run the pipeline whenever the last run finished longer ago than the
+   * schedule interval, checking once now and then every few minutes; returns a
+   * stop function. Whichever admin session claims a run does it, the others skip it
+   */
+  startSchedule(intervalMs: number = DATA_MINING_SETTINGS.scheduleIntervalMs): () => void {
+    const runIfStale = async () => {
+      try {
+        if (!this.running) await this.startRun(intervalMs);
+      } catch (error) {
+        console.error('Scheduled data mining run failed:', error);
+      }
+    };
+
+    runIfStale();
+    const timer = setInterval(runIfStale, Math.min(intervalMs, DATA_MINING_SETTINGS.scheduleCheckMs));
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * The results of the latest run
+   */
+  async getSnapshot(): Promise<DataMiningSnapshot> {
+    if (!this.isRemote) {
+      return this.memorySnapshot || { hotspots: [], evolution: [], textMining: null, lastComputedAt: null };
+    }
+
+    const textMining = await this.loadLatestTextMining();
+    const lastComputedAt = textMining?.analyzedAt || null;
+    if (!lastComputedAt) {
+      return { hotspots: [], evolution: [], textMining: null, lastComputedAt };
+    }
+
+    // Every run writes all its rows with the run's timestamp
+    const [hotspotResult, evolutionResult] = await Promise.all([
+      supabase.from('data_mining_hotspots').select('*').eq('detection_timestamp', lastComputedAt).order('risk_score', { ascending: false }),
+      supabase.from('hotspot_evolution').select('*').eq('timestamp', lastComputedAt)
+    ]);
+    if (hotspotResult.error) throw hotspotResult.error;
+    if (evolutionResult.error) throw evolutionResult.error;
+
+    return {
+      hotspots: (hotspotResult.data || []).map(row => ({
+        hotspotId: row.hotspot_id || `cluster_${row.cluster_id}`, // Rows from before hotspot tracking
+        clusterId: row.cluster_id,
+        center: [row.center_lng, row.center_lat] as [number, number],
+        reportCount: row.report_count,
+        riskScore: row.risk_score,
+        riskLevel: row.risk_level,
+        avgSeverity: row.avg_severity ?? 0,
+        spatialDensity: row.spatial_density ?? 0,
+        temporalIntensity: row.temporal_intensity ?? 0,
+        hazardTypes: row.hazard_types || [],
+        reportIds: row.report_ids || [],
+        boundingBox: row.bounding_box || [],
+        detectedAt: row.detection_timestamp
+      })),
+      evolution: (evolutionResult.data || []).map(toEvolutionEntryFromRow),
+      textMining,
+      lastComputedAt
+    };
+  }
+
+  /**
+   * Centre and run time of every hotspot detected since a time, oldest run first
+   */
+  async getHotspotDetections(since: Date): Promise<Array<{ center: [number, number]; detectedAt: string }>> {
+    if (!this.isRemote) {
+      return this.memoryHotspotHistory
+        .filter(hotspot => new Date(hotspot.detectedAt) >= since)
+        .map(hotspot => ({ center: hotspot.center, detectedAt: hotspot.detectedAt }));
+    }
+
+    const { data, error } = await supabase
+      .from('data_mining_hotspots')
+      .select('center_lat, center_lng, detection_timestamp')
+      .gte('detection_timestamp', since.toISOString())
+      .order('detection_timestamp', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      center: [row.center_lng, row.center_lat] as [number, number],
+      detectedAt: row.detection_timestamp
+    }));
+  }
+
+  /**
+   * Everything that happened to one hotspot, oldest first
+   */
+  async getHotspotHistory(hotspotId: string): Promise<HotspotEvolutionEntry[]> {
+    if (!this.isRemote) {
+      return this.memoryEvolution.filter(entry => entry.hotspotId === hotspotId);
+    }
+
+    const { data, error } = await supabase
+      .from('hotspot_evolution')
+      .select('*')
+      .eq('hotspot_id', hotspotId)
+      .order('timestamp', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toEvolutionEntryFromRow);
+  }
+
+  /**
+   * Run unless the last run finished less than minIntervalMs ago or another
+   * session is running one (null); joins a run in progress in this session
+   */
+  private startRun(minIntervalMs: number): Promise<DataMiningRunResult | null> {
+    if (!this.running) {
+      this.running = this.runClaimed(minIntervalMs).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async runClaimed(minIntervalMs: number): Promise<DataMiningRunResult | null> {
+    if (!(await this.claimRun(minIntervalMs))) return null;
+
+    let succeeded = false;
+    try {
+      const result = await this.executeRun();
+      succeeded = true;
+      return result;
+    } finally {
+      await this.finishRun(succeeded).catch(error => {
+        console.warn('Data mining claim not released:', error);
+      });
+    }
+  }
+
+  /**
+   * Claim the next run; remotely the check and the claim are one atomic write
+   */
+  private async claimRun(minIntervalMs: number): Promise<boolean> {
+    if (!this.isRemote) {
+      const now = Date.now();
+      const { runningUntil, finishedAt } = this.memoryRunClaim;
+      if (runningUntil !== null && runningUntil > now) return false;
+      if (finishedAt !== null && now - finishedAt < minIntervalMs) return false;
+      this.memoryRunClaim = { runningUntil: now + DATA_MINING_SETTINGS.runLeaseMs, finishedAt };
+      return true;
+    }
+
+    const { data, error } = await supabase.rpc('claim_data_mining_run', {
+      min_interval_seconds: minIntervalMs / 1000,
+      lease_seconds: DATA_MINING_SETTINGS.runLeaseMs / 1000
+    });
+    if (error) throw error;
+    return data === true;
+  }
+
+  /**
+   * Release the claim; a successful run counts as the last finish
+   */
+  private async finishRun(succeeded: boolean): Promise<void> {
+    if (!this.isRemote) {
+      this.memoryRunClaim = {
+        runningUntil: null,
+        finishedAt: succeeded ? Date.now() : this.memoryRunClaim.finishedAt
+      };
+      return;
+    }
+
+    const { error } = await supabase.rpc('finish_data_mining_run', { succeeded });
+    if (error) throw error;
+  }
+
+  private async executeRun(): Promise<DataMiningRunResult> {
+    const startedAt = Date.now();
+    const computedAt = new Date(startedAt).toISOString();
+    const since = new Date(startedAt - DATA_MINING_SETTINGS.lookbackDays * DAY_MS);
+
+    const reports = (await getReportRepository().queryReports({
+      createdAfter: since.toISOString(),
+      limit: DATA_MINING_SETTINGS.maxReports
+    })).filter(report => report.location && Number.isFinite(report.location.lat) && Number.isFinite(report.location.lng));
+
+    // Spatial mining: hotspots now, matched to the previous run's
+    const points = reports.map(report => ({ ...toSpatialDataPoint(report), aiConfidence: report.ai_confidence ?? 1 }));
+    const detected = await spatialDataMiningService.detectHotspots(points, {
+      timeWindowHours: DATA_MINING_SETTINGS.lookbackDays * 24,
+      referenceTime: new Date(startedAt)
+    });
+    const previousHotspots = (await this.getSnapshot()).hotspots;
+    const tracking = spatialDataMiningService.trackHotspots(previousHotspots.map(toFootprint), detected);
+    const hotspots = tracking.hotspots.map(hotspot => toMinedHotspot(hotspot, computedAt));
+
+    const previousById = new Map(previousHotspots.map(hotspot => [hotspot.hotspotId, hotspot]));
+    const currentById = new Map(hotspots.map(hotspot => [hotspot.hotspotId, hotspot]));
+    const changed = new Set(tracking.changes.map(change => change.current?.hotspotId).filter(Boolean));
+    const evolution = [
+      ...tracking.changes.map(change => toEvolutionEntry(
+        change.event,
+        change.relatedHotspotIds,
+        change.previous ? previousById.get(change.previous.hotspotId) : undefined,
+        change.current ? currentById.get(change.current.hotspotId) : undefined,
+        computedAt
+      )),
+      ...tracking.continuations
+        .filter(({ current }) => !changed.has(current.hotspotId))
+        .map(({ previous, current }) => toEvolutionEntry(
+          'tracked',
+          [],
+          previousById.get(previous.hotspotId),
+          currentById.get(current.hotspotId),
+          computedAt
+        ))
+    ];
+
+    // Text mining over report texts and stored social posts
+    const documents = [
+      ...reports.map(report => ({
+        id: report.report_id,
+        content: `${report.title}. ${report.description}`,
+        platform: 'report',
+        timestamp: new Date(report.created_at),
+        authorUsername: report.user_id,
+        authorFollowerCount: 0
+      })),
+      ...(await this.loadSocialPosts(since))
+    ];
+    const textMining = await this.mineTexts(documents, computedAt);
+
+    if (!this.isRemote) {
+      this.memoryEvolution.push(...evolution);
+      this.memoryHotspotHistory.push(...hotspots);
+      this.memorySnapshot = {
+        hotspots,
+        evolution,
+        textMining,
+        lastComputedAt: computedAt
+      };
+    } else {
+      await this.persistRun(hotspots, evolution, textMining);
+    }
+
+    const escalations = evolution.filter(entry => entry.escalated);
+    if (escalations.length > 0) {
+      await this.alertEscalations(escalations);
+    }
+
+    this.notifyUpdated();
+    return {
+      computedAt,
+      reportsAnalyzed: reports.length,
+      postsAnalyzed: documents.length - reports.length,
+      hotspotCount: hotspots.length,
+      escalations: escalations.length,
+      durationMs: Date.now() - startedAt
+    };
+  }
+
+  private async mineTexts(
+    documents: Array<{ id: string; content: string; platform: string; timestamp: Date; authorUsername: string; authorFollowerCount: number }>,
+    analyzedAt: string
+  ): Promise<TextMiningSnapshot> {
+    // A fresh miner per run: the TF-IDF corpus accumulates every document it is given
+    const miner = new TextMiningService();
+    const corpus = documents.length > 0
+      ? await miner.analyzeSocialMediaCorpus(documents)
+      : { globalKeywords: [], emergingTopics: [], sentimentTrends: [] };
+
+    const hazardMentions = new Map<string, number>();
+    let panicTotal = 0;
+    for (const document of documents) {
+      const analysis = await miner.analyzePost(document);
+      panicTotal += analysis.crisisIndicators.panicScore;
+      analysis.entities.hazardTypes.forEach(term => hazardMentions.set(term, (hazardMentions.get(term) || 0) + 1));
+    }
+
+    // Trends come newest window first
+    const trends = corpus.sentimentTrends;
+    const sentimentVelocity = trends.length > 1
+      ? (trends[0].avgSentiment - trends[trends.length - 1].avgSentiment) / ((trends.length - 1) * DATA_MINING_SETTINGS.evolutionIntervalHours / 24)
+      : 0;
+    const exclamations = documents.reduce((sum, document) => sum + (document.content.match(/!/g) || []).length, 0);
+
+    return {
+      analysisId: `mining_${analyzedAt}`,
+      keywords: corpus.globalKeywords.slice(0, DATA_MINING_SETTINGS.topKeywords).map(keyword => ({
+        term: keyword.term,
+        tfidf: keyword.score,
+        frequency: keyword.occurrences
+      })),
+      topics: corpus.emergingTopics,
+      crisisKeywords: [...hazardMentions.entries()]
+        .map(([term, count]) => ({ term, count }))
+        .sort((a, b) => b.count - a.count),
+      panicScore: documents.length > 0 ? panicTotal / documents.length : 0,
+      sentimentVelocity,
+      exclamationDensity: documents.length > 0 ? exclamations / documents.length : 0,
+      totalPostsAnalyzed: documents.length,
+      analyzedAt
+    };
+  }
+
+  private async loadSocialPosts(since: Date) {
+    if (!this.isRemote) return [];
+
+    const { data, error } = await supabase
+      .from('social_media_posts')
+      .select('original_id, platform, content, author_handle, author, timestamp')
+      .gte('timestamp', since.toISOString())
+      .order('timestamp', { ascending: false })
+      .limit(DATA_MINING_SETTINGS.maxSocialPosts);
+
+    // Social media ingestion is optional; mine the reports alone without it
+    if (error) {
+      console.warn('Social media posts unavailable for text mining:', error);
+      return [];
+    }
+    return (data || []).map(row => ({
+      id: row.original_id,
+      content: row.content,
+      platform: row.platform,
+      timestamp: new Date(row.timestamp),
+      authorUsername: row.author_handle || row.author,
+      authorFollowerCount: 0
+    }));
+  }
+
+  private async persistRun(hotspots: MinedHotspot[], evolution: HotspotEvolutionEntry[], textMining: TextMiningSnapshot): Promise<void> {
+    if (hotspots.length > 0) {
+      const { error } = await supabase.from('data_mining_hotspots').insert(hotspots.map(hotspot => ({
+        hotspot_id: hotspot.hotspotId,
+        cluster_id: hotspot.clusterId,
+        center_lat: hotspot.center[1],
+        center_lng: hotspot.center[0],
+        report_count: hotspot.reportCount,
+        risk_score: hotspot.riskScore,
+        risk_level: hotspot.riskLevel,
+        avg_severity: hotspot.avgSeverity,
+        spatial_density: hotspot.spatialDensity,
+        temporal_intensity: hotspot.temporalIntensity,
+        hazard_types: hotspot.hazardTypes,
+        report_ids: hotspot.reportIds,
+        bounding_box: hotspot.boundingBox,
+        detection_timestamp: hotspot.detectedAt
+      })));
+      if (error) throw error;
+    }
+
+    if (evolution.length > 0) {
+      const { error } = await supabase.from('hotspot_evolution').insert(evolution.map(entry => ({
+        hotspot_id: entry.hotspotId,
+        cluster_id: entry.clusterId,
+        event_type: entry.event,
+        related_hotspot_ids: entry.relatedHotspotIds,
+        previous_center_lat: entry.previousCenter?.[1] ?? null,
+        previous_center_lng: entry.previousCenter?.[0] ?? null,
+        current_center_lat: entry.currentCenter[1],
+        current_center_lng: entry.currentCenter[0],
+        movement_distance_km: entry.distanceKm,
+        movement_direction: entry.direction,
+        report_count: entry.reportCount,
+        previous_report_count: entry.previousReportCount,
+        risk_score: entry.riskScore,
+        risk_level: entry.riskLevel,
+        risk_score_change: entry.riskScoreChange,
+        escalated: entry.escalated,
+        timestamp: entry.recordedAt
+      })));
+      if (error) throw error;
+    }
+
+    // Written last: its timestamp marks the run as complete
+    const { error } = await supabase.from('text_mining_results').insert([{
+      analysis_id: textMining.analysisId,
+      keywords: textMining.keywords,
+      topics: textMining.topics,
+      crisis_keywords: textMining.crisisKeywords,
+      panic_score: textMining.panicScore,
+      sentiment_velocity: textMining.sentimentVelocity,
+      exclamation_density: textMining.exclamationDensity,
+      total_posts_analyzed: textMining.totalPostsAnalyzed,
+      analysis_timestamp: textMining.analyzedAt
+    }]);
+    if (error) throw error;
+  }
+
+  private async loadLatestTextMining(): Promise<TextMiningSnapshot | null> {
+    const { data, error } = await supabase
+      .from('text_mining_results')
+      .select('*')
+      .order('analysis_timestamp', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return {
+      analysisId: data.analysis_id,
+      keywords: data.keywords || [],
+      topics: data.topics || [],
+      crisisKeywords: data.crisis_keywords || [],
+      panicScore: data.panic_score ?? 0,
+      sentimentVelocity: data.sentiment_velocity ?? 0,
+      exclamationDensity: data.exclamation_density ?? 0,
+      totalPostsAnalyzed: data.total_posts_analyzed ?? 0,
+      analyzedAt: data.analysis_timestamp
+    };
+  }
+
+  /**
+   * Tell open dashboards, and notify admins, that hotspots reached a higher risk level
+   */
+  private async alertEscalations(escalations: HotspotEvolutionEntry[]): Promise<void> {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(HOTSPOT_ESCALATED_EVENT, { detail: escalations }));
+    }
+    if (!this.isRemote) return;
+
+    const { data, error } = await supabase.from('user_roles').select('user_id').eq('role', 'admin');
+    if (error) {
+      console.error('Could not look up admins to notify of hotspot escalation:', error);
+      return;
+    }
+
+    const adminIds = [...new Set((data || []).map(row => row.user_id as string))];
+    for (const entry of escalations) {
+      const [lng, lat] = entry.currentCenter;
+      for (const userId of adminIds) {
+        await createNotification(
+          {
+            user_id: userId,
+            title: `Hotspot escalated to ${entry.riskLevel} risk`,
+            message: `A hotspot at ${lat.toFixed(4)}, ${lng.toFixed(4)} now has ${entry.reportCount} reports and a risk score of ${entry.riskScore.toFixed(2)} (${entry.riskScoreChange >= 0 ? '+' : ''}${entry.riskScoreChange.toFixed(2)} since the last run).`,
+            type: entry.riskLevel === 'critical' ? 'error' : 'warning',
+            read: false,
+            channel: 'all'
+          },
+          { category: 'hazard_alert' }
+        );
+      }
+    }
+  }
+
+  private notifyUpdated(): void {
+    if (typeof window === 'undefined') return;
+    window.dispatchEvent(new CustomEvent(DATA_MINING_UPDATED_EVENT));
+  }
+}
+
+// Create singleton instance
+export const dataMiningPipelineService = new DataMiningPipelineService();
@@ -8,6 +8,9 @@ export type NotificationType = 'info' | 'success' | 'warning' | 'error';
 // Notification channels
 export type NotificationChannel = 'inApp' | 'push' | 'email' | 'all';
 
+// What a notification is about; decides which preference switch applies
+export type NotificationCategory = 'report_status' | 'hazard_alert' | 'announcement';
+
 // Notification preferences
 export interface NotificationPreferences {
   user_id: string;
@@ -15,6 +18,7 @@ export interface NotificationPreferences {
   community_announcements: boolean;
   email_notifications: boolean;
   push_notifications: boolean;
+  hazard_alerts?: boolean; // Alerts for hazards near saved places; missing means enabled
   do_not_disturb_start?: string; // Time in format "HH:MM"
   do_not_disturb_end?: string; // Time in format "HH:MM"
 }
@@ -25,6 +29,7 @@ export const DEFAULT_PREFERENCES: Omit<NotificationPreferences, 'user_id'> = {
   community_announcements: true,
   email_notifications: false,
   push_notifications: true,
+  hazard_alerts: true,
 };
 
 // Notification template
@@ -90,8 +95,12 @@ export const getUserNotifications = async (userId: string): Promise<Notification
 export const getAllNotifications = getUserNotifications;
 
 // Create a new notification
+// The channel limits delivery: push and email go out only when the channel
+// includes them, the user has enabled them and it is outside do-not-disturb hours.
+// Without a channel every one the user has enabled is used
 export const createNotification = async (
-  notification: Omit<Notification, 'id' | 'created_at' | 'channel'> & { channel?: NotificationChannel }
+  notification: Omit<Notification, 'id' | 'created_at' | 'channel'> & { channel?: NotificationChannel },
+  options: { category?: NotificationCategory } = {}
 ): Promise<boolean> => {
   try {
     const timestamp = new Date().toISOString();
@@ -101,25 +110,29 @@ export const createNotification = async (
       ...notification,
       id,
       created_at: timestamp,
-      channel: notification.channel || 'inApp'
+      channel: notification.channel || 'all'
     };
     
     // Get user preferences
     const userPreferences = await getUserNotificationPreferences(notification.user_id);
     
     // Check if notification should be sent based on preferences
-    // For example, if it's a status update and user doesn't want those
-    if (notification.related_report_id && !userPreferences.report_status_updates) {
+    const category = options.category || (notification.related_report_id ? 'report_status' : 'announcement');
+    if (category === 'report_status' && !userPreferences.report_status_updates) {
       console.log('User has disabled report status updates');
       return false;
     }
+    if (category === 'hazard_alert' && userPreferences.hazard_alerts === false) {
+      console.log('User has disabled hazard alerts');
+      return false;
+    }
     
-    // Check if within do not disturb hours
+    // Within do not disturb hours the notification is only kept in the app
+    let quietHours = false;
     if (userPreferences.do_not_disturb_start && userPreferences.do_not_disturb_end) {
       if (isWithinDoNotDisturbHours(userPreferences.do_not_disturb_start, userPreferences.do_not_disturb_end)) {
-        console.log('Within do not disturb hours, saving for later delivery');
-        // Save for later delivery
-        // Here you could add a field like "scheduled_delivery" to deliver later
+        console.log('Within do not disturb hours, skipping push and email delivery');
+        quietHours = true;
       }
     }
     
@@ -149,7 +162,8 @@ export const createNotification = async (
     }
     
     // Send push notification if enabled
-    if (userPreferences.push_notifications) {
+    const channel = newNotification.channel;
+    if (userPreferences.push_notifications && !quietHours && (channel === 'push' || channel === 'all')) {
       await sendPushNotification(notification.user_id, {
         title: notification.title,
         message: notification.message,
@@ -158,7 +172,7 @@ export const createNotification = async (
     }
     
     // Send email notification if enabled
-    if (userPreferences.email_notifications) {
+    if (userPreferences.email_notifications && !quietHours && (channel === 'email' || channel === 'all')) {
       await sendEmailNotification(notification.user_id, {
         title: notification.title,
         message: notification.message,
@@ -0,0 +1,599 @@
+/**
+ * Evacuation Service
+ * Shelter finder and routing over the bundled coastal town road networks
+ *
+ * Routes run Dijkstra on travel time from the road nearest the person to
+ * every shelter high enough for the active INCOIS warnings. Roads crossing an
+ * active hazard hotspot cost many times their travel time, so the suggested
+ * route goes around a hotspot whenever a reasonable detour exists. Outside
+ * the bundled towns the finder falls back to straight lines to the nearest
+ * shelters. Isochrones show how far a person gets on foot or by road within
+ * a few minutes. Routes to shelters not taken from an official district list
+ * are marked illustrative.
+ */
+
+import {
+  EVACUATION_SHELTERS,
+  TOWN_ROAD_NETWORKS,
+  type EvacuationShelter,
+  type RoadClass,
+  type ShelterKind
+} from '../data/evacuationNetwork';
+import { geospatialUtils, type GeoCoordinate } from './GeospatialUtils';
+import { incoisService, type EarlyWarning } from './INCOISService';
+
+export type { EvacuationShelter, ShelterKind };
+
+export type TravelMode = 'walking' | 'driving';
+
+/**
+ * Area to keep routes out of, e.g. an active hotspot of reports
+ */
+export interface HazardArea {
+  center: GeoCoordinate;
+  radiusMeters: number;
+  label?: string;
+}
+
+export interface EvacuationRoute {
+  shelter: EvacuationShelter;
+  mode: TravelMode;
+  path: GeoCoordinate[]; // From the person to the shelter
+  roads: string[]; // Road names in travel order, for directions
+  distanceMeters: number;
+  durationMinutes: number;
+  readableTime: string;
+  refugeElevationMeters: number; // Ground elevation plus refuge floor height
+  meetsElevation: boolean; // False when no shelter in reach is high enough
+  hazardExposureMeters: number; // Length of the route inside hazard areas
+  routed: boolean; // False for straight-line fallbacks outside the road networks
+  illustrative: boolean; // The shelter is a planning placeholder, not an official one
+}
+
+export interface Isochrone {
+  minutes: number;
+  polygon: GeoCoordinate[]; // Convex outline of everything reachable, closed
+}
+
+export interface EvacuationPlan {
+  origin: GeoCoordinate;
+  mode: TravelMode;
+  warnings: EarlyWarning[]; // Active warnings that set the safe elevation
+  minElevationMeters: number;
+  hazards: HazardArea[];
+  route: EvacuationRoute | null; // Best route, avoiding hazard areas where possible
+  directRoute: EvacuationRoute | null; // Fastest route to the same shelter when it crosses a hazard area
+  alternatives: EvacuationRoute[]; // Next best shelters
+  isochrones: Isochrone[];
+}
+
+export interface ShelterSearchOptions {
+  mode?: TravelMode;
+  minElevationMeters?: number;
+  hazards?: HazardArea[];
+  limit?: number;
+}
+
+// Height above sea level a refuge needs for each warning type
+export const SAFE_ELEVATION_BY_WARNING: Record<EarlyWarning['type'], number> = {
+  tsunami: 10,
+  storm_surge: 6,
+  coastal_flood: 5,
+  cyclone: 5,
+  high_waves: 4,
+  marine_heatwave: 0
+};
+
+export const EVACUATION_LIMITS = {
+  maxSnapMeters: 2000, // Farther from every bundled road, routing falls back to straight lines
+  maxFallbackMeters: 50000, // Straight-line fallbacks only consider shelters this close
+  hazardCostMultiplier: 20, // Travel time inside a hazard area counts this many times over
+  alternatives: 2
+};
+
+export const DEFAULT_ISOCHRONE_MINUTES = [5, 10, 15];
+
+// Walking matches GeospatialUtils.estimateWalkingTime; driving assumes evacuation traffic
+const SPEED_KMH: Record<TravelMode, Record<RoadClass, number>> = {
+  walking: { primary: 5, secondary: 5, residential: 5, footpath: 5 },
+  driving: { primary: 40, secondary: 30, residential: 20, footpath: 0 }
+};
+
+// Off-road legs to and from the network are walked, or crawled through by car
+const OFF_ROAD_SPEED_KMH: Record<TravelMode, number> = { walking: 5, driving: 10 };
+
+// ---------------------------------------------------------------------------
+// Road graph
+// ---------------------------------------------------------------------------
+
+interface GraphNode {
+  coordinate: GeoCoordinate;
+  networkId: string;
+}
+
+interface GraphEdge {
+  to: number;
+  lengthMeters: number;
+  roadClass: RoadClass;
+  roadName: string;
+}
+
+interface RoadGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[][];
+  shelterNodes: Map<string, number>;
+}
+
+const buildGraph = (): RoadGraph => {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[][] = [];
+  const nodeIds = new Map<string, number>();
+
+  const getNode = (networkId: string, lat: number, lng: number): number => {
+    const key = `${networkId}:${lat.toFixed(5)},${lng.toFixed(5)}`;
+    let id = nodeIds.get(key);
+    if (id === undefined) {
+      id = nodes.length;
+      nodeIds.set(key, id);
+      nodes.push({ coordinate: { latitude: lat, longitude: lng }, networkId });
+      edges.push([]);
+    }
+    return id;
+  };
+
+  TOWN_ROAD_NETWORKS.forEach(network => {
+    network.roads.forEach(road => {
+      for (let i = 1; i < road.points.length; i++) {
+        const [lat1, lng1] = road.points[i - 1];
+        const [lat2, lng2] = road.points[i];
+        const from = getNode(network.id, lat1, lng1);
+        const to = getNode(network.id, lat2, lng2);
+        const lengthMeters = geospatialUtils.calculateDistance(nodes[from].coordinate, nodes[to].coordinate);
+
+        edges[from].push({ to, lengthMeters, roadClass: road.roadClass, roadName: road.name });
+        edges[to].push({ to: from, lengthMeters, roadClass: road.roadClass, roadName: road.name });
+      }
+    });
+  });
+
+  // Each shelter is reached through the nearest node of its own network
+  const shelterNodes = new Map<string, number>();
+  EVACUATION_SHELTERS.forEach(shelter => {
+    const location = { latitude: shelter.lat, longitude: shelter.lng };
+    let best = -1;
+    let bestDistance = Infinity;
+    nodes.forEach((node, id) => {
+      if (node.networkId !== shelter.networkId) return;
+      const distance = geospatialUtils.calculateDistance(location, node.coordinate);
+      if (distance < bestDistance) {
+        best = id;
+        bestDistance = distance;
+      }
+    });
+    if (best >= 0) shelterNodes.set(shelter.id, best);
+  });
+
+  return { nodes, edges, shelterNodes };
+};
+
+// Smallest-first binary heap of node ids keyed by cost
+class MinHeap {
+  private items: Array<{ id: number; cost: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(id: number, cost: number): void {
+    this.items.push({ id, cost });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].cost <= this.items[i].cost) break;
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { id: number; cost: number } | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.items[left].cost < this.items[smallest].cost) smallest = left;
+        if (right < this.items.length && this.items[right].cost < this.items[smallest].cost) smallest = right;
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+interface ShortestPaths {
+  cost: Float64Array; // Penalised seconds
+  seconds: Float64Array; // Actual travel seconds
+  previous: Int32Array;
+  previousEdge: Array<GraphEdge | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Geometry helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Distance in meters from a point to a segment, on a local flat projection
+ */
+const distanceToSegmentMeters = (point: GeoCoordinate, a: GeoCoordinate, b: GeoCoordinate): number => {
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos(point.latitude * Math.PI / 180);
+  const ax = (a.longitude - point.longitude) * metersPerDegLng;
+  const ay = (a.latitude - point.latitude) * metersPerDegLat;
+  const bx = (b.longitude - point.longitude) * metersPerDegLng;
+  const by = (b.latitude - point.latitude) * metersPerDegLat;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+};
+
+const crossesHazard = (a: GeoCoordinate, b: GeoCoordinate, hazards: HazardArea[]): boolean =>
+  hazards.some(hazard => distanceToSegmentMeters(hazard.center, a, b) <= hazard.radiusMeters);
+
+/**
+ * Convex hull (monotone chain), returned as a closed ring
+ */
+const convexHull = (points: GeoCoordinate[]): GeoCoordinate[] => {
+  const sorted = [...points].sort((p, q) => p.longitude - q.longitude || p.latitude - q.latitude);
+  if (sorted.length < 3) return [];
+
+  const cross = (o: GeoCoordinate, a: GeoCoordinate, b: GeoCoordinate) =>
+    (a.longitude - o.longitude) * (b.latitude - o.latitude) - (a.latitude - o.latitude) * (b.longitude - o.longitude);
+
+  const lower: GeoCoordinate[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: GeoCoordinate[] = [];
+  for (const p of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  const hull = [...lower.slice(0, -1), ...upper.slice(0, -1)];
+  return hull.length >= 3 ? [...hull, hull[0]] : [];
+};
+
+const interpolate = (a: GeoCoordinate, b: GeoCoordinate, fraction: number): GeoCoordinate => ({
+  latitude: a.latitude + (b.latitude - a.latitude) * fraction,
+  longitude: a.longitude + (b.longitude - a.longitude) * fraction
+});
+
+const secondsFor = (meters: number, speedKmh: number): number => meters / (speedKmh / 3.6);
+
+// ---------------------------------------------------------------------------
+// Public helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Refuge height needed for a set of warnings; 0 means any shelter will do
+ */
+/**
+ * True for shelters not imported from an official district disaster management list
+ */
+export const isIllustrativeShelter = (shelter: EvacuationShelter): boolean => !shelter.officialSource;
+
+export const getSafeElevationForWarnings = (warnings: EarlyWarning[]): number =>
+  warnings.reduce((height, warning) => Math.max(height, SAFE_ELEVATION_BY_WARNING[warning.type] ?? 0), 0);
+
+/**
+ * Hazard areas around detected hotspots (see SpatialDataMiningService.detectHotspots)
+ * Centroids and bounding boxes are [lng, lat]; the area covers the whole box
+ */
+export const hazardAreasFromHotspots = (
+  hotspots: Array<{ centroid: [number, number]; boundingBox: number[][]; hazardTypes?: string[] }>,
+  minRadiusMeters: number = 200
+): HazardArea[] =>
+  hotspots.map(hotspot => {
+    const center = { latitude: hotspot.centroid[1], longitude: hotspot.centroid[0] };
+    const radiusMeters = hotspot.boundingBox.reduce(
+      (radius, [lng, lat]) => Math.max(radius, geospatialUtils.calculateDistance(center, { latitude: lat, longitude: lng })),
+      minRadiusMeters
+    );
+    return { center, radiusMeters, label: hotspot.hazardTypes?.join(', ') };
+  });
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class EvacuationService {
+  private graph: RoadGraph | null = null;
+
+  private getGraph(): RoadGraph {
+    if (!this.graph) {
+      this.graph = buildGraph();
+    }
+    return this.graph;
+  }
+
+  /**
+   * All registered shelters, optionally only those inside a bounding box
+   */
+  getShelters(bounds?: { north: number; south: number; east: number; west: number }): EvacuationShelter[] {
+    return bounds
+      ? EVACUATION_SHELTERS.filter(shelter =>
+          geospatialUtils.isWithinBoundingBox({ latitude: shelter.lat, longitude: shelter.lng }, bounds)
+        )
+      : [...EVACUATION_SHELTERS];
+  }
+
+  /**
+   * Routes to the nearest shelters high enough for the given elevation, best first
+   * When no shelter in reach is high enough, the highest ones are returned
+   * with meetsElevation set to false
+   */
+  findNearestShelters(origin: GeoCoordinate, options: ShelterSearchOptions = {}): EvacuationRoute[] {
+    const { mode = 'walking', minElevationMeters = 0, hazards = [], limit = 1 + EVACUATION_LIMITS.alternatives } = options;
+
+    const snapped = this.snapToNetwork(origin);
+    const candidates = snapped
+      ? EVACUATION_SHELTERS.filter(shelter => shelter.networkId === snapped.networkId)
+      : EVACUATION_SHELTERS.filter(shelter =>
+          geospatialUtils.calculateDistance(origin, { latitude: shelter.lat, longitude: shelter.lng }) <= EVACUATION_LIMITS.maxFallbackMeters
+        );
+    if (candidates.length === 0) return [];
+
+    const highEnough = candidates.filter(shelter => this.getRefugeElevation(shelter) >= minElevationMeters);
+    const eligible = highEnough.length > 0
+      ? highEnough
+      : candidates.filter(shelter =>
+          this.getRefugeElevation(shelter) === Math.max(...candidates.map(c => this.getRefugeElevation(c)))
+        );
+
+    const routes = snapped
+      ? this.routeOnNetwork(origin, snapped.node, eligible, mode, hazards)
+      : eligible.map(shelter => this.straightLineRoute(origin, shelter, mode, hazards));
+
+    return routes
+      .sort((a, b) => a.cost - b.cost)
+      .slice(0, limit)
+      .map(({ route }) => ({ ...route, meetsElevation: route.refugeElevationMeters >= minElevationMeters }));
+  }
+
+  /**
+   * Outlines of the area reachable within each number of minutes
+   */
+  computeIsochrones(origin: GeoCoordinate, mode: TravelMode = 'walking', minutes: number[] = DEFAULT_ISOCHRONE_MINUTES): Isochrone[] {
+    const snapped = this.snapToNetwork(origin);
+    if (!snapped) return [];
+
+    const graph = this.getGraph();
+    const accessSeconds = secondsFor(snapped.distanceMeters, OFF_ROAD_SPEED_KMH[mode]);
+    const paths = this.shortestPaths(snapped.node, accessSeconds, mode, []);
+
+    return minutes
+      .map(limit => {
+        const budget = limit * 60;
+        const points: GeoCoordinate[] = [origin];
+
+        graph.nodes.forEach((node, id) => {
+          const reachedAt = paths.seconds[id];
+          if (reachedAt > budget) return;
+          points.push(node.coordinate);
+
+          // Partly travelled roads end where the time runs out
+          graph.edges[id].forEach(edge => {
+            const speed = SPEED_KMH[mode][edge.roadClass];
+            if (speed <= 0 || paths.seconds[edge.to] <= budget) return;
+            const edgeSeconds = secondsFor(edge.lengthMeters, speed);
+            const fraction = Math.min(1, (budget - reachedAt) / edgeSeconds);
+            points.push(interpolate(node.coordinate, graph.nodes[edge.to].coordinate, fraction));
+          });
+        });
+
+        return { minutes: limit, polygon: convexHull(points) };
+      })
+      .filter(isochrone => isochrone.polygon.length > 0);
+  }
+
+  /**
+   * Full plan for a person: active warnings, best shelter route, a comparison
+   * with the fastest route when the best one detours around a hotspot, and isochrones
+   */
+  async planEvacuation(
+    origin: GeoCoordinate,
+    options: { mode?: TravelMode; hazards?: HazardArea[]; isochroneMinutes?: number[] } = {}
+  ): Promise<EvacuationPlan> {
+    const { mode = 'walking', hazards = [], isochroneMinutes = DEFAULT_ISOCHRONE_MINUTES } = options;
+
+    const response = await incoisService.getEarlyWarnings({ lat: origin.latitude, lng: origin.longitude });
+    const now = Date.now();
+    const warnings = (response.success && response.data ? response.data : [])
+      .filter(warning => new Date(warning.validUntil).getTime() > now);
+    const minElevationMeters = getSafeElevationForWarnings(warnings);
+
+    const routes = this.findNearestShelters(origin, { mode, minElevationMeters, hazards });
+    const route = routes[0] || null;
+
+    let directRoute: EvacuationRoute | null = null;
+    if (route && hazards.length > 0) {
+      const [fastest] = this.findNearestShelters(origin, { mode, minElevationMeters, limit: 1 });
+      const fastestExposure = fastest ? this.measureExposure(fastest.path, hazards) : 0;
+      if (fastest && fastestExposure > 0 && fastest.durationMinutes < route.durationMinutes) {
+        directRoute = { ...fastest, hazardExposureMeters: fastestExposure };
+      }
+    }
+
+    return {
+      origin,
+      mode,
+      warnings,
+      minElevationMeters,
+      hazards,
+      route,
+      directRoute,
+      alternatives: routes.slice(1),
+      isochrones: this.computeIsochrones(origin, mode, isochroneMinutes)
+    };
+  }
+
+  private getRefugeElevation(shelter: EvacuationShelter): number {
+    return shelter.elevationMeters + shelter.refugeHeightMeters;
+  }
+
+  private snapToNetwork(origin: GeoCoordinate): { node: number; networkId: string; distanceMeters: number } | null {
+    const graph = this.getGraph();
+    let best: { node: number; networkId: string; distanceMeters: number } | null = null;
+
+    graph.nodes.forEach((node, id) => {
+      const distanceMeters = geospatialUtils.calculateDistance(origin, node.coordinate);
+      if (distanceMeters <= EVACUATION_LIMITS.maxSnapMeters && (!best || distanceMeters < best.distanceMeters)) {
+        best = { node: id, networkId: node.networkId, distanceMeters };
+      }
+    });
+
+    return best;
+  }
+
+  private shortestPaths(start: number, startSeconds: number, mode: TravelMode, hazards: HazardArea[]): ShortestPaths {
+    const graph = this.getGraph();
+    const count = graph.nodes.length;
+    const cost = new Float64Array(count).fill(Infinity);
+    const seconds = new Float64Array(count).fill(Infinity);
+    const previous = new Int32Array(count).fill(-1);
+    const previousEdge: Array<GraphEdge | null> = new Array(count).fill(null);
+
+    cost[start] = startSeconds;
+    seconds[start] = startSeconds;
+    const heap = new MinHeap();
+    heap.push(start, startSeconds);
+
+    while (heap.size > 0) {
+      const current = heap.pop()!;
+      if (current.cost > cost[current.id]) continue;
+
+      for (const edge of graph.edges[current.id]) {
+        const speed = SPEED_KMH[mode][edge.roadClass];
+        if (speed <= 0) continue;
+
+        const edgeSeconds = secondsFor(edge.lengthMeters, speed);
+        const inHazard = hazards.length > 0 &&
+          crossesHazard(graph.nodes[current.id].coordinate, graph.nodes[edge.to].coordinate, hazards);
+        const nextCost = current.cost + edgeSeconds * (inHazard ? EVACUATION_LIMITS.hazardCostMultiplier : 1);
+
+        if (nextCost < cost[edge.to]) {
+          cost[edge.to] = nextCost;
+          seconds[edge.to] = seconds[current.id] + edgeSeconds;
+          previous[edge.to] = current.id;
+          previousEdge[edge.to] = edge;
+          heap.push(edge.to, nextCost);
+        }
+      }
+    }
+
+    return { cost, seconds, previous, previousEdge };
+  }
+
+  private routeOnNetwork(
+    origin: GeoCoordinate,
+    start: number,
+    shelters: EvacuationShelter[],
+    mode: TravelMode,
+    hazards: HazardArea[]
+  ): Array<{ route: EvacuationRoute; cost: number }> {
+    const graph = this.getGraph();
+    const accessMeters = geospatialUtils.calculateDistance(origin, graph.nodes[start].coordinate);
+    const accessSeconds = secondsFor(accessMeters, OFF_ROAD_SPEED_KMH[mode]);
+    const paths = this.shortestPaths(start, accessSeconds, mode, hazards);
+
+    return shelters.flatMap(shelter => {
+      const target = graph.shelterNodes.get(shelter.id);
+      if (target === undefined || !Number.isFinite(paths.cost[target])) return [];
+
+      // Walk the predecessor chain back to the start
+      const nodes: number[] = [];
+      const roads: string[] = [];
+      let roadMeters = 0;
+      for (let id = target; id !== -1; id = paths.previous[id]) {
+        nodes.unshift(id);
+        const edge = paths.previousEdge[id];
+        if (edge) {
+          roadMeters += edge.lengthMeters;
+          if (roads[0] !== edge.roadName) roads.unshift(edge.roadName);
+        }
+      }
+
+      const shelterLocation = { latitude: shelter.lat, longitude: shelter.lng };
+      const egressMeters = geospatialUtils.calculateDistance(graph.nodes[target].coordinate, shelterLocation);
+      const path = [origin, ...nodes.map(id => graph.nodes[id].coordinate), shelterLocation];
+      const totalSeconds = paths.seconds[target] + secondsFor(egressMeters, OFF_ROAD_SPEED_KMH[mode]);
+
+      return [{
+        route: this.toRoute(shelter, mode, path, roads, accessMeters + roadMeters + egressMeters, totalSeconds, hazards, true),
+        cost: paths.cost[target]
+      }];
+    });
+  }
+
+  private straightLineRoute(
+    origin: GeoCoordinate,
+    shelter: EvacuationShelter,
+    mode: TravelMode,
+    hazards: HazardArea[]
+  ): { route: EvacuationRoute; cost: number } {
+    const shelterLocation = { latitude: shelter.lat, longitude: shelter.lng };
+    const distanceMeters = geospatialUtils.calculateDistance(origin, shelterLocation);
+    const seconds = secondsFor(distanceMeters, mode === 'walking' ? SPEED_KMH.walking.primary : SPEED_KMH.driving.secondary);
+    const route = this.toRoute(shelter, mode, [origin, shelterLocation], [], distanceMeters, seconds, hazards, false);
+    return { route, cost: seconds };
+  }
+
+  private toRoute(
+    shelter: EvacuationShelter,
+    mode: TravelMode,
+    path: GeoCoordinate[],
+    roads: string[],
+    distanceMeters: number,
+    seconds: number,
+    hazards: HazardArea[],
+    routed: boolean
+  ): EvacuationRoute {
+    const durationMinutes = Math.round(seconds / 60);
+    return {
+      shelter,
+      mode,
+      path,
+      roads,
+      distanceMeters: Math.round(distanceMeters),
+      durationMinutes,
+      readableTime: geospatialUtils.formatDuration(durationMinutes),
+      refugeElevationMeters: this.getRefugeElevation(shelter),
+      meetsElevation: true,
+      hazardExposureMeters: this.measureExposure(path, hazards),
+      routed,
+      illustrative: isIllustrativeShelter(shelter)
+    };
+  }
+
+  private measureExposure(path: GeoCoordinate[], hazards: HazardArea[]): number {
+    let exposure = 0;
+    for (let i = 1; i < path.length; i++) {
+      if (crossesHazard(path[i - 1], path[i], hazards)) {
+        exposure += geospatialUtils.calculateDistance(path[i - 1], path[i]);
+      }
+    }
+    return Math.round(exposure);
+  }
+}
+
+export const evacuationService = new EvacuationService();
+export default evacuationService;
@@ -0,0 +1,244 @@
+/**
+ * Evidence Forensics Service
+ * Checks that submitted photos plausibly show what, where and when the report claims
+ *
+ * Features:
+ * - Compares EXIF capture time and GPS with the report's created_at and location
+ * - Flags missing or stripped metadata and photos saved by editing software
+ * - Matches perceptual hashes against earlier reports to catch reused images
+ * - Produces a 0-100 evidence integrity score plus flags for reviewers
+ *
+ * The score is advisory: it never blocks a submission, but low scores require
+ * reviewer notes before a report can be field-verified (see ReportService.updateReportStatus).
+ */
+
+import { calculateDistance } from './GeocodingService';
+import type { PreparedMedia } from './MediaService';
+
+export type EvidenceFlagCode =
+  | 'missing_metadata'
+  | 'missing_capture_time'
+  | 'missing_gps'
+  | 'capture_time_mismatch'
+  | 'location_mismatch'
+  | 'edited_image'
+  | 'reused_image';
+
+export type EvidenceFlagSeverity = 'info' | 'warning' | 'critical';
+
+export interface EvidenceFlag {
+  code: EvidenceFlagCode;
+  severity: EvidenceFlagSeverity;
+  message: string;
+  attachment_id?: string;
+  related_report_ids?: string[]; // Reports whose photos match, for reused_image
+}
+
+export interface EvidenceAssessment {
+  score: number; // 0 (untrustworthy) - 100 (all checks passed)
+  flags: EvidenceFlag[];
+  content_hashes: string[]; // SHA-256 of each uploaded file, for the proof-of-report payload
+  perceptual_hashes: string[];
+}
+
+export interface EvidenceContext {
+  report_id: string;
+  created_at: string;
+  location: { lat: number; lng: number };
+  // Photos taken with the in-app camera never carry EXIF; the app records time and place itself
+  live_capture_ids?: string[];
+}
+
+export interface KnownMediaHash {
+  report_id: string;
+  hash: string;
+}
+
+export const EVIDENCE_THRESHOLDS = {
+  maxCaptureAgeHours: 72, // Photos older than this are not evidence of a current hazard
+  maxClockSkewMinutes: 30, // Capture time after submission, allowing for device clock drift
+  maxLocationDistanceKm: 5,
+  reuseHammingDistance: 6, // Of 64 bits; 0 is identical, ~10 already matches similar scenes
+  reviewScore: 60 // Below this, reviewers must explain why they verified the report
+};
+
+const FLAG_PENALTIES: Record<EvidenceFlagCode, number> = {
+  missing_metadata: 25,
+  missing_capture_time: 10,
+  missing_gps: 10,
+  capture_time_mismatch: 25,
+  location_mismatch: 30,
+  edited_image: 15,
+  reused_image: 45
+};
+
+// Software tags written by editors rather than cameras
+const EDITING_SOFTWARE = /photoshop|lightroom|gimp|snapseed|picsart|pixlr|canva|affinity|facetune|meitu/i;
+
+/**
+ * Number of differing bits between two hex-encoded perceptual hashes
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const checkImageMetadata = (media: PreparedMedia, context: EvidenceContext): EvidenceFlag[] => {
+  const flags: EvidenceFlag[] = [];
+
+  if (!media.exif) {
+    if (!context.live_capture_ids?.includes(media.id)) {
+      flags.push({
+        code: 'missing_metadata',
+        severity: 'warning',
+        message: 'Photo has no EXIF metadata; it may have been stripped, screenshotted or downloaded',
+        attachment_id: media.id
+      });
+    }
+    return flags;
+  }
+
+  if (media.exif.software && EDITING_SOFTWARE.test(media.exif.software)) {
+    flags.push({
+      code: 'edited_image',
+      severity: 'warning',
+      message: `Photo was saved by editing software (${media.exif.software})`,
+      attachment_id: media.id
+    });
+  }
+
+  if (!media.captured_at) {
+    flags.push({
+      code: 'missing_capture_time',
+      severity: 'info',
+      message: 'Photo has no capture time',
+      attachment_id: media.id
+    });
+  } else {
+    // EXIF times without an offset are in the device's local time, which is how Date parses them
+    const capturedAt = new Date(media.captured_at).getTime();
+    const submittedAt = new Date(context.created_at).getTime();
+    const ageHours = (submittedAt - capturedAt) / (60 * 60 * 1000);
+
+    if (ageHours > EVIDENCE_THRESHOLDS.maxCaptureAgeHours) {
+      flags.push({
+        code: 'capture_time_mismatch',
+        severity: 'critical',
+        message: `Photo was taken ${Math.round(ageHours / 24)} day(s) before the report was submitted`,
+        attachment_id: media.id
+      });
+    } else if (-ageHours * 60 > EVIDENCE_THRESHOLDS.maxClockSkewMinutes) {
+      flags.push({
+        code: 'capture_time_mismatch',
+        severity: 'warning',
+        message: 'Photo capture time is after the report submission time',
+        attachment_id: media.id
+      });
+    }
+  }
+
+  if (!media.gps) {
+    flags.push({
+      code: 'missing_gps',
+      severity: 'info',
+      message: 'Photo has no GPS position',
+      attachment_id: media.id
+    });
+  } else {
+    const distanceKm = calculateDistance(context.location.lat, context.location.lng, media.gps.lat, media.gps.lng);
+    if (distanceKm > EVIDENCE_THRESHOLDS.maxLocationDistanceKm) {
+      flags.push({
+        code: 'location_mismatch',
+        severity: 'critical',
+        message: `Photo was taken ${distanceKm.toFixed(1)} km from the reported location`,
+        attachment_id: media.id
+      });
+    }
+  }
+
+  return flags;
+};
+
+const checkReuse = (media: PreparedMedia, context: EvidenceContext, knownHashes: KnownMediaHash[]): EvidenceFlag | null => {
+  if (!media.perceptual_hash) return null;
+
+  const matches = knownHashes.filter(known =>
+    known.report_id !== context.report_id &&
+    hammingDistance(known.hash, media.perceptual_hash as string) <= EVIDENCE_THRESHOLDS.reuseHammingDistance
+  );
+  if (matches.length === 0) return null;
+
+  const relatedReportIds = [...new Set(matches.map(match => match.report_id))];
+  return {
+    code: 'reused_image',
+    severity: 'critical',
+    message: `${media.kind === 'video' ? 'Video' : 'Photo'} matches media already attached to ${relatedReportIds.length} other report(s)`,
+    attachment_id: media.id,
+    related_report_ids: relatedReportIds
+  };
+};
+
+/**
+ * Score the evidence attached to a report
+ * @param media - Prepared photos and videos, before upload
+ * @param context - What the report claims about where and when
+ * @param knownHashes - Perceptual hashes of media on earlier reports
+ * @returns null when there is no media to assess
+ */
+export const assessEvidence = async (
+  media: PreparedMedia[],
+  context: EvidenceContext,
+  knownHashes: KnownMediaHash[] = []
+): Promise<EvidenceAssessment | null> => {
+  if (media.length === 0) return null;
+
+  const flags: EvidenceFlag[] = [];
+  for (const item of media) {
+    if (item.kind === 'image') {
+      flags.push(...checkImageMetadata(item, context));
+    }
+    const reuse = checkReuse(item, context, knownHashes);
+    if (reuse) flags.push(reuse);
+  }
+
+  // One corroborating photo is enough: score from the best attachment,
+  // but reuse anywhere in the report counts against the whole report
+  const penaltyFor = (attachmentFlags: EvidenceFlag[]) =>
+    [...new Set(attachmentFlags.map(flag => flag.code))]
+      .reduce((total, code) => total + FLAG_PENALTIES[code], 0);
+
+  const bestPenalty = Math.min(...media.map(item =>
+    penaltyFor(flags.filter(flag => flag.attachment_id === item.id && flag.code !== 'reused_image'))
+  ));
+  const reusePenalty = flags.some(flag => flag.code === 'reused_image') ? FLAG_PENALTIES.reused_image : 0;
+
+  return {
+    score: Math.max(0, 100 - bestPenalty - reusePenalty),
+    flags,
+    content_hashes: await Promise.all(media.map(item => sha256Hex(item.blob))),
+    perceptual_hashes: media.map(item => item.perceptual_hash).filter((hash): hash is string => Boolean(hash))
+  };
+};
+
+/**
+ * Whether a report's evidence needs a reviewer's explanation before it is verified
+ */
+export const requiresEvidenceReview = (report: { evidence_integrity?: number | null; evidence_flags?: EvidenceFlag[] }): boolean => {
+  if (report.evidence_integrity === null || report.evidence_integrity === undefined) return false;
+  return report.evidence_integrity < EVIDENCE_THRESHOLDS.reviewScore ||
+    (report.evidence_flags || []).some(flag => flag.severity === 'critical');
+};
@@ -0,0 +1,244 @@
+/**
+ * Gazetteer Service
+ * Offline place lookup over the bundled coastal gazetteer
+ *
+ * Nearest-place queries run on a k-d tree of the places as points on the unit
+ * sphere, so straight-line distance in the tree orders places the same way as
+ * great-circle distance and there is no distortion near the poles or the
+ * antimeridian. Forward search matches names and aliases without diacritics.
+ */
+
+import { COASTAL_GAZETTEER, type GazetteerPlace, type GazetteerPlaceKind } from '../data/coastalGazetteer';
+import { classifyCoastalZone, type CoastalZone } from './CoastalZoneService';
+
+export type { GazetteerPlace, GazetteerPlaceKind };
+
+export interface NearbyPlace {
+  place: GazetteerPlace;
+  distanceKm: number;
+}
+
+/**
+ * Structured description of a location built from the gazetteer and coastal zones
+ */
+export interface GazetteerLocation {
+  village: GazetteerPlace | null; // Nearest village or beach, when close enough to be "in" it
+  town: GazetteerPlace | null; // Nearest city, town or port in the same district
+  nearest: NearbyPlace | null; // Nearest place of any kind within range
+  district: string | null;
+  state: string | null;
+  zone: CoastalZone | null;
+}
+
+export const GAZETTEER_LIMITS = {
+  villageRadiusKm: 8, // A village or beach this close names the location
+  townRadiusKm: 40, // How far to look for the town a location belongs to
+  maxPlaceDistanceKm: 60 // Beyond this the gazetteer knows nothing about the location
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+// Larger places win ties in forward search
+const KIND_RANK: Record<GazetteerPlaceKind, number> = {
+  city: 0,
+  port: 1,
+  town: 2,
+  village: 3,
+  beach: 4
+};
+
+// ---------------------------------------------------------------------------
+// k-d tree
+// ---------------------------------------------------------------------------
+
+type Vector3 = [number, number, number];
+
+interface KdNode {
+  point: Vector3;
+  place: GazetteerPlace;
+  axis: number;
+  left: KdNode | null;
+  right: KdNode | null;
+}
+
+const toUnitVector = (lat: number, lng: number): Vector3 => {
+  const phi = lat * Math.PI / 180;
+  const lambda = lng * Math.PI / 180;
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+};
+
+const squaredChord = (a: Vector3, b: Vector3): number =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const chordToKm = (chord: number): number => 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, chord / 2));
+
+const kmToChord = (km: number): number => 2 * Math.sin(Math.min(Math.PI, km / EARTH_RADIUS_KM) / 2);
+
+const buildTree = (entries: Array<{ point: Vector3; place: GazetteerPlace }>, depth: number): KdNode | null => {
+  if (entries.length === 0) return null;
+
+  const axis = depth % 3;
+  const sorted = [...entries].sort((a, b) => a.point[axis] - b.point[axis]);
+  const median = Math.floor(sorted.length / 2);
+
+  return {
+    point: sorted[median].point,
+    place: sorted[median].place,
+    axis,
+    left: buildTree(sorted.slice(0, median), depth + 1),
+    right: buildTree(sorted.slice(median + 1), depth + 1)
+  };
+};
+
+const TREE = buildTree(
+  COASTAL_GAZETTEER.map(place => ({ point: toUnitVector(place.lat, place.lng), place })),
+  0
+);
+
+/**
+ * The k nearest places within maxDistanceKm, nearest first
+ */
+const searchTree = (
+  target: Vector3,
+  k: number,
+  maxDistanceKm: number,
+  accept: (place: GazetteerPlace) => boolean
+): Array<{ place: GazetteerPlace; squared: number }> => {
+  const maxChord = kmToChord(maxDistanceKm);
+  const best: Array<{ place: GazetteerPlace; squared: number }> = [];
+  const worstAllowed = () => best.length < k ? maxChord * maxChord : best[best.length - 1].squared;
+
+  const visit = (node: KdNode | null) => {
+    if (!node) return;
+
+    const squared = squaredChord(target, node.point);
+    if (squared <= worstAllowed() && accept(node.place)) {
+      best.push({ place: node.place, squared });
+      best.sort((a, b) => a.squared - b.squared);
+      if (best.length > k) best.pop();
+    }
+
+    const delta = target[node.axis] - node.point[node.axis];
+    const [near, far] = delta < 0 ? [node.left, node.right] : [node.right, node.left];
+    visit(near);
+    // Only cross the splitting plane when the other side can hold something closer
+    if (delta * delta <= worstAllowed()) {
+      visit(far);
+    }
+  };
+
+  visit(TREE);
+  return best;
+};
+
+// ---------------------------------------------------------------------------
+// Reverse lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Nearest places to a location, optionally limited to some kinds or a district
+ */
+export const findNearestPlaces = (
+  lat: number,
+  lng: number,
+  options: { limit?: number; maxDistanceKm?: number; kinds?: GazetteerPlaceKind[]; district?: string } = {}
+): NearbyPlace[] => {
+  const { limit = 5, maxDistanceKm = GAZETTEER_LIMITS.maxPlaceDistanceKm, kinds, district } = options;
+
+  return searchTree(toUnitVector(lat, lng), limit, maxDistanceKm, place =>
+    (!kinds || kinds.includes(place.kind)) &&
+    (!district || place.district.toLowerCase() === district.toLowerCase())
+  ).map(({ place, squared }) => ({ place, distanceKm: chordToKm(Math.sqrt(squared)) }));
+};
+
+export const findNearestPlace = (lat: number, lng: number, maxDistanceKm?: number): NearbyPlace | null =>
+  findNearestPlaces(lat, lng, { limit: 1, maxDistanceKm })[0] || null;
+
+/**
+ * Describe a location by its village, town, district, state and coastal zone
+ * The coastal zone decides the district when there is one, so a place just
+ * across a district boundary does not pull the location into its district
+ */
+export const describeLocation = (lat: number, lng: number): GazetteerLocation => {
+  const zone = classifyCoastalZone(lat, lng);
+  const nearest = findNearestPlace(lat, lng);
+  // Offshore zones belong to no district
+  const district = zone ? zone.district : nearest?.place.district || null;
+  const state = zone?.state || nearest?.place.state || null;
+
+  const village = findNearestPlaces(lat, lng, {
+    limit: 1,
+    maxDistanceKm: GAZETTEER_LIMITS.villageRadiusKm,
+    kinds: ['village', 'beach']
+  })[0];
+
+  const townKinds: GazetteerPlaceKind[] = ['city', 'town', 'port'];
+  const town = (district && findNearestPlaces(lat, lng, {
+    limit: 1,
+    maxDistanceKm: GAZETTEER_LIMITS.townRadiusKm,
+    kinds: townKinds,
+    district
+  })[0]) || (!zone && findNearestPlaces(lat, lng, {
+    limit: 1,
+    maxDistanceKm: GAZETTEER_LIMITS.townRadiusKm,
+    kinds: townKinds
+  })[0]) || null;
+
+  // Inside a town, a beach or village on its outskirts does not name the location
+  const inVillage = !!village && (!town || village.distanceKm < town.distanceKm);
+
+  return {
+    village: inVillage ? village.place : null,
+    town: town ? town.place : null,
+    nearest,
+    district,
+    state,
+    zone
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Forward search
+// ---------------------------------------------------------------------------
+
+const normalizeName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const SEARCH_INDEX = COASTAL_GAZETTEER.map(place => ({
+  place,
+  names: [place.name, ...(place.aliases || [])].map(normalizeName),
+  district: normalizeName(place.district),
+  state: normalizeName(place.state)
+}));
+
+/**
+ * Places matching a name, best match first
+ * Accepts "Place", "Place, District" or "Place, State"; exact names and aliases
+ * rank above prefixes, which rank above substrings
+ */
+export const searchPlaces = (query: string, limit: number = 10): GazetteerPlace[] => {
+  const [namePart, ...qualifiers] = query.split(',').map(normalizeName).filter(Boolean);
+  if (!namePart) return [];
+
+  const scored = SEARCH_INDEX
+    .filter(entry => qualifiers.every(q =>
+      entry.district.includes(q) || entry.state.includes(q) || q === 'india'
+    ))
+    .map(entry => {
+      const score = Math.min(...entry.names.map(name =>
+        name === namePart ? 0 : name.startsWith(namePart) ? 1 : name.includes(namePart) ? 2 : Infinity
+      ));
+      return { place: entry.place, score };
+    })
+    .filter(entry => entry.score !== Infinity);
+
+  return scored
+    .sort((a, b) => a.score - b.score || KIND_RANK[a.place.kind] - KIND_RANK[b.place.kind])
+    .slice(0, limit)
+    .map(entry => entry.place);
+};
@@ -1,58 +1,27 @@
 /**
- * Free geocoding utilities for Nivaran
- * Primary: OpenCage Geocoder (Free tier: 2,500 requests/day)
- * Features: Major City Priority, Distance-based Detection
- * Fallbacks: BigDataCloud, OpenStreetMap Nominatim
+ * Geocoding utilities for Nivaran
+ * Primary: bundled coastal gazetteer and coastal zones (works offline, no API key)
+ * Optional: OpenCage Geocoder or OpenStreetMap Nominatim to fill in the street address
  *
  * Key Features:
- * - Detects nearest major city within 50km radius
- * - Supports 30+ major cities worldwide
- * - Rural areas return nearest big city
- * - Multiple API fallbacks for reliability
+ * - Structured results: village, town, district, state and coastal zone
+ * - Points at sea are named after their coastal district or sea zone
+ * - A location is never filed under a town in another coastal district
+ * - Forward search over village, town, port and beach names and their old spellings
  *
- * To get your free OpenCage API key:
- * 1. Go to https://opencagedata.com/
- * 2. Sign up for free account
- * 3. Get your API key from dashboard
- * 4. Replace the API key in OPENCAGE_API_KEY constant
+ * Online lookups only run when the browser is online. OpenCage is used when
+ * VITE_OPENCAGE_API_KEY is set; set VITE_ONLINE_GEOCODING=false to stay offline.
  */
 
-// Configuration - Replace 'demo' with your actual OpenCage API key
-const OPENCAGE_API_KEY = '128f26f2b14446b7b2c17976b7fdb12e'; // Replace with your API key
-
-// Major cities with their coordinates for distance calculation
-const majorCitiesWithCoords = [
-  { name: "Mumbai", lat: 19.0760, lng: 72.8777 },
-  { name: "Delhi", lat: 28.7041, lng: 77.1025 },
-  { name: "Bengaluru", lat: 12.9716, lng: 77.5946 },
-  { name: "Hyderabad", lat: 17.3850, lng: 78.4867 },
-  { name: "Chennai", lat: 13.0827, lng: 80.2707 },
-  { name: "Kolkata", lat: 22.5726, lng: 88.3639 },
-  { name: "Ahmedabad", lat: 23.0225, lng: 72.5714 },
-  { name: "Pune", lat: 18.5204, lng: 73.8567 },
-  { name: "Indore", lat: 22.7196, lng: 75.8577 },
-  { name: "Jaipur", lat: 26.9124, lng: 75.7873 },
-  { name: "Lucknow", lat: 26.8467, lng: 80.9462 },
-  { name: "Kanpur", lat: 26.4499, lng: 80.3319 },
-  { name: "Nagpur", lat: 21.1458, lng: 79.0882 },
-  { name: "Thane", lat: 19.2183, lng: 72.9781 },
-  { name: "Bhopal", lat: 23.2599, lng: 77.4126 },
-  { name: "Visakhapatnam", lat: 17.6868, lng: 83.2185 },
-  { name: "Patna", lat: 25.5941, lng: 85.1376 },
-  { name: "Vadodara", lat: 22.3072, lng: 73.1812 },
-  { name: "Ludhiana", lat: 30.9010, lng: 75.8573 },
-  { name: "Agra", lat: 27.1767, lng: 78.0081 },
-  { name: "New York", lat: 40.7128, lng: -74.0060 },
-  { name: "London", lat: 51.5074, lng: -0.1278 },
-  { name: "Tokyo", lat: 35.6762, lng: 139.6503 },
-  { name: "Shanghai", lat: 31.2304, lng: 121.4737 },
-  { name: "Paris", lat: 48.8566, lng: 2.3522 },
-  { name: "Singapore", lat: 1.3521, lng: 103.8198 },
-  { name: "Dubai", lat: 25.2048, lng: 55.2708 },
-  { name: "Sydney", lat: -33.8688, lng: 151.2093 },
-  { name: "Toronto", lat: 43.6532, lng: -79.3832 },
-  { name: "Berlin", lat: 52.5200, lng: 13.4050 }
-];
+import { getZonePlaceName } from './CoastalZoneService';
+import { describeLocation, searchPlaces, type GazetteerLocation } from './GazetteerService';
+
+// Optional online providers
+const OPENCAGE_API_KEY: string | undefined = import.meta.env.VITE_OPENCAGE_API_KEY;
+const ONLINE_GEOCODING_ENABLED = import.meta.env.VITE_ONLINE_GEOCODING !== 'false';
+
+// Within this distance of the nearest place a point at sea is described from the shore
+const OFFSHORE_LABEL_DISTANCE_KM = 5;
 
 // Interface for geocoding result
 export interface GeocodeResult {
@@ -61,144 +30,97 @@ export interface GeocodeResult {
   country?: string;
   state?: string;
   postalCode?: string;
+  village?: string;
+  district?: string;
+  coastal_zone?: string | null; // Zone id (see CoastalZoneService)
+  source?: 'gazetteer' | 'online';
 }
 
-/**
- * Find the nearest major city to given coordinates
- * @param lat Latitude
- * @param lng Longitude
- * @returns Name of the nearest major city
- */
-const findNearestMajorCity = (lat: number, lng: number): string => {
-  let nearestCity = "Unknown";
-  let minDistance = Infinity;
-
-  for (const city of majorCitiesWithCoords) {
-    const distance = calculateDistance(lat, lng, city.lat, city.lng);
-    if (distance < minDistance) {
-      minDistance = distance;
-      nearestCity = city.name;
-    }
-  }
+// Address fields an online provider can add to the offline result
+interface OnlineAddress {
+  address: string;
+  city?: string;
+  country?: string;
+  state?: string;
+  postalCode?: string;
+}
 
-  return nearestCity;
-};
+const isOnlineGeocodingAvailable = (): boolean =>
+  ONLINE_GEOCODING_ENABLED && (typeof navigator === 'undefined' || navigator.onLine !== false);
 
 /**
- * Enhanced city detection with priority for major cities
- * @param components Address components from geocoding API
- * @param lat Latitude for distance calculation
- * @param lng Longitude for distance calculation
- * @returns Most appropriate city name
+ * Build a geocoding result from the gazetteer alone
+ * @param location Gazetteer description of the point
+ * @param lat Latitude
+ * @param lng Longitude
+ * @returns Geocoding result; city is "Unknown" far from any listed place or zone
  */
-const extractCityWithMajorPriority = (components: any, lat: number, lng: number): string => {
-  // First, try to find the nearest major city (within 50km)
-  const nearestMajorCity = findNearestMajorCity(lat, lng);
-  const distanceToNearest = calculateDistance(lat, lng,
-    majorCitiesWithCoords.find(c => c.name === nearestMajorCity)?.lat || 0,
-    majorCitiesWithCoords.find(c => c.name === nearestMajorCity)?.lng || 0
-  );
-
-  // If nearest major city is within 50km, prefer it
-  if (distanceToNearest <= 50) {
-    return nearestMajorCity;
+const toGeocodeResult = (location: GazetteerLocation, lat: number, lng: number): GeocodeResult => {
+  const { village, town, nearest, district, state, zone } = location;
+  const atSea = !!zone && zone.kind !== 'district';
+  const offshore = atSea && (!nearest || nearest.distanceKm > OFFSHORE_LABEL_DISTANCE_KM);
+
+  const city = offshore
+    ? getZonePlaceName(zone)
+    : town?.name || village?.name || district || (zone ? getZonePlaceName(zone) : 'Unknown');
+
+  let address: string;
+  if (offshore) {
+    address = nearest
+      ? `${Math.round(nearest.distanceKm)} km off ${nearest.place.name}, ${getZonePlaceName(zone)}`
+      : getZonePlaceName(zone);
+  } else if (district || village || town) {
+    const parts = [village?.name, town?.name, district, state, 'India'].filter((part): part is string => !!part);
+    address = [...new Set(parts)].join(', ');
+  } else {
+    address = `Lat: ${lat.toFixed(6)}, Lng: ${lng.toFixed(6)}`;
   }
 
-  // Otherwise, use the standard priority order
-  return components.city ||
-         components.town ||
-         components.village ||
-         components.municipality ||
-         components.suburb ||
-         components.county ||
-         components.state_district ||
-         nearestMajorCity; // Fallback to nearest major city
+  return {
+    city,
+    address,
+    country: district || zone ? 'India' : undefined,
+    state: state || undefined,
+    village: village?.name,
+    district: district || undefined,
+    coastal_zone: zone ? zone.id : null,
+    source: 'gazetteer'
+  };
 };
 
 /**
- * Get city and address from coordinates using OpenCage Geocoder (Free tier available)
+ * Look up a street address online, OpenCage first when a key is configured
  * @param lat Latitude
  * @param lng Longitude
- * @returns Promise with geocoding result
+ * @returns Address fields, or null when every provider fails
  */
-export const reverseGeocode = async (lat: number, lng: number): Promise<GeocodeResult> => {
-  // Try OpenCage Geocoder first (free tier: 2,500 requests/day)
-  try {
-    const response = await fetch(
-      `https://api.opencagedata.com/geocode/v1/json?q=${lat}+${lng}&key=${OPENCAGE_API_KEY}&language=en&pretty=1`
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-
-      if (data && data.results && data.results.length > 0) {
-        const result = data.results[0];
-        const components = result.components;
-
-        // Enhanced city detection with major city priority
-        const city = extractCityWithMajorPriority(components, lat, lng);
-
-        // Debug logging
-        console.log('OpenCage Geocoding result:', {
-          city,
-          nearestMajorCity: findNearestMajorCity(lat, lng),
-          fullAddress: result.formatted,
-          components: result.components
-        });
-
-        return {
-          city: city,
-          address: result.formatted || `Lat: ${lat.toFixed(6)}, Lng: ${lng.toFixed(6)}`,
-          country: components.country,
-          state: components.state,
-          postalCode: components.postcode
-        };
-      }
-    }
-  } catch (error) {
-    console.warn('OpenCage Geocoder failed:', error);
-  }
-
-  // Try BigDataCloud as fallback (free tier)
-  try {
-    const response = await fetch(
-      `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${lat}&longitude=${lng}&localityLanguage=en`
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-
-      if (data) {
-        // Create components object for consistent processing
-        const components = {
-          city: data.city,
-          town: data.city,
-          village: data.city,
-          municipality: data.city,
-          suburb: data.localityInfo?.administrative?.[3]?.name,
-          county: data.localityInfo?.administrative?.[2]?.name,
-          state_district: data.localityInfo?.administrative?.[1]?.name
-        };
-
-        const city = extractCityWithMajorPriority(components, lat, lng);
-
-        const result: GeocodeResult = {
-          city: city,
-          address: data.localityInfo?.informative?.[0]?.description ||
-                  `Lat: ${lat.toFixed(6)}, Lng: ${lng.toFixed(6)}`,
-          country: data.countryName,
-          state: data.principalSubdivision,
-          postalCode: data.postcode
-        };
-
-        return result;
+const fetchOnlineAddress = async (lat: number, lng: number): Promise<OnlineAddress | null> => {
+  if (OPENCAGE_API_KEY) {
+    try {
+      const response = await fetch(
+        `https://api.opencagedata.com/geocode/v1/json?q=${lat}+${lng}&key=${OPENCAGE_API_KEY}&language=en&no_annotations=1`
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        const result = data?.results?.[0];
+
+        if (result) {
+          const components = result.components || {};
+          return {
+            address: result.formatted,
+            city: components.city || components.town || components.village,
+            country: components.country,
+            state: components.state,
+            postalCode: components.postcode
+          };
+        }
       }
+    } catch (error) {
+      console.warn('OpenCage Geocoder failed:', error);
     }
-  } catch (error) {
-    console.warn('BigDataCloud API failed:', error);
   }
 
-  // Try OpenStreetMap Nominatim as final fallback (completely free)
   try {
     const response = await fetch(
       `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`,
@@ -213,24 +135,9 @@ export const reverseGeocode = async (lat: number, lng: number): Promise<GeocodeR
       const data = await response.json();
 
       if (data && data.address) {
-        // Create components object for consistent processing
-        const components = {
-          city: data.address.city,
-          town: data.address.town,
-          village: data.address.village,
-          municipality: data.address.municipality,
-          suburb: data.address.suburb,
-          county: data.address.county,
-          state_district: data.address.state_district
-        };
-
-        const city = extractCityWithMajorPriority(components, lat, lng);
-
-        console.log('OSM Fallback result:', { city, fullAddress: data.display_name });
-
         return {
-          city: city,
-          address: data.display_name || `Lat: ${lat.toFixed(6)}, Lng: ${lng.toFixed(6)}`,
+          address: data.display_name,
+          city: data.address.city || data.address.town || data.address.village,
           country: data.address.country,
           state: data.address.state,
           postalCode: data.address.postcode
@@ -238,22 +145,67 @@ export const reverseGeocode = async (lat: number, lng: number): Promise<GeocodeR
       }
     }
   } catch (error) {
-    console.warn('OpenStreetMap Nominatim fallback failed:', error);
+    console.warn('OpenStreetMap Nominatim failed:', error);
+  }
+
+  return null;
+};
+
+/**
+ * Get city and address from coordinates
+ * The gazetteer answers first; when online, a provider fills in the street
+ * address and postcode while the place, district and zone stay offline values
+ * @param lat Latitude
+ * @param lng Longitude
+ * @returns Promise with geocoding result
+ */
+export const reverseGeocode = async (lat: number, lng: number): Promise<GeocodeResult> => {
+  const offline = reverseGeocodeOffline(lat, lng);
+  if (!isOnlineGeocodingAvailable()) {
+    return offline;
+  }
+
+  const online = await fetchOnlineAddress(lat, lng);
+  if (!online || !online.address) {
+    return offline;
   }
 
-  // Final fallback
   return {
-    city: "Unknown",
-    address: `Lat: ${lat.toFixed(6)}, Lng: ${lng.toFixed(6)}`
+    ...offline,
+    city: offline.city === 'Unknown' && online.city ? online.city : offline.city,
+    address: online.address,
+    country: offline.country || online.country,
+    state: offline.state || online.state,
+    postalCode: online.postalCode,
+    source: 'online'
   };
 };
 
 /**
- * Get coordinates from city name using free APIs
- * @param cityName Name of the city
+ * Get city and address from coordinates using only the bundled gazetteer
+ * @param lat Latitude
+ * @param lng Longitude
+ * @returns Geocoding result
+ */
+export const reverseGeocodeOffline = (lat: number, lng: number): GeocodeResult =>
+  toGeocodeResult(describeLocation(lat, lng), lat, lng);
+
+/**
+ * Get coordinates from a place name, e.g. "Alibag" or "Kovalam, Kerala"
+ * Searches the gazetteer first and Nominatim only for places it does not list
+ * @param cityName Name of the place
  * @returns Promise with coordinates
  */
 export const geocodeCity = async (cityName: string): Promise<{ lat: number; lng: number } | null> => {
+  const [place] = searchPlaces(cityName, 1);
+  if (place) {
+    return { lat: place.lat, lng: place.lng };
+  }
+
+  if (!isOnlineGeocodingAvailable()) {
+    return null;
+  }
+
   try {
     const response = await fetch(
       `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(cityName)}&limit=1`,
@@ -334,6 +286,7 @@ export const testGeocodingAccuracy = async (testCases: Array<{ lat: number; lng:
 
 export default {
   reverseGeocode,
+  reverseGeocodeOffline,
   geocodeCity,
   validateCoordinates,
   calculateDistance,
@@ -0,0 +1,493 @@
+/**
+ * Geofence Service
+ * Saved places ("home", "fishing harbour", a family member's village) that the
+ * user wants to hear about, each with a radius and the hazards to watch for
+ *
+ * New and updated reports from the realtime map stream, and INCOIS warnings
+ * polled for every place, are matched against the geofences. Each match becomes
+ * one notification through EnhancedNotificationService, which applies the
+ * user's channel and do-not-disturb preferences. Places and the record of
+ * alerts already sent live in IndexedDB, so a report or warning never alerts
+ * twice for the same place, across reloads too. When reports are stored in
+ * Supabase, places are also copied to the saved_places table so alerts issued
+ * for an affected zone reach the people watching places inside it. Row level
+ * security keeps each user's copies private; only admins can look up other
+ * users' places, through the saved_places_in_bounds function.
+ */
+
+import { isIndexedDBAvailable, openDatabase, promisifyRequest, transactionDone } from '../utils/indexedDb';
+import { createNotification, type NotificationType } from './EnhancedNotificationService';
+import { geospatialUtils } from './GeospatialUtils';
+import { incoisService, type EarlyWarning } from './INCOISService';
+import { subscribeToMapUpdates, type MapIssue } from './MapDataService';
+import { getReportRepository } from './ReportRepository';
+import { supabase } from './supabase';
+import { getHazardTypeFromCategory } from '../utils/hazardCategories';
+
+export interface Geofence {
+  id: string;
+  user_id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radius_km: number;
+  hazard_types: string[]; // Hazard types to alert on; empty means every hazard
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type GeofenceInput = Pick<Geofence, 'name' | 'lat' | 'lng' | 'radius_km' | 'hazard_types'> &
+  Partial<Pick<Geofence, 'id' | 'enabled'>>;
+
+export interface GeofenceMatch {
+  geofence: Geofence;
+  distanceKm: number;
+}
+
+interface GeofenceDelivery {
+  key: string; // `${geofenceId}|${source}`
+  geofence_id: string;
+  delivered_at: string;
+}
+
+export const GEOFENCES_UPDATED_EVENT = 'geofencesUpdated';
+export const GEOFENCE_ALERT_EVENT = 'geofenceAlert';
+
+// Report hazard types plus the INCOIS warning types that have no report category
+export const GEOFENCE_HAZARD_TYPES: Array<{ value: string; label: string }> = [
+  { value: 'tsunami', label: 'Tsunami' },
+  { value: 'cyclone', label: 'Cyclone' },
+  { value: 'storm_surge', label: 'Storm surge' },
+  { value: 'high_waves', label: 'High waves' },
+  { value: 'swell_surge', label: 'Swell surge' },
+  { value: 'coastal_flood', label: 'Coastal flooding' },
+  { value: 'coastal_current', label: 'Coastal currents' },
+  { value: 'coastal_erosion', label: 'Coastal erosion' },
+  { value: 'unusual_sea_behavior', label: 'Unusual sea behaviour' },
+  { value: 'marine_heatwave', label: 'Marine heatwave' },
+  { value: 'marine_debris', label: 'Marine debris' },
+  { value: 'infrastructure_damage', label: 'Coastal infrastructure' },
+  { value: 'general_hazard', label: 'Other hazards' }
+];
+
+const WARNING_TYPES: Array<EarlyWarning['type']> = [
+  'tsunami', 'cyclone', 'storm_surge', 'high_waves', 'coastal_flood', 'marine_heatwave'
+];
+
+export const GEOFENCE_LIMITS = {
+  minRadiusKm: 1,
+  maxRadiusKm: 50,
+  defaultRadiusKm: 10,
+  warningPollMinutes: 15,
+  deliveryRetentionDays: 14 // Long enough to outlive any warning's validity
+};
+
+const GEOFENCE_DB_NAME = 'jalBandhu-geofences';
+const GEOFENCE_DB_VERSION = 1;
+const GEOFENCE_STORE = 'geofences';
+const DELIVERY_STORE = 'deliveries';
+
+const ISSUE_NOTIFICATION_TYPE: Record<MapIssue['priority'], NotificationType> = {
+  Urgent: 'error',
+  High: 'warning',
+  Medium: 'info',
+  Low: 'info'
+};
+
+const WARNING_NOTIFICATION_TYPE: Record<EarlyWarning['severity'], NotificationType> = {
+  emergency: 'error',
+  warning: 'error',
+  advisory: 'warning',
+  watch: 'info'
+};
+
+const formatDistanceKm = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+
+const watchesHazard = (geofence: Geofence, hazardType: string): boolean =>
+  geofence.hazard_types.length === 0 || geofence.hazard_types.includes(hazardType);
+
+/**
+ * Geofences that contain a location and watch for the given hazard type,
+ * nearest first
+ */
+export const matchGeofences = (
+  geofences: Geofence[],
+  lat: number,
+  lng: number,
+  hazardType: string
+): GeofenceMatch[] =>
+  geofences
+    .filter(geofence => geofence.enabled && watchesHazard(geofence, hazardType))
+    .map(geofence => ({
+      geofence,
+      distanceKm: geospatialUtils.calculateDistance(
+        { latitude: geofence.lat, longitude: geofence.lng },
+        { latitude: lat, longitude: lng }
+      ) / 1000
+    }))
+    .filter(match => match.distanceKm <= match.geofence.radius_km)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+/**
+ * Distance from a geofence centre to the area a warning covers
+ * Zero inside a warning polygon; a warning without coordinates covers the
+ * whole region it was requested for
+ */
+export const getWarningDistanceKm = (geofence: Geofence, warning: EarlyWarning): number => {
+  const center = { latitude: geofence.lat, longitude: geofence.lng };
+  const points = warning.coordinates || [];
+  if (points.length === 0) return 0;
+
+  if (points.length >= 3 && geospatialUtils.isPointInPolygon(center, [points.map(point => [point.lng, point.lat])])) {
+    return 0;
+  }
+
+  return Math.min(...points.map(point =>
+    geospatialUtils.calculateDistance(center, { latitude: point.lat, longitude: point.lng }) / 1000
+  ));
+};
+
+class GeofenceService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private memoryGeofences = new Map<string, Geofence>(); // Used when IndexedDB is unavailable
+  private memoryDeliveries = new Map<string, GeofenceDelivery>();
+  private userId: string | null = null;
+  private subscription: ReturnType<typeof subscribeToMapUpdates> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Saved places of a user, by name
+   */
+  async getGeofences(userId: string): Promise<Geofence[]> {
+    const geofences = (await this.loadGeofences()).filter(geofence => geofence.user_id === userId);
+    return geofences.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Create a saved place, or update it when the input carries an id
+   */
+  async saveGeofence(userId: string, input: GeofenceInput): Promise<Geofence> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('A saved place needs a name');
+    }
+    if (!geospatialUtils.isValidCoordinate({ latitude: input.lat, longitude: input.lng })) {
+      throw new Error('Invalid coordinates for saved place');
+    }
+
+    const now = new Date().toISOString();
+    const existing = input.id ? (await this.loadGeofences()).find(geofence => geofence.id === input.id) : undefined;
+    const geofence: Geofence = {
+      id: existing?.id || `geofence_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      user_id: userId,
+      name,
+      lat: input.lat,
+      lng: input.lng,
+      radius_km: Math.min(GEOFENCE_LIMITS.maxRadiusKm, Math.max(GEOFENCE_LIMITS.minRadiusKm, input.radius_km)),
+      hazard_types: [...new Set(input.hazard_types)],
+      enabled: input.enabled ?? existing?.enabled ?? true,
+      created_at: existing?.created_at || now,
+      updated_at: now
+    };
+
+    await this.putGeofence(geofence);
+    this.mirrorGeofence(geofence);
+    this.notifyUpdated(userId);
+
+    // A new or moved place may already sit inside an active warning
+    if (this.userId === userId) {
+      this.checkWarnings();
+    }
+    return geofence;
+  }
+
+  async deleteGeofence(id: string): Promise<void> {
+    const geofence = (await this.loadGeofences()).find(item => item.id === id);
+    if (!geofence) return;
+
+    await this.removeGeofence(id);
+    this.mirrorGeofence(geofence, true);
+    this.notifyUpdated(geofence.user_id);
+  }
+
+  /**
+   * Enabled saved places of every user inside a bounding box, for targeting
+   * zone alerts: the admin-only saved_places_in_bounds function when reports
+   * are stored in Supabase, otherwise the places kept on this device
+   */
+  async listSavedPlacesInBounds(bounds: { north: number; south: number; east: number; west: number }): Promise<Geofence[]> {
+    if (getReportRepository().type !== 'supabase') {
+      return (await this.loadGeofences()).filter(geofence =>
+        geofence.enabled &&
+        geofence.lat >= bounds.south && geofence.lat <= bounds.north &&
+        geofence.lng >= bounds.west && geofence.lng <= bounds.east
+      );
+    }
+
+    const { data, error } = await supabase.rpc('saved_places_in_bounds', {
+      north: bounds.north,
+      south: bounds.south,
+      east: bounds.east,
+      west: bounds.west
+    });
+    if (error) throw error;
+    return (data || []) as Geofence[];
+  }
+
+  /**
+   * Start watching the realtime report stream and INCOIS warnings for a user
+   */
+  start(userId: string): void {
+    if (this.userId === userId) return;
+    this.stop();
+    this.userId = userId;
+
+    this.subscription = subscribeToMapUpdates(
+      issue => this.checkIssue(issue),
+      // A report edited into a geofence alerts once; deliveries stop repeats
+      issue => this.checkIssue(issue),
+      () => undefined,
+      'geofence_reports'
+    );
+
+    this.pruneDeliveries();
+    this.checkWarnings();
+    this.pollTimer = setInterval(() => this.checkWarnings(), GEOFENCE_LIMITS.warningPollMinutes * 60 * 1000);
+  }
+
+  /**
+   * Cleanup the subscription and timers
+   */
+  stop(): void {
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+      this.subscription = null;
+    }
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.userId = null;
+  }
+
+  /**
+   * Alert on a report that falls inside the current user's geofences
+   */
+  async checkIssue(issue: MapIssue): Promise<void> {
+    const userId = this.userId;
+    if (!userId || issue.status === 'Resolved') return;
+
+    try {
+      const hazardType = getHazardTypeFromCategory(issue.category);
+      const matches = matchGeofences(await this.getGeofences(userId), issue.location.lat, issue.location.lng, hazardType);
+
+      for (const { geofence, distanceKm } of matches) {
+        await this.deliver(geofence, `report:${issue.report_id}`, {
+          user_id: userId,
+          title: `${issue.category} near ${geofence.name}`,
+          message: `"${issue.title}" was reported ${formatDistanceKm(distanceKm)} from ${geofence.name}` +
+            `${issue.location.address ? ` at ${issue.location.address}` : ''}.`,
+          type: ISSUE_NOTIFICATION_TYPE[issue.priority] || 'info',
+          related_report_id: issue.report_id
+        });
+      }
+    } catch (error) {
+      console.error('Geofences: error checking report', issue.report_id, error);
+    }
+  }
+
+  /**
+   * Fetch INCOIS warnings around every enabled geofence and alert on new ones
+   */
+  async checkWarnings(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    try {
+      const geofences = (await this.getGeofences(userId)).filter(geofence => geofence.enabled);
+      const now = Date.now();
+
+      for (const geofence of geofences) {
+        const watchedTypes = geofence.hazard_types.filter(type => (WARNING_TYPES as string[]).includes(type));
+        if (geofence.hazard_types.length > 0 && watchedTypes.length === 0) continue;
+
+        const response = await incoisService.getEarlyWarnings(
+          { lat: geofence.lat, lng: geofence.lng },
+          watchedTypes.length > 0 ? watchedTypes : undefined,
+          geofence.radius_km
+        );
+        if (!response.success || !response.data) continue;
+
+        const warnings = response.data.filter(warning =>
+          new Date(warning.validUntil).getTime() > now &&
+          watchesHazard(geofence, warning.type) &&
+          getWarningDistanceKm(geofence, warning) <= geofence.radius_km
+        );
+
+        for (const warning of warnings) {
+          await this.deliver(geofence, `warning:${warning.id}`, {
+            user_id: userId,
+            title: `${warning.title} for ${geofence.name}`,
+            message: `${warning.description} Valid until ${new Date(warning.validUntil).toLocaleString()}.`,
+            type: WARNING_NOTIFICATION_TYPE[warning.severity] || 'warning'
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Geofences: error checking INCOIS warnings:', error);
+    }
+  }
+
+  /**
+   * Send one alert per geofence and source, however often the source is seen
+   */
+  private async deliver(
+    geofence: Geofence,
+    source: string,
+    notification: { user_id: string; title: string; message: string; type: NotificationType; related_report_id?: string }
+  ): Promise<void> {
+    const key = `${geofence.id}|${source}`;
+    if (await this.getDelivery(key)) return;
+
+    // Recorded first so an alert that races a second stream event is not sent twice
+    await this.putDelivery({ key, geofence_id: geofence.id, delivered_at: new Date().toISOString() });
+
+    const sent = await createNotification(
+      { ...notification, read: false, channel: 'all' },
+      { category: 'hazard_alert' }
+    );
+    if (sent && typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(GEOFENCE_ALERT_EVENT, {
+        detail: { geofenceId: geofence.id, source }
+      }));
+    }
+  }
+
+  private async pruneDeliveries(): Promise<void> {
+    try {
+      const cutoff = Date.now() - GEOFENCE_LIMITS.deliveryRetentionDays * 24 * 60 * 60 * 1000;
+      const deliveries = await this.loadDeliveries();
+      for (const delivery of deliveries) {
+        if (new Date(delivery.delivered_at).getTime() < cutoff) {
+          await this.removeDelivery(delivery.key);
+        }
+      }
+    } catch (error) {
+      console.error('Geofences: error pruning delivered alerts:', error);
+    }
+  }
+
+  // --- Storage -------------------------------------------------------------
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(GEOFENCE_DB_NAME, GEOFENCE_DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          const store = db.createObjectStore(GEOFENCE_STORE, { keyPath: 'id' });
+          store.createIndex('user_id', 'user_id');
+          db.createObjectStore(DELIVERY_STORE, { keyPath: 'key' });
+        }
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async loadGeofences(): Promise<Geofence[]> {
+    if (!isIndexedDBAvailable()) {
+      return [...this.memoryGeofences.values()];
+    }
+    const db = await this.getDb();
+    const store = db.transaction(GEOFENCE_STORE, 'readonly').objectStore(GEOFENCE_STORE);
+    return promisifyRequest(store.getAll()) as Promise<Geofence[]>;
+  }
+
+  private async putGeofence(geofence: Geofence): Promise<void> {
+    if (!isIndexedDBAvailable()) {
+      this.memoryGeofences.set(geofence.id, geofence);
+      return;
+    }
+    const db = await this.getDb();
+    const transaction = db.transaction(GEOFENCE_STORE, 'readwrite');
+    transaction.objectStore(GEOFENCE_STORE).put(geofence);
+    await transactionDone(transaction);
+  }
+
+  private async removeGeofence(id: string): Promise<void> {
+    if (!isIndexedDBAvailable()) {
+      this.memoryGeofences.delete(id);
+      return;
+    }
+    const db = await this.getDb();
+    const transaction = db.transaction(GEOFENCE_STORE, 'readwrite');
+    transaction.objectStore(GEOFENCE_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  private async loadDeliveries(): Promise<GeofenceDelivery[]> {
+    if (!isIndexedDBAvailable()) {
+      return [...this.memoryDeliveries.values()];
+    }
+    const db = await this.getDb();
+    const store = db.transaction(DELIVERY_STORE, 'readonly').objectStore(DELIVERY_STORE);
+    return promisifyRequest(store.getAll()) as Promise<GeofenceDelivery[]>;
+  }
+
+  private async getDelivery(key: string): Promise<GeofenceDelivery | null> {
+    if (!isIndexedDBAvailable()) {
+      return this.memoryDeliveries.get(key) || null;
+    }
+    const db = await this.getDb();
+    const store = db.transaction(DELIVERY_STORE, 'readonly').objectStore(DELIVERY_STORE);
+    return ((await promisifyRequest(store.get(key))) as GeofenceDelivery | undefined) || null;
+  }
+
+  private async putDelivery(delivery: GeofenceDelivery): Promise<void> {
+    if (!isIndexedDBAvailable()) {
+      this.memoryDeliveries.set(delivery.key, delivery);
+      return;
+    }
+    const db = await this.getDb();
+    const transaction = db.transaction(DELIVERY_STORE, 'readwrite');
+    transaction.objectStore(DELIVERY_STORE).put(delivery);
+    await transactionDone(transaction);
+  }
+
+  private async removeDelivery(key: string): Promise<void> {
+    if (!isIndexedDBAvailable()) {
+      this.memoryDeliveries.delete(key);
+      return;
+    }
+    const db = await this.getDb();
+    const transaction = db.transaction(DELIVERY_STORE, 'readwrite');
+    transaction.objectStore(DELIVERY_STORE).delete(key);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Copy a saved place to the server; the device copy stays authoritative,
+   * so a failed copy is only logged
+   */
+  private mirrorGeofence(geofence: Geofence, removed = false): void {
+    if (getReportRepository().type !== 'supabase') return;
+
+    const request = removed
+      ? supabase.from('saved_places').delete().eq('id', geofence.id)
+      : supabase.from('saved_places').upsert(geofence);
+    Promise.resolve(request).then(({ error }) => {
+      if (error) console.warn('Geofences: could not copy saved place to the server:', error);
+    });
+  }
+
+  private notifyUpdated(userId: string): void {
+    if (typeof window === 'undefined') return;
+    window.dispatchEvent(new CustomEvent(GEOFENCES_UPDATED_EVENT, { detail: { userId } }));
+  }
+}
+
+// Create singleton instance
+export const geofenceService = new GeofenceService();
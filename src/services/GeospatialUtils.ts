@@ -6,12 +6,16 @@
  * Uses the Haversine formula for accurate distance calculations on Earth's surface.
  */
 
+import { SpatialIndex } from './SpatialIndex';
+import { gradeLocationAccuracy } from './LocationQualityService';
+
 /**
  * Interface for GPS coordinates
  */
 export interface GeoCoordinate {
   latitude: number;
   longitude: number;
+  accuracy?: number; // Horizontal accuracy radius in meters, when the fix recorded one
 }
 
 /**
@@ -21,7 +25,7 @@ export interface ProximityResult {
   distance: number; // Distance in meters
   isWithinRadius: boolean; // Whether within specified radius
   bearing: number; // Compass bearing from point A to point B (0-360 degrees)
-  accuracy: 'high' | 'medium' | 'low'; // Accuracy assessment based on coordinate precision
+  accuracy: 'high' | 'medium' | 'low'; // Accuracy of the worse of the two coordinates
 }
 
 /**
@@ -147,9 +151,14 @@ export class GeospatialUtils {
   }
 
   /**
-   * Assess coordinate precision for accuracy rating
+   * Assess coordinate accuracy from the recorded accuracy radius, falling back
+   * to the coordinate precision for positions that did not record one
    */
   public assessCoordinateAccuracy(coord: GeoCoordinate): 'high' | 'medium' | 'low' {
+    if (typeof coord.accuracy === 'number' && Number.isFinite(coord.accuracy)) {
+      return gradeLocationAccuracy(coord.accuracy);
+    }
+
     const latPrecision = Math.abs(coord.latitude % 1);
     const lonPrecision = Math.abs(coord.longitude % 1);
     const maxPrecision = Math.max(latPrecision, lonPrecision);
@@ -294,38 +303,31 @@ export class GeospatialUtils {
     }
 
     const clusters: GeoCluster[] = [];
-    const processed = new Set<number>();
+
+    // Points are removed from the index as they join a cluster, so each
+    // neighbour lookup only touches nearby unclustered points
+    const index = new SpatialIndex<{ id: string; location: GeoCoordinate; createdAt: Date; position: number }>();
+    const indexedAt = new Date(0);
+    validCoords.forEach((item, position) => index.upsert({ id: String(position), location: item.coord, createdAt: indexedAt, position }));
 
     for (let i = 0; i < validCoords.length; i++) {
-      if (processed.has(i)) {
+      if (!index.has(String(i))) {
         continue;
       }
 
       const centerCoord = validCoords[i];
-      const clusterPoints: Array<{
-        coordinate: GeoCoordinate;
-        index: number;
-        distanceFromCentroid: number;
-      }> = [];
 
       // Find all points within cluster radius
-      for (let j = 0; j < validCoords.length; j++) {
-        if (processed.has(j)) {
-          continue;
-        }
-
-        const candidateCoord = validCoords[j];
-        const distance = this.calculateDistance(centerCoord.coord, candidateCoord.coord);
-
-        if (distance <= maxClusterRadius) {
-          clusterPoints.push({
-            coordinate: candidateCoord.coord,
-            index: candidateCoord.index,
+      const clusterPoints = index
+        .queryRadius({ center: centerCoord.coord, radiusMeters: maxClusterRadius })
+        .map(({ item, distance }) => {
+          index.remove(item.id);
+          return {
+            coordinate: validCoords[item.position].coord,
+            index: validCoords[item.position].index,
             distanceFromCentroid: distance
-          });
-          processed.add(j);
-        }
-      }
+          };
+        });
 
       if (clusterPoints.length > 0) {
         // Calculate actual centroid
@@ -410,22 +412,26 @@ export class GeospatialUtils {
     const hours = distanceKm / walkingSpeedKmh;
     const minutes = Math.round(hours * 60);
 
-    let readableTime: string;
+    return { minutes, readableTime: this.formatDuration(minutes) };
+  }
+
+  /**
+   * Format a travel time in whole minutes for display
+   */
+  public formatDuration(minutes: number): string {
     if (minutes < 1) {
-      readableTime = 'Less than 1 minute';
+      return 'Less than 1 minute';
     } else if (minutes === 1) {
-      readableTime = '1 minute';
+      return '1 minute';
     } else if (minutes < 60) {
-      readableTime = `${minutes} minutes`;
-    } else {
-      const hrs = Math.floor(minutes / 60);
-      const mins = minutes % 60;
-      readableTime = hrs === 1 
-        ? `1 hour${mins > 0 ? ` ${mins} minutes` : ''}`
-        : `${hrs} hours${mins > 0 ? ` ${mins} minutes` : ''}`;
+      return `${minutes} minutes`;
     }
 
-    return { minutes, readableTime };
+    const hrs = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return hrs === 1 
+      ? `1 hour${mins > 0 ? ` ${mins} minutes` : ''}`
+      : `${hrs} hours${mins > 0 ? ` ${mins} minutes` : ''}`;
   }
 
   /**
@@ -443,6 +449,31 @@ export class GeospatialUtils {
     );
   }
 
+  /**
+   * Check if a coordinate lies inside a GeoJSON polygon (outer ring plus holes)
+   * Uses ray casting in plain lng/lat, which is fine for polygons that do not
+   * cross the antimeridian
+   */
+  public isPointInPolygon(coordinate: GeoCoordinate, rings: number[][][]): boolean {
+    const isInRing = (ring: number[][]): boolean => {
+      let inside = false;
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > coordinate.latitude) !== (yj > coordinate.latitude) &&
+            coordinate.longitude < (xj - xi) * (coordinate.latitude - yi) / (yj - yi) + xi) {
+          inside = !inside;
+        }
+      }
+      return inside;
+    };
+
+    if (rings.length === 0 || !isInRing(rings[0])) {
+      return false;
+    }
+    return !rings.slice(1).some(isInRing);
+  }
+
   /**
    * Create a bounding box around a center point with a given radius
    */
@@ -0,0 +1,333 @@
+/**
+ * Grouping Calibration Service
+ * Learns duplicate-detection weights from reviewer decisions
+ *
+ * Features:
+ * - Fits a logistic regression on approve/reject feedback (text, proximity, category signals)
+ * - Turns the coefficients into ReportGroupingService weights and picks the
+ *   minConfidenceThreshold that maximises F1 under the real scoring function
+ * - Reports precision and recall on a holdout of the newest feedback, next to the current config
+ * - Stores each calibration as a config version that an admin applies or rolls back
+ */
+
+import { reportGroupingService, type GroupingConfig, type PairFeatures } from './ReportGroupingService';
+import {
+  getReportGroupRepository,
+  type GroupingConfigVersionRecord,
+  type GroupingFeedbackRecord
+} from './ReportGroupRepository';
+
+// The parts of GroupingConfig that calibration changes
+export const CALIBRATED_KEYS = [
+  'textSimilarityWeight',
+  'proximityWeight',
+  'categoryMatchWeight',
+  'minConfidenceThreshold'
+] as const;
+
+export type CalibratedGroupingConfig = Pick<GroupingConfig, typeof CALIBRATED_KEYS[number]>;
+
+export interface ClassificationMetrics {
+  sampleSize: number;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+}
+
+export interface CalibrationResult {
+  config: CalibratedGroupingConfig;
+  coefficients: { intercept: number; text: number; proximity: number; category: number };
+  training: ClassificationMetrics;
+  validation: ClassificationMetrics; // Proposed config on the holdout
+  baseline: ClassificationMetrics; // Current config on the same holdout
+  positives: number;
+  negatives: number;
+  calibratedAt: string;
+}
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+export const CALIBRATION_SETTINGS = {
+  minSamples: 20,
+  minPerClass: 5,
+  validationFraction: 0.2, // Newest feedback held out
+  iterations: 2000,
+  learningRate: 0.5,
+  l2Penalty: 0.01,
+  minWeight: 0.05, // Keeps every signal able to contribute
+  thresholdRange: { min: 0.3, max: 0.95, step: 0.01 }
+};
+
+interface LabeledPair {
+  features: PairFeatures;
+  isDuplicate: boolean;
+}
+
+const toLabeledPair = (entry: GroupingFeedbackRecord): LabeledPair => ({
+  features: {
+    textScore: Number(entry.textual_similarity_score),
+    distanceMeters: entry.spatial_distance_meters === null ? null : Number(entry.spatial_distance_meters),
+    categoryMatch: entry.category_match,
+    radiusMeters: entry.proximity_radius_meters ?? undefined
+  },
+  isDuplicate: entry.is_duplicate
+});
+
+// The signal values scorePair would use, so the regression sees what the scorer sees
+const toSignalVector = (features: PairFeatures, config: GroupingConfig): [number, number, number] => {
+  const radius = features.radiusMeters ?? config.proximityRadiusMeters;
+  return [
+    features.textScore >= config.textSimilarityThreshold ? features.textScore : 0,
+    features.distanceMeters !== null && features.distanceMeters <= radius
+      ? (radius - features.distanceMeters) / radius
+      : 0,
+    features.categoryMatch ? 1 : 0
+  ];
+};
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+
+/**
+ * Batch gradient descent with L2 regularisation; returns [intercept, w1, w2, w3]
+ */
+const fitLogisticRegression = (samples: Array<{ x: number[]; y: number }>): number[] => {
+  const { iterations, learningRate, l2Penalty } = CALIBRATION_SETTINGS;
+  const coefficients = [0, 0, 0, 0];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const gradient = [0, 0, 0, 0];
+    for (const { x, y } of samples) {
+      const error = sigmoid(coefficients[0] + x[0] * coefficients[1] + x[1] * coefficients[2] + x[2] * coefficients[3]) - y;
+      gradient[0] += error;
+      for (let i = 0; i < 3; i++) {
+        gradient[i + 1] += error * x[i];
+      }
+    }
+    for (let i = 0; i < 4; i++) {
+      const penalty = i === 0 ? 0 : l2Penalty * coefficients[i];
+      coefficients[i] -= learningRate * (gradient[i] / samples.length + penalty);
+    }
+  }
+
+  return coefficients;
+};
+
+export const evaluateConfig = (pairs: LabeledPair[], config: GroupingConfig): ClassificationMetrics => {
+  let truePositives = 0, falsePositives = 0, trueNegatives = 0, falseNegatives = 0;
+
+  for (const pair of pairs) {
+    const predicted = reportGroupingService.scorePair(pair.features, config) >= config.minConfidenceThreshold;
+    if (predicted && pair.isDuplicate) truePositives++;
+    else if (predicted) falsePositives++;
+    else if (pair.isDuplicate) falseNegatives++;
+    else trueNegatives++;
+  }
+
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  return {
+    sampleSize: pairs.length,
+    truePositives,
+    falsePositives,
+    trueNegatives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    accuracy: pairs.length > 0 ? (truePositives + trueNegatives) / pairs.length : 0
+  };
+};
+
+/**
+ * Fit weights and threshold to reviewer feedback
+ * @param feedback - Labeled pairs, any order
+ * @param baseConfig - Supplies the fixed settings (text threshold, radius) and the baseline to compare against
+ */
+export const calibrateGroupingWeights = (
+  feedback: GroupingFeedbackRecord[],
+  baseConfig: GroupingConfig = reportGroupingService.getConfig()
+): CalibrationResult => {
+  const positives = feedback.filter(entry => entry.is_duplicate).length;
+  const negatives = feedback.length - positives;
+
+  if (feedback.length < CALIBRATION_SETTINGS.minSamples) {
+    throw new CalibrationError(
+      `Need at least ${CALIBRATION_SETTINGS.minSamples} reviewed report pairs to calibrate (have ${feedback.length})`
+    );
+  }
+  if (positives < CALIBRATION_SETTINGS.minPerClass || negatives < CALIBRATION_SETTINGS.minPerClass) {
+    throw new CalibrationError(
+      `Need at least ${CALIBRATION_SETTINGS.minPerClass} approved and ${CALIBRATION_SETTINGS.minPerClass} rejected pairs (have ${positives} and ${negatives})`
+    );
+  }
+
+  // Hold out the newest decisions so the metrics reflect how the config will do going forward
+  const ordered = [...feedback]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .map(toLabeledPair);
+  const splitIndex = Math.floor(ordered.length * (1 - CALIBRATION_SETTINGS.validationFraction));
+  const trainingPairs = ordered.slice(0, splitIndex);
+  const validationPairs = ordered.slice(splitIndex);
+
+  const [intercept, text, proximity, category] = fitLogisticRegression(
+    trainingPairs.map(pair => ({ x: toSignalVector(pair.features, baseConfig), y: pair.isDuplicate ? 1 : 0 }))
+  );
+
+  // scorePair normalises by the weights in play, so only their proportions matter
+  const clamped = [text, proximity, category].map(weight => Math.max(weight, CALIBRATION_SETTINGS.minWeight));
+  const total = clamped.reduce((sum, weight) => sum + weight, 0);
+  const [textSimilarityWeight, proximityWeight, categoryMatchWeight] = clamped.map(weight => Math.round((weight / total) * 100) / 100);
+
+  // Pick the threshold with the best F1 on the training pairs, preferring higher thresholds on ties
+  const { min, max, step } = CALIBRATION_SETTINGS.thresholdRange;
+  let bestThreshold = baseConfig.minConfidenceThreshold;
+  let bestF1 = -1;
+  for (let threshold = min; threshold <= max + 1e-9; threshold += step) {
+    const candidate = { ...baseConfig, textSimilarityWeight, proximityWeight, categoryMatchWeight, minConfidenceThreshold: threshold };
+    const { f1 } = evaluateConfig(trainingPairs, candidate);
+    if (f1 >= bestF1) {
+      bestF1 = f1;
+      bestThreshold = Math.round(threshold * 100) / 100;
+    }
+  }
+
+  const config: CalibratedGroupingConfig = {
+    textSimilarityWeight,
+    proximityWeight,
+    categoryMatchWeight,
+    minConfidenceThreshold: bestThreshold
+  };
+
+  return {
+    config,
+    coefficients: { intercept, text, proximity, category },
+    training: evaluateConfig(trainingPairs, { ...baseConfig, ...config }),
+    validation: evaluateConfig(validationPairs, { ...baseConfig, ...config }),
+    baseline: evaluateConfig(validationPairs, baseConfig),
+    positives,
+    negatives,
+    calibratedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Calibrate against all stored feedback
+ */
+export const runGroupingCalibration = async (): Promise<CalibrationResult> => {
+  const feedback = await getReportGroupRepository().listFeedback();
+  return calibrateGroupingWeights(feedback);
+};
+
+const pickCalibratedConfig = (config: GroupingConfig): CalibratedGroupingConfig => ({
+  textSimilarityWeight: config.textSimilarityWeight,
+  proximityWeight: config.proximityWeight,
+  categoryMatchWeight: config.categoryMatchWeight,
+  minConfidenceThreshold: config.minConfidenceThreshold
+});
+
+/**
+ * Save a calibration for review; nothing changes until it is applied
+ */
+export const proposeGroupingConfig = async (
+  result: CalibrationResult,
+  actor: string,
+  notes?: string
+): Promise<GroupingConfigVersionRecord> => {
+  return getReportGroupRepository().saveConfigVersion({
+    config: { ...result.config },
+    metrics: {
+      training: result.training,
+      validation: result.validation,
+      baseline: result.baseline,
+      coefficients: result.coefficients,
+      positives: result.positives,
+      negatives: result.negatives
+    },
+    status: 'proposed',
+    created_by: actor,
+    applied_at: null,
+    notes: notes || null
+  });
+};
+
+/**
+ * Make a config version the live one
+ * The first time, the hand-tuned config in use is saved too so it can be rolled back to
+ */
+export const applyGroupingConfigVersion = async (versionId: string, actor: string): Promise<GroupingConfigVersionRecord> => {
+  const repository = getReportGroupRepository();
+  const versions = await repository.listConfigVersions();
+  const target = versions.find(version => version.id === versionId);
+  if (!target) {
+    throw new CalibrationError(`Grouping config version ${versionId} not found`);
+  }
+
+  const now = new Date().toISOString();
+  const active = versions.find(version => version.status === 'active');
+  if (active) {
+    if (active.id === target.id) return target;
+    await repository.updateConfigVersion(active.id, { status: 'superseded' });
+  } else {
+    await repository.saveConfigVersion({
+      config: { ...pickCalibratedConfig(reportGroupingService.getConfig()) },
+      metrics: null,
+      status: 'superseded',
+      created_by: actor,
+      applied_at: now,
+      notes: 'Configuration in use before the first calibrated version'
+    });
+  }
+
+  await repository.updateConfigVersion(target.id, { status: 'active', applied_at: now });
+  reportGroupingService.updateConfig(target.config as Partial<GroupingConfig>);
+  return { ...target, status: 'active', applied_at: now };
+};
+
+/**
+ * Return to the previously applied config version
+ */
+export const rollbackGroupingConfig = async (actor: string): Promise<GroupingConfigVersionRecord> => {
+  const repository = getReportGroupRepository();
+  const versions = await repository.listConfigVersions();
+  const active = versions.find(version => version.status === 'active');
+  const previous = versions
+    .filter(version => version.status === 'superseded' && version.applied_at)
+    .sort((a, b) => new Date(b.applied_at as string).getTime() - new Date(a.applied_at as string).getTime())[0];
+
+  if (!previous) {
+    throw new CalibrationError('There is no earlier grouping config to roll back to');
+  }
+
+  const now = new Date().toISOString();
+  if (active) {
+    await repository.updateConfigVersion(active.id, {
+      status: 'rolled_back',
+      notes: [active.notes, `Rolled back by ${actor}`].filter(Boolean).join('; ')
+    });
+  }
+  await repository.updateConfigVersion(previous.id, { status: 'active', applied_at: now });
+  reportGroupingService.updateConfig(previous.config as Partial<GroupingConfig>);
+  return { ...previous, status: 'active', applied_at: now };
+};
+
+/**
+ * Apply the stored active version, if any, to this session's grouping service
+ */
+export const loadActiveGroupingConfig = async (): Promise<GroupingConfigVersionRecord | null> => {
+  const versions = await getReportGroupRepository().listConfigVersions();
+  const active = versions.find(version => version.status === 'active') || null;
+  if (active) {
+    reportGroupingService.updateConfig(active.config as Partial<GroupingConfig>);
+  }
+  return active;
+};
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const HOUR_MS = 60 * 60 * 1000;
+const ZONE = 'TEST-ZONE';
+
+type PredictionRow = Record<string, unknown> & { coastal_zone: string | null; predicted_timestamp: string };
+
+const state = vi.hoisted(() => ({
+  store: 'supabase',
+  predictions: [] as PredictionRow[]
+}));
+
+// Supabase as RLS leaves it for hazard_predictions: reads and inserts work,
+// deletes match no rows without an error, and the functions do their job
+vi.mock('./supabase', () => {
+  const query = (table: string): unknown => {
+    const builder: object = new Proxy({}, {
+      get: (_, method) => {
+        if (method === 'then') {
+          return (resolve: (result: unknown) => void) =>
+            resolve({ data: table === 'hazard_predictions' ? [...state.predictions] : [], error: null });
+        }
+        if (method === 'insert') {
+          return (rows: PredictionRow[]) => {
+            if (table === 'hazard_predictions') state.predictions.push(...rows);
+            return builder;
+          };
+        }
+        return () => builder;
+      }
+    });
+    return builder;
+  };
+
+  const rpc = async (name: string, args: Record<string, unknown>) => {
+    if (name === 'replace_zone_forecasts') {
+      const fromHour = new Date(args.from_hour as string).getTime();
+      state.predictions = state.predictions.filter(row =>
+        row.coastal_zone !== args.zone_id || new Date(row.predicted_timestamp).getTime() < fromHour
+      );
+      const rows = (args.forecasts as PredictionRow[]).map(row => ({ ...row, coastal_zone: args.zone_id as string }));
+      state.predictions.push(...rows);
+      return { data: rows.length, error: null };
+    }
+    return { data: name === 'claim_forecast_job' ? true : null, error: null };
+  };
+
+  return { supabase: { from: query, rpc } };
+});
+
+vi.mock('./ReportRepository', () => {
+  const now = Date.now();
+  const reports = Array.from({ length: 40 }, (_, i) => ({
+    report_id: `r${i}`,
+    location: { lat: 19.07, lng: 72.87 },
+    priority: 'medium',
+    category: 'high_waves',
+    created_at: new Date(now - (i + 1) * 6 * HOUR_MS).toISOString(),
+    coastal_zone: ZONE
+  }));
+  return {
+    getReportRepository: () => ({ type: state.store, queryReports: async () => reports })
+  };
+});
+
+vi.mock('./ModelRegistryService', () => {
+  const model = { modelVersion: `seasonal_naive-${ZONE}-1`, coastalZone: ZONE, metrics: { testMae: 1, testRmse: 1.5 } };
+  return {
+    modelRegistryService: {
+      listActiveModels: async () => [model],
+      getActiveModel: async () => model,
+      forecast: async () => {
+        const nextHour = Math.ceil(Date.now() / HOUR_MS) * HOUR_MS;
+        return {
+          predictions: Array.from({ length: 12 }, (_, i) => ({
+            timestamp: new Date(nextHour + i * HOUR_MS),
+            predictedReportCount: 2,
+            confidence: 0.7,
+            riskLevel: 'low'
+          }))
+        };
+      }
+    }
+  };
+});
+
+vi.mock('./DataMiningPipelineService', () => ({
+  dataMiningPipelineService: { getHotspotDetections: async () => [] }
+}));
+
+vi.mock('./INCOISService', () => ({
+  default: { getSensorData: async () => ({ success: false }) }
+}));
+
+const { hazardForecastService } = await import('./HazardForecastService');
+
+describe('HazardForecastService forecast refresh', () => {
+  beforeEach(() => {
+    state.predictions = [];
+  });
+
+  it.each(['supabase', 'memory'])('replaces the zone forecasts on a second refresh (%s)', async store => {
+    state.store = store;
+
+    await hazardForecastService.refreshForecasts();
+    const first = await hazardForecastService.getForecasts();
+    await hazardForecastService.refreshForecasts();
+    const second = await hazardForecastService.getForecasts();
+
+    expect(first).toHaveLength(12);
+    expect(second).toHaveLength(12);
+    expect(new Set(second.map(forecast => forecast.timestamp.getTime())).size).toBe(12);
+    if (store === 'supabase') {
+      expect(state.predictions).toHaveLength(12);
+    }
+  });
+});
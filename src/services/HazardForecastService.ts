@@ -0,0 +1,762 @@
+/**
+ * Hazard Forecast Service
+ * Trains the LSTM forecaster (PredictiveAnalyticsService) on each coastal zone's own history
+ *
+ * The feature builder turns the last month into one hourly series per coastal
+ * zone: reports and their average severity, hotspots found by the data mining
+ * pipeline, social media posts, and INCOIS wave heights (falling back to the
+ * wave heights reporters estimated). The most active zones each get an LSTM,
+ * trained and backtested on chronological splits, and seasonal naive and
+ * exponential smoothing baselines scored on the same test hours. Training runs
+ * in a web worker, off the UI thread. All three are registered in
+ * ModelRegistryService as candidates, the one with the lowest backtest error
+ * recommended; an admin promotes a candidate to make it the zone's active
+ * model, which forecasts the next hours, again every hour from fresh data.
+ * Forecasts carry the version of the model that made them. They are written to
+ * hazard_predictions and training metrics to model_training_history
+ * (database/add_zone_forecasts.sql) when reports live in Supabase, otherwise
+ * kept in memory.
+ *
+ * Every admin session runs the schedule, so a session claims each training run
+ * or refresh through claim_forecast_job first; the claim checks that no other
+ * session is running one and when the last one finished in one atomic write.
+ */
+
+import { supabase } from './supabase';
+import { getReportRepository } from './ReportRepository';
+import type { ReportData } from './ReportService';
+import { toSpatialDataPoint } from './MapDataService';
+import { classifyCoastalZone, getCoastalZoneBounds, resolveReportZone } from './CoastalZoneService';
+import { dataMiningPipelineService, type MiningRiskLevel } from './DataMiningPipelineService';
+import {
+  trainForecastModels,
+  FEATURE_SCHEMA,
+  type ModelEvaluation,
+  type TimeSeriesData,
+  type TrainedForecastModels,
+  type TrainingOptions
+} from './PredictiveAnalyticsService';
+import { modelRegistryService, type RegisteredModel } from './ModelRegistryService';
+import incoisService from './INCOISService';
+import type { ForecastTrainingRequest, ForecastTrainingResponse } from '../workers/forecastTraining.worker';
+
+export interface ZoneForecast {
+  coastalZone: string | null; // null for forecasts from before zones were trained separately
+  timestamp: Date; // Start of the forecast hour
+  predictedReportCount: number;
+  confidence: number;
+  riskLevel: MiningRiskLevel;
+  horizonHours: number;
+  modelVersion: string | null;
+}
+
+/**
+ * Training of a zone's LSTM; the baselines it was compared with are in the model registry
+ */
+export interface ModelTrainingRun {
+  coastalZone: string | null;
+  modelVersion: string;
+  trainedAt: string;
+  trainingDataSize: number; // Hours in the series
+  dataStart: string | null;
+  dataEnd: string | null;
+  durationSeconds: number;
+  metrics: ModelEvaluation | null; // null for rows from before backtesting
+  accuracy: number | null;
+}
+
+export interface ForecastRunResult {
+  computedAt: string;
+  zonesTrained: string[];
+  zonesSkipped: Array<{ coastalZone: string; reason: string }>;
+  forecastCount: number;
+  durationMs: number;
+}
+
+/**
+ * Everything that happened in one zone, for buildHourlySeries
+ */
+export interface ZoneActivity {
+  reports: Array<{ createdAt: string; severity: number; waveHeightM: number | null }>;
+  socialPostTimes: string[];
+  hotspotRuns: Array<{ detectedAt: string; hotspotCount: number }>; // Every pipeline run, oldest first
+  waveReadings: Array<{ timestamp: string; heightM: number }>; // INCOIS sensors in the zone
+}
+
+export const FORECAST_SETTINGS = {
+  historyDays: 30,
+  maxReports: 20000,
+  maxZones: 5, // Most active zones, each trained every run
+  minZoneReports: 30, // Too little history to learn from below this
+  epochs: 15,
+  hotspotCarryHours: 12, // A run's hotspot count stands until the next run, up to this long
+  waveHeightCarryHours: 6, // A wave height reading stands for the hours after it, up to this long
+  utcOffsetMinutes: 330, // Hours are bucketed on Indian Standard Time boundaries
+  scheduleIntervalMs: 24 * 60 * 60 * 1000, // Scheduled runs retrain when the last training finished longer ago
+  refreshIntervalMs: 60 * 60 * 1000, // Between retraining, active models forecast again this often
+  jobLeaseMs: 2 * 60 * 60 * 1000 // A claimed run that never finishes (a closed tab) blocks others this long
+};
+
+/**
+ * Training runs and refreshes; only one runs at a time across admin sessions
+ */
+type ForecastJob = 'train' | 'refresh';
+
+export const FORECASTS_UPDATED_EVENT = 'hazardForecastsUpdated';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const ZONE_DESIGNATOR = /(Z|[+-]\d{2}(:?\d{2})?)$/i;
+
+/**
+ * Milliseconds since the epoch for a stored timestamp
+ * Timestamps without a zone designator (e.g. from a timestamp column without
+ * time zone) are taken as UTC rather than the browser's local time
+ */
+export const parseTimestamp = (value: string): number => {
+  const trimmed = value.trim();
+  const hasTime = /\d{2}:\d{2}/.test(trimmed);
+  return new Date(hasTime && !ZONE_DESIGNATOR.test(trimmed) ? `${trimmed.replace(' ', 'T')}Z` : trimmed).getTime();
+};
+
+/**
+ * Start of the hour containing a time, on FORECAST_SETTINGS.utcOffsetMinutes boundaries
+ */
+export const getHourStart = (time: number): number => {
+  const offsetMs = FORECAST_SETTINGS.utcOffsetMinutes * 60 * 1000;
+  return Math.floor((time + offsetMs) / HOUR_MS) * HOUR_MS - offsetMs;
+};
+
+/**
+ * Hourly series of a zone's activity, one entry for every hour from start up
+ * to the last complete hour before end
+ *
+ * Hours without reports or posts count as quiet (zero reports, severity 0).
+ * Wave heights come from sensor readings, or reporters' estimates in hours
+ * without one; gaps are filled with the last height for up to
+ * waveHeightCarryHours, then with the zone's average.
+ */
+export const buildHourlySeries = (activity: ZoneActivity, start: Date, end: Date): TimeSeriesData[] => {
+  const first = getHourStart(start.getTime());
+  const hourCount = Math.max(0, (getHourStart(end.getTime()) - first) / HOUR_MS);
+  const hourIndex = (time: number) => (getHourStart(time) - first) / HOUR_MS;
+  const inRange = (index: number) => index >= 0 && index < hourCount;
+
+  const reportCounts = new Array<number>(hourCount).fill(0);
+  const severityTotals = new Array<number>(hourCount).fill(0);
+  const postCounts = new Array<number>(hourCount).fill(0);
+  const sensorWaves = Array.from({ length: hourCount }, () => [] as number[]);
+  const reportedWaves = Array.from({ length: hourCount }, () => [] as number[]);
+
+  activity.reports.forEach(report => {
+    const index = hourIndex(parseTimestamp(report.createdAt));
+    if (!inRange(index)) return;
+    reportCounts[index]++;
+    severityTotals[index] += report.severity;
+    if (report.waveHeightM !== null && report.waveHeightM >= 0) reportedWaves[index].push(report.waveHeightM);
+  });
+  activity.socialPostTimes.forEach(timestamp => {
+    const index = hourIndex(parseTimestamp(timestamp));
+    if (inRange(index)) postCounts[index]++;
+  });
+  activity.waveReadings.forEach(reading => {
+    const index = hourIndex(parseTimestamp(reading.timestamp));
+    if (inRange(index)) sensorWaves[index].push(reading.heightM);
+  });
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const observedWaves = sensorWaves.map((readings, index) =>
+    readings.length > 0 ? mean(readings) : reportedWaves[index].length > 0 ? mean(reportedWaves[index]) : null
+  );
+  const observed = observedWaves.filter((height): height is number => height !== null);
+  const zoneAverageWave = observed.length > 0 ? mean(observed) : 0;
+
+  const runs = activity.hotspotRuns
+    .map(run => ({ time: parseTimestamp(run.detectedAt), hotspotCount: run.hotspotCount }))
+    .sort((a, b) => a.time - b.time);
+
+  const series: TimeSeriesData[] = [];
+  let lastWave: { height: number; index: number } | null = null;
+  let runIndex = -1;
+  for (let index = 0; index < hourCount; index++) {
+    const hourStart = first + index * HOUR_MS;
+
+    const wave = observedWaves[index];
+    if (wave !== null) lastWave = { height: wave, index };
+    const carriedWave = lastWave && index - lastWave.index <= FORECAST_SETTINGS.waveHeightCarryHours ? lastWave.height : null;
+
+    // Latest pipeline run by the end of the hour
+    while (runIndex + 1 < runs.length && runs[runIndex + 1].time < hourStart + HOUR_MS) runIndex++;
+    const run = runIndex >= 0 ? runs[runIndex] : null;
+    const hotspotCount = run && hourStart - run.time < FORECAST_SETTINGS.hotspotCarryHours * HOUR_MS ? run.hotspotCount : 0;
+
+    series.push({
+      timestamp: new Date(hourStart),
+      reportCount: reportCounts[index],
+      avgSeverity: reportCounts[index] > 0 ? severityTotals[index] / reportCounts[index] : 0,
+      avgWaveHeight: carriedWave ?? zoneAverageWave,
+      hotspotCount,
+      socialMediaVolume: postCounts[index]
+    });
+  }
+  return series;
+};
+
+/**
+ * The model an admin should promote from a zone's versions (newest first, as
+ * listed by ModelRegistryService): the lowest backtest MAE of the latest
+ * training run, the LSTM winning ties
+ */
+export const getRecommendedModel = (zoneModels: RegisteredModel[]): RegisteredModel | null => {
+  const latestRun = zoneModels.filter(model => model.trainedAt === zoneModels[0]?.trainedAt);
+  if (latestRun.length === 0) return null;
+  return latestRun.reduce((best, model) =>
+    model.metrics.testMae < best.metrics.testMae || (model.metrics.testMae === best.metrics.testMae && model.kind === 'lstm')
+      ? model
+      : best
+  );
+};
+
+/**
+ * Train in a web worker where there is one, otherwise on this thread
+ */
+const trainZoneModels = (series: TimeSeriesData[], options: TrainingOptions): Promise<TrainedForecastModels> => {
+  if (typeof Worker === 'undefined') return trainForecastModels(series, options);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/forecastTraining.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ForecastTrainingResponse>) => {
+      worker.terminate();
+      if (event.data.result) {
+        resolve(event.data.result);
+      } else {
+        reject(new Error(event.data.error));
+      }
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Forecast training worker failed'));
+    };
+    const request: ForecastTrainingRequest = { series, options };
+    worker.postMessage(request);
+  });
+};
+
+class HazardForecastService {
+  private memoryForecasts: ZoneForecast[] = []; // Used when reports are stored locally
+  private memoryTrainingRuns: ModelTrainingRun[] = [];
+  private memoryJobs = new Map<ForecastJob, { runningUntil: number | null; finishedAt: number | null }>();
+  private running: Promise<ForecastRunResult | null> | null = null;
+
+  private get isRemote(): boolean {
+    return getReportRepository().type === 'supabase';
+  }
+
+  /**
+   * Retrain the zone models and forecast now; a call while a run is in progress
+   * in this session joins that run, and fails while another session runs one
+   */
+  async runForecasts(): Promise<ForecastRunResult> {
+    const result = await this.startRun(0);
+    if (!result) {
+      throw new Error('Forecasts are being updated in another admin session; try again in a few minutes');
+    }
+    return result;
+  }
+
+  get isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Retrain once the last training run finished longer ago than the schedule
+   * interval, otherwise forecast again with the active models, checking once
+   * now and then every refresh interval; returns a stop function. Whichever
+   * admin session claims a run does it, the others skip it
+   */
+  startSchedule(intervalMs: number = FORECAST_SETTINGS.scheduleIntervalMs): () => void {
+    const tick = async () => {
+      try {
+        if (this.running || await this.startRun(intervalMs)) return;
+        // Half the interval, so sessions whose timers drift apart still refresh every hour
+        await this.runJob('refresh', FORECAST_SETTINGS.refreshIntervalMs / 2, () => this.executeRefresh());
+      } catch (error) {
+        console.error('Scheduled forecasting failed:', error);
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, Math.min(intervalMs, FORECAST_SETTINGS.refreshIntervalMs));
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Forecast the hours ahead with the active models, without retraining
+   * (all zones with an active model, or the given ones); null while another
+   * session updates the forecasts, whose schedule picks up the change later
+   */
+  refreshForecasts(zoneIds?: string[]): Promise<ZoneForecast[] | null> {
+    return this.runJob('refresh', 0, () => this.executeRefresh(zoneIds));
+  }
+
+  /**
+   * Make a registered version the zone's active model and forecast with it
+   */
+  async promoteModel(zoneId: string, modelVersion: string): Promise<RegisteredModel> {
+    const model = await modelRegistryService.promote(zoneId, modelVersion);
+    await this.refreshForecasts([zoneId]);
+    return model;
+  }
+
+  /**
+   * Reactivate the zone's previously active model and forecast with it
+   */
+  async rollbackModel(zoneId: string): Promise<RegisteredModel> {
+    const model = await modelRegistryService.rollback(zoneId);
+    await this.refreshForecasts([zoneId]);
+    return model;
+  }
+
+  /**
+   * Forecasts for the hours still ahead, by zone and then time
+   */
+  async getForecasts(): Promise<ZoneForecast[]> {
+    const now = Date.now();
+    if (!this.isRemote) {
+      return this.memoryForecasts.filter(forecast => forecast.timestamp.getTime() + HOUR_MS > now);
+    }
+
+    const { data, error } = await supabase
+      .from('hazard_predictions')
+      .select('*')
+      .gte('predicted_timestamp', new Date(getHourStart(now)).toISOString())
+      .order('coastal_zone', { ascending: true })
+      .order('predicted_timestamp', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      coastalZone: row.coastal_zone ?? null,
+      timestamp: new Date(parseTimestamp(row.predicted_timestamp)),
+      predictedReportCount: row.predicted_report_count,
+      confidence: row.confidence,
+      riskLevel: row.risk_level || 'low',
+      horizonHours: row.prediction_horizon_hours,
+      modelVersion: row.model_version
+    }));
+  }
+
+  /**
+   * The most recent training run of each zone, newest first
+   */
+  async getLatestTrainingRuns(): Promise<ModelTrainingRun[]> {
+    let runs: ModelTrainingRun[];
+    if (!this.isRemote) {
+      runs = [...this.memoryTrainingRuns].reverse();
+    } else {
+      const { data, error } = await supabase
+        .from('model_training_history')
+        .select('*')
+        .eq('model_type', 'predictive')
+        .order('trained_at', { ascending: false })
+        .limit(FORECAST_SETTINGS.maxZones * 10);
+
+      if (error) throw error;
+      runs = (data || []).map(row => ({
+        coastalZone: row.coastal_zone ?? null,
+        modelVersion: row.model_version,
+        trainedAt: row.trained_at,
+        trainingDataSize: row.training_data_size ?? 0,
+        dataStart: row.training_metrics?.dataStart ?? null,
+        dataEnd: row.training_metrics?.dataEnd ?? null,
+        durationSeconds: row.training_duration_seconds ?? 0,
+        metrics: row.training_metrics?.testMae !== undefined ? row.training_metrics : null,
+        accuracy: row.accuracy
+      }));
+    }
+
+    const seen = new Set<string | null>();
+    return runs.filter(run => {
+      if (seen.has(run.coastalZone)) return false;
+      seen.add(run.coastalZone);
+      return true;
+    });
+  }
+
+  /**
+   * Train unless the last training run finished less than minIntervalMs ago or
+   * another session is updating the forecasts (null); joins a run in progress
+   * in this session
+   */
+  private startRun(minIntervalMs: number): Promise<ForecastRunResult | null> {
+    if (!this.running) {
+      this.running = this.runJob('train', minIntervalMs, () => this.executeRun()).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Do a job if this session can claim it, releasing the claim afterwards; null when it can't
+   */
+  private async runJob<T>(job: ForecastJob, minIntervalMs: number, work: () => Promise<T>): Promise<T | null> {
+    if (!(await this.claimJob(job, minIntervalMs))) return null;
+
+    let succeeded = false;
+    try {
+      const result = await work();
+      succeeded = true;
+      return result;
+    } finally {
+      await this.finishJob(job, succeeded).catch(error => {
+        console.warn(`Forecast ${job} claim not released:`, error);
+      });
+    }
+  }
+
+  /**
+   * Claim a job unless any job is running or this one last finished less than
+   * minIntervalMs ago; remotely the check and the claim are one atomic write
+   */
+  private async claimJob(job: ForecastJob, minIntervalMs: number): Promise<boolean> {
+    if (!this.isRemote) {
+      const now = Date.now();
+      const states = [...this.memoryJobs.values()];
+      const last = this.memoryJobs.get(job);
+      if (states.some(state => state.runningUntil !== null && state.runningUntil > now)) return false;
+      if (last?.finishedAt != null && now - last.finishedAt < minIntervalMs) return false;
+      this.memoryJobs.set(job, { runningUntil: now + FORECAST_SETTINGS.jobLeaseMs, finishedAt: last?.finishedAt ?? null });
+      return true;
+    }
+
+    const { data, error } = await supabase.rpc('claim_forecast_job', {
+      job_name: job,
+      min_interval_seconds: minIntervalMs / 1000,
+      lease_seconds: FORECAST_SETTINGS.jobLeaseMs / 1000
+    });
+    if (error) throw error;
+    return data === true;
+  }
+
+  /**
+   * Release a claimed job; a successful run counts as its last finish
+   */
+  private async finishJob(job: ForecastJob, succeeded: boolean): Promise<void> {
+    if (!this.isRemote) {
+      const last = this.memoryJobs.get(job);
+      this.memoryJobs.set(job, { runningUntil: null, finishedAt: succeeded ? Date.now() : last?.finishedAt ?? null });
+      return;
+    }
+
+    const { error } = await supabase.rpc('finish_forecast_job', { job_name: job, succeeded });
+    if (error) throw error;
+  }
+
+  private async executeRefresh(zoneIds?: string[]): Promise<ZoneForecast[]> {
+    const end = new Date();
+    const since = new Date(end.getTime() - FORECAST_SETTINGS.historyDays * DAY_MS);
+    const zones = zoneIds ?? (await modelRegistryService.listActiveModels()).map(model => model.coastalZone);
+    if (zones.length === 0) return [];
+
+    const seriesByZone = await this.loadZoneSeries(since, end, zones);
+    const { forecasts, models } = await this.forecastWithActiveModels(seriesByZone);
+    await this.saveForecasts(forecasts, models);
+    this.notifyUpdated();
+    return forecasts;
+  }
+
+  private async executeRun(): Promise<ForecastRunResult> {
+    const startedAt = Date.now();
+    const computedAt = new Date(startedAt).toISOString();
+    const end = new Date(startedAt);
+    const since = new Date(startedAt - FORECAST_SETTINGS.historyDays * DAY_MS);
+    const versionStamp = computedAt.replace(/[-:]/g, '').slice(0, 13);
+
+    const seriesByZone = await this.loadZoneSeries(since, end);
+    const zonesTrained: string[] = [];
+    const zonesSkipped: ForecastRunResult['zonesSkipped'] = [];
+    const trainingRuns: ModelTrainingRun[] = [];
+
+    // One zone at a time, so only one model holds tensors
+    for (const [zoneId, series] of seriesByZone) {
+      const trainingStartedAt = Date.now();
+      try {
+        const { metrics, baselines, snapshot } = await trainZoneModels(series, { epochs: FORECAST_SETTINGS.epochs });
+        const modelVersion = `lstm-${zoneId}-${versionStamp}`;
+        const trainingRange = {
+          coastalZone: zoneId,
+          dataStart: series[0].timestamp.toISOString(),
+          dataEnd: series[series.length - 1].timestamp.toISOString(),
+          trainedAt: computedAt
+        };
+
+        // Registered as candidates; an admin promotes one (see getRecommendedModel)
+        await modelRegistryService.register({
+          ...trainingRange,
+          modelVersion,
+          kind: 'lstm',
+          featureSchema: snapshot.featureSchema,
+          normalizationParams: snapshot.normalizationParams,
+          parameters: {},
+          artifacts: snapshot.artifacts,
+          metrics
+        });
+        for (const baseline of baselines) {
+          await modelRegistryService.register({
+            ...trainingRange,
+            modelVersion: `${baseline.kind}-${zoneId}-${versionStamp}`,
+            kind: baseline.kind,
+            featureSchema: FEATURE_SCHEMA,
+            normalizationParams: null,
+            parameters: baseline.parameters,
+            artifacts: null,
+            metrics: baseline.metrics
+          });
+        }
+
+        trainingRuns.push({
+          ...trainingRange,
+          modelVersion,
+          trainingDataSize: series.length,
+          durationSeconds: Math.round((Date.now() - trainingStartedAt) / 1000),
+          metrics,
+          accuracy: metrics.accuracy
+        });
+        zonesTrained.push(zoneId);
+      } catch (error) {
+        console.warn(`Forecast model for ${zoneId} not trained:`, error);
+        zonesSkipped.push({ coastalZone: zoneId, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const { forecasts, models } = await this.forecastWithActiveModels(
+      new Map(zonesTrained.map(zoneId => [zoneId, seriesByZone.get(zoneId)!]))
+    );
+    await this.saveForecasts(forecasts, models);
+    if (!this.isRemote) {
+      this.memoryTrainingRuns.push(...trainingRuns);
+    } else {
+      await this.saveTrainingRuns(trainingRuns);
+    }
+
+    this.notifyUpdated();
+    return {
+      computedAt,
+      zonesTrained,
+      zonesSkipped,
+      forecastCount: forecasts.length,
+      durationMs: Date.now() - startedAt
+    };
+  }
+
+  /**
+   * Hourly series of each zone from since up to end: the given zones, or the
+   * most active ones with enough reports to train on
+   */
+  private async loadZoneSeries(since: Date, end: Date, zoneIds?: string[]): Promise<Map<string, TimeSeriesData[]>> {
+    const reports = await getReportRepository().queryReports({
+      createdAfter: since.toISOString(),
+      limit: FORECAST_SETTINGS.maxReports
+    });
+    const reportsByZone = new Map<string, ReportData[]>();
+    reports.forEach(report => {
+      const zoneId = resolveReportZone(report);
+      if (!zoneId) return;
+      if (!reportsByZone.has(zoneId)) reportsByZone.set(zoneId, []);
+      reportsByZone.get(zoneId)!.push(report);
+    });
+
+    const zones = zoneIds ?? [...reportsByZone.entries()]
+      .filter(([, zoneReports]) => zoneReports.length >= FORECAST_SETTINGS.minZoneReports)
+      .sort((a, b) => b[1].length - a[1].length)
+      .slice(0, FORECAST_SETTINGS.maxZones)
+      .map(([zoneId]) => zoneId);
+
+    const [postsByZone, hotspotRunsByZone] = await Promise.all([
+      this.loadSocialPostTimes(since),
+      this.loadHotspotRuns(since, zones)
+    ]);
+
+    const seriesByZone = new Map<string, TimeSeriesData[]>();
+    for (const zoneId of zones) {
+      seriesByZone.set(zoneId, buildHourlySeries({
+        reports: (reportsByZone.get(zoneId) || []).map(report => ({
+          createdAt: report.created_at,
+          severity: toSpatialDataPoint(report).severity,
+          waveHeightM: report.wave_height_estimated ?? null
+        })),
+        socialPostTimes: postsByZone.get(zoneId) || [],
+        hotspotRuns: hotspotRunsByZone.get(zoneId) || [],
+        waveReadings: await this.loadWaveReadings(zoneId, since, end)
+      }, since, end));
+    }
+    return seriesByZone;
+  }
+
+  /**
+   * Forecasts of each zone's active model from its series; zones without one are left out
+   */
+  private async forecastWithActiveModels(
+    seriesByZone: Map<string, TimeSeriesData[]>
+  ): Promise<{ forecasts: ZoneForecast[]; models: RegisteredModel[] }> {
+    const forecasts: ZoneForecast[] = [];
+    const models: RegisteredModel[] = [];
+    for (const [zoneId, series] of seriesByZone) {
+      const model = await modelRegistryService.getActiveModel(zoneId);
+      if (!model) continue;
+      try {
+        const { predictions } = await modelRegistryService.forecast(model, series);
+        forecasts.push(...predictions.map((prediction, index) => ({
+          coastalZone: zoneId,
+          timestamp: prediction.timestamp,
+          predictedReportCount: prediction.predictedReportCount,
+          confidence: prediction.confidence,
+          riskLevel: prediction.riskLevel,
+          horizonHours: index + 1,
+          modelVersion: model.modelVersion
+        })));
+        models.push(model);
+      } catch (error) {
+        console.warn(`Model ${model.modelVersion} could not forecast ${zoneId}:`, error);
+      }
+    }
+    return { forecasts, models };
+  }
+
+  /**
+   * Post times by zone; posts without a zone are left out
+   */
+  private async loadSocialPostTimes(since: Date): Promise<Map<string, string[]>> {
+    const byZone = new Map<string, string[]>();
+    if (!this.isRemote) return byZone;
+
+    const { data, error } = await supabase
+      .from('social_media_posts')
+      .select('timestamp, coastal_zone')
+      .gte('timestamp', since.toISOString())
+      .not('coastal_zone', 'is', null);
+
+    // Social media ingestion is optional; forecast from the other features without it
+    if (error) {
+      console.warn('Social media posts unavailable for forecasting:', error);
+      return byZone;
+    }
+    (data || []).forEach(row => {
+      if (!byZone.has(row.coastal_zone)) byZone.set(row.coastal_zone, []);
+      byZone.get(row.coastal_zone)!.push(row.timestamp);
+    });
+    return byZone;
+  }
+
+  /**
+   * Hotspots each pipeline run found in each zone, zero included
+   */
+  private async loadHotspotRuns(since: Date, zoneIds: string[]): Promise<Map<string, ZoneActivity['hotspotRuns']>> {
+    const detections = await dataMiningPipelineService.getHotspotDetections(since);
+    const runTimes = [...new Set(detections.map(detection => detection.detectedAt))];
+
+    const byZone = new Map<string, ZoneActivity['hotspotRuns']>();
+    zoneIds.forEach(zoneId => {
+      byZone.set(zoneId, runTimes.map(detectedAt => ({ detectedAt, hotspotCount: 0 })));
+    });
+    detections.forEach(detection => {
+      const zoneId = classifyCoastalZone(detection.center[1], detection.center[0])?.id;
+      const run = zoneId ? byZone.get(zoneId)?.find(entry => entry.detectedAt === detection.detectedAt) : undefined;
+      if (run) run.hotspotCount++;
+    });
+    return byZone;
+  }
+
+  /**
+   * Wave height readings of the INCOIS sensors inside a zone
+   */
+  private async loadWaveReadings(zoneId: string, since: Date, end: Date): Promise<ZoneActivity['waveReadings']> {
+    const bounds = getCoastalZoneBounds(zoneId);
+    if (!bounds) return [];
+
+    const response = await incoisService.getSensorData(bounds);
+    if (!response.success || !response.data) return [];
+
+    return response.data.sensors
+      .filter(sensor =>
+        sensor.location.lat >= bounds.south && sensor.location.lat <= bounds.north &&
+        sensor.location.lng >= bounds.west && sensor.location.lng <= bounds.east
+      )
+      .flatMap(sensor => sensor.readings.waveHeight || [])
+      .filter(reading => {
+        const time = parseTimestamp(reading.timestamp);
+        return reading.quality !== 'missing' && time >= since.getTime() && time < end.getTime();
+      })
+      .map(reading => ({ timestamp: reading.timestamp, heightM: reading.value }));
+  }
+
+  /**
+   * Replace each forecast zone's forecasts from the first forecast hour on
+   */
+  private async saveForecasts(forecasts: ZoneForecast[], models: RegisteredModel[]): Promise<void> {
+    const firstHourByZone = new Map<string, Date>();
+    forecasts.forEach(forecast => {
+      const first = firstHourByZone.get(forecast.coastalZone!);
+      if (!first || forecast.timestamp < first) firstHourByZone.set(forecast.coastalZone!, forecast.timestamp);
+    });
+
+    if (!this.isRemote) {
+      this.memoryForecasts = [
+        ...this.memoryForecasts.filter(forecast => !firstHourByZone.has(forecast.coastalZone || '')),
+        ...forecasts
+      ];
+      return;
+    }
+
+    // Newer forecasts replace the zone's pending ones from the same hours on, in
+    // one transaction of replace_zone_forecasts (hazard_predictions has no
+    // DELETE policy, so the rows can't be cleared from here)
+    const metricsByVersion = new Map(models.map(model => [model.modelVersion, model.metrics]));
+    for (const [zoneId, firstHour] of firstHourByZone) {
+      const rows = forecasts.filter(forecast => forecast.coastalZone === zoneId).map(forecast => {
+        const metrics = metricsByVersion.get(forecast.modelVersion || '') as Partial<ModelEvaluation> | undefined;
+        return {
+          prediction_horizon_hours: forecast.horizonHours,
+          predicted_timestamp: forecast.timestamp.toISOString(),
+          predicted_report_count: forecast.predictedReportCount,
+          confidence: forecast.confidence,
+          risk_level: forecast.riskLevel,
+          model_version: forecast.modelVersion,
+          training_metrics: metrics ? { loss: metrics.trainLoss ?? null, mae: metrics.testMae, rmse: metrics.testRmse } : null
+        };
+      });
+      const { error } = await supabase.rpc('replace_zone_forecasts', {
+        zone_id: zoneId,
+        from_hour: firstHour.toISOString(),
+        forecasts: rows
+      });
+      if (error) throw error;
+    }
+  }
+
+  private async saveTrainingRuns(trainingRuns: ModelTrainingRun[]): Promise<void> {
+    if (trainingRuns.length === 0) return;
+    const { error } = await supabase.from('model_training_history').insert(trainingRuns.map(run => ({
+      model_type: 'predictive',
+      model_version: run.modelVersion,
+      training_data_size: run.trainingDataSize,
+      training_metrics: { ...run.metrics, dataStart: run.dataStart, dataEnd: run.dataEnd },
+      accuracy: run.accuracy,
+      loss: run.metrics?.trainLoss ?? null,
+      mae: run.metrics?.testMae ?? null,
+      rmse: run.metrics?.testRmse ?? null,
+      training_duration_seconds: run.durationSeconds,
+      trained_at: run.trainedAt,
+      coastal_zone: run.coastalZone
+    })));
+    if (error) throw error;
+  }
+
+  private notifyUpdated(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(FORECASTS_UPDATED_EVENT));
+    }
+  }
+}
+
+export const hazardForecastService = new HazardForecastService();
@@ -0,0 +1,66 @@
+/**
+ * Hazard Grouping Profiles
+ *
+ * How far apart in space and time two reports of the same hazard can be and
+ * still describe one event. A tsunami or storm surge spans tens of kilometres
+ * and is reported within hours; marine debris or a damaged sea wall is a
+ * single spot that people keep reporting for weeks.
+ *
+ * Shared by ReportGroupingService (duplicate detection) and
+ * SpatialDataMiningService (hotspot clustering), keyed by the hazard types
+ * from getHazardTypeFromCategory.
+ */
+
+import { getHazardTypeFromCategory } from '../utils/hazardCategories';
+
+export interface HazardGroupingProfile {
+  hazardType: string;
+  radiusMeters: number; // Base grouping radius
+  maxRadiusMeters: number; // Upper bound when scaling with report density
+  temporalWindowHours: number; // Reports further apart in time are separate events
+  densityScaling: boolean; // Widen the radius where reports are dense
+}
+
+// Neighbouring reports at which the radius starts to widen noticeably
+const DENSITY_REFERENCE_COUNT = 10;
+
+const HOUR = 1;
+const DAY = 24 * HOUR;
+
+export const HAZARD_GROUPING_PROFILES: Record<string, HazardGroupingProfile> = {
+  tsunami: { hazardType: 'tsunami', radiusMeters: 25000, maxRadiusMeters: 75000, temporalWindowHours: 2 * DAY, densityScaling: true },
+  storm_surge: { hazardType: 'storm_surge', radiusMeters: 15000, maxRadiusMeters: 50000, temporalWindowHours: 2 * DAY, densityScaling: true },
+  high_waves: { hazardType: 'high_waves', radiusMeters: 5000, maxRadiusMeters: 20000, temporalWindowHours: 1 * DAY, densityScaling: true },
+  swell_surge: { hazardType: 'swell_surge', radiusMeters: 5000, maxRadiusMeters: 20000, temporalWindowHours: 1 * DAY, densityScaling: true },
+  unusual_sea_behavior: { hazardType: 'unusual_sea_behavior', radiusMeters: 3000, maxRadiusMeters: 15000, temporalWindowHours: 1 * DAY, densityScaling: true },
+  coastal_current: { hazardType: 'coastal_current', radiusMeters: 1000, maxRadiusMeters: 3000, temporalWindowHours: 12 * HOUR, densityScaling: true },
+  coastal_erosion: { hazardType: 'coastal_erosion', radiusMeters: 500, maxRadiusMeters: 1000, temporalWindowHours: 30 * DAY, densityScaling: false },
+  marine_debris: { hazardType: 'marine_debris', radiusMeters: 200, maxRadiusMeters: 500, temporalWindowHours: 7 * DAY, densityScaling: false },
+  infrastructure_damage: { hazardType: 'infrastructure_damage', radiusMeters: 100, maxRadiusMeters: 100, temporalWindowHours: 30 * DAY, densityScaling: false },
+  // Matches the original fixed grouping config
+  general_hazard: { hazardType: 'general_hazard', radiusMeters: 100, maxRadiusMeters: 500, temporalWindowHours: 30 * DAY, densityScaling: false }
+};
+
+/**
+ * Profile for a report category ("Storm Surge"), hazard type ("storm_surge")
+ * or loosely written hazard name ("Storm surge")
+ */
+export const getGroupingProfile = (categoryOrHazardType: string): HazardGroupingProfile => {
+  const key = categoryOrHazardType.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return HAZARD_GROUPING_PROFILES[key] ||
+    HAZARD_GROUPING_PROFILES[getHazardTypeFromCategory(categoryOrHazardType)] ||
+    HAZARD_GROUPING_PROFILES.general_hazard;
+};
+
+/**
+ * Grouping radius widened for the number of reports already near the point
+ * Grows logarithmically, so a cyclone landfall with hundreds of reports forms a
+ * handful of large groups rather than one per street
+ */
+export const getAdaptiveRadius = (profile: HazardGroupingProfile, nearbyReportCount: number): number => {
+  if (!profile.densityScaling || nearbyReportCount <= 0) {
+    return profile.radiusMeters;
+  }
+  const scale = 1 + Math.log2(1 + nearbyReportCount / DENSITY_REFERENCE_COUNT);
+  return Math.min(profile.maxRadiusMeters, Math.round(profile.radiusMeters * scale));
+};
@@ -0,0 +1,384 @@
+/**
+ * Hazard Playback Service
+ * Replays reports, heatmap intensity and hotspot movement over a past period
+ *
+ * A period is cut into fixed-size frames. Each frame holds the reports made up
+ * to its end (the ones made during the frame are flagged as new), heatmap
+ * points weighted as they were at that moment, and the hotspots detected in
+ * the frame with their movement since the frame before. Frames can be exported
+ * as a WebM video or as PNG images drawn over the basemap for briefings.
+ */
+
+import spatialDataMiningService, {
+  type HotspotMovementVector,
+  type HotspotResult
+} from './SpatialDataMiningService';
+import {
+  fetchIssuesInBounds,
+  generateHeatmapData,
+  getPriorityColor,
+  toSpatialDataPoint,
+  type MapBounds,
+  type MapIssue,
+  type MapQueryOptions
+} from './MapDataService';
+import { coastalTileService } from './CoastalTileService';
+
+export interface PlaybackPeriod {
+  start: Date;
+  end: Date;
+  frameHours: number;
+}
+
+export interface PlaybackFrame {
+  index: number;
+  start: Date;
+  end: Date;
+  issues: MapIssue[]; // Reported before the end of the frame
+  newIssues: MapIssue[]; // Reported during the frame
+  heat: [number, number, number][]; // [lat, lng, weight] for leaflet.heat
+  hotspots: HotspotResult[];
+  movements: HotspotMovementVector[]; // Since the previous frame
+}
+
+// Visible map area to draw exported frames for
+export interface PlaybackView {
+  bounds: MapBounds;
+  zoom: number;
+}
+
+export interface PlaybackExportProgress {
+  frame: number;
+  total: number;
+}
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+export const PLAYBACK_FRAME_HOURS = [6, 12, 24];
+
+export const PLAYBACK_LIMITS = {
+  maxFrames: 120,
+  frameDurationMs: 1000, // At 1x speed
+  maxExportWidth: 1600,
+  maxExportHeight: 1200,
+  maxExportTiles: 64,
+  basemapSourceId: 'esri-imagery'
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const TILE_SIZE = 256;
+
+/**
+ * Reports in view during a period, oldest first
+ * Only the newest MAP_QUERY_LIMITS.maxIssuesPerQuery reports are replayed
+ */
+export const loadPlaybackIssues = async (
+  bounds: MapBounds,
+  period: Pick<PlaybackPeriod, 'start' | 'end'>,
+  options: MapQueryOptions = {}
+): Promise<MapIssue[]> => {
+  const issues = await fetchIssuesInBounds(bounds, {
+    ...options,
+    createdAfter: period.start.toISOString(),
+    createdBefore: period.end.toISOString()
+  });
+  return issues.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+};
+
+/**
+ * Cut a period into playback frames
+ */
+export const buildPlaybackFrames = async (issues: MapIssue[], period: PlaybackPeriod): Promise<PlaybackFrame[]> => {
+  const frameMs = period.frameHours * HOUR_MS;
+  const frameCount = Math.ceil((period.end.getTime() - period.start.getTime()) / frameMs);
+  if (frameCount <= 0) {
+    throw new Error('The playback period must end after it starts');
+  }
+  if (frameCount > PLAYBACK_LIMITS.maxFrames) {
+    throw new Error(`Too many frames (${frameCount}); choose a shorter period or longer frames`);
+  }
+
+  // Frames are aligned on the period start; the last one may run past its end
+  const end = new Date(period.start.getTime() + frameCount * frameMs);
+  const evolution = await spatialDataMiningService.detectEvolvingHotspots(
+    issues.map(toSpatialDataPoint),
+    period.frameHours,
+    { endTime: end, intervals: frameCount }
+  );
+  const windows = [...evolution.historicalTrajectory].reverse(); // Oldest first, like the frames
+
+  const timed = issues
+    .map(issue => ({ issue, time: new Date(issue.created_at).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  const frames: PlaybackFrame[] = [];
+  let reported = 0;
+  for (let index = 0; index < frameCount; index++) {
+    const start = new Date(period.start.getTime() + index * frameMs);
+    const frameEnd = new Date(start.getTime() + frameMs);
+
+    const firstNew = reported;
+    while (reported < timed.length && timed[reported].time < frameEnd.getTime()) {
+      reported++;
+    }
+    const frameIssues = timed.slice(0, reported).map(entry => entry.issue);
+
+    frames.push({
+      index,
+      start,
+      end: frameEnd,
+      issues: frameIssues,
+      newIssues: timed.slice(firstNew, reported).map(entry => entry.issue),
+      heat: generateHeatmapData(frameIssues, frameEnd),
+      hotspots: windows[index]?.hotspots || [],
+      movements: windows[index]?.movementVectors || []
+    });
+  }
+
+  return frames;
+};
+
+/**
+ * Short label for a frame, e.g. "12 Jun 06:00 – 12 Jun 12:00"
+ */
+export const formatFrameRange = (frame: Pick<PlaybackFrame, 'start' | 'end'>): string => {
+  const format = (date: Date) => date.toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+  return `${format(frame.start)} – ${format(frame.end)}`;
+};
+
+// Web Mercator pixel position at a zoom level
+const projectToPixels = (lat: number, lng: number, z: number): [number, number] => {
+  const scale = TILE_SIZE * Math.pow(2, z);
+  const phi = Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI / 180;
+  return [
+    (lng + 180) / 360 * scale,
+    (1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2 * scale
+  ];
+};
+
+interface FrameCanvas {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+  basemap: HTMLCanvasElement;
+  project: (lat: number, lng: number) => [number, number];
+}
+
+/**
+ * A canvas covering the view at the largest zoom that fits the export size,
+ * with the basemap drawn once from stored or online tiles
+ */
+const prepareFrameCanvas = async (view: PlaybackView): Promise<FrameCanvas> => {
+  let z = Math.max(0, Math.floor(view.zoom));
+  let topLeft = projectToPixels(view.bounds.north, view.bounds.west, z);
+  let bottomRight = projectToPixels(view.bounds.south, view.bounds.east, z);
+  while (z > 0 && (
+    bottomRight[0] - topLeft[0] > PLAYBACK_LIMITS.maxExportWidth ||
+    bottomRight[1] - topLeft[1] > PLAYBACK_LIMITS.maxExportHeight
+  )) {
+    z--;
+    topLeft = projectToPixels(view.bounds.north, view.bounds.west, z);
+    bottomRight = projectToPixels(view.bounds.south, view.bounds.east, z);
+  }
+
+  const width = Math.max(1, Math.round(bottomRight[0] - topLeft[0]));
+  const height = Math.max(1, Math.round(bottomRight[1] - topLeft[1]));
+  const createCanvas = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context not available');
+    return { canvas, context };
+  };
+
+  const { canvas, context } = createCanvas();
+  const basemap = createCanvas();
+  basemap.context.fillStyle = '#1e3a5f'; // Sea blue where tiles are missing
+  basemap.context.fillRect(0, 0, width, height);
+
+  const tiles: Array<{ x: number; y: number }> = [];
+  const maxTile = Math.pow(2, z) - 1;
+  for (let x = Math.floor(topLeft[0] / TILE_SIZE); x <= Math.floor(bottomRight[0] / TILE_SIZE); x++) {
+    for (let y = Math.floor(topLeft[1] / TILE_SIZE); y <= Math.floor(bottomRight[1] / TILE_SIZE); y++) {
+      if (x >= 0 && y >= 0 && x <= maxTile && y <= maxTile) tiles.push({ x, y });
+    }
+  }
+
+  await Promise.all(tiles.slice(0, PLAYBACK_LIMITS.maxExportTiles).map(async ({ x, y }) => {
+    const blob = await coastalTileService.loadTile(PLAYBACK_LIMITS.basemapSourceId, z, x, y);
+    if (!blob) return;
+    try {
+      const bitmap = await createImageBitmap(blob);
+      basemap.context.drawImage(bitmap, x * TILE_SIZE - topLeft[0], y * TILE_SIZE - topLeft[1]);
+      bitmap.close();
+    } catch (err) {
+      console.warn('Skipping undecodable basemap tile:', err);
+    }
+  }));
+
+  return {
+    canvas,
+    context,
+    basemap: basemap.canvas,
+    project: (lat, lng) => {
+      const [x, y] = projectToPixels(lat, lng, z);
+      return [x - topLeft[0], y - topLeft[1]];
+    }
+  };
+};
+
+const drawArrow = (context: CanvasRenderingContext2D, from: [number, number], to: [number, number]) => {
+  const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+  context.beginPath();
+  context.moveTo(from[0], from[1]);
+  context.lineTo(to[0], to[1]);
+  context.stroke();
+
+  context.beginPath();
+  context.moveTo(to[0], to[1]);
+  context.lineTo(to[0] - 12 * Math.cos(angle - Math.PI / 7), to[1] - 12 * Math.sin(angle - Math.PI / 7));
+  context.lineTo(to[0] - 12 * Math.cos(angle + Math.PI / 7), to[1] - 12 * Math.sin(angle + Math.PI / 7));
+  context.closePath();
+  context.fill();
+};
+
+const drawFrame = (target: FrameCanvas, frame: PlaybackFrame, frameCount: number) => {
+  const { canvas, context, project } = target;
+  context.drawImage(target.basemap, 0, 0);
+
+  // Heat as soft radial blobs
+  frame.heat.forEach(([lat, lng, weight]) => {
+    const [x, y] = project(lat, lng);
+    const gradient = context.createRadialGradient(x, y, 0, x, y, 30);
+    gradient.addColorStop(0, `rgba(255, 69, 0, ${0.45 * weight})`);
+    gradient.addColorStop(1, 'rgba(255, 69, 0, 0)');
+    context.fillStyle = gradient;
+    context.fillRect(x - 30, y - 30, 60, 60);
+  });
+
+  // Reports; the ones made during this frame are larger and ringed
+  const newIds = new Set(frame.newIssues.map(issue => issue.report_id));
+  frame.issues.forEach(issue => {
+    const [x, y] = project(issue.location.lat, issue.location.lng);
+    const isNew = newIds.has(issue.report_id);
+    context.beginPath();
+    context.arc(x, y, isNew ? 7 : 4, 0, Math.PI * 2);
+    context.fillStyle = getPriorityColor(issue.priority);
+    context.fill();
+    context.lineWidth = isNew ? 3 : 1;
+    context.strokeStyle = isNew ? '#facc15' : '#ffffff';
+    context.stroke();
+  });
+
+  // Hotspot centroids and their movement since the previous frame
+  context.strokeStyle = '#dc2626';
+  context.fillStyle = '#dc2626';
+  context.lineWidth = 3;
+  frame.movements.forEach(movement => {
+    drawArrow(
+      context,
+      project(movement.fromCentroid[1], movement.fromCentroid[0]),
+      project(movement.toCentroid[1], movement.toCentroid[0])
+    );
+  });
+  frame.hotspots.forEach(hotspot => {
+    const [x, y] = project(hotspot.centroid[1], hotspot.centroid[0]);
+    context.beginPath();
+    context.arc(x, y, 10 + Math.min(20, hotspot.reportCount), 0, Math.PI * 2);
+    context.fillStyle = 'rgba(220, 38, 38, 0.25)';
+    context.fill();
+    context.strokeStyle = '#dc2626';
+    context.lineWidth = 2;
+    context.stroke();
+  });
+
+  // Caption
+  context.fillStyle = 'rgba(17, 24, 39, 0.75)';
+  context.fillRect(0, 0, canvas.width, 48);
+  context.fillStyle = '#ffffff';
+  context.font = '600 16px sans-serif';
+  context.fillText(`Hazard reports · ${formatFrameRange(frame)}`, 12, 20);
+  context.font = '13px sans-serif';
+  context.fillText(
+    `Frame ${frame.index + 1}/${frameCount} · ${frame.issues.length} reports (${frame.newIssues.length} new) · ${frame.hotspots.length} hotspots`,
+    12,
+    40
+  );
+  context.font = '10px sans-serif';
+  context.textAlign = 'right';
+  context.fillText('Imagery © Esri', canvas.width - 6, canvas.height - 6);
+  context.textAlign = 'left';
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode frame'))), 'image/png');
+  });
+
+/**
+ * Every frame drawn over the basemap, as PNG images
+ */
+export const exportPlaybackImages = async (
+  frames: PlaybackFrame[],
+  view: PlaybackView,
+  onProgress?: (progress: PlaybackExportProgress) => void
+): Promise<Blob[]> => {
+  const target = await prepareFrameCanvas(view);
+  const images: Blob[] = [];
+  for (const frame of frames) {
+    drawFrame(target, frame, frames.length);
+    images.push(await canvasToPng(target.canvas));
+    onProgress?.({ frame: frame.index + 1, total: frames.length });
+  }
+  return images;
+};
+
+/**
+ * The playback recorded as a WebM video, one frame per frameDurationMs
+ * Recording runs in real time, so it takes as long as the video
+ */
+export const exportPlaybackVideo = async (
+  frames: PlaybackFrame[],
+  view: PlaybackView,
+  frameDurationMs: number = PLAYBACK_LIMITS.frameDurationMs,
+  onProgress?: (progress: PlaybackExportProgress) => void
+): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('Video recording is not supported in this browser; export images instead');
+  }
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('WebM recording is not supported in this browser; export images instead');
+  }
+
+  const target = await prepareFrameCanvas(view);
+  drawFrame(target, frames[0], frames.length);
+
+  const stream = target.canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  for (const frame of frames) {
+    drawFrame(target, frame, frames.length);
+    onProgress?.({ frame: frame.index + 1, total: frames.length });
+    await new Promise(resolve => setTimeout(resolve, frameDurationMs));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(track => track.stop());
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
@@ -0,0 +1,143 @@
+/**
+ * Location Quality Service
+ * How a report's position was obtained and how far it can be trusted
+ *
+ * The browser gives an accuracy radius with every fix but not whether it came
+ * from satellites or from Wi-Fi and cell towers, so the source is inferred from
+ * the accuracy and whether an altitude came with it. Photos carry their own GPS
+ * block, and a pin dropped by hand is as precise as the map was zoomed in.
+ * Grouping and hotspot detection weight each report by its accuracy, so a 5 km
+ * network fix counts for far less than a 5 m GPS fix.
+ */
+
+export type LocationSource = 'gps' | 'network' | 'manual' | 'exif';
+
+export type LocationQualityGrade = 'high' | 'medium' | 'low';
+
+export interface LocationQuality {
+  accuracy_m: number | null; // Horizontal accuracy radius; null when the source does not say
+  altitude_m: number | null;
+  altitude_accuracy_m: number | null;
+  heading_deg: number | null; // Direction of travel, or the direction the camera faced
+  source: LocationSource;
+  fixed_at: string; // When the position was obtained
+}
+
+export interface PhotoGps {
+  lat: number;
+  lng: number;
+  altitude?: number;
+  accuracy?: number;
+  direction?: number;
+}
+
+export const LOCATION_QUALITY_LIMITS = {
+  highAccuracyM: 50,
+  correctionThresholdM: 500, // Worse than this, the reporter is asked to place a pin
+  gpsMaxAccuracyM: 100, // A fix this good that comes with an altitude is taken to be GPS
+  unknownAccuracyM: 100, // Assumed for reports saved before accuracy was recorded
+  exifDefaultAccuracyM: 30, // Camera GPS without a recorded positioning error
+  pinPixelTolerance: 12, // How far a dropped pin may be off, in screen pixels
+  minWeight: 0.02
+};
+
+export const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
+  gps: 'GPS',
+  network: 'Network',
+  manual: 'Pin on map',
+  exif: 'Photo GPS'
+};
+
+const roundOrNull = (value: number | null | undefined): number | null =>
+  value === null || value === undefined || !Number.isFinite(value) ? null : Math.round(value * 10) / 10;
+
+/**
+ * Quality of a browser geolocation fix
+ */
+export const fromGeolocationPosition = (position: GeolocationPosition): LocationQuality => {
+  const { accuracy, altitude, altitudeAccuracy, heading } = position.coords;
+  const isGps = altitude !== null && accuracy <= LOCATION_QUALITY_LIMITS.gpsMaxAccuracyM;
+
+  return {
+    accuracy_m: roundOrNull(accuracy),
+    altitude_m: roundOrNull(altitude),
+    altitude_accuracy_m: roundOrNull(altitudeAccuracy),
+    heading_deg: roundOrNull(heading),
+    source: isGps ? 'gps' : 'network',
+    fixed_at: new Date(position.timestamp).toISOString()
+  };
+};
+
+/**
+ * Quality of the GPS block in a photo's EXIF metadata
+ */
+export const fromPhotoGps = (gps: PhotoGps, capturedAt?: string): LocationQuality => ({
+  accuracy_m: roundOrNull(gps.accuracy),
+  altitude_m: roundOrNull(gps.altitude),
+  altitude_accuracy_m: null,
+  heading_deg: roundOrNull(gps.direction),
+  source: 'exif',
+  fixed_at: capturedAt || new Date().toISOString()
+});
+
+/**
+ * Quality of a pin dropped on the map: a few screen pixels at the zoom it was placed
+ */
+export const fromManualPin = (lat: number, zoom: number): LocationQuality => {
+  // Ground size of one Web Mercator pixel at this latitude and zoom
+  const metresPerPixel = (156543.03392 * Math.cos(lat * Math.PI / 180)) / Math.pow(2, zoom);
+
+  return {
+    accuracy_m: roundOrNull(metresPerPixel * LOCATION_QUALITY_LIMITS.pinPixelTolerance),
+    altitude_m: null,
+    altitude_accuracy_m: null,
+    heading_deg: null,
+    source: 'manual',
+    fixed_at: new Date().toISOString()
+  };
+};
+
+/**
+ * Accuracy radius to work with, filling in a default when none was recorded
+ */
+export const getEffectiveAccuracyM = (quality?: Partial<LocationQuality> | null): number => {
+  if (typeof quality?.accuracy_m === 'number') return quality.accuracy_m;
+  return quality?.source === 'exif'
+    ? LOCATION_QUALITY_LIMITS.exifDefaultAccuracyM
+    : LOCATION_QUALITY_LIMITS.unknownAccuracyM;
+};
+
+export const gradeLocationAccuracy = (accuracyM: number): LocationQualityGrade => {
+  if (accuracyM <= LOCATION_QUALITY_LIMITS.highAccuracyM) return 'high';
+  if (accuracyM <= LOCATION_QUALITY_LIMITS.correctionThresholdM) return 'medium';
+  return 'low';
+};
+
+/**
+ * Whether a position is too vague to file a report at without the reporter
+ * confirming it on the map; pins they placed themselves are taken as given
+ */
+export const needsLocationCorrection = (quality?: Partial<LocationQuality> | null): boolean => {
+  if (!quality?.source || quality.source === 'manual') return false;
+  return getEffectiveAccuracyM(quality) > LOCATION_QUALITY_LIMITS.correctionThresholdM;
+};
+
+/**
+ * How much a position counts at a given spatial scale, from 1 for a fix far
+ * tighter than the scale down towards 0 for one much looser than it
+ * @param accuracyM - Accuracy radius; undefined for reports without one
+ * @param scaleM - Radius the position is being compared at, e.g. a grouping radius
+ */
+export const getLocationWeight = (accuracyM: number | null | undefined, scaleM: number): number => {
+  const accuracy = accuracyM ?? LOCATION_QUALITY_LIMITS.unknownAccuracyM;
+  return Math.max(LOCATION_QUALITY_LIMITS.minWeight, scaleM / (scaleM + accuracy));
+};
+
+/**
+ * Accuracy of the distance between two positions with independent errors
+ */
+export const combineAccuracyM = (a: number | null | undefined, b: number | null | undefined): number =>
+  Math.hypot(a ?? LOCATION_QUALITY_LIMITS.unknownAccuracyM, b ?? LOCATION_QUALITY_LIMITS.unknownAccuracyM);
+
+export const formatAccuracy = (accuracyM: number): string =>
+  accuracyM < 1000 ? `±${Math.round(accuracyM)} m` : `±${(accuracyM / 1000).toFixed(1)} km`;
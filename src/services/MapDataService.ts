@@ -4,6 +4,9 @@
  */
 
 import { supabase } from './supabase';
+import { resolveReportZone } from './CoastalZoneService';
+import { encodeGeohash, geohashCellSize } from './SpatialIndex';
+import type { SpatialDataPoint } from './SpatialDataMiningService';
 
 export interface MapIssue {
   id: string;
@@ -17,13 +20,66 @@ export interface MapIssue {
     lat: number;
     lng: number;
     address: string;
+    accuracy_m?: number | null; // Recorded with the fix since location quality capture (see LocationQualityService)
   };
   city?: string;
+  coastal_zone?: string | null; // Coastal district or sea zone id (see CoastalZoneService)
   created_at: string;
   updated_at: string;
   image_url?: string;
 }
 
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * Reports sharing a geohash prefix, aggregated for zoomed-out map views
+ */
+export interface MapCluster {
+  geohash: string;
+  count: number;
+  lat: number; // Mean position of the reports in the bucket
+  lng: number;
+  topPriority: MapIssue['priority'];
+  categories: string[];
+  latestAt: string;
+}
+
+export interface MapQueryOptions {
+  coastalZones?: string[]; // Coastal district or sea zone ids
+  category?: string;
+  createdAfter?: string; // ISO timestamps bounding created_at (report queries only, not clusters)
+  createdBefore?: string;
+}
+
+export const MAP_QUERY_LIMITS = {
+  maxIssuesPerQuery: 2000, // Individual reports per bounds query
+  targetClusterPixels: 48, // Approximate on-screen width of a cluster cell
+  maxClusterPrecision: 8
+};
+
+// Row returned by map_issue_clusters
+interface ClusterRow {
+  cell: string;
+  issue_count: number | string; // bigint may arrive as a string
+  lat: number;
+  lng: number;
+  top_priority: MapIssue['priority'];
+  categories: string[] | null;
+  latest_at: string;
+}
+
+const PRIORITY_RANK: Record<MapIssue['priority'], number> = {
+  Low: 1,
+  Medium: 2,
+  High: 3,
+  Urgent: 4
+};
+
 /**
  * Fetch all issues with valid coordinates for map display
  */
@@ -67,6 +123,7 @@ export const fetchMapIssues = async (): Promise<MapIssue[]> => {
         status: report.status,
         location: report.location,
         city: report.city,
+        coastal_zone: resolveReportZone(report),
         created_at: report.created_at,
         updated_at: report.updated_at,
         image_url: report.image_url
@@ -82,21 +139,41 @@ export const fetchMapIssues = async (): Promise<MapIssue[]> => {
 
 /**
  * Fetch issues within a specific geographic bounds
+ * Bounds (on the indexed location_lat/location_lng columns), coastal zones and
+ * category are filtered in the query, newest first, up to
+ * MAP_QUERY_LIMITS.maxIssuesPerQuery reports. Reports with no stored zone are
+ * fetched too and kept when their location falls in one of the zones
  */
 export const fetchIssuesInBounds = async (
-  bounds: {
-    north: number;
-    south: number;
-    east: number;
-    west: number;
-  }
+  bounds: MapBounds,
+  options: MapQueryOptions = {}
 ): Promise<MapIssue[]> => {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('reports')
       .select('*')
-      .not('location', 'is', null)
-      .order('created_at', { ascending: false });
+      .gte('location_lat', bounds.south)
+      .lte('location_lat', bounds.north)
+      .gte('location_lng', bounds.west)
+      .lte('location_lng', bounds.east);
+
+    if (options.coastalZones) {
+      const zoneList = options.coastalZones.map(zone => `"${zone}"`).join(',');
+      query = query.or(`coastal_zone.in.(${zoneList}),coastal_zone.is.null`);
+    }
+    if (options.category) {
+      query = query.eq('category', options.category);
+    }
+    if (options.createdAfter) {
+      query = query.gte('created_at', options.createdAfter);
+    }
+    if (options.createdBefore) {
+      query = query.lte('created_at', options.createdBefore);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(MAP_QUERY_LIMITS.maxIssuesPerQuery);
 
     if (error) {
       console.error('Error fetching bounded issues:', error);
@@ -127,10 +204,15 @@ export const fetchIssuesInBounds = async (
         status: report.status,
         location: report.location,
         city: report.city,
+        coastal_zone: resolveReportZone(report),
         created_at: report.created_at,
         updated_at: report.updated_at,
         image_url: report.image_url
-      }));
+      }))
+      .filter((issue: MapIssue) =>
+        !options.coastalZones ||
+        (!!issue.coastal_zone && options.coastalZones.includes(issue.coastal_zone))
+      );
 
     return boundedIssues;
   } catch (error) {
@@ -139,16 +221,122 @@ export const fetchIssuesInBounds = async (
   }
 };
 
+/**
+ * Geohash precision whose cells are about MAP_QUERY_LIMITS.targetClusterPixels
+ * wide at a map zoom level
+ */
+export const getClusterPrecision = (zoom: number): number => {
+  const degreesPerPixel = 360 / (256 * Math.pow(2, zoom));
+  let precision = 1;
+  while (
+    precision < MAP_QUERY_LIMITS.maxClusterPrecision &&
+    geohashCellSize(precision + 1).lonDegrees / degreesPerPixel >= MAP_QUERY_LIMITS.targetClusterPixels
+  ) {
+    precision++;
+  }
+  return precision;
+};
+
+/**
+ * Bucket issues by geohash prefix the same way map_issue_clusters does
+ */
+export const aggregateIssuesByGeohash = (issues: MapIssue[], precision: number): MapCluster[] => {
+  const buckets = new Map<string, MapCluster>();
+
+  issues.forEach(issue => {
+    const geohash = encodeGeohash({ latitude: issue.location.lat, longitude: issue.location.lng }, precision);
+    const cluster = buckets.get(geohash);
+    if (!cluster) {
+      buckets.set(geohash, {
+        geohash,
+        count: 1,
+        lat: issue.location.lat,
+        lng: issue.location.lng,
+        topPriority: issue.priority,
+        categories: [issue.category],
+        latestAt: issue.created_at
+      });
+      return;
+    }
+    addIssueToCluster(cluster, issue);
+  });
+
+  return [...buckets.values()];
+};
+
+/**
+ * Fold one more issue into a cluster's count, mean position and summary
+ */
+export const addIssueToCluster = (cluster: MapCluster, issue: MapIssue): void => {
+  cluster.lat = (cluster.lat * cluster.count + issue.location.lat) / (cluster.count + 1);
+  cluster.lng = (cluster.lng * cluster.count + issue.location.lng) / (cluster.count + 1);
+  cluster.count++;
+  if ((PRIORITY_RANK[issue.priority] || 0) > (PRIORITY_RANK[cluster.topPriority] || 0)) {
+    cluster.topPriority = issue.priority;
+  }
+  if (!cluster.categories.includes(issue.category)) {
+    cluster.categories.push(issue.category);
+  }
+  if (issue.created_at > cluster.latestAt) {
+    cluster.latestAt = issue.created_at;
+  }
+};
+
+/**
+ * Fetch report counts bucketed by geohash prefix within bounds
+ * Aggregates in the database through map_issue_clusters
+ * (database/add_map_clustering.sql); without that function, falls back to
+ * aggregating the bounded issues here
+ */
+export const fetchClustersInBounds = async (
+  bounds: MapBounds,
+  precision: number,
+  options: MapQueryOptions = {}
+): Promise<MapCluster[]> => {
+  try {
+    const { data, error } = await supabase.rpc('map_issue_clusters', {
+      north: bounds.north,
+      south: bounds.south,
+      east: bounds.east,
+      west: bounds.west,
+      cell_precision: precision,
+      zone_ids: options.coastalZones || null,
+      category_filter: options.category || null
+    });
+
+    if (error) {
+      console.warn('map_issue_clusters unavailable, clustering bounded issues locally:', error.message);
+      return aggregateIssuesByGeohash(await fetchIssuesInBounds(bounds, options), precision);
+    }
+
+    return ((data || []) as ClusterRow[]).map(row => ({
+      geohash: row.cell,
+      count: Number(row.issue_count),
+      lat: row.lat,
+      lng: row.lng,
+      topPriority: row.top_priority,
+      categories: row.categories || [],
+      latestAt: row.latest_at
+    }));
+  } catch (error) {
+    console.error('Error in fetchClustersInBounds:', error);
+    return [];
+  }
+};
+
 /**
  * Subscribe to real-time updates for map issues
+ * Each subscriber needs its own channel name; Supabase hands back the existing
+ * channel for a name that is already subscribed
  */
 export const subscribeToMapUpdates = (
   onInsert: (issue: MapIssue) => void,
   onUpdate: (issue: MapIssue) => void,
-  onDelete: (reportId: string) => void
+  onDelete: (reportId: string) => void,
+  channelName: string = 'map_reports'
 ) => {
   const subscription = supabase
-    .channel('map_reports')
+    .channel(channelName)
     .on(
       'postgres_changes',
       {
@@ -173,6 +361,7 @@ export const subscribeToMapUpdates = (
             status: report.status,
             location: report.location,
             city: report.city,
+            coastal_zone: resolveReportZone(report),
             created_at: report.created_at,
             updated_at: report.updated_at,
             image_url: report.image_url
@@ -204,6 +393,7 @@ export const subscribeToMapUpdates = (
             status: report.status,
             location: report.location,
             city: report.city,
+            coastal_zone: resolveReportZone(report),
             created_at: report.created_at,
             updated_at: report.updated_at,
             image_url: report.image_url
@@ -339,10 +529,34 @@ export const getCategoryIcon = (category: string): string => {
   }
 };
 
+// Severity on the 1-5 scale hotspot detection expects
+const PRIORITY_SEVERITY: Record<MapIssue['priority'], number> = {
+  Low: 2,
+  Medium: 3,
+  High: 4,
+  Urgent: 5
+};
+
+/**
+ * A map issue (or any stored report) as a point for SpatialDataMiningService hotspot detection
+ */
+export const toSpatialDataPoint = (
+  issue: Pick<MapIssue, 'report_id' | 'location' | 'priority' | 'category' | 'created_at'>
+): SpatialDataPoint => ({
+  id: issue.report_id,
+  coordinates: [issue.location.lng, issue.location.lat],
+  severity: PRIORITY_SEVERITY[issue.priority] ?? 3,
+  hazardType: issue.category,
+  timestamp: new Date(issue.created_at),
+  aiConfidence: 1,
+  locationAccuracyM: issue.location.accuracy_m ?? undefined
+});
+
 /**
  * Generate heatmap data points for leaflet.heat
+ * Recency is measured from asOf, so past moments can be replayed
  */
-export const generateHeatmapData = (issues: MapIssue[]): [number, number, number][] => {
+export const generateHeatmapData = (issues: MapIssue[], asOf: Date = new Date()): [number, number, number][] => {
   return issues.map(issue => {
     // Weight based on priority and recency
     let weight = 0.5; // base weight
@@ -364,7 +578,7 @@ export const generateHeatmapData = (issues: MapIssue[]): [number, number, number
     }
     
     // Recency weighting (more recent issues have higher weight)
-    const daysSinceCreated = (Date.now() - new Date(issue.created_at).getTime()) / (1000 * 60 * 60 * 24);
+    const daysSinceCreated = (asOf.getTime() - new Date(issue.created_at).getTime()) / (1000 * 60 * 60 * 24);
     if (daysSinceCreated < 7) weight += 0.3;
     else if (daysSinceCreated < 30) weight += 0.2;
     else if (daysSinceCreated < 90) weight += 0.1;
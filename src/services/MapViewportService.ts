@@ -0,0 +1,308 @@
+/**
+ * Map Viewport Service
+ * Loads map data for the visible area only, one slippy-map tile at a time
+ *
+ * Zoomed out, each tile holds geohash clusters (counts and top priority)
+ * aggregated by the query layer; zoomed in, it holds the individual reports.
+ * Tiles are cached by zoom, tile coordinates, cluster precision and filters,
+ * so panning back and forth does not query again. Realtime inserts, updates
+ * and deletes are applied to the cached tiles; when a change cannot be
+ * applied exactly (e.g. a deleted report inside a cluster) the affected
+ * tiles are marked stale and fetched again on the next load.
+ */
+
+import {
+  addIssueToCluster,
+  fetchClustersInBounds,
+  fetchIssuesInBounds,
+  getClusterPrecision,
+  type MapBounds,
+  type MapCluster,
+  type MapIssue,
+  type MapQueryOptions
+} from './MapDataService';
+import { encodeGeohash } from './SpatialIndex';
+
+export type MapViewportMode = 'issues' | 'clusters';
+
+export interface MapViewportData {
+  mode: MapViewportMode;
+  issues: MapIssue[]; // Empty in cluster mode
+  clusters: MapCluster[]; // Empty in issue mode
+  precision: number; // Geohash precision of the clusters
+  tiles: number;
+}
+
+interface TileEntry {
+  key: string;
+  bounds: MapBounds;
+  mode: MapViewportMode;
+  precision: number;
+  options: MapQueryOptions;
+  issues: Map<string, MapIssue>;
+  clusters: MapCluster[];
+  fetchedAt: number;
+  stale: boolean;
+  lastUsed: number;
+}
+
+export const MAP_VIEWPORT_LIMITS = {
+  issueZoom: 12, // From this zoom on, individual reports are loaded
+  minTileZoom: 2,
+  maxTileZoom: 14,
+  maxTilesPerViewport: 48, // Coarser tiles are used beyond this
+  tileTtlMs: 5 * 60 * 1000,
+  maxCachedTiles: 400
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const lngToTileX = (lng: number, z: number): number =>
+  clamp(Math.floor((lng + 180) / 360 * Math.pow(2, z)), 0, Math.pow(2, z) - 1);
+
+const latToTileY = (lat: number, z: number): number => {
+  const phi = clamp(lat, -85.0511, 85.0511) * Math.PI / 180;
+  const y = (1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2;
+  return clamp(Math.floor(y * Math.pow(2, z)), 0, Math.pow(2, z) - 1);
+};
+
+const tileToBounds = (x: number, y: number, z: number): MapBounds => {
+  const n = Math.pow(2, z);
+  const tileLat = (row: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * row / n))) * 180 / Math.PI;
+  return {
+    north: tileLat(y),
+    south: tileLat(y + 1),
+    west: x / n * 360 - 180,
+    east: (x + 1) / n * 360 - 180
+  };
+};
+
+const optionsKey = (options: MapQueryOptions): string =>
+  `${options.category || '*'}|${options.coastalZones ? [...options.coastalZones].sort().join(',') : '*'}`;
+
+const containsPoint = (bounds: MapBounds, lat: number, lng: number): boolean =>
+  lat >= bounds.south && lat < bounds.north && lng >= bounds.west && lng < bounds.east;
+
+const matchesOptions = (issue: MapIssue, options: MapQueryOptions): boolean =>
+  (!options.category || issue.category === options.category) &&
+  (!options.coastalZones || (!!issue.coastal_zone && options.coastalZones.includes(issue.coastal_zone)));
+
+class MapViewportService {
+  private tiles = new Map<string, TileEntry>();
+  private pending = new Map<string, Promise<TileEntry>>();
+
+  /**
+   * Whether a zoom level shows individual reports or clusters
+   */
+  getMode(zoom: number): MapViewportMode {
+    return zoom >= MAP_VIEWPORT_LIMITS.issueZoom ? 'issues' : 'clusters';
+  }
+
+  /**
+   * Load the reports or clusters covering a viewport, from cache where possible
+   */
+  async loadViewport(bounds: MapBounds, zoom: number, options: MapQueryOptions = {}): Promise<MapViewportData> {
+    const mode = this.getMode(zoom);
+    const precision = mode === 'clusters' ? getClusterPrecision(zoom) : 0;
+    const tileKeys = this.getViewportTiles(bounds, zoom);
+
+    const entries = await Promise.all(tileKeys.map(({ x, y, z }) => this.getTile(x, y, z, mode, precision, options)));
+    this.evict();
+
+    if (mode === 'issues') {
+      const issues = new Map<string, MapIssue>();
+      entries.forEach(entry => entry.issues.forEach((issue, reportId) => issues.set(reportId, issue)));
+      return { mode, issues: [...issues.values()], clusters: [], precision, tiles: entries.length };
+    }
+
+    return { mode, issues: [], clusters: entries.flatMap(entry => entry.clusters), precision, tiles: entries.length };
+  }
+
+  /**
+   * Add a newly reported issue to every cached tile that shows it
+   */
+  applyInsert(issue: MapIssue): void {
+    const { lat, lng } = issue.location;
+
+    this.tiles.forEach(entry => {
+      if (!containsPoint(entry.bounds, lat, lng) || !matchesOptions(issue, entry.options)) return;
+
+      if (entry.mode === 'issues') {
+        entry.issues.set(issue.report_id, issue);
+        return;
+      }
+
+      const geohash = encodeGeohash({ latitude: lat, longitude: lng }, entry.precision);
+      const cluster = entry.clusters.find(item => item.geohash === geohash);
+      if (cluster) {
+        addIssueToCluster(cluster, issue);
+      } else {
+        entry.clusters.push({
+          geohash,
+          count: 1,
+          lat,
+          lng,
+          topPriority: issue.priority,
+          categories: [issue.category],
+          latestAt: issue.created_at
+        });
+      }
+    });
+  }
+
+  /**
+   * Replace an edited issue in the cached report tiles
+   * Clusters cannot take an issue back out, so cluster tiles at its old and new
+   * position are refetched instead
+   */
+  applyUpdate(issue: MapIssue): void {
+    const previous = this.findCachedIssue(issue.report_id);
+    this.markClustersStale(issue.location.lat, issue.location.lng);
+    if (previous) {
+      this.markClustersStale(previous.location.lat, previous.location.lng);
+    }
+
+    this.tiles.forEach(entry => {
+      if (entry.mode !== 'issues') return;
+      entry.issues.delete(issue.report_id);
+      if (containsPoint(entry.bounds, issue.location.lat, issue.location.lng) && matchesOptions(issue, entry.options)) {
+        entry.issues.set(issue.report_id, issue);
+      }
+    });
+  }
+
+  /**
+   * Remove a deleted issue; delete events carry no location, so unless the
+   * issue is cached somewhere every cluster tile is refetched
+   */
+  applyDelete(reportId: string): void {
+    const previous = this.findCachedIssue(reportId);
+    if (previous) {
+      this.markClustersStale(previous.location.lat, previous.location.lng);
+    } else {
+      this.tiles.forEach(entry => {
+        if (entry.mode === 'clusters') entry.stale = true;
+      });
+    }
+
+    this.tiles.forEach(entry => entry.issues.delete(reportId));
+  }
+
+  /**
+   * Drop every cached tile
+   */
+  clear(): void {
+    this.tiles.clear();
+  }
+
+  private getViewportTiles(bounds: MapBounds, zoom: number): Array<{ x: number; y: number; z: number }> {
+    let z = clamp(Math.floor(zoom) - 1, MAP_VIEWPORT_LIMITS.minTileZoom, MAP_VIEWPORT_LIMITS.maxTileZoom);
+
+    for (;;) {
+      const xMin = lngToTileX(bounds.west, z);
+      const xMax = lngToTileX(bounds.east, z);
+      const yMin = latToTileY(bounds.north, z);
+      const yMax = latToTileY(bounds.south, z);
+      const count = (xMax - xMin + 1) * (yMax - yMin + 1);
+
+      if (count <= MAP_VIEWPORT_LIMITS.maxTilesPerViewport || z <= MAP_VIEWPORT_LIMITS.minTileZoom) {
+        const tiles: Array<{ x: number; y: number; z: number }> = [];
+        for (let x = xMin; x <= xMax; x++) {
+          for (let y = yMin; y <= yMax; y++) {
+            tiles.push({ x, y, z });
+          }
+        }
+        return tiles;
+      }
+      z--;
+    }
+  }
+
+  private async getTile(
+    x: number,
+    y: number,
+    z: number,
+    mode: MapViewportMode,
+    precision: number,
+    options: MapQueryOptions
+  ): Promise<TileEntry> {
+    const key = `${mode}:${precision}:${z}/${x}/${y}:${optionsKey(options)}`;
+    const cached = this.tiles.get(key);
+    if (cached && !cached.stale && Date.now() - cached.fetchedAt < MAP_VIEWPORT_LIMITS.tileTtlMs) {
+      cached.lastUsed = Date.now();
+      return cached;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const request = this.fetchTile(key, tileToBounds(x, y, z), mode, precision, options)
+      .then(entry => {
+        this.tiles.set(key, entry);
+        return entry;
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, request);
+    return request;
+  }
+
+  private async fetchTile(
+    key: string,
+    bounds: MapBounds,
+    mode: MapViewportMode,
+    precision: number,
+    options: MapQueryOptions
+  ): Promise<TileEntry> {
+    const now = Date.now();
+    const entry: TileEntry = {
+      key,
+      bounds,
+      mode,
+      precision,
+      options,
+      issues: new Map(),
+      clusters: [],
+      fetchedAt: now,
+      stale: false,
+      lastUsed: now
+    };
+
+    if (mode === 'issues') {
+      const issues = await fetchIssuesInBounds(bounds, options);
+      issues.forEach(issue => entry.issues.set(issue.report_id, issue));
+    } else {
+      entry.clusters = await fetchClustersInBounds(bounds, precision, options);
+    }
+    return entry;
+  }
+
+  private findCachedIssue(reportId: string): MapIssue | null {
+    for (const entry of this.tiles.values()) {
+      const issue = entry.issues.get(reportId);
+      if (issue) return issue;
+    }
+    return null;
+  }
+
+  private markClustersStale(lat: number, lng: number): void {
+    this.tiles.forEach(entry => {
+      if (entry.mode === 'clusters' && containsPoint(entry.bounds, lat, lng)) {
+        entry.stale = true;
+      }
+    });
+  }
+
+  private evict(): void {
+    if (this.tiles.size <= MAP_VIEWPORT_LIMITS.maxCachedTiles) return;
+
+    const oldest = [...this.tiles.values()]
+      .sort((a, b) => a.lastUsed - b.lastUsed)
+      .slice(0, this.tiles.size - MAP_VIEWPORT_LIMITS.maxCachedTiles);
+    oldest.forEach(entry => this.tiles.delete(entry.key));
+  }
+}
+
+// Create singleton instance
+export const mapViewportService = new MapViewportService();
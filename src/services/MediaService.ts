@@ -0,0 +1,264 @@
+/**
+ * Media Service
+ * Client-side preparation of photo and video evidence before upload
+ *
+ * Features:
+ * - Reads EXIF capture time and GPS from the original image bytes
+ * - Downscales and re-encodes photos to JPEG to keep uploads small on mobile data
+ * - Validates video length and size and grabs a JPEG poster frame for thumbnails
+ * - Computes a perceptual hash (dHash) so reused photos can be spotted across reports
+ *
+ * Browsers cannot re-encode video cheaply, so clips are capped rather than transcoded.
+ * Prepared media holds plain Blobs, so it can be queued in IndexedDB by the report outbox.
+ */
+
+import { parseExif, type ExifData } from '../utils/exif';
+
+export type MediaKind = 'image' | 'video';
+
+export interface PreparedMedia {
+  id: string;
+  kind: MediaKind;
+  blob: Blob; // Compressed image or original video
+  poster?: Blob; // JPEG poster frame for videos
+  mime_type: string;
+  width?: number;
+  height?: number;
+  duration_s?: number;
+  size_bytes: number;
+  original_size_bytes: number;
+  captured_at?: string; // From EXIF when present
+  gps?: { lat: number; lng: number; altitude?: number; accuracy?: number; direction?: number };
+  exif?: ExifData;
+  perceptual_hash?: string; // 64-bit dHash as 16 hex characters; videos hash their poster frame
+}
+
+export const MEDIA_LIMITS = {
+  maxAttachments: 10,
+  maxImageDimension: 1920,
+  imageQuality: 0.82,
+  posterDimension: 640,
+  maxVideoDurationS: 60,
+  maxVideoBytes: 50 * 1024 * 1024
+};
+
+export const SUPPORTED_VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+export class MediaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaValidationError';
+  }
+}
+
+const generateMediaId = (): string =>
+  `media_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const toBlob = async (input: File | Blob | string): Promise<Blob> => {
+  if (typeof input !== 'string') return input;
+  // Data URLs from the camera components
+  const response = await fetch(input);
+  return response.blob();
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
+
+const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+/**
+ * Difference hash: shrink to 9x8 greyscale and record whether each pixel is
+ * brighter than its right neighbour. Robust to resizing and re-compression.
+ */
+const computeDifferenceHash = (source: CanvasImageSource): string | undefined => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return undefined;
+
+  context.drawImage(source, 0, 0, 9, 8);
+  const { data } = context.getImageData(0, 0, 9, 8);
+  const luminance = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let nibble = 0;
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+};
+
+const loadImageSource = async (blob: Blob): Promise<{ source: CanvasImageSource; width: number; height: number; close: () => void }> => {
+  if (typeof createImageBitmap === 'function') {
+    // Applies the EXIF orientation so portrait photos are not stored sideways
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() };
+  }
+
+  const url = URL.createObjectURL(blob);
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new MediaValidationError('Unsupported image format'));
+    image.src = url;
+  });
+  return { source: image, width: image.naturalWidth, height: image.naturalHeight, close: () => URL.revokeObjectURL(url) };
+};
+
+const prepareImage = async (blob: Blob): Promise<PreparedMedia> => {
+  const exif: ExifData = blob.type === 'image/jpeg' || blob.type === ''
+    ? parseExif(await blob.arrayBuffer())
+    : { hasExif: false };
+
+  const image = await loadImageSource(blob);
+  try {
+    const size = fitWithin(image.width, image.height, MEDIA_LIMITS.maxImageDimension);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context not available');
+    context.drawImage(image.source, 0, 0, size.width, size.height);
+
+    // Re-encoding also strips EXIF, so the uploaded file does not leak the raw metadata
+    const output = await canvasToBlob(canvas, MEDIA_LIMITS.imageQuality);
+
+    return {
+      id: generateMediaId(),
+      kind: 'image',
+      blob: output,
+      mime_type: 'image/jpeg',
+      width: size.width,
+      height: size.height,
+      size_bytes: output.size,
+      original_size_bytes: blob.size,
+      captured_at: exif.dateTimeOriginal
+        ? `${exif.dateTimeOriginal}${exif.offsetTimeOriginal || ''}`
+        : undefined,
+      gps: exif.gps
+        ? { lat: exif.gps.lat, lng: exif.gps.lng, altitude: exif.gps.altitude, accuracy: exif.gps.accuracy, direction: exif.gps.direction }
+        : undefined,
+      exif: exif.hasExif ? exif : undefined,
+      perceptual_hash: computeDifferenceHash(canvas)
+    };
+  } finally {
+    image.close();
+  }
+};
+
+const prepareVideo = async (blob: Blob): Promise<PreparedMedia> => {
+  if (blob.type && !SUPPORTED_VIDEO_TYPES.includes(blob.type)) {
+    throw new MediaValidationError(`Unsupported video format: ${blob.type}`);
+  }
+  if (blob.size > MEDIA_LIMITS.maxVideoBytes) {
+    throw new MediaValidationError(
+      `Video is too large (max ${Math.round(MEDIA_LIMITS.maxVideoBytes / (1024 * 1024))} MB)`
+    );
+  }
+
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new MediaValidationError('Unable to read video'));
+      video.src = url;
+    });
+
+    if (video.duration > MEDIA_LIMITS.maxVideoDurationS) {
+      throw new MediaValidationError(`Video is too long (max ${MEDIA_LIMITS.maxVideoDurationS} seconds)`);
+    }
+
+    // Grab a poster frame slightly into the clip to skip black first frames
+    await new Promise<void>((resolve, reject) => {
+      video.onseeked = () => resolve();
+      video.onerror = () => reject(new MediaValidationError('Unable to read video'));
+      video.currentTime = Math.min(0.5, video.duration / 2);
+    });
+
+    const size = fitWithin(video.videoWidth, video.videoHeight, MEDIA_LIMITS.posterDimension);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext('2d');
+    let poster: Blob | undefined;
+    let perceptualHash: string | undefined;
+    if (context && size.width > 0 && size.height > 0) {
+      context.drawImage(video, 0, 0, size.width, size.height);
+      poster = await canvasToBlob(canvas, MEDIA_LIMITS.imageQuality);
+      perceptualHash = computeDifferenceHash(canvas);
+    }
+
+    return {
+      id: generateMediaId(),
+      kind: 'video',
+      blob,
+      poster,
+      mime_type: blob.type || 'video/mp4',
+      width: video.videoWidth,
+      height: video.videoHeight,
+      duration_s: Math.round(video.duration * 10) / 10,
+      size_bytes: blob.size,
+      original_size_bytes: blob.size,
+      perceptual_hash: perceptualHash
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Compress, validate and extract metadata from a photo or video
+ * @param input - A File from an input element, a Blob, or an image data URL
+ */
+export const prepareMedia = async (input: File | Blob | string): Promise<PreparedMedia> => {
+  const blob = await toBlob(input);
+
+  if (blob.type.startsWith('video/')) {
+    return prepareVideo(blob);
+  }
+  if (blob.type.startsWith('image/') || blob.type === '') {
+    return prepareImage(blob);
+  }
+  throw new MediaValidationError(`Unsupported media type: ${blob.type}`);
+};
+
+/**
+ * Prepare several media items, enforcing the per-report attachment limit
+ */
+export const prepareMediaBatch = async (inputs: Array<File | Blob | string>): Promise<PreparedMedia[]> => {
+  if (inputs.length > MEDIA_LIMITS.maxAttachments) {
+    throw new MediaValidationError(`A report can have at most ${MEDIA_LIMITS.maxAttachments} attachments`);
+  }
+
+  const prepared: PreparedMedia[] = [];
+  // Sequential to keep memory use down on low-end phones
+  for (const input of inputs) {
+    prepared.push(await prepareMedia(input));
+  }
+  return prepared;
+};
@@ -0,0 +1,309 @@
+/**
+ * Model Registry Service
+ * Versioned storage of the forecast models of each coastal zone
+ *
+ * Each training run of HazardForecastService registers the zone's LSTM together
+ * with the seasonal naive and exponential smoothing baselines it was compared
+ * with. A registered model keeps everything needed to forecast with it again -
+ * LSTM weights, the normalization fitted on its training split, the feature
+ * schema, fitted baseline parameters - plus its training data range and
+ * backtest metrics. One version per zone is active and produces the zone's
+ * forecasts; promoting a version retires the active one, and rolling back
+ * reactivates the version that was active before. Models are stored in
+ * model_registry (database/add_model_registry.sql) when reports live in
+ * Supabase, otherwise kept in memory.
+ */
+
+import { supabase } from './supabase';
+import { getReportRepository } from './ReportRepository';
+import {
+  PredictiveAnalyticsService,
+  FEATURE_SCHEMA,
+  forecastWithBaseline,
+  isSameFeatureSchema,
+  type BacktestMetrics,
+  type BaselineKind,
+  type FeatureSchema,
+  type ModelEvaluation,
+  type NormalizationParams,
+  type PredictionResult,
+  type SerializedModelArtifacts,
+  type TimeSeriesData
+} from './PredictiveAnalyticsService';
+
+export type ForecastModelKind = 'lstm' | BaselineKind;
+
+// candidate: never active; retired: replaced by a later promotion; rolled_back: withdrawn while active
+export type ModelStatus = 'candidate' | 'active' | 'retired' | 'rolled_back';
+
+export interface RegisteredModel {
+  modelVersion: string;
+  coastalZone: string;
+  kind: ForecastModelKind;
+  status: ModelStatus;
+  featureSchema: FeatureSchema;
+  normalizationParams: NormalizationParams | null; // LSTM only
+  parameters: Record<string, number>; // Baselines only
+  artifacts: SerializedModelArtifacts | null; // LSTM only, and left out of listings
+  metrics: BacktestMetrics; // A ModelEvaluation for an LSTM
+  dataStart: string; // First and last hour of the training series
+  dataEnd: string;
+  trainedAt: string;
+  promotedAt: string | null; // Last time it became active
+}
+
+export type ModelRegistration = Omit<RegisteredModel, 'status' | 'promotedAt'>;
+
+export const MODEL_REGISTRY_UPDATED_EVENT = 'modelRegistryUpdated';
+
+const LISTING_COLUMNS = 'model_version, coastal_zone, model_kind, status, feature_schema, normalization_params, parameters, metrics, data_start, data_end, trained_at, promoted_at';
+
+interface ModelRegistryRow {
+  model_version: string;
+  coastal_zone: string;
+  model_kind: ForecastModelKind;
+  status: ModelStatus;
+  feature_schema: FeatureSchema;
+  normalization_params: NormalizationParams | null;
+  parameters: Record<string, number> | null;
+  artifacts?: SerializedModelArtifacts | null;
+  metrics: BacktestMetrics;
+  data_start: string;
+  data_end: string;
+  trained_at: string;
+  promoted_at: string | null;
+}
+
+const toRegisteredModel = (row: ModelRegistryRow): RegisteredModel => ({
+  modelVersion: row.model_version,
+  coastalZone: row.coastal_zone,
+  kind: row.model_kind,
+  status: row.status,
+  featureSchema: row.feature_schema,
+  normalizationParams: row.normalization_params ?? null,
+  parameters: row.parameters || {},
+  artifacts: row.artifacts ?? null,
+  metrics: row.metrics,
+  dataStart: row.data_start,
+  dataEnd: row.data_end,
+  trainedAt: row.trained_at,
+  promotedAt: row.promoted_at ?? null
+});
+
+class ModelRegistryService {
+  private memoryModels: RegisteredModel[] = []; // Used when reports are stored locally
+
+  private get isRemote(): boolean {
+    return getReportRepository().type === 'supabase';
+  }
+
+  /**
+   * Add a trained model as a candidate
+   */
+  async register(registration: ModelRegistration): Promise<RegisteredModel> {
+    const model: RegisteredModel = { ...registration, status: 'candidate', promotedAt: null };
+    if (!this.isRemote) {
+      this.memoryModels.push(model);
+    } else {
+      const { error } = await supabase.from('model_registry').insert({
+        model_version: model.modelVersion,
+        coastal_zone: model.coastalZone,
+        model_kind: model.kind,
+        status: model.status,
+        feature_schema: model.featureSchema,
+        normalization_params: model.normalizationParams,
+        parameters: model.parameters,
+        artifacts: model.artifacts,
+        metrics: model.metrics,
+        data_start: model.dataStart,
+        data_end: model.dataEnd,
+        trained_at: model.trainedAt
+      });
+      if (error) throw error;
+    }
+    this.notifyUpdated();
+    return model;
+  }
+
+  /**
+   * A zone's models, newest first, without artifacts
+   */
+  async listVersions(coastalZone: string, limit: number = 30): Promise<RegisteredModel[]> {
+    if (!this.isRemote) {
+      return this.memoryModels
+        .filter(model => model.coastalZone === coastalZone)
+        .reverse()
+        .slice(0, limit)
+        .map(model => ({ ...model, artifacts: null }));
+    }
+
+    const { data, error } = await supabase
+      .from('model_registry')
+      .select(LISTING_COLUMNS)
+      .eq('coastal_zone', coastalZone)
+      .order('trained_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toRegisteredModel);
+  }
+
+  /**
+   * The active model of every zone that has one, without artifacts
+   */
+  async listActiveModels(): Promise<RegisteredModel[]> {
+    if (!this.isRemote) {
+      return this.memoryModels
+        .filter(model => model.status === 'active')
+        .map(model => ({ ...model, artifacts: null }));
+    }
+
+    const { data, error } = await supabase
+      .from('model_registry')
+      .select(LISTING_COLUMNS)
+      .eq('status', 'active');
+
+    if (error) throw error;
+    return (data || []).map(toRegisteredModel);
+  }
+
+  async getModel(modelVersion: string): Promise<RegisteredModel | null> {
+    if (!this.isRemote) {
+      return this.memoryModels.find(model => model.modelVersion === modelVersion) || null;
+    }
+
+    const { data, error } = await supabase
+      .from('model_registry')
+      .select('*')
+      .eq('model_version', modelVersion)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toRegisteredModel(data) : null;
+  }
+
+  async getActiveModel(coastalZone: string): Promise<RegisteredModel | null> {
+    if (!this.isRemote) {
+      return this.memoryModels.find(model => model.coastalZone === coastalZone && model.status === 'active') || null;
+    }
+
+    const { data, error } = await supabase
+      .from('model_registry')
+      .select('*')
+      .eq('coastal_zone', coastalZone)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toRegisteredModel(data) : null;
+  }
+
+  /**
+   * Make a version the zone's active model, retiring the one active now
+   */
+  async promote(coastalZone: string, modelVersion: string): Promise<RegisteredModel> {
+    const model = await this.getModel(modelVersion);
+    if (!model || model.coastalZone !== coastalZone) {
+      throw new Error(`Model ${modelVersion} is not registered for ${coastalZone}`);
+    }
+    if (!isSameFeatureSchema(model.featureSchema, FEATURE_SCHEMA)) {
+      throw new Error(`Model ${modelVersion} uses feature schema v${model.featureSchema.version} and cannot forecast in this build`);
+    }
+    if (model.status === 'active') {
+      return model;
+    }
+
+    const promotedAt = await this.activate(model, 'retired');
+    this.notifyUpdated();
+    return { ...model, status: 'active', promotedAt };
+  }
+
+  /**
+   * Withdraw the zone's active model and reactivate the version promoted
+   * before it; returns the reactivated model
+   */
+  async rollback(coastalZone: string): Promise<RegisteredModel> {
+    const active = await this.getActiveModel(coastalZone);
+    if (!active) {
+      throw new Error(`No active model for ${coastalZone}`);
+    }
+
+    const previous = (await this.listVersions(coastalZone, 100))
+      .filter(model =>
+        model.status === 'retired' &&
+        model.promotedAt !== null &&
+        isSameFeatureSchema(model.featureSchema, FEATURE_SCHEMA)
+      )
+      .sort((a, b) => new Date(b.promotedAt!).getTime() - new Date(a.promotedAt!).getTime())[0];
+    if (!previous) {
+      throw new Error(`No earlier model to roll back to for ${coastalZone}`);
+    }
+
+    const promotedAt = await this.activate(previous, 'rolled_back');
+    this.notifyUpdated();
+    return { ...previous, status: 'active', promotedAt };
+  }
+
+  /**
+   * Forecast the hours after recentData with a registered model
+   */
+  async forecast(model: RegisteredModel, recentData: TimeSeriesData[]): Promise<PredictionResult> {
+    if (model.kind !== 'lstm') {
+      return forecastWithBaseline({ kind: model.kind, parameters: model.parameters, metrics: model.metrics }, recentData);
+    }
+
+    const stored = model.artifacts ? model : await this.getModel(model.modelVersion);
+    if (!stored?.artifacts || !stored.normalizationParams) {
+      throw new Error(`Model ${model.modelVersion} has no stored weights`);
+    }
+
+    const lstm = new PredictiveAnalyticsService();
+    try {
+      await lstm.importModel({
+        artifacts: stored.artifacts,
+        normalizationParams: stored.normalizationParams,
+        featureSchema: stored.featureSchema,
+        evaluation: stored.metrics as ModelEvaluation
+      });
+      return await lstm.predictFutureHazards(recentData);
+    } finally {
+      lstm.dispose();
+    }
+  }
+
+  /**
+   * Make a model its zone's active one, giving the model active now
+   * replacedStatus; both change together, so a failure cannot leave the zone
+   * without an active model. Returns the promotion time.
+   */
+  private async activate(model: RegisteredModel, replacedStatus: 'retired' | 'rolled_back'): Promise<string> {
+    if (!this.isRemote) {
+      const promotedAt = new Date().toISOString();
+      this.memoryModels.forEach(entry => {
+        if (entry.modelVersion === model.modelVersion) {
+          entry.status = 'active';
+          entry.promotedAt = promotedAt;
+        } else if (entry.coastalZone === model.coastalZone && entry.status === 'active') {
+          entry.status = replacedStatus;
+        }
+      });
+      return promotedAt;
+    }
+
+    const { data, error } = await supabase.rpc('activate_forecast_model', {
+      zone_id: model.coastalZone,
+      target_version: model.modelVersion,
+      replaced_status: replacedStatus
+    });
+    if (error) throw error;
+    return new Date(data as string).toISOString();
+  }
+
+  private notifyUpdated(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(MODEL_REGISTRY_UPDATED_EVENT));
+    }
+  }
+}
+
+export const modelRegistryService = new ModelRegistryService();
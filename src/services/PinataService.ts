@@ -21,6 +21,12 @@ export interface ProofOfReportData {
   timestamp: string;
   city: string;
   version: string;
+  evidence?: {
+    integrity_score: number;
+    flags: string[];
+    content_hashes: string[]; // SHA-256 of each attached file
+    perceptual_hashes: string[];
+  };
 }
 
 /**
@@ -1,6 +1,9 @@
 import * as tf from '@tensorflow/tfjs';
 
-interface TimeSeriesData {
+/**
+ * One hour of hazard activity, in a coastal zone or overall (see HazardForecastService)
+ */
+export interface TimeSeriesData {
   timestamp: Date;
   reportCount: number;
   avgSeverity: number;
@@ -9,48 +12,285 @@ interface TimeSeriesData {
   socialMediaVolume: number;
 }
 
-interface PredictionResult {
+export interface PredictionResult {
   predictions: Array<{
     timestamp: Date;
     predictedReportCount: number;
     confidence: number;
     riskLevel: 'low' | 'medium' | 'high' | 'critical';
   }>;
-  modelAccuracy: number;
+  modelAccuracy: number; // ModelEvaluation.accuracy
   trainingMetrics: {
-    loss: number;
-    mae: number;
+    loss: number; // Training loss
+    mae: number; // Backtest, in reports per hour
     rmse: number;
   };
 }
 
+/**
+ * How well a forecaster did on the test split, hours it never saw
+ */
+export interface BacktestMetrics {
+  testMae: number; // Reports per hour, over a rolling-origin backtest
+  testRmse: number;
+  horizonRmse: number[]; // By hours ahead, 1 hour first
+  baselineMae: number; // Seasonal naive forecast: the same hour a day earlier
+  skill: number; // 1 - testMae / baselineMae; above 0 beats the baseline
+  accuracy: number; // 1 - weighted absolute percentage error, 0-1
+  riskLevelAccuracy: number; // Share of forecast hours given the right risk level
+  meanHourlyReports: number; // Over the test split
+  backtestOrigins: number;
+}
+
+/**
+ * Backtest of a trained LSTM, with its training losses
+ */
+export interface ModelEvaluation extends BacktestMetrics {
+  trainLoss: number;
+  validationLoss: number;
+  trainingSamples: number;
+  validationSamples: number;
+}
+
+export interface TrainingOptions {
+  validationFraction?: number; // Share of the series after the training part
+  testFraction?: number; // Share of the series at the end
+  epochs?: number;
+}
+
+export interface NormalizationParams {
+  maxReportCount: number;
+  maxSeverity: number;
+  maxWaveHeight: number;
+  maxHotspotCount: number;
+  maxSocialMediaVolume: number;
+}
+
+/**
+ * The input a model was trained on; a stored model only loads under the same schema
+ */
+export interface FeatureSchema {
+  version: number;
+  features: Array<Exclude<keyof TimeSeriesData, 'timestamp'>>; // Input order
+  target: Exclude<keyof TimeSeriesData, 'timestamp'>;
+  intervalHours: number;
+  sequenceLength: number; // Hours of history per forecast
+  predictionHorizon: number; // Hours forecast
+}
+
+export const FEATURE_SCHEMA: FeatureSchema = {
+  version: 1,
+  features: ['reportCount', 'avgSeverity', 'avgWaveHeight', 'hotspotCount', 'socialMediaVolume'],
+  target: 'reportCount',
+  intervalHours: 1,
+  sequenceLength: 24,
+  predictionHorizon: 12
+};
+
+export const isSameFeatureSchema = (a: FeatureSchema, b: FeatureSchema): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export type BaselineKind = 'seasonal_naive' | 'exponential_smoothing';
+
+/**
+ * A statistical forecaster scored on the same test hours as the LSTM
+ */
+export interface BaselineModel {
+  kind: BaselineKind;
+  parameters: Record<string, number>;
+  metrics: BacktestMetrics;
+}
+
+/**
+ * Topology and weights of a trained LSTM, as JSON
+ */
+export interface SerializedModelArtifacts {
+  modelTopology: object;
+  weightSpecs: tf.io.WeightsManifestEntry[];
+  weightData: string; // Base64
+}
+
+/**
+ * Everything needed to forecast with a trained LSTM again later
+ */
+export interface ModelSnapshot {
+  artifacts: SerializedModelArtifacts;
+  normalizationParams: NormalizationParams;
+  featureSchema: FeatureSchema;
+  evaluation: ModelEvaluation;
+}
+
+/**
+ * A trained LSTM and the baselines scored with it, as plain data that can
+ * leave a worker
+ */
+export interface TrainedForecastModels {
+  metrics: ModelEvaluation;
+  baselines: BaselineModel[];
+  snapshot: ModelSnapshot;
+}
+
+const SEASONAL_PERIOD_HOURS = 24;
+const SMOOTHING_GRID = [0.02, 0.05, 0.1, 0.2, 0.3, 0.5, 0.7];
+
+export const determineRiskLevel = (predictedCount: number): 'low' | 'medium' | 'high' | 'critical' => {
+  if (predictedCount < 5) return 'low';
+  if (predictedCount < 15) return 'medium';
+  if (predictedCount < 30) return 'high';
+  return 'critical';
+};
+
+/**
+ * Forecast hours after the last hour of data, with confidence from the
+ * backtest error at each number of hours ahead relative to typical hourly activity
+ */
+const toPredictionResult = (
+  forecast: number[],
+  recentData: TimeSeriesData[],
+  metrics: BacktestMetrics | null,
+  trainLoss: number
+): PredictionResult => {
+  const lastTimestamp = recentData[recentData.length - 1].timestamp.getTime();
+  const scale = Math.max(1, metrics?.meanHourlyReports ?? 0);
+  return {
+    predictions: forecast.map((predictedCount, idx) => ({
+      timestamp: new Date(lastTimestamp + (idx + 1) * FEATURE_SCHEMA.intervalHours * 60 * 60 * 1000),
+      predictedReportCount: Math.round(predictedCount),
+      confidence: metrics ? scale / (scale + metrics.horizonRmse[idx]) : 0.5,
+      riskLevel: determineRiskLevel(predictedCount)
+    })),
+    modelAccuracy: metrics?.accuracy ?? 0,
+    trainingMetrics: {
+      loss: trainLoss,
+      mae: metrics?.testMae ?? 0,
+      rmse: metrics?.testRmse ?? 0
+    }
+  };
+};
+
+/**
+ * Seasonal naive forecast: every hour repeats the same hour a day earlier
+ */
+export const seasonalNaiveForecast = (
+  history: TimeSeriesData[],
+  horizon: number = FEATURE_SCHEMA.predictionHorizon
+): number[] =>
+  Array.from({ length: horizon }, (_, step) =>
+    history[history.length - SEASONAL_PERIOD_HOURS + (step % SEASONAL_PERIOD_HOURS)]?.reportCount ?? 0
+  );
+
+/**
+ * Additive seasonal exponential smoothing (Holt-Winters without trend) over
+ * the report counts, with the one-hour-ahead squared error along the way
+ */
+const runExponentialSmoothing = (
+  history: TimeSeriesData[],
+  alpha: number,
+  gamma: number
+): { level: number; seasonals: number[]; squaredError: number } => {
+  const counts = history.map(d => d.reportCount);
+  const firstDay = counts.slice(0, SEASONAL_PERIOD_HOURS);
+  let level = firstDay.reduce((sum, count) => sum + count, 0) / Math.max(1, firstDay.length);
+  const seasonals = Array.from({ length: SEASONAL_PERIOD_HOURS }, (_, hour) => (counts[hour] ?? level) - level);
+  let squaredError = 0;
+
+  for (let t = SEASONAL_PERIOD_HOURS; t < counts.length; t++) {
+    const seasonal = seasonals[t % SEASONAL_PERIOD_HOURS];
+    const error = counts[t] - (level + seasonal);
+    squaredError += error * error;
+    const nextLevel = alpha * (counts[t] - seasonal) + (1 - alpha) * level;
+    seasonals[t % SEASONAL_PERIOD_HOURS] = gamma * (counts[t] - nextLevel) + (1 - gamma) * seasonal;
+    level = nextLevel;
+  }
+  return { level, seasonals, squaredError };
+};
+
+/**
+ * Smoothing factors with the lowest one-hour-ahead error on a series
+ */
+export const fitExponentialSmoothing = (history: TimeSeriesData[]): { alpha: number; gamma: number } => {
+  let best = { alpha: SMOOTHING_GRID[0], gamma: SMOOTHING_GRID[0], squaredError: Infinity };
+  SMOOTHING_GRID.forEach(alpha => SMOOTHING_GRID.forEach(gamma => {
+    const { squaredError } = runExponentialSmoothing(history, alpha, gamma);
+    if (squaredError < best.squaredError) best = { alpha, gamma, squaredError };
+  }));
+  return { alpha: best.alpha, gamma: best.gamma };
+};
+
+/**
+ * Smooth the whole history, then forecast the level plus each hour's seasonal term
+ */
+export const exponentialSmoothingForecast = (
+  history: TimeSeriesData[],
+  parameters: { alpha: number; gamma: number },
+  horizon: number = FEATURE_SCHEMA.predictionHorizon
+): number[] => {
+  const { level, seasonals } = runExponentialSmoothing(history, parameters.alpha, parameters.gamma);
+  return Array.from({ length: horizon }, (_, step) =>
+    Math.max(0, level + seasonals[(history.length + step) % SEASONAL_PERIOD_HOURS])
+  );
+};
+
+/**
+ * Forecast the hours after recentData with a baseline model
+ */
+export const forecastWithBaseline = (
+  baseline: Pick<BaselineModel, 'kind' | 'parameters' | 'metrics'>,
+  recentData: TimeSeriesData[]
+): PredictionResult => {
+  if (recentData.length < SEASONAL_PERIOD_HOURS) {
+    throw new Error(`Insufficient data. Need at least ${SEASONAL_PERIOD_HOURS} recent data points.`);
+  }
+  const forecast = baseline.kind === 'seasonal_naive'
+    ? seasonalNaiveForecast(recentData)
+    : exponentialSmoothingForecast(recentData, {
+        alpha: baseline.parameters.alpha,
+        gamma: baseline.parameters.gamma
+      });
+  return toPredictionResult(forecast, recentData, baseline.metrics, 0);
+};
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): ArrayBuffer =>
+  Uint8Array.from(atob(text), char => char.charCodeAt(0)).buffer;
+
 export class PredictiveAnalyticsService {
   private model: tf.LayersModel | null = null;
-  private readonly SEQUENCE_LENGTH = 24; // 24 hours of historical data
-  private readonly PREDICTION_HORIZON = 12; // Predict next 12 hours
-  private normalizationParams: {
-    maxReportCount: number;
-    maxSeverity: number;
-    maxWaveHeight: number;
-    maxHotspotCount: number;
-    maxSocialMediaVolume: number;
-  } | null = null;
+  private readonly SEQUENCE_LENGTH = FEATURE_SCHEMA.sequenceLength; // 24 hours of historical data
+  private readonly PREDICTION_HORIZON = FEATURE_SCHEMA.predictionHorizon; // Predict next 12 hours
+  private normalizationParams: NormalizationParams | null = null;
+  private evaluation: ModelEvaluation | null = null;
   
   /**
    * PATENT-WORTHY: Multi-variate LSTM for Maritime Hazard Forecasting
    * Predicts future hazard activity based on historical patterns
+   *
+   * The hourly series is split in time order into training, validation and
+   * test parts; each forecast window belongs to the part its forecast hours
+   * fall in, so the model never trains on hours it is scored on. Normalization
+   * comes from the training part alone. The test part is then backtested from
+   * a new origin every PREDICTION_HORIZON hours, against a seasonal naive
+   * forecast.
    */
   async trainPredictiveModel(
-    historicalData: TimeSeriesData[]
-  ): Promise<{ model: tf.LayersModel; metrics: any }> {
+    historicalData: TimeSeriesData[],
+    options: TrainingOptions = {}
+  ): Promise<{ model: tf.LayersModel; metrics: ModelEvaluation }> {
     
-    if (historicalData.length < this.SEQUENCE_LENGTH + this.PREDICTION_HORIZON) {
-      throw new Error(`Insufficient data. Need at least ${this.SEQUENCE_LENGTH + this.PREDICTION_HORIZON} data points.`);
-    }
+    const { validationStart, trainOrigins, validationOrigins, testOrigins } = this.getSplits(historicalData.length, options);
     
     // Prepare training data
-    const { inputs, outputs, normParams } = this.prepareTimeSeriesData(historicalData);
-    this.normalizationParams = normParams;
+    this.normalizationParams = this.getNormalizationParams(historicalData.slice(0, validationStart));
+    const train = this.prepareTimeSeriesData(historicalData, trainOrigins);
+    const validation = this.prepareTimeSeriesData(historicalData, validationOrigins);
     
     // Build simplified LSTM model for faster training
     const model = tf.sequential({
@@ -58,7 +298,7 @@ export class PredictiveAnalyticsService {
         tf.layers.lstm({
           units: 32, // Reduced from 64
           returnSequences: false, // Removed second LSTM layer
-          inputShape: [this.SEQUENCE_LENGTH, 5] // 5 features
+          inputShape: [this.SEQUENCE_LENGTH, FEATURE_SCHEMA.features.length]
         }),
         tf.layers.dropout({ rate: 0.2 }),
         tf.layers.dense({ units: 12, activation: 'relu' }), // Reduced from 16
@@ -76,10 +316,10 @@ export class PredictiveAnalyticsService {
     console.log('Training LSTM model for maritime hazard prediction...');
     
     // Train model with reduced epochs for faster demo
-    const history = await model.fit(inputs, outputs, {
-      epochs: 15, // Reduced from 50 for faster training
+    const history = await model.fit(train.inputs, train.outputs, {
+      epochs: options.epochs ?? 15, // Reduced from 50 for faster training
       batchSize: 16, // Reduced from 32 for faster processing
-      validationSplit: 0.2,
+      validationData: [validation.inputs, validation.outputs],
       verbose: 0,
       callbacks: {
         onEpochEnd: (epoch, logs) => {
@@ -90,76 +330,188 @@ export class PredictiveAnalyticsService {
       }
     });
     
+    this.dispose();
     this.model = model;
     
     // Cleanup tensors
-    inputs.dispose();
-    outputs.dispose();
+    train.inputs.dispose();
+    train.outputs.dispose();
+    validation.inputs.dispose();
+    validation.outputs.dispose();
     
-    return {
-      model,
-      metrics: {
-        finalLoss: history.history.loss[history.history.loss.length - 1] as number,
-        finalMAE: history.history.mae[history.history.mae.length - 1] as number
+    const backtest = this.backtest(historicalData, testOrigins, origin =>
+      this.forecast(historicalData.slice(origin - this.SEQUENCE_LENGTH, origin))
+    );
+    this.evaluation = {
+      trainLoss: history.history.loss[history.history.loss.length - 1] as number,
+      validationLoss: history.history.val_loss[history.history.val_loss.length - 1] as number,
+      ...backtest,
+      trainingSamples: trainOrigins.length,
+      validationSamples: validationOrigins.length
+    };
+    
+    return { model, metrics: this.evaluation };
+  }
+  
+  /**
+   * Seasonal naive and exponential smoothing forecasters, backtested from the
+   * same origins as trainPredictiveModel so their metrics compare directly.
+   * Smoothing factors are fitted on the hours before the test split.
+   */
+  evaluateBaselines(historicalData: TimeSeriesData[], options: TrainingOptions = {}): BaselineModel[] {
+    const { testStart, testOrigins } = this.getSplits(historicalData.length, options);
+    const smoothing = fitExponentialSmoothing(historicalData.slice(0, testStart));
+    
+    return [
+      {
+        kind: 'seasonal_naive',
+        parameters: { periodHours: SEASONAL_PERIOD_HOURS },
+        metrics: this.backtest(historicalData, testOrigins, origin =>
+          seasonalNaiveForecast(historicalData.slice(0, origin), this.PREDICTION_HORIZON)
+        )
+      },
+      {
+        kind: 'exponential_smoothing',
+        parameters: { ...smoothing, periodHours: SEASONAL_PERIOD_HOURS },
+        metrics: this.backtest(historicalData, testOrigins, origin =>
+          exponentialSmoothingForecast(historicalData.slice(0, origin), smoothing, this.PREDICTION_HORIZON)
+        )
       }
+    ];
+  }
+  
+  /**
+   * Chronological training, validation and test splits, as forecast origins
+   * (first forecast hour) of each
+   */
+  private getSplits(length: number, options: TrainingOptions) {
+    const validationFraction = options.validationFraction ?? 0.15;
+    const testFraction = options.testFraction ?? 0.15;
+    const testStart = Math.floor(length * (1 - testFraction));
+    const validationStart = Math.floor(length * (1 - testFraction - validationFraction));
+    
+    const trainOrigins = this.getForecastOrigins(this.SEQUENCE_LENGTH, validationStart, 1);
+    const validationOrigins = this.getForecastOrigins(Math.max(validationStart, this.SEQUENCE_LENGTH), testStart, 1);
+    const testOrigins = this.getForecastOrigins(Math.max(testStart, this.SEQUENCE_LENGTH), length, this.PREDICTION_HORIZON);
+    
+    if (trainOrigins.length === 0 || validationOrigins.length === 0 || testOrigins.length === 0) {
+      const minimum = Math.ceil(Math.max(
+        (this.SEQUENCE_LENGTH + this.PREDICTION_HORIZON) / (1 - validationFraction - testFraction),
+        this.PREDICTION_HORIZON / validationFraction,
+        this.PREDICTION_HORIZON / testFraction
+      ));
+      throw new Error(`Insufficient data. Need at least ${minimum} hourly data points for training, validation and test splits.`);
+    }
+    return { validationStart, testStart, trainOrigins, validationOrigins, testOrigins };
+  }
+  
+  /**
+   * Origins from start up to the last one whose forecast hours end by end
+   */
+  private getForecastOrigins(start: number, end: number, step: number): number[] {
+    const origins: number[] = [];
+    for (let origin = start; origin + this.PREDICTION_HORIZON <= end; origin += step) {
+      origins.push(origin);
+    }
+    return origins;
+  }
+  
+  private getNormalizationParams(data: TimeSeriesData[]): NormalizationParams {
+    return {
+      maxReportCount: Math.max(...data.map(d => d.reportCount), 1),
+      maxSeverity: 5,
+      maxWaveHeight: 10,
+      maxHotspotCount: Math.max(...data.map(d => d.hotspotCount), 1),
+      maxSocialMediaVolume: Math.max(...data.map(d => d.socialMediaVolume), 1)
     };
   }
   
+  // In FEATURE_SCHEMA.features order
+  private toFeatures(d: TimeSeriesData): number[] {
+    const params = this.normalizationParams!;
+    return [
+      d.reportCount / params.maxReportCount,
+      d.avgSeverity / params.maxSeverity,
+      d.avgWaveHeight / params.maxWaveHeight,
+      d.hotspotCount / params.maxHotspotCount,
+      d.socialMediaVolume / params.maxSocialMediaVolume
+    ];
+  }
+  
   private prepareTimeSeriesData(
-    data: TimeSeriesData[]
-  ): { inputs: tf.Tensor; outputs: tf.Tensor; normParams: any } {
+    data: TimeSeriesData[],
+    origins: number[]
+  ): { inputs: tf.Tensor; outputs: tf.Tensor } {
     
-    // Calculate normalization parameters
-    const maxReportCount = Math.max(...data.map(d => d.reportCount), 1);
-    const maxSeverity = 5;
-    const maxWaveHeight = 10;
-    const maxHotspotCount = Math.max(...data.map(d => d.hotspotCount), 1);
-    const maxSocialMediaVolume = Math.max(...data.map(d => d.socialMediaVolume), 1);
+    const sequences = origins.map(origin =>
+      data.slice(origin - this.SEQUENCE_LENGTH, origin).map(d => this.toFeatures(d))
+    );
+    const labels = origins.map(origin =>
+      data.slice(origin, origin + this.PREDICTION_HORIZON).map(d => d.reportCount / this.normalizationParams!.maxReportCount)
+    );
     
-    const normParams = {
-      maxReportCount,
-      maxSeverity,
-      maxWaveHeight,
-      maxHotspotCount,
-      maxSocialMediaVolume
+    return {
+      inputs: tf.tensor3d(sequences),
+      outputs: tf.tensor2d(labels)
     };
+  }
+  
+  /**
+   * Report counts for the PREDICTION_HORIZON hours after a SEQUENCE_LENGTH window
+   */
+  private forecast(window: TimeSeriesData[]): number[] {
+    const normalized = tf.tidy(() => {
+      const input = tf.tensor3d([window.map(d => this.toFeatures(d))]);
+      return Array.from((this.model!.predict(input) as tf.Tensor).dataSync());
+    });
+    return normalized.map(value => Math.max(0, value * this.normalizationParams!.maxReportCount));
+  }
+  
+  /**
+   * Forecast from each origin and score against what happened
+   */
+  private backtest(
+    data: TimeSeriesData[],
+    origins: number[],
+    forecaster: (origin: number) => number[]
+  ): BacktestMetrics {
     
-    // Normalize data
-    const normalized = data.map(d => ({
-      timestamp: d.timestamp,
-      reportCount: d.reportCount / maxReportCount,
-      avgSeverity: d.avgSeverity / maxSeverity,
-      avgWaveHeight: d.avgWaveHeight / maxWaveHeight,
-      hotspotCount: d.hotspotCount / maxHotspotCount,
-      socialMediaVolume: d.socialMediaVolume / maxSocialMediaVolume
-    }));
-    
-    const sequences = [];
-    const labels = [];
+    let absoluteError = 0;
+    let squaredError = 0;
+    let baselineError = 0;
+    let actualTotal = 0;
+    let riskLevelHits = 0;
+    const horizonSquaredError = new Array<number>(this.PREDICTION_HORIZON).fill(0);
     
-    for (let i = 0; i < normalized.length - this.SEQUENCE_LENGTH - this.PREDICTION_HORIZON; i++) {
-      const sequence = normalized.slice(i, i + this.SEQUENCE_LENGTH)
-        .map(d => [
-          d.reportCount,
-          d.avgSeverity,
-          d.avgWaveHeight,
-          d.hotspotCount,
-          d.socialMediaVolume
-        ]);
-      
-      const future = normalized.slice(
-        i + this.SEQUENCE_LENGTH,
-        i + this.SEQUENCE_LENGTH + this.PREDICTION_HORIZON
-      ).map(d => d.reportCount);
-      
-      sequences.push(sequence);
-      labels.push(future);
-    }
+    origins.forEach(origin => {
+      const predicted = forecaster(origin);
+      predicted.forEach((prediction, step) => {
+        const actual = data[origin + step].reportCount;
+        // Seasonal naive: the same hour the day before, already known at the origin
+        const baseline = data[origin + step - SEASONAL_PERIOD_HOURS]?.reportCount ?? 0;
+        const error = prediction - actual;
+        absoluteError += Math.abs(error);
+        squaredError += error * error;
+        horizonSquaredError[step] += error * error;
+        baselineError += Math.abs(baseline - actual);
+        actualTotal += actual;
+        if (determineRiskLevel(prediction) === determineRiskLevel(actual)) riskLevelHits++;
+      });
+    });
     
+    const forecastHours = origins.length * this.PREDICTION_HORIZON;
+    const testMae = absoluteError / forecastHours;
+    const baselineMae = baselineError / forecastHours;
     return {
-      inputs: tf.tensor3d(sequences),
-      outputs: tf.tensor2d(labels),
-      normParams
+      testMae,
+      testRmse: Math.sqrt(squaredError / forecastHours),
+      horizonRmse: horizonSquaredError.map(sum => Math.sqrt(sum / origins.length)),
+      baselineMae,
+      skill: baselineMae > 0 ? 1 - testMae / baselineMae : 0,
+      accuracy: actualTotal > 0 ? Math.max(0, 1 - absoluteError / actualTotal) : Number(absoluteError === 0),
+      riskLevelAccuracy: riskLevelHits / forecastHours,
+      meanHourlyReports: actualTotal / forecastHours,
+      backtestOrigins: origins.length
     };
   }
   
@@ -182,62 +534,24 @@ export class PredictiveAnalyticsService {
       throw new Error('Normalization parameters not set. Train model first.');
     }
     
-    // Normalize recent data using stored parameters
-    const normalized = recentData.slice(-this.SEQUENCE_LENGTH).map(d => ({
-      reportCount: d.reportCount / this.normalizationParams!.maxReportCount,
-      avgSeverity: d.avgSeverity / this.normalizationParams!.maxSeverity,
-      avgWaveHeight: d.avgWaveHeight / this.normalizationParams!.maxWaveHeight,
-      hotspotCount: d.hotspotCount / this.normalizationParams!.maxHotspotCount,
-      socialMediaVolume: d.socialMediaVolume / this.normalizationParams!.maxSocialMediaVolume
-    }));
-    
-    const sequence = normalized.map(d => [
-      d.reportCount,
-      d.avgSeverity,
-      d.avgWaveHeight,
-      d.hotspotCount,
-      d.socialMediaVolume
-    ]);
-    
-    const inputTensor = tf.tensor3d([sequence]);
-    const predictionTensor = this.model.predict(inputTensor) as tf.Tensor;
-    const predictions = await predictionTensor.array() as number[][];
-    
-    // Denormalize predictions
-    const results = predictions[0].map((pred, idx) => {
-      const predictedCount = pred * this.normalizationParams!.maxReportCount;
-      const timestamp = new Date(
-        recentData[recentData.length - 1].timestamp.getTime() + (idx + 1) * 60 * 60 * 1000
-      );
-      
-      return {
-        timestamp,
-        predictedReportCount: Math.round(Math.max(0, predictedCount)),
-        confidence: 0.75, // Simplified confidence estimation
-        riskLevel: this.determineRiskLevel(predictedCount)
-      };
-    });
-    
-    // Cleanup tensors
-    inputTensor.dispose();
-    predictionTensor.dispose();
-    
-    return {
-      predictions: results,
-      modelAccuracy: 0.85, // Estimated based on training
-      trainingMetrics: {
-        loss: 0.05,
-        mae: 0.12,
-        rmse: 0.15
-      }
-    };
+    return toPredictionResult(
+      this.forecast(recentData.slice(-this.SEQUENCE_LENGTH)),
+      recentData,
+      this.evaluation,
+      this.evaluation?.trainLoss ?? 0
+    );
   }
   
-  private determineRiskLevel(predictedCount: number): 'low' | 'medium' | 'high' | 'critical' {
-    if (predictedCount < 5) return 'low';
-    if (predictedCount < 15) return 'medium';
-    if (predictedCount < 30) return 'high';
-    return 'critical';
+  getEvaluation(): ModelEvaluation | null {
+    return this.evaluation;
+  }
+  
+  /**
+   * Free the model's tensors
+   */
+  dispose(): void {
+    this.model?.dispose();
+    this.model = null;
   }
   
   /**
@@ -276,43 +590,74 @@ export class PredictiveAnalyticsService {
   }
   
   /**
-   * Save model to browser's IndexedDB
+   * The trained model with what it needs to forecast again: normalization,
+   * feature schema and backtest (stored by ModelRegistryService)
    */
-  async saveModel(modelName: string = 'jalbandhu-hazard-predictor'): Promise<void> {
-    if (!this.model) {
-      throw new Error('No model to save. Train a model first.');
+  async exportModel(): Promise<ModelSnapshot> {
+    const model = this.model;
+    if (!model || !this.normalizationParams || !this.evaluation) {
+      throw new Error('No model to export. Train a model first.');
     }
     
-    await this.model.save(`indexeddb://${modelName}`);
-    
-    // Save normalization parameters separately
-    localStorage.setItem(
-      `${modelName}-norm-params`,
-      JSON.stringify(this.normalizationParams)
-    );
+    const artifacts = await new Promise<tf.io.ModelArtifacts>((resolve, reject) => {
+      model.save(tf.io.withSaveHandler(async saved => {
+        resolve(saved);
+        return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(saved) };
+      })).catch(reject);
+    });
     
-    console.log(`Model saved as ${modelName}`);
+    return {
+      artifacts: {
+        modelTopology: artifacts.modelTopology as object,
+        weightSpecs: artifacts.weightSpecs || [],
+        weightData: toBase64(artifacts.weightData ? tf.io.CompositeArrayBuffer.join(artifacts.weightData) : new ArrayBuffer(0))
+      },
+      normalizationParams: this.normalizationParams,
+      featureSchema: FEATURE_SCHEMA,
+      evaluation: this.evaluation
+    };
   }
   
   /**
-   * Load model from browser's IndexedDB
+   * Restore a model from exportModel, replacing any model held now
    */
-  async loadModel(modelName: string = 'jalbandhu-hazard-predictor'): Promise<void> {
-    try {
-      this.model = await tf.loadLayersModel(`indexeddb://${modelName}`);
-      
-      // Load normalization parameters
-      const normParamsStr = localStorage.getItem(`${modelName}-norm-params`);
-      if (normParamsStr) {
-        this.normalizationParams = JSON.parse(normParamsStr);
-      }
-      
-      console.log(`Model loaded: ${modelName}`);
-    } catch (error) {
-      console.error('Error loading model:', error);
-      throw new Error('Failed to load model. Train a new model first.');
+  async importModel(snapshot: ModelSnapshot): Promise<void> {
+    if (!isSameFeatureSchema(snapshot.featureSchema, FEATURE_SCHEMA)) {
+      throw new Error(`Model uses feature schema v${snapshot.featureSchema.version}, this build expects v${FEATURE_SCHEMA.version}. Retrain the model.`);
     }
+    
+    const model = await tf.loadLayersModel(tf.io.fromMemory({
+      modelTopology: snapshot.artifacts.modelTopology,
+      weightSpecs: snapshot.artifacts.weightSpecs,
+      weightData: fromBase64(snapshot.artifacts.weightData)
+    }));
+    
+    this.dispose();
+    this.model = model;
+    this.normalizationParams = snapshot.normalizationParams;
+    this.evaluation = snapshot.evaluation;
   }
 }
 
+/**
+ * Train an LSTM on a series, score the baselines on the same test hours and
+ * free the model's tensors (run off the UI thread by workers/forecastTraining.worker.ts)
+ */
+export const trainForecastModels = async (
+  historicalData: TimeSeriesData[],
+  options: TrainingOptions = {}
+): Promise<TrainedForecastModels> => {
+  const service = new PredictiveAnalyticsService();
+  try {
+    const { metrics } = await service.trainPredictiveModel(historicalData, options);
+    return {
+      metrics,
+      baselines: service.evaluateBaselines(historicalData, options),
+      snapshot: await service.exportModel()
+    };
+  } finally {
+    service.dispose();
+  }
+};
+
 export default new PredictiveAnalyticsService();
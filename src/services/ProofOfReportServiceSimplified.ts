@@ -43,11 +43,13 @@ class ProofOfReportService {
    * 
    * @param reportId - The unique identifier of the report
    * @param city - The city where the report was made
+   * @param evidence - Media hashes and integrity result, anchoring the attached files to the proof
    * @returns Promise<ProofCreationResult> - Result of proof creation
    */
   async createProofOfReport(
     reportId: string, 
-    city: string
+    city: string,
+    evidence?: ProofOfReportData['evidence']
   ): Promise<ProofCreationResult> {
     const operationStart = Date.now();
     console.log(`ProofService: Creating proof for report ${reportId} in ${city}`);
@@ -59,7 +61,8 @@ class ProofOfReportService {
         report_id: reportId,
         timestamp: proofTimestamp,
         city: city,
-        version: '1.0.0'
+        version: evidence ? '1.1.0' : '1.0.0',
+        ...(evidence && { evidence })
       };
 
       // Store on IPFS via Pinata
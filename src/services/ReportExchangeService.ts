@@ -0,0 +1,684 @@
+/**
+ * Report Exchange Service - Export reports for GIS tools and import historical records
+ *
+ * Exports any filtered report set as:
+ * - GeoJSON: point features with every report field as a property
+ * - KML: placemarks with the fields as ExtendedData, for Google Earth
+ * - GIS CSV: short upper-case headers (10 characters, the Shapefile/DBF limit),
+ *   LAT/LON columns, ISO dates and 1/0 flags, for QGIS or ogr2ogr
+ * - Excel CSV: readable headers, UTF-8 byte order mark, Yes/No flags and
+ *   formula-safe text
+ *
+ * Imports GeoJSON, KML or CSV: columns are mapped onto report fields (with a
+ * suggested mapping), every row is validated into a ReportData in a dry run
+ * with per-row errors, and only then are the valid rows stored.
+ */
+
+import {
+  generateReferenceNumber,
+  getReportAttachments,
+  type ReportData
+} from './ReportService';
+import { getHazardTypeFromCategory } from '../utils/hazardCategories';
+import { getReportRepository } from './ReportRepository';
+import { classifyCoastalZone, getZonePlaceName } from './CoastalZoneService';
+import { createInitialHistoryEntry, getWorkflowForHazardType, normalizeStatus } from './ReportWorkflowService';
+
+export type ReportExportFormat = 'geojson' | 'kml' | 'csv-gis' | 'csv-excel';
+
+export type ReportFieldKey =
+  | 'report_id' | 'title' | 'description' | 'category' | 'hazard_type' | 'priority' | 'status'
+  | 'lat' | 'lng' | 'address' | 'city' | 'coastal_zone' | 'created_at' | 'updated_at' | 'user_id'
+  | 'image_url' | 'attachment_urls' | 'is_smart_camera_report' | 'ai_confidence'
+  | 'wave_height_estimated' | 'wave_height_category' | 'water_level_change' | 'current_strength'
+  | 'tide_information' | 'wind_speed_kmh' | 'wind_direction' | 'visibility_km'
+  | 'water_temperature_celsius' | 'safety_threat_level' | 'people_at_risk_count'
+  | 'infrastructure_impact' | 'fishing_activity_affected' | 'shipping_lanes_affected'
+  | 'proof_cid' | 'evidence_integrity';
+
+export interface ReportField {
+  key: ReportFieldKey;
+  label: string; // Excel CSV header
+  shortName: string; // GIS CSV header, at most 10 characters
+  type: 'string' | 'number' | 'boolean' | 'date';
+  importable: boolean; // Derived fields (hazard type, zone, attachments) are recomputed on import
+  aliases?: string[]; // Other column names recognised on import
+}
+
+export interface ImportTable {
+  format: 'geojson' | 'kml' | 'csv';
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+// Source column -> report field, or null to ignore the column
+export type ImportColumnMapping = Record<string, ReportFieldKey | null>;
+
+export interface ImportRowError {
+  row: number; // 1-based data row (feature or placemark number for GeoJSON and KML)
+  column?: string;
+  message: string;
+}
+
+export interface ImportPreview {
+  totalRows: number;
+  reports: Array<{ row: number; report: ReportData }>; // Rows that passed validation
+  errors: ImportRowError[];
+}
+
+export interface ImportResult {
+  imported: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Thrown when an import file cannot be read at all (as opposed to bad rows)
+ */
+export class ReportImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportImportError';
+  }
+}
+
+export const REPORT_EXPORT_FORMATS: Array<{ id: ReportExportFormat; label: string; extension: string; mimeType: string }> = [
+  { id: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { id: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { id: 'csv-gis', label: 'CSV (GIS / Shapefile)', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'csv-excel', label: 'CSV (Excel)', extension: 'csv', mimeType: 'text/csv' }
+];
+
+export const REPORT_FIELDS: ReportField[] = [
+  { key: 'report_id', label: 'Report ID', shortName: 'REPORT_ID', type: 'string', importable: true, aliases: ['id', 'reference'] },
+  { key: 'title', label: 'Title', shortName: 'TITLE', type: 'string', importable: true, aliases: ['name'] },
+  { key: 'description', label: 'Description', shortName: 'DESCR', type: 'string', importable: true, aliases: ['details', 'desc'] },
+  { key: 'category', label: 'Category', shortName: 'CATEGORY', type: 'string', importable: true, aliases: ['hazard', 'event_type'] },
+  { key: 'hazard_type', label: 'Hazard type', shortName: 'HAZ_TYPE', type: 'string', importable: false },
+  { key: 'priority', label: 'Priority', shortName: 'PRIORITY', type: 'string', importable: true, aliases: ['severity'] },
+  { key: 'status', label: 'Status', shortName: 'STATUS', type: 'string', importable: true },
+  { key: 'lat', label: 'Latitude', shortName: 'LAT', type: 'number', importable: true, aliases: ['latitude', 'y', 'geometry_lat'] },
+  { key: 'lng', label: 'Longitude', shortName: 'LON', type: 'number', importable: true, aliases: ['longitude', 'long', 'lng', 'x', 'geometry_lng'] },
+  { key: 'address', label: 'Address', shortName: 'ADDRESS', type: 'string', importable: true, aliases: ['location'] },
+  { key: 'city', label: 'City', shortName: 'CITY', type: 'string', importable: true, aliases: ['town', 'place'] },
+  { key: 'coastal_zone', label: 'Coastal zone', shortName: 'ZONE', type: 'string', importable: false },
+  { key: 'created_at', label: 'Reported at (UTC)', shortName: 'CREATED', type: 'date', importable: true, aliases: ['date', 'time', 'timestamp', 'reported_at', 'when'] },
+  { key: 'updated_at', label: 'Updated at (UTC)', shortName: 'UPDATED', type: 'date', importable: true },
+  { key: 'user_id', label: 'Reporter ID', shortName: 'USER_ID', type: 'string', importable: true, aliases: ['reporter'] },
+  { key: 'image_url', label: 'Image URL', shortName: 'IMAGE_URL', type: 'string', importable: true, aliases: ['image', 'photo'] },
+  { key: 'attachment_urls', label: 'Attachment URLs', shortName: 'ATTACH', type: 'string', importable: false },
+  { key: 'is_smart_camera_report', label: 'Smart Camera report', shortName: 'SMART_CAM', type: 'boolean', importable: true },
+  { key: 'ai_confidence', label: 'AI confidence', shortName: 'AI_CONF', type: 'number', importable: true },
+  { key: 'wave_height_estimated', label: 'Wave height (m)', shortName: 'WAVE_HT', type: 'number', importable: true, aliases: ['wave_height'] },
+  { key: 'wave_height_category', label: 'Wave height category', shortName: 'WAVE_CAT', type: 'string', importable: true },
+  { key: 'water_level_change', label: 'Water level change', shortName: 'WATER_LVL', type: 'string', importable: true },
+  { key: 'current_strength', label: 'Current strength', shortName: 'CURRENT', type: 'string', importable: true },
+  { key: 'tide_information', label: 'Tide information', shortName: 'TIDE', type: 'string', importable: true, aliases: ['tide'] },
+  { key: 'wind_speed_kmh', label: 'Wind speed (km/h)', shortName: 'WIND_KMH', type: 'number', importable: true, aliases: ['wind_speed'] },
+  { key: 'wind_direction', label: 'Wind direction', shortName: 'WIND_DIR', type: 'string', importable: true },
+  { key: 'visibility_km', label: 'Visibility (km)', shortName: 'VIS_KM', type: 'number', importable: true, aliases: ['visibility'] },
+  { key: 'water_temperature_celsius', label: 'Water temperature (°C)', shortName: 'WATER_TEMP', type: 'number', importable: true, aliases: ['water_temperature', 'sst'] },
+  { key: 'safety_threat_level', label: 'Safety threat level', shortName: 'THREAT', type: 'string', importable: true },
+  { key: 'people_at_risk_count', label: 'People at risk', shortName: 'AT_RISK', type: 'number', importable: true, aliases: ['people_at_risk'] },
+  { key: 'infrastructure_impact', label: 'Infrastructure impact', shortName: 'INFRA', type: 'string', importable: true },
+  { key: 'fishing_activity_affected', label: 'Fishing affected', shortName: 'FISHING', type: 'boolean', importable: true },
+  { key: 'shipping_lanes_affected', label: 'Shipping lanes affected', shortName: 'SHIPPING', type: 'boolean', importable: true },
+  { key: 'proof_cid', label: 'Proof CID', shortName: 'PROOF_CID', type: 'string', importable: false },
+  { key: 'evidence_integrity', label: 'Evidence integrity', shortName: 'EVIDENCE', type: 'number', importable: false }
+];
+
+const PRIORITIES: ReportData['priority'][] = ['Low', 'Medium', 'High', 'Urgent'];
+
+// Read one export field from a report
+const readField = (report: ReportData, key: ReportFieldKey): unknown => {
+  switch (key) {
+    case 'lat':
+      return report.location?.lat;
+    case 'lng':
+      return report.location?.lng;
+    case 'address':
+      return report.location?.address;
+    case 'attachment_urls':
+      return getReportAttachments(report).map(attachment => attachment.url).join(' ');
+    default:
+      return report[key];
+  }
+};
+
+const hasLocation = (report: ReportData): boolean =>
+  typeof report.location?.lat === 'number' && typeof report.location?.lng === 'number';
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const toCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (rows: string[][], byteOrderMark: boolean): string =>
+  (byteOrderMark ? '\uFEFF' : '') + rows.map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+
+const formatGisValue = (field: ReportField, value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (field.type === 'boolean') return value ? '1' : '0';
+  // Line breaks inside text trip up several GIS CSV readers
+  return String(value).replace(/\s*[\r\n]+\s*/g, ' ');
+};
+
+const formatExcelValue = (field: ReportField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (field.type === 'boolean') return value ? 'Yes' : 'No';
+  if (field.type === 'date') {
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 19).replace('T', ' ');
+  }
+  const text = String(value);
+  // Keep spreadsheet programs from evaluating text as a formula
+  return field.type === 'string' && /^[=+\-@]/.test(text) ? `'${text}` : text;
+};
+
+const toGeoJson = (reports: ReportData[]): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: reports.map(report => ({
+      type: 'Feature',
+      id: report.report_id,
+      geometry: hasLocation(report)
+        ? { type: 'Point', coordinates: [report.location.lng, report.location.lat] }
+        : null,
+      properties: Object.fromEntries(
+        REPORT_FIELDS
+          .filter(field => field.key !== 'lat' && field.key !== 'lng')
+          .map(field => [field.key, readField(report, field.key) ?? null])
+      )
+    }))
+  }, null, 2);
+
+const toKml = (reports: ReportData[], name: string): string => {
+  const placemarks = reports.map(report => {
+    const data = REPORT_FIELDS
+      .map(field => {
+        const value = readField(report, field.key);
+        return value === null || value === undefined || value === ''
+          ? ''
+          : `<Data name="${field.key}"><displayName>${escapeXml(field.label)}</displayName><value>${escapeXml(String(value))}</value></Data>`;
+      })
+      .join('');
+
+    return [
+      '<Placemark>',
+      `<name>${escapeXml(report.title || report.report_id)}</name>`,
+      report.description ? `<description>${escapeXml(report.description)}</description>` : '',
+      report.created_at ? `<TimeStamp><when>${escapeXml(report.created_at)}</when></TimeStamp>` : '',
+      `<ExtendedData>${data}</ExtendedData>`,
+      hasLocation(report) ? `<Point><coordinates>${report.location.lng},${report.location.lat}</coordinates></Point>` : '',
+      '</Placemark>'
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '</Document>',
+    '</kml>'
+  ].join('\n');
+};
+
+/**
+ * Serialise reports in one of the export formats
+ */
+export const exportReports = (reports: ReportData[], format: ReportExportFormat, name: string = 'Hazard reports'): Blob => {
+  const { mimeType } = REPORT_EXPORT_FORMATS.find(option => option.id === format)!;
+
+  switch (format) {
+    case 'geojson':
+      return new Blob([toGeoJson(reports)], { type: mimeType });
+    case 'kml':
+      return new Blob([toKml(reports, name)], { type: mimeType });
+    case 'csv-gis':
+      return new Blob([toCsv([
+        REPORT_FIELDS.map(field => field.shortName),
+        ...reports.map(report => REPORT_FIELDS.map(field => formatGisValue(field, readField(report, field.key))))
+      ], false)], { type: `${mimeType};charset=utf-8` });
+    case 'csv-excel':
+      return new Blob([toCsv([
+        REPORT_FIELDS.map(field => field.label),
+        ...reports.map(report => REPORT_FIELDS.map(field => formatExcelValue(field, readField(report, field.key))))
+      ], true)], { type: `${mimeType};charset=utf-8` });
+  }
+};
+
+/**
+ * File name for an export, e.g. "hazard-reports-2024-06-12-gis.csv"
+ */
+export const getExportFilename = (format: ReportExportFormat, date: Date = new Date()): string => {
+  const { extension } = REPORT_EXPORT_FORMATS.find(option => option.id === format)!;
+  const suffix = format === 'csv-gis' ? '-gis' : format === 'csv-excel' ? '-excel' : '';
+  return `hazard-reports-${date.toISOString().slice(0, 10)}${suffix}.${extension}`;
+};
+
+/**
+ * Import errors as an Excel-friendly CSV, for fixing the source file
+ */
+export const exportImportErrors = (errors: ImportRowError[]): Blob =>
+  new Blob([toCsv([
+    ['Row', 'Column', 'Error'],
+    ...errors.map(error => [String(error.row), error.column || '', error.message])
+  ], true)], { type: 'text/csv;charset=utf-8' });
+
+// ---------------------------------------------------------------------------
+// Import: parsing
+// ---------------------------------------------------------------------------
+
+const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  // Semicolons are common in CSV saved by spreadsheets in comma-decimal locales
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new ReportImportError('The CSV file ends inside a quoted value');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+const stringifyProperty = (value: unknown): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const parseGeoJson = (text: string): Array<Record<string, string>> => {
+  let data: { type?: string; features?: unknown[] };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ReportImportError('The file is not valid JSON');
+  }
+
+  const features = data.type === 'FeatureCollection' ? data.features : data.type === 'Feature' ? [data] : null;
+  if (!Array.isArray(features)) {
+    throw new ReportImportError('GeoJSON must be a Feature or FeatureCollection');
+  }
+
+  return features.map(item => {
+    const feature = item as { properties?: Record<string, unknown> | null; geometry?: { type?: string; coordinates?: unknown } | null };
+    const row: Record<string, string> = {};
+    Object.entries(feature.properties || {}).forEach(([key, value]) => {
+      row[key] = stringifyProperty(value);
+    });
+    const coordinates = feature.geometry?.type === 'Point' && Array.isArray(feature.geometry.coordinates)
+      ? feature.geometry.coordinates
+      : null;
+    row.geometry_lng = coordinates ? stringifyProperty(coordinates[0]) : '';
+    row.geometry_lat = coordinates ? stringifyProperty(coordinates[1]) : '';
+    return row;
+  });
+};
+
+const parseKml = (text: string): Array<Record<string, string>> => {
+  if (typeof DOMParser === 'undefined') {
+    throw new ReportImportError('KML import needs a browser');
+  }
+  const documentNode = new DOMParser().parseFromString(text, 'application/xml');
+  if (documentNode.getElementsByTagName('parsererror').length > 0) {
+    throw new ReportImportError('The file is not valid KML');
+  }
+
+  const childText = (element: Element, tagName: string): string =>
+    element.getElementsByTagName(tagName)[0]?.textContent?.trim() || '';
+
+  return Array.from(documentNode.getElementsByTagName('Placemark')).map(placemark => {
+    const row: Record<string, string> = {
+      name: childText(placemark, 'name'),
+      description: childText(placemark, 'description'),
+      timestamp: childText(placemark, 'when')
+    };
+    // <Data> from Google Earth and this app, <SimpleData> from ogr2ogr and QGIS
+    Array.from(placemark.getElementsByTagName('Data')).forEach(data => {
+      const name = data.getAttribute('name');
+      if (name) row[name] = childText(data, 'value');
+    });
+    Array.from(placemark.getElementsByTagName('SimpleData')).forEach(data => {
+      const name = data.getAttribute('name');
+      if (name) row[name] = data.textContent?.trim() || '';
+    });
+
+    const [lng = '', lat = ''] = childText(placemark, 'coordinates').split(/\s+/)[0].split(',');
+    row.geometry_lng = lng;
+    row.geometry_lat = lat;
+    return row;
+  });
+};
+
+/**
+ * Read a GeoJSON, KML or CSV file into rows of text values
+ */
+export const parseImportFile = (text: string, fileName: string): ImportTable => {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  const trimmed = text.trim();
+
+  let format: ImportTable['format'];
+  let rows: Array<Record<string, string>>;
+
+  if (extension === 'geojson' || extension === 'json' || trimmed.startsWith('{')) {
+    format = 'geojson';
+    rows = parseGeoJson(trimmed);
+  } else if (extension === 'kml' || trimmed.startsWith('<')) {
+    format = 'kml';
+    rows = parseKml(trimmed);
+  } else {
+    format = 'csv';
+    const [header, ...records] = parseCsv(text);
+    if (!header) {
+      throw new ReportImportError('The CSV file is empty');
+    }
+    const columns = header.map(column => column.trim());
+    rows = records.map(record => Object.fromEntries(columns.map((column, index) => [column, (record[index] || '').trim()])));
+  }
+
+  if (rows.length === 0) {
+    throw new ReportImportError('The file contains no reports');
+  }
+
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return { format, columns, rows };
+};
+
+// ---------------------------------------------------------------------------
+// Import: mapping and validation
+// ---------------------------------------------------------------------------
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Map source columns onto report fields by key, header, GIS short name or alias
+ */
+export const suggestColumnMapping = (columns: string[]): ImportColumnMapping => {
+  const lookup = new Map<string, ReportFieldKey>();
+  REPORT_FIELDS.filter(field => field.importable).forEach(field => {
+    [field.key, field.label, field.shortName, ...(field.aliases || [])].forEach(name => {
+      const normalized = normalizeName(name);
+      if (!lookup.has(normalized)) lookup.set(normalized, field.key);
+    });
+  });
+
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<ReportFieldKey>();
+  columns.forEach(column => {
+    const key = lookup.get(normalizeName(column));
+    mapping[column] = key && !used.has(key) ? key : null;
+    if (key) used.add(key);
+  });
+  return mapping;
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase();
+  if (['1', 'true', 'yes', 'y', 't'].includes(normalized)) return true;
+  if (['0', 'false', 'no', 'n', 'f'].includes(normalized)) return false;
+  return null;
+};
+
+const parseDate = (value: string): Date | null => {
+  // "2024-06-12 08:30:00" as written by the Excel export is UTC
+  const text = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value.trim()) ? `${value.trim().replace(' ', 'T')}Z` : value;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Validate every row against the mapping without storing anything
+ */
+export const previewImport = (
+  table: ImportTable,
+  mapping: ImportColumnMapping,
+  options: { userId?: string; sourceName?: string } = {}
+): ImportPreview => {
+  const fieldsByKey = new Map(REPORT_FIELDS.map(field => [field.key, field]));
+  const columnsByField = new Map<ReportFieldKey, string>();
+  Object.entries(mapping).forEach(([column, key]) => {
+    if (key) columnsByField.set(key, column);
+  });
+
+  const errors: ImportRowError[] = [];
+  const reports: ImportPreview['reports'] = [];
+  const seenIds = new Set<string>();
+  const now = Date.now();
+
+  ['lat', 'lng', 'category', 'created_at'].forEach(required => {
+    if (!columnsByField.has(required as ReportFieldKey)) {
+      errors.push({ row: 0, message: `No column is mapped to ${fieldsByKey.get(required as ReportFieldKey)!.label}` });
+    }
+  });
+  if (errors.length > 0) {
+    return { totalRows: table.rows.length, reports, errors };
+  }
+
+  table.rows.forEach((source, index) => {
+    const row = index + 1;
+    const rowErrors: ImportRowError[] = [];
+    const values: Partial<Record<ReportFieldKey, string | number | boolean>> = {};
+
+    columnsByField.forEach((column, key) => {
+      const raw = (source[column] || '').trim();
+      if (raw === '') return;
+      const field = fieldsByKey.get(key)!;
+
+      if (field.type === 'number') {
+        // Decimal commas come from spreadsheets in many locales
+        const number = Number(/^-?\d+,\d+$/.test(raw) ? raw.replace(',', '.') : raw);
+        if (isNaN(number)) {
+          rowErrors.push({ row, column, message: `${field.label} must be a number, got "${raw}"` });
+        } else {
+          values[key] = number;
+        }
+      } else if (field.type === 'boolean') {
+        const flag = parseBoolean(raw);
+        if (flag === null) {
+          rowErrors.push({ row, column, message: `${field.label} must be yes or no, got "${raw}"` });
+        } else {
+          values[key] = flag;
+        }
+      } else if (field.type === 'date') {
+        const date = parseDate(raw);
+        if (!date) {
+          rowErrors.push({ row, column, message: `${field.label} is not a date: "${raw}"` });
+        } else if (date.getTime() > now + 24 * 60 * 60 * 1000) {
+          rowErrors.push({ row, column, message: `${field.label} is in the future` });
+        } else {
+          values[key] = date.toISOString();
+        }
+      } else {
+        // Undo the formula guard added by the Excel export
+        values[key] = raw.replace(/^'(?=[=+\-@])/, '');
+      }
+    });
+
+    const lat = values.lat as number | undefined;
+    const lng = values.lng as number | undefined;
+    const category = values.category as string | undefined;
+    const createdAt = values.created_at as string | undefined;
+
+    // One error per column: a value that failed to parse is not reported as missing too
+    const check = (valid: boolean, key: ReportFieldKey, message: string) => {
+      const column = columnsByField.get(key);
+      if (!valid && !rowErrors.some(error => error.column === column)) {
+        rowErrors.push({ row, column, message });
+      }
+    };
+    check(lat !== undefined && lat >= -90 && lat <= 90, 'lat', 'Latitude is missing or outside -90 to 90');
+    check(lng !== undefined && lng >= -180 && lng <= 180, 'lng', 'Longitude is missing or outside -180 to 180');
+    check(!!category, 'category', 'Category is missing');
+    check(!!createdAt, 'created_at', 'Report date is missing');
+
+    let priority: ReportData['priority'] = 'Medium';
+    if (values.priority !== undefined) {
+      const match = PRIORITIES.find(option => option.toLowerCase() === String(values.priority).toLowerCase());
+      if (match) {
+        priority = match;
+      } else {
+        rowErrors.push({ row, column: columnsByField.get('priority'), message: `Priority must be one of ${PRIORITIES.join(', ')}` });
+      }
+    }
+
+    const reportId = values.report_id !== undefined ? String(values.report_id) : null;
+    if (reportId) {
+      if (seenIds.has(reportId)) {
+        rowErrors.push({ row, column: columnsByField.get('report_id'), message: `Report ID ${reportId} appears more than once` });
+      }
+      seenIds.add(reportId);
+    }
+
+    const hazardType = getHazardTypeFromCategory(category || '');
+    const workflow = getWorkflowForHazardType(hazardType);
+    let status = workflow.initialState;
+    if (values.status !== undefined) {
+      const normalized = normalizeStatus(String(values.status));
+      const state = workflow.states.find(candidate => candidate.id.toLowerCase() === normalized.toLowerCase());
+      if (state) {
+        status = state.id;
+      } else {
+        rowErrors.push({ row, column: columnsByField.get('status'), message: `Status "${values.status}" is not part of the ${workflow.name} workflow` });
+      }
+    }
+
+    if (rowErrors.length > 0 || lat === undefined || lng === undefined || !category || !createdAt) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const coastalZone = classifyCoastalZone(lat, lng);
+    const updatedAt = (values.updated_at as string | undefined) || createdAt;
+    const statusHistory = [createInitialHistoryEntry(workflow, {
+      timestamp: createdAt,
+      actor: 'Import',
+      role: 'system',
+      notes: `Imported from ${options.sourceName || `${table.format.toUpperCase()} file`}`
+    })];
+    if (status !== workflow.initialState) {
+      statusHistory.push({ status, timestamp: updatedAt, actor: 'Import', role: 'system', notes: 'Status at import' });
+    }
+
+    const text = (key: ReportFieldKey) => values[key] as string | undefined;
+    const number = (key: ReportFieldKey) => values[key] as number | undefined;
+    const flag = (key: ReportFieldKey) => values[key] as boolean | undefined;
+
+    reports.push({
+      row,
+      report: {
+        report_id: reportId || generateReferenceNumber(category),
+        title: text('title') || `${category} report`,
+        description: text('description') || '',
+        category,
+        hazard_type: hazardType,
+        location: { lat, lng, address: text('address') || `Lat: ${lat.toFixed(6)}, Lng: ${lng.toFixed(6)}` },
+        city: text('city') || (coastalZone ? getZonePlaceName(coastalZone) : 'Unknown'),
+        coastal_zone: coastalZone ? coastalZone.id : null,
+        priority,
+        image_url: text('image_url') || '',
+        attachments: [],
+        status,
+        created_at: createdAt,
+        updated_at: updatedAt,
+        user_id: text('user_id') || options.userId || 'import',
+        is_smart_camera_report: flag('is_smart_camera_report') || false,
+        ai_confidence: number('ai_confidence') ?? null,
+        wave_height_estimated: number('wave_height_estimated') ?? null,
+        wave_height_category: text('wave_height_category') || null,
+        water_level_change: text('water_level_change') || null,
+        current_strength: text('current_strength') || null,
+        tide_information: text('tide_information') || null,
+        wind_speed_kmh: number('wind_speed_kmh') ?? null,
+        wind_direction: text('wind_direction') || null,
+        visibility_km: number('visibility_km') ?? null,
+        water_temperature_celsius: number('water_temperature_celsius') ?? null,
+        safety_threat_level: text('safety_threat_level') || 'moderate',
+        people_at_risk_count: number('people_at_risk_count') ?? 0,
+        infrastructure_impact: text('infrastructure_impact') || 'minimal',
+        fishing_activity_affected: flag('fishing_activity_affected') || false,
+        shipping_lanes_affected: flag('shipping_lanes_affected') || false,
+        proof_cid: null,
+        proof_timestamp: null,
+        proof_verification_status: null,
+        evidence_integrity: null,
+        evidence_flags: [],
+        status_history: statusHistory
+      }
+    });
+  });
+
+  return { totalRows: table.rows.length, reports, errors };
+};
+
+/**
+ * Store the rows that passed the dry run; reports whose ID already exists are skipped
+ */
+export const importReports = async (
+  preview: ImportPreview,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> => {
+  const repository = getReportRepository();
+  const errors: ImportRowError[] = [];
+  let imported = 0;
+
+  for (const [index, { row, report }] of preview.reports.entries()) {
+    try {
+      if (await repository.getReport(report.report_id)) {
+        errors.push({ row, message: `Report ID ${report.report_id} already exists` });
+      } else {
+        await repository.insertReport(report);
+        imported++;
+      }
+    } catch (error) {
+      errors.push({ row, message: error instanceof Error ? error.message : 'Failed to store report' });
+    }
+    onProgress?.(index + 1, preview.reports.length);
+  }
+
+  console.log(`Imported ${imported} of ${preview.reports.length} reports into ${repository.type} store`);
+  return { imported, errors };
+};
@@ -0,0 +1,608 @@
+/**
+ * Report Group Repository - Persistence for duplicate/related report groups
+ *
+ * Reads and writes the tables defined in database/report-grouping-schema.sql:
+ * - report_groups: one row per group with aggregated metadata
+ * - report_group_memberships: which reports belong to which group
+ * - report_grouping_history: audit trail of every grouping decision
+ * - grouping_feedback: reviewer approve/reject decisions as labeled report pairs
+ * - grouping_config_versions: calibrated weight sets, with one active at a time
+ *
+ * Two backends are provided, mirroring ReportRepository:
+ * - SupabaseReportGroupRepository: the hosted tables
+ * - InMemoryReportGroupRepository: used when reports are stored locally, and for demos
+ */
+
+import { supabase } from './supabase';
+import { getReportRepository } from './ReportRepository';
+import { getGroupingProfile } from './HazardGroupingProfiles';
+
+export type ReportGroupStatus = 'active' | 'merged' | 'archived';
+export type GroupPriority = 'Low' | 'Medium' | 'High' | 'Urgent';
+export type MembershipType = 'automatic' | 'manual' | 'suggested';
+export type MembershipStatus = 'active' | 'removed' | 'disputed';
+export type GroupingAction =
+  | 'detected'
+  | 'grouped'
+  | 'ungrouped'
+  | 'merged'
+  | 'approved'
+  | 'rejected'
+  | 'recomputed'
+  | 'dissolved';
+export type GroupingTrigger = 'report_creation' | 'report_update' | 'report_deletion' | 'manual_review' | 'batch_process';
+
+export interface ReportGroupRecord {
+  id: string; // UUID primary key
+  group_id: string; // Human-readable identifier, e.g. "GRP-2025-001"
+  created_at: string;
+  updated_at: string;
+  primary_category: string;
+  primary_location: { lat: number; lng: number };
+  primary_city: string | null;
+  status: ReportGroupStatus;
+  total_reports: number;
+  priority_level: GroupPriority;
+  aggregated_status: 'Submitted' | 'In Review' | 'Forwarded' | 'Resolved';
+  detection_method: string | null;
+  spatial_radius_meters: number | null;
+  similarity_threshold: number;
+  description: string | null;
+  tags: string[];
+}
+
+export interface GroupMembershipRecord {
+  id: string;
+  group_id: string; // report_groups.id
+  report_id: string; // reports.report_id
+  joined_at: string;
+  membership_type: MembershipType;
+  confidence_score: number;
+  spatial_match: boolean;
+  textual_match: boolean;
+  category_match: boolean;
+  textual_similarity_score: number;
+  spatial_distance_meters: number | null;
+  is_primary: boolean;
+  status: MembershipStatus;
+}
+
+export interface GroupingHistoryRecord {
+  id: string;
+  report_id: string;
+  action: GroupingAction;
+  group_id: string | null;
+  previous_group_id: string | null;
+  detection_timestamp: string;
+  detection_method: string | null;
+  confidence_score: number | null;
+  triggered_by: GroupingTrigger;
+  processing_time_ms: number | null;
+  candidates_found: number;
+  groups_created: number;
+  groups_updated: number;
+  metadata: Record<string, unknown>;
+}
+
+// One reviewed report pair: is_duplicate is the reviewer's label for the detector's features
+export interface GroupingFeedbackRecord {
+  id: string;
+  group_id: string;
+  report_id: string;
+  paired_report_id: string; // The group's primary report
+  is_duplicate: boolean;
+  textual_similarity_score: number;
+  spatial_distance_meters: number | null;
+  proximity_radius_meters: number | null; // Base radius of the group's hazard profile
+  category_match: boolean;
+  confidence_score: number;
+  reviewer: string;
+  created_at: string;
+}
+
+export type GroupingConfigVersionStatus = 'proposed' | 'active' | 'superseded' | 'rolled_back';
+
+export interface GroupingConfigVersionRecord {
+  id: string;
+  version: number;
+  config: Record<string, number>; // Subset of GroupingConfig: weights and thresholds
+  metrics: Record<string, unknown> | null; // Calibration precision/recall, for review
+  status: GroupingConfigVersionStatus;
+  created_by: string;
+  created_at: string;
+  applied_at: string | null;
+  notes: string | null;
+}
+
+// A group together with its active memberships
+export interface ReportGroupWithMembers extends ReportGroupRecord {
+  memberships: GroupMembershipRecord[];
+}
+
+export type NewReportGroup = Omit<ReportGroupRecord, 'id' | 'group_id' | 'created_at' | 'updated_at' | 'total_reports'>;
+export type NewGroupMembership = Omit<GroupMembershipRecord, 'id' | 'group_id' | 'joined_at' | 'status'>;
+export type NewGroupingHistoryEntry = Pick<GroupingHistoryRecord, 'report_id' | 'action' | 'triggered_by'> &
+  Partial<Omit<GroupingHistoryRecord, 'id' | 'report_id' | 'action' | 'triggered_by'>>;
+export type NewGroupingFeedback = Omit<GroupingFeedbackRecord, 'id' | 'created_at'>;
+export type NewGroupingConfigVersion = Omit<GroupingConfigVersionRecord, 'id' | 'version' | 'created_at'>;
+export type GroupingConfigVersionUpdate = Partial<Pick<GroupingConfigVersionRecord, 'status' | 'applied_at' | 'notes'>>;
+export type MembershipUpdate = Partial<Pick<GroupMembershipRecord, 'membership_type' | 'status' | 'is_primary' | 'confidence_score'>>;
+
+export interface ReportGroupRepository {
+  readonly type: 'supabase' | 'memory';
+
+  listGroups(statuses?: ReportGroupStatus[]): Promise<ReportGroupWithMembers[]>;
+  getGroup(id: string): Promise<ReportGroupWithMembers | null>;
+  getGroupsForReport(reportId: string): Promise<ReportGroupWithMembers[]>; // Active groups with an active membership
+  createGroup(group: NewReportGroup, members: NewGroupMembership[]): Promise<ReportGroupWithMembers>;
+  updateGroup(id: string, updates: Partial<NewReportGroup>): Promise<void>;
+  addMembers(groupId: string, members: NewGroupMembership[]): Promise<void>;
+  updateMemberships(groupId: string, reportIds: string[], updates: MembershipUpdate): Promise<void>;
+  recordHistory(entry: NewGroupingHistoryEntry): Promise<void>;
+  getHistory(groupId: string): Promise<GroupingHistoryRecord[]>;
+  recordFeedback(entries: NewGroupingFeedback[]): Promise<void>;
+  listFeedback(limit?: number): Promise<GroupingFeedbackRecord[]>; // Newest first
+  listConfigVersions(): Promise<GroupingConfigVersionRecord[]>; // Newest first
+  saveConfigVersion(version: NewGroupingConfigVersion): Promise<GroupingConfigVersionRecord>;
+  updateConfigVersion(id: string, updates: GroupingConfigVersionUpdate): Promise<void>;
+}
+
+const withActiveMembers = (
+  group: ReportGroupRecord,
+  memberships: GroupMembershipRecord[]
+): ReportGroupWithMembers => {
+  const active = memberships.filter(membership => membership.status === 'active');
+  return { ...group, total_reports: active.length, memberships: active };
+};
+
+const fallbackGroupId = (): string =>
+  `GRP-${new Date().getFullYear()}-${Date.now().toString(36).toUpperCase()}`;
+
+// ---------------------------------------------------------------------------
+// Supabase backend
+// ---------------------------------------------------------------------------
+
+export class SupabaseReportGroupRepository implements ReportGroupRepository {
+  readonly type = 'supabase' as const;
+
+  private async nextGroupId(): Promise<string> {
+    // generate_group_id() is defined alongside the tables
+    const { data, error } = await supabase.rpc('generate_group_id');
+    if (error || typeof data !== 'string') {
+      console.warn('generate_group_id unavailable, using client-side group id:', error);
+      return fallbackGroupId();
+    }
+    return data;
+  }
+
+  private toGroup(row: ReportGroupRecord & { report_group_memberships?: GroupMembershipRecord[] }): ReportGroupWithMembers {
+    const { report_group_memberships: memberships, ...group } = row;
+    return withActiveMembers(group, memberships || []);
+  }
+
+  async listGroups(statuses: ReportGroupStatus[] = ['active']): Promise<ReportGroupWithMembers[]> {
+    const { data, error } = await supabase
+      .from('report_groups')
+      .select('*, report_group_memberships(*)')
+      .in('status', statuses)
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => this.toGroup(row));
+  }
+
+  async getGroup(id: string): Promise<ReportGroupWithMembers | null> {
+    const { data, error } = await supabase
+      .from('report_groups')
+      .select('*, report_group_memberships(*)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.toGroup(data) : null;
+  }
+
+  async getGroupsForReport(reportId: string): Promise<ReportGroupWithMembers[]> {
+    const { data, error } = await supabase
+      .from('report_group_memberships')
+      .select('group_id')
+      .eq('report_id', reportId)
+      .eq('status', 'active');
+
+    if (error) throw error;
+    const groupIds = [...new Set((data || []).map(row => row.group_id as string))];
+    if (groupIds.length === 0) return [];
+
+    const { data: groups, error: groupError } = await supabase
+      .from('report_groups')
+      .select('*, report_group_memberships(*)')
+      .in('id', groupIds)
+      .eq('status', 'active');
+
+    if (groupError) throw groupError;
+    return (groups || []).map(row => this.toGroup(row));
+  }
+
+  async createGroup(group: NewReportGroup, members: NewGroupMembership[]): Promise<ReportGroupWithMembers> {
+    const { data, error } = await supabase
+      .from('report_groups')
+      .insert([{ ...group, group_id: await this.nextGroupId() }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    const created = data as ReportGroupRecord;
+
+    await this.addMembers(created.id, members);
+    return (await this.getGroup(created.id)) || withActiveMembers(created, []);
+  }
+
+  async updateGroup(id: string, updates: Partial<NewReportGroup>): Promise<void> {
+    const { error } = await supabase
+      .from('report_groups')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async addMembers(groupId: string, members: NewGroupMembership[]): Promise<void> {
+    if (members.length === 0) return;
+
+    const { error } = await supabase
+      .from('report_group_memberships')
+      .upsert(
+        members.map(member => ({ ...member, group_id: groupId, status: 'active' })),
+        { onConflict: 'group_id,report_id' }
+      );
+
+    if (error) throw error;
+  }
+
+  async updateMemberships(groupId: string, reportIds: string[], updates: MembershipUpdate): Promise<void> {
+    if (reportIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('report_group_memberships')
+      .update(updates)
+      .eq('group_id', groupId)
+      .in('report_id', reportIds);
+
+    if (error) throw error;
+  }
+
+  async recordHistory(entry: NewGroupingHistoryEntry): Promise<void> {
+    const { error } = await supabase
+      .from('report_grouping_history')
+      .insert([entry]);
+
+    if (error) throw error;
+  }
+
+  async getHistory(groupId: string): Promise<GroupingHistoryRecord[]> {
+    const { data, error } = await supabase
+      .from('report_grouping_history')
+      .select('*')
+      .or(`group_id.eq.${groupId},previous_group_id.eq.${groupId}`)
+      .order('detection_timestamp', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as GroupingHistoryRecord[];
+  }
+
+  async recordFeedback(entries: NewGroupingFeedback[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { error } = await supabase
+      .from('grouping_feedback')
+      .insert(entries);
+
+    if (error) throw error;
+  }
+
+  async listFeedback(limit: number = 5000): Promise<GroupingFeedbackRecord[]> {
+    const { data, error } = await supabase
+      .from('grouping_feedback')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as GroupingFeedbackRecord[];
+  }
+
+  async listConfigVersions(): Promise<GroupingConfigVersionRecord[]> {
+    const { data, error } = await supabase
+      .from('grouping_config_versions')
+      .select('*')
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as GroupingConfigVersionRecord[];
+  }
+
+  async saveConfigVersion(version: NewGroupingConfigVersion): Promise<GroupingConfigVersionRecord> {
+    // version is a serial column
+    const { data, error } = await supabase
+      .from('grouping_config_versions')
+      .insert([version])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as GroupingConfigVersionRecord;
+  }
+
+  async updateConfigVersion(id: string, updates: GroupingConfigVersionUpdate): Promise<void> {
+    const { error } = await supabase
+      .from('grouping_config_versions')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// In-memory backend
+// ---------------------------------------------------------------------------
+
+export class InMemoryReportGroupRepository implements ReportGroupRepository {
+  readonly type = 'memory' as const;
+  private groups = new Map<string, ReportGroupRecord>();
+  private memberships: GroupMembershipRecord[] = [];
+  private history: GroupingHistoryRecord[] = [];
+  private feedback: GroupingFeedbackRecord[] = [];
+  private configVersions: GroupingConfigVersionRecord[] = [];
+  private sequence = 0;
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_${this.sequence}`;
+  }
+
+  private withMembers(group: ReportGroupRecord): ReportGroupWithMembers {
+    return structuredClone(withActiveMembers(group, this.memberships.filter(m => m.group_id === group.id)));
+  }
+
+  async listGroups(statuses: ReportGroupStatus[] = ['active']): Promise<ReportGroupWithMembers[]> {
+    return [...this.groups.values()]
+      .filter(group => statuses.includes(group.status))
+      .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+      .map(group => this.withMembers(group));
+  }
+
+  async getGroup(id: string): Promise<ReportGroupWithMembers | null> {
+    const group = this.groups.get(id);
+    return group ? this.withMembers(group) : null;
+  }
+
+  async getGroupsForReport(reportId: string): Promise<ReportGroupWithMembers[]> {
+    const groupIds = new Set(
+      this.memberships
+        .filter(m => m.report_id === reportId && m.status === 'active')
+        .map(m => m.group_id)
+    );
+    return [...groupIds]
+      .map(id => this.groups.get(id))
+      .filter((group): group is ReportGroupRecord => !!group && group.status === 'active')
+      .map(group => this.withMembers(group));
+  }
+
+  async createGroup(group: NewReportGroup, members: NewGroupMembership[]): Promise<ReportGroupWithMembers> {
+    const now = new Date().toISOString();
+    const created: ReportGroupRecord = {
+      ...structuredClone(group),
+      id: this.nextId('group'),
+      group_id: fallbackGroupId(),
+      created_at: now,
+      updated_at: now,
+      total_reports: 0
+    };
+    this.groups.set(created.id, created);
+    await this.addMembers(created.id, members);
+    return this.withMembers(created);
+  }
+
+  async updateGroup(id: string, updates: Partial<NewReportGroup>): Promise<void> {
+    const existing = this.groups.get(id);
+    if (!existing) return;
+    this.groups.set(id, { ...existing, ...structuredClone(updates), updated_at: new Date().toISOString() });
+  }
+
+  async addMembers(groupId: string, members: NewGroupMembership[]): Promise<void> {
+    const now = new Date().toISOString();
+    members.forEach(member => {
+      // Same upsert semantics as the unique (group_id, report_id) constraint
+      this.memberships = this.memberships.filter(m => !(m.group_id === groupId && m.report_id === member.report_id));
+      this.memberships.push({ ...member, id: this.nextId('membership'), group_id: groupId, joined_at: now, status: 'active' });
+    });
+    this.touch(groupId);
+  }
+
+  async updateMemberships(groupId: string, reportIds: string[], updates: MembershipUpdate): Promise<void> {
+    this.memberships = this.memberships.map(m =>
+      m.group_id === groupId && reportIds.includes(m.report_id) ? { ...m, ...updates } : m
+    );
+    this.touch(groupId);
+  }
+
+  async recordHistory(entry: NewGroupingHistoryEntry): Promise<void> {
+    this.history.push({
+      id: this.nextId('history'),
+      group_id: null,
+      previous_group_id: null,
+      detection_timestamp: new Date().toISOString(),
+      detection_method: null,
+      confidence_score: null,
+      processing_time_ms: null,
+      candidates_found: 0,
+      groups_created: 0,
+      groups_updated: 0,
+      metadata: {},
+      ...structuredClone(entry)
+    });
+  }
+
+  async getHistory(groupId: string): Promise<GroupingHistoryRecord[]> {
+    return this.history
+      .filter(entry => entry.group_id === groupId || entry.previous_group_id === groupId)
+      .sort((a, b) => new Date(b.detection_timestamp).getTime() - new Date(a.detection_timestamp).getTime())
+      .map(entry => structuredClone(entry));
+  }
+
+  async recordFeedback(entries: NewGroupingFeedback[]): Promise<void> {
+    const now = new Date().toISOString();
+    entries.forEach(entry => this.feedback.push({ ...structuredClone(entry), id: this.nextId('feedback'), created_at: now }));
+  }
+
+  async listFeedback(limit: number = 5000): Promise<GroupingFeedbackRecord[]> {
+    return [...this.feedback].reverse().slice(0, limit).map(entry => structuredClone(entry));
+  }
+
+  async listConfigVersions(): Promise<GroupingConfigVersionRecord[]> {
+    return [...this.configVersions].sort((a, b) => b.version - a.version).map(version => structuredClone(version));
+  }
+
+  async saveConfigVersion(version: NewGroupingConfigVersion): Promise<GroupingConfigVersionRecord> {
+    const saved: GroupingConfigVersionRecord = {
+      ...structuredClone(version),
+      id: this.nextId('config'),
+      version: this.configVersions.reduce((highest, v) => Math.max(highest, v.version), 0) + 1,
+      created_at: new Date().toISOString()
+    };
+    this.configVersions.push(saved);
+    return structuredClone(saved);
+  }
+
+  async updateConfigVersion(id: string, updates: GroupingConfigVersionUpdate): Promise<void> {
+    this.configVersions = this.configVersions.map(version => version.id === id ? { ...version, ...updates } : version);
+  }
+
+  // Mirrors the updated_at trigger on report_group_memberships
+  private touch(groupId: string): void {
+    const group = this.groups.get(groupId);
+    if (group) group.updated_at = new Date().toISOString();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Active repository selection
+// ---------------------------------------------------------------------------
+
+let activeGroupRepository: ReportGroupRepository | null = null;
+
+/**
+ * Get the repository for report groups. Groups live next to the reports:
+ * in Supabase when reports do, otherwise in memory.
+ */
+export const getReportGroupRepository = (): ReportGroupRepository => {
+  if (!activeGroupRepository) {
+    activeGroupRepository = getReportRepository().type === 'supabase'
+      ? new SupabaseReportGroupRepository()
+      : new InMemoryReportGroupRepository();
+  }
+  return activeGroupRepository;
+};
+
+/**
+ * Swap the group storage backend, e.g. for tests
+ */
+export const setReportGroupRepository = (repository: ReportGroupRepository): void => {
+  activeGroupRepository = repository;
+};
+
+// ---------------------------------------------------------------------------
+// Review decisions
+// ---------------------------------------------------------------------------
+
+/**
+ * Store a review decision as labeled pairs of each member with the primary report,
+ * the training data for GroupingCalibrationService
+ */
+const recordReviewFeedback = async (
+  repository: ReportGroupRepository,
+  group: ReportGroupWithMembers,
+  isDuplicate: boolean,
+  reviewer: string
+): Promise<void> => {
+  const primary = group.memberships.find(m => m.is_primary) || group.memberships[0];
+  if (!primary) return;
+  const proximityRadius = getGroupingProfile(group.primary_category).radiusMeters;
+
+  const entries: NewGroupingFeedback[] = group.memberships
+    .filter(m => m.report_id !== primary.report_id)
+    .map(m => ({
+      group_id: group.id,
+      report_id: m.report_id,
+      paired_report_id: primary.report_id,
+      is_duplicate: isDuplicate,
+      textual_similarity_score: m.textual_similarity_score,
+      spatial_distance_meters: m.spatial_distance_meters,
+      proximity_radius_meters: proximityRadius,
+      category_match: m.category_match,
+      confidence_score: m.confidence_score,
+      reviewer
+    }));
+
+  try {
+    await repository.recordFeedback(entries);
+  } catch (error) {
+    // Feedback only improves calibration; never fail the review over it
+    console.warn(`Failed to record grouping feedback for group ${group.id}:`, error);
+  }
+};
+
+/**
+ * Confirm a suggested group: suggested memberships become manual ones
+ */
+export const approveReportGroup = async (groupId: string, actor: string): Promise<ReportGroupWithMembers | null> => {
+  const repository = getReportGroupRepository();
+  const group = await repository.getGroup(groupId);
+  if (!group) return null;
+
+  const suggested = group.memberships.filter(m => m.membership_type === 'suggested').map(m => m.report_id);
+  await repository.updateMemberships(groupId, suggested, { membership_type: 'manual' });
+  await repository.updateGroup(groupId, { aggregated_status: 'In Review' });
+
+  const primary = group.memberships.find(m => m.is_primary) || group.memberships[0];
+  await repository.recordHistory({
+    report_id: primary?.report_id || groupId,
+    action: 'approved',
+    group_id: groupId,
+    triggered_by: 'manual_review',
+    groups_updated: 1,
+    metadata: { actor, approved_report_ids: suggested }
+  });
+  await recordReviewFeedback(repository, group, true, actor);
+
+  return repository.getGroup(groupId);
+};
+
+/**
+ * Reject a group: every membership is removed and the group archived
+ */
+export const rejectReportGroup = async (groupId: string, actor: string, reason?: string): Promise<boolean> => {
+  const repository = getReportGroupRepository();
+  const group = await repository.getGroup(groupId);
+  if (!group) return false;
+
+  const reportIds = group.memberships.map(m => m.report_id);
+  await recordReviewFeedback(repository, group, false, actor);
+  await repository.updateMemberships(groupId, reportIds, { status: 'removed', is_primary: false });
+  await repository.updateGroup(groupId, { status: 'archived' });
+
+  // One entry per report so each report's grouping history is complete
+  for (const reportId of reportIds) {
+    await repository.recordHistory({
+      report_id: reportId,
+      action: 'rejected',
+      group_id: null,
+      previous_group_id: groupId,
+      triggered_by: 'manual_review',
+      metadata: { actor, reason: reason || null }
+    });
+  }
+
+  return true;
+};
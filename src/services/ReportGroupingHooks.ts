@@ -7,6 +7,20 @@
  */
 
 import { reportGroupingService, ReportData, GroupingAnalysis } from './ReportGroupingService';
+import { geospatialUtils } from './GeospatialUtils';
+import { SpatialIndex } from './SpatialIndex';
+import { loadActiveGroupingConfig } from './GroupingCalibrationService';
+import {
+  getReportGroupRepository,
+  type GroupPriority,
+  type GroupingTrigger,
+  type MembershipType,
+  type NewGroupMembership,
+  type ReportGroupWithMembers
+} from './ReportGroupRepository';
+import { getRecentReports, getReportById, type ReportData as StoredReport } from './ReportService';
+
+type SimilarReport = GroupingAnalysis['similarReports'][number];
 
 /**
  * Interface for hook configuration
@@ -20,6 +34,9 @@ export interface GroupingHooksConfig {
   notifyOnGrouping: boolean; // Notify users when reports are grouped
   autoGroupThreshold: number; // Threshold for automatic grouping (0.9 = very high confidence)
   reviewThreshold: number; // Threshold for flagging for review (0.7)
+  candidateLimit: number; // Number of recent reports loaded into the spatial index
+  indexRefreshInterval: number; // Reload the index to pick up reports from other devices (ms)
+  minGroupSize: number; // Groups with fewer active reports are dissolved
 }
 
 /**
@@ -33,9 +50,33 @@ const DEFAULT_HOOKS_CONFIG: GroupingHooksConfig = {
   enableLogging: true,
   notifyOnGrouping: false, // Default off to avoid notification spam
   autoGroupThreshold: 0.9,
-  reviewThreshold: 0.7
+  reviewThreshold: 0.7,
+  candidateLimit: 5000,
+  indexRefreshInterval: 5 * 60 * 1000, // 5 minutes
+  minGroupSize: 2
 };
 
+const PRIORITY_ORDER: GroupPriority[] = ['Low', 'Medium', 'High', 'Urgent'];
+
+/**
+ * Convert a stored report into the shape used by the grouping analysis
+ */
+export const toGroupingReport = (report: StoredReport): ReportData => ({
+  id: report.report_id,
+  title: report.title,
+  description: report.description,
+  category: report.category,
+  location: report.location
+    ? { latitude: report.location.lat, longitude: report.location.lng, accuracy: report.location.accuracy_m ?? undefined }
+    : undefined,
+  status: report.status,
+  priority: report.priority.toLowerCase() as ReportData['priority'],
+  createdAt: new Date(report.created_at),
+  updatedAt: new Date(report.updated_at),
+  userId: report.user_id,
+  metadata: { city: report.city, hazardType: report.hazard_type }
+});
+
 /**
  * Interface for grouping event data
  */
@@ -67,6 +108,9 @@ export class ReportGroupingHooks {
   private batchTimer: NodeJS.Timeout | null = null;
   private callbacks: GroupingResultCallback = {};
   private isProcessing = false;
+  private spatialIndex = new SpatialIndex<ReportData>();
+  private indexLoadedAt = 0;
+  private indexLoading: Promise<void> | null = null;
 
   private constructor(config: Partial<GroupingHooksConfig> = {}) {
     this.config = { ...DEFAULT_HOOKS_CONFIG, ...config };
@@ -101,6 +145,9 @@ export class ReportGroupingHooks {
    * Call this from your existing report creation logic
    */
   public async onReportCreated(report: ReportData, userId?: string): Promise<void> {
+    // Keep the index current even when detection is off
+    this.spatialIndex.upsert(report);
+
     if (!this.config.enableAutoDetection) {
       return;
     }
@@ -131,6 +178,9 @@ export class ReportGroupingHooks {
     changes: Record<string, any>,
     userId?: string
   ): Promise<void> {
+    // Keep the index current even when detection is off
+    this.spatialIndex.upsert(report);
+
     if (!this.config.enableAutoDetection) {
       return;
     }
@@ -173,12 +223,7 @@ export class ReportGroupingHooks {
 
     // Remove from pending batch if it exists
     this.pendingReports.delete(reportId);
-
-    // TODO: In a full implementation, you would:
-    // 1. Remove the report from any existing groups
-    // 2. Recalculate group statistics
-    // 3. Potentially dissolve groups if they become too small
-    // 4. Update the database accordingly
+    this.spatialIndex.remove(reportId);
 
     const event: GroupingEvent = {
       type: 'report_deleted',
@@ -188,8 +233,115 @@ export class ReportGroupingHooks {
       metadata: { action: 'delete' }
     };
 
-    // For now, just log the event
-    this.log(`Report ${reportId} deletion processed`, event);
+    try {
+      const repository = getReportGroupRepository();
+      const groups = await repository.getGroupsForReport(reportId);
+
+      for (const group of groups) {
+        await repository.updateMemberships(group.id, [reportId], { status: 'removed', is_primary: false });
+        await repository.recordHistory({
+          report_id: reportId,
+          action: 'ungrouped',
+          group_id: null,
+          previous_group_id: group.id,
+          triggered_by: 'report_deletion',
+          metadata: { userId: userId || null }
+        });
+
+        const remaining = group.memberships.filter(m => m.report_id !== reportId);
+        if (remaining.length < this.config.minGroupSize) {
+          await this.dissolveGroup(group, remaining.map(m => m.report_id), 'report_deletion');
+        } else {
+          await this.recomputeGroup(group, reportId);
+        }
+      }
+
+      this.log(`Report ${reportId} deletion processed`, { event, groupsAffected: groups.length });
+    } catch (error) {
+      this.log(`Error updating groups for deleted report ${reportId}:`, error);
+      this.callbacks.onGroupingError?.(reportId, error as Error);
+    }
+  }
+
+  /**
+   * Archive a group that no longer has enough reports to be meaningful
+   */
+  private async dissolveGroup(group: ReportGroupWithMembers, reportIds: string[], trigger: GroupingTrigger): Promise<void> {
+    const repository = getReportGroupRepository();
+    await repository.updateMemberships(group.id, reportIds, { status: 'removed', is_primary: false });
+    await repository.updateGroup(group.id, { status: 'archived' });
+
+    for (const reportId of reportIds) {
+      await repository.recordHistory({
+        report_id: reportId,
+        action: 'dissolved',
+        group_id: null,
+        previous_group_id: group.id,
+        triggered_by: trigger
+      });
+    }
+    this.log(`Group ${group.group_id} dissolved`);
+  }
+
+  /**
+   * Recalculate a group's aggregated metadata after a member report was removed
+   */
+  private async recomputeGroup(group: ReportGroupWithMembers, removedReportId: string): Promise<void> {
+    const repository = getReportGroupRepository();
+    const remaining = group.memberships.filter(m => m.report_id !== removedReportId);
+    const reports = (await Promise.all(remaining.map(m => getReportById(m.report_id))))
+      .filter((report): report is StoredReport => report !== null);
+
+    // Promote the most confident remaining member if the primary report was removed
+    let primaryReportId = remaining.find(m => m.is_primary)?.report_id;
+    if (!primaryReportId) {
+      const promoted = [...remaining].sort((a, b) => b.confidence_score - a.confidence_score)[0];
+      primaryReportId = promoted.report_id;
+      await repository.updateMemberships(group.id, [primaryReportId], { is_primary: true });
+    }
+
+    await repository.updateGroup(group.id, this.aggregateGroupFields(reports, group));
+    await repository.recordHistory({
+      report_id: primaryReportId,
+      action: 'recomputed',
+      group_id: group.id,
+      triggered_by: 'report_deletion',
+      groups_updated: 1,
+      metadata: { removed_report_id: removedReportId, remaining_reports: remaining.length }
+    });
+  }
+
+  /**
+   * Group fields derived from the member reports: centroid, spread, category and priority
+   */
+  private aggregateGroupFields(
+    reports: StoredReport[],
+    fallback?: Pick<ReportGroupWithMembers, 'primary_location' | 'primary_category' | 'primary_city'>
+  ) {
+    const locations = reports
+      .filter(report => report.location)
+      .map(report => ({ latitude: report.location.lat, longitude: report.location.lng }));
+    const centroid = locations.length > 0 ? geospatialUtils.calculateCentroid(locations) : null;
+    const radius = centroid && locations.length > 1
+      ? Math.round(Math.max(...locations.map(location => geospatialUtils.calculateDistance(centroid, location))))
+      : null;
+
+    const categoryCounts = new Map<string, number>();
+    reports.forEach(report => categoryCounts.set(report.category, (categoryCounts.get(report.category) || 0) + 1));
+    const primaryCategory = [...categoryCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    const priority = reports.reduce<GroupPriority>((highest, report) =>
+      PRIORITY_ORDER.indexOf(report.priority) > PRIORITY_ORDER.indexOf(highest) ? report.priority : highest, 'Low');
+
+    return {
+      primary_location: centroid
+        ? { lat: centroid.latitude, lng: centroid.longitude }
+        : fallback?.primary_location || { lat: 0, lng: 0 },
+      primary_category: primaryCategory || fallback?.primary_category || 'Others',
+      primary_city: reports[0]?.city || fallback?.primary_city || null,
+      spatial_radius_meters: radius,
+      priority_level: priority
+    };
   }
 
   /**
@@ -235,15 +387,14 @@ export class ReportGroupingHooks {
         this.batchTimer = null;
       }
 
-      // Get all existing reports for comparison (this would be a database query in practice)
-      const existingReports = await this.fetchExistingReports();
+      await this.ensureSpatialIndex();
 
       // Process each report in the batch
       const results = new Map<string, GroupingAnalysis>();
 
       for (const { report, event } of batchReports) {
         try {
-          const candidateReports = existingReports.filter(r => r.id !== report.id);
+          const candidateReports = reportGroupingService.findCandidates(report, this.spatialIndex);
           const analysis = await reportGroupingService.analyzeReportForGrouping(
             report, 
             candidateReports
@@ -278,9 +429,8 @@ export class ReportGroupingHooks {
     try {
       this.log(`Processing report ${report.id} immediately`);
 
-      // Get existing reports for comparison
-      const existingReports = await this.fetchExistingReports();
-      const candidateReports = existingReports.filter(r => r.id !== report.id);
+      await this.ensureSpatialIndex();
+      const candidateReports = reportGroupingService.findCandidates(report, this.spatialIndex);
 
       const analysis = await reportGroupingService.analyzeReportForGrouping(
         report, 
@@ -316,21 +466,13 @@ export class ReportGroupingHooks {
     if (highConfidenceMatches.length > 0) {
       this.log(`Found ${highConfidenceMatches.length} high-confidence matches for report ${report.id}`);
       
-      // In a full implementation, you would:
-      // 1. Create or update report groups in the database
-      // 2. Send notifications if enabled
-      // 3. Update report statuses
-      await this.handleAutoGrouping(report, highConfidenceMatches, analysis);
+      await this.handleAutoGrouping(report, highConfidenceMatches, analysis, event);
     }
 
     if (reviewMatches.length > 0) {
       this.log(`Found ${reviewMatches.length} matches requiring review for report ${report.id}`);
       
-      // In a full implementation, you would:
-      // 1. Flag reports for human review
-      // 2. Create review tasks in admin dashboard
-      // 3. Send notifications to administrators
-      await this.handleReviewRequired(report, reviewMatches, analysis);
+      await this.handleReviewRequired(report, reviewMatches, analysis, event);
     }
 
     // Always notify about grouping detection
@@ -349,51 +491,165 @@ export class ReportGroupingHooks {
    */
   private async handleAutoGrouping(
     report: ReportData,
-    matches: any[],
-    _analysis: GroupingAnalysis // Prefixed with underscore to indicate unused parameter
+    matches: SimilarReport[],
+    analysis: GroupingAnalysis,
+    event: GroupingEvent
   ): Promise<void> {
     this.log(`Auto-grouping report ${report.id} with ${matches.length} similar reports`);
-
-    // TODO: Implement database operations:
-    // 1. Insert into report_groups table
-    // 2. Insert into report_group_memberships table
-    // 3. Insert into report_grouping_history table
-    // 4. Update report statuses if needed
-    // 5. Send notifications if enabled
+    await this.persistGrouping(report, matches, analysis, event, 'automatic');
 
     if (this.config.notifyOnGrouping) {
-      // TODO: Send notification about automatic grouping
       this.log(`Notification would be sent about grouping for report ${report.id}`);
     }
   }
 
   /**
    * Handle cases requiring human review
+   * Stored as a group with suggested memberships, which reviewers approve or reject
    */
   private async handleReviewRequired(
     report: ReportData,
-    matches: any[],
-    _analysis: GroupingAnalysis // Prefixed with underscore to indicate unused parameter
+    matches: SimilarReport[],
+    analysis: GroupingAnalysis,
+    event: GroupingEvent
   ): Promise<void> {
     this.log(`Flagging report ${report.id} for human review due to ${matches.length} potential matches`);
+    await this.persistGrouping(report, matches, analysis, event, 'suggested');
+  }
+
+  /**
+   * Add the report to the group of its best match, or create a new group
+   */
+  private async persistGrouping(
+    report: ReportData,
+    matches: SimilarReport[],
+    analysis: GroupingAnalysis,
+    event: GroupingEvent,
+    membershipType: MembershipType
+  ): Promise<void> {
+    const repository = getReportGroupRepository();
+    const trigger: GroupingTrigger = event.type === 'report_updated' ? 'report_update' : 'report_creation';
+    const bestMatch = matches[0];
+
+    const existingGroups = await repository.getGroupsForReport(report.id);
+    if (existingGroups.length > 0) {
+      this.log(`Report ${report.id} is already in group ${existingGroups[0].group_id}`);
+      return;
+    }
+
+    // Join the group an earlier report already belongs to
+    for (const match of matches) {
+      const [matchGroup] = await repository.getGroupsForReport(match.reportId);
+      if (!matchGroup) continue;
+
+      await repository.addMembers(matchGroup.id, [this.toMembership(report.id, match, membershipType, false)]);
+      await repository.recordHistory({
+        report_id: report.id,
+        action: 'grouped',
+        group_id: matchGroup.id,
+        detection_method: 'combined',
+        confidence_score: this.roundScore(match.overallScore),
+        triggered_by: trigger,
+        processing_time_ms: analysis.analysisMetadata.processingTimeMs,
+        candidates_found: analysis.similarReports.length,
+        groups_updated: 1,
+        metadata: { membership_type: membershipType, matched_report_id: match.reportId }
+      });
+      this.log(`Report ${report.id} joined group ${matchGroup.group_id}`);
+      return;
+    }
+
+    // Otherwise start a new group with the earlier report as primary
+    const memberIds = [report.id, ...matches.map(match => match.reportId)];
+    const memberReports = (await Promise.all(memberIds.map(id => getReportById(id))))
+      .filter((stored): stored is StoredReport => stored !== null);
+
+    const group = await repository.createGroup(
+      {
+        ...this.aggregateGroupFields(memberReports),
+        status: 'active',
+        aggregated_status: 'Submitted',
+        detection_method: 'combined',
+        similarity_threshold: this.roundScore(reportGroupingService.getConfig().textSimilarityThreshold),
+        description: report.title,
+        tags: []
+      },
+      [
+        ...matches.map((match, index) => this.toMembership(match.reportId, match, membershipType, index === 0)),
+        this.toMembership(report.id, bestMatch, membershipType, false)
+      ]
+    );
+
+    await repository.recordHistory({
+      report_id: report.id,
+      action: 'grouped',
+      group_id: group.id,
+      detection_method: 'combined',
+      confidence_score: this.roundScore(bestMatch.overallScore),
+      triggered_by: trigger,
+      processing_time_ms: analysis.analysisMetadata.processingTimeMs,
+      candidates_found: analysis.similarReports.length,
+      groups_created: 1,
+      metadata: { membership_type: membershipType, member_report_ids: memberIds }
+    });
+    this.log(`Created group ${group.group_id} for report ${report.id}`);
+  }
+
+  private toMembership(
+    reportId: string,
+    match: SimilarReport,
+    membershipType: MembershipType,
+    isPrimary: boolean
+  ): NewGroupMembership {
+    const textScore = match.reasons.textSimilarity?.weightedScore ?? 0;
+    return {
+      report_id: reportId,
+      membership_type: membershipType,
+      confidence_score: this.roundScore(match.confidence),
+      spatial_match: match.reasons.proximityResult?.isWithinRadius ?? false,
+      textual_match: textScore >= reportGroupingService.getConfig().textSimilarityThreshold,
+      category_match: match.reasons.categoryMatch,
+      textual_similarity_score: this.roundScore(textScore),
+      spatial_distance_meters: match.reasons.proximityResult
+        ? Math.round(match.reasons.proximityResult.distance)
+        : null,
+      is_primary: isPrimary
+    };
+  }
 
-    // TODO: Implement review workflow:
-    // 1. Create review tasks in admin dashboard
-    // 2. Flag reports with review status
-    // 3. Send notifications to administrators
-    // 4. Store pending review data
+  // Scores are stored as DECIMAL(3,2) in [0, 1]
+  private roundScore(value: number): number {
+    return Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
   }
 
   /**
-   * Fetch existing reports for comparison
-   * This is a placeholder - in practice, this would be a database query
+   * Load recent reports into the spatial index on first use and periodically after,
+   * along with the active grouping config version
+   * Between reloads the index is kept current by the create, update and delete hooks
    */
-  private async fetchExistingReports(): Promise<ReportData[]> {
-    // TODO: Implement actual database query
-    // This should fetch recent reports (within temporal window) for comparison
-    
-    // For now, return empty array
-    return [];
+  private async ensureSpatialIndex(): Promise<void> {
+    if (Date.now() - this.indexLoadedAt < this.config.indexRefreshInterval) {
+      return;
+    }
+
+    if (!this.indexLoading) {
+      this.indexLoading = (async () => {
+        try {
+          const reports = await getRecentReports(this.config.candidateLimit);
+          this.spatialIndex.upsertMany(reports.map(toGroupingReport));
+
+          // Pick up calibrated weights applied from any admin session
+          await loadActiveGroupingConfig().catch(error =>
+            this.log('Could not load the active grouping config:', error)
+          );
+          this.indexLoadedAt = Date.now();
+          this.log(`Spatial index loaded with ${this.spatialIndex.size} reports`);
+        } finally {
+          this.indexLoading = null;
+        }
+      })();
+    }
+    await this.indexLoading;
   }
 
   /**
@@ -412,8 +668,8 @@ export class ReportGroupingHooks {
   public async triggerManualAnalysis(report: ReportData): Promise<GroupingAnalysis> {
     this.log(`Manual analysis triggered for report ${report.id}`);
 
-    const existingReports = await this.fetchExistingReports();
-    const candidateReports = existingReports.filter(r => r.id !== report.id);
+    await this.ensureSpatialIndex();
+    const candidateReports = reportGroupingService.findCandidates(report, this.spatialIndex);
 
     return await reportGroupingService.analyzeReportForGrouping(report, candidateReports);
   }
@@ -8,6 +8,9 @@
 
 import { textSimilarityService, TextSimilarityResult } from './TextSimilarityService';
 import { geospatialUtils, GeoCoordinate, ProximityResult } from './GeospatialUtils';
+import { SpatialIndex } from './SpatialIndex';
+import { getGroupingProfile, getAdaptiveRadius, HazardGroupingProfile } from './HazardGroupingProfiles';
+import { combineAccuracyM, getLocationWeight } from './LocationQualityService';
 
 /**
  * Interface for report data used in grouping analysis
@@ -78,18 +81,40 @@ export interface ReportGroup {
   };
 }
 
+/**
+ * The signals compared for a pair of reports
+ */
+export interface PairFeatures {
+  textScore: number; // TextSimilarityResult.weightedScore
+  distanceMeters: number | null; // null when either report has no location
+  categoryMatch: boolean;
+  radiusMeters?: number; // Proximity radius for this pair, defaults to config.proximityRadiusMeters
+  locationWeight?: number; // 0-1 trust in the two positions at this radius, defaults to 1
+}
+
+/**
+ * Spatial and temporal extent a report is grouped within
+ */
+export interface GroupingScope {
+  hazardType: string;
+  radiusMeters: number;
+  temporalWindowMs: number;
+}
+
 /**
  * Configuration for grouping analysis
  */
 export interface GroupingConfig {
   textSimilarityThreshold: number; // 0.7 default
-  proximityRadiusMeters: number; // 100 default
+  proximityRadiusMeters: number; // 100 default - used when hazard profiles are off
+  candidateSearchRadiusMeters: number; // 1000 default - located reports farther apart are never compared
   categoryMatchWeight: number; // 0.3 default
   textSimilarityWeight: number; // 0.4 default
   proximityWeight: number; // 0.3 default
   minConfidenceThreshold: number; // 0.6 default
   maxGroupSize: number; // 10 default
-  temporalWindowDays: number; // 30 default - only group reports within this timeframe
+  temporalWindowDays: number; // 30 default - only group reports within this timeframe when hazard profiles are off
+  useHazardProfiles: boolean; // true default - radius and time window from the report's hazard type
   enableAutoGrouping: boolean; // true default
   requireHumanReview: boolean; // false default for high-confidence matches
 }
@@ -100,12 +125,14 @@ export interface GroupingConfig {
 const DEFAULT_CONFIG: GroupingConfig = {
   textSimilarityThreshold: 0.7,
   proximityRadiusMeters: 100,
+  candidateSearchRadiusMeters: 1000,
   categoryMatchWeight: 0.3,
   textSimilarityWeight: 0.4,
   proximityWeight: 0.3,
   minConfidenceThreshold: 0.6,
   maxGroupSize: 10,
   temporalWindowDays: 30,
+  useHazardProfiles: true,
   enableAutoGrouping: true,
   requireHumanReview: false
 };
@@ -156,15 +183,17 @@ export class ReportGroupingService {
     const startTime = Date.now();
     
     try {
+      const scope = this.resolveScope(targetReport, candidateReports);
+
       // Filter candidates by temporal window
-      const recentCandidates = this.filterByTemporalWindow(targetReport, candidateReports);
+      const recentCandidates = this.filterByTemporalWindow(targetReport, candidateReports, scope.temporalWindowMs);
       
       // Filter candidates by category if strict matching is enabled
       const categoryCandidates = this.filterByCategory(targetReport, recentCandidates);
       
       // Analyze each candidate
       const similarReports = await Promise.all(
-        categoryCandidates.map(candidate => this.analyzeReportPair(targetReport, candidate))
+        categoryCandidates.map(candidate => this.analyzeReportPair(targetReport, candidate, scope))
       );
 
       // Filter by confidence threshold and sort by score
@@ -203,12 +232,107 @@ export class ReportGroupingService {
     }
   }
 
+  /**
+   * Look up the reports worth comparing against a target report
+   * Located candidates come from a radius query on the index; reports without a
+   * location can still match on text and category, so they are always included
+   */
+  public findCandidates(targetReport: ReportData, index: SpatialIndex<ReportData>): ReportData[] {
+    const profile = this.config.useHazardProfiles ? this.getProfile(targetReport) : null;
+    const windowMs = profile
+      ? profile.temporalWindowHours * 60 * 60 * 1000
+      : this.config.temporalWindowDays * 24 * 60 * 60 * 1000;
+    const maxRadius = profile ? profile.maxRadiusMeters : this.config.proximityRadiusMeters;
+    const targetTime = targetReport.createdAt.getTime();
+    const from = new Date(targetTime - windowMs);
+    const to = new Date(targetTime + windowMs);
+
+    const candidates = targetReport.location
+      ? [
+          ...index.queryRadius({
+            center: targetReport.location,
+            radiusMeters: Math.max(this.config.candidateSearchRadiusMeters, maxRadius),
+            from,
+            to
+          }).map(result => result.item),
+          ...index.getUnlocated(from, to)
+        ]
+      : index.queryTimeWindow(from, to);
+
+    return candidates.filter(candidate => candidate.id !== targetReport.id);
+  }
+
+  /**
+   * Grouping radius and time window for a report
+   * With hazard profiles on, the radius widens with the number of candidates
+   * already inside the hazard's base radius
+   */
+  public resolveScope(report: ReportData, candidates: ReportData[] = []): GroupingScope {
+    if (!this.config.useHazardProfiles) {
+      return {
+        hazardType: 'general_hazard',
+        radiusMeters: this.config.proximityRadiusMeters,
+        temporalWindowMs: this.config.temporalWindowDays * 24 * 60 * 60 * 1000
+      };
+    }
+
+    const profile = this.getProfile(report);
+    const location = report.location;
+    const nearbyCount = location
+      ? candidates.filter(candidate =>
+          candidate.id !== report.id &&
+          candidate.location &&
+          geospatialUtils.calculateDistance(location, candidate.location) <= profile.radiusMeters
+        ).length
+      : 0;
+
+    return {
+      hazardType: profile.hazardType,
+      radiusMeters: getAdaptiveRadius(profile, nearbyCount),
+      temporalWindowMs: profile.temporalWindowHours * 60 * 60 * 1000
+    };
+  }
+
+  /**
+   * Weighted overall score for a pair of reports
+   * Only signals that pass their own threshold contribute, and the score is
+   * normalised by the weights of those signals
+   */
+  public scorePair(features: PairFeatures, config: GroupingConfig = this.config): number {
+    const scores: number[] = [];
+    const weights: number[] = [];
+
+    if (features.textScore >= config.textSimilarityThreshold) {
+      scores.push(features.textScore);
+      weights.push(config.textSimilarityWeight);
+    }
+
+    const maxDistance = features.radiusMeters ?? config.proximityRadiusMeters;
+    if (features.distanceMeters !== null && features.distanceMeters <= maxDistance) {
+      // Inverse distance scoring - closer reports score higher; vague fixes count for less
+      scores.push(Math.max(0, (maxDistance - features.distanceMeters) / maxDistance) * (features.locationWeight ?? 1));
+      weights.push(config.proximityWeight);
+    }
+
+    if (features.categoryMatch) {
+      scores.push(1.0);
+      weights.push(config.categoryMatchWeight);
+    }
+
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) {
+      return 0;
+    }
+    return scores.reduce((sum, score, i) => sum + score * weights[i], 0) / totalWeight;
+  }
+
   /**
    * Analyze similarity between two reports
    */
   private async analyzeReportPair(
     report1: ReportData,
-    report2: ReportData
+    report2: ReportData,
+    scope: GroupingScope
   ): Promise<{
     reportId: string;
     overallScore: number;
@@ -223,60 +347,35 @@ export class ReportGroupingService {
       temporalProximity: this.calculateTemporalProximity(report1.createdAt, report2.createdAt)
     };
 
-    let scores: number[] = [];
-    let weights: number[] = [];
-
     // Text similarity analysis
     const combinedText1 = `${report1.title} ${report1.description}`;
     const combinedText2 = `${report2.title} ${report2.description}`;
     const textSimilarity = textSimilarityService.compareTexts(combinedText1, combinedText2);
     
     reasons.textSimilarity = textSimilarity;
-    
-    if (textSimilarity.weightedScore >= this.config.textSimilarityThreshold) {
-      scores.push(textSimilarity.weightedScore);
-      weights.push(this.config.textSimilarityWeight);
-    }
 
     // Geospatial proximity analysis
+    const radiusMeters = this.getPairRadius(scope, report2);
     if (report1.location && report2.location) {
-      const proximityResult = geospatialUtils.isWithinRadius(
+      reasons.proximityResult = geospatialUtils.isWithinRadius(
         report1.location,
         report2.location,
-        this.config.proximityRadiusMeters
+        radiusMeters
       );
-      
-      reasons.proximityResult = proximityResult;
-      
-      if (proximityResult.isWithinRadius) {
-        // Inverse distance scoring - closer reports score higher
-        const maxDistance = this.config.proximityRadiusMeters;
-        const proximityScore = Math.max(0, (maxDistance - proximityResult.distance) / maxDistance);
-        scores.push(proximityScore);
-        weights.push(this.config.proximityWeight);
-      }
     }
 
-    // Category matching
-    if (reasons.categoryMatch) {
-      scores.push(1.0);
-      weights.push(this.config.categoryMatchWeight);
-    }
-
-    // Calculate weighted overall score
-    let overallScore = 0;
-    let totalWeight = 0;
-
-    if (scores.length > 0) {
-      for (let i = 0; i < scores.length; i++) {
-        overallScore += scores[i] * weights[i];
-        totalWeight += weights[i];
-      }
-      overallScore = totalWeight > 0 ? overallScore / totalWeight : 0;
-    }
+    const overallScore = this.scorePair({
+      textScore: textSimilarity.weightedScore,
+      distanceMeters: reasons.proximityResult ? reasons.proximityResult.distance : null,
+      categoryMatch: reasons.categoryMatch,
+      radiusMeters,
+      locationWeight: report1.location && report2.location
+        ? getLocationWeight(combineAccuracyM(report1.location.accuracy, report2.location.accuracy), radiusMeters)
+        : undefined
+    });
 
     // Calculate confidence based on multiple factors
-    const confidence = this.calculateConfidence(reasons, textSimilarity, overallScore);
+    const confidence = this.calculateConfidence(reasons, textSimilarity, overallScore, scope.temporalWindowMs);
 
     // Determine recommendation
     const recommendation = this.determineRecommendation(overallScore, confidence, reasons);
@@ -290,11 +389,30 @@ export class ReportGroupingService {
     };
   }
 
+  /**
+   * Hazard profile for a report, from its stored hazard type or its category
+   */
+  private getProfile(report: ReportData): HazardGroupingProfile {
+    return getGroupingProfile(report.metadata?.hazardType || report.category);
+  }
+
+  /**
+   * Proximity radius for a pair; reports of different hazards use the tighter radius
+   */
+  private getPairRadius(scope: GroupingScope, candidate: ReportData): number {
+    if (!this.config.useHazardProfiles) {
+      return scope.radiusMeters;
+    }
+    const candidateProfile = this.getProfile(candidate);
+    return candidateProfile.hazardType === scope.hazardType
+      ? scope.radiusMeters
+      : Math.min(scope.radiusMeters, candidateProfile.radiusMeters);
+  }
+
   /**
    * Filter reports by temporal window
    */
-  private filterByTemporalWindow(targetReport: ReportData, candidates: ReportData[]): ReportData[] {
-    const windowMs = this.config.temporalWindowDays * 24 * 60 * 60 * 1000;
+  private filterByTemporalWindow(targetReport: ReportData, candidates: ReportData[], windowMs: number): ReportData[] {
     const targetTime = targetReport.createdAt.getTime();
 
     return candidates.filter(candidate => {
@@ -364,7 +482,8 @@ export class ReportGroupingService {
   private calculateConfidence(
     reasons: any,
     textSimilarity: TextSimilarityResult,
-    overallScore: number
+    overallScore: number,
+    temporalWindowMs: number
   ): number {
     let confidenceFactors: number[] = [];
 
@@ -395,7 +514,8 @@ export class ReportGroupingService {
     }
 
     // Temporal proximity (closer in time = higher confidence)
-    const temporalConfidence = Math.max(0, 1 - (reasons.temporalProximity / this.config.temporalWindowDays));
+    const windowDays = temporalWindowMs / (1000 * 60 * 60 * 24);
+    const temporalConfidence = Math.max(0, 1 - (reasons.temporalProximity / windowDays));
     confidenceFactors.push(temporalConfidence);
 
     // Calculate average confidence
@@ -535,10 +655,11 @@ export class ReportGroupingService {
    */
   public async batchAnalyzeReports(reports: ReportData[]): Promise<Map<string, GroupingAnalysis>> {
     const results = new Map<string, GroupingAnalysis>();
+    const index = new SpatialIndex<ReportData>();
+    index.upsertMany(reports);
     
-    for (let i = 0; i < reports.length; i++) {
-      const targetReport = reports[i];
-      const candidateReports = reports.filter((_, index) => index !== i);
+    for (const targetReport of reports) {
+      const candidateReports = this.findCandidates(targetReport, index);
       
       const analysis = await this.analyzeReportForGrouping(targetReport, candidateReports);
       results.set(targetReport.id, analysis);
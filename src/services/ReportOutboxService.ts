@@ -0,0 +1,408 @@
+/**
+ * Report Outbox Service
+ * Persistent IndexedDB queue for report submissions that have not reached the server yet
+ *
+ * Features:
+ * - Queues reports together with their not-yet-uploaded photos and videos
+ * - Retries with exponential backoff, and immediately when the browser comes back online
+ * - Reconciles server-assigned IDs and later status changes into the local copy
+ * - Exposes per-report sync state (queued / syncing / synced / failed) for the UI
+ *
+ * The actual upload is done by handlers registered by ReportService, so this
+ * module stays independent of the storage backends.
+ */
+
+import { isIndexedDBAvailable, openDatabase, promisifyRequest, transactionDone } from '../utils/indexedDb';
+import type { ReportData } from './ReportService';
+import type { PreparedMedia } from './MediaService';
+
+export type OutboxSyncState = 'queued' | 'syncing' | 'synced' | 'failed';
+
+export interface OutboxEntry {
+  report_id: string; // Client-generated reference number
+  report: ReportData; // Record as saved locally at submission time
+  pending_media: PreparedMedia[]; // Compressed media still to be uploaded (Blobs are stored as-is)
+  sync_state: OutboxSyncState;
+  attempts: number;
+  queued_at: string;
+  next_attempt_at: string;
+  last_error?: string;
+  server_id?: string; // Primary key assigned by the server
+  synced_at?: string;
+}
+
+export interface OutboxHandlers {
+  // Push one queued report to the server and return the server's copy of it
+  push: (entry: OutboxEntry) => Promise<ReportData>;
+  // Fetch the server's current copy of a report for reconciliation
+  fetch: (reportId: string) => Promise<ReportData | null>;
+  // Write a reconciled report back into the local store
+  applyLocal: (report: ReportData) => Promise<void>;
+}
+
+export const OUTBOX_UPDATED_EVENT = 'reportOutboxUpdated';
+
+const OUTBOX_DB_NAME = 'jalBandhu-outbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+const SYNCED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Fields owned by reviewers on the server; a newer server copy always wins for these
+const SERVER_OWNED_FIELDS: Array<keyof ReportData> = [
+  'id',
+  'status',
+  'status_history',
+  'proof_verification_status',
+  'updated_at'
+];
+
+class ReportOutboxService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private memoryEntries = new Map<string, OutboxEntry>(); // Used when IndexedDB is unavailable
+  private handlers: OutboxHandlers | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing = false;
+  private handleOnline = () => {
+    this.flush();
+  };
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+  }
+
+  /**
+   * Register how queued reports are pushed to and fetched from the server
+   */
+  configure(handlers: OutboxHandlers): void {
+    this.handlers = handlers;
+
+    // Process anything left over from a previous session
+    this.requeueInterruptedEntries().finally(() => this.flush());
+  }
+
+  /**
+   * Add a report submission to the outbox
+   */
+  async enqueue(report: ReportData, pendingMedia: PreparedMedia[] = []): Promise<OutboxEntry> {
+    const now = new Date().toISOString();
+    const entry: OutboxEntry = {
+      report_id: report.report_id,
+      report,
+      pending_media: pendingMedia,
+      sync_state: 'queued',
+      attempts: 0,
+      queued_at: now,
+      next_attempt_at: now
+    };
+
+    await this.saveEntry(entry);
+    console.log(`Report outbox: queued ${report.report_id}`);
+    return entry;
+  }
+
+  /**
+   * Get all outbox entries, newest first
+   */
+  async getEntries(): Promise<OutboxEntry[]> {
+    const entries = await this.loadEntries();
+    return entries.sort((a, b) => new Date(b.queued_at).getTime() - new Date(a.queued_at).getTime());
+  }
+
+  /**
+   * Get the sync state of every report in the outbox, keyed by report_id
+   */
+  async getSyncStates(): Promise<Record<string, OutboxSyncState>> {
+    const entries = await this.loadEntries();
+    return Object.fromEntries(entries.map(entry => [entry.report_id, entry.sync_state]));
+  }
+
+  /**
+   * Record partial progress on a queued report, e.g. attachments already uploaded
+   */
+  async updateReport(reportId: string, report: ReportData): Promise<void> {
+    const entry = await this.getEntry(reportId);
+    if (!entry) return;
+    await this.saveEntry({ ...entry, report });
+  }
+
+  /**
+   * Move a failed entry back into the queue and try again now
+   */
+  async retry(reportId: string): Promise<void> {
+    const entry = await this.getEntry(reportId);
+    if (!entry || entry.sync_state === 'synced') return;
+
+    await this.saveEntry({
+      ...entry,
+      sync_state: 'queued',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: undefined
+    });
+    await this.flush();
+  }
+
+  /**
+   * Push every due entry to the server, then reconcile synced reports
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing || !this.handlers || !navigator.onLine) {
+      return;
+    }
+
+    try {
+      this.isFlushing = true;
+      const now = Date.now();
+      const dueEntries = (await this.loadEntries()).filter(entry =>
+        entry.sync_state === 'queued' && new Date(entry.next_attempt_at).getTime() <= now
+      );
+
+      if (dueEntries.length > 0) {
+        console.log(`Report outbox: syncing ${dueEntries.length} queued reports...`);
+      }
+
+      for (const entry of dueEntries) {
+        await this.syncEntry(entry);
+      }
+
+      await this.reconcile();
+      await this.pruneSyncedEntries();
+    } catch (error) {
+      console.error('Report outbox: error flushing queue:', error);
+    } finally {
+      this.isFlushing = false;
+      this.scheduleNextAttempt();
+    }
+  }
+
+  /**
+   * Cleanup listeners and timers
+   */
+  destroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Entries still marked syncing when the outbox starts were cut off mid-push
+   * (tab closed or crashed); queue them again. Pushing is idempotent, so a
+   * report that did reach the server is matched rather than duplicated.
+   */
+  private async requeueInterruptedEntries(): Promise<void> {
+    try {
+      const interrupted = (await this.loadEntries()).filter(entry => entry.sync_state === 'syncing');
+      for (const entry of interrupted) {
+        // Keep any upload progress saved during the interrupted attempt
+        await this.saveEntry({ ...entry, sync_state: 'queued', next_attempt_at: new Date().toISOString() });
+      }
+      if (interrupted.length > 0) {
+        console.log(`Report outbox: re-queued ${interrupted.length} interrupted reports`);
+      }
+    } catch (error) {
+      console.error('Report outbox: error re-queuing interrupted reports:', error);
+    }
+  }
+
+  private async syncEntry(entry: OutboxEntry): Promise<void> {
+    if (!this.handlers) return;
+
+    await this.saveEntry({ ...entry, sync_state: 'syncing' });
+
+    try {
+      const serverReport = await this.handlers.push(entry);
+      await this.handlers.applyLocal(serverReport);
+
+      await this.saveEntry({
+        ...entry,
+        report: serverReport,
+        pending_media: [],
+        sync_state: 'synced',
+        attempts: entry.attempts + 1,
+        server_id: serverReport.id,
+        synced_at: new Date().toISOString(),
+        last_error: undefined
+      });
+      console.log(`Report outbox: ${entry.report_id} synced${serverReport.id ? ` as ${serverReport.id}` : ''}`);
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      // The push handler may have saved upload progress in the meantime
+      const latest = (await this.getEntry(entry.report_id)) || entry;
+
+      await this.saveEntry({
+        ...latest,
+        sync_state: exhausted ? 'failed' : 'queued',
+        attempts,
+        next_attempt_at: new Date(Date.now() + this.getRetryDelay(attempts)).toISOString(),
+        last_error: error instanceof Error ? error.message : 'Unknown sync error'
+      });
+      console.warn(`Report outbox: sync attempt ${attempts} for ${entry.report_id} failed:`, error);
+    }
+  }
+
+  /**
+   * Pull the server copy of synced reports so status changes made by
+   * reviewers show up in the local copy
+   */
+  private async reconcile(): Promise<void> {
+    if (!this.handlers) return;
+
+    const syncedEntries = (await this.loadEntries()).filter(entry => entry.sync_state === 'synced');
+    for (const entry of syncedEntries) {
+      try {
+        const serverReport = await this.handlers.fetch(entry.report_id);
+        if (!serverReport) continue;
+
+        const merged = mergeServerReport(entry.report, serverReport);
+        if (merged !== entry.report) {
+          await this.handlers.applyLocal(merged);
+          await this.saveEntry({ ...entry, report: merged, server_id: serverReport.id || entry.server_id });
+        }
+      } catch (error) {
+        console.warn(`Report outbox: could not reconcile ${entry.report_id}:`, error);
+      }
+    }
+  }
+
+  private async pruneSyncedEntries(): Promise<void> {
+    const cutoff = Date.now() - SYNCED_RETENTION_MS;
+    const entries = await this.loadEntries();
+    for (const entry of entries) {
+      if (entry.sync_state === 'synced' && entry.synced_at && new Date(entry.synced_at).getTime() < cutoff) {
+        await this.deleteEntry(entry.report_id);
+      }
+    }
+  }
+
+  private getRetryDelay(attempts: number): number {
+    const exponential = BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1);
+    const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+    return Math.min(exponential + jitter, MAX_RETRY_DELAY_MS);
+  }
+
+  private async scheduleNextAttempt(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    try {
+      const queued = (await this.loadEntries()).filter(entry => entry.sync_state === 'queued');
+      if (queued.length === 0) return;
+
+      const nextAttempt = Math.min(...queued.map(entry => new Date(entry.next_attempt_at).getTime()));
+      const delay = Math.max(nextAttempt - Date.now(), 1000);
+      this.retryTimer = setTimeout(() => this.flush(), delay);
+    } catch (error) {
+      console.error('Report outbox: error scheduling retry:', error);
+    }
+  }
+
+  // --- Storage -------------------------------------------------------------
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(OUTBOX_DB_NAME, OUTBOX_DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'report_id' });
+          store.createIndex('sync_state', 'sync_state');
+        }
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async loadEntries(): Promise<OutboxEntry[]> {
+    if (!isIndexedDBAvailable()) {
+      return [...this.memoryEntries.values()];
+    }
+    const db = await this.getDb();
+    const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+    return promisifyRequest(store.getAll()) as Promise<OutboxEntry[]>;
+  }
+
+  private async getEntry(reportId: string): Promise<OutboxEntry | null> {
+    if (!isIndexedDBAvailable()) {
+      return this.memoryEntries.get(reportId) || null;
+    }
+    const db = await this.getDb();
+    const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+    return ((await promisifyRequest(store.get(reportId))) as OutboxEntry | undefined) || null;
+  }
+
+  private async saveEntry(entry: OutboxEntry): Promise<void> {
+    if (!isIndexedDBAvailable()) {
+      this.memoryEntries.set(entry.report_id, entry);
+    } else {
+      const db = await this.getDb();
+      const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+      transaction.objectStore(OUTBOX_STORE).put(entry);
+      await transactionDone(transaction);
+    }
+    this.notify(entry);
+  }
+
+  private async deleteEntry(reportId: string): Promise<void> {
+    if (!isIndexedDBAvailable()) {
+      this.memoryEntries.delete(reportId);
+      return;
+    }
+    const db = await this.getDb();
+    const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+    transaction.objectStore(OUTBOX_STORE).delete(reportId);
+    await transactionDone(transaction);
+  }
+
+  private notify(entry: OutboxEntry): void {
+    if (typeof window === 'undefined') return;
+    window.dispatchEvent(new CustomEvent(OUTBOX_UPDATED_EVENT, {
+      detail: {
+        reportId: entry.report_id,
+        syncState: entry.sync_state,
+        serverId: entry.server_id,
+        report: entry.report
+      }
+    }));
+  }
+}
+
+/**
+ * Merge the server copy of a report into the local one.
+ * Reviewer-owned fields come from the server when its copy is newer;
+ * everything else keeps the local value unless it is missing locally.
+ * Returns the local object unchanged when nothing differs.
+ */
+export const mergeServerReport = (local: ReportData, server: ReportData): ReportData => {
+  const serverIsNewer = new Date(server.updated_at).getTime() > new Date(local.updated_at).getTime();
+  const merged: ReportData = { ...server, ...local };
+
+  if (serverIsNewer) {
+    SERVER_OWNED_FIELDS.forEach(field => {
+      (merged as unknown as Record<string, unknown>)[field] = server[field];
+    });
+  } else if (server.id && !local.id) {
+    merged.id = server.id;
+  }
+
+  const changed = (Object.keys(merged) as Array<keyof ReportData>).some(
+    key => JSON.stringify(merged[key]) !== JSON.stringify(local[key])
+  );
+  return changed ? merged : local;
+};
+
+// Create singleton instance
+export const reportOutbox = new ReportOutboxService();
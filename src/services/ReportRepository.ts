@@ -0,0 +1,586 @@
+/**
+ * Report Repository - Storage backends for reports, tasks and proof data
+ *
+ * ReportService talks to a ReportRepository instead of calling Supabase or
+ * localStorage directly. Three backends are provided:
+ * - SupabaseReportRepository: the hosted `reports` / `report_tasks` tables
+ * - IndexedDBReportRepository: persistent on-device store for offline use
+ * - InMemoryReportRepository: deterministic store for tests and demos
+ *
+ * The active backend is chosen by VITE_REPORT_STORE ('supabase' | 'indexeddb' | 'memory').
+ * When unset, Supabase is used if configured, otherwise IndexedDB.
+ */
+
+import { supabase } from './supabase';
+import { isIndexedDBAvailable, openDatabase, promisifyRequest, transactionDone } from '../utils/indexedDb';
+import type { ReportData, TaskData } from './ReportService';
+
+// Filters understood by every backend
+export interface ReportQuery {
+  userId?: string;
+  category?: string; // Case-insensitive exact match
+  city?: string; // Case-insensitive match
+  coastalZones?: string[]; // Exact match against any of these zone ids
+  withoutCoastalZone?: boolean; // Only reports with no stored zone, e.g. saved before zones were assigned
+  statuses?: string[]; // Exact match against any of these statuses
+  bounds?: { north: number; south: number; east: number; west: number }; // Location inside, edges included
+  createdAfter?: string; // ISO timestamps bounding created_at, inclusive
+  createdBefore?: string;
+  orderBy?: 'created_at' | 'updated_at'; // Always newest first
+  limit?: number;
+  offset?: number;
+}
+
+export interface TaskQuery {
+  reportId?: string;
+  categories?: string[]; // Case-insensitive match against any of these
+}
+
+export interface ProofStatistics {
+  totalReports: number;
+  reportsWithProof: number;
+  verifiedProofs: number;
+  pendingProofs: number;
+  failedProofs: number;
+  proofCoveragePercentage: number;
+  verificationSuccessRate: number;
+}
+
+export type ReportStoreType = 'supabase' | 'indexeddb' | 'memory';
+
+export interface ReportRepository {
+  readonly type: ReportStoreType;
+
+  // Reports
+  insertReport(report: ReportData): Promise<ReportData>; // Resolves with the stored copy
+  getReport(reportId: string): Promise<ReportData | null>;
+  queryReports(query?: ReportQuery): Promise<ReportData[]>;
+  updateReport(reportId: string, updates: Partial<ReportData>): Promise<boolean>;
+  reassignReports(oldUserId: string, newUserId: string): Promise<void>;
+  listCities(): Promise<string[]>;
+  getProofStatistics(): Promise<ProofStatistics>;
+
+  // Tasks
+  insertTask(task: Omit<TaskData, 'id'>): Promise<TaskData>;
+  queryTasks(query?: TaskQuery): Promise<TaskData[]>;
+  updateTask(taskId: string, updates: Partial<TaskData>): Promise<boolean>;
+  deleteTask(taskId: string): Promise<boolean>;
+}
+
+// ---------------------------------------------------------------------------
+// Shared query helpers for the local backends
+// ---------------------------------------------------------------------------
+
+const matchesReportQuery = (report: ReportData, query: ReportQuery): boolean => {
+  if (query.userId !== undefined && report.user_id !== query.userId) return false;
+  if (query.category !== undefined && report.category?.toLowerCase() !== query.category.toLowerCase()) return false;
+  if (query.city !== undefined && !(report.city && report.city.toLowerCase().includes(query.city.toLowerCase()))) return false;
+  if (query.coastalZones !== undefined && !(report.coastal_zone && query.coastalZones.includes(report.coastal_zone))) return false;
+  if (query.withoutCoastalZone && report.coastal_zone) return false;
+  if (query.statuses !== undefined && !query.statuses.includes(report.status)) return false;
+  if (query.bounds !== undefined) {
+    const { lat, lng } = report.location || {};
+    if (typeof lat !== 'number' || typeof lng !== 'number' ||
+        lat < query.bounds.south || lat > query.bounds.north ||
+        lng < query.bounds.west || lng > query.bounds.east) return false;
+  }
+  const createdAt = new Date(report.created_at).getTime();
+  if (query.createdAfter !== undefined && !(createdAt >= new Date(query.createdAfter).getTime())) return false;
+  if (query.createdBefore !== undefined && !(createdAt <= new Date(query.createdBefore).getTime())) return false;
+  return true;
+};
+
+const applyReportQuery = (reports: ReportData[], query: ReportQuery = {}): ReportData[] => {
+  const orderBy = query.orderBy || 'created_at';
+  const offset = query.offset || 0;
+  const filtered = reports
+    .filter(report => matchesReportQuery(report, query))
+    .sort((a, b) => new Date(b[orderBy]).getTime() - new Date(a[orderBy]).getTime());
+
+  return query.limit !== undefined
+    ? filtered.slice(offset, offset + query.limit)
+    : filtered.slice(offset);
+};
+
+const matchesTaskQuery = (task: TaskData, query: TaskQuery): boolean => {
+  if (query.reportId !== undefined && task.report_id !== query.reportId) return false;
+  if (query.categories !== undefined &&
+      !query.categories.some(cat => cat.toLowerCase() === task.category.toLowerCase())) return false;
+  return true;
+};
+
+const applyTaskQuery = (tasks: TaskData[], query: TaskQuery = {}): TaskData[] =>
+  tasks
+    .filter(task => matchesTaskQuery(task, query))
+    .sort((a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime());
+
+const uniqueCities = (reports: Array<Pick<ReportData, 'city'>>): string[] =>
+  [...new Set(reports.map(report => report.city).filter(Boolean))];
+
+const generateTaskId = (): string =>
+  `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const computeProofStatistics = (reports: ReportData[]): ProofStatistics => {
+  const totalReports = reports.length;
+  const reportsWithProof = reports.filter(r => r.proof_cid).length;
+  const verifiedProofs = reports.filter(r => r.proof_verification_status === 'verified').length;
+  const pendingProofs = reports.filter(r => r.proof_verification_status === 'pending').length;
+  const failedProofs = reports.filter(r => r.proof_verification_status === 'failed').length;
+
+  return {
+    totalReports,
+    reportsWithProof,
+    verifiedProofs,
+    pendingProofs,
+    failedProofs,
+    proofCoveragePercentage: totalReports > 0 ? (reportsWithProof / totalReports) * 100 : 0,
+    verificationSuccessRate: reportsWithProof > 0 ? (verifiedProofs / reportsWithProof) * 100 : 0
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Supabase
+// ---------------------------------------------------------------------------
+
+export class SupabaseReportRepository implements ReportRepository {
+  readonly type = 'supabase' as const;
+
+  async insertReport(report: ReportData): Promise<ReportData> {
+    const { data, error } = await supabase
+      .from('reports')
+      .insert([report])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as ReportData;
+  }
+
+  async getReport(reportId: string): Promise<ReportData | null> {
+    const { data, error } = await supabase
+      .from('reports')
+      .select('*')
+      .eq('report_id', reportId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as ReportData) || null;
+  }
+
+  async queryReports(query: ReportQuery = {}): Promise<ReportData[]> {
+    let request = supabase.from('reports').select('*');
+
+    if (query.userId !== undefined) request = request.eq('user_id', query.userId);
+    if (query.category !== undefined) request = request.ilike('category', query.category);
+    if (query.city !== undefined) request = request.ilike('city', query.city);
+    if (query.coastalZones !== undefined) request = request.in('coastal_zone', query.coastalZones);
+    if (query.withoutCoastalZone) request = request.is('coastal_zone', null);
+    if (query.statuses !== undefined) request = request.in('status', query.statuses);
+    if (query.bounds !== undefined) {
+      // Indexed columns generated from location (database/add_map_clustering.sql)
+      request = request
+        .gte('location_lat', query.bounds.south)
+        .lte('location_lat', query.bounds.north)
+        .gte('location_lng', query.bounds.west)
+        .lte('location_lng', query.bounds.east);
+    }
+    if (query.createdAfter !== undefined) request = request.gte('created_at', query.createdAfter);
+    if (query.createdBefore !== undefined) request = request.lte('created_at', query.createdBefore);
+
+    let ordered = request.order(query.orderBy || 'created_at', { ascending: false });
+    if (query.limit !== undefined) {
+      const offset = query.offset || 0;
+      ordered = ordered.range(offset, offset + query.limit - 1);
+    }
+
+    const { data, error } = await ordered;
+    if (error) throw error;
+    return (data || []) as ReportData[];
+  }
+
+  async updateReport(reportId: string, updates: Partial<ReportData>): Promise<boolean> {
+    const { error } = await supabase
+      .from('reports')
+      .update(updates)
+      .eq('report_id', reportId);
+
+    if (error) throw error;
+    return true;
+  }
+
+  async reassignReports(oldUserId: string, newUserId: string): Promise<void> {
+    const { error } = await supabase
+      .from('reports')
+      .update({ user_id: newUserId })
+      .eq('user_id', oldUserId);
+
+    if (error) throw error;
+  }
+
+  async listCities(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('reports')
+      .select('city');
+
+    if (error) throw error;
+    return uniqueCities(data || []);
+  }
+
+  async getProofStatistics(): Promise<ProofStatistics> {
+    // Use the view we created in the database
+    const { data, error } = await supabase
+      .from('proof_statistics')
+      .select('*')
+      .single();
+
+    if (!error && data) {
+      return {
+        totalReports: data.total_reports || 0,
+        reportsWithProof: data.reports_with_proof || 0,
+        verifiedProofs: data.verified_proofs || 0,
+        pendingProofs: data.pending_proofs || 0,
+        failedProofs: data.failed_proofs || 0,
+        proofCoveragePercentage: data.proof_coverage_percentage || 0,
+        verificationSuccessRate: data.verification_success_rate || 0
+      };
+    }
+
+    // View missing - compute from the reports themselves
+    return computeProofStatistics(await this.queryReports());
+  }
+
+  async insertTask(task: Omit<TaskData, 'id'>): Promise<TaskData> {
+    const { data, error } = await supabase
+      .from('report_tasks')
+      .insert([task])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as TaskData;
+  }
+
+  async queryTasks(query: TaskQuery = {}): Promise<TaskData[]> {
+    let request = supabase.from('report_tasks').select('*');
+    if (query.reportId !== undefined) request = request.eq('report_id', query.reportId);
+
+    const { data, error } = await request.order('created_at', { ascending: false });
+    if (error) throw error;
+
+    // Filter categories in JavaScript to handle case-insensitive matching
+    return ((data || []) as TaskData[]).filter(task => matchesTaskQuery(task, { categories: query.categories }));
+  }
+
+  async updateTask(taskId: string, updates: Partial<TaskData>): Promise<boolean> {
+    const { error } = await supabase
+      .from('report_tasks')
+      .update(updates)
+      .eq('id', taskId);
+
+    if (error) throw error;
+    return true;
+  }
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('report_tasks')
+      .delete()
+      .eq('id', taskId);
+
+    if (error) throw error;
+    return true;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB
+// ---------------------------------------------------------------------------
+
+const REPORT_DB_NAME = 'jalBandhu-reports';
+const REPORT_DB_VERSION = 1;
+const REPORTS_STORE = 'reports';
+const TASKS_STORE = 'tasks';
+
+// Keys used by earlier releases that kept everything in localStorage
+const LEGACY_REPORTS_KEY = 'jalBandhu_reports';
+const LEGACY_TASKS_KEY = 'jalBandhu_tasks';
+
+const readLegacyItems = <T>(key: string): T[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch (error) {
+    console.error(`Failed to parse legacy ${key} from localStorage:`, error);
+    return [];
+  }
+};
+
+export class IndexedDBReportRepository implements ReportRepository {
+  readonly type = 'indexeddb' as const;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = REPORT_DB_NAME) {}
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(this.dbName, REPORT_DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          const reports = db.createObjectStore(REPORTS_STORE, { keyPath: 'report_id' });
+          reports.createIndex('user_id', 'user_id');
+          const tasks = db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+          tasks.createIndex('report_id', 'report_id');
+
+          // Carry over data saved by the localStorage-only implementation
+          readLegacyItems<ReportData>(LEGACY_REPORTS_KEY).forEach(report => reports.put(report));
+          readLegacyItems<TaskData>(LEGACY_TASKS_KEY)
+            .forEach(task => tasks.put({ ...task, id: task.id || generateTaskId() }));
+        }
+      }).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getAll<T>(storeName: string, indexName?: string, key?: IDBValidKey): Promise<T[]> {
+    const db = await this.getDb();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const source = indexName ? store.index(indexName) : store;
+    return promisifyRequest(source.getAll(key)) as Promise<T[]>;
+  }
+
+  private async get<T>(storeName: string, key: string): Promise<T | null> {
+    const db = await this.getDb();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const value = await promisifyRequest(store.get(key));
+    return (value as T) || null;
+  }
+
+  private async put<T>(storeName: string, value: T): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(value);
+    await transactionDone(transaction);
+  }
+
+  async insertReport(report: ReportData): Promise<ReportData> {
+    await this.put(REPORTS_STORE, report);
+    return report;
+  }
+
+  async getReport(reportId: string): Promise<ReportData | null> {
+    return this.get<ReportData>(REPORTS_STORE, reportId);
+  }
+
+  async queryReports(query: ReportQuery = {}): Promise<ReportData[]> {
+    const reports = query.userId !== undefined
+      ? await this.getAll<ReportData>(REPORTS_STORE, 'user_id', query.userId)
+      : await this.getAll<ReportData>(REPORTS_STORE);
+    return applyReportQuery(reports, query);
+  }
+
+  async updateReport(reportId: string, updates: Partial<ReportData>): Promise<boolean> {
+    const existing = await this.getReport(reportId);
+    if (!existing) return false;
+    await this.put(REPORTS_STORE, { ...existing, ...updates, report_id: reportId });
+    return true;
+  }
+
+  async reassignReports(oldUserId: string, newUserId: string): Promise<void> {
+    const reports = await this.getAll<ReportData>(REPORTS_STORE, 'user_id', oldUserId);
+    const db = await this.getDb();
+    const transaction = db.transaction(REPORTS_STORE, 'readwrite');
+    const store = transaction.objectStore(REPORTS_STORE);
+    reports.forEach(report => store.put({ ...report, user_id: newUserId }));
+    await transactionDone(transaction);
+  }
+
+  async listCities(): Promise<string[]> {
+    return uniqueCities(await this.getAll<ReportData>(REPORTS_STORE));
+  }
+
+  async getProofStatistics(): Promise<ProofStatistics> {
+    return computeProofStatistics(await this.getAll<ReportData>(REPORTS_STORE));
+  }
+
+  async insertTask(task: Omit<TaskData, 'id'>): Promise<TaskData> {
+    const newTask: TaskData = { ...task, id: generateTaskId() };
+    await this.put(TASKS_STORE, newTask);
+    return newTask;
+  }
+
+  async queryTasks(query: TaskQuery = {}): Promise<TaskData[]> {
+    const tasks = query.reportId !== undefined
+      ? await this.getAll<TaskData>(TASKS_STORE, 'report_id', query.reportId)
+      : await this.getAll<TaskData>(TASKS_STORE);
+    return applyTaskQuery(tasks, query);
+  }
+
+  async updateTask(taskId: string, updates: Partial<TaskData>): Promise<boolean> {
+    const existing = await this.get<TaskData>(TASKS_STORE, taskId);
+    if (!existing) return false;
+    await this.put(TASKS_STORE, { ...existing, ...updates, id: taskId });
+    return true;
+  }
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    const existing = await this.get<TaskData>(TASKS_STORE, taskId);
+    if (!existing) return false;
+
+    const db = await this.getDb();
+    const transaction = db.transaction(TASKS_STORE, 'readwrite');
+    transaction.objectStore(TASKS_STORE).delete(taskId);
+    await transactionDone(transaction);
+    return true;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// In-memory
+// ---------------------------------------------------------------------------
+
+/**
+ * Deterministic store with no persistence. Records are copied on the way in
+ * and out so callers cannot mutate stored state by accident.
+ */
+export class InMemoryReportRepository implements ReportRepository {
+  readonly type = 'memory' as const;
+  private reports = new Map<string, ReportData>();
+  private tasks = new Map<string, TaskData>();
+  private taskSequence = 0;
+
+  constructor(seed: { reports?: ReportData[]; tasks?: TaskData[] } = {}) {
+    seed.reports?.forEach(report => this.reports.set(report.report_id, structuredClone(report)));
+    seed.tasks?.forEach(task => {
+      const id = task.id || this.nextTaskId();
+      this.tasks.set(id, structuredClone({ ...task, id }));
+    });
+  }
+
+  private nextTaskId(): string {
+    this.taskSequence += 1;
+    return `task_${this.taskSequence}`;
+  }
+
+  async insertReport(report: ReportData): Promise<ReportData> {
+    this.reports.set(report.report_id, structuredClone(report));
+    return structuredClone(report);
+  }
+
+  async getReport(reportId: string): Promise<ReportData | null> {
+    const report = this.reports.get(reportId);
+    return report ? structuredClone(report) : null;
+  }
+
+  async queryReports(query: ReportQuery = {}): Promise<ReportData[]> {
+    return applyReportQuery([...this.reports.values()], query).map(report => structuredClone(report));
+  }
+
+  async updateReport(reportId: string, updates: Partial<ReportData>): Promise<boolean> {
+    const existing = this.reports.get(reportId);
+    if (!existing) return false;
+    this.reports.set(reportId, structuredClone({ ...existing, ...updates, report_id: reportId }));
+    return true;
+  }
+
+  async reassignReports(oldUserId: string, newUserId: string): Promise<void> {
+    this.reports.forEach(report => {
+      if (report.user_id === oldUserId) report.user_id = newUserId;
+    });
+  }
+
+  async listCities(): Promise<string[]> {
+    return uniqueCities([...this.reports.values()]);
+  }
+
+  async getProofStatistics(): Promise<ProofStatistics> {
+    return computeProofStatistics([...this.reports.values()]);
+  }
+
+  async insertTask(task: Omit<TaskData, 'id'>): Promise<TaskData> {
+    const newTask: TaskData = { ...task, id: this.nextTaskId() };
+    this.tasks.set(newTask.id as string, structuredClone(newTask));
+    return structuredClone(newTask);
+  }
+
+  async queryTasks(query: TaskQuery = {}): Promise<TaskData[]> {
+    return applyTaskQuery([...this.tasks.values()], query).map(task => structuredClone(task));
+  }
+
+  async updateTask(taskId: string, updates: Partial<TaskData>): Promise<boolean> {
+    const existing = this.tasks.get(taskId);
+    if (!existing) return false;
+    this.tasks.set(taskId, structuredClone({ ...existing, ...updates, id: taskId }));
+    return true;
+  }
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    return this.tasks.delete(taskId);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Active repository selection
+// ---------------------------------------------------------------------------
+
+const isSupabaseConfigured = (): boolean =>
+  !!(import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY);
+
+const createLocalRepository = (): ReportRepository =>
+  isIndexedDBAvailable() ? new IndexedDBReportRepository() : new InMemoryReportRepository();
+
+const createRepository = (type: ReportStoreType): ReportRepository => {
+  switch (type) {
+    case 'supabase':
+      return new SupabaseReportRepository();
+    case 'indexeddb':
+      return new IndexedDBReportRepository();
+    case 'memory':
+      return new InMemoryReportRepository();
+  }
+};
+
+const resolveStoreType = (): ReportStoreType => {
+  const configured = import.meta.env.VITE_REPORT_STORE as ReportStoreType | undefined;
+  if (configured === 'supabase' || configured === 'indexeddb' || configured === 'memory') {
+    return configured;
+  }
+  if (isSupabaseConfigured()) return 'supabase';
+  return isIndexedDBAvailable() ? 'indexeddb' : 'memory';
+};
+
+let activeRepository: ReportRepository | null = null;
+let localRepository: ReportRepository | null = null;
+
+/**
+ * Get the repository all report, task and proof operations go through
+ */
+export const getReportRepository = (): ReportRepository => {
+  if (!activeRepository) {
+    activeRepository = createRepository(resolveStoreType());
+    console.log(`Report storage backend: ${activeRepository.type}`);
+  }
+  return activeRepository;
+};
+
+/**
+ * Get the on-device repository used as a mirror and read fallback when the
+ * active repository is remote. Same instance as the active one when that is local.
+ */
+export const getLocalReportRepository = (): ReportRepository => {
+  if (!localRepository) {
+    const active = getReportRepository();
+    localRepository = active.type === 'supabase' ? createLocalRepository() : active;
+  }
+  return localRepository;
+};
+
+/**
+ * Swap the storage backend, e.g. an InMemoryReportRepository for offline tests
+ * @param repository - New active repository
+ * @param local - Local mirror/fallback; defaults to the repository itself
+ */
+export const setReportRepository = (repository: ReportRepository, local: ReportRepository = repository): void => {
+  activeRepository = repository;
+  localRepository = local;
+};
@@ -1,6 +1,43 @@
 import { supabase } from './supabase.ts';
 import { reverseGeocode } from './GeocodingService';
+import {
+  classifyCoastalZone,
+  getCoastalZoneBounds,
+  getCoastalZoneIds,
+  getZonePlaceName,
+  resolveReportZone,
+  type CoastalZoneFilter
+} from './CoastalZoneService';
 import { proofOfReportService, type ProofCreationResult } from './ProofOfReportServiceSimplified';
+import {
+  getReportRepository,
+  getLocalReportRepository,
+  type ReportRepository,
+  type ReportQuery,
+  type ProofStatistics
+} from './ReportRepository';
+import { reportOutbox, type OutboxEntry, type OutboxSyncState } from './ReportOutboxService';
+import { notifyReportCreated, notifyReportUpdated, toGroupingReport } from './ReportGroupingHooks';
+import { prepareMedia, MEDIA_LIMITS, SUPPORTED_VIDEO_TYPES, type PreparedMedia } from './MediaService';
+import {
+  assessEvidence,
+  requiresEvidenceReview,
+  type EvidenceAssessment,
+  type EvidenceFlag,
+  type KnownMediaHash
+} from './EvidenceForensicsService';
+import {
+  applyTransition,
+  createInitialHistoryEntry,
+  getWorkflowForHazardType,
+  normalizeStatus,
+  WorkflowTransitionError,
+  type ReportStatus,
+  type StatusHistoryEntry,
+  type TransitionRequest
+} from './ReportWorkflowService';
+import { fromGeolocationPosition, type LocationQuality } from './LocationQualityService';
+import { getHazardTypeFromCategory } from '../utils/hazardCategories';
 
 // List of major cities for mock data
 export const majorCities = [
@@ -12,41 +49,79 @@ export const majorCities = [
   "Singapore", "Dubai", "Sydney", "Toronto", "Berlin"
 ];
 
+// Ocean hazard categories offered when reporting
+export const REPORT_CATEGORIES = ['Tsunami Events', 'Storm Surge', 'High Waves', 'Swell Surges', 'Coastal Currents', 'Coastal Erosion', 'Marine Debris', 'Unusual Sea Behavior', 'Coastal Infrastructure', 'Others'];
+
+// Photo or video evidence attached to a report
+export interface ReportAttachment {
+  id: string;
+  kind: 'image' | 'video';
+  url: string;
+  poster_url?: string | null; // JPEG frame shown as the thumbnail of a video
+  mime_type: string;
+  width?: number;
+  height?: number;
+  duration_s?: number;
+  size_bytes: number;
+  captured_at?: string | null; // EXIF capture time
+  gps?: { lat: number; lng: number; altitude?: number } | null; // EXIF GPS position
+  perceptual_hash?: string | null; // dHash used to detect photos reused across reports
+}
+
+// Where a report was made; the quality fields are absent on reports saved before they were recorded
+export type ReportLocation = {
+  lat: number;
+  lng: number;
+  address: string;
+} & Partial<LocationQuality>;
+
 // Report data model
 export interface ReportData {
+  id?: string; // Primary key assigned by the server once synced
   report_id: string;
   title: string;
   description: string;
   category: string;
   hazard_type: string; // Ocean hazard type classification
-  location: {
-    lat: number;
-    lng: number;
-    address: string;
-  };
+  location: ReportLocation;
   city: string; // Add city field
+  coastal_zone?: string | null; // Id of the coastal district or sea zone containing the location (see CoastalZoneService)
   priority: 'Low' | 'Medium' | 'High' | 'Urgent'; // Add priority field
-  image_url: string;
-  status: 'Submitted' | 'Reviewed' | 'Verified';
+  image_url: string; // First photo, kept for older clients and list views
+  attachments?: ReportAttachment[]; // All photos and videos in capture order
+  status: ReportStatus; // One of the states of the report's workflow (see ReportWorkflowService)
   created_at: string;
   updated_at: string;
   user_id: string;
   // Smart Camera fields
   is_smart_camera_report?: boolean; // Flag for Smart Camera generated reports
-  ai_confidence?: number; // AI confidence score for Smart Camera reports
-  smart_camera_capture_id?: string; // Reference to Smart Camera capture
+  ai_confidence?: number | null; // AI confidence score for Smart Camera reports
+  smart_camera_capture_id?: string | null; // Reference to Smart Camera capture
+  // Ocean-specific metadata for SagarSetu
+  wave_height_estimated?: number | null;
+  wave_height_category?: string | null;
+  water_level_change?: string | null;
+  current_strength?: string | null;
+  tide_information?: string | null;
+  wind_speed_kmh?: number | null;
+  wind_direction?: string | null;
+  visibility_km?: number | null;
+  water_temperature_celsius?: number | null;
+  safety_threat_level?: string;
+  people_at_risk_count?: number;
+  infrastructure_impact?: string;
+  fishing_activity_affected?: boolean;
+  shipping_lanes_affected?: boolean;
   // Proof-of-report fields
-  proof_cid?: string;
-  proof_timestamp?: string;
+  proof_cid?: string | null;
+  proof_timestamp?: string | null;
   proof_created_at?: string;
-  proof_verification_status?: 'pending' | 'verified' | 'failed';
+  proof_verification_status?: 'pending' | 'verified' | 'failed' | null;
   // Status history for timeline
-  status_history?: Array<{
-    status: 'Submitted' | 'Reviewed' | 'Verified';
-    timestamp: string;
-    actor?: string;
-    notes?: string;
-  }>;
+  status_history?: StatusHistoryEntry[];
+  // Media forensics (see EvidenceForensicsService); null when no media is attached
+  evidence_integrity?: number | null;
+  evidence_flags?: EvidenceFlag[];
 }
 
 // Task data model
@@ -72,6 +147,7 @@ interface ReportSubmissionResponse {
   proof_cid?: string;
   proof_status?: 'created' | 'failed' | 'not_attempted';
   proof_error?: string;
+  sync_state?: OutboxSyncState;
 }
 
 // Generate a unique reference number for each report
@@ -102,31 +178,8 @@ export const generateReferenceNumber = (category: string): string => {
   return `SG-${prefix}-${dateStr}-${randomNum}`;
 };
 
-// Map ocean hazard categories to hazard types for database consistency
-export const getHazardTypeFromCategory = (category: string): string => {
-  const categoryToHazardType: { [key: string]: string } = {
-    'Tsunami Events': 'tsunami',
-    'Storm Surge': 'storm_surge', 
-    'High Waves': 'high_waves',
-    'Swell Surges': 'swell_surge',
-    'Coastal Currents': 'coastal_current',
-    'Coastal Erosion': 'coastal_erosion',
-    'Marine Debris': 'marine_debris',
-    'Unusual Sea Behavior': 'unusual_sea_behavior',
-    'Coastal Infrastructure': 'infrastructure_damage',
-    'Others': 'general_hazard'
-  };
-
-  // Make case-insensitive lookup
-  const normalizedCategory = Object.keys(categoryToHazardType).find(
-    key => key.toLowerCase() === category.toLowerCase()
-  ) || category;
-  
-  return categoryToHazardType[normalizedCategory] || 'general_hazard';
-};
-
-// Convert image data URL to a file and upload it to Supabase Storage
-const uploadImage = async (imageData: string, reportId: string): Promise<string> => {
+// Upload a photo, video or poster frame to Supabase Storage
+const uploadMedia = async (blob: Blob, reportId: string, fileName: string): Promise<string> => {
   try {
     // Check if Supabase is configured
     if (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY) {
@@ -134,36 +187,16 @@ const uploadImage = async (imageData: string, reportId: string): Promise<string>
       return `https://via.placeholder.com/800x600?text=Image+${reportId}`;
     }
 
-    // Convert base64 to blob
-    const base64Data = imageData.split(',')[1];
-    if (!base64Data) {
-      throw new Error('Invalid image data format');
-    }
+    const filePath = `reports/${reportId}/${fileName}`;
 
-    const byteCharacters = atob(base64Data);
-    const byteArrays = [];
-    for (let offset = 0; offset < byteCharacters.length; offset += 512) {
-      const slice = byteCharacters.slice(offset, offset + 512);
-      const byteNumbers = new Array(slice.length);
-      for (let i = 0; i < slice.length; i++) {
-        byteNumbers[i] = slice.charCodeAt(i);
-      }
-      const byteArray = new Uint8Array(byteNumbers);
-      byteArrays.push(byteArray);
-    }
-    const blob = new Blob(byteArrays, { type: 'image/jpeg' });
-
-    // Create unique filename with timestamp
-    const timestamp = Date.now();
-    const fileName = `reports/${reportId}/${timestamp}.jpg`;
-
-    console.log('Uploading image to Supabase storage:', fileName);
+    console.log('Uploading media to Supabase storage:', filePath);
 
     // Upload to Supabase Storage
     const { error } = await supabase.storage
       .from('report-images')
-      .upload(fileName, blob, {
+      .upload(filePath, blob, {
         cacheControl: '3600',
+        contentType: blob.type || undefined,
         upsert: false
       });
 
@@ -176,8 +209,8 @@ const uploadImage = async (imageData: string, reportId: string): Promise<string>
         try {
           const { error: createError } = await supabase.storage.createBucket('report-images', {
             public: true,
-            allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
-            fileSizeLimit: 10485760 // 10MB
+            allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', ...SUPPORTED_VIDEO_TYPES],
+            fileSizeLimit: MEDIA_LIMITS.maxVideoBytes
           });
 
           if (createError) {
@@ -187,8 +220,9 @@ const uploadImage = async (imageData: string, reportId: string): Promise<string>
             // Retry upload after bucket creation
             const { error: retryError } = await supabase.storage
               .from('report-images')
-              .upload(fileName, blob, {
+              .upload(filePath, blob, {
                 cacheControl: '3600',
+                contentType: blob.type || undefined,
                 upsert: false
               });
 
@@ -199,9 +233,9 @@ const uploadImage = async (imageData: string, reportId: string): Promise<string>
             // Get public URL for the uploaded image
             const { data: urlData } = supabase.storage
               .from('report-images')
-              .getPublicUrl(fileName);
+              .getPublicUrl(filePath);
 
-            console.log('Image uploaded successfully:', urlData.publicUrl);
+            console.log('Media uploaded successfully:', urlData.publicUrl);
             return urlData.publicUrl;
           }
         } catch (bucketError) {
@@ -215,17 +249,17 @@ const uploadImage = async (imageData: string, reportId: string): Promise<string>
     // Get public URL for the uploaded image
     const { data: urlData } = supabase.storage
       .from('report-images')
-      .getPublicUrl(fileName);
+      .getPublicUrl(filePath);
 
     if (!urlData.publicUrl) {
-      throw new Error('Failed to get public URL for uploaded image');
+      throw new Error('Failed to get public URL for uploaded media');
     }
 
-    console.log('Image uploaded successfully:', urlData.publicUrl);
+    console.log('Media uploaded successfully:', urlData.publicUrl);
     return urlData.publicUrl;
 
   } catch (error) {
-    console.error('Error uploading image:', error);
+    console.error('Error uploading media:', error);
 
     // Multiple fallback options
     try {
@@ -233,7 +267,7 @@ const uploadImage = async (imageData: string, reportId: string): Promise<string>
       if (import.meta.env.VITE_CLOUDINARY_CLOUD_NAME &&
           import.meta.env.VITE_CLOUDINARY_UPLOAD_PRESET) {
         console.log('Attempting Cloudinary upload as fallback...');
-        const cloudinaryUrl = await uploadToCloudinary(imageData, reportId);
+        const cloudinaryUrl = await uploadToCloudinary(blob, reportId);
         return cloudinaryUrl;
       }
     } catch (cloudinaryError) {
@@ -247,14 +281,15 @@ const uploadImage = async (imageData: string, reportId: string): Promise<string>
 };
 
 // Fallback upload to Cloudinary
-const uploadToCloudinary = async (imageData: string, reportId: string): Promise<string> => {
+const uploadToCloudinary = async (blob: Blob, reportId: string): Promise<string> => {
+  const resourceType = blob.type.startsWith('video/') ? 'video' : 'image';
   const formData = new FormData();
-  formData.append('file', dataURLToBlob(imageData));
+  formData.append('file', blob);
   formData.append('upload_preset', import.meta.env.VITE_CLOUDINARY_UPLOAD_PRESET);
   formData.append('public_id', `jalBandhu-${reportId}-${Date.now()}`);
 
   const response = await fetch(
-    `https://api.cloudinary.com/v1_1/${import.meta.env.VITE_CLOUDINARY_CLOUD_NAME}/image/upload`,
+    `https://api.cloudinary.com/v1_1/${import.meta.env.VITE_CLOUDINARY_CLOUD_NAME}/${resourceType}/upload`,
     {
       method: 'POST',
       body: formData
@@ -269,17 +304,32 @@ const uploadToCloudinary = async (imageData: string, reportId: string): Promise<
   return data.secure_url;
 };
 
-// Helper function to convert data URL to blob
-const dataURLToBlob = (dataURL: string): Blob => {
-  const arr = dataURL.split(',');
-  const mime = arr[0].match(/:(.*?);/)?.[1] || 'image/jpeg';
-  const bstr = atob(arr[1]);
-  let n = bstr.length;
-  const u8arr = new Uint8Array(n);
-  while (n--) {
-    u8arr[n] = bstr.charCodeAt(n);
-  }
-  return new Blob([u8arr], { type: mime });
+const isPlaceholderUrl = (url: string): boolean => url.includes('via.placeholder.com');
+
+// Upload a prepared media item (and its poster frame) and describe it as a report attachment
+const uploadAttachment = async (media: PreparedMedia, reportId: string): Promise<ReportAttachment> => {
+  const extension = media.kind === 'video'
+    ? (media.mime_type.split('/')[1] || 'mp4').replace('quicktime', 'mov')
+    : 'jpg';
+  const url = await uploadMedia(media.blob, reportId, `${media.id}.${extension}`);
+  const posterUrl = media.poster
+    ? await uploadMedia(media.poster, reportId, `${media.id}-poster.jpg`)
+    : null;
+
+  return {
+    id: media.id,
+    kind: media.kind,
+    url,
+    poster_url: posterUrl,
+    mime_type: media.mime_type,
+    width: media.width,
+    height: media.height,
+    duration_s: media.duration_s,
+    size_bytes: media.size_bytes,
+    captured_at: media.captured_at || null,
+    gps: media.gps || null,
+    perceptual_hash: media.perceptual_hash || null
+  };
 };
 
 // Generate thumbnail URL from full image URL
@@ -303,6 +353,13 @@ export const getThumbnailUrl = (imageUrl: string, size: number = 300): string =>
 
   // If it's a Cloudinary URL, use Cloudinary transformations
   if (imageUrl.includes('cloudinary')) {
+    // Videos get a JPEG still of their first frame
+    const videoParts = imageUrl.split('/video/upload/');
+    if (videoParts.length === 2) {
+      const posterPath = videoParts[1].replace(/\.[a-z0-9]+$/i, '.jpg');
+      return `${videoParts[0]}/video/upload/w_${size},h_${size},c_fill,so_0/${posterPath}`;
+    }
+
     const urlParts = imageUrl.split('/upload/');
     if (urlParts.length === 2) {
       return `${urlParts[0]}/upload/w_${size},h_${size},c_fill/${urlParts[1]}`;
@@ -313,8 +370,25 @@ export const getThumbnailUrl = (imageUrl: string, size: number = 300): string =>
   return imageUrl;
 };
 
-// Get user's current location
-export const getCurrentLocation = (): Promise<{ lat: number, lng: number, address: string, city: string }> => {
+// Get a report's attachments, treating the image_url of older reports as a single photo
+export const getReportAttachments = (report: ReportData): ReportAttachment[] => {
+  if (report.attachments && report.attachments.length > 0) {
+    return report.attachments;
+  }
+  if (!report.image_url) {
+    return [];
+  }
+  return [{
+    id: `legacy_${report.report_id}`,
+    kind: 'image',
+    url: report.image_url,
+    mime_type: 'image/jpeg',
+    size_bytes: 0
+  }];
+};
+
+// Get user's current location, with the accuracy and source of the fix
+export const getCurrentLocation = (): Promise<ReportLocation & LocationQuality & { city: string }> => {
   return new Promise((resolve, reject) => {
     if (!navigator.geolocation) {
       reject(new Error('Geolocation is not supported by your browser'));
@@ -323,10 +397,11 @@ export const getCurrentLocation = (): Promise<{ lat: number, lng: number, addres
 
     navigator.geolocation.getCurrentPosition(
       async (position) => {
-        try {
-          const lat = position.coords.latitude;
-          const lng = position.coords.longitude;
+        const lat = position.coords.latitude;
+        const lng = position.coords.longitude;
+        const quality = fromGeolocationPosition(position);
 
+        try {
           // Use our free geocoding service instead of Google Maps
           console.log('Getting location using free geocoding service...');
           const geocodeResult = await reverseGeocode(lat, lng);
@@ -335,22 +410,26 @@ export const getCurrentLocation = (): Promise<{ lat: number, lng: number, addres
             lat: lat,
             lng: lng,
             address: geocodeResult.address,
-            city: geocodeResult.city
+            city: geocodeResult.city,
+            ...quality
           });
         } catch (error) {
           console.warn('Geocoding failed, using coordinates only:', error);
           // If geocoding fails, still return the coordinates
           resolve({
-            lat: position.coords.latitude,
-            lng: position.coords.longitude,
-            address: `Lat: ${position.coords.latitude.toFixed(6)}, Lng: ${position.coords.longitude.toFixed(6)}`,
-            city: "Unknown"
+            lat,
+            lng,
+            address: `Lat: ${lat.toFixed(6)}, Lng: ${lng.toFixed(6)}`,
+            city: "Unknown",
+            ...quality
           });
         }
       },
       (error) => {
         reject(error);
-      }
+      },
+      // Ask for satellite positioning; a network fix is still returned indoors
+      { enableHighAccuracy: true, timeout: 20000, maximumAge: 60000 }
     );
   });
 };
@@ -360,7 +439,7 @@ export const submitReport = async (
   title: string,
   description: string,
   category: string,
-  location: { lat: number, lng: number, address: string, city: string },
+  location: ReportLocation & { city: string },
   imageData: string | null,
   userId: string = 'anon_user',
   priority: 'Low' | 'Medium' | 'High' | 'Urgent' = 'Medium',
@@ -384,21 +463,36 @@ export const submitReport = async (
     infrastructureImpact?: string;
     fishingActivityAffected?: boolean;
     shippingLanesAffected?: boolean;
-  }
+  },
+  media: PreparedMedia[] = [] // Additional photos and videos from MediaService.prepareMedia
 ): Promise<ReportSubmissionResponse> => {
   try {
     const reportId = generateReferenceNumber(category);
     const timestamp = new Date().toISOString();
     
-    // Upload image if available
-    let imageUrl = '';
-    if (imageData) {
-      imageUrl = await uploadImage(imageData, reportId);
+    const repository = getReportRepository();
+    const localRepository = getLocalReportRepository();
+    const isRemoteStore = localRepository !== repository;
+
+    // The legacy single image becomes the first attachment
+    const allMedia = imageData ? [await prepareMedia(imageData), ...media] : media;
+    if (allMedia.length > MEDIA_LIMITS.maxAttachments) {
+      throw new Error(`A report can have at most ${MEDIA_LIMITS.maxAttachments} attachments`);
+    }
+
+    // Upload media if available; while offline the outbox uploads it later
+    const attachments: ReportAttachment[] = [];
+    const pendingMedia: PreparedMedia[] = [];
+    if (isRemoteStore && !navigator.onLine) {
+      pendingMedia.push(...allMedia);
+    } else {
+      for (const item of allMedia) {
+        attachments.push(await uploadAttachment(item, reportId));
+      }
     }
 
     // Standardize category case to match our ocean hazard categories
-    const standardCategories = ['Tsunami Events', 'Storm Surge', 'High Waves', 'Swell Surges', 'Coastal Currents', 'Coastal Erosion', 'Marine Debris', 'Unusual Sea Behavior', 'Coastal Infrastructure', 'Others'];
-    const normalizedCategory = standardCategories.find(
+    const normalizedCategory = REPORT_CATEGORIES.find(
       c => c.toLowerCase() === category.toLowerCase()
     ) || category;
     
@@ -412,7 +506,22 @@ export const submitReport = async (
         city = addressParts[addressParts.length - 2];
       }
     }
+
+    // File the report under its coastal district or sea zone; at sea or in a
+    // village without a geocoded town, the zone also names the place
+    const coastalZone = classifyCoastalZone(location.lat, location.lng);
+    if (city === "Unknown" && coastalZone) {
+      city = getZonePlaceName(coastalZone);
+    }
     
+    // Check the media against the claimed time and place before anything is published
+    const evidence = await assessReportEvidence(allMedia, {
+      report_id: reportId,
+      created_at: timestamp,
+      location,
+      live_capture_ids: imageData ? [allMedia[0].id] : []
+    });
+
     // Prepare proof generation variables
     let proofCid: string | undefined;
     let proofStatus: 'created' | 'failed' | 'not_attempted' = 'not_attempted';
@@ -424,7 +533,13 @@ export const submitReport = async (
       console.log(`Creating proof-of-report for ${reportId} in ${city}...`);
       const proofResult: ProofCreationResult = await proofOfReportService.createProofOfReport(
         reportId, 
-        city
+        city,
+        evidence ? {
+          integrity_score: evidence.score,
+          flags: evidence.flags.map(flag => flag.code),
+          content_hashes: evidence.content_hashes,
+          perceptual_hashes: evidence.perceptual_hashes
+        } : undefined
       );
       
       if (proofResult.success && proofResult.cid) {
@@ -444,17 +559,22 @@ export const submitReport = async (
       // Continue with report submission even if proof fails
     }
     
-    const reportData = {
+    const hazardType = getHazardTypeFromCategory(normalizedCategory);
+    const workflow = getWorkflowForHazardType(hazardType);
+
+    const reportData: ReportData = {
       report_id: reportId,
       title,
       description,
       category: normalizedCategory, // Use the normalized category with proper case
-      hazard_type: getHazardTypeFromCategory(normalizedCategory), // Map category to hazard type
+      hazard_type: hazardType, // Map category to hazard type
       location,
       city, // Add city to report data
+      coastal_zone: coastalZone ? coastalZone.id : null,
       priority, // Add priority to report data
-      image_url: imageUrl,
-      status: 'Submitted',
+      image_url: attachments.find(attachment => attachment.kind === 'image')?.url || '',
+      attachments,
+      status: workflow.initialState,
       created_at: timestamp,
       updated_at: timestamp,
       user_id: userId,
@@ -481,46 +601,43 @@ export const submitReport = async (
       proof_cid: proofCid || null,
       proof_timestamp: proofTimestamp || null,
       proof_verification_status: proofCid ? 'pending' : null,
+      // Media forensics
+      evidence_integrity: evidence ? evidence.score : null,
+      evidence_flags: evidence ? evidence.flags : [],
       // Initialize status history
-      status_history: [{
-        status: 'Submitted',
-        timestamp: timestamp,
+      status_history: [createInitialHistoryEntry(workflow, {
+        timestamp,
         actor: smartCameraData?.isSmartCamera ? 'Smart Camera System' : 'Citizen',
+        role: smartCameraData?.isSmartCamera ? 'system' : 'citizen',
         notes: smartCameraData?.isSmartCamera 
           ? `Auto-detected civic issue (AI confidence: ${smartCameraData.aiConfidence ? (smartCameraData.aiConfidence * 100).toFixed(1) + '%' : 'N/A'})`
           : 'Initial grievance submission'
-      }]
+      })]
     };
 
-    // Insert into Supabase if configured
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      console.log('Submitting report to Supabase:', reportData.report_id);
-      const { error } = await supabase
-        .from('reports')
-        .insert([reportData])
-        .select();
-
-      if (error) {
-        console.error('Supabase insert error:', error);
-        // Don't throw - continue with localStorage fallback
-      } else {
-        console.log('Report successfully submitted to Supabase with proof data');
-      }
-    } else {
-      console.log('Supabase not configured, using localStorage only');
-    }
-    
-    // Always save to localStorage for backup and local development
+    // Save locally first so the report survives a lost connection
+    let syncState: OutboxSyncState | undefined;
     try {
-      const existingReports = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      console.log(`Found ${existingReports.length} existing reports in localStorage`);
-      existingReports.push(reportData);
-      localStorage.setItem('jalBandhu_reports', JSON.stringify(existingReports));
-      console.log(`Report ${reportData.report_id} saved to localStorage with proof data`);
+      await localRepository.insertReport(reportData);
+      console.log(`Report ${reportData.report_id} saved to ${localRepository.type} store with proof data`);
     } catch (e) {
-      console.error('Error saving to localStorage:', e);
+      console.error(`Error saving to ${localRepository.type} store:`, e);
+      if (!isRemoteStore) throw e;
+    }
+
+    // Remote stores go through the outbox, which retries until the server has it
+    if (isRemoteStore) {
+      console.log(`Queueing report for ${repository.type} store:`, reportData.report_id);
+      await reportOutbox.enqueue(reportData, pendingMedia);
+      await reportOutbox.flush();
+      syncState = (await reportOutbox.getSyncStates())[reportId];
     }
 
+    // Duplicate detection runs in the background and never delays the submission
+    notifyReportCreated(toGroupingReport(reportData), userId).catch(error =>
+      console.warn(`Grouping analysis for ${reportId} failed:`, error)
+    );
+
     // Return response with proof information
     return {
       success: true,
@@ -530,7 +647,8 @@ export const submitReport = async (
         : 'Report submitted successfully (proof creation failed but report is saved)',
       proof_cid: proofCid,
       proof_status: proofStatus,
-      proof_error: proofError
+      proof_error: proofError,
+      sync_state: syncState
     };
   } catch (error) {
     console.error('Error submitting report:', error);
@@ -538,214 +656,234 @@ export const submitReport = async (
   }
 };
 
+// Number of recent reports whose media is checked for reuse
+const REUSE_LOOKBACK_REPORTS = 500;
+
+// Run the media forensics checks, comparing against media on recent reports
+const assessReportEvidence = async (
+  media: PreparedMedia[],
+  context: Parameters<typeof assessEvidence>[1]
+): Promise<EvidenceAssessment | null> => {
+  if (media.length === 0) return null;
+
+  let knownHashes: KnownMediaHash[] = [];
+  try {
+    const recentReports = await withLocalFallback(repository =>
+      repository.queryReports({ orderBy: 'created_at', limit: REUSE_LOOKBACK_REPORTS })
+    );
+    knownHashes = recentReports.flatMap(report =>
+      (report.attachments || [])
+        .filter(attachment => attachment.perceptual_hash)
+        .map(attachment => ({ report_id: report.report_id, hash: attachment.perceptual_hash as string }))
+    );
+  } catch (error) {
+    console.warn('Could not load recent media hashes, skipping reuse check:', error);
+  }
+
+  try {
+    const evidence = await assessEvidence(media, context, knownHashes);
+    if (evidence && evidence.flags.length > 0) {
+      console.log(`Evidence checks for ${context.report_id}: score ${evidence.score}`, evidence.flags.map(flag => flag.code));
+    }
+    return evidence;
+  } catch (error) {
+    // Forensics is advisory; never block a hazard report on it
+    console.error('Evidence checks failed:', error);
+    return null;
+  }
+};
+
+// Run an operation against the active store, retrying against the local store if it fails
+const withLocalFallback = async <T>(operation: (repository: ReportRepository) => Promise<T>): Promise<T> => {
+  const repository = getReportRepository();
+  try {
+    return await operation(repository);
+  } catch (error) {
+    const localRepository = getLocalReportRepository();
+    if (localRepository === repository) throw error;
+
+    console.error(`${repository.type} store error, falling back to ${localRepository.type}:`, error);
+    return operation(localRepository);
+  }
+};
+
+// Push a queued report to the active store and return the server's copy
+const pushQueuedReport = async (entry: OutboxEntry): Promise<ReportData> => {
+  const repository = getReportRepository();
+  let report = entry.report;
+
+  // Upload media that was captured while offline; skip items an earlier attempt already uploaded
+  const uploadedIds = new Set((report.attachments || []).map(attachment => attachment.id));
+  for (const media of entry.pending_media) {
+    if (uploadedIds.has(media.id)) continue;
+
+    const attachment = await uploadAttachment(media, report.report_id);
+    if (isPlaceholderUrl(attachment.url) || (attachment.poster_url && isPlaceholderUrl(attachment.poster_url))) {
+      throw new Error('Media upload failed');
+    }
+
+    const attachments = [...(report.attachments || []), attachment];
+    report = {
+      ...report,
+      attachments,
+      image_url: report.image_url || attachments.find(item => item.kind === 'image')?.url || ''
+    };
+    // Persist progress so a retry does not upload the same file twice
+    await reportOutbox.updateReport(entry.report_id, report);
+  }
+
+  try {
+    return await repository.insertReport(report);
+  } catch (error) {
+    // An earlier attempt may have reached the server before the connection dropped
+    const existing = await repository.getReport(report.report_id);
+    if (existing) return existing;
+    throw error;
+  }
+};
+
+reportOutbox.configure({
+  push: pushQueuedReport,
+  fetch: reportId => getReportRepository().getReport(reportId),
+  applyLocal: async report => {
+    const localRepository = getLocalReportRepository();
+    if (localRepository === getReportRepository()) return;
+    const updated = await localRepository.updateReport(report.report_id, report);
+    if (!updated) await localRepository.insertReport(report);
+  }
+});
+
 // Get all reports for the current user
 export const getUserReports = async (userId: string = 'anon_user'): Promise<ReportData[]> => {
   try {
-    // Try to get from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      console.log(`Fetching reports for user: ${userId} from Supabase`);
-      const { data, error } = await supabase
-        .from('reports')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-      
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
-      
-      console.log(`Found ${data?.length || 0} reports in Supabase`);
-      return data as ReportData[];
-    } else {
-      console.log('Supabase credentials not found, using localStorage');
+    console.log(`Fetching reports for user: ${userId}`);
+    const reports = await withLocalFallback(repository => repository.queryReports({ userId }));
+
+    // Include reports still waiting in the outbox
+    const localRepository = getLocalReportRepository();
+    if (localRepository !== getReportRepository()) {
+      const knownIds = new Set(reports.map(report => report.report_id));
+      const localReports = await localRepository.queryReports({ userId });
+      reports.push(...localReports.filter(report => !knownIds.has(report.report_id)));
     }
-    
-    // Fallback to localStorage
-    const storageData = localStorage.getItem('jalBandhu_reports');
-    console.log(`LocalStorage data exists: ${!!storageData}`);
-    const allReports: ReportData[] = JSON.parse(storageData || '[]');
-    const filteredReports = allReports.filter(report => report.user_id === userId);
-    console.log(`Found ${filteredReports.length} reports in localStorage for user ${userId}`);
-    return filteredReports;
+
+    console.log(`Found ${reports.length} reports for user ${userId}`);
+    return reports;
   } catch (error) {
     console.error('Error fetching user reports:', error);
-    
-    // Final fallback
-    try {
-      const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      return allReports.filter(report => report.user_id === userId);
-    } catch (e) {
-      console.error('Failed to parse localStorage data:', e);
-      return [];
-    }
+    return [];
   }
 };
 
+// Get reports matching any combination of filters (city, category, status, bounds, time)
+// Errors are passed on, so an export never silently comes out empty
+export const getFilteredReports = async (query: ReportQuery): Promise<ReportData[]> => {
+  const reports = await withLocalFallback(repository => repository.queryReports(query));
+  console.log(`Found ${reports.length} reports matching filters`);
+  return reports;
+};
+
 // Get all reports for admin by category
 export const getReportsByCategory = async (category: string): Promise<ReportData[]> => {
   try {
-    // Try to get from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      console.log(`Fetching reports for category: ${category} from Supabase`);
-      const { data, error } = await supabase
-        .from('reports')
-        .select('*')
-        .ilike('category', category) // Case-insensitive match
-        .order('created_at', { ascending: false });
-      
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
-      
-      console.log(`Found ${data?.length || 0} reports for category ${category} in Supabase`);
-      return data as ReportData[];
-    } else {
-      console.log('Supabase credentials not found, using localStorage');
-    }
-    
-    // Fallback to localStorage with case-insensitive comparison
-    const storageData = localStorage.getItem('jalBandhu_reports');
-    console.log(`LocalStorage data exists: ${!!storageData}`);
-    const allReports: ReportData[] = JSON.parse(storageData || '[]');
-    const filteredReports = allReports.filter(report => 
-      report.category.toLowerCase() === category.toLowerCase()
-    );
-    console.log(`Found ${filteredReports.length} reports in localStorage for category ${category}`);
-    return filteredReports;
+    console.log(`Fetching reports for category: ${category}`);
+    const reports = await withLocalFallback(repository => repository.queryReports({ category }));
+    console.log(`Found ${reports.length} reports for category ${category}`);
+    return reports;
   } catch (error) {
     console.error('Error fetching category reports:', error);
-    
-    // Final fallback
-    try {
-      const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      return allReports.filter(report => 
-        report.category.toLowerCase() === category.toLowerCase()
-      );
-    } catch (e) {
-      console.error('Failed to parse localStorage data:', e);
-      return [];
-    }
+    return [];
   }
 };
 
 // Get all reports for admin by city
 export const getReportsByCity = async (city: string): Promise<ReportData[]> => {
   try {
-    // Try to get from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      console.log(`Fetching reports for city: ${city} from Supabase`);
-      const { data, error } = await supabase
-        .from('reports')
-        .select('*')
-        .ilike('city', city) // Case-insensitive match
-        .order('created_at', { ascending: false });
-      
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
-      
-      console.log(`Found ${data?.length || 0} reports for city ${city} in Supabase`);
-      return data as ReportData[];
-    } else {
-      console.log('Supabase credentials not found, using localStorage');
-    }
-    
-    // Fallback to localStorage with case-insensitive comparison
-    const storageData = localStorage.getItem('jalBandhu_reports');
-    console.log(`LocalStorage data exists: ${!!storageData}`);
-    const allReports: ReportData[] = JSON.parse(storageData || '[]');
-    const filteredReports = allReports.filter(report => 
-      report.city && report.city.toLowerCase().includes(city.toLowerCase())
-    );
-    console.log(`Found ${filteredReports.length} reports in localStorage for city ${city}`);
-    return filteredReports;
+    console.log(`Fetching reports for city: ${city}`);
+    const reports = await withLocalFallback(repository => repository.queryReports({ city }));
+    console.log(`Found ${reports.length} reports for city ${city}`);
+    return reports;
   } catch (error) {
     console.error('Error fetching city reports:', error);
-    
-    // Final fallback
-    try {
-      const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      return allReports.filter(report => 
-        report.city && report.city.toLowerCase().includes(city.toLowerCase())
-      );
-    } catch (e) {
-      console.error('Failed to parse localStorage data:', e);
-      return [];
+    return [];
+  }
+};
+
+// Get reports in the given coastal zones, or in the zones matching a state/district filter,
+// optionally narrowed by other filters. Reports stored without a zone (saved before zones
+// were assigned and not yet backfilled) are classified from their location
+export const getReportsByCoastalZone = async (
+  zones: string[] | CoastalZoneFilter,
+  query: Omit<ReportQuery, 'coastalZones' | 'withoutCoastalZone' | 'limit' | 'offset'> = {}
+): Promise<ReportData[]> => {
+  try {
+    const coastalZones = Array.isArray(zones) ? zones : getCoastalZoneIds(zones);
+    if (coastalZones.length === 0) return [];
+
+    // Unzoned candidates only need checking inside the zones' combined bounding box
+    const zoneBounds = coastalZones.map(getCoastalZoneBounds).filter(bounds => bounds !== null);
+    let bounds: ReportQuery['bounds'] = zoneBounds.length === 0 ? undefined : {
+      north: Math.max(...zoneBounds.map(box => box.north)),
+      south: Math.min(...zoneBounds.map(box => box.south)),
+      east: Math.max(...zoneBounds.map(box => box.east)),
+      west: Math.min(...zoneBounds.map(box => box.west))
+    };
+    if (bounds && query.bounds) {
+      bounds = {
+        north: Math.min(bounds.north, query.bounds.north),
+        south: Math.max(bounds.south, query.bounds.south),
+        east: Math.min(bounds.east, query.bounds.east),
+        west: Math.max(bounds.west, query.bounds.west)
+      };
     }
+
+    const [zoned, unzoned] = await Promise.all([
+      withLocalFallback(repository => repository.queryReports({ ...query, coastalZones })),
+      bounds && bounds.south <= bounds.north && bounds.west <= bounds.east
+        ? withLocalFallback(repository => repository.queryReports({ ...query, bounds, withoutCoastalZone: true }))
+        : Promise.resolve([])
+    ]);
+
+    const orderBy = query.orderBy || 'created_at';
+    const reports = [
+      ...zoned,
+      ...unzoned.filter(report => coastalZones.includes(resolveReportZone(report) || ''))
+    ].sort((a, b) => new Date(b[orderBy]).getTime() - new Date(a[orderBy]).getTime());
+    console.log(`Found ${reports.length} reports in ${coastalZones.length} coastal zones`);
+    return reports;
+  } catch (error) {
+    console.error('Error fetching coastal zone reports:', error);
+    return [];
   }
 };
 
 // Get a specific report by ID
 export const getReportById = async (reportId: string): Promise<ReportData | null> => {
   try {
-    // Try to get from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { data, error } = await supabase
-        .from('reports')
-        .select('*')
-        .eq('report_id', reportId)
-        .single();
-      
-      if (error) throw error;
-      return data as ReportData;
-    }
-    
-    // Fallback to localStorage
-    const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-    const report = allReports.find(r => r.report_id === reportId);
-    return report || null;
+    const report = await withLocalFallback(repository => repository.getReport(reportId));
+    if (report) return report;
+
+    // A report submitted while the remote insert failed only exists locally
+    const localRepository = getLocalReportRepository();
+    return localRepository !== getReportRepository()
+      ? await localRepository.getReport(reportId)
+      : null;
   } catch (error) {
     console.error('Error fetching report:', error);
-    
-    // Final fallback
-    try {
-      const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      const report = allReports.find(r => r.report_id === reportId);
-      return report || null;
-    } catch {
-      return null;
-    }
+    return null;
   }
 };
 
 // Get list of cities from all reports (for autocomplete)
 export const getCityList = async (): Promise<string[]> => {
   try {
-    // Try to get from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { data, error } = await supabase
-        .from('reports')
-        .select('city');
-      
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
-      
-      // Extract unique cities
-      const cities = [...new Set(data?.map(report => report.city).filter(Boolean))];
-      
-      // If we don't have many cities, add some from our major cities list
-      if (cities.length < 5) {
-        return [...cities, ...majorCities.slice(0, 10)];
-      }
-      
-      return cities as string[];
-    }
-    
-    // Fallback to localStorage
-    const storageData = localStorage.getItem('jalBandhu_reports');
-    const allReports: ReportData[] = JSON.parse(storageData || '[]');
-    const cities = [...new Set(allReports.map(report => report.city).filter(Boolean))];
-    
+    const cities = await withLocalFallback(repository => repository.listCities());
+
     // If we don't have many cities, add some from our major cities list
     if (cities.length < 5) {
       return [...cities, ...majorCities.slice(0, 10)];
     }
-    
+
     return cities;
   } catch (error) {
     console.error('Error fetching city list:', error);
@@ -757,79 +895,27 @@ export const getCityList = async (): Promise<string[]> => {
 // Get recent reports for the homepage
 export const getRecentReports = async (limit: number = 5): Promise<ReportData[]> => {
   try {
-    // Try to get from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      console.log(`Fetching recent reports from Supabase (limit: ${limit})`);
-      const { data, error } = await supabase
-        .from('reports')
-        .select('*')
-        .order('updated_at', { ascending: false })
-        .limit(limit);
-      
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
-      
-      console.log(`Found ${data?.length || 0} recent reports in Supabase`);
-      return data as ReportData[];
-    } else {
-      console.log('Supabase credentials not found, using localStorage');
-    }
-    
-    // Fallback to localStorage
-    const storageData = localStorage.getItem('jalBandhu_reports');
-    console.log(`LocalStorage data exists: ${!!storageData}`);
-    const allReports: ReportData[] = JSON.parse(storageData || '[]');
-    
-    // Sort by updated_at and take the most recent ones
-    const sortedReports = [...allReports].sort((a, b) => 
-      new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
-    ).slice(0, limit);
-    
-    console.log(`Found ${sortedReports.length} recent reports in localStorage`);
-    return sortedReports;
+    console.log(`Fetching recent reports (limit: ${limit})`);
+    const reports = await withLocalFallback(repository =>
+      repository.queryReports({ orderBy: 'updated_at', limit })
+    );
+    console.log(`Found ${reports.length} recent reports`);
+    return reports;
   } catch (error) {
     console.error('Error fetching recent reports:', error);
-    
-    // Final fallback
-    try {
-      const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      const sortedReports = [...allReports].sort((a, b) => 
-        new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
-      ).slice(0, limit);
-      return sortedReports;
-    } catch (e) {
-      console.error('Failed to parse localStorage data:', e);
-      return [];
-    }
+    return [];
   }
 };
 
 // Update user_id in reports when user signs in
 export const updateUserIdInReports = async (oldUserId: string, newUserId: string): Promise<boolean> => {
   try {
-    // Try to update in Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { error } = await supabase
-        .from('reports')
-        .update({ user_id: newUserId })
-        .eq('user_id', oldUserId);
-      
-      if (error) throw error;
-      return true;
+    await getReportRepository().reassignReports(oldUserId, newUserId);
+
+    const localRepository = getLocalReportRepository();
+    if (localRepository !== getReportRepository()) {
+      await localRepository.reassignReports(oldUserId, newUserId);
     }
-    
-    // Fallback to localStorage
-    const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-    const updatedReports = allReports.map(report => {
-      if (report.user_id === oldUserId) {
-        return { ...report, user_id: newUserId };
-      }
-      return report;
-    });
-    
-    localStorage.setItem('jalBandhu_reports', JSON.stringify(updatedReports));
     return true;
   } catch (error) {
     console.error('Error updating user_id in reports:', error);
@@ -837,71 +923,42 @@ export const updateUserIdInReports = async (oldUserId: string, newUserId: string
   }
 };
 
-// Update a report's status
-export const updateReportStatus = async (reportId: string, status: 'Submitted' | 'Reviewed' | 'Verified', actor?: string, notes?: string): Promise<boolean> => {
-  try {
-    const timestamp = new Date().toISOString();
-    
-    // Get current report to update history
-    const currentReport = await getReportById(reportId);
-    if (!currentReport) return false;
-    
-    // Prepare new history entry
-    const newHistoryEntry = {
+// Update a report's status on behalf of an actor in a workflow role
+// Throws WorkflowTransitionError when the report's workflow does not allow the change for that role
+export const updateReportStatus = async (
+  reportId: string,
+  status: ReportStatus,
+  request: Omit<TransitionRequest, 'timestamp'>
+): Promise<boolean> => {
+  const { actor, notes } = request;
+  // Get current report to update history
+  const currentReport = await getReportById(reportId);
+  if (!currentReport) return false;
+
+  // Reports with doubtful evidence can only be verified with an explanation
+  if (normalizeStatus(status) === 'Field-Verified' && requiresEvidenceReview(currentReport) && !notes?.trim()) {
+    throw new WorkflowTransitionError(
+      `Report ${reportId} has evidence integrity ${currentReport.evidence_integrity}/100 and needs reviewer notes to be verified`,
+      currentReport.status,
       status,
-      timestamp,
-      actor: actor || 'System',
-      notes: notes || `Status changed to ${status}`
-    };
-    
-    // Update history array
-    const updatedHistory = [...(currentReport.status_history || []), newHistoryEntry];
-    
-    // Try to update in Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { error } = await supabase
-        .from('reports')
-        .update({ 
-          status,
-          updated_at: timestamp,
-          status_history: updatedHistory
-        })
-        .eq('report_id', reportId);
-      
-      if (error) throw error;
-      return true;
+      getWorkflowForHazardType(currentReport.hazard_type).id
+    );
+  }
+
+  // Validate against the workflow and build the new history entry
+  const updates = applyTransition(currentReport, status, request);
+
+  try {
+    const updated = await withLocalFallback(repository => repository.updateReport(reportId, updates));
+    if (updated) {
+      notifyReportUpdated(toGroupingReport({ ...currentReport, ...updates }), { status: updates.status }, actor).catch(error =>
+        console.warn(`Grouping update for ${reportId} failed:`, error)
+      );
     }
-    
-    // Fallback to localStorage
-    const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-    const reportIndex = allReports.findIndex(r => r.report_id === reportId);
-    
-    if (reportIndex === -1) return false;
-    
-    allReports[reportIndex].status = status;
-    allReports[reportIndex].updated_at = timestamp;
-    allReports[reportIndex].status_history = updatedHistory;
-    
-    localStorage.setItem('jalBandhu_reports', JSON.stringify(allReports));
-    return true;
+    return updated;
   } catch (error) {
     console.error('Error updating report status:', error);
-    
-    // Final fallback
-    try {
-      const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      const reportIndex = allReports.findIndex(r => r.report_id === reportId);
-      
-      if (reportIndex === -1) return false;
-      
-      allReports[reportIndex].status = status;
-      allReports[reportIndex].updated_at = new Date().toISOString();
-      
-      localStorage.setItem('jalBandhu_reports', JSON.stringify(allReports));
-      return true;
-    } catch {
-      return false;
-    }
+    return false;
   }
 };
 
@@ -916,24 +973,7 @@ export const createTask = async (taskData: Omit<TaskData, 'id' | 'created_at' |
       updated_at: timestamp
     };
 
-    // Try to save to Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { error } = await supabase
-        .from('report_tasks')
-        .insert([task]);
-
-      if (error) throw error;
-      return true;
-    }
-
-    // Fallback to localStorage
-    const existingTasks = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-    const newTask = {
-      ...task,
-      id: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    };
-    existingTasks.push(newTask);
-    localStorage.setItem('jalBandhu_tasks', JSON.stringify(existingTasks));
+    await withLocalFallback(repository => repository.insertTask(task));
     return true;
   } catch (error) {
     console.error('Error creating task:', error);
@@ -944,65 +984,20 @@ export const createTask = async (taskData: Omit<TaskData, 'id' | 'created_at' |
 // Get all tasks for a specific report
 export const getTasksForReport = async (reportId: string): Promise<TaskData[]> => {
   try {
-    // Try to get from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { data, error } = await supabase
-        .from('report_tasks')
-        .select('*')
-        .eq('report_id', reportId)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      return data as TaskData[];
-    }
-
-    // Fallback to localStorage
-    const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-    return allTasks.filter(task => task.report_id === reportId);
+    return await withLocalFallback(repository => repository.queryTasks({ reportId }));
   } catch (error) {
     console.error('Error fetching tasks for report:', error);
-
-    // Final fallback
-    try {
-      const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-      return allTasks.filter(task => task.report_id === reportId);
-    } catch {
-      return [];
-    }
+    return [];
   }
 };
 
 // Get all tasks for a specific category (for admin task overview)
 export const getTasksByCategory = async (category: string): Promise<TaskData[]> => {
   try {
-    // Try to get from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { data, error } = await supabase
-        .from('report_tasks')
-        .select('*')
-        .ilike('category', category)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Supabase error:', error);
-        throw error;
-      }
-      return data as TaskData[];
-    }
-
-    // Fallback to localStorage
-    const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-    return allTasks.filter(task => task.category.toLowerCase() === category.toLowerCase());
+    return await withLocalFallback(repository => repository.queryTasks({ categories: [category] }));
   } catch (error) {
     console.error('Error fetching tasks by category:', error);
-
-    // Final fallback
-    try {
-      const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-      return allTasks.filter(task => task.category.toLowerCase() === category.toLowerCase());
-    } catch {
-      return [];
-    }
+    return [];
   }
 };
 
@@ -1039,53 +1034,10 @@ export const getTaskStatsByCategory = async (category: string): Promise<{
 // Get all tasks for admin overview (across all categories)
 export const getAllTasksForAdmin = async (categories: string[]): Promise<TaskData[]> => {
   try {
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { data, error } = await supabase
-        .from('report_tasks')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Supabase error in getAllTasksForAdmin:', error);
-        throw error;
-      }
-
-      // Filter tasks in JavaScript to handle case-insensitive matching
-      const filteredData = data?.filter(task =>
-        categories.some(cat =>
-          cat.toLowerCase() === task.category.toLowerCase()
-        )
-      ) || [];
-
-      return filteredData as TaskData[];
-    }
-
-    // Fallback to localStorage
-    const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-    const filteredTasks = allTasks.filter(task => categories.some(cat => cat.toLowerCase() === task.category.toLowerCase()));
-    return filteredTasks;
+    return await withLocalFallback(repository => repository.queryTasks({ categories }));
   } catch (error) {
     console.error('Error fetching all tasks for admin:', error);
-
-    // If Supabase fails, try getting tasks by category individually
-    try {
-      const allTasks: TaskData[] = [];
-      for (const category of categories) {
-        const categoryTasks = await getTasksByCategory(category);
-        allTasks.push(...categoryTasks);
-      }
-      return allTasks;
-    } catch (fallbackError) {
-      console.error('Fallback also failed:', fallbackError);
-
-      // Final fallback to localStorage
-      try {
-        const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-        return allTasks.filter(task => categories.some(cat => cat.toLowerCase() === task.category.toLowerCase()));
-      } catch {
-        return [];
-      }
-    }
+    return [];
   }
 };
 
@@ -1093,104 +1045,34 @@ export const getAllTasksForAdmin = async (categories: string[]): Promise<TaskDat
 export const updateTask = async (taskId: string, updates: Partial<TaskData>): Promise<boolean> => {
   try {
     const timestamp = new Date().toISOString();
-
-    // Try to update in Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { error } = await supabase
-        .from('report_tasks')
-        .update({ ...updates, updated_at: timestamp })
-        .eq('id', taskId);
-
-      if (error) throw error;
-      return true;
-    }
-
-    // Fallback to localStorage
-    const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-    const taskIndex = allTasks.findIndex(task => task.id === taskId);
-
-    if (taskIndex === -1) return false;
-
-    allTasks[taskIndex] = {
-      ...allTasks[taskIndex],
-      ...updates,
-      updated_at: timestamp
-    };
-
-    localStorage.setItem('jalBandhu_tasks', JSON.stringify(allTasks));
-    return true;
+    return await withLocalFallback(repository =>
+      repository.updateTask(taskId, { ...updates, updated_at: timestamp })
+    );
   } catch (error) {
     console.error('Error updating task:', error);
-
-    // Final fallback
-    try {
-      const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-      const taskIndex = allTasks.findIndex(task => task.id === taskId);
-
-      if (taskIndex === -1) return false;
-
-      allTasks[taskIndex] = {
-        ...allTasks[taskIndex],
-        ...updates,
-        updated_at: new Date().toISOString()
-      };
-
-      localStorage.setItem('jalBandhu_tasks', JSON.stringify(allTasks));
-      return true;
-    } catch {
-      return false;
-    }
+    return false;
   }
 };
 
 // Delete a task
 export const deleteTask = async (taskId: string): Promise<boolean> => {
   try {
-    // Try to delete from Supabase first
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { error } = await supabase
-        .from('report_tasks')
-        .delete()
-        .eq('id', taskId);
-
-      if (error) throw error;
-      return true;
-    }
-
-    // Fallback to localStorage
-    const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-    const filteredTasks = allTasks.filter(task => task.id !== taskId);
-
-    if (filteredTasks.length === allTasks.length) return false;
-
-    localStorage.setItem('jalBandhu_tasks', JSON.stringify(filteredTasks));
-    return true;
+    return await withLocalFallback(repository => repository.deleteTask(taskId));
   } catch (error) {
     console.error('Error deleting task:', error);
-
-    // Final fallback
-    try {
-      const allTasks: TaskData[] = JSON.parse(localStorage.getItem('jalBandhu_tasks') || '[]');
-      const filteredTasks = allTasks.filter(task => task.id !== taskId);
-
-      if (filteredTasks.length === allTasks.length) return false;
-
-      localStorage.setItem('jalBandhu_tasks', JSON.stringify(filteredTasks));
-      return true;
-    } catch {
-      return false;
-    }
+    return false;
   }
 };
 
 // Initialize status_history for existing reports that don't have it
 export const initializeStatusHistoryForExistingReports = async (): Promise<void> => {
   try {
-    // Get all reports from localStorage
-    const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
+    // Only the on-device store holds legacy reports without history
+    const localRepository = getLocalReportRepository();
+    const allReports = await localRepository.queryReports();
     
-    let updated = false;
-    const updatedReports = allReports.map(report => {
+    let updatedCount = 0;
+    for (const report of allReports) {
       if (!report.status_history || report.status_history.length === 0) {
         // Initialize with the current status
         const historyEntry = {
@@ -1212,24 +1094,42 @@ export const initializeStatusHistoryForExistingReports = async (): Promise<void>
         }
         history.push(historyEntry);
         
-        updated = true;
-        return {
-          ...report,
-          status_history: history
-        };
+        await localRepository.updateReport(report.report_id, { status_history: history });
+        updatedCount++;
       }
-      return report;
-    });
+    }
     
-    if (updated) {
-      localStorage.setItem('jalBandhu_reports', JSON.stringify(updatedReports));
-      console.log('Initialized status_history for existing reports');
+    if (updatedCount > 0) {
+      console.log(`Initialized status_history for ${updatedCount} existing reports`);
     }
   } catch (error) {
     console.error('Error initializing status history:', error);
   }
 };
 
+// Assign coastal zones to reports saved before zones were classified
+export const assignCoastalZonesToExistingReports = async (): Promise<void> => {
+  try {
+    const localRepository = getLocalReportRepository();
+    const allReports = await localRepository.queryReports();
+
+    let updatedCount = 0;
+    for (const report of allReports) {
+      if (report.coastal_zone !== undefined || !report.location) continue;
+
+      const zone = classifyCoastalZone(report.location.lat, report.location.lng);
+      await localRepository.updateReport(report.report_id, { coastal_zone: zone ? zone.id : null });
+      updatedCount++;
+    }
+
+    if (updatedCount > 0) {
+      console.log(`Assigned coastal zones to ${updatedCount} existing reports`);
+    }
+  } catch (error) {
+    console.error('Error assigning coastal zones:', error);
+  }
+};
+
 /**
  * Verify a proof-of-report for a given report
  * @param reportId - The report ID to verify
@@ -1269,38 +1169,27 @@ export const updateProofVerificationStatus = async (
   reportId: string, 
   status: 'pending' | 'verified' | 'failed'
 ): Promise<void> => {
+  const updates = {
+    proof_verification_status: status,
+    updated_at: new Date().toISOString()
+  };
+
+  const repository = getReportRepository();
   try {
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { error } = await supabase
-        .from('reports')
-        .update({ 
-          proof_verification_status: status,
-          updated_at: new Date().toISOString()
-        })
-        .eq('report_id', reportId);
-
-      if (error) {
-        console.error('Error updating proof verification status in Supabase:', error);
-      } else {
-        console.log(`Updated proof verification status for ${reportId} to ${status}`);
-      }
-    }
+    await repository.updateReport(reportId, updates);
+    console.log(`Updated proof verification status for ${reportId} to ${status}`);
+  } catch (error) {
+    console.error(`Error updating proof verification status in ${repository.type} store:`, error);
+  }
 
-    // Also update localStorage
+  // Also update the local copy
+  const localRepository = getLocalReportRepository();
+  if (localRepository !== repository) {
     try {
-      const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      const reportIndex = allReports.findIndex(report => report.report_id === reportId);
-      
-      if (reportIndex !== -1) {
-        allReports[reportIndex].proof_verification_status = status;
-        allReports[reportIndex].updated_at = new Date().toISOString();
-        localStorage.setItem('jalBandhu_reports', JSON.stringify(allReports));
-      }
+      await localRepository.updateReport(reportId, updates);
     } catch (e) {
-      console.error('Error updating localStorage proof status:', e);
+      console.error(`Error updating ${localRepository.type} proof status:`, e);
     }
-  } catch (error) {
-    console.error('Error updating proof verification status:', error);
   }
 };
 
@@ -1308,53 +1197,9 @@ export const updateProofVerificationStatus = async (
  * Get proof statistics for admin dashboard
  * @returns Promise<object> - Statistics about proof coverage and verification
  */
-export const getProofStatistics = async (): Promise<{
-  totalReports: number;
-  reportsWithProof: number;
-  verifiedProofs: number;
-  pendingProofs: number;
-  failedProofs: number;
-  proofCoveragePercentage: number;
-  verificationSuccessRate: number;
-}> => {
+export const getProofStatistics = async (): Promise<ProofStatistics> => {
   try {
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      // Use the view we created in the database
-      const { data, error } = await supabase
-        .from('proof_statistics')
-        .select('*')
-        .single();
-
-      if (!error && data) {
-        return {
-          totalReports: data.total_reports || 0,
-          reportsWithProof: data.reports_with_proof || 0,
-          verifiedProofs: data.verified_proofs || 0,
-          pendingProofs: data.pending_proofs || 0,
-          failedProofs: data.failed_proofs || 0,
-          proofCoveragePercentage: data.proof_coverage_percentage || 0,
-          verificationSuccessRate: data.verification_success_rate || 0
-        };
-      }
-    }
-
-    // Fallback to localStorage calculation
-    const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-    const totalReports = allReports.length;
-    const reportsWithProof = allReports.filter(r => r.proof_cid).length;
-    const verifiedProofs = allReports.filter(r => r.proof_verification_status === 'verified').length;
-    const pendingProofs = allReports.filter(r => r.proof_verification_status === 'pending').length;
-    const failedProofs = allReports.filter(r => r.proof_verification_status === 'failed').length;
-    
-    return {
-      totalReports,
-      reportsWithProof,
-      verifiedProofs,
-      pendingProofs,
-      failedProofs,
-      proofCoveragePercentage: totalReports > 0 ? (reportsWithProof / totalReports) * 100 : 0,
-      verificationSuccessRate: reportsWithProof > 0 ? (verifiedProofs / reportsWithProof) * 100 : 0
-    };
+    return await withLocalFallback(repository => repository.getProofStatistics());
   } catch (error) {
     console.error('Error getting proof statistics:', error);
     return {
@@ -1380,23 +1225,7 @@ export const getReportsWithProofInfo = async (
   offset: number = 0
 ): Promise<ReportData[]> => {
   try {
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      const { data, error } = await supabase
-        .from('reports')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .range(offset, offset + limit - 1);
-
-      if (!error && data) {
-        return data as ReportData[];
-      }
-    }
-
-    // Fallback to localStorage
-    const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-    return allReports
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      .slice(offset, offset + limit);
+    return await withLocalFallback(repository => repository.queryReports({ limit, offset }));
   } catch (error) {
     console.error('Error getting reports with proof info:', error);
     return [];
@@ -1,194 +0,0 @@
-import { supabase } from './supabase.ts';
-import { v4 as uuidv4 } from 'uuid';
-import { ReportData, generateReferenceNumber } from './ReportService';
-
-// Get all reports for admin by category with real data
-export const getReportsByCategoryWithRealData = async (category: string): Promise<ReportData[]> => {
-  try {
-    // Try to get real data from Supabase
-    console.log(`Fetching reports for category: ${category} from Supabase`);
-    
-    // Generate some real data if not enough reports exist
-    const realCategories = ['Tsunami', 'Cyclone', 'Storm Surge', 'High Waves', 'Coastal Erosion', 'Marine Pollution', 'Oil Spill', 'Dead Zone', 'Algal Bloom', 'Sea Level Rise', 'Extreme Weather', 'Maritime Accident', 'Search and Rescue', 'Navigation Hazard', 'Other'];
-    const realCities = ["Mumbai", "Chennai", "Kochi", "Visakhapatnam", "Goa", "Mangalore", "Kollam", "Puducherry"];
-    const statuses = ['Submitted', 'Reviewed', 'Verified'];
-    const priorities = ['Low', 'Medium', 'High', 'Urgent'];
-    
-    // Real-world ocean hazard titles and descriptions
-    const tsunamiIssues = [
-      { title: 'Tsunami warning issued for coastal area', desc: 'Tsunami warning received from INCOIS. Coastal communities advised to move to higher ground immediately.' },
-      { title: 'Unusual wave patterns observed', desc: 'Local fishermen report unusual wave patterns and rapid sea level changes. Possible tsunami precursor activity.' },
-      { title: 'Seismic activity near coast', desc: 'Strong earthquake felt near coastal region. Monitoring for potential tsunami waves and coastal impact.' },
-      { title: 'Coastal evacuation needed', desc: 'Emergency evacuation required for low-lying coastal areas due to tsunami threat from offshore seismic activity.' }
-    ];
-    
-    const cycloneIssues = [
-      { title: 'Cyclone approaching coastline', desc: 'Category 3 cyclone tracked approaching the coast with winds up to 150 km/h. Coastal areas at high risk.' },
-      { title: 'Storm surge warning issued', desc: 'Cyclone-induced storm surge of 3-5 meters expected along the coastline. Immediate precautions needed.' },
-      { title: 'Extreme wind damage reported', desc: 'Cyclone has caused extensive damage to coastal infrastructure with wind speeds exceeding 120 km/h.' },
-      { title: 'Cyclone eye wall passing over coast', desc: 'The cyclone eye wall is directly over our coastal area with destructive winds and heavy rainfall.' }
-    ];
-    
-    const stormSurgeIssues = [
-      { title: 'Storm surge flooding coastal roads', desc: 'Storm surge has flooded major coastal roads making them impassable. Water level 2 meters above normal.' },
-      { title: 'High tide surge damaging property', desc: 'Extreme high tide combined with storm surge is causing flooding and property damage in coastal areas.' },
-      { title: 'Storm surge overtopping sea walls', desc: 'Storm surge waves are overtopping the sea wall defenses, flooding nearby communities and infrastructure.' },
-      { title: 'Surge-induced coastal inundation', desc: 'Large storm surge is causing widespread coastal inundation affecting hundreds of homes and businesses.' }
-    ];
-    
-    const highWavesIssues = [
-      { title: 'Dangerous high waves at beach', desc: 'Unusually high waves reaching 4-5 meters are making beach areas extremely dangerous for public access.' },
-      { title: 'High waves damaging fishing boats', desc: 'High wave conditions have damaged several fishing boats and made fishing operations impossible.' },
-      { title: 'Waves overtopping coastal barriers', desc: 'High waves are consistently overtopping coastal barriers and flooding adjacent low-lying areas.' },
-      { title: 'Rough sea conditions reported', desc: 'Extremely rough sea with high waves making navigation dangerous for all marine vessels.' }
-    ];
-    
-    const coastalErosionIssues = [
-      { title: 'Severe beach erosion observed', desc: 'Significant beach erosion has occurred overnight, with approximately 10 meters of shoreline lost.' },
-      { title: 'Cliff face collapse due to erosion', desc: 'Coastal cliff erosion has caused a major collapse, threatening nearby infrastructure and homes.' },
-      { title: 'Erosion threatening coastal road', desc: 'Ongoing coastal erosion is undermining the main coastal road, creating a serious safety hazard.' },
-      { title: 'Sand dune erosion accelerating', desc: 'Protective sand dunes are eroding rapidly, leaving coastal communities vulnerable to storm surge.' }
-    ];
-    
-    const marinePollutionIssues = [
-      { title: 'Oil spill contaminating waters', desc: 'Large oil spill detected in coastal waters, spreading rapidly and threatening marine ecosystem.' },
-      { title: 'Chemical discharge into ocean', desc: 'Industrial chemical discharge observed entering ocean, posing serious threat to marine life.' },
-      { title: 'Plastic debris washing ashore', desc: 'Massive amounts of plastic debris washing up on beaches, indicating significant marine pollution.' },
-      { title: 'Dead marine life due to pollution', desc: 'Large numbers of dead fish and marine animals found, likely due to water pollution.' }
-    ];
-    
-    const extremeWeatherIssues = [
-      { title: 'Unprecedented heat wave affecting coast', desc: 'Record-breaking temperatures along the coast causing marine ecosystem stress and infrastructure strain.' },
-      { title: 'Severe thunderstorms with lightning', desc: 'Intense thunderstorms with frequent lightning strikes affecting coastal areas and marine operations.' },
-      { title: 'Unusual weather patterns observed', desc: 'Abnormal weather patterns including sudden temperature changes and erratic wind conditions.' },
-      { title: 'Extended drought affecting coastal areas', desc: 'Prolonged drought conditions affecting coastal freshwater supplies and agricultural areas.' }
-    ];
-    
-    const maritimeAccidentIssues = [
-      { title: 'Vessel collision in shipping lane', desc: 'Two commercial vessels collided in the main shipping channel, causing navigation hazards.' },
-      { title: 'Fishing boat in distress', desc: 'Fishing vessel experiencing engine failure and taking on water, crew needs immediate assistance.' },
-      { title: 'Cargo ship grounded on reef', desc: 'Large cargo ship has run aground on coral reef, posing environmental threat and navigation hazard.' },
-      { title: 'Recreational boat missing', desc: 'Pleasure craft with passengers has not returned to port, search and rescue operation needed.' }
-    ];
-    
-    const issuesByCategory = {
-      'Tsunami': tsunamiIssues,
-      'Cyclone': cycloneIssues,
-      'Storm Surge': stormSurgeIssues,
-      'High Waves': highWavesIssues,
-      'Coastal Erosion': coastalErosionIssues,
-      'Marine Pollution': marinePollutionIssues,
-      'Extreme Weather': extremeWeatherIssues,
-      'Maritime Accident': maritimeAccidentIssues,
-      'Oil Spill': marinePollutionIssues, // Using marine pollution issues for oil spill
-      'Dead Zone': marinePollutionIssues, // Using marine pollution issues for dead zone
-      'Algal Bloom': marinePollutionIssues, // Using marine pollution issues for algal bloom
-      'Sea Level Rise': coastalErosionIssues, // Using coastal erosion issues for sea level rise
-      'Search and Rescue': maritimeAccidentIssues, // Using maritime accident issues for search and rescue
-      'Navigation Hazard': maritimeAccidentIssues, // Using maritime accident issues for navigation hazard
-      'Other': extremeWeatherIssues // Generic fallback
-    };
-    
-    // Try to get data from Supabase first
-    const { data, error } = await supabase
-      .from('reports')
-      .select('*')
-      .ilike('category', category) // Case-insensitive match
-      .order('created_at', { ascending: false });
-    
-    // If we have at least 5 reports, use them
-    if (!error && data && data.length >= 5) {
-      console.log(`Found ${data?.length || 0} reports for category ${category} in Supabase`);
-      return data as ReportData[];
-    }
-    
-    // Otherwise, generate real-looking data
-    console.log(`Generating real-looking data for ${category} category`);
-    const generatedReports: ReportData[] = [];
-    
-    // Generate 10-15 reports
-    const numReports = Math.floor(Math.random() * 6) + 10;
-    
-    // Get realistic issues for this category
-    const issues = issuesByCategory[category as keyof typeof issuesByCategory] || 
-                  [{ title: `${category} issue`, desc: `A ${category.toLowerCase()} problem that needs attention` }];
-    
-    for (let i = 0; i < numReports; i++) {
-      const reportId = generateReferenceNumber(category);
-      const city = realCities[Math.floor(Math.random() * realCities.length)];
-      const status = statuses[Math.floor(Math.random() * statuses.length)];
-      const priority = priorities[Math.floor(Math.random() * priorities.length)];
-      const createdDate = new Date();
-      // Adjust date to be between 1-30 days ago
-      createdDate.setDate(createdDate.getDate() - Math.floor(Math.random() * 30));
-      const updatedDate = new Date(createdDate);
-      // Update date is between created date and now
-      updatedDate.setDate(updatedDate.getDate() + Math.floor(Math.random() * (new Date().getDate() - createdDate.getDate() + 1)));
-      
-      // Select a random issue from our realistic issue list
-      const randomIssue = issues[Math.floor(Math.random() * issues.length)];
-      
-      const report: ReportData = {
-        report_id: reportId,
-        title: `${randomIssue.title} - ${city}`,
-        description: `${randomIssue.desc} Location: ${city}`,
-        category: category,
-        hazard_type: category, // Use category as hazard type for ocean hazards
-        location: {
-          lat: 18.52 + (Math.random() * 10 - 5),
-          lng: 73.85 + (Math.random() * 10 - 5),
-          address: `${Math.floor(Math.random() * 300) + 1} ${['Main St', 'Park Ave', 'Gandhi Road', 'MG Road', 'Station Road'][Math.floor(Math.random() * 5)]}, ${city}, India`
-        },
-        city: city,
-        priority: priority as any,
-        image_url: i % 3 === 0 ? `https://source.unsplash.com/random/800x600?${category.toLowerCase()}` : '',
-        status: status as any,
-        created_at: createdDate.toISOString(),
-        updated_at: updatedDate.toISOString(),
-        user_id: `user_${Math.floor(Math.random() * 100)}`
-      };
-      
-      generatedReports.push(report);
-      
-      // Also save to localStorage for persistence
-      try {
-        const existingReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-        if (!existingReports.some((r: ReportData) => r.report_id === report.report_id)) {
-          existingReports.push(report);
-          localStorage.setItem('jalBandhu_reports', JSON.stringify(existingReports));
-        }
-      } catch (e) {
-        console.error('Error saving to localStorage:', e);
-      }
-    }
-    
-    // Try to add to Supabase
-    if (import.meta.env.VITE_SUPABASE_URL && import.meta.env.VITE_SUPABASE_ANON_KEY) {
-      try {
-        const { error } = await supabase.from('reports').insert(generatedReports);
-        if (error) {
-          console.error('Error saving generated reports to Supabase:', error);
-        } else {
-          console.log('Successfully added generated reports to Supabase');
-        }
-      } catch (e) {
-        console.error('Failed to save to Supabase:', e);
-      }
-    }
-    
-    return generatedReports;
-  } catch (error) {
-    console.error('Error fetching category reports:', error);
-    
-    // Fallback to localStorage if all else fails
-    try {
-      const allReports: ReportData[] = JSON.parse(localStorage.getItem('jalBandhu_reports') || '[]');
-      return allReports.filter(report => 
-        report.category.toLowerCase() === category.toLowerCase()
-      );
-    } catch (e) {
-      console.error('Failed to parse localStorage data:', e);
-      return [];
-    }
-  }
-};
@@ -0,0 +1,361 @@
+/**
+ * Report Workflow Service - Declarative report lifecycle state machine
+ *
+ * Each workflow lists its states, the transitions between them, which roles may
+ * perform each transition and whether notes are required. Workflows are selected
+ * per hazard type, so ocean-wide warnings can be escalated to INCOIS while local
+ * hazards are resolved by field teams.
+ *
+ * ReportService applies every status change through `applyTransition`, which also
+ * appends the validated `status_history` entry.
+ */
+
+export type ReportStatus = string;
+
+export type WorkflowRole = 'citizen' | 'system' | 'moderator' | 'analyst' | 'official' | 'admin';
+
+export type WorkflowTone = 'blue' | 'amber' | 'green' | 'red' | 'purple' | 'orange' | 'gray';
+
+export type WorkflowIcon = 'FileText' | 'Clock' | 'Search' | 'CheckCircle' | 'ArrowRight' | 'XCircle' | 'Copy';
+
+export interface WorkflowState {
+  id: ReportStatus;
+  label: string;
+  timelineTitle: string;
+  description: string;
+  tone: WorkflowTone;
+  icon: WorkflowIcon;
+  terminal?: boolean;
+}
+
+export interface WorkflowTransition {
+  from: ReportStatus[];
+  to: ReportStatus;
+  roles: WorkflowRole[];
+  requiresNotes?: boolean;
+}
+
+export interface ReportWorkflow {
+  id: string;
+  name: string;
+  hazardTypes: string[]; // Values of ReportData.hazard_type this workflow applies to
+  initialState: ReportStatus;
+  mainPath: ReportStatus[]; // Expected progression, used to preview upcoming steps
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+}
+
+export interface StatusHistoryEntry {
+  status: ReportStatus;
+  timestamp: string;
+  actor?: string;
+  role?: WorkflowRole;
+  notes?: string;
+}
+
+export interface TransitionRequest {
+  actor: string;
+  role: WorkflowRole;
+  notes?: string;
+  timestamp?: string;
+}
+
+/**
+ * Thrown when a status change is not allowed by the report's workflow
+ */
+export class WorkflowTransitionError extends Error {
+  public readonly from: ReportStatus;
+  public readonly to: ReportStatus;
+  public readonly workflowId: string;
+
+  constructor(message: string, from: ReportStatus, to: ReportStatus, workflowId: string) {
+    super(message);
+    this.name = 'WorkflowTransitionError';
+    this.from = from;
+    this.to = to;
+    this.workflowId = workflowId;
+  }
+}
+
+const REVIEWER_ROLES: WorkflowRole[] = ['moderator', 'analyst', 'official', 'admin'];
+const OFFICIAL_ROLES: WorkflowRole[] = ['official', 'admin'];
+
+// States shared by every workflow
+const SHARED_STATES: WorkflowState[] = [
+  {
+    id: 'Submitted',
+    label: 'Submitted',
+    timelineTitle: 'Report Filed',
+    description: 'Hazard report submitted by the reporter',
+    tone: 'blue',
+    icon: 'FileText'
+  },
+  {
+    id: 'Triaged',
+    label: 'Triaged',
+    timelineTitle: 'Triaged',
+    description: 'Report checked for completeness and prioritised by a reviewer',
+    tone: 'amber',
+    icon: 'Clock'
+  },
+  {
+    id: 'Field-Verified',
+    label: 'Field Verified',
+    timelineTitle: 'Verified in the Field',
+    description: 'Hazard confirmed on the ground by a field team or official',
+    tone: 'green',
+    icon: 'Search'
+  },
+  {
+    id: 'Resolved',
+    label: 'Resolved',
+    timelineTitle: 'Resolved',
+    description: 'The hazard has been addressed or has passed',
+    tone: 'green',
+    icon: 'CheckCircle',
+    terminal: true
+  },
+  {
+    id: 'Rejected',
+    label: 'Rejected',
+    timelineTitle: 'Rejected',
+    description: 'Report could not be substantiated',
+    tone: 'red',
+    icon: 'XCircle',
+    terminal: true
+  },
+  {
+    id: 'Duplicate',
+    label: 'Duplicate',
+    timelineTitle: 'Marked as Duplicate',
+    description: 'Report describes a hazard already being tracked',
+    tone: 'gray',
+    icon: 'Copy',
+    terminal: true
+  }
+];
+
+// Transitions shared by every workflow
+const closingTransitions = (activeStates: ReportStatus[]): WorkflowTransition[] => [
+  { from: activeStates, to: 'Rejected', roles: REVIEWER_ROLES, requiresNotes: true },
+  { from: activeStates, to: 'Duplicate', roles: REVIEWER_ROLES, requiresNotes: true },
+  // Reopening a closed report needs an explanation and an admin
+  { from: ['Rejected', 'Duplicate'], to: 'Triaged', roles: ['admin'], requiresNotes: true }
+];
+
+export const DEFAULT_WORKFLOWS: ReportWorkflow[] = [
+  {
+    id: 'ocean-warning',
+    name: 'Ocean-wide warning',
+    hazardTypes: ['tsunami', 'storm_surge', 'high_waves', 'swell_surge', 'coastal_current', 'unusual_sea_behavior'],
+    initialState: 'Submitted',
+    mainPath: ['Submitted', 'Triaged', 'Field-Verified', 'Escalated-to-INCOIS', 'Resolved'],
+    states: [
+      ...SHARED_STATES,
+      {
+        id: 'Escalated-to-INCOIS',
+        label: 'Escalated to INCOIS',
+        timelineTitle: 'Escalated to INCOIS',
+        description: 'Forwarded to INCOIS for early-warning assessment',
+        tone: 'purple',
+        icon: 'ArrowRight'
+      }
+    ],
+    transitions: [
+      { from: ['Submitted'], to: 'Triaged', roles: ['system', ...REVIEWER_ROLES] },
+      { from: ['Triaged'], to: 'Field-Verified', roles: ['analyst', ...OFFICIAL_ROLES] },
+      { from: ['Field-Verified'], to: 'Escalated-to-INCOIS', roles: OFFICIAL_ROLES },
+      { from: ['Field-Verified', 'Escalated-to-INCOIS'], to: 'Resolved', roles: OFFICIAL_ROLES },
+      ...closingTransitions(['Submitted', 'Triaged', 'Field-Verified', 'Escalated-to-INCOIS'])
+    ]
+  },
+  {
+    id: 'coastal-local',
+    name: 'Local coastal hazard',
+    hazardTypes: ['coastal_erosion', 'marine_debris', 'infrastructure_damage', 'general_hazard'],
+    initialState: 'Submitted',
+    mainPath: ['Submitted', 'Triaged', 'Field-Verified', 'Resolved'],
+    states: SHARED_STATES,
+    transitions: [
+      { from: ['Submitted'], to: 'Triaged', roles: ['system', ...REVIEWER_ROLES] },
+      { from: ['Triaged'], to: 'Field-Verified', roles: ['analyst', ...OFFICIAL_ROLES] },
+      { from: ['Field-Verified'], to: 'Resolved', roles: OFFICIAL_ROLES },
+      ...closingTransitions(['Submitted', 'Triaged', 'Field-Verified'])
+    ]
+  }
+];
+
+const FALLBACK_WORKFLOW_ID = 'coastal-local';
+
+// Statuses written by earlier versions of the app, mapped onto workflow states
+const LEGACY_STATUS_ALIASES: Record<string, ReportStatus> = {
+  'Reviewed': 'Triaged',
+  'In Review': 'Triaged',
+  'Under Review': 'Triaged',
+  'Verified': 'Field-Verified',
+  'Forwarded': 'Escalated-to-INCOIS',
+  'Closed': 'Resolved'
+};
+
+let workflows: ReportWorkflow[] = [...DEFAULT_WORKFLOWS];
+
+/**
+ * Replace the active workflow definitions
+ */
+export const setWorkflows = (definitions: ReportWorkflow[]): void => {
+  if (!definitions.some(workflow => workflow.id === FALLBACK_WORKFLOW_ID)) {
+    throw new Error(`Workflow definitions must include the "${FALLBACK_WORKFLOW_ID}" fallback workflow`);
+  }
+  workflows = [...definitions];
+};
+
+export const getWorkflows = (): ReportWorkflow[] => [...workflows];
+
+/**
+ * Get the workflow that governs reports of a hazard type
+ */
+export const getWorkflowForHazardType = (hazardType: string | undefined): ReportWorkflow => {
+  const match = hazardType
+    ? workflows.find(workflow => workflow.hazardTypes.includes(hazardType))
+    : undefined;
+  return match || workflows.find(workflow => workflow.id === FALLBACK_WORKFLOW_ID)!;
+};
+
+/**
+ * Map legacy status names onto the current workflow states
+ */
+export const normalizeStatus = (status: ReportStatus): ReportStatus =>
+  LEGACY_STATUS_ALIASES[status] || status;
+
+/**
+ * Look up how a status should be displayed. Searches every workflow so a badge
+ * can be rendered without knowing the report's hazard type.
+ */
+export const getStateDescriptor = (status: ReportStatus, workflow?: ReportWorkflow): WorkflowState => {
+  const normalized = normalizeStatus(status);
+  const candidates = workflow ? [workflow, ...workflows] : workflows;
+
+  for (const candidate of candidates) {
+    const state = candidate.states.find(s => s.id === normalized);
+    if (state) return state;
+  }
+
+  return {
+    id: status,
+    label: status,
+    timelineTitle: status,
+    description: `Status set to ${status}`,
+    tone: 'gray',
+    icon: 'FileText'
+  };
+};
+
+/**
+ * Get the statuses a role may move a report to from its current status
+ */
+export const getAllowedTransitions = (
+  workflow: ReportWorkflow,
+  currentStatus: ReportStatus,
+  role: WorkflowRole
+): WorkflowTransition[] => {
+  const from = normalizeStatus(currentStatus);
+  return workflow.transitions.filter(t => t.from.includes(from) && t.roles.includes(role));
+};
+
+/**
+ * Check that a transition is allowed; throws WorkflowTransitionError otherwise
+ */
+export const validateTransition = (
+  workflow: ReportWorkflow,
+  currentStatus: ReportStatus,
+  nextStatus: ReportStatus,
+  request: Pick<TransitionRequest, 'role' | 'notes'>
+): WorkflowTransition => {
+  const from = normalizeStatus(currentStatus);
+
+  if (!workflow.states.some(state => state.id === nextStatus)) {
+    throw new WorkflowTransitionError(
+      `"${nextStatus}" is not a state of the ${workflow.name} workflow`,
+      from, nextStatus, workflow.id
+    );
+  }
+
+  const candidates = workflow.transitions.filter(t => t.from.includes(from) && t.to === nextStatus);
+  if (candidates.length === 0) {
+    throw new WorkflowTransitionError(
+      `Cannot move a report from ${from} to ${nextStatus}`,
+      from, nextStatus, workflow.id
+    );
+  }
+
+  const transition = candidates.find(t => t.roles.includes(request.role));
+  if (!transition) {
+    throw new WorkflowTransitionError(
+      `Role "${request.role}" may not move a report from ${from} to ${nextStatus}`,
+      from, nextStatus, workflow.id
+    );
+  }
+
+  if (transition.requiresNotes && !request.notes?.trim()) {
+    throw new WorkflowTransitionError(
+      `Notes are required when moving a report to ${nextStatus}`,
+      from, nextStatus, workflow.id
+    );
+  }
+
+  return transition;
+};
+
+/**
+ * Build the history entry for a new report
+ */
+export const createInitialHistoryEntry = (
+  workflow: ReportWorkflow,
+  request: TransitionRequest
+): StatusHistoryEntry => ({
+  status: workflow.initialState,
+  timestamp: request.timestamp || new Date().toISOString(),
+  actor: request.actor,
+  role: request.role,
+  notes: request.notes
+});
+
+/**
+ * Validate a status change and build the fields to persist on the report
+ */
+export const applyTransition = (
+  report: { status: ReportStatus; hazard_type?: string; status_history?: StatusHistoryEntry[] },
+  nextStatus: ReportStatus,
+  request: TransitionRequest
+): { status: ReportStatus; updated_at: string; status_history: StatusHistoryEntry[] } => {
+  const workflow = getWorkflowForHazardType(report.hazard_type);
+  validateTransition(workflow, report.status, nextStatus, request);
+
+  const timestamp = request.timestamp || new Date().toISOString();
+  const entry: StatusHistoryEntry = {
+    status: nextStatus,
+    timestamp,
+    actor: request.actor,
+    role: request.role,
+    notes: request.notes || `Status changed to ${getStateDescriptor(nextStatus, workflow).label}`
+  };
+
+  return {
+    status: nextStatus,
+    updated_at: timestamp,
+    status_history: [...(report.status_history || []), entry]
+  };
+};
+
+/**
+ * Upcoming main-path states after the current one, for timeline previews
+ */
+export const getUpcomingStates = (workflow: ReportWorkflow, currentStatus: ReportStatus): WorkflowState[] => {
+  const current = normalizeStatus(currentStatus);
+  const index = workflow.mainPath.indexOf(current);
+  if (index === -1) return [];
+
+  return workflow.mainPath
+    .slice(index + 1)
+    .map(status => getStateDescriptor(status, workflow));
+};
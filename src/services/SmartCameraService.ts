@@ -10,9 +10,10 @@
  * - Automatic ocean hazard alert generation
  */
 
-import { getCurrentLocation } from './ReportService';
+import { getCurrentLocation, type ReportLocation } from './ReportService';
 import { analyzeImage } from './AIService';
 import { submitReport } from './ReportService';
+import { needsLocationCorrection } from './LocationQualityService';
 
 // Ocean Smart Camera configuration interface
 export interface SmartCameraConfig {
@@ -30,12 +31,7 @@ export interface SmartCameraCaptureData {
   id: string;
   imageData: string; // Base64 image data
   timestamp: string; // ISO timestamp
-  location: {
-    lat: number;
-    lng: number;
-    address: string;
-    city: string;
-  } | null;
+  location: (ReportLocation & { city: string }) | null;
   uploaded: boolean; // Whether this ocean hazard detection has been uploaded
   processed: boolean; // Whether AI marine hazard analysis is complete
   aiResult?: {
@@ -443,7 +439,10 @@ class SmartCameraService {
         aiResult.confidence >= this.config.confidenceThreshold &&
         this.config.priorityFilter.includes(aiResult.priority);
 
-      if (shouldCreateReport && captureData.location) {
+      // A vague network fix waits for someone to place the pin by hand
+      const locationUsable = !!captureData.location && !needsLocationCorrection(captureData.location);
+
+      if (shouldCreateReport && captureData.location && locationUsable) {
         console.log(`Creating Smart Camera report for detected: ${aiResult.title}`);
 
         try {
@@ -491,6 +490,7 @@ class SmartCameraService {
         console.log(`❌ Smart Camera capture did not meet criteria for report creation:`, {
           shouldCreateReport,
           hasLocation: !!captureData.location,
+          locationUsable,
           confidence: aiResult.confidence,
           threshold: this.config.confidenceThreshold,
           priority: aiResult.priority,
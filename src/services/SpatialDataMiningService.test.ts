@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { SpatialDataMiningService, type HotspotDetectionConfig, type SpatialDataPoint } from './SpatialDataMiningService';
+
+const REFERENCE_TIME = new Date('2024-06-10T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+// About 111 m of latitude
+const STEP = 0.001;
+
+const point = (
+  id: string,
+  lat: number,
+  lng: number,
+  hoursAgo: number,
+  severity = 3
+): SpatialDataPoint => ({
+  id,
+  coordinates: [lng, lat],
+  severity,
+  hazardType: 'general_hazard',
+  timestamp: new Date(REFERENCE_TIME.getTime() - hoursAgo * HOUR_MS),
+  aiConfidence: 0.8
+});
+
+// Reports a few hundred metres apart at the same beach, an hour apart
+const group = (prefix: string, lat: number, lng: number, count: number, hoursAgo: number, severity = 3) =>
+  Array.from({ length: count }, (_, i) => point(`${prefix}${i}`, lat + i * STEP, lng, hoursAgo + i, severity));
+
+const config: HotspotDetectionConfig = {
+  epsilon: 0.5,
+  temporalEpsilonHours: 24,
+  minPoints: 3,
+  timeWindowHours: 240,
+  referenceTime: REFERENCE_TIME
+};
+
+const clusterIds = (hotspots: Array<{ reportIds: string[] }>) =>
+  hotspots.map(hotspot => [...hotspot.reportIds].sort()).sort((a, b) => a[0].localeCompare(b[0]));
+
+describe('SpatialDataMiningService ST-DBSCAN', () => {
+  const service = new SpatialDataMiningService();
+
+  it('finds separated clusters', async () => {
+    const reports = [...group('a', 19.07, 72.87, 4, 2), ...group('b', 19.17, 72.87, 4, 2)];
+
+    const hotspots = await service.detectHotspots(reports, config);
+
+    expect(clusterIds(hotspots)).toEqual([
+      ['a0', 'a1', 'a2', 'a3'],
+      ['b0', 'b1', 'b2', 'b3']
+    ]);
+  });
+
+  it('splits the same place reported on different days by the temporal radius', async () => {
+    const reports = [...group('monday', 19.07, 72.87, 3, 100), ...group('thursday', 19.07, 72.87, 3, 10)];
+
+    const split = await service.detectHotspots(reports, config);
+    const merged = await service.detectHotspots(reports, { ...config, temporalEpsilonHours: 120 });
+
+    expect(clusterIds(split)).toEqual([
+      ['monday0', 'monday1', 'monday2'],
+      ['thursday0', 'thursday1', 'thursday2']
+    ]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].reportCount).toBe(6);
+  });
+
+  it('weighs core points by severity', async () => {
+    const urgent = group('urgent', 19.07, 72.87, 2, 2, 5);
+    const minor = group('minor', 19.17, 72.87, 3, 2, 1);
+
+    const weighted = await service.detectHotspots([...urgent, ...minor], config);
+    const unweighted = await service.detectHotspots([...urgent, ...minor], { ...config, severityWeight: 0 });
+
+    // Two urgent reports outweigh three low-priority ones
+    expect(clusterIds(weighted)).toEqual([['urgent0', 'urgent1']]);
+    expect(clusterIds(unweighted)).toEqual([['minor0', 'minor1', 'minor2']]);
+    expect(clusterIds(await service.detectHotspots(urgent, config))).toEqual([['urgent0', 'urgent1']]);
+  });
+
+  it('leaves isolated reports out as noise', async () => {
+    const reports = [
+      ...group('a', 19.07, 72.87, 4, 2),
+      point('far', 19.5, 72.87, 2),
+      point('late', 19.07, 72.87, 200)
+    ];
+
+    const hotspots = await service.detectHotspots(reports, config);
+
+    expect(clusterIds(hotspots)).toEqual([['a0', 'a1', 'a2', 'a3']]);
+  });
+});
+
+describe('SpatialDataMiningService OPTICS reachability', () => {
+  const service = new SpatialDataMiningService();
+
+  it('orders each cluster contiguously, with valleys that match ST-DBSCAN', async () => {
+    const reports = [
+      ...group('a', 19.07, 72.87, 4, 2),
+      point('noise', 19.5, 72.87, 2),
+      ...group('b', 19.17, 72.87, 4, 2)
+    ];
+
+    const [plot] = service.computeReachability(reports, config);
+    const order = plot.points.map(p => p.id);
+
+    expect(plot.hazardType).toBe('all');
+    expect(order).toHaveLength(reports.length);
+    expect(new Set(order).size).toBe(reports.length);
+
+    // Members of a cluster follow each other in the ordering
+    for (const prefix of ['a', 'b']) {
+      const positions = order
+        .map((id, index) => (id.startsWith(prefix) ? index : -1))
+        .filter(index => index >= 0);
+      expect(positions[positions.length - 1] - positions[0]).toBe(positions.length - 1);
+    }
+
+    // Each region starts undefined; inside a valley every report is reachable within the radii
+    plot.points.forEach((p, index) => {
+      if (p.id === 'noise') {
+        expect(p.reachability).toBeNull();
+        expect(p.coreDistance).toBeNull();
+      } else if (index > 0 && order[index - 1][0] === p.id[0]) {
+        expect(p.reachability).not.toBeNull();
+        expect(p.reachability!).toBeLessThanOrEqual(1);
+      } else {
+        expect(p.reachability).toBeNull();
+      }
+    });
+
+    // Cutting the plot at 1 gives the ST-DBSCAN clusters
+    const valleys: string[][] = [];
+    plot.points.forEach(p => {
+      if (p.reachability === null || p.reachability > 1) {
+        valleys.push([p.id]);
+      } else {
+        valleys[valleys.length - 1].push(p.id);
+      }
+    });
+    const hotspots = await service.detectHotspots(reports, config);
+    expect(clusterIds(valleys.filter(valley => valley.length > 1).map(reportIds => ({ reportIds }))))
+      .toEqual(clusterIds(hotspots));
+  });
+});
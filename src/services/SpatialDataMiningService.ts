@@ -1,7 +1,7 @@
 import * as turf from '@turf/helpers';
-import clustersDbscan from '@turf/clusters-dbscan';
-import centroid from '@turf/centroid';
 import bbox from '@turf/bbox';
+import { getGroupingProfile } from './HazardGroupingProfiles';
+import { getLocationWeight } from './LocationQualityService';
 
 export interface HazardReport {
   id: string;
@@ -12,7 +12,7 @@ export interface HazardReport {
   description?: string;
 }
 
-interface HotspotResult {
+export interface HotspotResult {
   clusterId: number;
   centroid: [number, number];
   reportCount: number;
@@ -23,95 +23,176 @@ interface HotspotResult {
   temporalIntensity: number;
   boundingBox: number[][];
   confidence: number;
+  reportIds: string[]; // Member reports, for matching the hotspot across time windows
 }
 
-interface SpatialDataPoint {
+export interface SpatialDataPoint {
   id: string;
   coordinates: [number, number];
   severity: number;
   hazardType: string;
   timestamp: Date;
   aiConfidence: number;
+  locationAccuracyM?: number; // Accuracy radius of the report's position, when recorded
 }
 
+export interface HotspotDetectionConfig {
+  epsilon?: number; // Spatial neighbourhood radius in km; setting it clusters all hazard types together
+  temporalEpsilonHours?: number; // Temporal neighbourhood radius; defaults to the hazard profile's window
+  minPoints?: number; // Severity-weighted density a core report needs within both radii
+  timeWindowHours?: number; // Lookback before referenceTime
+  severityWeight?: number; // 0 counts every report once; 1 weighs them by severity / 3
+  useHazardProfiles?: boolean;
+  referenceTime?: Date; // End of the time window; defaults to now
+}
+
+/**
+ * One report in OPTICS order. Distances are spatio-temporal, in units of the
+ * neighbourhood: 1 is the spatial or temporal radius, whichever is reached first
+ */
+export interface ReachabilityPoint {
+  id: string;
+  reachability: number | null; // null at the start of each density-connected region
+  coreDistance: number | null; // null when the report is not a core point
+}
+
+/**
+ * OPTICS reachability plot of one clustering pass; valleys are clusters, and
+ * cutting it at 1 gives the ST-DBSCAN clusters
+ */
+export interface ReachabilityPlot {
+  hazardType: string; // 'all' when hazard types are clustered together
+  epsilonKm: number;
+  epsilonHours: number;
+  points: ReachabilityPoint[];
+}
+
+/**
+ * How a hotspot moved since the previous time window
+ */
+export interface HotspotMovementVector {
+  hotspotId: string; // Stable id from trackHotspots
+  displacement: number; // km
+  direction: number; // Bearing in degrees
+  velocityKmPerDay: number;
+  fromCentroid: [number, number]; // [lng, lat] in the previous window
+  toCentroid: [number, number];
+}
+
+export type HotspotLifecycleEvent = 'born' | 'grew' | 'merged' | 'split' | 'decayed' | 'closed';
+
+/**
+ * A hotspot with an identity that carries over from one time window to the next
+ */
+export interface TrackedHotspot extends HotspotResult {
+  hotspotId: string;
+}
+
+/**
+ * What tracking needs to know about a hotspot from an earlier window or run
+ */
+export type HotspotFootprint = Pick<HotspotResult, 'centroid' | 'reportCount' | 'reportIds' | 'boundingBox'> & { hotspotId: string };
+
+export interface HotspotLifecycleChange {
+  hotspotId: string;
+  event: HotspotLifecycleEvent;
+  relatedHotspotIds: string[]; // Hotspots merged in or split off, or the one a closed hotspot was absorbed into
+  previous: HotspotFootprint | null; // null when born
+  current: TrackedHotspot | null; // null when closed
+}
+
+export interface HotspotTrackingResult {
+  hotspots: TrackedHotspot[];
+  changes: HotspotLifecycleChange[];
+  continuations: Array<{ previous: HotspotFootprint; current: TrackedHotspot }>; // Hotspots that kept their id
+}
+
+export const HOTSPOT_TRACKING_SETTINGS = {
+  minOverlap: 0.3, // Share of the smaller hotspot's reports two hotspots must have in common to match
+  minMatchDistanceKm: 1, // Centroids this close always match; otherwise within the hotspots' own extent
+  sizeChangeRatio: 0.25 // Change in report count that counts as growth or decay
+};
+
+/**
+ * One time window of detectEvolvingHotspots
+ */
+export interface EvolutionWindow {
+  timeWindow: string;
+  startTime: Date;
+  endTime: Date;
+  hotspots: TrackedHotspot[];
+  movementVectors: HotspotMovementVector[]; // Since the window before
+  changes: HotspotLifecycleChange[];
+}
+
+interface ClusteringPass {
+  hazardType: string;
+  epsilonKm: number;
+  epsilonHours: number;
+  reports: SpatialDataPoint[]; // Sorted by timestamp
+}
+
+// Severity counted as one report when severity-weighting core density
+const BASELINE_SEVERITY = 3;
+
+const createHotspotId = (): string => `hotspot_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`;
+
 export class SpatialDataMiningService {
-  private epsilon: number = 0.5; // 50km radius in degrees (~0.5° ≈ 55km)
-  private minPoints: number = 3; // Minimum reports to form a hotspot
+  private epsilon: number = 0.5; // Spatial neighbourhood radius in km when hazard profiles are off
+  private temporalEpsilonHours: number = 24; // Temporal neighbourhood radius when hazard profiles are off
+  private minPoints: number = 3; // Severity-weighted reports to form a hotspot
+  private severityWeight: number = 1;
   
   /**
-   * DBSCAN-based hotspot detection with temporal weighting
+   * ST-DBSCAN hotspot detection
    * Patent-worthy algorithm: Spatial-Temporal Density Clustering for Maritime Hazards
+   *
+   * Two reports are neighbours when they are within the spatial radius (km) and
+   * the temporal radius (hours) of each other, so the same beach reported on
+   * two separate days forms two hotspots. A report is a core point when the
+   * severity-weighted count of its neighbours reaches minPoints: two urgent
+   * reports outweigh three low-priority ones.
+   *
+   * Each hazard type is clustered separately with its grouping profile radii,
+   * so a storm surge spanning a district forms one hotspot while debris reports
+   * cluster per beach. Passing an explicit epsilon clusters all reports together.
+   * Reports located less precisely than a pass's radius are left out of it, and
+   * the rest are weighted by location accuracy in the centroid and risk score.
    */
   async detectHotspots(
     reports: SpatialDataPoint[],
-    config?: {
-      epsilon?: number;
-      minPoints?: number;
-      timeWindowHours?: number;
-      severityWeight?: number;
-    }
+    config?: HotspotDetectionConfig
   ): Promise<HotspotResult[]> {
     
-    const epsilon = config?.epsilon || this.epsilon;
     const minPoints = config?.minPoints || this.minPoints;
-    const timeWindow = config?.timeWindowHours || 72; // 3 days default
-    
-    // Filter reports within time window
-    const cutoffTime = new Date();
-    cutoffTime.setHours(cutoffTime.getHours() - timeWindow);
-    
-    const recentReports = reports.filter(r => r.timestamp >= cutoffTime);
+    const severityWeight = config?.severityWeight ?? this.severityWeight;
     
-    if (recentReports.length < minPoints) {
-      return [];
-    }
-    
-    // Convert to GeoJSON for Turf.js processing
-    const geoPoints = turf.featureCollection(
-      recentReports.map(r => 
-        turf.point(r.coordinates, {
-          id: r.id,
-          severity: r.severity,
-          hazardType: r.hazardType,
-          timestamp: r.timestamp.toISOString(),
-          aiConfidence: r.aiConfidence
-        })
-      )
-    );
-    
-    // Apply DBSCAN clustering
-    const clustered = clustersDbscan(geoPoints, epsilon, {
-      minPoints: minPoints,
-      mutate: false
-    });
-    
-    // Extract and analyze clusters
-    const clusters = new Map<number, typeof recentReports>();
-    
-    clustered.features.forEach((feature, idx) => {
-      const clusterNum = feature.properties?.cluster;
-      if (clusterNum !== undefined && clusterNum !== -1) {
-        if (!clusters.has(clusterNum)) {
-          clusters.set(clusterNum, []);
-        }
-        clusters.get(clusterNum)!.push(recentReports[idx]);
-      }
+    // Cluster ids are numbered across passes so they stay unique
+    const clusters = new Map<number, { reports: SpatialDataPoint[]; epsilonKm: number }>();
+    this.getClusteringPasses(reports, config).forEach(pass => {
+      const offset = clusters.size;
+      this.clusterPoints(pass, minPoints, severityWeight).forEach((clusterReports, clusterNum) => {
+        clusters.set(offset + clusterNum, { reports: clusterReports, epsilonKm: pass.epsilonKm });
+      });
     });
     
     // Generate hotspot analytics
     const hotspots: HotspotResult[] = [];
     
-    clusters.forEach((clusterReports, clusterId) => {
+    clusters.forEach(({ reports: clusterReports, epsilonKm }, clusterId) => {
       const coords = clusterReports.map(r => r.coordinates);
+      const locationWeights = clusterReports.map(r => getLocationWeight(r.locationAccuracyM, epsilonKm * 1000));
+      const totalLocationWeight = locationWeights.reduce((sum, w) => sum + w, 0);
       
-      // Calculate centroid
-      const centroidPoint = centroid(
-        turf.featureCollection(coords.map(c => turf.point(c)))
-      );
-      const centroidCoords: [number, number] = centroidPoint.geometry.coordinates as [number, number];
+      // Calculate centroid, pulled towards the precisely located reports
+      const centroidCoords: [number, number] = [
+        coords.reduce((sum, c, i) => sum + c[0] * locationWeights[i], 0) / totalLocationWeight,
+        coords.reduce((sum, c, i) => sum + c[1] * locationWeights[i], 0) / totalLocationWeight
+      ];
       
       // Calculate average severity
       const avgSeverity = clusterReports.reduce((sum, r) => sum + r.severity, 0) / clusterReports.length;
+      const weightedSeverity = clusterReports.reduce((sum, r, i) => sum + r.severity * locationWeights[i], 0) / totalLocationWeight;
       
       // Extract unique hazard types
       const hazardTypes = [...new Set(clusterReports.map(r => r.hazardType))];
@@ -128,8 +209,8 @@ export class SpatialDataMiningService {
       
       // NOVEL PATENT FEATURE: Multi-factor Risk Score
       const riskScore = this.calculateAdvancedRiskScore({
-        reportCount: clusterReports.length,
-        avgSeverity,
+        reportCount: totalLocationWeight,
+        avgSeverity: weightedSeverity,
         spatialDensity,
         temporalIntensity,
         hazardDiversity: hazardTypes.length,
@@ -137,7 +218,7 @@ export class SpatialDataMiningService {
       });
       
       // Confidence score based on data quality
-      const confidence = this.calculateClusterConfidence(clusterReports);
+      const confidence = this.calculateClusterConfidence(clusterReports, totalLocationWeight / clusterReports.length);
       
       hotspots.push({
         clusterId,
@@ -149,13 +230,206 @@ export class SpatialDataMiningService {
         spatialDensity,
         temporalIntensity,
         boundingBox: this.bboxToCoordinates(bboxCoords),
-        confidence
+        confidence,
+        reportIds: clusterReports.map(r => r.id)
       });
     });
     
     // Sort by risk score descending
     return hotspots.sort((a, b) => b.riskScore - a.riskScore);
   }
+
+  /**
+   * OPTICS ordering of the reports detectHotspots would cluster, one plot per pass
+   *
+   * Shows the density structure at every radius up to the configured ones:
+   * nested hotspots appear as valleys within valleys, and a reachability just
+   * above 1 means a hotspot barely missed merging with its neighbour.
+   */
+  computeReachability(reports: SpatialDataPoint[], config?: HotspotDetectionConfig): ReachabilityPlot[] {
+    const minPoints = config?.minPoints || this.minPoints;
+    const severityWeight = config?.severityWeight ?? this.severityWeight;
+    
+    return this.getClusteringPasses(reports, config).map(pass => {
+      const { reports: points, epsilonKm, epsilonHours, hazardType } = pass;
+      const neighbourhoods = this.findNeighbourhoods(pass);
+      const weights = points.map(r => this.getDensityWeight(r, severityWeight));
+      
+      // Distance at which the weighted neighbourhood first reaches minPoints
+      const coreDistances = neighbourhoods.map(neighbours => {
+        let density = 0;
+        for (const neighbour of [...neighbours].sort((a, b) => a.distance - b.distance)) {
+          density += weights[neighbour.index];
+          if (density >= minPoints) return neighbour.distance;
+        }
+        return null;
+      });
+      
+      const reachabilities = new Array<number>(points.length).fill(Infinity);
+      const processed = new Array<boolean>(points.length).fill(false);
+      const ordered: ReachabilityPoint[] = [];
+      
+      const process = (index: number, seeds: Set<number>) => {
+        processed[index] = true;
+        ordered.push({
+          id: points[index].id,
+          reachability: Number.isFinite(reachabilities[index]) ? reachabilities[index] : null,
+          coreDistance: coreDistances[index]
+        });
+        const coreDistance = coreDistances[index];
+        if (coreDistance === null) return;
+        neighbourhoods[index].forEach(({ index: neighbour, distance }) => {
+          if (processed[neighbour]) return;
+          const reachability = Math.max(coreDistance, distance);
+          if (reachability < reachabilities[neighbour]) {
+            reachabilities[neighbour] = reachability;
+            seeds.add(neighbour);
+          }
+        });
+      };
+      
+      points.forEach((_, start) => {
+        if (processed[start]) return;
+        const seeds = new Set<number>();
+        process(start, seeds);
+        // Expand towards the most reachable report first
+        while (seeds.size > 0) {
+          let next = -1;
+          seeds.forEach(index => {
+            if (next === -1 || reachabilities[index] < reachabilities[next]) next = index;
+          });
+          seeds.delete(next);
+          process(next, seeds);
+        }
+      });
+      
+      return { hazardType, epsilonKm, epsilonHours, points: ordered };
+    });
+  }
+
+  /**
+   * Reports in the time window, split into one clustering pass per hazard type
+   * (or a single one when hazard profiles are off), each sorted by time
+   */
+  private getClusteringPasses(reports: SpatialDataPoint[], config?: HotspotDetectionConfig): ClusteringPass[] {
+    const epsilon = config?.epsilon || this.epsilon;
+    const temporalEpsilonHours = config?.temporalEpsilonHours || this.temporalEpsilonHours;
+    const useHazardProfiles = config?.useHazardProfiles ?? config?.epsilon === undefined;
+    const minPoints = config?.minPoints || this.minPoints;
+    const severityWeight = config?.severityWeight ?? this.severityWeight;
+    const timeWindow = config?.timeWindowHours || 72; // 3 days default
+    // A few severe reports can reach minPoints on their own, so passes are skipped by weighted density
+    const density = (points: SpatialDataPoint[]) =>
+      points.reduce((sum, r) => sum + this.getDensityWeight(r, severityWeight), 0);
+    
+    // Filter reports within time window
+    const referenceTime = config?.referenceTime || new Date();
+    const cutoffTime = new Date(referenceTime.getTime() - timeWindow * 60 * 60 * 1000);
+    
+    const recentReports = reports.filter(r => r.timestamp >= cutoffTime && r.timestamp <= referenceTime);
+    
+    if (density(recentReports) < minPoints) {
+      return [];
+    }
+    
+    // Cluster each hazard type with its own radii, or everything with one epsilon
+    const passes = new Map<string, ClusteringPass>();
+    recentReports.forEach(r => {
+      const profile = useHazardProfiles ? getGroupingProfile(r.hazardType) : null;
+      const key = profile ? profile.hazardType : 'all';
+      if (!passes.has(key)) {
+        passes.set(key, {
+          hazardType: key,
+          epsilonKm: profile ? profile.radiusMeters / 1000 : epsilon,
+          epsilonHours: profile ? config?.temporalEpsilonHours || profile.temporalWindowHours : temporalEpsilonHours,
+          reports: []
+        });
+      }
+      passes.get(key)!.reports.push(r);
+    });
+    
+    return [...passes.values()]
+      .map(pass => ({
+        ...pass,
+        // A position vaguer than the clustering radius cannot place a report in any cluster
+        reports: pass.reports
+          .filter(r => (r.locationAccuracyM ?? 0) <= pass.epsilonKm * 1000)
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      }))
+      .filter(pass => density(pass.reports) >= minPoints);
+  }
+
+  /**
+   * One ST-DBSCAN pass; returns the clusters in discovery order, noise dropped
+   */
+  private clusterPoints(pass: ClusteringPass, minPoints: number, severityWeight: number): SpatialDataPoint[][] {
+    const { reports: points } = pass;
+    const neighbourhoods = this.findNeighbourhoods(pass);
+    const isCore = neighbourhoods.map(neighbours =>
+      neighbours.reduce((density, { index }) => density + this.getDensityWeight(points[index], severityWeight), 0) >= minPoints
+    );
+    
+    const NOISE = -1;
+    const labels = new Array<number | undefined>(points.length).fill(undefined);
+    let clusterCount = 0;
+    
+    points.forEach((_, start) => {
+      if (labels[start] !== undefined) return;
+      if (!isCore[start]) {
+        labels[start] = NOISE; // May still become a border point of a later cluster
+        return;
+      }
+      
+      const clusterId = clusterCount++;
+      labels[start] = clusterId;
+      const queue = neighbourhoods[start].map(n => n.index);
+      while (queue.length > 0) {
+        const index = queue.pop()!;
+        if (labels[index] === NOISE) labels[index] = clusterId;
+        if (labels[index] !== undefined) continue;
+        labels[index] = clusterId;
+        if (isCore[index]) queue.push(...neighbourhoods[index].map(n => n.index));
+      }
+    });
+    
+    const clusters: SpatialDataPoint[][] = Array.from({ length: clusterCount }, () => []);
+    labels.forEach((label, index) => {
+      if (label !== undefined && label !== NOISE) clusters[label].push(points[index]);
+    });
+    return clusters;
+  }
+
+  /**
+   * Every report's spatio-temporal neighbours, itself included, with their
+   * distance in units of the neighbourhood (see ReachabilityPoint)
+   */
+  private findNeighbourhoods(pass: ClusteringPass): Array<Array<{ index: number; distance: number }>> {
+    const { reports: points, epsilonKm, epsilonHours } = pass;
+    const epsilonMs = epsilonHours * 60 * 60 * 1000;
+    
+    return points.map((point, index) => {
+      const time = point.timestamp.getTime();
+      const neighbours: Array<{ index: number; distance: number }> = [];
+      // Reports are sorted by time, so only the ones within the temporal radius are compared
+      let first = index;
+      while (first > 0 && time - points[first - 1].timestamp.getTime() <= epsilonMs) first--;
+      for (let other = first; other < points.length; other++) {
+        const gap = points[other].timestamp.getTime() - time;
+        if (gap > epsilonMs) break;
+        const km = this.haversineDistance(point.coordinates[1], point.coordinates[0], points[other].coordinates[1], points[other].coordinates[0]);
+        if (km > epsilonKm) continue;
+        neighbours.push({ index: other, distance: Math.max(km / epsilonKm, Math.abs(gap) / epsilonMs) });
+      }
+      return neighbours;
+    });
+  }
+
+  /**
+   * How much a report counts towards core-point density
+   */
+  private getDensityWeight(report: SpatialDataPoint, severityWeight: number): number {
+    return Math.pow(Math.max(report.severity, 0) / BASELINE_SEVERITY, severityWeight);
+  }
   
   /**
    * PATENT-WORTHY ALGORITHM: Adaptive Multi-Factor Risk Scoring
@@ -201,12 +475,12 @@ export class SpatialDataMiningService {
     return Math.round(riskScore * 100);
   }
   
-  private calculateClusterConfidence(reports: SpatialDataPoint[]): number {
+  private calculateClusterConfidence(reports: SpatialDataPoint[], avgLocationWeight: number = 1): number {
     const avgAiConfidence = reports.reduce((sum, r) => sum + r.aiConfidence, 0) / reports.length;
     const sampleSize = reports.length;
     const sampleSizeConfidence = Math.min(sampleSize / 10, 1.0); // 10+ reports = full confidence
     
-    return (avgAiConfidence * 0.7 + sampleSizeConfidence * 0.3);
+    return (avgAiConfidence * 0.5 + sampleSizeConfidence * 0.3 + avgLocationWeight * 0.2);
   }
   
   private calculateBBoxArea(bboxCoords: number[]): number {
@@ -245,117 +519,231 @@ export class SpatialDataMiningService {
   }
   
   /**
-   * ST-DBSCAN: Spatial-Temporal DBSCAN variant for evolving hazards
+   * Hotspots of consecutive time windows, for evolving hazards
    * Tracks how hotspots move and intensify over time
+   *
+   * The trajectory runs newest window first, ending at options.endTime (now by
+   * default); each window carries the movement of its hotspots since the
+   * window before it.
    */
   async detectEvolvingHotspots(
     reports: SpatialDataPoint[],
-    timeIntervalHours: number = 24
+    timeIntervalHours: number = 24,
+    options: { endTime?: Date; intervals?: number } = {}
   ): Promise<{
-    currentHotspots: HotspotResult[];
-    historicalTrajectory: Array<{
-      timeWindow: string;
-      hotspots: HotspotResult[];
-    }>;
-    movementVectors: Array<{
-      hotspotId: number;
-      displacement: number;
-      direction: number;
-      velocityKmPerDay: number;
-    }>;
+    currentHotspots: TrackedHotspot[];
+    historicalTrajectory: EvolutionWindow[];
+    movementVectors: HotspotMovementVector[];
   }> {
     
-    const now = new Date();
-    const intervals = 7; // Last 7 time intervals
-    const historicalTrajectory = [];
+    const end = options.endTime || new Date();
+    const intervals = options.intervals || 7; // Last 7 time intervals
+    const windows: Array<{ timeWindow: string; startTime: Date; endTime: Date; hotspots: HotspotResult[] }> = [];
     
     // Analyze each time window
     for (let i = 0; i < intervals; i++) {
-      const endTime = new Date(now.getTime() - i * timeIntervalHours * 60 * 60 * 1000);
+      const endTime = new Date(end.getTime() - i * timeIntervalHours * 60 * 60 * 1000);
       const startTime = new Date(endTime.getTime() - timeIntervalHours * 60 * 60 * 1000);
       
       const windowReports = reports.filter(r => 
         r.timestamp >= startTime && r.timestamp < endTime
       );
       
-      const hotspots = await this.detectHotspots(windowReports, { timeWindowHours: timeIntervalHours });
+      const hotspots = await this.detectHotspots(windowReports, {
+        timeWindowHours: timeIntervalHours,
+        referenceTime: endTime
+      });
       
-      historicalTrajectory.push({
+      windows.push({
         timeWindow: `${startTime.toISOString()} to ${endTime.toISOString()}`,
+        startTime,
+        endTime,
         hotspots
       });
     }
     
-    // Calculate movement vectors
-    const movementVectors = this.calculateHotspotMovement(historicalTrajectory, timeIntervalHours);
+    // Track hotspots from the oldest window forward, so each keeps its id
+    const historicalTrajectory = new Array<EvolutionWindow>(windows.length);
+    let previous: TrackedHotspot[] = [];
+    for (let index = windows.length - 1; index >= 0; index--) {
+      const tracking = this.trackHotspots(previous, windows[index].hotspots);
+      historicalTrajectory[index] = {
+        ...windows[index],
+        hotspots: tracking.hotspots,
+        movementVectors: tracking.continuations.map(({ previous: before, current }) =>
+          this.toMovementVector(before, current, timeIntervalHours)
+        ),
+        changes: tracking.changes
+      };
+      previous = tracking.hotspots;
+    }
     
     return {
       currentHotspots: historicalTrajectory[0]?.hotspots || [],
       historicalTrajectory,
-      movementVectors
+      movementVectors: historicalTrajectory[0]?.movementVectors || []
     };
   }
   
-  private calculateHotspotMovement(
-    trajectory: Array<{ timeWindow: string; hotspots: HotspotResult[] }>,
-    timeIntervalHours: number
-  ): Array<{ hotspotId: number; displacement: number; direction: number; velocityKmPerDay: number }> {
-    
-    if (trajectory.length < 2) return [];
-    
-    const movements: Array<{ hotspotId: number; displacement: number; direction: number; velocityKmPerDay: number }> = [];
-    const current = trajectory[0].hotspots;
-    const previous = trajectory[1].hotspots;
-    
-    // Match hotspots between time periods (simple nearest-neighbor matching)
-    current.forEach(currentHotspot => {
-      const nearest = this.findNearestHotspot(currentHotspot, previous);
-      
-      if (nearest && nearest.distance < 100) { // Within 100km
-        const displacement = nearest.distance;
-        const direction = this.calculateBearing(
-          nearest.hotspot.centroid[1],
-          nearest.hotspot.centroid[0],
-          currentHotspot.centroid[1],
-          currentHotspot.centroid[0]
-        );
-        const velocityKmPerDay = displacement / (timeIntervalHours / 24);
-        
-        movements.push({
-          hotspotId: currentHotspot.clusterId,
-          displacement,
-          direction,
-          velocityKmPerDay
+  /**
+   * Give the hotspots of a new time window (or a new run) the identities of the
+   * ones they continue
+   *
+   * Two hotspots match when they share enough reports, or when their centroids
+   * lie within the extent of either. A hotspot keeps its id through its strongest
+   * match; one matching several earlier hotspots merged them, and an earlier
+   * hotspot matched by several new ones split. Matched hotspots whose report
+   * count changed by more than sizeChangeRatio grew or decayed; unmatched new
+   * hotspots are born and unmatched earlier ones closed.
+   */
+  trackHotspots(
+    previous: HotspotFootprint[],
+    current: HotspotResult[],
+    createId: () => string = createHotspotId
+  ): HotspotTrackingResult {
+    const { sizeChangeRatio } = HOTSPOT_TRACKING_SETTINGS;
+
+    const links: Array<{ previous: number; current: number; score: number }> = [];
+    previous.forEach((before, previousIndex) => {
+      current.forEach((after, currentIndex) => {
+        const score = this.matchHotspots(before, after);
+        if (score > 0) links.push({ previous: previousIndex, current: currentIndex, score });
+      });
+    });
+    links.sort((a, b) => b.score - a.score);
+
+    // Strongest links first: each earlier id is carried on by one new hotspot at most
+    const inheritedFrom = new Map<number, number>(); // current index -> previous index
+    const claimed = new Set<number>();
+    links.forEach(link => {
+      if (inheritedFrom.has(link.current) || claimed.has(link.previous)) return;
+      inheritedFrom.set(link.current, link.previous);
+      claimed.add(link.previous);
+    });
+
+    const hotspots: TrackedHotspot[] = current.map((hotspot, index) => ({
+      ...hotspot,
+      hotspotId: inheritedFrom.has(index) ? previous[inheritedFrom.get(index)!].hotspotId : createId()
+    }));
+    // Links are sorted, so the first one of a hotspot is its strongest
+    const strongestPrevious = (currentIndex: number) => links.find(link => link.current === currentIndex)?.previous;
+
+    const changes: HotspotLifecycleChange[] = [];
+    const continuations: HotspotTrackingResult['continuations'] = [];
+    const absorbedInto = new Map<number, string>(); // previous index -> id of the hotspot it merged into
+
+    hotspots.forEach((hotspot, index) => {
+      const parentIndex = inheritedFrom.get(index);
+
+      if (parentIndex === undefined) {
+        // Split off an earlier hotspot whose id went to a stronger match, or new
+        const splitFrom = strongestPrevious(index);
+        changes.push(splitFrom !== undefined
+          ? { hotspotId: hotspot.hotspotId, event: 'split', relatedHotspotIds: [previous[splitFrom].hotspotId], previous: previous[splitFrom], current: hotspot }
+          : { hotspotId: hotspot.hotspotId, event: 'born', relatedHotspotIds: [], previous: null, current: hotspot });
+        return;
+      }
+
+      const parent = previous[parentIndex];
+      continuations.push({ previous: parent, current: hotspot });
+
+      // Earlier hotspots that carry on nowhere else were absorbed into this one
+      const merged = links
+        .filter(link => link.current === index && !claimed.has(link.previous) && !absorbedInto.has(link.previous))
+        .map(link => link.previous);
+      merged.forEach(previousIndex => absorbedInto.set(previousIndex, hotspot.hotspotId));
+      if (merged.length > 0) {
+        changes.push({
+          hotspotId: hotspot.hotspotId,
+          event: 'merged',
+          relatedHotspotIds: merged.map(previousIndex => previous[previousIndex].hotspotId),
+          previous: parent,
+          current: hotspot
         });
       }
-    });
-    
-    return movements;
-  }
-  
-  private findNearestHotspot(
-    target: HotspotResult,
-    candidates: HotspotResult[]
-  ): { hotspot: HotspotResult; distance: number } | null {
-    
-    let nearest = null;
-    let minDistance = Infinity;
-    
-    candidates.forEach(candidate => {
-      const dist = this.haversineDistance(
-        target.centroid[1], target.centroid[0],
-        candidate.centroid[1], candidate.centroid[0]
+
+      const splitOff = hotspots.filter((_, currentIndex) =>
+        !inheritedFrom.has(currentIndex) && strongestPrevious(currentIndex) === parentIndex
       );
-      
-      if (dist < minDistance) {
-        minDistance = dist;
-        nearest = candidate;
+      if (splitOff.length > 0) {
+        changes.push({
+          hotspotId: hotspot.hotspotId,
+          event: 'split',
+          relatedHotspotIds: splitOff.map(child => child.hotspotId),
+          previous: parent,
+          current: hotspot
+        });
+      }
+
+      if (merged.length === 0 && splitOff.length === 0) {
+        const sizeChange = (hotspot.reportCount - parent.reportCount) / parent.reportCount;
+        if (sizeChange >= sizeChangeRatio) {
+          changes.push({ hotspotId: hotspot.hotspotId, event: 'grew', relatedHotspotIds: [], previous: parent, current: hotspot });
+        } else if (sizeChange <= -sizeChangeRatio) {
+          changes.push({ hotspotId: hotspot.hotspotId, event: 'decayed', relatedHotspotIds: [], previous: parent, current: hotspot });
+        }
       }
     });
-    
-    return nearest ? { hotspot: nearest, distance: minDistance } : null;
+
+    // Earlier hotspots carried on by no new one closed, some by merging into another
+    previous.forEach((before, index) => {
+      if (claimed.has(index)) return;
+      const intoId = absorbedInto.get(index);
+      changes.push({ hotspotId: before.hotspotId, event: 'closed', relatedHotspotIds: intoId ? [intoId] : [], previous: before, current: null });
+    });
+
+    return { hotspots, changes, continuations };
   }
-  
+
+  /**
+   * Match strength between an earlier and a later hotspot; 0 when they do not match
+   */
+  private matchHotspots(before: HotspotFootprint, after: HotspotResult): number {
+    const { minOverlap, minMatchDistanceKm } = HOTSPOT_TRACKING_SETTINGS;
+
+    const earlierReports = new Set(before.reportIds);
+    const shared = after.reportIds.filter(id => earlierReports.has(id)).length;
+    const smaller = Math.min(before.reportIds.length, after.reportIds.length);
+    const overlap = smaller > 0 ? shared / smaller : 0;
+
+    const distance = this.haversineDistance(before.centroid[1], before.centroid[0], after.centroid[1], after.centroid[0]);
+    const reach = Math.max(minMatchDistanceKm, this.getExtentKm(before.boundingBox), this.getExtentKm(after.boundingBox));
+
+    if (overlap < minOverlap && distance > reach) return 0;
+    return overlap + Math.max(0, 1 - distance / reach);
+  }
+
+  /**
+   * Half the diagonal of a hotspot's bounding box
+   */
+  private getExtentKm(boundingBox: number[][]): number {
+    if (boundingBox.length < 3) return 0;
+    const [[minLon, minLat], , [maxLon, maxLat]] = boundingBox;
+    return this.haversineDistance(minLat, minLon, maxLat, maxLon) / 2;
+  }
+
+  /**
+   * Distance in km and compass bearing in degrees from one [lng, lat] centroid to another
+   */
+  describeMovement(from: [number, number], to: [number, number]): { distanceKm: number; bearing: number } {
+    return {
+      distanceKm: this.haversineDistance(from[1], from[0], to[1], to[0]),
+      bearing: this.calculateBearing(from[1], from[0], to[1], to[0])
+    };
+  }
+
+  private toMovementVector(before: HotspotFootprint, after: TrackedHotspot, timeIntervalHours: number): HotspotMovementVector {
+    const displacement = this.haversineDistance(before.centroid[1], before.centroid[0], after.centroid[1], after.centroid[0]);
+    return {
+      hotspotId: after.hotspotId,
+      displacement,
+      direction: this.calculateBearing(before.centroid[1], before.centroid[0], after.centroid[1], after.centroid[0]),
+      velocityKmPerDay: displacement / (timeIntervalHours / 24),
+      fromCentroid: before.centroid,
+      toCentroid: after.centroid
+    };
+  }
+
   private calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
     const dLon = this.toRad(lon2 - lon1);
     const y = Math.sin(dLon) * Math.cos(this.toRad(lat2));
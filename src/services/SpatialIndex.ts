@@ -0,0 +1,270 @@
+/**
+ * Spatial Index for Nivaran Report Grouping
+ *
+ * In-memory geohash index of reports, queryable by radius and time window.
+ * A radius query only measures distances to items in the geohash cells that
+ * overlap the search circle, instead of scanning every report, which keeps
+ * duplicate detection fast when thousands of reports arrive during a cyclone.
+ * Items are inserted, moved and removed incrementally.
+ */
+
+import { geospatialUtils, GeoCoordinate } from './GeospatialUtils';
+
+/**
+ * Minimum shape of anything stored in the index
+ */
+export interface SpatialIndexItem {
+  id: string;
+  location?: GeoCoordinate;
+  createdAt: Date;
+}
+
+/**
+ * Radius and optional time window to search
+ */
+export interface SpatialQuery {
+  center: GeoCoordinate;
+  radiusMeters: number;
+  from?: Date; // Inclusive bounds on createdAt
+  to?: Date;
+}
+
+export interface SpatialQueryResult<T> {
+  item: T;
+  distance: number; // Meters from the query center
+}
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const DEFAULT_PRECISION = 6; // Cells of roughly 1.2 km x 0.6 km at the equator
+const MAX_CELLS_PER_QUERY = 256; // Wider searches scan all items instead
+
+/**
+ * Encode a coordinate as a geohash string
+ */
+export function encodeGeohash(coord: GeoCoordinate, precision: number = DEFAULT_PRECISION): string {
+  let latMin = -90, latMax = 90;
+  let lonMin = -180, lonMax = 180;
+  let hash = '';
+  let bits = 0;
+  let charIndex = 0;
+  let evenBit = true; // Geohash bits alternate longitude, latitude
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      if (coord.longitude >= mid) {
+        charIndex = (charIndex << 1) | 1;
+        lonMin = mid;
+      } else {
+        charIndex = charIndex << 1;
+        lonMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (coord.latitude >= mid) {
+        charIndex = (charIndex << 1) | 1;
+        latMin = mid;
+      } else {
+        charIndex = charIndex << 1;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_BASE32[charIndex];
+      bits = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Size in degrees of a geohash cell at the given precision
+ */
+export function geohashCellSize(precision: number): { latDegrees: number; lonDegrees: number } {
+  const totalBits = precision * 5;
+  const lonBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return {
+    latDegrees: 180 / Math.pow(2, latBits),
+    lonDegrees: 360 / Math.pow(2, lonBits)
+  };
+}
+
+/**
+ * Geohash-bucketed index of located items, plus a list of items without a location
+ */
+export class SpatialIndex<T extends SpatialIndexItem> {
+  private cells = new Map<string, Map<string, T>>();
+  private cellById = new Map<string, string>();
+  private unlocated = new Map<string, T>();
+  private readonly precision: number;
+
+  constructor(precision: number = DEFAULT_PRECISION) {
+    this.precision = precision;
+  }
+
+  /**
+   * Number of indexed items, located or not
+   */
+  public get size(): number {
+    return this.cellById.size + this.unlocated.size;
+  }
+
+  /**
+   * Insert an item, or move it if its location changed
+   */
+  public upsert(item: T): void {
+    this.remove(item.id);
+
+    if (!item.location || !geospatialUtils.isValidCoordinate(item.location)) {
+      this.unlocated.set(item.id, item);
+      return;
+    }
+
+    const cell = encodeGeohash(item.location, this.precision);
+    let bucket = this.cells.get(cell);
+    if (!bucket) {
+      bucket = new Map();
+      this.cells.set(cell, bucket);
+    }
+    bucket.set(item.id, item);
+    this.cellById.set(item.id, cell);
+  }
+
+  public upsertMany(items: T[]): void {
+    items.forEach(item => this.upsert(item));
+  }
+
+  /**
+   * Remove an item by id
+   * @returns whether the item was indexed
+   */
+  public remove(id: string): boolean {
+    if (this.unlocated.delete(id)) {
+      return true;
+    }
+
+    const cell = this.cellById.get(id);
+    if (cell === undefined) {
+      return false;
+    }
+
+    const bucket = this.cells.get(cell);
+    bucket?.delete(id);
+    if (bucket && bucket.size === 0) {
+      this.cells.delete(cell);
+    }
+    this.cellById.delete(id);
+    return true;
+  }
+
+  public get(id: string): T | undefined {
+    const cell = this.cellById.get(id);
+    return cell !== undefined ? this.cells.get(cell)?.get(id) : this.unlocated.get(id);
+  }
+
+  public has(id: string): boolean {
+    return this.cellById.has(id) || this.unlocated.has(id);
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.cellById.clear();
+    this.unlocated.clear();
+  }
+
+  /**
+   * Located items within the radius and time window, closest first
+   */
+  public queryRadius(query: SpatialQuery): Array<SpatialQueryResult<T>> {
+    if (!geospatialUtils.isValidCoordinate(query.center)) {
+      return [];
+    }
+
+    const cells = this.getCoveringCells(query.center, query.radiusMeters);
+    const buckets = cells
+      ? cells.map(cell => this.cells.get(cell)).filter((bucket): bucket is Map<string, T> => bucket !== undefined)
+      : Array.from(this.cells.values());
+
+    const results: Array<SpatialQueryResult<T>> = [];
+    for (const bucket of buckets) {
+      for (const item of bucket.values()) {
+        if (!this.isInTimeWindow(item, query.from, query.to)) {
+          continue;
+        }
+        const distance = geospatialUtils.calculateDistance(query.center, item.location as GeoCoordinate);
+        if (distance <= query.radiusMeters) {
+          results.push({ item, distance });
+        }
+      }
+    }
+
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * All items created within the time window, located or not
+   */
+  public queryTimeWindow(from?: Date, to?: Date): T[] {
+    const results: T[] = [];
+    for (const bucket of this.cells.values()) {
+      for (const item of bucket.values()) {
+        if (this.isInTimeWindow(item, from, to)) {
+          results.push(item);
+        }
+      }
+    }
+    return results.concat(this.getUnlocated(from, to));
+  }
+
+  /**
+   * Items without a usable location, which a radius query can never return
+   */
+  public getUnlocated(from?: Date, to?: Date): T[] {
+    return Array.from(this.unlocated.values()).filter(item => this.isInTimeWindow(item, from, to));
+  }
+
+  private isInTimeWindow(item: T, from?: Date, to?: Date): boolean {
+    const time = item.createdAt.getTime();
+    return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+  }
+
+  /**
+   * Geohash cells overlapping the bounding box of the search circle,
+   * or null when there are too many to be worth enumerating
+   */
+  private getCoveringCells(center: GeoCoordinate, radiusMeters: number): string[] | null {
+    const box = geospatialUtils.createBoundingBoxFromRadius(center, radiusMeters);
+    const { latDegrees, lonDegrees } = geohashCellSize(this.precision);
+    const rowCount = Math.round(180 / latDegrees);
+    const columnCount = Math.round(360 / lonDegrees);
+
+    const firstRow = Math.max(0, Math.floor((box.south + 90) / latDegrees));
+    const lastRow = Math.min(rowCount - 1, Math.floor((box.north + 90) / latDegrees));
+    const firstColumn = Math.floor((box.west + 180) / lonDegrees);
+    const lastColumn = Math.floor((box.east + 180) / lonDegrees);
+
+    const columnSpan = lastColumn - firstColumn + 1;
+    if (!Number.isFinite(columnSpan) || columnSpan >= columnCount ||
+        (lastRow - firstRow + 1) * columnSpan > MAX_CELLS_PER_QUERY) {
+      return null;
+    }
+
+    const cells: string[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        // Wrap columns across the antimeridian
+        const wrapped = ((column % columnCount) + columnCount) % columnCount;
+        cells.push(encodeGeohash({
+          latitude: -90 + (row + 0.5) * latDegrees,
+          longitude: -180 + (wrapped + 0.5) * lonDegrees
+        }, this.precision));
+      }
+    }
+    return cells;
+  }
+}
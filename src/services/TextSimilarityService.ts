@@ -4,8 +4,18 @@
  * Provides lightweight NLP capabilities for detecting textually similar reports
  * using vector embeddings and cosine similarity. This service is designed to be
  * efficient and work in browser environments without heavy ML dependencies.
+ *
+ * Reports may be written in English, Hindi, Marathi, Bengali, Tamil, Telugu or
+ * Kannada, in native script or romanized. Tokens are stemmed per script and
+ * reduced to a phonetic key, and ocean hazard vocabulary in every language maps
+ * to one English term, so "toofan", "तूफ़ान" and "cyclone" all match. Only
+ * Indic-script words are matched to the hazard lexicon by sound; romanized
+ * words must be listed exactly, so English words like "bad" or "poor" never
+ * turn into a hazard.
  */
 
+import { INDIC_STOPWORDS, detectScript, phoneticKey, stemIndic } from '../utils/indicText';
+
 // Simple stopwords for English (can be expanded)
 const STOPWORDS = new Set([
   'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
@@ -16,7 +26,9 @@ const STOPWORDS = new Set([
   'there', 'where', 'when', 'why', 'how', 'what', 'which', 'who',
   'but', 'or', 'if', 'then', 'than', 'so', 'very', 'just', 'now',
   'also', 'only', 'more', 'most', 'much', 'many', 'some', 'any',
-  'all', 'each', 'every', 'few', 'little', 'less', 'least', 'own'
+  'all', 'each', 'every', 'few', 'little', 'less', 'least', 'own',
+  // Romanized Hindi
+  'hai', 'hain', 'aur', 'nahi', 'nahin', 'bahut', 'raha', 'rahi', 'rahe', 'gaya', 'gayi', 'yeh', 'woh', 'yaha', 'waha'
 ]);
 
 // Common ocean hazard and marine safety terms that should have higher weight
@@ -30,6 +42,54 @@ const OCEAN_HAZARD_KEYWORDS = new Set([
   'moderate', 'weak', 'rip', 'undertow', 'coral', 'reef', 'sand'
 ]);
 
+// Ocean hazard vocabulary in the supported languages, native and romanized, keyed by the English term.
+// Native-script entries also match spelling variants through their phonetic key; romanized entries
+// only match the exact word
+const MULTILINGUAL_HAZARD_TERMS: Record<string, string[]> = {
+  tsunami: ['सुनामी', 'त्सुनामी', 'সুনামি', 'சுனாமி', 'సునామీ', 'ಸುನಾಮಿ', 'sunami'],
+  cyclone: [
+    'चक्रवात', 'तूफ़ान', 'तूफान', 'चक्रीवादळ', 'वादळ', 'ঘূর্ণিঝড়', 'சூறாவளி', 'புயல்', 'తుఫాను', 'చక్రవాతం', 'ಚಂಡಮಾರುತ',
+    'toofan', 'tufan', 'tufaan', 'chakravat', 'vadal', 'puyal'
+  ],
+  storm: ['आंधी', 'आँधी', 'ঝড়', 'గాలివాన', 'aandhi', 'andhi', 'jhor'],
+  wave: ['लहर', 'लाट', 'ঢেউ', 'அலை', 'అల', 'కెరటం', 'ಅಲೆ', 'lahar', 'lehar', 'alai', 'dheu'],
+  flood: ['बाढ़', 'बाढ', 'महापूर', 'বন্যা', 'வெள்ளம்', 'వరద', 'ಪ್ರವಾಹ', 'baadh', 'bonna', 'vellam', 'varada', 'pravaha'],
+  sea: [
+    'समुद्र', 'समुंदर', 'सागर', 'সমুদ্র', 'সাগর', 'கடல்', 'సముద్రం', 'ಸಮುದ್ರ',
+    'samudra', 'samundar', 'sagar', 'kadal', 'samudram'
+  ],
+  tide: ['ज्वार', 'भरती', 'জোয়ার', 'ஓதம்', 'jwar', 'bharti', 'joar'],
+  current: ['धारा', 'நீரோட்டம்', 'dhara'],
+  erosion: ['कटाव', 'ভাঙন', 'அரிப்பு', 'కోత', 'ಸವೆತ', 'katav', 'bhangan'],
+  water: [
+    'पानी', 'जल', 'पाणी', 'জল', 'পানি', 'நீர்', 'தண்ணீர்', 'నీరు', 'నీళ్లు', 'ನೀರು',
+    'paani', 'pani', 'jal', 'neer', 'neeru', 'thanni'
+  ],
+  wind: ['हवा', 'वारा', 'বাতাস', 'হাওয়া', 'காற்று', 'గాలి', 'ಗಾಳಿ', 'hawa', 'hava', 'batas', 'kaatru', 'gaali'],
+  boat: ['नाव', 'होडी', 'নৌকা', 'படகு', 'పడవ', 'ದೋಣಿ', 'naav', 'hodi', 'nouka', 'padagu', 'padava', 'doni'],
+  fishing: [
+    'मछुआरा', 'मछुआरे', 'मछली', 'मासेमारी', 'जेले', 'জেলে', 'মাছ', 'மீனவர்', 'மீன்', 'మత్స్యకారులు', 'చేప', 'ಮೀನು',
+    'machhuara', 'machuare', 'machli', 'machhli', 'meen', 'meenavar'
+  ],
+  shore: [
+    'तट', 'किनारा', 'किनारे', 'সৈকত', 'তীর', 'கடற்கரை', 'తీరం', 'ಕಡಲತೀರ', 'ತೀರ',
+    'kinara', 'kinare', 'kinaara', 'kadarkarai', 'teeram'
+  ],
+  danger: [
+    'खतरा', 'ख़तरा', 'धोका', 'বিপদ', 'ஆபத்து', 'ప్రమాదం', 'ಅಪಾಯ',
+    'khatra', 'khatara', 'dhoka', 'bipad', 'abathu', 'aapathu', 'pramadam', 'apaya'
+  ],
+  warning: ['चेतावनी', 'इशारा', 'সতর্কতা', 'எச்சரிக்கை', 'హెచ్చరిక', 'ಎಚ್ಚರಿಕೆ', 'chetavani', 'ishara', 'echarikkai'],
+  rescue: ['बचाव', 'উদ্ধার', 'மீட்பு', 'రక్షణ', 'ರಕ್ಷಣೆ', 'bachao', 'bachav', 'uddhar'],
+  high: ['ऊंची', 'ऊँची', 'ऊंचा', 'ऊँचा', 'ऊंचे', 'উঁচু', 'உயரமான', 'ఎత్తైన', 'ಎತ್ತರದ', 'unchi', 'uchi', 'uncha']
+};
+
+// English words that sound like romanized hazard vocabulary and must never be read as a hazard
+const NON_HAZARD_ENGLISH_WORDS = new Set([
+  'bad', 'bath', 'poor', 'pour', 'pure', 'mine', 'main', 'men', 'mean', 'nav', 'navy',
+  'pan', 'pane', 'jail', 'sugar', 'dare', 'alley', 'ally', 'hover'
+]);
+
 /**
  * Interface for text similarity results
  */
@@ -53,13 +113,20 @@ interface DocumentVector {
  * Text preprocessing and normalization utilities
  */
 class TextProcessor {
+  // Phonetic key of every native-script hazard word to its English term
+  private static indicHazardTermsByKey: Map<string, string> | null = null;
+  // Every romanized hazard word, spelled exactly, to its English term
+  private static romanizedHazardTerms: Map<string, string> | null = null;
+
   /**
    * Clean and normalize text for analysis
    */
   static normalizeText(text: string): string {
     return text
+      .normalize('NFC')
       .toLowerCase()
-      .replace(/[^\w\s]/g, ' ') // Replace punctuation with spaces
+      .replace(/[\u200c\u200d]/g, '') // Zero-width joiners used in Indic typing
+      .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ') // Replace punctuation with spaces, keeping vowel signs
       .replace(/\s+/g, ' ') // Normalize whitespace
       .trim();
   }
@@ -70,13 +137,25 @@ class TextProcessor {
   static tokenize(text: string): string[] {
     return this.normalizeText(text)
       .split(' ')
-      .filter(word => word.length > 2 && !STOPWORDS.has(word));
+      .filter(word => {
+        const script = detectScript(word);
+        if (script === 'latin' || script === 'other') {
+          return word.length > 2 && !STOPWORDS.has(word);
+        }
+        // Indic words are short in code units; "जल" is a whole word
+        return word.length > 1 && !INDIC_STOPWORDS[script].has(word);
+      });
   }
 
   /**
-   * Apply stemming (simple suffix removal)
+   * Apply stemming for the token's script
    */
   static stem(word: string): string {
+    const script = detectScript(word);
+    if (script !== 'latin' && script !== 'other') {
+      return stemIndic(word, script);
+    }
+
     // Simple suffix removal for common English endings
     const suffixes = ['ing', 'ly', 'ed', 'ies', 'ied', 'ies', 'ied', 's'];
     
@@ -88,6 +167,61 @@ class TextProcessor {
     return word;
   }
 
+  /**
+   * Map a token to the term stored in document vectors: the English hazard term
+   * when it is hazard vocabulary in any language, otherwise its phonetic key
+   */
+  static toTerm(token: string): string {
+    const stemmed = this.stem(token);
+    const script = detectScript(token);
+
+    if (script !== 'latin' && script !== 'other') {
+      const hazardTerms = this.getIndicHazardTermsByKey();
+      return hazardTerms.get(phoneticKey(token)) || hazardTerms.get(phoneticKey(stemmed)) || phoneticKey(stemmed);
+    }
+
+    if (!NON_HAZARD_ENGLISH_WORDS.has(token)) {
+      if (OCEAN_HAZARD_KEYWORDS.has(token)) return token;
+      if (OCEAN_HAZARD_KEYWORDS.has(stemmed)) return stemmed;
+      const romanized = this.getRomanizedHazardTerms().get(token);
+      if (romanized) return romanized;
+    }
+    return phoneticKey(stemmed);
+  }
+
+  private static getIndicHazardTermsByKey(): Map<string, string> {
+    if (!this.indicHazardTermsByKey) {
+      const terms = new Map<string, string>();
+      for (const [term, variants] of Object.entries(MULTILINGUAL_HAZARD_TERMS)) {
+        for (const variant of variants) {
+          const normalized = this.normalizeText(variant);
+          const script = detectScript(normalized);
+          if (script === 'latin' || script === 'other') continue;
+          terms.set(phoneticKey(normalized), term);
+          terms.set(phoneticKey(this.stem(normalized)), term);
+        }
+      }
+      this.indicHazardTermsByKey = terms;
+    }
+    return this.indicHazardTermsByKey;
+  }
+
+  private static getRomanizedHazardTerms(): Map<string, string> {
+    if (!this.romanizedHazardTerms) {
+      const terms = new Map<string, string>();
+      for (const [term, variants] of Object.entries(MULTILINGUAL_HAZARD_TERMS)) {
+        for (const variant of variants) {
+          const normalized = this.normalizeText(variant);
+          if (detectScript(normalized) === 'latin' && !NON_HAZARD_ENGLISH_WORDS.has(normalized)) {
+            terms.set(normalized, term);
+          }
+        }
+      }
+      this.romanizedHazardTerms = terms;
+    }
+    return this.romanizedHazardTerms;
+  }
+
   /**
    * Calculate term weights based on civic relevance
    */
@@ -120,7 +254,7 @@ export class TextSimilarityService {
    */
   private createDocumentVector(text: string): DocumentVector {
     const tokens = TextProcessor.tokenize(text);
-    const stemmedTokens = tokens.map(token => TextProcessor.stem(token));
+    const stemmedTokens = tokens.map(token => TextProcessor.toTerm(token));
     
     const termFrequency = new Map<string, number>();
     const importantTerms: string[] = [];
@@ -299,12 +433,12 @@ export class TextSimilarityService {
    * Analyze text and extract key civic terms
    */
   public extractCivicTerms(text: string): string[] {
-    const tokens = TextProcessor.tokenize(text);
+    const terms = TextProcessor.tokenize(text).map(token => TextProcessor.toTerm(token));
     const civicTerms: string[] = [];
 
-    for (const token of tokens) {
-      if (OCEAN_HAZARD_KEYWORDS.has(token) && !civicTerms.includes(token)) {
-        civicTerms.push(token);
+    for (const term of terms) {
+      if (OCEAN_HAZARD_KEYWORDS.has(term) && !civicTerms.includes(term)) {
+        civicTerms.push(term);
       }
     }
 
@@ -1,28 +1,26 @@
-// Test script for OpenCage Geocoding with Major City Priority
-// Note: Using configured API key for better results
-// Tests both rural and urban locations to verify major city detection
+// Test script for coastal geocoding with the offline gazetteer
+// Runs without an API key; online providers only refine the street address
+// Tests towns, villages and points at sea to verify district and zone detection
 
 import { testGeocodingAccuracy } from './services/GeocodingService';
 
 // Test cases with known coordinates and expected cities
 const testCases = [
-  // Major cities - should return exact match
+  // Coastal cities - should return exact match
   { lat: 19.0760, lng: 72.8777, expectedCity: "Mumbai" },
-  { lat: 28.7041, lng: 77.1025, expectedCity: "Delhi" },
-  { lat: 12.9716, lng: 77.5946, expectedCity: "Bengaluru" },
+  { lat: 13.0827, lng: 80.2707, expectedCity: "Chennai" },
+  { lat: 9.9312, lng: 76.2673, expectedCity: "Kochi" },
 
-  // Rural areas near major cities - should return nearest major city
-  { lat: 19.2000, lng: 72.9000, expectedCity: "Mumbai" }, // Near Mumbai
-  { lat: 28.6000, lng: 77.2000, expectedCity: "Delhi" },  // Near Delhi
-  { lat: 13.0000, lng: 77.5000, expectedCity: "Bengaluru" }, // Near Bengaluru
+  // Villages and towns near big cities - should keep their own district's town
+  { lat: 18.6414, lng: 72.8722, expectedCity: "Alibag" }, // Across the harbour from Mumbai
+  { lat: 12.6170, lng: 80.1930, expectedCity: "Mamallapuram" }, // South of Chennai
 
-  // International cities
-  { lat: 40.7128, lng: -74.0060, expectedCity: "New York" },
-  { lat: 51.5074, lng: -0.1278, expectedCity: "London" }
+  // At sea - should name the sea zone
+  { lat: 19.4000, lng: 86.2000, expectedCity: "Bay of Bengal off Odisha" }
 ];
 
-console.log('🗺️ Testing OpenCage Geocoding with Major City Priority...');
-console.log('Note: Rural areas should return nearest major city within 50km\n');
+console.log('🗺️ Testing coastal geocoding with the offline gazetteer...');
+console.log('Note: Points at sea should return their coastal sea zone\n');
 
 // Run the test
 testGeocodingAccuracy(testCases);
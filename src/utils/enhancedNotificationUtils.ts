@@ -36,6 +36,31 @@ const statusTemplates: NotificationTemplates = {
     title: 'Report Rejected',
     message: (report: ReportData) => `Your report "${report.title}" could not be processed. Please check your submission details.`,
     type: 'error'
+  },
+  'Triaged': {
+    title: 'Report Triaged',
+    message: (report: ReportData) => `Your report "${report.title}" has been reviewed and prioritised by our team.`,
+    type: 'info'
+  },
+  'Field-Verified': {
+    title: 'Report Verified in the Field',
+    message: (report: ReportData) => `Great news! Your report "${report.title}" has been confirmed on the ground.`,
+    type: 'success'
+  },
+  'Escalated-to-INCOIS': {
+    title: 'Report Escalated to INCOIS',
+    message: (report: ReportData) => `Your report "${report.title}" has been forwarded to INCOIS for early-warning assessment.`,
+    type: 'warning'
+  },
+  'Resolved': {
+    title: 'Report Resolved',
+    message: (report: ReportData) => `The hazard in your report "${report.title}" has been resolved. Thank you for reporting it.`,
+    type: 'success'
+  },
+  'Duplicate': {
+    title: 'Report Linked to an Existing Hazard',
+    message: (report: ReportData) => `Your report "${report.title}" describes a hazard we are already tracking and has been merged with it.`,
+    type: 'info'
   }
 };
 
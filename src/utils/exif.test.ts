@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseExif } from './exif';
+
+/**
+ * A JPEG whose APP1 segment holds a big-endian TIFF block with a GPS IFD:
+ * 19° 4' N, 72° 52' E
+ */
+const jpegWithGps = (): Uint8Array => {
+  const tiff = new DataView(new ArrayBuffer(128));
+  const ascii = (offset: number, text: string) =>
+    [...text].forEach((char, i) => tiff.setUint8(offset + i, char.charCodeAt(0)));
+  const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+    tiff.setUint16(offset, tag);
+    tiff.setUint16(offset + 2, type);
+    tiff.setUint32(offset + 4, count);
+    tiff.setUint32(offset + 8, value);
+  };
+  const rationals = (offset: number, values: number[]) => values.forEach((value, i) => {
+    tiff.setUint32(offset + i * 8, value);
+    tiff.setUint32(offset + i * 8 + 4, 1);
+  });
+
+  ascii(0, 'MM');
+  tiff.setUint16(2, 42);
+  tiff.setUint32(4, 8); // IFD0
+
+  tiff.setUint16(8, 1);
+  entry(10, 0x8825, 4, 1, 26); // GPS IFD
+
+  tiff.setUint16(26, 4);
+  entry(28, 0x0001, 2, 2, 0);
+  ascii(36, 'N');
+  entry(40, 0x0002, 5, 3, 80);
+  entry(52, 0x0003, 2, 2, 0);
+  ascii(60, 'E');
+  entry(64, 0x0004, 5, 3, 104);
+  rationals(80, [19, 4, 0]);
+  rationals(104, [72, 52, 0]);
+
+  const header = [0xff, 0xd8, 0xff, 0xe1, 0, 2 + 6 + tiff.byteLength, 0x45, 0x78, 0x69, 0x66, 0, 0];
+  return new Uint8Array([...header, ...new Uint8Array(tiff.buffer), 0xff, 0xd9]);
+};
+
+describe('parseExif', () => {
+  it('reads the GPS position', () => {
+    const exif = parseExif(jpegWithGps().buffer);
+
+    expect(exif.hasExif).toBe(true);
+    expect(exif.gps?.lat).toBeCloseTo(19 + 4 / 60);
+    expect(exif.gps?.lng).toBeCloseTo(72 + 52 / 60);
+  });
+
+  it('returns no GPS or timestamp for a truncated APP1 segment instead of throwing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const bytes = jpegWithGps();
+
+    // Cut off inside the Exif header, the TIFF header and the IFD0 offset
+    for (const length of [6, 9, 13, 15, 18]) {
+      const exif = parseExif(bytes.slice(0, length).buffer);
+      expect(exif.hasExif).toBe(false);
+      expect(exif.gps).toBeUndefined();
+      expect(exif.dateTimeOriginal).toBeUndefined();
+    }
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Minimal EXIF reader for JPEG images
+ * Extracts the capture time, GPS position and camera details from the APP1
+ * segment. Client-side canvas compression strips EXIF, so this must run on the
+ * original bytes before any resizing.
+ */
+
+export interface ExifData {
+  hasExif: boolean;
+  make?: string;
+  model?: string;
+  software?: string;
+  orientation?: number;
+  dateTime?: string; // Last modification time written by the camera or editor
+  dateTimeOriginal?: string; // Capture time, ISO 8601 without zone unless offsetTimeOriginal is present
+  offsetTimeOriginal?: string; // e.g. "+05:30"
+  gps?: {
+    lat: number;
+    lng: number;
+    altitude?: number;
+    accuracy?: number; // Horizontal positioning error in metres, when the camera records it
+    direction?: number; // Compass direction the camera faced, degrees
+    timestamp?: string; // UTC ISO timestamp from the GPS receiver
+  };
+}
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_SOFTWARE = 0x0131;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+const GPS_LAT_REF = 0x0001;
+const GPS_LAT = 0x0002;
+const GPS_LNG_REF = 0x0003;
+const GPS_LNG = 0x0004;
+const GPS_ALT_REF = 0x0005;
+const GPS_ALT = 0x0006;
+const GPS_TIMESTAMP = 0x0007;
+const GPS_IMG_DIRECTION = 0x0011;
+const GPS_DATESTAMP = 0x001d;
+const GPS_H_POSITIONING_ERROR = 0x001f;
+
+// Bytes per component for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number | number[];
+
+const readIfd = (
+  view: DataView,
+  tiffStart: number,
+  ifdOffset: number,
+  littleEndian: boolean
+): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  const entryStart = tiffStart + ifdOffset;
+  if (entryStart + 2 > view.byteLength) return tags;
+
+  const entryCount = view.getUint16(entryStart, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = entryStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const count = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] || 0) * count;
+    if (size === 0) continue;
+
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, littleEndian) : entry + 8;
+    if (valueOffset + size > view.byteLength) continue;
+
+    const value = readValue(view, valueOffset, type, count, littleEndian);
+    if (value !== undefined) tags.set(tag, value);
+  }
+  return tags;
+};
+
+const readValue = (
+  view: DataView,
+  offset: number,
+  type: number,
+  count: number,
+  littleEndian: boolean
+): TagValue | undefined => {
+  switch (type) {
+    case 2: { // ASCII
+      let text = '';
+      for (let i = 0; i < count; i++) {
+        const code = view.getUint8(offset + i);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      return text.trim();
+    }
+    case 1:
+    case 7:
+      return count === 1 ? view.getUint8(offset) : Array.from({ length: count }, (_, i) => view.getUint8(offset + i));
+    case 3:
+      return count === 1
+        ? view.getUint16(offset, littleEndian)
+        : Array.from({ length: count }, (_, i) => view.getUint16(offset + i * 2, littleEndian));
+    case 4:
+    case 9:
+      return count === 1
+        ? view.getUint32(offset, littleEndian)
+        : Array.from({ length: count }, (_, i) => view.getUint32(offset + i * 4, littleEndian));
+    case 5:
+    case 10: {
+      const rationals = Array.from({ length: count }, (_, i) => {
+        const numerator = type === 5
+          ? view.getUint32(offset + i * 8, littleEndian)
+          : view.getInt32(offset + i * 8, littleEndian);
+        const denominator = type === 5
+          ? view.getUint32(offset + i * 8 + 4, littleEndian)
+          : view.getInt32(offset + i * 8 + 4, littleEndian);
+        return denominator === 0 ? 0 : numerator / denominator;
+      });
+      return count === 1 ? rationals[0] : rationals;
+    }
+    default:
+      return undefined;
+  }
+};
+
+// "2024:05:18 14:03:22" -> "2024-05-18T14:03:22"
+const exifDateToIso = (value: TagValue | undefined): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+};
+
+const dmsToDecimal = (value: TagValue | undefined, ref: TagValue | undefined): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const [degrees, minutes, seconds] = value;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return ref === 'S' || ref === 'W' ? -decimal : decimal;
+};
+
+const readGps = (tags: Map<number, TagValue>): ExifData['gps'] => {
+  const lat = dmsToDecimal(tags.get(GPS_LAT), tags.get(GPS_LAT_REF));
+  const lng = dmsToDecimal(tags.get(GPS_LNG), tags.get(GPS_LNG_REF));
+  if (lat === undefined || lng === undefined) return undefined;
+  if (lat === 0 && lng === 0) return undefined; // Placeholder written by some devices without a fix
+
+  const altitudeValue = tags.get(GPS_ALT);
+  const altitude = typeof altitudeValue === 'number'
+    ? (tags.get(GPS_ALT_REF) === 1 ? -altitudeValue : altitudeValue)
+    : undefined;
+
+  const accuracyValue = tags.get(GPS_H_POSITIONING_ERROR);
+  const directionValue = tags.get(GPS_IMG_DIRECTION);
+  const accuracy = typeof accuracyValue === 'number' ? accuracyValue : undefined;
+  const direction = typeof directionValue === 'number' ? directionValue : undefined;
+
+  let timestamp: string | undefined;
+  const dateStamp = tags.get(GPS_DATESTAMP);
+  const timeStamp = tags.get(GPS_TIMESTAMP);
+  if (typeof dateStamp === 'string' && Array.isArray(timeStamp) && timeStamp.length >= 3) {
+    const [hours, minutes, seconds] = timeStamp.map(part => String(Math.floor(part)).padStart(2, '0'));
+    timestamp = `${dateStamp.replace(/:/g, '-')}T${hours}:${minutes}:${seconds}Z`;
+  }
+
+  return { lat, lng, altitude, accuracy, direction, timestamp };
+};
+
+const readExif = (view: DataView): ExifData => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return { hasExif: false };
+  }
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      const tiffStart = offset + 10;
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+
+      const exifIfdOffset = ifd0.get(TAG_EXIF_IFD);
+      const exifIfd = typeof exifIfdOffset === 'number'
+        ? readIfd(view, tiffStart, exifIfdOffset, littleEndian)
+        : new Map<number, TagValue>();
+
+      const gpsIfdOffset = ifd0.get(TAG_GPS_IFD);
+      const gpsIfd = typeof gpsIfdOffset === 'number'
+        ? readIfd(view, tiffStart, gpsIfdOffset, littleEndian)
+        : new Map<number, TagValue>();
+
+      const offsetTime = exifIfd.get(TAG_OFFSET_TIME_ORIGINAL);
+      const orientation = ifd0.get(TAG_ORIENTATION);
+
+      return {
+        hasExif: true,
+        make: ifd0.get(TAG_MAKE) as string | undefined,
+        model: ifd0.get(TAG_MODEL) as string | undefined,
+        software: ifd0.get(TAG_SOFTWARE) as string | undefined,
+        orientation: typeof orientation === 'number' ? orientation : undefined,
+        dateTime: exifDateToIso(ifd0.get(TAG_DATETIME)),
+        dateTimeOriginal: exifDateToIso(exifIfd.get(TAG_DATETIME_ORIGINAL)),
+        offsetTimeOriginal: typeof offsetTime === 'string' ? offsetTime : undefined,
+        gps: readGps(gpsIfd)
+      };
+    }
+
+    // Start of scan - no more metadata segments
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    offset += 2 + segmentLength;
+  }
+
+  return { hasExif: false };
+};
+
+/**
+ * Parse EXIF metadata from the bytes of a JPEG file
+ * Returns `{ hasExif: false }` for non-JPEG data, images without an EXIF
+ * segment, and segments too truncated or malformed to read.
+ */
+export const parseExif = (buffer: ArrayBuffer): ExifData => {
+  try {
+    return readExif(new DataView(buffer));
+  } catch (error) {
+    // DataView reads past the end of a cut-off segment throw RangeError
+    console.warn('Unreadable EXIF segment, ignoring it:', error);
+    return { hasExif: false };
+  }
+};
+
+/**
+ * Parse EXIF metadata from a base64 data URL
+ */
+export const parseExifFromDataUrl = (dataUrl: string): ExifData => {
+  const base64 = dataUrl.split(',')[1];
+  if (!base64) return { hasExif: false };
+
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return parseExif(bytes.buffer);
+};
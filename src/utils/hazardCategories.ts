@@ -0,0 +1,28 @@
+/**
+ * Report category to hazard type mapping
+ * Kept free of service imports so clustering and grouping code can use it
+ * without pulling in Supabase or IPFS clients
+ */
+
+// Map ocean hazard categories to hazard types for database consistency
+export const getHazardTypeFromCategory = (category: string): string => {
+  const categoryToHazardType: { [key: string]: string } = {
+    'Tsunami Events': 'tsunami',
+    'Storm Surge': 'storm_surge', 
+    'High Waves': 'high_waves',
+    'Swell Surges': 'swell_surge',
+    'Coastal Currents': 'coastal_current',
+    'Coastal Erosion': 'coastal_erosion',
+    'Marine Debris': 'marine_debris',
+    'Unusual Sea Behavior': 'unusual_sea_behavior',
+    'Coastal Infrastructure': 'infrastructure_damage',
+    'Others': 'general_hazard'
+  };
+
+  // Make case-insensitive lookup
+  const normalizedCategory = Object.keys(categoryToHazardType).find(
+    key => key.toLowerCase() === category.toLowerCase()
+  ) || category;
+  
+  return categoryToHazardType[normalizedCategory] || 'general_hazard';
+};
@@ -0,0 +1,57 @@
+/**
+ * Small promise wrappers around the IndexedDB request/transaction API.
+ * Each offline subsystem (report store, outbox, tile packs) owns its own
+ * database and passes its schema in through the `upgrade` callback.
+ */
+
+export const isIndexedDBAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined' && indexedDB !== null;
+
+/**
+ * Open (and if needed create or upgrade) an IndexedDB database
+ * @param name - Database name
+ * @param version - Schema version; bump it when the upgrade callback changes
+ * @param upgrade - Creates object stores and indexes for the new version
+ */
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDBAvailable()) {
+      reject(new Error('IndexedDB is not supported in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction as IDBTransaction);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`IndexedDB database ${name} is blocked by another tab`));
+  });
+};
+
+/**
+ * Resolve with the result of a single IndexedDB request
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolve once a transaction has committed
+ */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+};
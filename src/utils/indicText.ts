@@ -0,0 +1,230 @@
+/**
+ * Indic text utilities for report text matching
+ *
+ * Covers the scripts of the languages the app supports: Devanagari (Hindi, Marathi),
+ * Bengali, Tamil, Telugu and Kannada. Provides script detection, stopword lists,
+ * light suffix-stripping stemmers, and a romanizer plus phonetic key so native
+ * and romanized spellings of a word ("तूफ़ान", "toofan", "tufaan") compare equal.
+ *
+ * These Brahmic scripts share the ISCII-derived Unicode layout, so one table of
+ * offsets from each block start romanizes all of them.
+ */
+
+export type IndicScript = 'devanagari' | 'bengali' | 'tamil' | 'telugu' | 'kannada';
+export type TokenScript = IndicScript | 'latin' | 'other';
+
+const SCRIPT_BLOCKS: Array<{ script: IndicScript; start: number }> = [
+  { script: 'devanagari', start: 0x0900 },
+  { script: 'bengali', start: 0x0980 },
+  { script: 'tamil', start: 0x0b80 },
+  { script: 'telugu', start: 0x0c00 },
+  { script: 'kannada', start: 0x0c80 }
+];
+
+// Offsets within a script block
+const VIRAMA = 0x4d;
+const NUKTA = 0x3c;
+const ANUSVARA = [0x01, 0x02]; // Candrabindu, anusvara
+const VISARGA = 0x03;
+const KHANDA_TA = 0x4e; // Bengali ৎ
+
+const INDEPENDENT_VOWELS: Record<number, string> = {
+  0x05: 'a', 0x06: 'aa', 0x07: 'i', 0x08: 'ii', 0x09: 'u', 0x0a: 'uu', 0x0b: 'ri',
+  0x0e: 'e', 0x0f: 'e', 0x10: 'ai', 0x12: 'o', 0x13: 'o', 0x14: 'au'
+};
+
+const VOWEL_SIGNS: Record<number, string> = {
+  0x3e: 'aa', 0x3f: 'i', 0x40: 'ii', 0x41: 'u', 0x42: 'uu', 0x43: 'ri',
+  0x46: 'e', 0x47: 'e', 0x48: 'ai', 0x4a: 'o', 0x4b: 'o', 0x4c: 'au', 0x57: 'au'
+};
+
+const CONSONANTS: Record<number, string> = {
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'ng',
+  0x1a: 'ch', 0x1b: 'chh', 0x1c: 'j', 0x1d: 'jh', 0x1e: 'ny',
+  0x1f: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n',
+  0x24: 't', 0x25: 'th', 0x26: 'd', 0x27: 'dh', 0x28: 'n', 0x29: 'n',
+  0x2a: 'p', 0x2b: 'ph', 0x2c: 'b', 0x2d: 'bh', 0x2e: 'm',
+  0x2f: 'y', 0x30: 'r', 0x31: 'r', 0x32: 'l', 0x33: 'l', 0x34: 'zh', 0x35: 'v',
+  0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h',
+  // Precomposed nukta forms
+  0x58: 'q', 0x59: 'kh', 0x5a: 'g', 0x5b: 'z', 0x5c: 'r', 0x5d: 'rh', 0x5e: 'f', 0x5f: 'y'
+};
+
+// Consonant + nukta, written as two code points after normalization
+const NUKTA_FORMS: Record<string, string> = {
+  k: 'q', kh: 'kh', g: 'g', j: 'z', d: 'r', dh: 'rh', ph: 'f', y: 'y'
+};
+
+export const INDIC_STOPWORDS: Record<IndicScript, Set<string>> = {
+  devanagari: new Set([
+    // Hindi
+    'का', 'की', 'के', 'है', 'हैं', 'में', 'से', 'को', 'पर', 'और', 'या', 'यह', 'वह', 'ये', 'वे',
+    'था', 'थी', 'थे', 'हो', 'भी', 'तो', 'ही', 'एक', 'कि', 'जो', 'कर', 'रहा', 'रही', 'रहे',
+    'गया', 'गई', 'गए', 'बहुत', 'लिए', 'ने', 'नहीं', 'इस', 'उस', 'अब', 'तक', 'यहाँ', 'यहां', 'वहाँ', 'वहां',
+    // Marathi
+    'आहे', 'आहेत', 'आणि', 'व', 'हे', 'ती', 'ते', 'मध्ये', 'वर', 'खूप', 'होते', 'होता', 'होती',
+    'झाले', 'पण', 'नाही', 'आता', 'येथे', 'इथे', 'तेथे'
+  ]),
+  bengali: new Set([
+    'এবং', 'ও', 'এই', 'সেই', 'একটি', 'একটা', 'আছে', 'ছিল', 'হয়', 'হয়েছে', 'করে', 'থেকে',
+    'জন্য', 'না', 'কিন্তু', 'এখানে', 'সেখানে', 'খুব', 'যে', 'সে', 'তার', 'আর', 'এ', 'কি'
+  ]),
+  tamil: new Set([
+    'மற்றும்', 'ஒரு', 'இந்த', 'அந்த', 'உள்ளது', 'உள்ளன', 'இருக்கிறது', 'இல்லை', 'மிகவும்',
+    'என்று', 'அது', 'இது', 'ஆனால்', 'போன்ற', 'இங்கு', 'அங்கு', 'இங்கே', 'அங்கே'
+  ]),
+  telugu: new Set([
+    'మరియు', 'ఒక', 'ఈ', 'ఆ', 'ఉంది', 'ఉన్నాయి', 'లేదు', 'చాలా', 'అని', 'అది', 'ఇది',
+    'కానీ', 'ఇక్కడ', 'అక్కడ', 'కూడా'
+  ]),
+  kannada: new Set([
+    'ಮತ್ತು', 'ಒಂದು', 'ಈ', 'ಆ', 'ಇದೆ', 'ಇವೆ', 'ಇಲ್ಲ', 'ತುಂಬಾ', 'ಎಂದು', 'ಅದು', 'ಇದು',
+    'ಆದರೆ', 'ಇಲ್ಲಿ', 'ಅಲ್ಲಿ', 'ಕೂಡ', 'ಬಹಳ'
+  ])
+};
+
+// Case and plural endings, longest first; only stripped when a stem of two or more letters remains
+const INDIC_SUFFIXES: Record<IndicScript, string[]> = {
+  devanagari: [
+    'मध्ये', 'ियों', 'ियां', 'ियाँ', 'ाओं', 'ाएं', 'ाएँ', 'ुओं', 'ांना', 'ांची', 'ांचा', 'ांचे',
+    'ाचा', 'ाची', 'ाचे', 'ाला', 'ाने', 'ों', 'ें', 'ाँ', 'ां', 'ीं', 'चा', 'ची', 'चे', 'ला', 'ात',
+    'ा', 'ी', 'े', 'ो'
+  ],
+  bengali: ['গুলোতে', 'গুলিতে', 'গুলোর', 'গুলির', 'গুলো', 'গুলি', 'দের', 'েরা', 'েতে', 'ের', 'তে', 'কে', 'টি', 'টা', 'রা', 'ে'],
+  tamil: ['களுக்கு', 'களில்', 'களை', 'கள்', 'யில்', 'வில்', 'ுக்கு', 'க்கு', 'ில்', 'ின்', 'ால்', 'ோடு', 'ை'],
+  telugu: ['ల్లో', 'లలో', 'లకు', 'లను', 'లతో', 'లో', 'లు', 'ను', 'కు', 'ని', 'తో', 'గా'],
+  kannada: ['ಗಳಲ್ಲಿ', 'ಗಳನ್ನು', 'ಗಳಿಗೆ', 'ಗಳು', 'ದಲ್ಲಿ', 'ನಲ್ಲಿ', 'ಯಲ್ಲಿ', 'ವನ್ನು', 'ಯನ್ನು', 'ಲ್ಲಿ', 'ನ್ನು', 'ಕ್ಕೆ', 'ಗೆ']
+};
+
+// Scripts where the inherent vowel is dropped in speech ("कमला" is kamlaa, not kamalaa)
+const SCHWA_DELETING_SCRIPTS = new Set<IndicScript>(['devanagari', 'bengali']);
+
+// Applied in order to romanized text; folds the common spelling variants together
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/chh|ch/g, 'c'],
+  [/sh/g, 's'],
+  [/ph/g, 'f'],
+  [/zh/g, 'l'],
+  [/([kgtdbjr])h/g, '$1'],
+  [/w/g, 'v'],
+  [/z/g, 'j'],
+  [/q/g, 'k'],
+  [/x/g, 'ks'],
+  [/ee|ii/g, 'i'],
+  [/oo|uu/g, 'u'],
+  [/aa/g, 'a'],
+  [/ai|ei|ay/g, 'e'],
+  [/au|ou/g, 'o'],
+  [/(.)\1+/g, '$1']
+];
+
+const getIndicBlock = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  return SCRIPT_BLOCKS.find(block => code >= block.start && code < block.start + 0x80);
+};
+
+/**
+ * Script of a token, judged by its first letter
+ */
+export function detectScript(token: string): TokenScript {
+  const first = token.charAt(0);
+  const block = getIndicBlock(first);
+  if (block) return block.script;
+  return /[a-z]/i.test(first) ? 'latin' : 'other';
+}
+
+/**
+ * Strip one case or plural ending
+ */
+export function stemIndic(token: string, script: IndicScript): string {
+  for (const suffix of INDIC_SUFFIXES[script]) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= 2) {
+      const stem = token.slice(0, -suffix.length);
+      // Tamil suffixes fuse with a consonant-final stem (கடல் + இல் = கடலில்), so restore the virama
+      if (script === 'tamil' && CONSONANTS[(stem.codePointAt(stem.length - 1) ?? 0) - 0x0b80] && /^[ா-ௌ]/.test(suffix)) {
+        return `${stem}்`;
+      }
+      return stem;
+    }
+  }
+  return token;
+}
+
+interface Syllable {
+  consonant: string;
+  vowel: string;
+  coda: string;
+  inherent: boolean;
+}
+
+/**
+ * Romanize an Indic word, roughly following common informal spellings
+ */
+export function romanizeIndic(token: string): string {
+  const syllables: Syllable[] = [];
+  let script: IndicScript | null = null;
+
+  for (const char of token) {
+    const block = getIndicBlock(char);
+    if (!block) continue;
+    script = script || block.script;
+
+    const offset = (char.codePointAt(0) as number) - block.start;
+    const last = syllables[syllables.length - 1];
+
+    if (CONSONANTS[offset]) {
+      syllables.push({ consonant: CONSONANTS[offset], vowel: 'a', coda: '', inherent: true });
+    } else if (INDEPENDENT_VOWELS[offset]) {
+      syllables.push({ consonant: '', vowel: INDEPENDENT_VOWELS[offset], coda: '', inherent: false });
+    } else if (VOWEL_SIGNS[offset] && last) {
+      last.vowel = VOWEL_SIGNS[offset];
+      last.inherent = false;
+    } else if (offset === VIRAMA && last) {
+      last.vowel = '';
+      last.inherent = false;
+    } else if (offset === NUKTA && last) {
+      last.consonant = NUKTA_FORMS[last.consonant] || last.consonant;
+    } else if (ANUSVARA.includes(offset) && last) {
+      last.coda = 'n';
+    } else if (offset === VISARGA && last) {
+      last.coda = 'h';
+    } else if (offset === KHANDA_TA) {
+      syllables.push({ consonant: 't', vowel: '', coda: '', inherent: false });
+    }
+  }
+
+  if (script && SCHWA_DELETING_SCRIPTS.has(script)) {
+    // Word-final schwa, then a medial schwa between two open syllables (V C_ CV)
+    const final = syllables[syllables.length - 1];
+    if (syllables.length > 1 && final.inherent && !final.coda) {
+      final.vowel = '';
+    }
+    for (let i = 1; i < syllables.length - 1; i++) {
+      const previous = syllables[i - 1];
+      const next = syllables[i + 1];
+      if (syllables[i].inherent && !syllables[i].coda && syllables[i].consonant &&
+          previous.vowel && !previous.coda && next.consonant && next.vowel) {
+        syllables[i].vowel = '';
+        i++; // The following syllable now starts a cluster and keeps its vowel
+      }
+    }
+  }
+
+  return syllables.map(s => `${s.consonant}${s.vowel}${s.coda}`).join('');
+}
+
+/**
+ * Spelling-insensitive key for a word in any supported script
+ */
+export function phoneticKey(token: string): string {
+  const script = detectScript(token);
+  let key = script === 'latin' ? token.toLowerCase() : romanizeIndic(token);
+  if (!key) return token;
+
+  for (const [pattern, replacement] of PHONETIC_RULES) {
+    key = key.replace(pattern, replacement);
+  }
+
+  // Trailing vowels vary most between languages and spellings (tufan, tufaanu)
+  return key.length > 3 ? key.replace(/[aeiou]$/, '') : key;
+}
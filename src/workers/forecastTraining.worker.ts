@@ -0,0 +1,31 @@
+/**
+ * Forecast Training Worker
+ * Trains one coastal zone's LSTM and scores its baselines for HazardForecastService,
+ * so epochs of training don't block the admin's UI thread
+ */
+
+import {
+  trainForecastModels,
+  type TimeSeriesData,
+  type TrainedForecastModels,
+  type TrainingOptions
+} from '../services/PredictiveAnalyticsService';
+
+export interface ForecastTrainingRequest {
+  series: TimeSeriesData[];
+  options: TrainingOptions;
+}
+
+export type ForecastTrainingResponse =
+  | { result: TrainedForecastModels; error?: undefined }
+  | { result?: undefined; error: string };
+
+self.onmessage = async (event: MessageEvent<ForecastTrainingRequest>) => {
+  let response: ForecastTrainingResponse;
+  try {
+    response = { result: await trainForecastModels(event.data.series, event.data.options) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};